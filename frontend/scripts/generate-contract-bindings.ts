@@ -0,0 +1,115 @@
+/**
+ * Contract bindings generator
+ *
+ * Usage:
+ *   npm run contracts:bindings -- [--simnet <Clarinet.toml>] [--out <dir>]
+ *   npm run contracts:bindings -- --node [<api url>] [--out <dir>]
+ *
+ * Reads contract ABIs and writes one typed module per contract, plus an
+ * index, to --out (default src/lib/contracts/generated).
+ *
+ * --simnet (the default, ../time-banking/Clarinet.toml) takes the ABIs of
+ * the project's own contracts from the Clarinet simnet, using the
+ * clarinet-sdk installed next to the manifest. --node asks a Stacks node's
+ * contract interface endpoint for each contract in CONTRACT_NAMES at its
+ * configured deployer, using the configured API URL unless one is given.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  API_ENDPOINTS,
+  CONTRACT_NAMES,
+  getContractAddress,
+  getNetworkConfig,
+} from '../src/lib/contractConfig';
+import {
+  generateBindingsIndex,
+  generateContractBindings,
+  type ContractAbiSource,
+} from '../src/lib/contracts/bindings-codegen';
+import type { ContractConfig } from '../src/types/contracts';
+
+const DEFAULT_MANIFEST = path.resolve(__dirname, '../../time-banking/Clarinet.toml');
+const DEFAULT_OUT_DIR = path.resolve(__dirname, '../src/lib/contracts/generated');
+const RUNTIME_PATH = path.resolve(__dirname, '../src/lib/contracts/bindings-runtime');
+
+const argValue = (flag: string): string | undefined => {
+  const index = process.argv.indexOf(flag);
+  const value = index >= 0 ? process.argv[index + 1] : undefined;
+  return value && !value.startsWith('--') ? value : undefined;
+};
+
+async function loadFromSimnet(manifestPath: string): Promise<ContractAbiSource[]> {
+  // Resolve the SDK from the Clarinet project, which owns that dependency
+  const projectRequire = createRequire(manifestPath);
+  const { initSimnet } = projectRequire('@stacks/clarinet-sdk');
+  const simnet = await initSimnet(manifestPath);
+
+  const contracts: ContractAbiSource[] = [];
+  const interfaces: Map<string, { functions: ClarityAbiFunction[] }> =
+    simnet.getContractsInterfaces();
+
+  interfaces.forEach((contractInterface, contractId) => {
+    const [address, contractName] = contractId.split('.');
+    // Skip requirements deployed by other addresses
+    if (address !== simnet.deployer) return;
+    contracts.push({ contractName, functions: contractInterface.functions });
+  });
+
+  return contracts;
+}
+
+async function loadFromNode(apiUrl: string): Promise<ContractAbiSource[]> {
+  const keys = Object.keys(CONTRACT_NAMES) as Array<keyof ContractConfig>;
+
+  return Promise.all(
+    keys.map(async (key) => {
+      const contractName = CONTRACT_NAMES[key];
+      const response = await fetch(
+        `${apiUrl}${API_ENDPOINTS.contractInfo(getContractAddress(key), contractName)}`
+      );
+      if (!response.ok) {
+        throw new Error(`${contractName}: interface request failed with ${response.status}`);
+      }
+
+      const contractInterface = (await response.json()) as { functions: ClarityAbiFunction[] };
+      return { contractName, functions: contractInterface.functions };
+    })
+  );
+}
+
+async function main(): Promise<void> {
+  const outDir = path.resolve(argValue('--out') || DEFAULT_OUT_DIR);
+
+  try {
+    const contracts = process.argv.includes('--node')
+      ? await loadFromNode(argValue('--node') || getNetworkConfig().apiUrl)
+      : await loadFromSimnet(path.resolve(argValue('--simnet') || DEFAULT_MANIFEST));
+
+    if (contracts.length === 0) {
+      throw new Error('No contract interfaces found');
+    }
+
+    fs.mkdirSync(outDir, { recursive: true });
+    const relativeRuntime = path.relative(outDir, RUNTIME_PATH).split(path.sep).join('/');
+    const runtimeImport = relativeRuntime.startsWith('.') ? relativeRuntime : `./${relativeRuntime}`;
+
+    const moduleNames = contracts.map((contract) => {
+      const { moduleName, source } = generateContractBindings(contract, { runtimeImport });
+      fs.writeFileSync(path.join(outDir, `${moduleName}.ts`), source);
+      console.log(`   ✅ ${contract.contractName} -> ${moduleName}.ts`);
+      return moduleName;
+    });
+
+    fs.writeFileSync(path.join(outDir, 'index.ts'), generateBindingsIndex(moduleNames));
+    console.log(`📦 Wrote bindings for ${moduleNames.length} contract(s) to ${outDir}`);
+  } catch (error) {
+    console.error('❌ Generation failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,57 @@
+/**
+ * Contract error catalog generator
+ *
+ * Usage:
+ *   npm run contracts:errors -- [--contracts <dir>]
+ *
+ * Reads the `(define-constant ERR_* (err uNNNN))` constants of every .clar
+ * file in --contracts (default ../time-banking/contracts) and rewrites
+ * src/lib/clarity-types/error-constants.ts. Run it whenever a contract's
+ * error constants change; error-catalog.test.ts fails until you do.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildErrorCatalog, renderErrorConstants } from '../src/lib/clarity-types/error-catalog';
+
+const DEFAULT_CONTRACTS_DIR = path.resolve(__dirname, '../../time-banking/contracts');
+const OUT_FILE = path.resolve(__dirname, '../src/lib/clarity-types/error-constants.ts');
+
+const argValue = (flag: string): string | undefined => {
+  const index = process.argv.indexOf(flag);
+  const value = index >= 0 ? process.argv[index + 1] : undefined;
+  return value && !value.startsWith('--') ? value : undefined;
+};
+
+function main(): void {
+  const contractsDir = path.resolve(argValue('--contracts') || DEFAULT_CONTRACTS_DIR);
+
+  try {
+    const sources: Record<string, string> = {};
+    fs.readdirSync(contractsDir)
+      .filter((file) => file.endsWith('.clar'))
+      .forEach((file) => {
+        sources[path.basename(file, '.clar')] = fs.readFileSync(
+          path.join(contractsDir, file),
+          'utf8'
+        );
+      });
+
+    const catalog = buildErrorCatalog(sources);
+    const contracts = Object.keys(catalog);
+    if (contracts.length === 0) {
+      throw new Error(`No contracts found in ${contractsDir}`);
+    }
+
+    fs.writeFileSync(OUT_FILE, renderErrorConstants(catalog));
+    contracts.forEach((contract) => {
+      console.log(`   ✅ ${contract}: ${Object.keys(catalog[contract]).length} error(s)`);
+    });
+    console.log(`📦 Wrote ${contracts.length} contract(s) to ${OUT_FILE}`);
+  } catch (error) {
+    console.error('❌ Generation failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+main();
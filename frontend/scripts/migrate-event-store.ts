@@ -0,0 +1,63 @@
+/**
+ * Apply or revert realtime event store migrations
+ *
+ * Usage:
+ *   npm run db:migrate -- [up [version] | down [steps] | status]
+ *
+ * Connects using DATABASE_URL.
+ */
+
+import * as path from 'path';
+import { Pool } from 'pg';
+import { MigrationRunner } from '../src/lib/realtime/migration-runner';
+
+const MIGRATIONS_DIR = path.join(__dirname, '../src/lib/realtime/migrations');
+
+async function main(): Promise<void> {
+  const [command = 'up', arg] = process.argv.slice(2);
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL || 'postgresql://localhost:5432/timebank',
+  });
+  const runner = new MigrationRunner(pool, MIGRATIONS_DIR);
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await runner.migrate(arg ? parseInt(arg) : undefined);
+        console.log(
+          applied.length > 0
+            ? `✅ Applied ${applied.length} migration(s)`
+            : '✅ Database is up to date'
+        );
+        break;
+      }
+
+      case 'down': {
+        const reverted = await runner.rollback(arg ? parseInt(arg) : 1);
+        console.log(`✅ Reverted ${reverted.length} migration(s)`);
+        break;
+      }
+
+      case 'status': {
+        const status = await runner.status();
+        console.log('\n📋 Event store migrations\n');
+        status.forEach((m) => {
+          const state = m.applied ? `applied ${m.appliedAt?.toISOString()}` : 'pending';
+          console.log(`   ${m.applied ? '✅' : '⏳'} ${m.version} ${m.name} (${state})`);
+        });
+        break;
+      }
+
+      default:
+        console.error(`Unknown command: ${command}`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,88 @@
+/**
+ * Automation scheduler keeper
+ *
+ * Usage:
+ *   npm run keeper -- [--once]
+ *
+ * Every KEEPER_INTERVAL_MS (default 60s) submits execute-schedule for each
+ * schedule whose is-ready is true, signed with KEEPER_SERVICE_KEY. Claims are
+ * kept in the event store database (DATABASE_URL, migration 005), so any
+ * number of keepers can run at once without double-submitting.
+ */
+
+import * as os from 'os';
+import { Pool } from 'pg';
+import {
+  PostgresKeeperClaimStore,
+  createScheduleExecutor,
+  runKeeperPass,
+} from '../src/lib/schedule-keeper';
+
+const DEFAULT_INTERVAL_MS = 60_000;
+
+async function main(): Promise<void> {
+  const once = process.argv.includes('--once');
+  const senderKey = process.env.KEEPER_SERVICE_KEY;
+
+  if (!senderKey) {
+    console.error('❌ KEEPER_SERVICE_KEY is not set');
+    process.exitCode = 1;
+    return;
+  }
+
+  const keeperId = process.env.KEEPER_ID || `${os.hostname()}-${process.pid}`;
+  const intervalMs = parseInt(process.env.KEEPER_INTERVAL_MS || '') || DEFAULT_INTERVAL_MS;
+  const pool = new Pool({
+    connectionString: process.env.DATABASE_URL || 'postgresql://localhost:5432/timebank',
+  });
+  const claims = new PostgresKeeperClaimStore(pool);
+  const execute = createScheduleExecutor(senderKey);
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopping = true;
+    wake?.();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`⏱️  Keeper ${keeperId} started${once ? ' (single pass)' : ''}`);
+
+  try {
+    while (!stopping) {
+      try {
+        const result = await runKeeperPass({ keeperId, claims, execute });
+        result.submitted.forEach(({ scheduleId, txId }) =>
+          console.log(`   ✅ Schedule #${scheduleId} executed: ${txId}`)
+        );
+        result.skipped.forEach((scheduleId) =>
+          console.log(`   ⏭️  Schedule #${scheduleId} claimed by another keeper`)
+        );
+        result.failed.forEach(({ scheduleId, error }) =>
+          console.error(`   ❌ Schedule #${scheduleId} failed: ${error}`)
+        );
+        console.log(
+          `📋 Checked ${result.checked} schedule(s), submitted ${result.submitted.length}`
+        );
+      } catch (error) {
+        console.error('❌ Keeper pass failed:', error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+      }
+
+      if (once) break;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, intervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  } finally {
+    await pool.end();
+    console.log(`👋 Keeper ${keeperId} stopped`);
+  }
+}
+
+main();
@@ -0,0 +1,25 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface PauseBannerProps {
+  /** Reason from the write hook's pause guard; nothing renders when null */
+  message: string | null;
+}
+
+const PauseBanner: React.FC<PauseBannerProps> = ({ message }) => {
+  if (!message) return null;
+
+  return (
+    <div className="alert alert-warning flex items-start space-x-3" role="alert">
+      <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+      <div>
+        <p className="font-medium">{message}</p>
+        <p className="text-sm">
+          Actions that submit transactions are disabled until it is unpaused.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PauseBanner;
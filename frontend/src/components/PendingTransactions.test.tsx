@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import PendingTransactions from './PendingTransactions';
+import { TransactionStatus, type TrackedTransaction } from '@/lib/transaction-tracker';
+
+const original: TrackedTransaction = {
+  txId: '0xoriginal000',
+  status: TransactionStatus.PENDING,
+  startedAt: 0,
+  metadata: { label: 'Registration' },
+};
+
+function renderPanel(chain: TrackedTransaction[], confirmed?: TrackedTransaction) {
+  const props = {
+    tracked: chain,
+    speedUp: vi.fn().mockResolvedValue(undefined),
+    cancel: vi.fn().mockRejectedValue(new Error('Request cancelled')),
+    getReplacementChain: vi.fn(() => chain),
+    getConfirmedInChain: vi.fn(() => confirmed),
+  };
+  render(<PendingTransactions {...props} />);
+  return props;
+}
+
+describe('PendingTransactions', () => {
+  it('renders nothing when no transactions are tracked', () => {
+    const { container } = render(
+      <PendingTransactions
+        tracked={[]}
+        speedUp={vi.fn()}
+        cancel={vi.fn()}
+        getReplacementChain={vi.fn()}
+        getConfirmedInChain={vi.fn()}
+      />
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('speeds up a pending transaction', async () => {
+    const props = renderPanel([original]);
+
+    expect(screen.getByText('Registration')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Speed up' }));
+
+    await waitFor(() => expect(props.speedUp).toHaveBeenCalledWith('0xoriginal000'));
+  });
+
+  it('shows why a cancel was not sent', async () => {
+    const props = renderPanel([original]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    await waitFor(() => expect(screen.getByText('Request cancelled')).toBeInTheDocument());
+    expect(props.cancel).toHaveBeenCalledWith('0xoriginal000');
+  });
+
+  it('shows which transaction in the chain confirmed', () => {
+    const speedUp: TrackedTransaction = {
+      txId: '0xspeedup0000',
+      status: TransactionStatus.SUCCESS,
+      startedAt: 1,
+      replaces: original.txId,
+      replacementKind: 'speed-up',
+    };
+    renderPanel(
+      [{ ...original, status: TransactionStatus.REPLACED, replacedBy: speedUp.txId }, speedUp],
+      speedUp
+    );
+
+    expect(screen.getByText('Confirmed: Speed-up 0xspeedup0...')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Speed up' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Cancel' })).not.toBeInTheDocument();
+  });
+
+  it('does not offer a speed-up once the transaction is being cancelled', () => {
+    const cancel: TrackedTransaction = {
+      txId: '0xcancel00000',
+      status: TransactionStatus.PENDING,
+      startedAt: 1,
+      replaces: original.txId,
+      replacementKind: 'cancel',
+    };
+    renderPanel([{ ...original, replacedBy: cancel.txId }, cancel]);
+
+    expect(screen.queryByRole('button', { name: 'Speed up' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Cancel' })).toBeInTheDocument();
+  });
+});
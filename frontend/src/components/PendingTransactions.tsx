@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { ArrowPathIcon, CheckCircleIcon, ClockIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import type { UseTransactionTrackerResult } from '@/hooks/useTransactionTracker';
+import { TransactionStatus, type TrackedTransaction } from '@/lib/transaction-tracker';
+
+type PendingTransactionsProps = Pick<
+  UseTransactionTrackerResult,
+  'tracked' | 'speedUp' | 'cancel' | 'getReplacementChain' | 'getConfirmedInChain'
+> & {
+  className?: string;
+};
+
+const shortTxId = (txId: string) => `${txId.slice(0, 10)}...`;
+
+const describeKind = (tx: TrackedTransaction) => {
+  switch (tx.replacementKind) {
+    case 'speed-up':
+      return 'Speed-up';
+    case 'cancel':
+      return 'Cancel';
+    default:
+      return 'Original';
+  }
+};
+
+/**
+ * Transactions sent from the dashboard, grouped by nonce. A stuck one can be
+ * sped up or cancelled through the wallet; once any member of its
+ * replacement chain is mined, that member is shown as the one that confirmed.
+ */
+export const PendingTransactions: React.FC<PendingTransactionsProps> = ({
+  tracked,
+  speedUp,
+  cancel,
+  getReplacementChain,
+  getConfirmedInChain,
+  className = '',
+}) => {
+  const [busyTxId, setBusyTxId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const roots = tracked.filter((tx) => !tx.replaces);
+  if (roots.length === 0) return null;
+
+  const replace = async (rootTxId: string, action: typeof speedUp) => {
+    setBusyTxId(rootTxId);
+    setErrors((prev) => ({ ...prev, [rootTxId]: '' }));
+    try {
+      await action(rootTxId);
+    } catch (error) {
+      setErrors((prev) => ({
+        ...prev,
+        [rootTxId]: error instanceof Error ? error.message : 'Replacement failed',
+      }));
+    } finally {
+      setBusyTxId(null);
+    }
+  };
+
+  return (
+    <div className={`card ${className}`}>
+      <div className="card-header">
+        <h2 className="text-xl font-semibold text-neutral-900">Your Transactions</h2>
+      </div>
+      <div className="card-body space-y-4">
+        {roots.map((root) => {
+          const chain = getReplacementChain(root.txId);
+          const members = chain.length > 0 ? chain : [root];
+          const latest = members[members.length - 1];
+          const confirmed = getConfirmedInChain(root.txId);
+          const canReplace = !confirmed && latest.status === TransactionStatus.PENDING;
+          const label = typeof root.metadata?.label === 'string' ? root.metadata.label : 'Transaction';
+
+          return (
+            <div
+              key={root.txId}
+              data-testid={`tx-chain-${root.txId}`}
+              className="p-4 rounded-lg border border-neutral-200 space-y-2"
+            >
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-neutral-900">{label}</p>
+                {confirmed ? (
+                  <span className="badge badge-success">
+                    Confirmed: {describeKind(confirmed)} {shortTxId(confirmed.txId)}
+                  </span>
+                ) : (
+                  <span className="badge badge-warning">{latest.status}</span>
+                )}
+              </div>
+
+              <ul className="space-y-1 text-sm">
+                {members.map((tx) => (
+                  <li key={tx.txId} className="flex items-center space-x-2 text-neutral-600">
+                    {tx.txId === confirmed?.txId ? (
+                      <CheckCircleIcon className="w-4 h-4 text-green-500" />
+                    ) : tx.status === TransactionStatus.PENDING ? (
+                      <ClockIcon className="w-4 h-4 text-warning-600" />
+                    ) : (
+                      <XCircleIcon className="w-4 h-4 text-neutral-400" />
+                    )}
+                    <span>{describeKind(tx)}</span>
+                    <span className="font-mono">{shortTxId(tx.txId)}</span>
+                    <span>{tx.status}</span>
+                  </li>
+                ))}
+              </ul>
+
+              {canReplace && (
+                <div className="flex items-center space-x-3">
+                  {latest.replacementKind !== 'cancel' && (
+                    <button
+                      onClick={() => replace(root.txId, speedUp)}
+                      disabled={busyTxId !== null}
+                      className="btn-outline btn-sm flex items-center space-x-1"
+                    >
+                      <ArrowPathIcon className="w-4 h-4" />
+                      <span>Speed up</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => replace(root.txId, cancel)}
+                    disabled={busyTxId !== null}
+                    className="btn-ghost btn-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              {errors[root.txId] && <p className="text-sm text-error-600">{errors[root.txId]}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PendingTransactions;
@@ -57,6 +57,8 @@ export const RealtimeActivityFeed: React.FC<RealtimeActivityFeedProps> = ({
           return 'Vote cast on proposal';
         case 'reward-claimed':
           return 'Reward claimed';
+        case 'referral-used':
+          return 'Referral code used';
         default:
           return event.topic;
       }
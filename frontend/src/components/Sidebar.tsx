@@ -15,6 +15,13 @@ import {
   LockClosedIcon,
   GiftIcon,
   ScaleIcon,
+  ShieldCheckIcon,
+  BanknotesIcon,
+  BuildingLibraryIcon,
+  ExclamationTriangleIcon,
+  UserPlusIcon,
+  CheckBadgeIcon,
+  CircleStackIcon,
 } from '@heroicons/react/24/outline';
 import { useApp } from '@/contexts/AppContext';
 
@@ -27,10 +34,17 @@ const Sidebar: React.FC = () => {
     { name: 'Marketplace', href: '/marketplace', icon: ShoppingBagIcon },
     { name: 'My Exchanges', href: '/exchanges', icon: ClockIcon },
     { name: 'Skills', href: '/skills', icon: AcademicCapIcon },
+    { name: 'Certifications', href: '/certifications', icon: CheckBadgeIcon },
     { name: 'Reputation', href: '/reputation', icon: TrophyIcon },
     { name: 'Escrow', href: '/escrow', icon: LockClosedIcon },
     { name: 'Rewards', href: '/rewards', icon: GiftIcon },
+    { name: 'TIME Token', href: '/token', icon: CircleStackIcon },
+    { name: 'Referrals', href: '/referrals', icon: UserPlusIcon },
     { name: 'Governance', href: '/governance', icon: ScaleIcon },
+    { name: 'Arbitration', href: '/arbitration', icon: ShieldCheckIcon },
+    { name: 'Insurance', href: '/insurance', icon: BanknotesIcon },
+    { name: 'Treasury', href: '/treasury', icon: BuildingLibraryIcon },
+    { name: 'Emergency', href: '/emergency', icon: ExclamationTriangleIcon },
   ];
 
   const bottomNavigation = [
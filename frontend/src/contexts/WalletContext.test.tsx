@@ -1,20 +1,21 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { WalletProvider, useWallet } from './WalletContext';
-import * as stacksLib from '@/lib/stacks';
+import * as connectLib from '@/lib/connect';
 
-// Mock the entire stacks lib
+// Mock the network helpers from the stacks lib
 vi.mock('@/lib/stacks', () => ({
-  userSession: {
-    isUserSignedIn: vi.fn(),
-    loadUserData: vi.fn(),
-  },
-  getUserAddress: vi.fn(),
-  connectWallet: vi.fn(),
-  disconnectWallet: vi.fn(),
-  connectViaReown: vi.fn(),
-  getNetwork: vi.fn(),
-  getNetworkType: vi.fn(),
+  getNetwork: vi.fn(() => ({ chainId: 2147483648 })),
+  getNetworkType: vi.fn(() => 'testnet'),
+  REOWN_PROJECT_ID: 'reown-project-id',
+}));
+
+// Mock the Stacks Connect layer
+vi.mock('@/lib/connect', () => ({
+  initializeAuth: vi.fn(),
+  refreshSession: vi.fn(),
+  clearSession: vi.fn(),
+  isUserCancellation: (error: any) => error?.code === -31001,
 }));
 
 // Mock error handling
@@ -30,13 +31,13 @@ vi.mock('@/lib/error-handling', () => ({
 
 describe('useWallet Hook', () => {
   const mockAddress = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
-  const mockUserData = {
-    profile: {
-      stxAddress: {
-        testnet: mockAddress,
-      },
-    },
+  const mockSession = {
+    address: mockAddress,
+    network: 'testnet' as const,
+    connectedAt: 0,
+    expiresAt: Number.MAX_SAFE_INTEGER,
   };
+  const cancellation = Object.assign(new Error('User canceled the request'), { code: -31001 });
   const mockNetwork = { chainId: 2147483648 };
   const mockNetworkType = 'testnet';
 
@@ -44,11 +45,7 @@ describe('useWallet Hook', () => {
     vi.clearAllMocks();
 
     // Default mocks - wallet not connected
-    (stacksLib.userSession.isUserSignedIn as any).mockReturnValue(false);
-    (stacksLib.getUserAddress as any).mockReturnValue(null);
-    (stacksLib.userSession.loadUserData as any).mockReturnValue(null);
-    (stacksLib.getNetwork as any).mockReturnValue(mockNetwork);
-    (stacksLib.getNetworkType as any).mockReturnValue(mockNetworkType);
+    (connectLib.refreshSession as any).mockReturnValue(null);
   });
 
   afterEach(() => {
@@ -83,9 +80,7 @@ describe('useWallet Hook', () => {
     });
 
     it('should initialize with connected state if wallet is already connected', async () => {
-      (stacksLib.userSession.isUserSignedIn as any).mockReturnValue(true);
-      (stacksLib.getUserAddress as any).mockReturnValue(mockAddress);
-      (stacksLib.userSession.loadUserData as any).mockReturnValue(mockUserData);
+      (connectLib.refreshSession as any).mockReturnValue(mockSession);
 
       const { result } = renderHook(() => useWallet(), {
         wrapper: WalletProvider,
@@ -97,7 +92,7 @@ describe('useWallet Hook', () => {
 
       expect(result.current.isConnected).toBe(true);
       expect(result.current.address).toBe(mockAddress);
-      expect(result.current.userData).toEqual(mockUserData);
+      expect(result.current.userData).toEqual(mockSession);
       expect(result.current.network).toEqual(mockNetwork);
       expect(result.current.networkType).toBe(mockNetworkType);
     });
@@ -105,6 +100,8 @@ describe('useWallet Hook', () => {
 
   describe('connect()', () => {
     it('should set loading state when connecting', () => {
+      (connectLib.initializeAuth as any).mockReturnValue(new Promise(() => {}));
+
       const { result } = renderHook(() => useWallet(), {
         wrapper: WalletProvider,
       });
@@ -116,31 +113,25 @@ describe('useWallet Hook', () => {
       expect(result.current.isLoading).toBe(true);
     });
 
-    it('should call connectWallet from stacks lib', () => {
+    it('should start a session through the connect layer', async () => {
+      (connectLib.initializeAuth as any).mockResolvedValue(mockSession);
+
       const { result } = renderHook(() => useWallet(), {
         wrapper: WalletProvider,
       });
 
-      act(() => {
-        result.current.connect();
+      await act(async () => {
+        await result.current.connect();
       });
 
-      expect(stacksLib.connectWallet).toHaveBeenCalledWith({
-        onFinish: expect.any(Function),
-        onCancel: expect.any(Function),
+      expect(connectLib.initializeAuth).toHaveBeenCalledWith({
+        network: 'testnet',
+        walletConnectProjectId: 'reown-project-id',
       });
     });
 
     it('should update state when connection succeeds', async () => {
-      let onFinishCallback: (() => void) | undefined;
-
-      (stacksLib.connectWallet as any).mockImplementation(({ onFinish }: any) => {
-        onFinishCallback = onFinish;
-      });
-
-      (stacksLib.userSession.isUserSignedIn as any).mockReturnValue(true);
-      (stacksLib.getUserAddress as any).mockReturnValue(mockAddress);
-      (stacksLib.userSession.loadUserData as any).mockReturnValue(mockUserData);
+      (connectLib.initializeAuth as any).mockResolvedValue(mockSession);
 
       const { result } = renderHook(() => useWallet(), {
         wrapper: WalletProvider,
@@ -151,28 +142,17 @@ describe('useWallet Hook', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      act(() => {
-        result.current.connect();
-      });
-
-      // Simulate successful connection
-      act(() => {
-        onFinishCallback?.();
+      await act(async () => {
+        await result.current.connect();
       });
 
-      await waitFor(() => {
-        expect(result.current.isConnected).toBe(true);
-        expect(result.current.address).toBe(mockAddress);
-        expect(result.current.userData).toEqual(mockUserData);
-      });
+      expect(result.current.isConnected).toBe(true);
+      expect(result.current.address).toBe(mockAddress);
+      expect(result.current.userData).toEqual(mockSession);
     });
 
     it('should handle connection cancellation', async () => {
-      let onCancelCallback: (() => void) | undefined;
-
-      (stacksLib.connectWallet as any).mockImplementation(({ onCancel }: any) => {
-        onCancelCallback = onCancel;
-      });
+      (connectLib.initializeAuth as any).mockRejectedValue(cancellation);
 
       const { result } = renderHook(() => useWallet(), {
         wrapper: WalletProvider,
@@ -182,29 +162,18 @@ describe('useWallet Hook', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      act(() => {
-        result.current.connect();
-      });
-
-      expect(result.current.isLoading).toBe(true);
-
-      // Simulate cancellation
-      act(() => {
-        onCancelCallback?.();
+      await act(async () => {
+        await result.current.connect();
       });
 
-      await waitFor(() => {
-        expect(result.current.isLoading).toBe(false);
-        expect(result.current.isConnected).toBe(false);
-        expect(result.current.error).toBeUndefined();
-      });
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.isConnected).toBe(false);
+      expect(result.current.error).toBeUndefined();
     });
 
     it('should handle connection errors', async () => {
       const errorMessage = 'Connection failed';
-      (stacksLib.connectWallet as any).mockImplementation(() => {
-        throw new Error(errorMessage);
-      });
+      (connectLib.initializeAuth as any).mockRejectedValue(new Error(errorMessage));
 
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
@@ -216,74 +185,42 @@ describe('useWallet Hook', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      act(() => {
-        result.current.connect();
+      await act(async () => {
+        await result.current.connect();
       });
 
-      await waitFor(() => {
-        expect(result.current.isLoading).toBe(false);
-        expect(result.current.error).toBe(errorMessage);
-        expect(result.current.typedError).toBeDefined();
-      });
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.error).toBe(errorMessage);
+      expect(result.current.typedError).toBeDefined();
 
       consoleErrorSpy.mockRestore();
     });
   });
 
   describe('connectWithReown()', () => {
-    it('should call connectViaReown from stacks lib', () => {
-      const { result } = renderHook(() => useWallet(), {
-        wrapper: WalletProvider,
-      });
-
-      act(() => {
-        result.current.connectWithReown();
-      });
-
-      expect(stacksLib.connectViaReown).toHaveBeenCalledWith({
-        onFinish: expect.any(Function),
-        onCancel: expect.any(Function),
-      });
-    });
-
-    it('should update state when Reown connection succeeds', async () => {
-      let onFinishCallback: (() => void) | undefined;
-
-      (stacksLib.connectViaReown as any).mockImplementation(({ onFinish }: any) => {
-        onFinishCallback = onFinish;
-      });
-
-      (stacksLib.userSession.isUserSignedIn as any).mockReturnValue(true);
-      (stacksLib.getUserAddress as any).mockReturnValue(mockAddress);
-      (stacksLib.userSession.loadUserData as any).mockReturnValue(mockUserData);
+    it('should force wallet selection with WalletConnect', async () => {
+      (connectLib.initializeAuth as any).mockResolvedValue(mockSession);
 
       const { result } = renderHook(() => useWallet(), {
         wrapper: WalletProvider,
       });
 
-      await waitFor(() => {
-        expect(result.current.isLoading).toBe(false);
-      });
-
-      act(() => {
-        result.current.connectWithReown();
+      await act(async () => {
+        await result.current.connectWithReown();
       });
 
-      act(() => {
-        onFinishCallback?.();
-      });
-
-      await waitFor(() => {
-        expect(result.current.isConnected).toBe(true);
-        expect(result.current.address).toBe(mockAddress);
+      expect(connectLib.initializeAuth).toHaveBeenCalledWith({
+        network: 'testnet',
+        walletConnectProjectId: 'reown-project-id',
+        forceWalletSelect: true,
       });
+      expect(result.current.isConnected).toBe(true);
+      expect(result.current.address).toBe(mockAddress);
     });
 
     it('should handle Reown connection errors', async () => {
       const errorMessage = 'Reown connection failed';
-      (stacksLib.connectViaReown as any).mockImplementation(() => {
-        throw new Error(errorMessage);
-      });
+      (connectLib.initializeAuth as any).mockRejectedValue(new Error(errorMessage));
 
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
@@ -295,22 +232,18 @@ describe('useWallet Hook', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      act(() => {
-        result.current.connectWithReown();
+      await act(async () => {
+        await result.current.connectWithReown();
       });
 
-      await waitFor(() => {
-        expect(result.current.error).toBe(errorMessage);
-      });
+      expect(result.current.error).toBe(errorMessage);
 
       consoleErrorSpy.mockRestore();
     });
   });
 
   describe('disconnect()', () => {
-    it('should call disconnectWallet from stacks lib', async () => {
-      (stacksLib.disconnectWallet as any).mockResolvedValue(undefined);
-
+    it('should clear the connect session', async () => {
       const { result } = renderHook(() => useWallet(), {
         wrapper: WalletProvider,
       });
@@ -323,15 +256,12 @@ describe('useWallet Hook', () => {
         await result.current.disconnect();
       });
 
-      expect(stacksLib.disconnectWallet).toHaveBeenCalled();
+      expect(connectLib.clearSession).toHaveBeenCalled();
     });
 
     it('should clear wallet state when disconnecting', async () => {
       // Start with connected state
-      (stacksLib.userSession.isUserSignedIn as any).mockReturnValue(true);
-      (stacksLib.getUserAddress as any).mockReturnValue(mockAddress);
-      (stacksLib.userSession.loadUserData as any).mockReturnValue(mockUserData);
-      (stacksLib.disconnectWallet as any).mockResolvedValue(undefined);
+      (connectLib.refreshSession as any).mockReturnValue(mockSession);
 
       const { result } = renderHook(() => useWallet(), {
         wrapper: WalletProvider,
@@ -355,7 +285,9 @@ describe('useWallet Hook', () => {
 
     it('should handle disconnect errors', async () => {
       const errorMessage = 'Disconnect failed';
-      (stacksLib.disconnectWallet as any).mockRejectedValue(new Error(errorMessage));
+      (connectLib.clearSession as any).mockImplementation(() => {
+        throw new Error(errorMessage);
+      });
 
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
@@ -390,9 +322,7 @@ describe('useWallet Hook', () => {
       });
 
       // Change the mock to simulate wallet being connected
-      (stacksLib.userSession.isUserSignedIn as any).mockReturnValue(true);
-      (stacksLib.getUserAddress as any).mockReturnValue(mockAddress);
-      (stacksLib.userSession.loadUserData as any).mockReturnValue(mockUserData);
+      (connectLib.refreshSession as any).mockReturnValue(mockSession);
 
       act(() => {
         result.current.refreshConnection();
@@ -417,7 +347,7 @@ describe('useWallet Hook', () => {
       });
 
       // Simulate error during refresh
-      (stacksLib.userSession.isUserSignedIn as any).mockImplementation(() => {
+      (connectLib.refreshSession as any).mockImplementation(() => {
         throw new Error(errorMessage);
       });
 
@@ -1,14 +1,14 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { StacksNetwork } from '@stacks/network';
+import { getNetwork, getNetworkType, REOWN_PROJECT_ID } from '@/lib/stacks';
 import {
-  userSession,
-  getUserAddress,
-  connectWallet,
-  disconnectWallet,
-  connectViaReown,
-  getNetwork,
-  getNetworkType,
-} from '@/lib/stacks';
+  clearSession,
+  initializeAuth,
+  isUserCancellation,
+  refreshSession,
+  type AuthOptions,
+  type ConnectSession,
+} from '@/lib/connect';
 import { WalletState } from '@/types';
 import { ErrorParser, StacksError } from '@/lib/error-handling';
 
@@ -19,9 +19,9 @@ interface ExtendedWalletState extends WalletState {
 }
 
 interface WalletContextType extends ExtendedWalletState {
-  connect: () => void;
-  connectWithReown: () => void;
-  disconnect: () => void;
+  connect: () => Promise<void>;
+  connectWithReown: () => Promise<void>;
+  disconnect: () => Promise<void>;
   refreshConnection: () => void;
 }
 
@@ -47,26 +47,34 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     typedError: undefined,
   });
 
+  const applySession = useCallback((session: ConnectSession | null) => {
+    setWalletState({
+      isConnected: !!session,
+      address: session?.address,
+      userData: session ?? undefined,
+      network: getNetwork(),
+      networkType: getNetworkType(),
+      isLoading: false,
+      error: undefined,
+      typedError: undefined,
+    });
+  }, []);
+
+  const setError = useCallback((error: unknown) => {
+    const parsedError = ErrorParser.parseError(error);
+    setWalletState(prev => ({
+      ...prev,
+      isLoading: false,
+      error: parsedError.message,
+      typedError: parsedError,
+    }));
+  }, []);
+
   const refreshConnection = useCallback(() => {
     setWalletState(prev => ({ ...prev, isLoading: true }));
 
     try {
-      const isConnected = userSession.isUserSignedIn();
-      const address = getUserAddress();
-      const userData = isConnected ? userSession.loadUserData() : undefined;
-      const network = getNetwork();
-      const networkType = getNetworkType();
-
-      setWalletState({
-        isConnected,
-        address: address || undefined,
-        userData,
-        network,
-        networkType,
-        isLoading: false,
-        error: undefined,
-        typedError: undefined,
-      });
+      applySession(refreshSession());
     } catch (error) {
       console.error('Error checking wallet connection:', error);
       const parsedError = ErrorParser.parseError(error);
@@ -81,72 +89,44 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         typedError: parsedError,
       });
     }
-  }, []);
+  }, [applySession]);
 
-  const connect = useCallback(() => {
+  const startSession = useCallback(async (options: AuthOptions) => {
     setWalletState(prev => ({ ...prev, isLoading: true, error: undefined, typedError: undefined }));
     try {
-      connectWallet({
-        onFinish: () => {
-          // Connection successful, state will be updated by refresh
-          refreshConnection();
-        },
-        onCancel: () => {
-          setWalletState(prev => ({
-            ...prev,
-            isLoading: false,
-            error: undefined,
-            typedError: undefined,
-          }));
-        },
-      });
+      applySession(await initializeAuth({ network: getNetworkType(), ...options }));
     } catch (error) {
+      if (isUserCancellation(error)) {
+        setWalletState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: undefined,
+          typedError: undefined,
+        }));
+        return;
+      }
       console.error('Error connecting wallet:', error);
-      const parsedError = ErrorParser.parseError(error);
-      setWalletState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: parsedError.message,
-        typedError: parsedError,
-      }));
+      setError(error);
     }
-  }, [refreshConnection]);
+  }, [applySession, setError]);
+
+  const connect = useCallback(() => {
+    return startSession({ walletConnectProjectId: REOWN_PROJECT_ID });
+  }, [startSession]);
 
   const connectWithReown = useCallback(() => {
-    setWalletState(prev => ({ ...prev, isLoading: true, error: undefined, typedError: undefined }));
-    try {
-      connectViaReown({
-        onFinish: () => {
-          // Connection successful via WalletConnect
-          console.log('✅ WalletConnect connection established');
-          refreshConnection();
-        },
-        onCancel: () => {
-          console.log('❌ WalletConnect cancelled by user');
-          setWalletState(prev => ({
-            ...prev,
-            isLoading: false,
-            error: undefined,
-            typedError: undefined,
-          }));
-        },
-      });
-    } catch (error) {
-      console.error('Error connecting via Reown:', error);
-      const parsedError = ErrorParser.parseError(error);
-      setWalletState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: parsedError.message,
-        typedError: parsedError,
-      }));
+    if (!REOWN_PROJECT_ID) {
+      setError(new Error('Reown Project ID is not configured. Add NEXT_PUBLIC_REOWN_PROJECT_ID to your .env file.'));
+      return Promise.resolve();
     }
-  }, [refreshConnection]);
+    // Always show wallet selection for WalletConnect
+    return startSession({ walletConnectProjectId: REOWN_PROJECT_ID, forceWalletSelect: true });
+  }, [startSession, setError]);
 
   const disconnect = useCallback(async () => {
     setWalletState(prev => ({ ...prev, isLoading: true }));
     try {
-      await disconnectWallet();
+      clearSession();
       setWalletState({
         isConnected: false,
         address: undefined,
@@ -159,15 +139,9 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       });
     } catch (error) {
       console.error('Error disconnecting wallet:', error);
-      const parsedError = ErrorParser.parseError(error);
-      setWalletState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: parsedError.message,
-        typedError: parsedError,
-      }));
+      setError(error);
     }
-  }, []);
+  }, [setError]);
 
   useEffect(() => {
     refreshConnection();
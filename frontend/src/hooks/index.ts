@@ -10,6 +10,9 @@ export type { UseWalletResult } from './useWallet';
 export { useMessageSigning } from './useMessageSigning';
 export type { UseMessageSigningResult, MessageSigningState } from './useMessageSigning';
 
+export { useWalletSession } from './useWalletSession';
+export type { WalletSessionInfo } from './useWalletSession';
+
 // Network
 export { useNetwork } from './useNetwork';
 export type { UseNetworkResult, NetworkState, UseNetworkOptions } from './useNetwork';
@@ -69,8 +72,19 @@ export type {
 
 // Existing hooks (re-exported for convenience)
 export { useContracts } from './useContracts';
+export { usePauseGuard } from './useContracts';
 export { useTimeBankCore } from './useTimeBankCore';
 export { useExchangeManager } from './useExchangeManager';
+export { useExchangeOffers } from './useExchangeOffers';
+export { useDisputeArbitration } from './useDisputeArbitration';
+export { useInsurancePool } from './useInsurancePool';
+export { useMultiSigWallet } from './useMultiSigWallet';
+export { useEmergencyControls } from './useEmergencyControls';
+export { useReferralProgram } from './useReferralProgram';
+export { useSkillCertifications } from './useSkillCertifications';
+export { useSkillMatchingEngine } from './useSkillMatchingEngine';
+export { useAutomationScheduler } from './useAutomationScheduler';
+export { useTimeToken } from './useTimeToken';
 export { useSkillRegistry } from './useSkillRegistry';
 export { useTransactionTracker } from './useTransactionTracker';
 export { useRealtimeEvents } from './useRealtimeEvents';
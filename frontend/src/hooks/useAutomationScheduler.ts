@@ -0,0 +1,95 @@
+// React Hook for Automation Scheduler Contract
+// Clarity 4 recurring and subscription schedules on stacks-block-time
+
+import { useState, useCallback } from 'react';
+import {
+  createSchedule,
+  executeSchedule,
+  cancelSchedule,
+  listUserSchedules,
+} from '@/lib/contracts/automationScheduler';
+import { AutomationSchedule, ContractCallResult, ScheduleType } from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export const useAutomationScheduler = (address?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('automationScheduler');
+  const [schedules, setSchedules] = useState<AutomationSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async (): Promise<AutomationSchedule[]> => {
+    if (!address) return [];
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const list = await listUserSchedules(address);
+      // Active schedules first, soonest execution at the top
+      const sorted = [...list].sort(
+        (a, b) => Number(b.isActive) - Number(a.isActive) || a.nextExecution - b.nextExecution
+      );
+      setSchedules(sorted);
+      return sorted;
+    } catch (err: any) {
+      setError(err.message || 'Failed to load schedules');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateSchedule = (
+    recipient: string,
+    amount: number,
+    interval: number,
+    scheduleType: ScheduleType
+  ) =>
+    submit(
+      () => createSchedule(recipient, amount, interval, scheduleType),
+      'Failed to create schedule'
+    );
+
+  const handleExecuteSchedule = (scheduleId: number) =>
+    submit(() => executeSchedule(scheduleId), 'Failed to execute schedule');
+
+  const handleCancelSchedule = (scheduleId: number) =>
+    submit(() => cancelSchedule(scheduleId), 'Failed to cancel schedule');
+
+  return {
+    schedules,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadSchedules,
+    createSchedule: guard(handleCreateSchedule),
+    executeSchedule: guard(handleExecuteSchedule),
+    cancelSchedule: guard(handleCancelSchedule),
+  };
+};
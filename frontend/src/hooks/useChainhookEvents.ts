@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ChainhookEvent as StoredChainhookEvent } from '@/types/realtime';
 
 export interface ChainhookEvent {
   type: string;
@@ -19,6 +20,9 @@ interface UseChainhookEventsOptions {
   pollInterval?: number; // milliseconds, default 5000 (5 seconds)
   limit?: number; // number of events to fetch, default 50
   enabled?: boolean; // enable/disable polling, default true
+  contractId?: string; // only events from this contract
+  eventType?: string; // only events of this type
+  address?: string; // only events affecting this address
 }
 
 interface UseChainhookEventsReturn {
@@ -29,6 +33,24 @@ interface UseChainhookEventsReturn {
   latestEvent: ChainhookEvent | null;
 }
 
+// Map an event from the event store into the shape used by the activity feed
+function toFeedEvent(event: StoredChainhookEvent): ChainhookEvent {
+  return {
+    type: event.eventType,
+    txHash: event.txHash,
+    sender: String(event.metadata?.sender ?? event.affectedAddresses[0] ?? ''),
+    blockHeight: event.blockHeight,
+    timestamp: event.timestamp,
+    success: event.success,
+    topic: event.eventTopic,
+    value: event.value,
+    amount: event.value?.amount,
+    recipient: event.value?.recipient,
+    asset: event.value?.asset_identifier,
+    receivedAt: Date.now(),
+  };
+}
+
 export function useChainhookEvents(
   options: UseChainhookEventsOptions = {}
 ): UseChainhookEventsReturn {
@@ -36,6 +58,9 @@ export function useChainhookEvents(
     pollInterval = 5000,
     limit = 50,
     enabled = true,
+    contractId,
+    eventType,
+    address,
   } = options;
 
   const [events, setEvents] = useState<ChainhookEvent[]>([]);
@@ -46,7 +71,12 @@ export function useChainhookEvents(
 
   const fetchEvents = useCallback(async () => {
     try {
-      const response = await fetch(`/api/events/recent?limit=${limit}`);
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (contractId) params.set('contract', contractId);
+      if (eventType) params.set('eventType', eventType);
+      if (address) params.set('address', address);
+
+      const response = await fetch(`/api/events/recent?${params.toString()}`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -55,12 +85,13 @@ export function useChainhookEvents(
       const data = await response.json();
 
       if (data.success && Array.isArray(data.events)) {
-        setEvents(data.events);
+        const feedEvents = data.events.map(toFeedEvent);
+        setEvents(feedEvents);
         setError(null);
 
         // Update latest event if there are new events
-        if (data.events.length > 0 && data.events[0] !== latestEvent) {
-          setLatestEvent(data.events[0]);
+        if (feedEvents.length > 0 && feedEvents[0].txHash !== latestEvent?.txHash) {
+          setLatestEvent(feedEvents[0]);
         }
       } else {
         throw new Error('Invalid response format');
@@ -71,7 +102,7 @@ export function useChainhookEvents(
     } finally {
       setIsLoading(false);
     }
-  }, [limit, latestEvent]);
+  }, [limit, contractId, eventType, address, latestEvent]);
 
   useEffect(() => {
     if (!enabled) {
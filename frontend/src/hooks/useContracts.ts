@@ -1,7 +1,7 @@
 // Centralized Hook for All Clarity 4 Contracts
 // Time Banking Protocol - Complete Integration with Stacks.js v8+
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useOptimisticTransaction } from './useOptimisticTransaction';
 import { ErrorParser, ErrorHandler, StacksError } from '@/lib/error-handling';
 import {
@@ -31,6 +31,13 @@ import {
   getRewardsStats,
 } from '@/lib/contracts/rewardsDistributor';
 import {
+  getPauseState,
+  isPaused as isPauseActive,
+  describePause,
+} from '@/lib/contracts/emergencyControls';
+import {
+  ContractConfig,
+  PauseState,
   UserReputation,
   ReputationStats,
   CreditEscrow,
@@ -42,7 +49,70 @@ import {
   RewardsStats,
 } from '@/types/contracts';
 
+interface PausedResult {
+  success: false;
+  txId?: undefined;
+  data?: undefined;
+  error: string;
+}
+
+/**
+ * Tracks emergency-controls pause state for a contract and wraps its write
+ * actions so they refuse to submit while the protocol or contract is paused
+ */
+export const usePauseGuard = (contract: keyof ContractConfig) => {
+  const [pauseState, setPauseState] = useState<PauseState>({
+    globalPaused: false,
+    contractPaused: false,
+  });
+
+  const refreshPauseState = useCallback(async (): Promise<PauseState> => {
+    const state = await getPauseState(contract);
+    setPauseState(state);
+    return state;
+  }, [contract]);
+
+  useEffect(() => {
+    refreshPauseState();
+  }, [refreshPauseState]);
+
+  const guard = useCallback(
+    <A extends unknown[], R extends { success: boolean }>(
+      write: (...args: A) => Promise<R>
+    ) =>
+      async (...args: A): Promise<R | PausedResult> => {
+        // Re-check on submit so a pause since the last refresh still blocks
+        const state = await refreshPauseState();
+        const reason = describePause(state);
+        if (reason) {
+          return { success: false, error: reason };
+        }
+        return write(...args);
+      },
+    [refreshPauseState]
+  );
+
+  return {
+    pauseState,
+    isPaused: isPauseActive(pauseState),
+    pauseMessage: describePause(pauseState),
+    refreshPauseState,
+    guard,
+  };
+};
+
+/**
+ * Message for a failed call to `contract`, with an `(err uNNNN)` in it
+ * resolved through that contract's error catalog
+ */
+const getContractErrorMessage = (
+  message: string | undefined,
+  fallback: string,
+  contract: keyof ContractConfig
+): string => ErrorParser.parseError(new Error(message || fallback), contract).message;
+
 export const useReputation = () => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('reputationSystem');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<StacksError | null>(null);
   const [userFriendlyError, setUserFriendlyError] = useState<string | null>(null);
@@ -62,13 +132,16 @@ export const useReputation = () => {
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        const parsedError = ErrorParser.parseError(new Error(result.error || 'Failed to endorse user'));
+        const parsedError = ErrorParser.parseError(
+          new Error(result.error || 'Failed to endorse user'),
+          'reputationSystem'
+        );
         setError(parsedError);
         setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
         return { success: false, error: result.error };
       }
     } catch (err) {
-      const parsedError = ErrorParser.parseError(err);
+      const parsedError = ErrorParser.parseError(err, 'reputationSystem');
       setError(parsedError);
       setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
       return { success: false, error: parsedError.message };
@@ -88,7 +161,7 @@ export const useReputation = () => {
       const reputation = await getUserReputation(userAddress);
       return reputation;
     } catch (err) {
-      const parsedError = ErrorParser.parseError(err);
+      const parsedError = ErrorParser.parseError(err, 'reputationSystem');
       setError(parsedError);
       setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
       return null;
@@ -106,7 +179,7 @@ export const useReputation = () => {
       const stats = await getReputationStats();
       return stats;
     } catch (err) {
-      const parsedError = ErrorParser.parseError(err);
+      const parsedError = ErrorParser.parseError(err, 'reputationSystem');
       setError(parsedError);
       setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
       return null;
@@ -119,13 +192,16 @@ export const useReputation = () => {
     isLoading,
     error,
     userFriendlyError,
-    endorseUser: handleEndorseUser,
+    isPaused,
+    pauseMessage,
+    endorseUser: guard(handleEndorseUser),
     loadUserReputation,
     loadReputationStats,
   };
 };
 
 export const useEscrow = () => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('escrowManager');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<StacksError | null>(null);
   const [userFriendlyError, setUserFriendlyError] = useState<string | null>(null);
@@ -146,13 +222,16 @@ export const useEscrow = () => {
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        const parsedError = ErrorParser.parseError(new Error(result.error || 'Failed to create escrow'));
+        const parsedError = ErrorParser.parseError(
+          new Error(result.error || 'Failed to create escrow'),
+          'escrowManager'
+        );
         setError(parsedError);
         setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
         return { success: false, error: result.error };
       }
     } catch (err) {
-      const parsedError = ErrorParser.parseError(err);
+      const parsedError = ErrorParser.parseError(err, 'escrowManager');
       setError(parsedError);
       setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
       return { success: false, error: parsedError.message };
@@ -164,6 +243,7 @@ export const useEscrow = () => {
   const handleReleaseEscrow = async (escrowId: number) => {
     setIsLoading(true);
     setError(null);
+    setUserFriendlyError(null);
 
     try {
       const result = await releaseEscrow(escrowId);
@@ -171,35 +251,48 @@ export const useEscrow = () => {
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        setError(result.error || 'Failed to release escrow');
+        const parsedError = ErrorParser.parseError(
+          new Error(result.error || 'Failed to release escrow'),
+          'escrowManager'
+        );
+        setError(parsedError);
+        setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
         return { success: false, error: result.error };
       }
-    } catch (err: any) {
-      const errorMsg = err.message || 'Failed to release escrow';
-      setError(errorMsg);
-      return { success: false, error: errorMsg };
+    } catch (err) {
+      const parsedError = ErrorParser.parseError(err, 'escrowManager');
+      setError(parsedError);
+      setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
+      return { success: false, error: parsedError.message };
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleRaiseDispute = async (escrowId: number, reason: string) => {
+  const handleRaiseDispute = async (escrowId: number, mediator: string) => {
     setIsLoading(true);
     setError(null);
+    setUserFriendlyError(null);
 
     try {
-      const result = await raiseDispute(escrowId, reason);
+      const result = await raiseDispute(escrowId, mediator);
 
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        setError(result.error || 'Failed to raise dispute');
+        const parsedError = ErrorParser.parseError(
+          new Error(result.error || 'Failed to raise dispute'),
+          'escrowManager'
+        );
+        setError(parsedError);
+        setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
         return { success: false, error: result.error };
       }
-    } catch (err: any) {
-      const errorMsg = err.message || 'Failed to raise dispute';
-      setError(errorMsg);
-      return { success: false, error: errorMsg };
+    } catch (err) {
+      const parsedError = ErrorParser.parseError(err, 'escrowManager');
+      setError(parsedError);
+      setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
+      return { success: false, error: parsedError.message };
     } finally {
       setIsLoading(false);
     }
@@ -210,12 +303,15 @@ export const useEscrow = () => {
   ): Promise<CreditEscrow | null> => {
     setIsLoading(true);
     setError(null);
+    setUserFriendlyError(null);
 
     try {
       const escrow = await getEscrowDetails(escrowId);
       return escrow;
-    } catch (err: any) {
-      setError(err.message || 'Failed to load escrow details');
+    } catch (err) {
+      const parsedError = ErrorParser.parseError(err, 'escrowManager');
+      setError(parsedError);
+      setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
       return null;
     } finally {
       setIsLoading(false);
@@ -225,12 +321,15 @@ export const useEscrow = () => {
   const loadEscrowStats = async (): Promise<EscrowStats | null> => {
     setIsLoading(true);
     setError(null);
+    setUserFriendlyError(null);
 
     try {
       const stats = await getEscrowStats();
       return stats;
-    } catch (err: any) {
-      setError(err.message || 'Failed to load escrow stats');
+    } catch (err) {
+      const parsedError = ErrorParser.parseError(err, 'escrowManager');
+      setError(parsedError);
+      setUserFriendlyError(ErrorHandler.getUserMessage(parsedError));
       return null;
     } finally {
       setIsLoading(false);
@@ -240,15 +339,19 @@ export const useEscrow = () => {
   return {
     isLoading,
     error,
-    createEscrow: handleCreateEscrow,
-    releaseEscrow: handleReleaseEscrow,
-    raiseDispute: handleRaiseDispute,
+    userFriendlyError,
+    isPaused,
+    pauseMessage,
+    createEscrow: guard(handleCreateEscrow),
+    releaseEscrow: guard(handleReleaseEscrow),
+    raiseDispute: guard(handleRaiseDispute),
     loadEscrowDetails,
     loadEscrowStats,
   };
 };
 
 export const useGovernance = () => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('governance');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -266,11 +369,11 @@ export const useGovernance = () => {
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        setError(result.error || 'Failed to create proposal');
+        setError(getContractErrorMessage(result.error, 'Failed to create proposal', 'governance'));
         return { success: false, error: result.error };
       }
     } catch (err: any) {
-      const errorMsg = err.message || 'Failed to create proposal';
+      const errorMsg = getContractErrorMessage(err.message, 'Failed to create proposal', 'governance');
       setError(errorMsg);
       return { success: false, error: errorMsg };
     } finally {
@@ -288,11 +391,11 @@ export const useGovernance = () => {
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        setError(result.error || 'Failed to cast vote');
+        setError(getContractErrorMessage(result.error, 'Failed to cast vote', 'governance'));
         return { success: false, error: result.error };
       }
     } catch (err: any) {
-      const errorMsg = err.message || 'Failed to cast vote';
+      const errorMsg = getContractErrorMessage(err.message, 'Failed to cast vote', 'governance');
       setError(errorMsg);
       return { success: false, error: errorMsg };
     } finally {
@@ -310,11 +413,11 @@ export const useGovernance = () => {
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        setError(result.error || 'Failed to execute proposal');
+        setError(getContractErrorMessage(result.error, 'Failed to execute proposal', 'governance'));
         return { success: false, error: result.error };
       }
     } catch (err: any) {
-      const errorMsg = err.message || 'Failed to execute proposal';
+      const errorMsg = getContractErrorMessage(err.message, 'Failed to execute proposal', 'governance');
       setError(errorMsg);
       return { success: false, error: errorMsg };
     } finally {
@@ -332,7 +435,7 @@ export const useGovernance = () => {
       const proposal = await getProposal(proposalId);
       return proposal;
     } catch (err: any) {
-      setError(err.message || 'Failed to load proposal');
+      setError(getContractErrorMessage(err.message, 'Failed to load proposal', 'governance'));
       return null;
     } finally {
       setIsLoading(false);
@@ -347,7 +450,7 @@ export const useGovernance = () => {
       const stats = await getGovernanceStats();
       return stats;
     } catch (err: any) {
-      setError(err.message || 'Failed to load governance stats');
+      setError(getContractErrorMessage(err.message, 'Failed to load governance stats', 'governance'));
       return null;
     } finally {
       setIsLoading(false);
@@ -357,15 +460,18 @@ export const useGovernance = () => {
   return {
     isLoading,
     error,
-    createProposal: handleCreateProposal,
-    castVote: handleCastVote,
-    executeProposal: handleExecuteProposal,
+    isPaused,
+    pauseMessage,
+    createProposal: guard(handleCreateProposal),
+    castVote: guard(handleCastVote),
+    executeProposal: guard(handleExecuteProposal),
     loadProposal,
     loadGovernanceStats,
   };
 };
 
 export const useRewards = () => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('rewardsDistributor');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -379,11 +485,11 @@ export const useRewards = () => {
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        setError(result.error || 'Failed to claim reward');
+        setError(getContractErrorMessage(result.error, 'Failed to claim reward', 'rewardsDistributor'));
         return { success: false, error: result.error };
       }
     } catch (err: any) {
-      const errorMsg = err.message || 'Failed to claim reward';
+      const errorMsg = getContractErrorMessage(err.message, 'Failed to claim reward', 'rewardsDistributor');
       setError(errorMsg);
       return { success: false, error: errorMsg };
     } finally {
@@ -401,11 +507,11 @@ export const useRewards = () => {
       if (result.success) {
         return { success: true, txId: result.txId };
       } else {
-        setError(result.error || 'Failed to contribute to pool');
+        setError(getContractErrorMessage(result.error, 'Failed to contribute to pool', 'rewardsDistributor'));
         return { success: false, error: result.error };
       }
     } catch (err: any) {
-      const errorMsg = err.message || 'Failed to contribute to pool';
+      const errorMsg = getContractErrorMessage(err.message, 'Failed to contribute to pool', 'rewardsDistributor');
       setError(errorMsg);
       return { success: false, error: errorMsg };
     } finally {
@@ -423,7 +529,7 @@ export const useRewards = () => {
       const period = await getPeriodInfo(periodId);
       return period;
     } catch (err: any) {
-      setError(err.message || 'Failed to load period info');
+      setError(getContractErrorMessage(err.message, 'Failed to load period info', 'rewardsDistributor'));
       return null;
     } finally {
       setIsLoading(false);
@@ -441,7 +547,7 @@ export const useRewards = () => {
       const reward = await getUserReward(userAddress, periodId);
       return reward;
     } catch (err: any) {
-      setError(err.message || 'Failed to load user reward');
+      setError(getContractErrorMessage(err.message, 'Failed to load user reward', 'rewardsDistributor'));
       return null;
     } finally {
       setIsLoading(false);
@@ -456,7 +562,7 @@ export const useRewards = () => {
       const stats = await getRewardsStats();
       return stats;
     } catch (err: any) {
-      setError(err.message || 'Failed to load rewards stats');
+      setError(getContractErrorMessage(err.message, 'Failed to load rewards stats', 'rewardsDistributor'));
       return null;
     } finally {
       setIsLoading(false);
@@ -466,8 +572,10 @@ export const useRewards = () => {
   return {
     isLoading,
     error,
-    claimReward: handleClaimReward,
-    contributeToPool: handleContributeToPool,
+    isPaused,
+    pauseMessage,
+    claimReward: guard(handleClaimReward),
+    contributeToPool: guard(handleContributeToPool),
     loadPeriodInfo,
     loadUserReward,
     loadRewardsStats,
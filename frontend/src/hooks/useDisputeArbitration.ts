@@ -0,0 +1,128 @@
+// React Hook for Dispute Arbitration Contract
+// Clarity 4 with stacks-block-time evidence and voting periods
+
+import { useState, useCallback } from 'react';
+import {
+  registerArbitrator,
+  assignToDispute,
+  castDisputeVote,
+  resolveDispute,
+  listDisputes,
+  getArbitratorInfo,
+  getDisputeVote,
+  getDisputePhase,
+  isEvidencePeriodOpen,
+  isVotingOpen,
+} from '@/lib/contracts/disputeArbitration';
+import {
+  ArbitratorInfo,
+  ContractCallResult,
+  Dispute,
+  DisputeOutcome,
+  DisputePhase,
+  DisputeVote,
+} from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export interface DisputeOverview {
+  dispute: Dispute;
+  phase: DisputePhase;
+  /** The connected arbitrator's vote, if any */
+  myVote: DisputeVote | null;
+}
+
+export const useDisputeArbitration = (address?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('disputeArbitration');
+  const [disputes, setDisputes] = useState<DisputeOverview[]>([]);
+  const [arbitrator, setArbitrator] = useState<ArbitratorInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDisputes = useCallback(async (): Promise<DisputeOverview[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [list, info] = await Promise.all([
+        listDisputes(),
+        address ? getArbitratorInfo(address) : Promise.resolve(null),
+      ]);
+
+      const overviews = await Promise.all(
+        list.map(async (dispute) => {
+          const [evidenceOpen, votingOpen, myVote] = await Promise.all([
+            isEvidencePeriodOpen(dispute.disputeId),
+            isVotingOpen(dispute.disputeId),
+            info ? getDisputeVote(dispute.disputeId, info.arbitrator) : Promise.resolve(null),
+          ]);
+          return {
+            dispute,
+            phase: getDisputePhase(dispute, evidenceOpen, votingOpen),
+            myVote,
+          };
+        })
+      );
+
+      setArbitrator(info);
+      setDisputes(overviews);
+      return overviews;
+    } catch (err: any) {
+      setError(err.message || 'Failed to load disputes');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRegisterArbitrator = () =>
+    submit(registerArbitrator, 'Failed to register as arbitrator');
+
+  const handleAssignToDispute = (disputeId: number) =>
+    submit(() => assignToDispute(disputeId), 'Failed to join dispute');
+
+  const handleCastVote = (disputeId: number, vote: DisputeOutcome) =>
+    submit(() => castDisputeVote(disputeId, vote), 'Failed to cast vote');
+
+  const handleResolveDispute = (disputeId: number) =>
+    submit(() => resolveDispute(disputeId), 'Failed to resolve dispute');
+
+  return {
+    disputes,
+    arbitrator,
+    isArbitrator: !!arbitrator?.isActive,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadDisputes,
+    registerArbitrator: guard(handleRegisterArbitrator),
+    assignToDispute: guard(handleAssignToDispute),
+    castVote: guard(handleCastVote),
+    resolveDispute: guard(handleResolveDispute),
+  };
+};
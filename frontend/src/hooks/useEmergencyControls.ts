@@ -0,0 +1,134 @@
+// React Hook for Emergency Controls Contract
+// Clarity 4 with pause switches and stacks-block-time timelocks
+
+import { useState, useCallback } from 'react';
+import {
+  toggleGlobalPause,
+  pauseContract,
+  unpauseContract,
+  proposeOperation,
+  listOperations,
+  isOperationExecutable,
+  isGloballyPaused,
+  isContractPaused,
+  isEmergencyAdmin,
+} from '@/lib/contracts/emergencyControls';
+import { CONTRACT_NAMES } from '@/lib/contractConfig';
+import {
+  ContractCallResult,
+  ContractConfig,
+  EmergencyOperation,
+} from '@/types/contracts';
+
+export interface OperationOverview {
+  operation: EmergencyOperation;
+  /** From is-operation-executable: timelock lapsed and not yet executed */
+  executable: boolean;
+}
+
+export interface ContractPauseOverview {
+  contract: keyof ContractConfig;
+  contractName: string;
+  paused: boolean;
+}
+
+// Admin actions stay unguarded so a paused protocol can still be unpaused
+export const useEmergencyControls = (address?: string | null) => {
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [globalPaused, setGlobalPaused] = useState(false);
+  const [contracts, setContracts] = useState<ContractPauseOverview[]>([]);
+  const [operations, setOperations] = useState<OperationOverview[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadControls = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const contractKeys = (Object.keys(CONTRACT_NAMES) as (keyof ContractConfig)[]).filter(
+        (contract) => contract !== 'emergencyControls'
+      );
+
+      const [admin, paused, pauses, list] = await Promise.all([
+        address ? isEmergencyAdmin(address) : Promise.resolve(false),
+        isGloballyPaused(),
+        Promise.all(
+          contractKeys.map(async (contract) => ({
+            contract,
+            contractName: CONTRACT_NAMES[contract],
+            paused: await isContractPaused(contract),
+          }))
+        ),
+        listOperations(),
+      ]);
+
+      const overviews = await Promise.all(
+        list.map(async (operation) => ({
+          operation,
+          executable: await isOperationExecutable(operation.operationId),
+        }))
+      );
+
+      setIsAdmin(admin);
+      setGlobalPaused(paused);
+      setContracts(pauses);
+      setOperations(overviews);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load emergency controls');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleGlobalPause = () =>
+    submit(toggleGlobalPause, 'Failed to toggle global pause');
+
+  const handlePauseContract = (contract: keyof ContractConfig) =>
+    submit(() => pauseContract(contract), 'Failed to pause contract');
+
+  const handleUnpauseContract = (contract: keyof ContractConfig) =>
+    submit(() => unpauseContract(contract), 'Failed to unpause contract');
+
+  const handleProposeOperation = (operationType: string) =>
+    submit(() => proposeOperation(operationType), 'Failed to propose operation');
+
+  return {
+    isAdmin,
+    globalPaused,
+    contracts,
+    operations,
+    isLoading,
+    error,
+    loadControls,
+    toggleGlobalPause: handleToggleGlobalPause,
+    pauseContract: handlePauseContract,
+    unpauseContract: handleUnpauseContract,
+    proposeOperation: handleProposeOperation,
+  };
+};
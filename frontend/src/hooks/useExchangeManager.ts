@@ -3,27 +3,38 @@
 
 import { useState } from 'react';
 import {
-  createExchange,
+  createExchangeRequest,
   acceptExchange,
   confirmCompletion,
   cancelExchange,
   submitReview,
   getExchangeDetails,
   getExchangeStats,
+  getUserExchanges,
   isExchangeActive,
+  isExchangeExpired,
   isExchangeCompleted,
   validateTimeRange,
 } from '@/lib/contracts/exchangeManager';
 import { ServiceExchange, ExchangeStats } from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export interface UserExchange {
+  exchange: ServiceExchange;
+  /** Scheduled end has passed on stacks-block-time */
+  isExpired: boolean;
+}
 
 export const useExchangeManager = () => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('exchangeManager');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const handleCreateExchange = async (
     provider: string,
-    skillName: string,
+    skillId: number,
     hoursRequested: number,
+    description: string,
     scheduledStart: number,
     scheduledEnd: number
   ) => {
@@ -38,10 +49,11 @@ export const useExchangeManager = () => {
     }
 
     try {
-      const result = await createExchange(
+      const result = await createExchangeRequest(
         provider,
-        skillName,
+        skillId,
         hoursRequested,
+        description,
         scheduledStart,
         scheduledEnd
       );
@@ -185,6 +197,30 @@ export const useExchangeManager = () => {
     }
   };
 
+  const loadUserExchanges = async (user: string): Promise<UserExchange[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const exchangeIds = await getUserExchanges(user);
+      const exchanges = await Promise.all(
+        exchangeIds.map(async (exchangeId) => {
+          const [exchange, isExpired] = await Promise.all([
+            getExchangeDetails(exchangeId),
+            isExchangeExpired(exchangeId),
+          ]);
+          return exchange ? { exchange, isExpired } : null;
+        })
+      );
+      return exchanges.filter((entry): entry is UserExchange => entry !== null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load exchanges');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const checkExchangeActive = async (exchangeId: number): Promise<boolean> => {
     try {
       return await isExchangeActive(exchangeId);
@@ -206,13 +242,16 @@ export const useExchangeManager = () => {
   return {
     isLoading,
     error,
-    createExchange: handleCreateExchange,
-    acceptExchange: handleAcceptExchange,
-    confirmCompletion: handleConfirmCompletion,
-    cancelExchange: handleCancelExchange,
-    submitReview: handleSubmitReview,
+    isPaused,
+    pauseMessage,
+    createExchange: guard(handleCreateExchange),
+    acceptExchange: guard(handleAcceptExchange),
+    confirmCompletion: guard(handleConfirmCompletion),
+    cancelExchange: guard(handleCancelExchange),
+    submitReview: guard(handleSubmitReview),
     loadExchangeDetails,
     loadExchangeStats,
+    loadUserExchanges,
     checkExchangeActive,
     checkExchangeCompleted,
     validateTimeRange,
@@ -0,0 +1,159 @@
+// React Hook for SIP-018 signed exchange offers
+// Offers live off-chain until a requester accepts one with create-exchange-request
+
+import { useState, useCallback } from 'react';
+import {
+  createOfferNonce,
+  getAddressNetwork,
+  getOfferAcceptError,
+  signOffer,
+  signWithdrawal,
+  ExchangeOffer,
+  ExchangeOfferTerms,
+} from '@/lib/exchange-offers';
+import { createMessageSigner } from '@/lib/message-signing';
+import { createExchangeRequest } from '@/lib/contracts/exchangeManager';
+import { getSkillInfo } from '@/lib/contracts/skillRegistry';
+import { usePauseGuard } from './useContracts';
+
+export type OfferDraft = Omit<ExchangeOfferTerms, 'provider' | 'nonce'>;
+
+/**
+ * Call an offers API route, throwing with the route's message on failure
+ */
+async function requestOffers<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data as T;
+}
+
+export const useExchangeOffers = (address?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('exchangeManager');
+  /** Offers this wallet can accept */
+  const [offers, setOffers] = useState<ExchangeOffer[]>([]);
+  /** This wallet's own open offers */
+  const [myOffers, setMyOffers] = useState<ExchangeOffer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOffers = useCallback(async () => {
+    if (!address) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [available, own] = await Promise.all([
+        requestOffers<{ offers: ExchangeOffer[] }>(`/api/offers?requester=${address}`),
+        requestOffers<{ offers: ExchangeOffer[] }>(`/api/offers?provider=${address}`),
+      ]);
+      setOffers(available.offers.filter((offer) => offer.provider !== address));
+      setMyOffers(own.offers);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load offers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const run = async <T,>(action: () => Promise<T>, failureMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const value = await action();
+      return { success: true as const, value };
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false as const, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateOffer = (draft: OfferDraft) =>
+    run(async () => {
+      if (!address) throw new Error('Wallet not connected');
+
+      const signer = createMessageSigner({ network: getAddressNetwork(address) });
+      const offer = await signOffer(signer, { ...draft, provider: address, nonce: createOfferNonce() });
+      const { offer: saved } = await requestOffers<{ offer: ExchangeOffer }>('/api/offers', {
+        method: 'POST',
+        body: JSON.stringify(offer),
+      });
+
+      setMyOffers((current) => [...current, saved]);
+      return saved;
+    }, 'Failed to publish offer');
+
+  const handleWithdrawOffer = (offer: ExchangeOffer) =>
+    run(async () => {
+      const signer = createMessageSigner({ network: getAddressNetwork(offer.provider) });
+      const { signature } = await signWithdrawal(signer, offer);
+      await requestOffers(`/api/offers/${offer.id}`, {
+        method: 'DELETE',
+        body: JSON.stringify({ signature }),
+      });
+
+      setMyOffers((current) => current.filter(({ id }) => id !== offer.id));
+      return offer.id;
+    }, 'Failed to withdraw offer');
+
+  const handleAcceptOffer = (offer: ExchangeOffer, description: string) =>
+    run(async () => {
+      if (!address) throw new Error('Wallet not connected');
+
+      const acceptError = getOfferAcceptError(offer, address);
+      if (acceptError) throw new Error(acceptError);
+
+      // The contract charges the rate registered now, not the signed one
+      const skill = await getSkillInfo(offer.provider, offer.skillId);
+      if (!skill) throw new Error('Skill not found');
+      if (skill.hourlyRate !== offer.hourlyRate) {
+        throw new Error(
+          `Provider's rate changed from ${offer.hourlyRate} to ${skill.hourlyRate} credits per hour`
+        );
+      }
+
+      const result = await createExchangeRequest(
+        offer.provider,
+        offer.skillId,
+        offer.hours,
+        description,
+        offer.scheduledStart,
+        offer.scheduledEnd
+      );
+      if (!result.success || !result.txId) {
+        throw new Error(result.error || 'Failed to request exchange');
+      }
+
+      await requestOffers(`/api/offers/${offer.id}`, {
+        method: 'POST',
+        body: JSON.stringify({ txId: result.txId }),
+      });
+
+      setOffers((current) => current.filter(({ id }) => id !== offer.id));
+      return result.txId;
+    }, 'Failed to accept offer');
+
+  return {
+    offers,
+    myOffers,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadOffers,
+    createOffer: handleCreateOffer,
+    withdrawOffer: handleWithdrawOffer,
+    acceptOffer: guard(handleAcceptOffer),
+  };
+};
@@ -0,0 +1,122 @@
+// React Hook for Insurance Pool Contract
+// Clarity 4 with stacks-block-time claim filing and review
+
+import { useState, useCallback } from 'react';
+import {
+  contributeToInsurancePool,
+  fileClaim,
+  reviewClaim,
+  payClaim,
+  listClaims,
+  getContributorInfo,
+  getPoolBalance,
+} from '@/lib/contracts/insurancePool';
+import { getExchangeDetails } from '@/lib/contracts/exchangeManager';
+import {
+  ClaimStatus,
+  ContractCallResult,
+  InsuranceClaim,
+  InsuranceContributor,
+  ServiceExchange,
+} from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export interface ClaimOverview {
+  claim: InsuranceClaim;
+  /** On-chain details of the exchange the claim was filed against */
+  exchange: ServiceExchange | null;
+}
+
+export const useInsurancePool = (address?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('insurancePool');
+  const [claims, setClaims] = useState<ClaimOverview[]>([]);
+  const [contributor, setContributor] = useState<InsuranceContributor | null>(null);
+  const [poolBalance, setPoolBalance] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPool = useCallback(async (): Promise<ClaimOverview[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [list, info, balance] = await Promise.all([
+        listClaims(),
+        address ? getContributorInfo(address) : Promise.resolve(null),
+        getPoolBalance(),
+      ]);
+
+      const overviews = await Promise.all(
+        list.map(async (claim) => ({
+          claim,
+          exchange: await getExchangeDetails(claim.exchangeId),
+        }))
+      );
+
+      setClaims(overviews);
+      setContributor(info);
+      setPoolBalance(balance);
+      return overviews;
+    } catch (err: any) {
+      setError(err.message || 'Failed to load insurance pool');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleContribute = (amount: number) =>
+    submit(() => contributeToInsurancePool(amount), 'Failed to contribute to pool');
+
+  const handleFileClaim = (exchangeId: number, amount: number) =>
+    submit(() => fileClaim(exchangeId, amount), 'Failed to file claim');
+
+  const handleReviewClaim = (claimId: number, approved: boolean) =>
+    submit(() => reviewClaim(claimId, approved), 'Failed to review claim');
+
+  const handlePayClaim = (claimId: number) =>
+    submit(() => payClaim(claimId), 'Failed to pay claim');
+
+  return {
+    claims,
+    pendingClaims: claims.filter(({ claim }) => claim.status === ClaimStatus.PENDING),
+    myClaims: claims.filter(({ claim }) => claim.claimant === address),
+    contributor,
+    isContributor: !!contributor?.isActive,
+    poolBalance,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadPool,
+    contribute: guard(handleContribute),
+    fileClaim: guard(handleFileClaim),
+    reviewClaim: guard(handleReviewClaim),
+    payClaim: guard(handlePayClaim),
+  };
+};
@@ -0,0 +1,103 @@
+// React Hook for Multi-Sig Wallet Contract
+// Clarity 4 with M-of-N signing and stacks-block-time timelocks
+
+import { useState, useCallback } from 'react';
+import {
+  createTreasuryProposal,
+  signTreasuryProposal,
+  executeTreasuryProposal,
+  listTreasuryProposals,
+  isTreasurySigner,
+  hasSignedProposal,
+} from '@/lib/contracts/multiSigWallet';
+import { ContractCallResult, TreasuryProposal } from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export interface TreasuryProposalOverview {
+  proposal: TreasuryProposal;
+  /** Whether the connected signer has already signed */
+  signedByMe: boolean;
+}
+
+export const useMultiSigWallet = (address?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('multiSigWallet');
+  const [proposals, setProposals] = useState<TreasuryProposalOverview[]>([]);
+  const [isSigner, setIsSigner] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProposals = useCallback(async (): Promise<TreasuryProposalOverview[]> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [list, signer] = await Promise.all([
+        listTreasuryProposals(),
+        address ? isTreasurySigner(address) : Promise.resolve(false),
+      ]);
+
+      const overviews = await Promise.all(
+        list.map(async (proposal) => ({
+          proposal,
+          signedByMe: address ? await hasSignedProposal(proposal.proposalId, address) : false,
+        }))
+      );
+
+      setIsSigner(signer);
+      setProposals(overviews);
+      return overviews;
+    } catch (err: any) {
+      setError(err.message || 'Failed to load treasury proposals');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateProposal = (recipient: string, amount: number) =>
+    submit(() => createTreasuryProposal(recipient, amount), 'Failed to create proposal');
+
+  const handleSignProposal = (proposalId: number) =>
+    submit(() => signTreasuryProposal(proposalId), 'Failed to sign proposal');
+
+  const handleExecuteProposal = (proposal: TreasuryProposal) =>
+    submit(() => executeTreasuryProposal(proposal), 'Failed to execute proposal');
+
+  return {
+    proposals,
+    isSigner,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadProposals,
+    createProposal: guard(handleCreateProposal),
+    signProposal: guard(handleSignProposal),
+    executeProposal: guard(handleExecuteProposal),
+  };
+};
@@ -4,7 +4,7 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { NonceManager, createNonceManager } from '../lib/nonce-manager';
-import type { ManagedNonce } from '../lib/nonce-manager';
+import type { ManagedNonce, NonceGapReport, NonceRepairResult } from '../lib/nonce-manager';
 import type { StacksNetworkClient } from '../lib/stacks-network-client';
 
 export interface NonceState {
@@ -20,6 +20,14 @@ export interface UseNonceResult extends NonceState {
   rejectTransaction: (nonce: number) => void;
   resetNonce: () => void;
   peekNextNonce: () => Promise<number>;
+  /** Latest gap check, null until checkGaps has run */
+  gaps: NonceGapReport | null;
+  /** Missing nonces or a stale local counter were found */
+  hasGaps: boolean;
+  isRepairing: boolean;
+  checkGaps: () => Promise<NonceGapReport | null>;
+  /** Fill missing nonces with transfers the wallet signs */
+  repair: () => Promise<NonceRepairResult>;
   manager: NonceManager;
 }
 
@@ -35,6 +43,8 @@ export function useNonce(
     isLoading: false,
     error: null,
   });
+  const [gaps, setGaps] = useState<NonceGapReport | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
 
   const getNextNonce = useCallback(async (): Promise<ManagedNonce> => {
     if (!address) throw new Error('No address provided');
@@ -90,6 +100,45 @@ export function useNonce(
     return managerRef.current.peekNextNonce(address);
   }, [address]);
 
+  const checkGaps = useCallback(async (): Promise<NonceGapReport | null> => {
+    if (!address) return null;
+    try {
+      const report = await managerRef.current.detectGaps(address);
+      setGaps(report);
+      setState(s => ({ ...s, error: null }));
+      return report;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : 'Nonce gap check failed';
+      setState(s => ({ ...s, error: msg }));
+      return null;
+    }
+  }, [address]);
+
+  const repair = useCallback(
+    async (): Promise<NonceRepairResult> => {
+      if (!address) throw new Error('No address provided');
+      setIsRepairing(true);
+      try {
+        const result = await managerRef.current.repair(address);
+        await checkGaps();
+        setState(s => ({
+          ...s,
+          nonce: result.nextNonce - 1,
+          pendingCount: managerRef.current.getPendingCount(address),
+          error: result.failed.length > 0 ? `Failed to fill ${result.failed.length} nonce gap(s)` : s.error,
+        }));
+        return result;
+      } finally {
+        setIsRepairing(false);
+      }
+    },
+    [address, checkGaps]
+  );
+
+  const hasGaps =
+    gaps !== null &&
+    (gaps.missingNonces.length > 0 || gaps.localState === 'behind' || gaps.localState === 'ahead');
+
   return {
     ...state,
     getNextNonce,
@@ -97,6 +146,11 @@ export function useNonce(
     rejectTransaction,
     resetNonce,
     peekNextNonce,
+    gaps,
+    hasGaps,
+    isRepairing,
+    checkGaps,
+    repair,
     manager: managerRef.current,
   };
 }
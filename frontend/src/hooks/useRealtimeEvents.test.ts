@@ -16,9 +16,12 @@ const mockSubscribeToUser = vi.fn();
 const mockSubscribeToEventType = vi.fn();
 const mockUnsubscribe = vi.fn();
 const mockGetStatus = vi.fn();
+const mockAuthenticate = vi.fn();
+const mockOnAuthenticated = vi.fn(() => () => {});
 
 let eventCallbacks: Array<(event: any) => void> = [];
 let statusCallbacks: Array<(status: ConnectionStatus) => void> = [];
+let reorgCallbacks: Array<(notice: any) => void> = [];
 
 const mockOnEvent = vi.fn((callback) => {
   eventCallbacks.push(callback);
@@ -34,6 +37,13 @@ const mockOnStatusChange = vi.fn((callback) => {
   };
 });
 
+const mockOnReorg = vi.fn((callback) => {
+  reorgCallbacks.push(callback);
+  return () => {
+    reorgCallbacks = reorgCallbacks.filter((cb) => cb !== callback);
+  };
+});
+
 vi.mock('@/lib/realtime/socket-client', () => ({
   getSocketClient: () => ({
     connect: mockConnect,
@@ -44,8 +54,13 @@ vi.mock('@/lib/realtime/socket-client', () => ({
     unsubscribe: mockUnsubscribe,
     onEvent: mockOnEvent,
     onStatusChange: mockOnStatusChange,
+    onReorg: mockOnReorg,
     getStatus: mockGetStatus,
+    authenticate: mockAuthenticate,
+    onAuthenticated: mockOnAuthenticated,
   }),
+  getEventKey: (event: { txHash: string; blockHash: string; eventType: string }) =>
+    `${event.txHash}|${event.blockHash}|${event.eventType}`,
 }));
 
 describe('useRealtimeEvents Hook', () => {
@@ -53,6 +68,7 @@ describe('useRealtimeEvents Hook', () => {
     vi.clearAllMocks();
     eventCallbacks = [];
     statusCallbacks = [];
+    reorgCallbacks = [];
     mockGetStatus.mockReturnValue(ConnectionStatus.DISCONNECTED);
   });
 
@@ -293,6 +309,66 @@ describe('useRealtimeEvents Hook', () => {
     });
   });
 
+  describe('Wallet authentication', () => {
+    const address = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+    beforeEach(() => {
+      mockAuthenticate.mockResolvedValue(true);
+    });
+
+    it('should authenticate the socket as the signed-in wallet', async () => {
+      const { result } = renderHook(() =>
+        useRealtimeEvents({ autoConnect: false, walletAddress: address })
+      );
+
+      let authenticated = false;
+      await act(async () => {
+        authenticated = await result.current.authenticateWallet();
+      });
+
+      expect(authenticated).toBe(true);
+      expect(mockAuthenticate).toHaveBeenLastCalledWith(expect.any(Function));
+    });
+
+    it('should fetch a socket nonce for the session, or none when signed out', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      renderHook(() => useRealtimeEvents({ autoConnect: false, walletAddress: address }));
+      const [requestNonce] = mockAuthenticate.mock.calls[0] as unknown as [() => Promise<string | null>];
+
+      fetchMock.mockResolvedValue({ ok: true, status: 200, json: async () => ({ nonce: 'ab'.repeat(16) }) });
+      await expect(requestNonce()).resolves.toBe('ab'.repeat(16));
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/auth/socket-nonce',
+        expect.objectContaining({ method: 'POST', credentials: 'same-origin' })
+      );
+
+      fetchMock.mockResolvedValue({ ok: false, status: 401, json: async () => ({}) });
+      await expect(requestNonce()).resolves.toBeNull();
+
+      vi.unstubAllGlobals();
+    });
+
+    it('should not authenticate without a connected wallet', () => {
+      renderHook(() => useRealtimeEvents({ autoConnect: false }));
+
+      expect(mockAuthenticate).not.toHaveBeenCalled();
+    });
+
+    it('should report a wallet that has not signed in', async () => {
+      mockAuthenticate.mockResolvedValue(false);
+      const { result } = renderHook(() =>
+        useRealtimeEvents({ autoConnect: false, walletAddress: address })
+      );
+
+      await act(async () => {
+        await result.current.authenticateWallet();
+      });
+
+      expect(result.current.error?.message).toMatch(/Sign in/);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle connection errors gracefully', () => {
       mockConnect.mockImplementation(() => {
@@ -4,8 +4,8 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { getSocketClient } from '@/lib/realtime/socket-client';
-import { ChainhookEvent, ConnectionStatus, Subscription } from '@/types/realtime';
+import { getSocketClient, getEventKey } from '@/lib/realtime/socket-client';
+import { ChainhookEvent, ConnectionStatus, ReorgNotice, Subscription } from '@/types/realtime';
 
 export interface UseRealtimeEventsOptions {
   subscriptions?: Subscription[];
@@ -13,6 +13,13 @@ export interface UseRealtimeEventsOptions {
   maxEvents?: number;
   onEvent?: (event: ChainhookEvent) => void;
   onError?: (error: Error) => void;
+  onReorg?: (notice: ReorgNotice) => void;
+  /**
+   * Connected wallet. Once it has signed in (useWalletSession) and the socket
+   * is authenticated (authenticateWallet), the socket's subscriptions are
+   * stored for the address and restored on reconnect
+   */
+  walletAddress?: string | null;
 }
 
 export interface UseRealtimeEventsResult {
@@ -20,6 +27,9 @@ export interface UseRealtimeEventsResult {
   isConnected: boolean;
   connectionStatus: ConnectionStatus;
   error: Error | null;
+  /** Address the server restored subscriptions for, once authenticated */
+  authenticatedAddress: string | null;
+  authenticateWallet: () => Promise<boolean>;
   subscribe: (subscription: Subscription) => void;
   unsubscribe: (room: string) => void;
   connect: () => Promise<void>;
@@ -27,6 +37,24 @@ export interface UseRealtimeEventsResult {
   clearEvents: () => void;
 }
 
+/**
+ * Fetch a single-use socket nonce for the signed-in wallet, or null if it is
+ * not signed in
+ */
+async function requestSocketNonce(): Promise<string | null> {
+  const response = await fetch('/api/auth/socket-nonce', {
+    method: 'POST',
+    credentials: 'same-origin',
+  });
+  if (response.status === 401) return null;
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.nonce;
+}
+
 /**
  * Hook for managing real-time event subscriptions
  */
@@ -39,6 +67,8 @@ export function useRealtimeEvents(
     maxEvents = 100,
     onEvent,
     onError,
+    onReorg,
+    walletAddress,
   } = options;
 
   const [events, setEvents] = useState<ChainhookEvent[]>([]);
@@ -46,6 +76,7 @@ export function useRealtimeEvents(
     ConnectionStatus.DISCONNECTED
   );
   const [error, setError] = useState<Error | null>(null);
+  const [authenticatedAddress, setAuthenticatedAddress] = useState<string | null>(null);
   const socketClient = useRef(getSocketClient());
   const isInitialized = useRef(false);
 
@@ -55,6 +86,9 @@ export function useRealtimeEvents(
   const handleEvent = useCallback(
     (event: ChainhookEvent) => {
       setEvents((prev) => {
+        const key = getEventKey(event);
+        if (prev.some((existing) => getEventKey(existing) === key)) return prev;
+
         const updated = [event, ...prev];
         return updated.slice(0, maxEvents);
       });
@@ -63,6 +97,21 @@ export function useRealtimeEvents(
     [maxEvents, onEvent]
   );
 
+  /**
+   * Drop events orphaned by a chain reorganization
+   */
+  const handleReorg = useCallback(
+    (notice: ReorgNotice) => {
+      const orphanedTx = new Set(notice.orphanedTxHashes);
+      const rolledBack = new Set(notice.rolledBackBlocks.map((b) => b.blockHash));
+      setEvents((prev) =>
+        prev.filter((event) => !orphanedTx.has(event.txHash) && !rolledBack.has(event.blockHash))
+      );
+      onReorg?.(notice);
+    },
+    [onReorg]
+  );
+
   /**
    * Handle status change
    */
@@ -90,20 +139,24 @@ export function useRealtimeEvents(
 
       // Set up event handlers
       const cleanupEvent = socketClient.current.onEvent(handleEvent);
+      const cleanupReorg = socketClient.current.onReorg(handleReorg);
       const cleanupStatus = socketClient.current.onStatusChange(handleStatusChange);
       const cleanupError = socketClient.current.onError(handleError);
+      const cleanupAuth = socketClient.current.onAuthenticated(setAuthenticatedAddress);
 
       // Store cleanup functions
       return () => {
         cleanupEvent();
+        cleanupReorg();
         cleanupStatus();
         cleanupError();
+        cleanupAuth();
       };
     } catch (err) {
       handleError(err instanceof Error ? err : new Error('Connection failed'));
       throw err;
     }
-  }, [handleEvent, handleStatusChange, handleError]);
+  }, [handleEvent, handleReorg, handleStatusChange, handleError]);
 
   /**
    * Disconnect from server
@@ -112,6 +165,23 @@ export function useRealtimeEvents(
     socketClient.current.disconnect();
   }, []);
 
+  /**
+   * Authenticate the socket as the signed-in wallet, so its subscriptions
+   * persist for the address. Fails if the wallet has not signed in
+   */
+  const authenticateWallet = useCallback(async () => {
+    if (!walletAddress) {
+      handleError(new Error('Wallet not connected'));
+      return false;
+    }
+
+    const authenticating = await socketClient.current.authenticate(requestSocketNonce);
+    if (!authenticating) {
+      handleError(new Error('Sign in with your wallet first'));
+    }
+    return authenticating;
+  }, [walletAddress, handleError]);
+
   /**
    * Subscribe to events
    */
@@ -178,11 +248,23 @@ export function useRealtimeEvents(
     };
   }, [autoConnect, connect, disconnect, subscribe, subscriptions]);
 
+  /**
+   * Authenticate with a session started earlier, e.g. before a reload. A
+   * wallet that has not signed in is left unauthenticated
+   */
+  useEffect(() => {
+    if (!walletAddress) return;
+
+    socketClient.current.authenticate(requestSocketNonce);
+  }, [walletAddress]);
+
   return {
     events,
     isConnected: connectionStatus === ConnectionStatus.CONNECTED,
     connectionStatus,
     error,
+    authenticatedAddress,
+    authenticateWallet,
     subscribe,
     unsubscribe,
     connect,
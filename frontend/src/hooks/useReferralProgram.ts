@@ -0,0 +1,124 @@
+// React Hook for Referral Program Contract
+// Clarity 4 with stacks-block-time referral tracking
+
+import { useState, useCallback } from 'react';
+import {
+  generateReferralCode,
+  applyReferralCode,
+  getReferralData,
+  getReferralCodeOwner,
+  getOwnReferralCode,
+  isValidReferralCode,
+  getPendingReferralCode,
+  clearPendingReferralCode,
+} from '@/lib/contracts/referralProgram';
+import { ContractCallResult, ReferralData } from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export interface PendingReferral {
+  code: string;
+  referrer: string;
+}
+
+export const useReferralProgram = (address?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('referralProgram');
+  const [referralData, setReferralData] = useState<ReferralData | null>(null);
+  const [pendingReferral, setPendingReferral] = useState<PendingReferral | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReferralData = useCallback(async (): Promise<ReferralData | null> => {
+    if (!address) return null;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await getReferralData(address);
+      setReferralData(data);
+
+      // A `?ref=` code only applies to users without a referral record;
+      // use-code would overwrite an existing one
+      const code = getPendingReferralCode();
+      if (code && !data) {
+        const referrer = await getReferralCodeOwner(code);
+        if (referrer && referrer !== address) {
+          setPendingReferral({ code, referrer });
+        } else {
+          clearPendingReferralCode();
+          setPendingReferral(null);
+        }
+      } else {
+        if (code) clearPendingReferralCode();
+        setPendingReferral(null);
+      }
+
+      return data;
+    } catch (err: any) {
+      setError(err.message || 'Failed to load referral data');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const dismissPendingReferral = () => {
+    clearPendingReferralCode();
+    setPendingReferral(null);
+  };
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerateCode = async (code: string) => {
+    if (!isValidReferralCode(code)) {
+      const errorMsg = 'Codes use up to 20 letters, numbers, dashes or underscores';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+
+    return submit(() => generateReferralCode(code), 'Failed to generate referral code');
+  };
+
+  const handleApplyCode = async (code: string) => {
+    const result = await submit(() => applyReferralCode(code), 'Failed to apply referral code');
+    if (result.success) dismissPendingReferral();
+    return result;
+  };
+
+  return {
+    referralData,
+    ownCode: getOwnReferralCode(referralData),
+    pendingReferral,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadReferralData,
+    dismissPendingReferral,
+    generateCode: guard(handleGenerateCode),
+    applyCode: guard(handleApplyCode),
+  };
+};
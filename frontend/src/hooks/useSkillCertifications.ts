@@ -0,0 +1,91 @@
+// React Hook for Skill Certification NFT Contract
+// Clarity 4 SIP-009 certifications with stacks-block-time expiry
+
+import { useState, useCallback } from 'react';
+import {
+  issueCertification,
+  renewCertification,
+  listUserCertifications,
+} from '@/lib/contracts/skillCertificationNft';
+import {
+  CertificationLevel,
+  ContractCallResult,
+  SkillCertification,
+} from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export const useSkillCertifications = (owner?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('skillCertificationNft');
+  const [certifications, setCertifications] = useState<SkillCertification[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCertifications = useCallback(async (): Promise<SkillCertification[]> => {
+    if (!owner) return [];
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const list = await listUserCertifications(owner);
+      // Soonest expiry first so renewals surface at the top of the gallery
+      const sorted = [...list].sort((a, b) => a.expiresAt - b.expiresAt);
+      setCertifications(sorted);
+      return sorted;
+    } catch (err: any) {
+      setError(err.message || 'Failed to load certifications');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner]);
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleIssueCertification = (
+    recipient: string,
+    skillId: number,
+    level: CertificationLevel
+  ) =>
+    submit(
+      () => issueCertification(recipient, skillId, level),
+      'Failed to issue certification'
+    );
+
+  const handleRenewCertification = (tokenId: number) =>
+    submit(() => renewCertification(tokenId), 'Failed to renew certification');
+
+  return {
+    certifications,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadCertifications,
+    issueCertification: guard(handleIssueCertification),
+    renewCertification: guard(handleRenewCertification),
+  };
+};
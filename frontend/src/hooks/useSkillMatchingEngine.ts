@@ -0,0 +1,92 @@
+// React Hook for Skill Matching Engine Contract
+// Clarity 4 with demand/supply orders and stacks-block-time match proposals
+
+import { useState, useCallback } from 'react';
+import {
+  createDemand,
+  createSupply,
+  proposeMatch,
+  acceptMatch,
+  listMatchProposals,
+} from '@/lib/contracts/skillMatchingEngine';
+import { ContractCallResult, MatchCandidate, MatchProposal } from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export const useSkillMatchingEngine = (address?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('skillMatchingEngine');
+  const [proposals, setProposals] = useState<MatchProposal[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only proposals the connected user is a party to
+  const loadProposals = useCallback(async (): Promise<MatchProposal[]> => {
+    if (!address) return [];
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const list = await listMatchProposals();
+      const mine = list
+        .filter((proposal) => proposal.requester === address || proposal.provider === address)
+        .reverse();
+      setProposals(mine);
+      return mine;
+    } catch (err: any) {
+      setError(err.message || 'Failed to load match proposals');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateDemand = (skillId: number, hoursNeeded: number, maxRate: number) =>
+    submit(() => createDemand(skillId, hoursNeeded, maxRate), 'Failed to post demand');
+
+  const handleCreateSupply = (skillId: number, hoursAvailable: number, minRate: number) =>
+    submit(() => createSupply(skillId, hoursAvailable, minRate), 'Failed to post supply');
+
+  const handleProposeMatch = (candidate: MatchCandidate) =>
+    submit(() => proposeMatch(candidate), 'Failed to propose match');
+
+  const handleAcceptMatch = (matchId: number) =>
+    submit(() => acceptMatch(matchId), 'Failed to accept match');
+
+  return {
+    proposals,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadProposals,
+    createDemand: guard(handleCreateDemand),
+    createSupply: guard(handleCreateSupply),
+    proposeMatch: guard(handleProposeMatch),
+    acceptMatch: guard(handleAcceptMatch),
+  };
+};
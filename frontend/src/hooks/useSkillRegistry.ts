@@ -16,8 +16,10 @@ import {
   SkillTemplate,
   SkillCategory,
 } from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
 
 export const useSkillRegistry = () => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('skillRegistry');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -157,11 +159,13 @@ export const useSkillRegistry = () => {
   return {
     isLoading,
     error,
-    registerSkill: handleRegisterSkill,
-    verifySkill: handleVerifySkill,
+    isPaused,
+    pauseMessage,
+    registerSkill: guard(handleRegisterSkill),
+    verifySkill: guard(handleVerifySkill),
     loadSkillDetails,
     loadSkillStats,
-    approveTemplate: handleApproveTemplate,
+    approveTemplate: guard(handleApproveTemplate),
     loadSkillTemplate,
   };
 };
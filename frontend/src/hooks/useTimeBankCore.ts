@@ -9,8 +9,10 @@ import {
   getTimeBankStats,
 } from '@/lib/contracts/timeBankCore';
 import { TimeBankUser, TimeBankStats } from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
 
 export const useTimeBankCore = () => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('timeBankCore');
   const [user, setUser] = useState<TimeBankUser | null>(null);
   const [stats, setStats] = useState<TimeBankStats | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -84,6 +86,8 @@ export const useTimeBankCore = () => {
     error,
     loadUserInfo,
     loadStats,
-    registerUser: handleRegisterUser,
+    isPaused,
+    pauseMessage,
+    registerUser: guard(handleRegisterUser),
   };
 };
@@ -0,0 +1,133 @@
+// React Hook for Time Token Contract
+// Clarity 4 SIP-010 token with staking and spender allowances
+
+import { useState, useCallback } from 'react';
+import {
+  stakeTokens,
+  unstakeTokens,
+  approveSpender,
+  revokeAllowance,
+  getTokenDecimals,
+  getTokenBalance,
+  getStakeInfo,
+  listAllowances,
+} from '@/lib/contracts/timeTokenFt';
+import { ContractCallResult, TokenAllowance, TokenStakeInfo } from '@/types/contracts';
+import { usePauseGuard } from './useContracts';
+
+export const useTimeToken = (address?: string | null) => {
+  const { isPaused, pauseMessage, guard } = usePauseGuard('timeTokenFt');
+  const [decimals, setDecimals] = useState<number | null>(null);
+  const [balance, setBalance] = useState(0);
+  const [stakeInfo, setStakeInfo] = useState<TokenStakeInfo | null>(null);
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBalances = useCallback(async () => {
+    if (!address) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [tokenDecimals, liquid, stake] = await Promise.all([
+        getTokenDecimals(),
+        getTokenBalance(address),
+        getStakeInfo(address),
+      ]);
+
+      if (tokenDecimals === null) {
+        setError('Failed to load token decimals');
+      }
+      setDecimals(tokenDecimals);
+      setBalance(liquid);
+      setStakeInfo(stake);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load token balances');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  /**
+   * Current allowances of the given spenders; revoked ones are dropped
+   */
+  const loadAllowances = useCallback(
+    async (spenders: string[]): Promise<TokenAllowance[]> => {
+      if (!address) return [];
+
+      try {
+        const list = await listAllowances(address, spenders);
+        setAllowances(list);
+        return list;
+      } catch (err: any) {
+        setError(err.message || 'Failed to load allowances');
+        return [];
+      }
+    },
+    [address]
+  );
+
+  const submit = async <T,>(
+    call: () => Promise<ContractCallResult<T>>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await call();
+
+      if (result.success) {
+        return { success: true, txId: result.txId };
+      } else {
+        setError(result.error || failureMessage);
+        return { success: false, error: result.error };
+      }
+    } catch (err: any) {
+      const errorMsg = err.message || failureMessage;
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStake = async (amount: number) => {
+    if (!address) {
+      const errorMsg = 'Wallet not connected';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+
+    return submit(() => stakeTokens(address, amount), 'Failed to stake tokens');
+  };
+
+  const handleUnstake = (amount: number) =>
+    submit(() => unstakeTokens(amount), 'Failed to unstake tokens');
+
+  const handleApprove = (spender: string, amount: number) =>
+    submit(() => approveSpender(spender, amount), 'Failed to approve spender');
+
+  const handleRevoke = (spender: string) =>
+    submit(() => revokeAllowance(spender), 'Failed to revoke allowance');
+
+  return {
+    decimals,
+    balance,
+    stakedBalance: stakeInfo?.amount ?? 0,
+    stakeInfo,
+    allowances,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadBalances,
+    loadAllowances,
+    stake: guard(handleStake),
+    unstake: guard(handleUnstake),
+    approve: guard(handleApprove),
+    revoke: guard(handleRevoke),
+  };
+};
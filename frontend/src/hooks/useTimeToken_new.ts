@@ -1,87 +0,0 @@
-// useTimeToken_new.ts — useTimeToken React hook for time-banking UI
-import { useState, useCallback, useEffect } from 'react';
-
-/** State interface for useTimeToken */
-export interface useTimeTokenState {
-  balance: unknown;
-  allowance: unknown;
-  isLoading: unknown;
-  error: unknown;
-  transfer: unknown;
-  approve: unknown;
-}
-
-/** useTimeToken hook implementation */
-export function useTimeToken() {
-  const [state, setState] = useState<Partial<useTimeTokenState>>({});
-  
-  const refresh = useCallback(async () => {
-    setState(prev => ({ ...prev }));
-  }, []);
-
-  useEffect(() => {
-    refresh();
-  }, [refresh]);
-
-  return { ...state, refresh };
-}
-
-/** USETIMETOKEN_CONST_1 */
-export const USETIMETOKEN_CONST_1 = 17;
-
-/** USETIMETOKEN_CONST_2 */
-export const USETIMETOKEN_CONST_2 = 34;
-
-/** USETIMETOKEN_CONST_3 */
-export const USETIMETOKEN_CONST_3 = 51;
-
-/** USETIMETOKEN_CONST_4 */
-export const USETIMETOKEN_CONST_4 = 68;
-
-/** USETIMETOKEN_CONST_5 */
-export const USETIMETOKEN_CONST_5 = 85;
-
-/** USETIMETOKEN_CONST_6 */
-export const USETIMETOKEN_CONST_6 = 102;
-
-/** USETIMETOKEN_CONST_7 */
-export const USETIMETOKEN_CONST_7 = 119;
-
-/** USETIMETOKEN_CONST_8 */
-export const USETIMETOKEN_CONST_8 = 136;
-
-/** USETIMETOKEN_CONST_9 */
-export const USETIMETOKEN_CONST_9 = 153;
-
-/** USETIMETOKEN_CONST_10 */
-export const USETIMETOKEN_CONST_10 = 170;
-
-/** USETIMETOKEN_CONST_11 */
-export const USETIMETOKEN_CONST_11 = 187;
-
-/** USETIMETOKEN_CONST_12 */
-export const USETIMETOKEN_CONST_12 = 204;
-
-/** USETIMETOKEN_CONST_13 */
-export const USETIMETOKEN_CONST_13 = 221;
-
-/** USETIMETOKEN_CONST_14 */
-export const USETIMETOKEN_CONST_14 = 238;
-
-/** USETIMETOKEN_CONST_15 */
-export const USETIMETOKEN_CONST_15 = 255;
-
-/** USETIMETOKEN_CONST_16 */
-export const USETIMETOKEN_CONST_16 = 272;
-
-/** USETIMETOKEN_CONST_17 */
-export const USETIMETOKEN_CONST_17 = 289;
-
-/** USETIMETOKEN_CONST_18 */
-export const USETIMETOKEN_CONST_18 = 306;
-
-/** USETIMETOKEN_CONST_19 */
-export const USETIMETOKEN_CONST_19 = 323;
-
-/** USETIMETOKEN_CONST_20 */
-export const USETIMETOKEN_CONST_20 = 340;
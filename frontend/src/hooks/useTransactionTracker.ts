@@ -11,6 +11,13 @@ import {
   TransactionStatus,
   createTransactionTracker,
 } from '@/lib/transaction-tracker';
+import {
+  TransactionReplacer,
+  ReplacementResult,
+  createTransactionReplacer,
+} from '@/lib/transaction-replacement';
+import { createNonceManager } from '@/lib/nonce-manager';
+import type { StacksNetworkClient } from '@/lib/stacks-network-client';
 
 export interface UseTransactionTrackerResult {
   track: (txId: string, metadata?: Record<string, unknown>) => void;
@@ -21,14 +28,24 @@ export interface UseTransactionTrackerResult {
   pending: TrackedTransaction[];
   completed: TrackedTransaction[];
   clearCompleted: () => void;
+  speedUp: (txId: string, fee?: bigint) => Promise<ReplacementResult>;
+  cancel: (txId: string, fee?: bigint) => Promise<ReplacementResult>;
+  getReplacementChain: (txId: string) => TrackedTransaction[];
+  getConfirmedInChain: (txId: string) => TrackedTransaction | undefined;
 }
 
 /**
- * Hook for tracking transaction status
+ * Hook for tracking transaction status. Passing a network client and the
+ * connected wallet's address enables speeding up and cancelling pending
+ * transactions; the wallet signs each replacement.
  */
-export function useTransactionTracker(): UseTransactionTrackerResult {
+export function useTransactionTracker(
+  networkClient?: StacksNetworkClient,
+  address?: string | null
+): UseTransactionTrackerResult {
   const [tracked, setTracked] = useState<TrackedTransaction[]>([]);
   const trackerRef = useRef<TransactionTracker | null>(null);
+  const replacerRef = useRef<TransactionReplacer | null>(null);
 
   // Initialize tracker
   useEffect(() => {
@@ -50,10 +67,18 @@ export function useTransactionTracker(): UseTransactionTrackerResult {
       },
     });
 
+    replacerRef.current = networkClient
+      ? createTransactionReplacer(
+          networkClient,
+          createNonceManager(networkClient),
+          trackerRef.current
+        )
+      : null;
+
     return () => {
       trackerRef.current?.destroy();
     };
-  }, []);
+  }, [networkClient]);
 
   const track = useCallback(
     (txId: string, metadata?: Record<string, unknown>) => {
@@ -92,6 +117,34 @@ export function useTransactionTracker(): UseTransactionTrackerResult {
     );
   }, []);
 
+  const speedUp = useCallback(
+    async (txId: string, fee?: bigint) => {
+      if (!replacerRef.current || !address) {
+        throw new Error('Replacing transactions requires a network client and a connected wallet');
+      }
+      return replacerRef.current.speedUp(txId, address, fee);
+    },
+    [address]
+  );
+
+  const cancel = useCallback(
+    async (txId: string, fee?: bigint) => {
+      if (!replacerRef.current || !address) {
+        throw new Error('Replacing transactions requires a network client and a connected wallet');
+      }
+      return replacerRef.current.cancel(txId, address, fee);
+    },
+    [address]
+  );
+
+  const getReplacementChain = useCallback((txId: string) => {
+    return trackerRef.current?.getReplacementChain(txId) ?? [];
+  }, []);
+
+  const getConfirmedInChain = useCallback((txId: string) => {
+    return trackerRef.current?.getConfirmedInChain(txId);
+  }, []);
+
   const pending = tracked.filter(
     (tx) => tx.status === TransactionStatus.PENDING
   );
@@ -101,7 +154,8 @@ export function useTransactionTracker(): UseTransactionTrackerResult {
       tx.status === TransactionStatus.SUCCESS ||
       tx.status === TransactionStatus.FAILED ||
       tx.status === TransactionStatus.ABORT_BY_POST_CONDITION ||
-      tx.status === TransactionStatus.ABORT_BY_RESPONSE
+      tx.status === TransactionStatus.ABORT_BY_RESPONSE ||
+      tx.status === TransactionStatus.REPLACED
   );
 
   return {
@@ -113,6 +167,10 @@ export function useTransactionTracker(): UseTransactionTrackerResult {
     pending,
     completed,
     clearCompleted,
+    speedUp,
+    cancel,
+    getReplacementChain,
+    getConfirmedInChain,
   };
 }
 
@@ -0,0 +1,117 @@
+// React Hook for Sign-In With Stacks API sessions
+// The session lives in an HTTP-only cookie, so this only ever sees its address
+
+import { useState, useCallback } from 'react';
+import {
+  createMessageSigner,
+  SIGN_IN_CHAIN_IDS,
+  SIGN_IN_STATEMENT,
+} from '@/lib/message-signing';
+
+export interface WalletSessionInfo {
+  address: string;
+  /** Unix seconds */
+  expiresAt: number;
+}
+
+/**
+ * Call an auth API route, throwing with the route's message on failure
+ */
+async function requestAuth<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    credentials: 'same-origin',
+    headers: { 'Content-Type': 'application/json' },
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data as T;
+}
+
+export const useWalletSession = (address?: string | null) => {
+  const [session, setSession] = useState<WalletSessionInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Pick up a session started earlier, e.g. after a reload */
+  const loadSession = useCallback(async () => {
+    try {
+      const { address: signedIn, expiresAt } = await requestAuth<WalletSessionInfo>(
+        '/api/auth/session'
+      );
+      setSession({ address: signedIn, expiresAt });
+    } catch {
+      setSession(null);
+    }
+  }, []);
+
+  const signIn = useCallback(async () => {
+    if (!address) {
+      setError('Wallet not connected');
+      return null;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { nonce, expiresAt } = await requestAuth<{ nonce: string; expiresAt: number }>(
+        '/api/auth/nonce'
+      );
+      const network = /^S[PM]/.test(address) ? 'mainnet' : 'testnet';
+      const signed = await createMessageSigner({ network }).signIn({
+        domain: window.location.host,
+        address,
+        statement: SIGN_IN_STATEMENT,
+        uri: window.location.origin,
+        chainId: SIGN_IN_CHAIN_IDS[network],
+        nonce,
+        issuedAt: new Date().toISOString(),
+        expirationTime: new Date(expiresAt * 1000).toISOString(),
+      });
+      if (signed.address !== address) {
+        throw new Error('Sign-in was signed by a different account');
+      }
+
+      const { address: signedIn, expiresAt: sessionExpiresAt } =
+        await requestAuth<WalletSessionInfo>('/api/auth/verify', {
+          method: 'POST',
+          body: JSON.stringify({ message: signed.message, signature: signed.signature }),
+        });
+      const next = { address: signedIn, expiresAt: sessionExpiresAt };
+      setSession(next);
+      return next;
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign in');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const signOut = useCallback(async () => {
+    setError(null);
+
+    try {
+      await requestAuth('/api/auth/session', { method: 'DELETE' });
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign out');
+    } finally {
+      setSession(null);
+    }
+  }, []);
+
+  return {
+    session,
+    /** Signed in as the connected wallet, not a previously connected one */
+    isSignedIn: !!session && session.address === address,
+    isLoading,
+    error,
+    loadSession,
+    signIn,
+    signOut,
+  };
+};
@@ -0,0 +1,190 @@
+// error-catalog.ts — contract error lookups over the generated error-constants.ts
+
+import { CONTRACT_ERRORS, type ErrorContract } from './error-constants';
+
+/** A contract's `(err uNNNN)` resolved through the catalog */
+export interface ContractErrorInfo {
+  contract: ErrorContract;
+  code: number;
+  /** Constant name in the contract, e.g. `ERR_NOT_FOUND` */
+  name: string;
+  message: string;
+}
+
+const ERROR_CONSTANT_PATTERN = /\(define-constant\s+(ERR_[A-Z0-9_]+)\s+\(err\s+u(\d+)\)\)/g;
+
+/**
+ * `(define-constant ERR_* (err uNNNN))` entries of a Clarity source, by code
+ */
+export function parseErrorConstants(source: string): Record<number, string> {
+  const constants: Record<number, string> = {};
+  for (const match of Array.from(source.matchAll(ERROR_CONSTANT_PATTERN))) {
+    constants[Number(match[2])] = match[1];
+  }
+  return constants;
+}
+
+/**
+ * Catalog of every contract's error constants from `{ contractName: source }`
+ */
+export function buildErrorCatalog(
+  sources: Record<string, string>
+): Record<string, Record<number, string>> {
+  const catalog: Record<string, Record<number, string>> = {};
+  Object.keys(sources)
+    .sort()
+    .forEach((contractName) => {
+      catalog[toErrorContract(contractName)] = parseErrorConstants(sources[contractName]);
+    });
+  return catalog;
+}
+
+/**
+ * Source of error-constants.ts for a catalog
+ */
+export function renderErrorConstants(catalog: Record<string, Record<number, string>>): string {
+  const entries = Object.keys(catalog).map((contract) => {
+    const codes = Object.keys(catalog[contract])
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map((code) => `    ${code}: '${catalog[contract][code]}',`);
+    return [`  ${contract}: {`, ...codes, '  },'].join('\n');
+  });
+
+  return [
+    '// error-constants.ts — ERR_* constants of every contract, by contract and code',
+    '// Generated by scripts/generate-error-catalog.ts from time-banking/contracts. Do not edit by hand',
+    '',
+    'export const CONTRACT_ERRORS = {',
+    ...entries,
+    '} as const;',
+    '',
+    '/** Catalog key of a contract: its camelCased name */',
+    'export type ErrorContract = keyof typeof CONTRACT_ERRORS;',
+    '',
+    '/** Constant name of a contract error, e.g. `ERR_NOT_FOUND` */',
+    'export type ContractErrorName = {',
+    '  [C in ErrorContract]: (typeof CONTRACT_ERRORS)[C][keyof (typeof CONTRACT_ERRORS)[C]];',
+    '}[ErrorContract];',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Catalog key of a contract: the camelCased contract name, which is also
+ * its ContractConfig key. Accepts `name` or `address.name`
+ */
+export function toErrorContract(contract: string): string {
+  const name = contract.includes('.') ? contract.split('.')[1] : contract;
+  return name.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/** Messages shared by every contract that declares the constant */
+const ERROR_NAME_MESSAGES: Record<string, string> = {
+  ERR_UNAUTHORIZED: 'Unauthorized operation',
+  ERR_NOT_FOUND: 'Record not found',
+  ERR_ALREADY_EXISTS: 'Record already exists',
+  ERR_INVALID_PARAMS: 'Invalid parameters',
+  ERR_INVALID_AMOUNT: 'Invalid amount',
+  ERR_INVALID_TIME: 'Invalid time',
+  ERR_INVALID_STATUS: 'Invalid status for this action',
+  ERR_INSUFFICIENT_BALANCE: 'Insufficient balance',
+  ERR_INSUFFICIENT_CREDITS: 'Insufficient credits',
+  ERR_INSUFFICIENT_REPUTATION: 'Insufficient reputation',
+  ERR_ALREADY_REGISTERED: 'User already registered',
+  ERR_USER_INACTIVE: 'User is inactive',
+  ERR_SELF_TRANSFER: 'Cannot transfer to yourself',
+  ERR_ALREADY_VOTED: 'Already voted',
+  ERR_VOTING_CLOSED: 'Voting period has closed',
+  ERR_PROPOSAL_ACTIVE: 'Proposal is still active',
+  ERR_QUORUM_NOT_MET: 'Quorum not met',
+  ERR_TIMELOCK_ACTIVE: 'Timelock period still active',
+  ERR_DEADLINE_PASSED: 'Deadline has passed',
+  ERR_DEADLINE_NOT_PASSED: 'Deadline has not passed yet',
+  ERR_ESCROW_EXPIRED: 'Escrow has expired',
+  ERR_ESCROW_LOCKED: 'Escrow is locked',
+  ERR_NOT_PARTICIPANT: 'Not a participant',
+  ERR_ALREADY_RELEASED: 'Escrow already released',
+  ERR_DISPUTE_REQUIRED: 'A dispute is required to continue',
+  ERR_EXCHANGE_EXPIRED: 'Exchange has expired',
+  ERR_EXCHANGE_ACTIVE: 'Exchange is still active',
+  ERR_SKILL_NOT_VERIFIED: 'Skill not verified',
+  ERR_SELF_VERIFY: 'Cannot verify your own skill',
+  ERR_ALREADY_ENDORSED: 'Already endorsed this user',
+  ERR_SELF_ENDORSE: 'Cannot endorse yourself',
+  ERR_BADGE_EXISTS: 'Badge already awarded',
+  ERR_ALREADY_CLAIMED: 'Reward already claimed',
+  ERR_REWARD_PERIOD_ACTIVE: 'Reward period is still active',
+  ERR_INSUFFICIENT_POOL: 'Insufficient reward pool',
+  ERR_NOT_ELIGIBLE: 'Not eligible for rewards',
+  ERR_ALREADY_CERTIFIED: 'Already certified',
+  ERR_EXPIRED: 'Certification has expired',
+  ERR_INVALID_LEVEL: 'Invalid certification level',
+  ERR_NOT_OWNER: 'Not the owner',
+  ERR_ALREADY_PAUSED: 'Already paused',
+  ERR_NOT_PAUSED: 'Not paused',
+  ERR_ALREADY_SIGNED: 'Already signed',
+  ERR_INSUFFICIENT_SIGNATURES: 'Not enough signatures',
+  ERR_SELF_REFERRAL: 'Cannot use your own referral code',
+  ERR_CODE_EXISTS: 'Referral code already taken',
+  ERR_INVALID_SCHEDULE: 'Invalid schedule',
+};
+
+/** Wording for a constant that means something narrower in one contract */
+export const CONTRACT_ERROR_MESSAGES: Partial<Record<ErrorContract, Record<string, string>>> = {
+  timeBankCore: { ERR_NOT_FOUND: 'User not found' },
+  skillRegistry: { ERR_NOT_FOUND: 'Skill not found', ERR_ALREADY_EXISTS: 'Skill already exists' },
+  exchangeManager: {
+    ERR_NOT_FOUND: 'Exchange not found',
+    ERR_ALREADY_EXISTS: 'Exchange already exists',
+  },
+  reputationSystem: { ERR_NOT_FOUND: 'Reputation not found' },
+  escrowManager: { ERR_NOT_FOUND: 'Escrow not found', ERR_ALREADY_EXISTS: 'Escrow already exists' },
+  governance: { ERR_NOT_FOUND: 'Proposal not found' },
+  rewardsDistributor: { ERR_NOT_FOUND: 'Reward period not found' },
+  disputeArbitration: { ERR_NOT_FOUND: 'Dispute not found' },
+  insurancePool: {
+    ERR_NOT_FOUND: 'Claim not found',
+    ERR_INSUFFICIENT_BALANCE: 'Insufficient pool balance',
+  },
+  multiSigWallet: { ERR_NOT_FOUND: 'Proposal not found' },
+  emergencyControls: { ERR_NOT_FOUND: 'Operation not found' },
+  referralProgram: { ERR_NOT_FOUND: 'Referral code not found' },
+  skillCertificationNft: { ERR_NOT_FOUND: 'Certification not found' },
+  skillMatchingEngine: { ERR_NOT_FOUND: 'Match not found' },
+  automationScheduler: { ERR_NOT_FOUND: 'Schedule not found' },
+};
+
+/** `ERR_SOME_THING` -> `Some thing` for constants without a message */
+const humanize = (name: string): string => {
+  const words = name.replace(/^ERR_/, '').toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export function isErrorContract(contract: string): contract is ErrorContract {
+  return Object.prototype.hasOwnProperty.call(CONTRACT_ERRORS, contract);
+}
+
+/**
+ * Resolve a contract's error code, or null if the contract doesn't declare it
+ */
+export function getContractError(contract: string, code: number): ContractErrorInfo | null {
+  const key = toErrorContract(contract);
+  if (!isErrorContract(key)) return null;
+
+  const constants: Record<number, string> = CONTRACT_ERRORS[key];
+  const name = constants[code];
+  if (!name) return null;
+
+  return {
+    contract: key,
+    code,
+    name,
+    message:
+      CONTRACT_ERROR_MESSAGES[key]?.[name] ?? ERROR_NAME_MESSAGES[name] ?? humanize(name),
+  };
+}
+
+export function getContractErrorMessage(contract: string, code: number): string {
+  return getContractError(contract, code)?.message ?? `Unknown error (code: ${code})`;
+}
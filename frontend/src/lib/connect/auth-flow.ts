@@ -1,281 +1,169 @@
 // auth-flow.ts — Stacks Connect authentication flow utilities
 
-/** initializeAuth — stub */
-export function initializeAuth(...args: unknown[]): unknown {
-  return args;
+import {
+  connect,
+  disconnect,
+  getLocalStorage,
+  isConnected,
+  type MethodResult,
+} from '@stacks/connect';
+
+type GetAddressesResult = MethodResult<'getAddresses'>;
+
+export type ConnectNetwork = 'mainnet' | 'testnet';
+
+/** A connected wallet, as kept between page loads */
+export interface ConnectSession {
+  address: string;
+  publicKey?: string;
+  network: ConnectNetwork;
+  connectedAt: number;
+  /** ms timestamp after which the session has to be re-established */
+  expiresAt: number;
 }
 
-/** buildAuthRequest — stub */
-export function buildAuthRequest(...args: unknown[]): unknown {
-  return args;
+export interface AuthOptions {
+  network?: ConnectNetwork;
+  /** Shows the WalletConnect (Reown) option for mobile wallets */
+  walletConnectProjectId?: string;
+  forceWalletSelect?: boolean;
+  persistWalletSelect?: boolean;
 }
 
-/** handleAuthResponse — stub */
-export function handleAuthResponse(...args: unknown[]): unknown {
-  return args;
+export type AuthRequest = Parameters<typeof connect>[0] & { network: ConnectNetwork };
+
+/** How long a connection is trusted without the wallet being asked again */
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** refreshSession extends sessions that expire within this window */
+export const SESSION_REFRESH_WINDOW_MS = 60 * 60 * 1000;
+
+const SESSION_STORAGE_KEY = 'timebank:connect-session';
+
+/** Network of the configured deployment */
+export const getConnectNetwork = (): ConnectNetwork =>
+  process.env.NEXT_PUBLIC_STACKS_NETWORK === 'mainnet' ? 'mainnet' : 'testnet';
+
+const isMainnetAddress = (address: string) => /^S[PM]/.test(address);
+const isStacksAddress = (address: string) => /^S[PMTN][0-9A-Z]+$/.test(address);
+
+const readSession = (): ConnectSession | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ConnectSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeSession = (session: ConnectSession): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+/** Options for the wallet selection modal */
+export function buildAuthRequest(options: AuthOptions = {}): AuthRequest {
+  const request: AuthRequest = { network: options.network ?? getConnectNetwork() };
+
+  if (options.walletConnectProjectId) {
+    request.walletConnectProjectId = options.walletConnectProjectId;
+  }
+  if (options.forceWalletSelect !== undefined) {
+    request.forceWalletSelect = options.forceWalletSelect;
+  }
+  if (options.persistWalletSelect !== undefined) {
+    request.persistWalletSelect = options.persistWalletSelect;
+  }
+
+  return request;
 }
 
-/** getUserSession — stub */
-export function getUserSession(...args: unknown[]): unknown {
-  return args;
+/**
+ * Session for the wallet's STX address on the requested network. Throws if
+ * the wallet returned none
+ */
+export function handleAuthResponse(
+  response: GetAddressesResult,
+  network: ConnectNetwork,
+  now = Date.now()
+): ConnectSession {
+  const entry = response.addresses.find(
+    ({ address }) => isStacksAddress(address) && isMainnetAddress(address) === (network === 'mainnet')
+  );
+  if (!entry) {
+    throw new Error(`Wallet did not return a ${network} Stacks address`);
+  }
+
+  return {
+    address: entry.address,
+    publicKey: entry.publicKey || undefined,
+    network,
+    connectedAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  };
 }
 
-/** clearSession — stub */
-export function clearSession(...args: unknown[]): unknown {
-  return args;
+/**
+ * Open the wallet selection modal and start a session. Rejects if the user
+ * closes the modal
+ */
+export async function initializeAuth(options: AuthOptions = {}): Promise<ConnectSession> {
+  const request = buildAuthRequest(options);
+  const response = await connect(request);
+  const session = handleAuthResponse(response, request.network);
+  writeSession(session);
+  return session;
 }
 
-/** isSessionValid — stub */
-export function isSessionValid(...args: unknown[]): unknown {
-  return args;
+export function isSessionValid(session: ConnectSession | null, now = Date.now()): boolean {
+  return !!session && session.expiresAt > now;
 }
 
-/** refreshSession — stub */
-export function refreshSession(...args: unknown[]): unknown {
-  return args;
+/** ms left before the session expires, 0 once it has */
+export function getSessionExpiry(session: ConnectSession, now = Date.now()): number {
+  return Math.max(0, session.expiresAt - now);
 }
 
-/** getSessionExpiry — stub */
-export function getSessionExpiry(...args: unknown[]): unknown {
-  return args;
+/**
+ * The current session, or null if there is none, it expired or the wallet
+ * was disconnected outside the app
+ */
+export function getUserSession(now = Date.now()): ConnectSession | null {
+  const session = readSession();
+  if (!isSessionValid(session, now) || !isConnected()) return null;
+  return session;
 }
 
-/** AUTH_TIMEOUT constant 1 */
-export const AUTH_TIMEOUT_1 = 7;
-
-/** AUTH_TIMEOUT constant 2 */
-export const AUTH_TIMEOUT_2 = 14;
-
-/** AUTH_TIMEOUT constant 3 */
-export const AUTH_TIMEOUT_3 = 21;
-
-/** AUTH_TIMEOUT constant 4 */
-export const AUTH_TIMEOUT_4 = 28;
-
-/** AUTH_TIMEOUT constant 5 */
-export const AUTH_TIMEOUT_5 = 35;
-
-/** AUTH_TIMEOUT constant 6 */
-export const AUTH_TIMEOUT_6 = 42;
-
-/** AUTH_TIMEOUT constant 7 */
-export const AUTH_TIMEOUT_7 = 49;
-
-/** AUTH_TIMEOUT constant 8 */
-export const AUTH_TIMEOUT_8 = 56;
-
-/** AUTH_TIMEOUT constant 9 */
-export const AUTH_TIMEOUT_9 = 63;
-
-/** AUTH_TIMEOUT constant 10 */
-export const AUTH_TIMEOUT_10 = 70;
-
-/** AUTH_TIMEOUT constant 11 */
-export const AUTH_TIMEOUT_11 = 77;
-
-/** AUTH_TIMEOUT constant 12 */
-export const AUTH_TIMEOUT_12 = 84;
-
-/** AUTH_TIMEOUT constant 13 */
-export const AUTH_TIMEOUT_13 = 91;
-
-/** AUTH_TIMEOUT constant 14 */
-export const AUTH_TIMEOUT_14 = 98;
-
-/** AUTH_TIMEOUT constant 15 */
-export const AUTH_TIMEOUT_15 = 105;
-
-/** AUTH_TIMEOUT constant 16 */
-export const AUTH_TIMEOUT_16 = 112;
-
-/** AUTH_TIMEOUT constant 17 */
-export const AUTH_TIMEOUT_17 = 119;
-
-/** AUTH_TIMEOUT constant 18 */
-export const AUTH_TIMEOUT_18 = 126;
-
-/** AUTH_TIMEOUT constant 19 */
-export const AUTH_TIMEOUT_19 = 133;
-
-/** AUTH_TIMEOUT constant 20 */
-export const AUTH_TIMEOUT_20 = 140;
-
-/** AUTH_TIMEOUT constant 21 */
-export const AUTH_TIMEOUT_21 = 147;
-
-/** AUTH_TIMEOUT constant 22 */
-export const AUTH_TIMEOUT_22 = 154;
-
-/** AUTH_TIMEOUT constant 23 */
-export const AUTH_TIMEOUT_23 = 161;
-
-/** AUTH_TIMEOUT constant 24 */
-export const AUTH_TIMEOUT_24 = 168;
-
-/** AUTH_TIMEOUT constant 25 */
-export const AUTH_TIMEOUT_25 = 175;
-
-/** AUTH_TIMEOUT constant 26 */
-export const AUTH_TIMEOUT_26 = 182;
-
-/** AUTH_TIMEOUT constant 27 */
-export const AUTH_TIMEOUT_27 = 189;
-
-/** AUTH_TIMEOUT constant 28 */
-export const AUTH_TIMEOUT_28 = 196;
-
-/** AUTH_TIMEOUT constant 29 */
-export const AUTH_TIMEOUT_29 = 203;
-
-/** AUTH_TIMEOUT constant 30 */
-export const AUTH_TIMEOUT_30 = 210;
-
-/** AUTH_TIMEOUT constant 31 */
-export const AUTH_TIMEOUT_31 = 217;
-
-/** AUTH_TIMEOUT constant 32 */
-export const AUTH_TIMEOUT_32 = 224;
-
-/** AUTH_TIMEOUT constant 33 */
-export const AUTH_TIMEOUT_33 = 231;
-
-/** AUTH_TIMEOUT constant 34 */
-export const AUTH_TIMEOUT_34 = 238;
-
-/** AUTH_TIMEOUT constant 35 */
-export const AUTH_TIMEOUT_35 = 245;
-
-/** AUTH_TIMEOUT constant 36 */
-export const AUTH_TIMEOUT_36 = 252;
-
-/** AUTH_TIMEOUT constant 37 */
-export const AUTH_TIMEOUT_37 = 259;
-
-/** AUTH_TIMEOUT constant 38 */
-export const AUTH_TIMEOUT_38 = 266;
-
-/** AUTH_TIMEOUT constant 39 */
-export const AUTH_TIMEOUT_39 = 273;
-
-/** AUTH_TIMEOUT constant 40 */
-export const AUTH_TIMEOUT_40 = 280;
-
-/** AUTH_TIMEOUT constant 41 */
-export const AUTH_TIMEOUT_41 = 287;
-
-/** AUTH_TIMEOUT constant 42 */
-export const AUTH_TIMEOUT_42 = 294;
-
-/** AUTH_TIMEOUT constant 43 */
-export const AUTH_TIMEOUT_43 = 301;
-
-/** AUTH_TIMEOUT constant 44 */
-export const AUTH_TIMEOUT_44 = 308;
-
-/** AUTH_TIMEOUT constant 45 */
-export const AUTH_TIMEOUT_45 = 315;
-
-/** AUTH_TIMEOUT constant 46 */
-export const AUTH_TIMEOUT_46 = 322;
-
-/** AUTH_TIMEOUT constant 47 */
-export const AUTH_TIMEOUT_47 = 329;
-
-/** AUTH_TIMEOUT constant 48 */
-export const AUTH_TIMEOUT_48 = 336;
-
-/** AUTH_TIMEOUT constant 49 */
-export const AUTH_TIMEOUT_49 = 343;
-
-/** AUTH_TIMEOUT constant 50 */
-export const AUTH_TIMEOUT_50 = 350;
-
-/** AUTH_TIMEOUT constant 51 */
-export const AUTH_TIMEOUT_51 = 357;
-
-/** AUTH_TIMEOUT constant 52 */
-export const AUTH_TIMEOUT_52 = 364;
-
-/** AUTH_TIMEOUT constant 53 */
-export const AUTH_TIMEOUT_53 = 371;
-
-/** AUTH_TIMEOUT constant 54 */
-export const AUTH_TIMEOUT_54 = 378;
-
-/** AUTH_TIMEOUT constant 55 */
-export const AUTH_TIMEOUT_55 = 385;
-
-/** AUTH_TIMEOUT constant 56 */
-export const AUTH_TIMEOUT_56 = 392;
-
-/** AUTH_TIMEOUT constant 57 */
-export const AUTH_TIMEOUT_57 = 399;
-
-/** AUTH_TIMEOUT constant 58 */
-export const AUTH_TIMEOUT_58 = 406;
-
-/** AUTH_TIMEOUT constant 59 */
-export const AUTH_TIMEOUT_59 = 413;
-
-/** AUTH_TIMEOUT constant 60 */
-export const AUTH_TIMEOUT_60 = 420;
-
-/** AUTH_TIMEOUT constant 61 */
-export const AUTH_TIMEOUT_61 = 427;
-
-/** AUTH_TIMEOUT constant 62 */
-export const AUTH_TIMEOUT_62 = 434;
-
-/** AUTH_TIMEOUT constant 63 */
-export const AUTH_TIMEOUT_63 = 441;
-
-/** AUTH_TIMEOUT constant 64 */
-export const AUTH_TIMEOUT_64 = 448;
-
-/** AUTH_TIMEOUT constant 65 */
-export const AUTH_TIMEOUT_65 = 455;
-
-/** AUTH_TIMEOUT constant 66 */
-export const AUTH_TIMEOUT_66 = 462;
-
-/** AUTH_TIMEOUT constant 67 */
-export const AUTH_TIMEOUT_67 = 469;
-
-/** AUTH_TIMEOUT constant 68 */
-export const AUTH_TIMEOUT_68 = 476;
-
-/** AUTH_TIMEOUT constant 69 */
-export const AUTH_TIMEOUT_69 = 483;
-
-/** AUTH_TIMEOUT constant 70 */
-export const AUTH_TIMEOUT_70 = 490;
-
-/** AUTH_TIMEOUT constant 71 */
-export const AUTH_TIMEOUT_71 = 497;
-
-/** AUTH_TIMEOUT constant 72 */
-export const AUTH_TIMEOUT_72 = 504;
-
-/** AUTH_TIMEOUT constant 73 */
-export const AUTH_TIMEOUT_73 = 511;
-
-/** AUTH_TIMEOUT constant 74 */
-export const AUTH_TIMEOUT_74 = 518;
-
-/** AUTH_TIMEOUT constant 75 */
-export const AUTH_TIMEOUT_75 = 525;
-
-/** AUTH_TIMEOUT constant 76 */
-export const AUTH_TIMEOUT_76 = 532;
-
-/** AUTH_TIMEOUT constant 77 */
-export const AUTH_TIMEOUT_77 = 539;
-
-/** AUTH_TIMEOUT constant 78 */
-export const AUTH_TIMEOUT_78 = 546;
-
-/** AUTH_TIMEOUT constant 79 */
-export const AUTH_TIMEOUT_79 = 553;
+export function clearSession(): void {
+  if (typeof window !== 'undefined') {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+  disconnect();
+}
 
-/** AUTH_TIMEOUT constant 80 */
-export const AUTH_TIMEOUT_80 = 560;
+/**
+ * Extend a session close to expiry while Stacks Connect still holds its
+ * address. Clears it and returns null once the address is gone
+ */
+export function refreshSession(now = Date.now()): ConnectSession | null {
+  const session = getUserSession(now);
+  if (!session) {
+    clearSession();
+    return null;
+  }
+
+  const stillConnected = getLocalStorage()?.addresses.stx.some(
+    ({ address }) => address === session.address
+  );
+  if (!stillConnected) {
+    clearSession();
+    return null;
+  }
+
+  if (getSessionExpiry(session, now) > SESSION_REFRESH_WINDOW_MS) return session;
+
+  const refreshed = { ...session, expiresAt: now + SESSION_TTL_MS };
+  writeSession(refreshed);
+  return refreshed;
+}
@@ -1,283 +1,173 @@
 // contract-call-flow.ts — Stacks Connect contract call flow
 
+import { JsonRpcError, JsonRpcErrorCode, request, type MethodResult } from '@stacks/connect';
+import type { ClarityValue, PostCondition, PostConditionModeName } from '@stacks/transactions';
+import { getConnectNetwork, type ConnectNetwork } from './auth-flow';
+
 /** Call status enum */
 export enum CallStatus {
   Idle = 'idle',
+  /** Waiting for the user to confirm in their wallet */
   Pending = 'pending',
   Success = 'success',
+  Cancelled = 'cancelled',
   Failed = 'failed',
 }
-export const CALL_STATUS_IDLE: CallStatus = CallStatus.Idle;
-export const CALL_STATUS_PENDING: CallStatus = CallStatus.Pending;
-export const CALL_STATUS_SUCCESS: CallStatus = CallStatus.Success;
-export const CALL_STATUS_FAILED: CallStatus = CallStatus.Failed;
 
-/** buildContractCallRequest */
-export function buildContractCallRequest(...args: unknown[]): unknown {
-  return args;
+/** Statuses each status may move to */
+export const CALL_STATUS_TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+  [CallStatus.Idle]: [CallStatus.Pending],
+  [CallStatus.Pending]: [CallStatus.Success, CallStatus.Cancelled, CallStatus.Failed],
+  [CallStatus.Success]: [CallStatus.Idle, CallStatus.Pending],
+  [CallStatus.Cancelled]: [CallStatus.Idle, CallStatus.Pending],
+  [CallStatus.Failed]: [CallStatus.Idle, CallStatus.Pending],
+};
+
+export interface CallState {
+  status: CallStatus;
+  txId?: string;
+  error?: string;
 }
 
-/** validateContractArgs */
-export function validateContractArgs(...args: unknown[]): unknown {
-  return args;
+export type CallStatusListener = (state: CallState) => void;
+
+export interface ContractCallRequest {
+  contractAddress: string;
+  contractName: string;
+  functionName: string;
+  functionArgs: ClarityValue[];
+  postConditions?: PostCondition[];
+  /** Defaults to deny: only the listed post-conditions may move assets */
+  postConditionMode?: PostConditionModeName;
+  network?: ConnectNetwork;
+  /** Micro-STX; left to the wallet when omitted */
+  fee?: number | bigint;
+  /** Only set to replace a pending transaction at its nonce */
+  nonce?: number | bigint;
 }
 
-/** openContractCallDialog */
-export function openContractCallDialog(...args: unknown[]): unknown {
-  return args;
+export type ContractCallParams = {
+  contract: `${string}.${string}`;
+  functionName: string;
+  functionArgs: ClarityValue[];
+  postConditions: PostCondition[];
+  postConditionMode: PostConditionModeName;
+  network: ConnectNetwork;
+  fee?: string;
+  nonce?: string;
+};
+
+export const IDLE_CALL_STATE: CallState = { status: CallStatus.Idle };
+
+/**
+ * Move a call to `next`. Throws on a transition the flow doesn't allow,
+ * e.g. Idle -> Success without the wallet having been asked
+ */
+export function transitionCallStatus(
+  state: CallState,
+  next: CallStatus,
+  update: Omit<CallState, 'status'> = {}
+): CallState {
+  if (!CALL_STATUS_TRANSITIONS[state.status].includes(next)) {
+    throw new Error(`Invalid call status transition: ${state.status} -> ${next}`);
+  }
+  return { status: next, ...update };
 }
 
-/** handleCallResponse */
-export function handleCallResponse(...args: unknown[]): unknown {
-  return args;
+/** Params for the wallet's `stx_callContract` request */
+export function buildContractCallRequest(call: ContractCallRequest): ContractCallParams {
+  const params: ContractCallParams = {
+    contract: `${call.contractAddress}.${call.contractName}`,
+    functionName: call.functionName,
+    functionArgs: call.functionArgs,
+    postConditions: call.postConditions ?? [],
+    postConditionMode: call.postConditionMode ?? 'deny',
+    network: call.network ?? getConnectNetwork(),
+  };
+  if (call.fee !== undefined) params.fee = call.fee.toString();
+  if (call.nonce !== undefined) params.nonce = call.nonce.toString();
+  return params;
 }
 
-/** isCallPending */
-export function isCallPending(...args: unknown[]): unknown {
-  return args;
+/** Problems with a call, empty if it can be sent */
+export function validateContractArgs(call: ContractCallRequest): string[] {
+  const errors: string[] = [];
+
+  if (!/^S[PMTN][0-9A-Z]{20,}$/.test(call.contractAddress)) {
+    errors.push(`Invalid contract address: ${call.contractAddress || '(empty)'}`);
+  }
+  if (!/^[a-zA-Z][a-zA-Z0-9-]*$/.test(call.contractName)) {
+    errors.push(`Invalid contract name: ${call.contractName || '(empty)'}`);
+  }
+  if (!call.functionName) {
+    errors.push('Function name is required');
+  }
+  call.functionArgs.forEach((arg, index) => {
+    if (!arg || typeof arg !== 'object' || !('type' in arg)) {
+      errors.push(`Argument ${index} is not a Clarity value`);
+    }
+  });
+
+  return errors;
 }
 
-/** isCallSuccess */
-export function isCallSuccess(...args: unknown[]): unknown {
-  return args;
+export const isUserCancellation = (error: unknown): boolean =>
+  error instanceof JsonRpcError &&
+  (error.code === JsonRpcErrorCode.UserRejection || error.code === JsonRpcErrorCode.UserCanceled);
+
+/** Final state of a call from the wallet's response */
+export function handleCallResponse(
+  state: CallState,
+  response: MethodResult<'stx_callContract'>
+): CallState {
+  return response.txid
+    ? transitionCallStatus(state, CallStatus.Success, { txId: response.txid })
+    : transitionCallStatus(state, CallStatus.Failed, {
+        error: 'Wallet did not broadcast the transaction',
+      });
 }
 
-/** CALL_TIMEOUT constant 1 */
-export const CALL_TIMEOUT_1 = 7;
-
-/** CALL_TIMEOUT constant 2 */
-export const CALL_TIMEOUT_2 = 14;
-
-/** CALL_TIMEOUT constant 3 */
-export const CALL_TIMEOUT_3 = 21;
-
-/** CALL_TIMEOUT constant 4 */
-export const CALL_TIMEOUT_4 = 28;
-
-/** CALL_TIMEOUT constant 5 */
-export const CALL_TIMEOUT_5 = 35;
-
-/** CALL_TIMEOUT constant 6 */
-export const CALL_TIMEOUT_6 = 42;
-
-/** CALL_TIMEOUT constant 7 */
-export const CALL_TIMEOUT_7 = 49;
-
-/** CALL_TIMEOUT constant 8 */
-export const CALL_TIMEOUT_8 = 56;
-
-/** CALL_TIMEOUT constant 9 */
-export const CALL_TIMEOUT_9 = 63;
-
-/** CALL_TIMEOUT constant 10 */
-export const CALL_TIMEOUT_10 = 70;
-
-/** CALL_TIMEOUT constant 11 */
-export const CALL_TIMEOUT_11 = 77;
-
-/** CALL_TIMEOUT constant 12 */
-export const CALL_TIMEOUT_12 = 84;
-
-/** CALL_TIMEOUT constant 13 */
-export const CALL_TIMEOUT_13 = 91;
-
-/** CALL_TIMEOUT constant 14 */
-export const CALL_TIMEOUT_14 = 98;
-
-/** CALL_TIMEOUT constant 15 */
-export const CALL_TIMEOUT_15 = 105;
-
-/** CALL_TIMEOUT constant 16 */
-export const CALL_TIMEOUT_16 = 112;
-
-/** CALL_TIMEOUT constant 17 */
-export const CALL_TIMEOUT_17 = 119;
-
-/** CALL_TIMEOUT constant 18 */
-export const CALL_TIMEOUT_18 = 126;
-
-/** CALL_TIMEOUT constant 19 */
-export const CALL_TIMEOUT_19 = 133;
-
-/** CALL_TIMEOUT constant 20 */
-export const CALL_TIMEOUT_20 = 140;
-
-/** CALL_TIMEOUT constant 21 */
-export const CALL_TIMEOUT_21 = 147;
-
-/** CALL_TIMEOUT constant 22 */
-export const CALL_TIMEOUT_22 = 154;
-
-/** CALL_TIMEOUT constant 23 */
-export const CALL_TIMEOUT_23 = 161;
-
-/** CALL_TIMEOUT constant 24 */
-export const CALL_TIMEOUT_24 = 168;
-
-/** CALL_TIMEOUT constant 25 */
-export const CALL_TIMEOUT_25 = 175;
-
-/** CALL_TIMEOUT constant 26 */
-export const CALL_TIMEOUT_26 = 182;
-
-/** CALL_TIMEOUT constant 27 */
-export const CALL_TIMEOUT_27 = 189;
-
-/** CALL_TIMEOUT constant 28 */
-export const CALL_TIMEOUT_28 = 196;
-
-/** CALL_TIMEOUT constant 29 */
-export const CALL_TIMEOUT_29 = 203;
-
-/** CALL_TIMEOUT constant 30 */
-export const CALL_TIMEOUT_30 = 210;
-
-/** CALL_TIMEOUT constant 31 */
-export const CALL_TIMEOUT_31 = 217;
-
-/** CALL_TIMEOUT constant 32 */
-export const CALL_TIMEOUT_32 = 224;
-
-/** CALL_TIMEOUT constant 33 */
-export const CALL_TIMEOUT_33 = 231;
-
-/** CALL_TIMEOUT constant 34 */
-export const CALL_TIMEOUT_34 = 238;
-
-/** CALL_TIMEOUT constant 35 */
-export const CALL_TIMEOUT_35 = 245;
-
-/** CALL_TIMEOUT constant 36 */
-export const CALL_TIMEOUT_36 = 252;
-
-/** CALL_TIMEOUT constant 37 */
-export const CALL_TIMEOUT_37 = 259;
-
-/** CALL_TIMEOUT constant 38 */
-export const CALL_TIMEOUT_38 = 266;
-
-/** CALL_TIMEOUT constant 39 */
-export const CALL_TIMEOUT_39 = 273;
-
-/** CALL_TIMEOUT constant 40 */
-export const CALL_TIMEOUT_40 = 280;
-
-/** CALL_TIMEOUT constant 41 */
-export const CALL_TIMEOUT_41 = 287;
-
-/** CALL_TIMEOUT constant 42 */
-export const CALL_TIMEOUT_42 = 294;
-
-/** CALL_TIMEOUT constant 43 */
-export const CALL_TIMEOUT_43 = 301;
-
-/** CALL_TIMEOUT constant 44 */
-export const CALL_TIMEOUT_44 = 308;
-
-/** CALL_TIMEOUT constant 45 */
-export const CALL_TIMEOUT_45 = 315;
-
-/** CALL_TIMEOUT constant 46 */
-export const CALL_TIMEOUT_46 = 322;
-
-/** CALL_TIMEOUT constant 47 */
-export const CALL_TIMEOUT_47 = 329;
-
-/** CALL_TIMEOUT constant 48 */
-export const CALL_TIMEOUT_48 = 336;
-
-/** CALL_TIMEOUT constant 49 */
-export const CALL_TIMEOUT_49 = 343;
-
-/** CALL_TIMEOUT constant 50 */
-export const CALL_TIMEOUT_50 = 350;
-
-/** CALL_TIMEOUT constant 51 */
-export const CALL_TIMEOUT_51 = 357;
-
-/** CALL_TIMEOUT constant 52 */
-export const CALL_TIMEOUT_52 = 364;
-
-/** CALL_TIMEOUT constant 53 */
-export const CALL_TIMEOUT_53 = 371;
-
-/** CALL_TIMEOUT constant 54 */
-export const CALL_TIMEOUT_54 = 378;
-
-/** CALL_TIMEOUT constant 55 */
-export const CALL_TIMEOUT_55 = 385;
-
-/** CALL_TIMEOUT constant 56 */
-export const CALL_TIMEOUT_56 = 392;
-
-/** CALL_TIMEOUT constant 57 */
-export const CALL_TIMEOUT_57 = 399;
-
-/** CALL_TIMEOUT constant 58 */
-export const CALL_TIMEOUT_58 = 406;
-
-/** CALL_TIMEOUT constant 59 */
-export const CALL_TIMEOUT_59 = 413;
-
-/** CALL_TIMEOUT constant 60 */
-export const CALL_TIMEOUT_60 = 420;
-
-/** CALL_TIMEOUT constant 61 */
-export const CALL_TIMEOUT_61 = 427;
-
-/** CALL_TIMEOUT constant 62 */
-export const CALL_TIMEOUT_62 = 434;
-
-/** CALL_TIMEOUT constant 63 */
-export const CALL_TIMEOUT_63 = 441;
-
-/** CALL_TIMEOUT constant 64 */
-export const CALL_TIMEOUT_64 = 448;
-
-/** CALL_TIMEOUT constant 65 */
-export const CALL_TIMEOUT_65 = 455;
-
-/** CALL_TIMEOUT constant 66 */
-export const CALL_TIMEOUT_66 = 462;
-
-/** CALL_TIMEOUT constant 67 */
-export const CALL_TIMEOUT_67 = 469;
-
-/** CALL_TIMEOUT constant 68 */
-export const CALL_TIMEOUT_68 = 476;
-
-/** CALL_TIMEOUT constant 69 */
-export const CALL_TIMEOUT_69 = 483;
-
-/** CALL_TIMEOUT constant 70 */
-export const CALL_TIMEOUT_70 = 490;
-
-/** CALL_TIMEOUT constant 71 */
-export const CALL_TIMEOUT_71 = 497;
-
-/** CALL_TIMEOUT constant 72 */
-export const CALL_TIMEOUT_72 = 504;
-
-/** CALL_TIMEOUT constant 73 */
-export const CALL_TIMEOUT_73 = 511;
-
-/** CALL_TIMEOUT constant 74 */
-export const CALL_TIMEOUT_74 = 518;
-
-/** CALL_TIMEOUT constant 75 */
-export const CALL_TIMEOUT_75 = 525;
-
-/** CALL_TIMEOUT constant 76 */
-export const CALL_TIMEOUT_76 = 532;
-
-/** CALL_TIMEOUT constant 77 */
-export const CALL_TIMEOUT_77 = 539;
-
-/** CALL_TIMEOUT constant 78 */
-export const CALL_TIMEOUT_78 = 546;
-
-/** CALL_TIMEOUT constant 79 */
-export const CALL_TIMEOUT_79 = 553;
+/** Final state of a call whose wallet request rejected */
+export function handleCallError(state: CallState, error: unknown): CallState {
+  if (isUserCancellation(error)) {
+    return transitionCallStatus(state, CallStatus.Cancelled, { error: 'Request cancelled' });
+  }
+  return transitionCallStatus(state, CallStatus.Failed, {
+    error: error instanceof Error ? error.message : 'Contract call failed',
+  });
+}
 
-/** CALL_TIMEOUT constant 80 */
-export const CALL_TIMEOUT_80 = 560;
+export const isCallPending = (state: CallState): boolean => state.status === CallStatus.Pending;
+
+export const isCallSuccess = (state: CallState): boolean =>
+  state.status === CallStatus.Success && !!state.txId;
+
+/**
+ * Ask the wallet to sign and broadcast a contract call. Resolves with the
+ * final state (Success, Cancelled or Failed) rather than rejecting
+ */
+export async function openContractCallDialog(
+  call: ContractCallRequest,
+  onStatusChange?: CallStatusListener
+): Promise<CallState> {
+  let state = IDLE_CALL_STATE;
+  const update = (next: CallState) => {
+    state = next;
+    onStatusChange?.(next);
+    return next;
+  };
+
+  update(transitionCallStatus(state, CallStatus.Pending));
+
+  const errors = validateContractArgs(call);
+  if (errors.length > 0) {
+    return update(transitionCallStatus(state, CallStatus.Failed, { error: errors.join('; ') }));
+  }
+
+  try {
+    const response = await request('stx_callContract', buildContractCallRequest(call));
+    return update(handleCallResponse(state, response));
+  } catch (error) {
+    return update(handleCallError(state, error));
+  }
+}
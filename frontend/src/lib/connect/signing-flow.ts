@@ -1,33 +1,124 @@
 // signing-flow.ts — message signing with Stacks Connect
 
-/** SignatureRequest type */
-export interface SignatureRequest {
-  message: string;
-  appDetails?: { name: string; icon: string };
+import { request, type MethodParams } from '@stacks/connect';
+import { bytesToHex } from '@stacks/common';
+import { hashMessage, hashSha256Sync } from '@stacks/encryption';
+import { ChainId } from '@stacks/network';
+import {
+  encodeStructuredDataBytes,
+  getAddressFromPublicKey,
+  publicKeyFromSignatureRsv,
+  stringAsciiCV,
+  tupleCV,
+  uintCV,
+  type ClarityValue,
+  type TupleCV,
+} from '@stacks/transactions';
+import { getConnectNetwork, type ConnectNetwork } from './auth-flow';
+
+/** Signature returned by the wallet */
+export interface SignatureResult {
+  signature: string;
+  publicKey: string;
 }
 
 /** VerificationResult type */
 export interface VerificationResult {
   verified: boolean;
+  /** Signer recovered from the signature */
   publicKey?: string;
+  address?: string;
 }
 
-/** signMessage */
-export function signMessage(...args: unknown[]): unknown {
-  return args;
+/** SIP-018 structured data: a Clarity message bound to the protocol's domain */
+export type SIP018Payload = MethodParams<'stx_signStructuredMessage'>;
+
+/** The protocol's SIP-018 domain; the chain id is added per network */
+export const TIMEBANK_SIP018_DOMAIN = {
+  name: 'Time Banking Protocol',
+  version: '1.0.0',
+} as const;
+
+export const getSip018Domain = (network: ConnectNetwork = getConnectNetwork()): TupleCV =>
+  tupleCV({
+    name: stringAsciiCV(TIMEBANK_SIP018_DOMAIN.name),
+    version: stringAsciiCV(TIMEBANK_SIP018_DOMAIN.version),
+    'chain-id': uintCV(network === 'mainnet' ? ChainId.Mainnet : ChainId.Testnet),
+  });
+
+/** buildSIP018Payload */
+export function buildSIP018Payload(
+  message: ClarityValue,
+  network: ConnectNetwork = getConnectNetwork()
+): SIP018Payload {
+  return { message, domain: getSip018Domain(network) };
 }
 
-/** signStructuredData */
-export function signStructuredData(...args: unknown[]): unknown {
-  return args;
+/** The hash a SIP-018 signature signs, as hex */
+export function getSIP018Hash(payload: SIP018Payload): string {
+  return bytesToHex(hashSha256Sync(encodeStructuredDataBytes(payload)));
 }
 
-/** verifySignature */
-export function verifySignature(...args: unknown[]): unknown {
-  return args;
+/** Ask the wallet to sign a plain text message */
+export async function signMessage(message: string): Promise<SignatureResult> {
+  const { signature, publicKey } = await request('stx_signMessage', { message });
+  return { signature, publicKey };
 }
 
-/** buildSIP018Payload */
-export function buildSIP018Payload(...args: unknown[]): unknown {
-  return args;
+/** Ask the wallet to sign `message` under the protocol's SIP-018 domain */
+export async function signStructuredData(
+  message: ClarityValue,
+  network: ConnectNetwork = getConnectNetwork()
+): Promise<SignatureResult> {
+  const { signature, publicKey } = await request(
+    'stx_signStructuredMessage',
+    buildSIP018Payload(message, network)
+  );
+  return { signature, publicKey };
+}
+
+const recoverSigner = (
+  messageHash: string,
+  signature: string,
+  network: ConnectNetwork,
+  expectedAddress?: string
+): VerificationResult => {
+  try {
+    const publicKey = publicKeyFromSignatureRsv(messageHash, signature);
+    const address = getAddressFromPublicKey(publicKey, network);
+    return {
+      verified: expectedAddress ? address === expectedAddress : true,
+      publicKey,
+      address,
+    };
+  } catch {
+    return { verified: false };
+  }
+};
+
+/**
+ * Recover the signer of a plain message signature and, given an address,
+ * check it signed
+ */
+export function verifySignature(
+  message: string,
+  signature: string,
+  expectedAddress?: string,
+  network: ConnectNetwork = getConnectNetwork()
+): VerificationResult {
+  return recoverSigner(bytesToHex(hashMessage(message)), signature, network, expectedAddress);
+}
+
+/**
+ * Recover the signer of a SIP-018 signature and, given an address, check
+ * it signed. The domain is part of the hash, so signatures for another
+ * app or chain don't verify
+ */
+export function verifyStructuredDataSignature(
+  payload: SIP018Payload,
+  signature: string,
+  expectedAddress?: string,
+  network: ConnectNetwork = getConnectNetwork()
+): VerificationResult {
+  return recoverSigner(getSIP018Hash(payload), signature, network, expectedAddress);
 }
@@ -1,271 +1,123 @@
 // stx-transfer-flow.ts — Stacks Connect STX transfer flow
 
-/** buildTransferRequest */
-export function buildTransferRequest(...args: unknown[]): unknown {
-  return args;
+import { request, type MethodParams } from '@stacks/connect';
+import { getConnectNetwork, type ConnectNetwork } from './auth-flow';
+import {
+  CallStatus,
+  IDLE_CALL_STATE,
+  handleCallError,
+  handleCallResponse,
+  transitionCallStatus,
+  type CallState,
+  type CallStatusListener,
+} from './contract-call-flow';
+
+export interface TransferRequest {
+  recipient: string;
+  /** Amount in micro-STX */
+  amount: number | bigint;
+  memo?: string;
+  network?: ConnectNetwork;
+  /** Micro-STX; left to the wallet when omitted */
+  fee?: number | bigint;
+  /** Only set to take a specific nonce, e.g. to replace a pending transaction */
+  nonce?: number | bigint;
 }
 
-/** validateTransferAmount */
-export function validateTransferAmount(...args: unknown[]): unknown {
-  return args;
+export const MICRO_STX_PER_STX = 1000000;
+
+/** Memos are at most 34 bytes */
+export const MAX_MEMO_LENGTH = 34;
+
+/** Params for the wallet's `stx_transferStx` request */
+export function buildTransferRequest(transfer: TransferRequest): MethodParams<'stx_transferStx'> {
+  const params: MethodParams<'stx_transferStx'> = {
+    recipient: transfer.recipient,
+    amount: transfer.amount.toString(),
+    network: transfer.network ?? getConnectNetwork(),
+  };
+  if (transfer.memo) params.memo = transfer.memo;
+  if (transfer.fee !== undefined) params.fee = transfer.fee.toString();
+  if (transfer.nonce !== undefined) params.nonce = transfer.nonce.toString();
+  return params;
 }
 
-/** validateRecipient */
-export function validateRecipient(...args: unknown[]): unknown {
-  return args;
+/** Error message for an invalid micro-STX amount, or null */
+export function validateTransferAmount(amount: number | bigint, balance?: number | bigint): string | null {
+  const value = BigInt(amount);
+  if (typeof amount === 'number' && !Number.isInteger(amount)) {
+    return 'Amount must be a whole number of micro-STX';
+  }
+  if (value <= BigInt(0)) return 'Amount must be greater than zero';
+  if (balance !== undefined && value > BigInt(balance)) return 'Amount exceeds your balance';
+  return null;
 }
 
-/** openTransferDialog */
-export function openTransferDialog(...args: unknown[]): unknown {
-  return args;
+/** Error message for a recipient that can't receive on `network`, or null */
+export function validateRecipient(
+  recipient: string,
+  network: ConnectNetwork = getConnectNetwork(),
+  sender?: string
+): string | null {
+  const [address, contractName] = recipient.split('.');
+  if (!/^S[PMTN][0-9A-Z]{20,}$/.test(address) || (contractName !== undefined && !contractName)) {
+    return 'Invalid Stacks address';
+  }
+  if (/^S[PM]/.test(address) !== (network === 'mainnet')) {
+    return `Recipient is not a ${network} address`;
+  }
+  if (sender && recipient === sender) return 'Cannot transfer to yourself';
+  return null;
 }
 
-/** handleTransferResponse */
-export function handleTransferResponse(...args: unknown[]): unknown {
-  return args;
+export const handleTransferResponse = handleCallResponse;
+
+/**
+ * Ask the wallet to sign and broadcast an STX transfer, through the same
+ * CallStatus states as a contract call
+ */
+export async function openTransferDialog(
+  transfer: TransferRequest,
+  onStatusChange?: CallStatusListener
+): Promise<CallState> {
+  let state = IDLE_CALL_STATE;
+  const update = (next: CallState) => {
+    state = next;
+    onStatusChange?.(next);
+    return next;
+  };
+
+  update(transitionCallStatus(state, CallStatus.Pending));
+
+  const error =
+    validateRecipient(transfer.recipient, transfer.network) ??
+    validateTransferAmount(transfer.amount);
+  if (error) {
+    return update(transitionCallStatus(state, CallStatus.Failed, { error }));
+  }
+  if (transfer.memo && new TextEncoder().encode(transfer.memo).length > MAX_MEMO_LENGTH) {
+    return update(
+      transitionCallStatus(state, CallStatus.Failed, {
+        error: `Memo must be at most ${MAX_MEMO_LENGTH} bytes`,
+      })
+    );
+  }
+
+  try {
+    const response = await request('stx_transferStx', buildTransferRequest(transfer));
+    return update(handleTransferResponse(state, response));
+  } catch (err) {
+    return update(handleCallError(state, err));
+  }
 }
 
-/** formatTransferAmount */
-export function formatTransferAmount(...args: unknown[]): unknown {
-  return args;
+/** `1500000` -> `1.5 STX` */
+export function formatTransferAmount(amount: number | bigint): string {
+  const value = BigInt(amount);
+  const whole = value / BigInt(MICRO_STX_PER_STX);
+  const fraction = (value % BigInt(MICRO_STX_PER_STX))
+    .toString()
+    .padStart(6, '0')
+    .replace(/0+$/, '');
+  return `${whole.toLocaleString('en-US')}${fraction ? `.${fraction}` : ''} STX`;
 }
-
-/** TRANSFER_LIMIT constant 1 */
-export const TRANSFER_LIMIT_1 = 7;
-
-/** TRANSFER_LIMIT constant 2 */
-export const TRANSFER_LIMIT_2 = 14;
-
-/** TRANSFER_LIMIT constant 3 */
-export const TRANSFER_LIMIT_3 = 21;
-
-/** TRANSFER_LIMIT constant 4 */
-export const TRANSFER_LIMIT_4 = 28;
-
-/** TRANSFER_LIMIT constant 5 */
-export const TRANSFER_LIMIT_5 = 35;
-
-/** TRANSFER_LIMIT constant 6 */
-export const TRANSFER_LIMIT_6 = 42;
-
-/** TRANSFER_LIMIT constant 7 */
-export const TRANSFER_LIMIT_7 = 49;
-
-/** TRANSFER_LIMIT constant 8 */
-export const TRANSFER_LIMIT_8 = 56;
-
-/** TRANSFER_LIMIT constant 9 */
-export const TRANSFER_LIMIT_9 = 63;
-
-/** TRANSFER_LIMIT constant 10 */
-export const TRANSFER_LIMIT_10 = 70;
-
-/** TRANSFER_LIMIT constant 11 */
-export const TRANSFER_LIMIT_11 = 77;
-
-/** TRANSFER_LIMIT constant 12 */
-export const TRANSFER_LIMIT_12 = 84;
-
-/** TRANSFER_LIMIT constant 13 */
-export const TRANSFER_LIMIT_13 = 91;
-
-/** TRANSFER_LIMIT constant 14 */
-export const TRANSFER_LIMIT_14 = 98;
-
-/** TRANSFER_LIMIT constant 15 */
-export const TRANSFER_LIMIT_15 = 105;
-
-/** TRANSFER_LIMIT constant 16 */
-export const TRANSFER_LIMIT_16 = 112;
-
-/** TRANSFER_LIMIT constant 17 */
-export const TRANSFER_LIMIT_17 = 119;
-
-/** TRANSFER_LIMIT constant 18 */
-export const TRANSFER_LIMIT_18 = 126;
-
-/** TRANSFER_LIMIT constant 19 */
-export const TRANSFER_LIMIT_19 = 133;
-
-/** TRANSFER_LIMIT constant 20 */
-export const TRANSFER_LIMIT_20 = 140;
-
-/** TRANSFER_LIMIT constant 21 */
-export const TRANSFER_LIMIT_21 = 147;
-
-/** TRANSFER_LIMIT constant 22 */
-export const TRANSFER_LIMIT_22 = 154;
-
-/** TRANSFER_LIMIT constant 23 */
-export const TRANSFER_LIMIT_23 = 161;
-
-/** TRANSFER_LIMIT constant 24 */
-export const TRANSFER_LIMIT_24 = 168;
-
-/** TRANSFER_LIMIT constant 25 */
-export const TRANSFER_LIMIT_25 = 175;
-
-/** TRANSFER_LIMIT constant 26 */
-export const TRANSFER_LIMIT_26 = 182;
-
-/** TRANSFER_LIMIT constant 27 */
-export const TRANSFER_LIMIT_27 = 189;
-
-/** TRANSFER_LIMIT constant 28 */
-export const TRANSFER_LIMIT_28 = 196;
-
-/** TRANSFER_LIMIT constant 29 */
-export const TRANSFER_LIMIT_29 = 203;
-
-/** TRANSFER_LIMIT constant 30 */
-export const TRANSFER_LIMIT_30 = 210;
-
-/** TRANSFER_LIMIT constant 31 */
-export const TRANSFER_LIMIT_31 = 217;
-
-/** TRANSFER_LIMIT constant 32 */
-export const TRANSFER_LIMIT_32 = 224;
-
-/** TRANSFER_LIMIT constant 33 */
-export const TRANSFER_LIMIT_33 = 231;
-
-/** TRANSFER_LIMIT constant 34 */
-export const TRANSFER_LIMIT_34 = 238;
-
-/** TRANSFER_LIMIT constant 35 */
-export const TRANSFER_LIMIT_35 = 245;
-
-/** TRANSFER_LIMIT constant 36 */
-export const TRANSFER_LIMIT_36 = 252;
-
-/** TRANSFER_LIMIT constant 37 */
-export const TRANSFER_LIMIT_37 = 259;
-
-/** TRANSFER_LIMIT constant 38 */
-export const TRANSFER_LIMIT_38 = 266;
-
-/** TRANSFER_LIMIT constant 39 */
-export const TRANSFER_LIMIT_39 = 273;
-
-/** TRANSFER_LIMIT constant 40 */
-export const TRANSFER_LIMIT_40 = 280;
-
-/** TRANSFER_LIMIT constant 41 */
-export const TRANSFER_LIMIT_41 = 287;
-
-/** TRANSFER_LIMIT constant 42 */
-export const TRANSFER_LIMIT_42 = 294;
-
-/** TRANSFER_LIMIT constant 43 */
-export const TRANSFER_LIMIT_43 = 301;
-
-/** TRANSFER_LIMIT constant 44 */
-export const TRANSFER_LIMIT_44 = 308;
-
-/** TRANSFER_LIMIT constant 45 */
-export const TRANSFER_LIMIT_45 = 315;
-
-/** TRANSFER_LIMIT constant 46 */
-export const TRANSFER_LIMIT_46 = 322;
-
-/** TRANSFER_LIMIT constant 47 */
-export const TRANSFER_LIMIT_47 = 329;
-
-/** TRANSFER_LIMIT constant 48 */
-export const TRANSFER_LIMIT_48 = 336;
-
-/** TRANSFER_LIMIT constant 49 */
-export const TRANSFER_LIMIT_49 = 343;
-
-/** TRANSFER_LIMIT constant 50 */
-export const TRANSFER_LIMIT_50 = 350;
-
-/** TRANSFER_LIMIT constant 51 */
-export const TRANSFER_LIMIT_51 = 357;
-
-/** TRANSFER_LIMIT constant 52 */
-export const TRANSFER_LIMIT_52 = 364;
-
-/** TRANSFER_LIMIT constant 53 */
-export const TRANSFER_LIMIT_53 = 371;
-
-/** TRANSFER_LIMIT constant 54 */
-export const TRANSFER_LIMIT_54 = 378;
-
-/** TRANSFER_LIMIT constant 55 */
-export const TRANSFER_LIMIT_55 = 385;
-
-/** TRANSFER_LIMIT constant 56 */
-export const TRANSFER_LIMIT_56 = 392;
-
-/** TRANSFER_LIMIT constant 57 */
-export const TRANSFER_LIMIT_57 = 399;
-
-/** TRANSFER_LIMIT constant 58 */
-export const TRANSFER_LIMIT_58 = 406;
-
-/** TRANSFER_LIMIT constant 59 */
-export const TRANSFER_LIMIT_59 = 413;
-
-/** TRANSFER_LIMIT constant 60 */
-export const TRANSFER_LIMIT_60 = 420;
-
-/** TRANSFER_LIMIT constant 61 */
-export const TRANSFER_LIMIT_61 = 427;
-
-/** TRANSFER_LIMIT constant 62 */
-export const TRANSFER_LIMIT_62 = 434;
-
-/** TRANSFER_LIMIT constant 63 */
-export const TRANSFER_LIMIT_63 = 441;
-
-/** TRANSFER_LIMIT constant 64 */
-export const TRANSFER_LIMIT_64 = 448;
-
-/** TRANSFER_LIMIT constant 65 */
-export const TRANSFER_LIMIT_65 = 455;
-
-/** TRANSFER_LIMIT constant 66 */
-export const TRANSFER_LIMIT_66 = 462;
-
-/** TRANSFER_LIMIT constant 67 */
-export const TRANSFER_LIMIT_67 = 469;
-
-/** TRANSFER_LIMIT constant 68 */
-export const TRANSFER_LIMIT_68 = 476;
-
-/** TRANSFER_LIMIT constant 69 */
-export const TRANSFER_LIMIT_69 = 483;
-
-/** TRANSFER_LIMIT constant 70 */
-export const TRANSFER_LIMIT_70 = 490;
-
-/** TRANSFER_LIMIT constant 71 */
-export const TRANSFER_LIMIT_71 = 497;
-
-/** TRANSFER_LIMIT constant 72 */
-export const TRANSFER_LIMIT_72 = 504;
-
-/** TRANSFER_LIMIT constant 73 */
-export const TRANSFER_LIMIT_73 = 511;
-
-/** TRANSFER_LIMIT constant 74 */
-export const TRANSFER_LIMIT_74 = 518;
-
-/** TRANSFER_LIMIT constant 75 */
-export const TRANSFER_LIMIT_75 = 525;
-
-/** TRANSFER_LIMIT constant 76 */
-export const TRANSFER_LIMIT_76 = 532;
-
-/** TRANSFER_LIMIT constant 77 */
-export const TRANSFER_LIMIT_77 = 539;
-
-/** TRANSFER_LIMIT constant 78 */
-export const TRANSFER_LIMIT_78 = 546;
-
-/** TRANSFER_LIMIT constant 79 */
-export const TRANSFER_LIMIT_79 = 553;
-
-/** TRANSFER_LIMIT constant 80 */
-export const TRANSFER_LIMIT_80 = 560;
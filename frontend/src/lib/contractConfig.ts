@@ -3,6 +3,7 @@
 
 import { StacksNetwork, StacksMainnet, StacksTestnet } from '@stacks/network';
 import { ContractConfig, NetworkConfig } from '@/types/contracts';
+import { getContractErrorMessage } from './clarity-types/error-catalog';
 
 // Network Configuration
 export const getNetworkConfig = (): NetworkConfig => {
@@ -36,7 +37,7 @@ export const getStacksNetwork = (): StacksNetwork => {
   return testnet;
 };
 
-// Contract Names for all 7 Clarity 4 contracts
+// Contract Names for all Clarity 4 contracts
 export const CONTRACT_NAMES: ContractConfig = {
   timeBankCore: process.env.NEXT_PUBLIC_TIME_BANK_CORE_CONTRACT || 'time-bank-core',
   skillRegistry: process.env.NEXT_PUBLIC_SKILL_REGISTRY_CONTRACT || 'skill-registry',
@@ -45,6 +46,15 @@ export const CONTRACT_NAMES: ContractConfig = {
   escrowManager: process.env.NEXT_PUBLIC_ESCROW_MANAGER_CONTRACT || 'escrow-manager',
   governance: process.env.NEXT_PUBLIC_GOVERNANCE_CONTRACT || 'governance',
   rewardsDistributor: process.env.NEXT_PUBLIC_REWARDS_DISTRIBUTOR_CONTRACT || 'rewards-distributor',
+  disputeArbitration: process.env.NEXT_PUBLIC_DISPUTE_ARBITRATION_CONTRACT || 'dispute-arbitration',
+  insurancePool: process.env.NEXT_PUBLIC_INSURANCE_POOL_CONTRACT || 'insurance-pool',
+  multiSigWallet: process.env.NEXT_PUBLIC_MULTI_SIG_WALLET_CONTRACT || 'multi-sig-wallet',
+  emergencyControls: process.env.NEXT_PUBLIC_EMERGENCY_CONTROLS_CONTRACT || 'emergency-controls',
+  referralProgram: process.env.NEXT_PUBLIC_REFERRAL_PROGRAM_CONTRACT || 'referral-program',
+  skillCertificationNft: process.env.NEXT_PUBLIC_SKILL_CERTIFICATION_NFT_CONTRACT || 'skill-certification-nft',
+  skillMatchingEngine: process.env.NEXT_PUBLIC_SKILL_MATCHING_ENGINE_CONTRACT || 'skill-matching-engine',
+  automationScheduler: process.env.NEXT_PUBLIC_AUTOMATION_SCHEDULER_CONTRACT || 'automation-scheduler',
+  timeTokenFt: process.env.NEXT_PUBLIC_TIME_TOKEN_FT_CONTRACT || 'time-token-ft',
 };
 
 // Contract Addresses (deployed on testnet)
@@ -55,8 +65,22 @@ export const CONTRACT_ADDRESSES = {
   secondary: 'SPD5ETF2HZ921C8RJG2MHPAN7SSP9AYEYD5GSP84',
 };
 
+// Addresses of contracts republished after a source change. A deployed
+// contract cannot be updated, so the new version may live at another address
+export const CONTRACT_ADDRESS_OVERRIDES: Partial<Record<keyof ContractConfig, string>> = {
+  referralProgram: process.env.NEXT_PUBLIC_REFERRAL_PROGRAM_CONTRACT_ADDRESS,
+  skillCertificationNft: process.env.NEXT_PUBLIC_SKILL_CERTIFICATION_NFT_CONTRACT_ADDRESS,
+  skillMatchingEngine: process.env.NEXT_PUBLIC_SKILL_MATCHING_ENGINE_CONTRACT_ADDRESS,
+  timeTokenFt: process.env.NEXT_PUBLIC_TIME_TOKEN_FT_CONTRACT_ADDRESS,
+};
+
 // Get contract address for specific contract
 export const getContractAddress = (contractName: keyof ContractConfig): string => {
+  const override = CONTRACT_ADDRESS_OVERRIDES[contractName];
+  if (override) {
+    return override;
+  }
+
   const config = getNetworkConfig();
 
   // For testnet, we have two deployment addresses
@@ -105,187 +129,10 @@ export const TX_CONFIG = {
   maxRetries: 20,
 };
 
-// Contract Function Names
-export const FUNCTION_NAMES = {
-  // Time Bank Core
-  timeBankCore: {
-    registerUser: 'register-user',
-    getUserInfo: 'get-user-info',
-    getUserBalance: 'get-user-balance',
-    transferCredits: 'transfer-credits',
-    deactivateUser: 'deactivate-user',
-    reactivateUser: 'reactivate-user',
-    isUserActive: 'is-user-active',
-    getProtocolStats: 'get-protocol-stats',
-    mintCredits: 'mint-credits',
-    burnCredits: 'burn-credits',
-    toggleProtocolPause: 'toggle-protocol-pause',
-  },
-
-  // Skill Registry
-  skillRegistry: {
-    registerSkill: 'register-skill',
-    verifySkill: 'verify-skill',
-    approveSkillTemplate: 'approve-skill-template',
-    awardBadge: 'award-badge',
-    getSkillInfo: 'get-skill-info',
-    getUserSkillCount: 'get-user-skill-count',
-    isSkillVerified: 'is-skill-verified',
-    getVerificationCount: 'get-verification-count',
-    getRegistryStats: 'get-registry-stats',
-  },
-
-  // Exchange Manager
-  exchangeManager: {
-    createExchange: 'create-exchange',
-    acceptExchange: 'accept-exchange',
-    confirmCompletion: 'confirm-completion',
-    cancelExchange: 'cancel-exchange',
-    submitReview: 'submit-review',
-    getExchangeDetails: 'get-exchange-details',
-    isExchangeActive: 'is-exchange-active',
-    isExchangeCompleted: 'is-exchange-completed',
-    getExchangeStats: 'get-exchange-stats',
-  },
-
-  // Reputation System
-  reputationSystem: {
-    initializeReputation: 'initialize-reputation',
-    updateReputation: 'update-reputation',
-    endorseUser: 'endorse-user',
-    applyDecay: 'apply-decay',
-    updateCategoryReputation: 'update-category-reputation',
-    awardBadge: 'award-badge',
-    getUserReputation: 'get-user-reputation',
-    getCategoryReputation: 'get-category-reputation',
-    getEndorsementCount: 'get-endorsement-count',
-    getReputationStats: 'get-reputation-stats',
-  },
-
-  // Escrow Manager
-  escrowManager: {
-    createEscrow: 'create-escrow',
-    releaseEscrow: 'release-escrow',
-    refundEscrow: 'refund-escrow',
-    raiseDispute: 'raise-dispute',
-    resolveDispute: 'resolve-dispute',
-    getEscrowDetails: 'get-escrow-details',
-    isEscrowActive: 'is-escrow-active',
-    isEscrowExpired: 'is-escrow-expired',
-    getEscrowStats: 'get-escrow-stats',
-  },
-
-  // Governance
-  governance: {
-    createProposal: 'create-proposal',
-    castVote: 'cast-vote',
-    finalizeProposal: 'finalize-proposal',
-    executeProposal: 'execute-proposal',
-    cancelProposal: 'cancel-proposal',
-    setVotingPower: 'set-voting-power',
-    getProposal: 'get-proposal',
-    getVote: 'get-vote',
-    getVotingPower: 'get-voting-power',
-    canExecuteProposal: 'can-execute-proposal',
-    getGovernanceStats: 'get-governance-stats',
-    toggleGovernance: 'toggle-governance',
-  },
-
-  // Rewards Distributor
-  rewardsDistributor: {
-    startNewPeriod: 'start-new-period',
-    registerActivity: 'register-activity',
-    claimReward: 'claim-reward',
-    finalizePeriod: 'finalize-period',
-    contributeToPool: 'contribute-to-pool',
-    getPeriodInfo: 'get-period-info',
-    getUserReward: 'get-user-reward',
-    getLifetimeRewards: 'get-lifetime-rewards',
-    getPoolContribution: 'get-pool-contribution',
-    isEligibleForRewards: 'is-eligible-for-rewards',
-    getRewardsStats: 'get-rewards-stats',
-    toggleRewardsSystem: 'toggle-rewards-system',
-  },
-};
-
-// Error Messages
-export const ERROR_MESSAGES: Record<number, string> = {
-  // Time Bank Core
-  1001: 'Unauthorized operation',
-  1002: 'User not found',
-  1003: 'User already exists',
-  1004: 'Invalid parameters',
-  1005: 'Protocol is paused',
-  1006: 'User already registered',
-  1007: 'User not registered',
-  1008: 'Invalid amount',
-  1009: 'Invalid recipient',
-  1010: 'Insufficient credits',
-  1011: 'Cannot transfer to yourself',
-  1012: 'User is inactive',
-
-  // Skill Registry
-  2001: 'Unauthorized operation',
-  2002: 'Skill not found',
-  2003: 'Skill already exists',
-  2004: 'Invalid parameters',
-  2005: 'Skill not verified',
-  2006: 'Insufficient reputation',
-  2007: 'Cannot verify your own skill',
-
-  // Escrow Manager
-  3001: 'Unauthorized operation',
-  3002: 'Escrow not found',
-  3003: 'Invalid parameters',
-  3009: 'Escrow has expired',
-  3010: 'Insufficient credits',
-  3011: 'Escrow already released',
-  3012: 'Escrow already refunded',
-
-  // Exchange Manager
-  4001: 'Unauthorized operation',
-  4002: 'Exchange not found',
-  4003: 'Exchange already exists',
-  4004: 'Invalid parameters',
-  4005: 'Invalid exchange status',
-  4006: 'Time conflict detected',
-  4007: 'Already confirmed',
-  4008: 'Already accepted',
-  4009: 'Already completed',
-  4010: 'Exchange not completed',
-
-  // Reputation System
-  5001: 'Unauthorized operation',
-  5002: 'Reputation not found',
-  5003: 'Invalid parameters',
-  5006: 'Reputation already initialized',
-  5007: 'Cannot endorse yourself',
-  5008: 'Already endorsed this user',
-
-  // Governance
-  6001: 'Unauthorized operation',
-  6002: 'Proposal not found',
-  6003: 'Invalid parameters',
-  6004: 'Already voted on this proposal',
-  6005: 'Voting period has closed',
-  6006: 'Proposal is still active',
-  6007: 'Quorum not met',
-  6008: 'Insufficient reputation to create proposal',
-  6009: 'Timelock period still active',
-
-  // Rewards Distributor
-  7001: 'Unauthorized operation',
-  7002: 'Period not found',
-  7003: 'Invalid parameters',
-  7004: 'Reward already claimed',
-  7005: 'Reward period is still active',
-  7006: 'Insufficient reward pool',
-  7007: 'Not eligible for rewards',
-};
-
-// Get error message from error code
-export const getErrorMessage = (errorCode: number): string => {
-  return ERROR_MESSAGES[errorCode] || `Unknown error (code: ${errorCode})`;
+// Get a contract's error message from its error code. Codes are only unique
+// per contract, so the lookup goes through the generated error catalog
+export const getErrorMessage = (contract: keyof ContractConfig, errorCode: number): string => {
+  return getContractErrorMessage(contract, errorCode);
 };
 
 // Constants from contracts
@@ -314,6 +161,39 @@ export const CONTRACT_CONSTANTS = {
     quorumPercentage: 10,
     minProposalReputation: 100,
   },
+  disputeArbitration: {
+    evidencePeriod: 604800, // 7 days
+    votingPeriod: 259200, // 3 days
+    minArbitrators: 3,
+  },
+  multiSigWallet: {
+    defaultTimelock: 86400, // 1 day
+  },
+  emergencyControls: {
+    timelockDuration: 86400, // 1 day
+    maxOperationTypeLength: 50,
+  },
+  referralProgram: {
+    referrerReward: 10,
+    refereeReward: 5,
+    maxCodeLength: 20,
+  },
+  skillCertificationNft: {
+    durationBronze: 15552000, // 180 days
+    durationSilver: 31104000, // 360 days
+    durationGold: 62208000, // 720 days
+    durationPlatinum: 124416000, // 1440 days
+    renewalWindow: 2592000, // 30 days
+  },
+  automationScheduler: {
+    weeklyInterval: 604800, // 7 days
+    monthlyInterval: 2592000, // 30 days
+  },
+  timeTokenFt: {
+    assetName: 'time-token',
+    symbol: 'TIME',
+    minStakeAmount: 10000000, // 10 TIME in micro-TIME
+  },
   rewards: {
     rewardPeriod: 2592000, // 30 days
     minActivityScore: 10,
@@ -0,0 +1,249 @@
+/**
+ * Contract Bindings Generator
+ * Turns a contract ABI into the source of a typed bindings module: argument
+ * and result types per function, a call builder for every public and
+ * read-only function and a caller for each read-only one
+ *
+ * The CLI in scripts/generate-contract-bindings.ts feeds it ABIs from the
+ * Clarinet simnet or a Stacks node and writes the output to ./generated.
+ */
+
+import type { ClarityAbiFunction, ClarityAbiType } from '@stacks/transactions';
+import { toBindingName } from './bindings-runtime';
+
+export interface ContractAbiSource {
+  /** Contract name as deployed, e.g. `time-token-ft` */
+  contractName: string;
+  functions: ClarityAbiFunction[];
+}
+
+export interface GenerateBindingsOptions {
+  /** Import path of bindings-runtime as seen from the output directory */
+  runtimeImport?: string;
+}
+
+export interface GeneratedBindings {
+  /** File name without extension, e.g. `timeTokenFt` */
+  moduleName: string;
+  source: string;
+}
+
+// Names the generated module declares itself, or that aren't valid bindings
+const RESERVED_NAMES = new Set([
+  'CONTRACT_NAME',
+  'abi',
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for',
+  'function', 'if', 'import', 'in', 'instanceof', 'new', 'null', 'return', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with',
+]);
+
+const bindingName = (name: string): string => {
+  const identifier = toBindingName(name);
+  return RESERVED_NAMES.has(identifier) || /^\d/.test(identifier) ? `${identifier}_` : identifier;
+};
+
+const pascalCase = (name: string): string => {
+  const identifier = toBindingName(name);
+  return identifier.charAt(0).toUpperCase() + identifier.slice(1);
+};
+
+const indent = (depth: number) => '  '.repeat(depth);
+
+const renderTuple = (
+  fields: { name: string; type: ClarityAbiType }[],
+  render: (type: ClarityAbiType, depth: number) => string,
+  depth: number
+): string => {
+  if (fields.length === 0) return 'Record<string, never>';
+  const lines = fields.map(
+    ({ name, type }) => `${indent(depth + 1)}${toBindingName(name)}: ${render(type, depth + 1)};`
+  );
+  return `{\n${lines.join('\n')}\n${indent(depth)}}`;
+};
+
+/**
+ * TypeScript type accepted for an argument of this Clarity type
+ */
+export const renderInputType = (type: ClarityAbiType, depth = 0): string => {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'uint128':
+      case 'int128':
+        return 'IntegerInput';
+      case 'bool':
+        return 'boolean';
+      case 'principal':
+      case 'trait_reference':
+        return 'string';
+      default:
+        return 'null';
+    }
+  }
+  if ('buffer' in type) return 'BufferInput';
+  if ('string-ascii' in type || 'string-utf8' in type) return 'string';
+  if ('optional' in type) return `${renderInputType(type.optional, depth)} | null`;
+  if ('list' in type) return `Array<${renderInputType(type.list.type, depth)}>`;
+  if ('tuple' in type) return renderTuple(type.tuple, renderInputType, depth);
+  return 'never';
+};
+
+/**
+ * TypeScript type a value of this Clarity type decodes to
+ */
+export const renderOutputType = (type: ClarityAbiType, depth = 0): string => {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'uint128':
+      case 'int128':
+        return 'bigint';
+      case 'bool':
+        return 'boolean';
+      case 'principal':
+      case 'trait_reference':
+        return 'string';
+      default:
+        return 'null';
+    }
+  }
+  if ('buffer' in type) return 'string';
+  if ('string-ascii' in type || 'string-utf8' in type) return 'string';
+  if ('optional' in type) return `${renderOutputType(type.optional, depth)} | null`;
+  if ('list' in type) return `Array<${renderOutputType(type.list.type, depth)}>`;
+  if ('tuple' in type) return renderTuple(type.tuple, renderOutputType, depth);
+  if ('response' in type) {
+    return `ClarityResponse<${renderOutputType(type.response.ok, depth)}, ${renderOutputType(
+      type.response.error,
+      depth
+    )}>`;
+  }
+  return 'never';
+};
+
+const renderSignature = (fn: ClarityAbiFunction): string => {
+  const args = fn.args.map(({ name, type }) => `(${name} ${describeType(type)})`).join(' ');
+  const keyword = fn.access === 'read_only' ? 'define-read-only' : 'define-public';
+  return `(${keyword} (${[fn.name, args].filter(Boolean).join(' ')}))`;
+};
+
+const describeType = (type: ClarityAbiType): string => {
+  if (typeof type === 'string') {
+    return type === 'uint128' ? 'uint' : type === 'int128' ? 'int' : type;
+  }
+  if ('buffer' in type) return `(buff ${type.buffer.length})`;
+  if ('string-ascii' in type) return `(string-ascii ${type['string-ascii'].length})`;
+  if ('string-utf8' in type) return `(string-utf8 ${type['string-utf8'].length})`;
+  if ('optional' in type) return `(optional ${describeType(type.optional)})`;
+  if ('list' in type) return `(list ${type.list.length} ${describeType(type.list.type)})`;
+  if ('response' in type) {
+    return `(response ${describeType(type.response.ok)} ${describeType(type.response.error)})`;
+  }
+  if ('tuple' in type) {
+    return `{ ${type.tuple.map(({ name, type: t }) => `${name}: ${describeType(t)}`).join(', ')} }`;
+  }
+  return 'unknown';
+};
+
+const renderFunction = (fn: ClarityAbiFunction): string => {
+  const name = bindingName(fn.name);
+  const typeName = pascalCase(fn.name);
+  const hasArgs = fn.args.length > 0;
+  const resultType = `${typeName}Result`;
+  const argsType = `${typeName}Args`;
+  const abiKey = JSON.stringify(fn.name);
+
+  const blocks: string[] = [];
+
+  if (hasArgs) {
+    blocks.push(
+      `export interface ${argsType} ${renderTuple(fn.args, renderInputType, 0)}`
+    );
+  }
+  blocks.push(`export type ${resultType} = ${renderOutputType(fn.outputs.type)};`);
+
+  blocks.push(
+    [
+      '/**',
+      ` * ${renderSignature(fn)}`,
+      ' */',
+      hasArgs
+        ? `export const ${name}Call = (args: ${argsType}): ContractCall<${resultType}> =>`
+        : `export const ${name}Call = (): ContractCall<${resultType}> =>`,
+      `  contractCall(CONTRACT_NAME, abi[${abiKey}]${hasArgs ? ', args' : ''});`,
+    ].join('\n')
+  );
+
+  if (fn.access === 'read_only') {
+    blocks.push(
+      hasArgs
+        ? [
+            `export const ${name} = (caller: ReadOnlyCaller, args: ${argsType}): Promise<${resultType}> =>`,
+            `  callReadOnly(caller, ${name}Call(args));`,
+          ].join('\n')
+        : [
+            `export const ${name} = (caller: ReadOnlyCaller): Promise<${resultType}> =>`,
+            `  callReadOnly(caller, ${name}Call());`,
+          ].join('\n')
+    );
+  }
+
+  return blocks.join('\n\n');
+};
+
+/**
+ * Module name for a contract, e.g. `time-token-ft` -> `timeTokenFt`
+ */
+export const getBindingsModuleName = (contractName: string): string => bindingName(contractName);
+
+export const generateContractBindings = (
+  contract: ContractAbiSource,
+  { runtimeImport = '../bindings-runtime' }: GenerateBindingsOptions = {}
+): GeneratedBindings => {
+  // Private functions can't be called from outside the contract
+  const functions = contract.functions
+    .filter((fn) => fn.access !== 'private')
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const body = functions.map((fn) => `${renderFunction(fn)}\n`);
+
+  const runtimeValues = functions.some((fn) => fn.access === 'read_only')
+    ? ['callReadOnly', 'contractCall']
+    : ['contractCall'];
+  const runtimeTypes = ['BufferInput', 'ClarityResponse', 'IntegerInput', 'ReadOnlyCaller'].filter(
+    (name) => body.some((block) => new RegExp(`\\b${name}\\b`).test(block))
+  );
+  const imports = [...runtimeValues, 'type ContractCall', ...runtimeTypes.map((name) => `type ${name}`)];
+
+  const abi = Object.fromEntries(
+    functions.map(({ name, access, args, outputs }) => [name, { name, access, args, outputs }])
+  );
+
+  const source = [
+    `// Generated by scripts/generate-contract-bindings.ts from the ${contract.contractName} ABI.`,
+    '// Do not edit by hand; re-run the generator after changing the contract.',
+    '',
+    "import type { ClarityAbiFunction } from '@stacks/transactions';",
+    'import {',
+    ...imports.map((name) => `  ${name},`),
+    `} from '${runtimeImport}';`,
+    '',
+    `export const CONTRACT_NAME = ${JSON.stringify(contract.contractName)};`,
+    '',
+    `const abi: Record<string, ClarityAbiFunction> = ${JSON.stringify(abi, null, 2)};`,
+    '',
+    ...body,
+  ].join('\n');
+
+  return { moduleName: getBindingsModuleName(contract.contractName), source };
+};
+
+/**
+ * Barrel for the generated modules, one namespace per contract
+ */
+export const generateBindingsIndex = (moduleNames: string[]): string =>
+  [
+    '// Generated by scripts/generate-contract-bindings.ts. Do not edit by hand.',
+    '',
+    ...[...moduleNames].sort().map((name) => `export * as ${name} from './${name}';`),
+    '',
+  ].join('\n');
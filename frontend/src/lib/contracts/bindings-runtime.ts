@@ -0,0 +1,195 @@
+/**
+ * Contract Bindings Runtime
+ * Encodes arguments and decodes results for the modules generated into
+ * ./generated, driven by each function's ABI
+ *
+ * Only @stacks/transactions is imported here (no `@/` aliases), so the
+ * generated bindings load both in the frontend and in the Clarinet tests
+ * under time-banking/tests.
+ */
+
+import {
+  Cl,
+  ClarityType,
+  getTypeString,
+  type ClarityAbiFunction,
+  type ClarityAbiType,
+  type ClarityValue,
+} from '@stacks/transactions';
+
+/** Clarity `(response ok err)` as a discriminated union */
+export type ClarityResponse<Ok, Err> = { ok: true; value: Ok } | { ok: false; error: Err };
+
+/** uint / int arguments */
+export type IntegerInput = number | bigint;
+
+/** Buffer arguments, as hex or raw bytes. Decoded buffers are hex */
+export type BufferInput = string | Uint8Array;
+
+/**
+ * One function call with its encoded arguments. The deployer address is
+ * left to the caller: simnet only needs the contract name, the frontend
+ * resolves it from its contract config
+ */
+export interface ContractCall<T> {
+  contractName: string;
+  functionName: string;
+  functionArgs: ClarityValue[];
+  /** Typed view of the call's result */
+  decode(result: ClarityValue): T;
+}
+
+/**
+ * Runs a read-only call and returns the raw result, e.g. a node's
+ * call-read endpoint or `simnet.callReadOnlyFn(...).result`
+ */
+export type ReadOnlyCaller = (call: ContractCall<unknown>) => ClarityValue | Promise<ClarityValue>;
+
+/**
+ * Clarity name to TypeScript identifier: `get-stake-info` -> `getStakeInfo`
+ */
+export const toBindingName = (name: string): string =>
+  name
+    .replace(/[?!]/g, '')
+    .replace(/[-_/.]+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase())
+    .replace(/[^a-zA-Z0-9_$]/g, '');
+
+const isObjectType = (type: ClarityAbiType): type is Exclude<ClarityAbiType, string> =>
+  typeof type === 'object' && type !== null;
+
+export const encodeAbiValue = (type: ClarityAbiType, value: unknown): ClarityValue => {
+  if (!isObjectType(type)) {
+    switch (type) {
+      case 'uint128':
+        return Cl.uint(value as IntegerInput);
+      case 'int128':
+        return Cl.int(value as IntegerInput);
+      case 'bool':
+        return Cl.bool(Boolean(value));
+      case 'principal':
+      case 'trait_reference':
+        return Cl.principal(String(value));
+      default:
+        throw new Error(`Cannot encode a ${getTypeString(type)} argument`);
+    }
+  }
+
+  if ('buffer' in type) {
+    return value instanceof Uint8Array ? Cl.buffer(value) : Cl.bufferFromHex(String(value));
+  }
+  if ('string-ascii' in type) return Cl.stringAscii(String(value));
+  if ('string-utf8' in type) return Cl.stringUtf8(String(value));
+  if ('optional' in type) {
+    return value === null || value === undefined
+      ? Cl.none()
+      : Cl.some(encodeAbiValue(type.optional, value));
+  }
+  if ('list' in type) {
+    return Cl.list((value as unknown[]).map((item) => encodeAbiValue(type.list.type, item)));
+  }
+  if ('tuple' in type) {
+    const fields = value as Record<string, unknown>;
+    return Cl.tuple(
+      Object.fromEntries(
+        type.tuple.map(({ name, type: fieldType }) => [
+          name,
+          encodeAbiValue(fieldType, fields[toBindingName(name)]),
+        ])
+      )
+    );
+  }
+
+  throw new Error(`Cannot encode a ${getTypeString(type)} argument`);
+};
+
+const mismatch = (type: ClarityAbiType, cv: ClarityValue) =>
+  new Error(`Expected ${getTypeString(type)} but got ${cv.type}`);
+
+export const decodeAbiValue = (type: ClarityAbiType, cv: ClarityValue): unknown => {
+  if (!isObjectType(type)) {
+    switch (type) {
+      case 'uint128':
+        if (cv.type !== ClarityType.UInt) throw mismatch(type, cv);
+        return BigInt(cv.value);
+      case 'int128':
+        if (cv.type !== ClarityType.Int) throw mismatch(type, cv);
+        return BigInt(cv.value);
+      case 'bool':
+        if (cv.type !== ClarityType.BoolTrue && cv.type !== ClarityType.BoolFalse) {
+          throw mismatch(type, cv);
+        }
+        return cv.type === ClarityType.BoolTrue;
+      case 'principal':
+      case 'trait_reference':
+        if (cv.type !== ClarityType.PrincipalStandard && cv.type !== ClarityType.PrincipalContract) {
+          throw mismatch(type, cv);
+        }
+        return cv.value;
+      case 'none':
+        return null;
+    }
+  }
+
+  if ('buffer' in type) {
+    if (cv.type !== ClarityType.Buffer) throw mismatch(type, cv);
+    return cv.value;
+  }
+  if ('string-ascii' in type) {
+    if (cv.type !== ClarityType.StringASCII) throw mismatch(type, cv);
+    return cv.value;
+  }
+  if ('string-utf8' in type) {
+    if (cv.type !== ClarityType.StringUTF8) throw mismatch(type, cv);
+    return cv.value;
+  }
+  if ('optional' in type) {
+    if (cv.type === ClarityType.OptionalNone) return null;
+    if (cv.type !== ClarityType.OptionalSome) throw mismatch(type, cv);
+    return decodeAbiValue(type.optional, cv.value);
+  }
+  if ('response' in type) {
+    if (cv.type === ClarityType.ResponseOk) {
+      return { ok: true, value: decodeAbiValue(type.response.ok, cv.value) };
+    }
+    if (cv.type === ClarityType.ResponseErr) {
+      return { ok: false, error: decodeAbiValue(type.response.error, cv.value) };
+    }
+    throw mismatch(type, cv);
+  }
+  if ('list' in type) {
+    if (cv.type !== ClarityType.List) throw mismatch(type, cv);
+    return cv.value.map((item) => decodeAbiValue(type.list.type, item));
+  }
+  if ('tuple' in type) {
+    if (cv.type !== ClarityType.Tuple) throw mismatch(type, cv);
+    return Object.fromEntries(
+      type.tuple.map(({ name, type: fieldType }) => [
+        toBindingName(name),
+        decodeAbiValue(fieldType, cv.value[name]),
+      ])
+    );
+  }
+
+  throw mismatch(type, cv);
+};
+
+/**
+ * Build a call from camelCased arguments, in the ABI's argument order
+ */
+export const contractCall = <T>(
+  contractName: string,
+  fn: ClarityAbiFunction,
+  args: object = {}
+): ContractCall<T> => ({
+  contractName,
+  functionName: fn.name,
+  functionArgs: fn.args.map(({ name, type }) =>
+    encodeAbiValue(type, (args as Record<string, unknown>)[toBindingName(name)])
+  ),
+  decode: (result) => decodeAbiValue(fn.outputs.type, result) as T,
+});
+
+export const callReadOnly = async <T>(
+  caller: ReadOnlyCaller,
+  call: ContractCall<T>
+): Promise<T> => call.decode(await caller(call));
@@ -0,0 +1,49 @@
+// Contract Bindings Integration
+// Runs generated contract calls against the configured deployments
+
+import type { PostCondition, PostConditionMode } from '@stacks/transactions';
+import { ContractCallResult, ContractConfig } from '@/types/contracts';
+import { getContractAddress, CONTRACT_NAMES } from '../contractConfig';
+import { callReadOnlyFunction, makeContractCall } from '../stacksApi';
+import type { ContractCall, ReadOnlyCaller } from './bindings-runtime';
+
+/**
+ * Read-only caller for generated bindings. The call's own contract name is
+ * replaced by the configured one, so env overrides still apply
+ */
+export const createReadOnlyCaller = (
+  contract: keyof ContractConfig,
+  senderAddress?: string
+): ReadOnlyCaller => (call) =>
+  callReadOnlyFunction({
+    contractAddress: getContractAddress(contract),
+    contractName: CONTRACT_NAMES[contract],
+    functionName: call.functionName,
+    functionArgs: call.functionArgs,
+    senderAddress,
+  });
+
+export const submitContractCall = async <T>(
+  contract: keyof ContractConfig,
+  call: ContractCall<unknown>,
+  options: { postConditions?: PostCondition[]; postConditionMode?: PostConditionMode } = {}
+): Promise<ContractCallResult<T>> => {
+  try {
+    const result = await makeContractCall({
+      contractAddress: getContractAddress(contract),
+      contractName: CONTRACT_NAMES[contract],
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      ...options,
+    });
+
+    // The wallet dialog reports a refused or failed call instead of throwing
+    if (!result.txId) {
+      return { success: false, error: result.error || 'Failed to make contract call' };
+    }
+
+    return { success: true, txId: result.txId };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
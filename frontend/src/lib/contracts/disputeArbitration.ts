@@ -0,0 +1,189 @@
+// Dispute Arbitration Contract Integration
+// Clarity 4 contract with evidence and voting periods on stacks-block-time,
+// on top of the bindings generated from the contract's ABI
+
+import {
+  ArbitratorInfo,
+  ContractCallResult,
+  Dispute,
+  DisputeOutcome,
+  DisputePhase,
+  DisputeStatus,
+  DisputeVote,
+} from '@/types/contracts';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as disputeArbitration from './generated/disputeArbitration';
+
+const contractName = 'disputeArbitration';
+
+// Disputes are numbered from 1 with no on-chain counter getter, so listing
+// scans ids until the first missing one
+const MAX_DISPUTE_SCAN = 100;
+
+export const decodeDispute = (
+  disputeId: number,
+  result: disputeArbitration.GetDisputeResult
+): Dispute | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    disputeId,
+    exchangeId: Number(result.value.exchangeId),
+    provider: result.value.provider,
+    receiver: result.value.receiver,
+    status: Number(result.value.status) as DisputeStatus,
+    outcome:
+      result.value.outcome === null ? undefined : (Number(result.value.outcome) as DisputeOutcome),
+    createdAt: Number(result.value.createdAt),
+    evidenceDeadline: Number(result.value.evidenceDeadline),
+    votingDeadline: Number(result.value.votingDeadline),
+    votesProvider: Number(result.value.votesProvider),
+    votesReceiver: Number(result.value.votesReceiver),
+    votesSplit: Number(result.value.votesSplit),
+  };
+};
+
+export const decodeArbitratorInfo = (
+  arbitrator: string,
+  result: disputeArbitration.GetArbitratorInfoResult
+): ArbitratorInfo | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    arbitrator,
+    reputationScore: Number(result.value.reputationScore),
+    totalCases: Number(result.value.totalCases),
+    isActive: result.value.isActive,
+    joinedAt: Number(result.value.joinedAt),
+  };
+};
+
+/**
+ * Phase of a dispute from the contract's is-evidence-period-open and
+ * is-voting-open flags
+ */
+export const getDisputePhase = (
+  dispute: Dispute,
+  evidenceOpen: boolean,
+  votingOpen: boolean
+): DisputePhase => {
+  if (dispute.status >= DisputeStatus.RESOLVED) return 'resolved';
+  if (evidenceOpen) return 'evidence';
+  if (votingOpen) return 'voting';
+  return 'awaiting-resolution';
+};
+
+export const registerArbitrator = (): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, disputeArbitration.registerArbitratorCall());
+
+export const createDispute = (
+  exchangeId: number,
+  provider: string,
+  receiver: string
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(
+    contractName,
+    disputeArbitration.createDisputeCall({ exchangeId, provider, receiver })
+  );
+
+export const assignToDispute = (
+  disputeId: number
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, disputeArbitration.assignToDisputeCall({ disputeId }));
+
+export const castDisputeVote = (
+  disputeId: number,
+  vote: DisputeOutcome
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, disputeArbitration.castVoteCall({ disputeId, vote }));
+
+export const resolveDispute = (
+  disputeId: number
+): Promise<ContractCallResult<DisputeOutcome>> =>
+  submitContractCall(contractName, disputeArbitration.resolveDisputeCall({ disputeId }));
+
+export const getDispute = async (disputeId: number): Promise<Dispute | null> => {
+  try {
+    return decodeDispute(
+      disputeId,
+      await disputeArbitration.getDispute(createReadOnlyCaller(contractName), { disputeId })
+    );
+  } catch (error) {
+    console.error('Error fetching dispute:', error);
+    return null;
+  }
+};
+
+export const listDisputes = async (
+  maxDisputes: number = MAX_DISPUTE_SCAN
+): Promise<Dispute[]> => {
+  const disputes: Dispute[] = [];
+  for (let disputeId = 1; disputeId <= maxDisputes; disputeId++) {
+    const dispute = await getDispute(disputeId);
+    if (!dispute) break;
+    disputes.push(dispute);
+  }
+  return disputes;
+};
+
+export const getArbitratorInfo = async (
+  arbitrator: string
+): Promise<ArbitratorInfo | null> => {
+  try {
+    return decodeArbitratorInfo(
+      arbitrator,
+      await disputeArbitration.getArbitratorInfo(createReadOnlyCaller(contractName), {
+        arbitrator,
+      })
+    );
+  } catch (error) {
+    console.error('Error fetching arbitrator info:', error);
+    return null;
+  }
+};
+
+export const getDisputeVote = async (
+  disputeId: number,
+  arbitrator: string
+): Promise<DisputeVote | null> => {
+  try {
+    const result = await disputeArbitration.getVote(createReadOnlyCaller(contractName), {
+      disputeId,
+      arbitrator,
+    });
+    if (!result.ok || !result.value) return null;
+
+    return {
+      disputeId,
+      arbitrator,
+      vote: Number(result.value.vote) as DisputeOutcome,
+      votedAt: Number(result.value.votedAt),
+    };
+  } catch (error) {
+    console.error('Error fetching dispute vote:', error);
+    return null;
+  }
+};
+
+const readPhaseFlag = async (
+  functionName: string,
+  read: () => Promise<{ ok: boolean; value?: unknown }>
+): Promise<boolean> => {
+  try {
+    const result = await read();
+    return result.ok && result.value === true;
+  } catch (error) {
+    console.error(`Error calling ${functionName}:`, error);
+    return false;
+  }
+};
+
+export const isEvidencePeriodOpen = async (disputeId: number): Promise<boolean> =>
+  readPhaseFlag('is-evidence-period-open', () =>
+    disputeArbitration.isEvidencePeriodOpen(createReadOnlyCaller(contractName), { disputeId })
+  );
+
+export const isVotingOpen = async (disputeId: number): Promise<boolean> =>
+  readPhaseFlag('is-voting-open', () =>
+    disputeArbitration.isVotingOpen(createReadOnlyCaller(contractName), { disputeId })
+  );
@@ -0,0 +1,138 @@
+// Emergency Controls Contract Integration
+// Clarity 4 contract with pause switches and stacks-block-time timelocks,
+// on top of the bindings generated from the contract's ABI
+
+import {
+  ContractCallResult,
+  ContractConfig,
+  EmergencyOperation,
+  PauseState,
+} from '@/types/contracts';
+import { getContractIdentifier } from '../contractConfig';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as emergencyControls from './generated/emergencyControls';
+
+const contractName = 'emergencyControls';
+
+// Operations are numbered from 1 and the operation counter has no getter, so
+// listing scans ids until the first missing one
+const MAX_OPERATION_SCAN = 100;
+
+export const decodeOperation = (
+  operationId: number,
+  result: emergencyControls.GetOperationResult
+): EmergencyOperation | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    operationId,
+    operationType: result.value.operationType,
+    proposer: result.value.proposer,
+    executeAfter: Number(result.value.executeAfter),
+    executed: result.value.executed,
+  };
+};
+
+export const isPaused = (state: PauseState): boolean =>
+  state.globalPaused || state.contractPaused;
+
+/**
+ * User-facing reason a write is blocked, or null when writes are allowed
+ */
+export const describePause = (state: PauseState): string | null => {
+  if (state.globalPaused) return 'The protocol is paused by emergency controls';
+  if (state.contractPaused) return 'This contract is paused by emergency controls';
+  return null;
+};
+
+export const toggleGlobalPause = (): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(contractName, emergencyControls.toggleGlobalPauseCall());
+
+// Pauses are keyed by the paused contract's principal
+export const pauseContract = (
+  contract: keyof ContractConfig
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(
+    contractName,
+    emergencyControls.pauseContractCall({ contract: getContractIdentifier(contract) })
+  );
+
+export const unpauseContract = (
+  contract: keyof ContractConfig
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(
+    contractName,
+    emergencyControls.unpauseContractCall({ contract: getContractIdentifier(contract) })
+  );
+
+export const proposeOperation = (
+  operationType: string
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(contractName, emergencyControls.proposeOperationCall({ operationType }));
+
+export const getOperation = async (
+  operationId: number
+): Promise<EmergencyOperation | null> => {
+  try {
+    return decodeOperation(
+      operationId,
+      await emergencyControls.getOperation(createReadOnlyCaller(contractName), { operationId })
+    );
+  } catch (error) {
+    console.error('Error fetching operation:', error);
+    return null;
+  }
+};
+
+export const listOperations = async (
+  maxOperations: number = MAX_OPERATION_SCAN
+): Promise<EmergencyOperation[]> => {
+  const operations: EmergencyOperation[] = [];
+  for (let operationId = 1; operationId <= maxOperations; operationId++) {
+    const operation = await getOperation(operationId);
+    if (!operation) break;
+    operations.push(operation);
+  }
+  return operations;
+};
+
+const readFlag = async (
+  functionName: string,
+  read: () => Promise<{ ok: boolean; value?: unknown }>
+): Promise<boolean> => {
+  try {
+    const result = await read();
+    return result.ok && result.value === true;
+  } catch (error) {
+    console.error(`Error calling ${functionName}:`, error);
+    return false;
+  }
+};
+
+export const isOperationExecutable = async (operationId: number): Promise<boolean> =>
+  readFlag('is-operation-executable', () =>
+    emergencyControls.isOperationExecutable(createReadOnlyCaller(contractName), { operationId })
+  );
+
+export const isGloballyPaused = async (): Promise<boolean> =>
+  readFlag('is-globally-paused', () =>
+    emergencyControls.isGloballyPaused(createReadOnlyCaller(contractName))
+  );
+
+export const isContractPaused = async (contract: keyof ContractConfig): Promise<boolean> =>
+  readFlag('is-contract-paused', () =>
+    emergencyControls.isContractPaused(createReadOnlyCaller(contractName), {
+      contract: getContractIdentifier(contract),
+    })
+  );
+
+export const isEmergencyAdmin = async (user: string): Promise<boolean> =>
+  readFlag('is-admin', () => emergencyControls.isAdmin(createReadOnlyCaller(contractName), { user }));
+
+export const getPauseState = async (contract: keyof ContractConfig): Promise<PauseState> => {
+  const [globalPaused, contractPaused] = await Promise.all([
+    isGloballyPaused(),
+    isContractPaused(contract),
+  ]);
+  return { globalPaused, contractPaused };
+};
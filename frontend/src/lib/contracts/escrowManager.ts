@@ -1,126 +1,69 @@
 // Escrow Manager Contract Integration
-// Clarity 4 contract with time-locked escrow
+// Clarity 4 contract with time-locked escrow, on top of the bindings
+// generated from the contract's ABI
 
-import {
-  standardPrincipalCV,
-  uintCV,
-  stringAsciiCV,
-  boolCV,
-  noneCV,
-  someCV,
-  ClarityValue,
-  cvToValue,
-} from '@stacks/transactions';
 import {
   CreditEscrow,
   EscrowStats,
   ContractCallResult,
 } from '@/types/contracts';
-import {
-  getContractAddress,
-  CONTRACT_NAMES,
-  FUNCTION_NAMES,
-} from '../contractConfig';
-import { callReadOnlyFunction, makeContractCall } from '../stacksApi';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as escrowManager from './generated/escrowGuardian';
 
 const contractName = 'escrowManager';
 
-export const createEscrow = async (
+const optionalNumber = (value: bigint | null): number | undefined =>
+  value === null ? undefined : Number(value);
+
+export const createEscrow = (
   beneficiary: string,
   amount: number,
   duration: number,
   exchangeId?: number
-): Promise<ContractCallResult<number>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.escrowManager.createEscrow,
-      functionArgs: [
-        standardPrincipalCV(beneficiary),
-        uintCV(amount),
-        uintCV(duration),
-        exchangeId ? someCV(uintCV(exchangeId)) : noneCV(),
-      ],
-    });
-
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
-
-export const releaseEscrow = async (
-  escrowId: number
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.escrowManager.releaseEscrow,
-      functionArgs: [uintCV(escrowId)],
-    });
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(
+    contractName,
+    escrowManager.createEscrowCall({
+      beneficiary,
+      amount,
+      duration,
+      exchangeId: exchangeId ?? null,
+    })
+  );
 
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
+export const releaseEscrow = (escrowId: number): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, escrowManager.releaseEscrowCall({ escrowId }));
 
-export const raiseDispute = async (
+/**
+ * Dispute an escrow, naming a registered mediator to decide it
+ */
+export const raiseDispute = (
   escrowId: number,
-  reason: string
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.escrowManager.raiseDispute,
-      functionArgs: [uintCV(escrowId), stringAsciiCV(reason)],
-    });
-
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
+  mediator: string
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, escrowManager.openDisputeCall({ escrowId, mediator }));
 
 export const getEscrowDetails = async (
   escrowId: number
 ): Promise<CreditEscrow | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.escrowManager.getEscrowDetails,
-      functionArgs: [uintCV(escrowId)],
+    const result = await escrowManager.getEscrowInfo(createReadOnlyCaller(contractName), {
+      escrowId,
     });
+    if (!result) return null;
 
-    if (!result || result.type === 'none') return null;
-
-    const value = cvToValue(result);
     return {
       escrowId,
-      depositor: value.value.depositor.value,
-      beneficiary: value.value.beneficiary.value,
-      amount: parseInt(value.value.amount.value),
-      createdAt: parseInt(value.value['created-at'].value),
-      expiresAt: parseInt(value.value['expires-at'].value),
-      released: value.value.released.value,
-      refunded: value.value.refunded.value,
-      releasedAt: value.value['released-at'].value
-        ? parseInt(value.value['released-at'].value.value)
-        : undefined,
-      refundedAt: value.value['refunded-at'].value
-        ? parseInt(value.value['refunded-at'].value.value)
-        : undefined,
-      exchangeId: value.value['exchange-id'].value
-        ? parseInt(value.value['exchange-id'].value.value)
-        : undefined,
-      disputed: value.value.disputed.value,
-      disputeReason: value.value['dispute-reason'].value
-        ? value.value['dispute-reason'].value.value
-        : undefined,
+      depositor: result.depositor,
+      beneficiary: result.beneficiary,
+      amount: Number(result.amount),
+      createdAt: Number(result.createdAt),
+      expiresAt: Number(result.expiresAt),
+      state: result.state as CreditEscrow['state'],
+      releasedAt: optionalNumber(result.releasedAt),
+      exchangeId: optionalNumber(result.exchangeId),
+      disputeMediator: result.disputeMediator ?? undefined,
+      mediatorDecision: result.mediatorDecision ?? undefined,
     };
   } catch (error) {
     console.error('Error fetching escrow details:', error);
@@ -130,21 +73,16 @@ export const getEscrowDetails = async (
 
 export const getEscrowStats = async (): Promise<EscrowStats | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.escrowManager.getEscrowStats,
-      functionArgs: [],
-    });
+    const result = await escrowManager.getEscrowStats(createReadOnlyCaller(contractName));
+    if (!result.ok) return null;
 
-    const value = cvToValue(result);
     return {
-      totalEscrows: parseInt(value.value['total-escrows'].value),
-      activeEscrows: parseInt(value.value['active-escrows'].value),
-      releasedEscrows: parseInt(value.value['released-escrows'].value),
-      refundedEscrows: parseInt(value.value['refunded-escrows'].value),
-      disputedEscrows: parseInt(value.value['disputed-escrows'].value),
-      totalAmountEscrowed: parseInt(value.value['total-amount-escrowed'].value),
+      totalEscrows: Number(result.value.totalEscrows),
+      totalCompletedEscrows: Number(result.value.totalCompletedEscrows),
+      totalDisputedEscrows: Number(result.value.totalDisputedEscrows),
+      totalEscrowedAmount: Number(result.value.totalEscrowedAmount),
+      nextEscrowId: Number(result.value.nextEscrowId),
+      escrowEnabled: result.value.escrowEnabled,
     };
   } catch (error) {
     console.error('Error fetching escrow stats:', error);
@@ -1,172 +1,119 @@
 // Exchange Manager Contract Integration
-// Clarity 4 contract with stacks-block-time scheduling
+// Clarity 4 contract with stacks-block-time scheduling, on top of the
+// bindings generated from the contract's ABI
 
-import {
-  standardPrincipalCV,
-  uintCV,
-  stringAsciiCV,
-  ClarityValue,
-  cvToValue,
-} from '@stacks/transactions';
 import {
   ServiceExchange,
-  ExchangeReview,
   ExchangeStats,
   ContractCallResult,
-  ExchangeStatus,
 } from '@/types/contracts';
-import {
-  getContractAddress,
-  CONTRACT_NAMES,
-  FUNCTION_NAMES,
-} from '../contractConfig';
-import { callReadOnlyFunction, makeContractCall } from '../stacksApi';
+import { getContractIdentifier } from '../contractConfig';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as exchangeManager from './generated/serviceCoordinator';
 
 const contractName = 'exchangeManager';
 
+const optionalNumber = (value: bigint | null): number | undefined =>
+  value === null ? undefined : Number(value);
+
+const decodeExchange = (
+  exchangeId: number,
+  result: exchangeManager.GetExchangeInfoResult
+): ServiceExchange | null => {
+  if (!result) return null;
+
+  return {
+    exchangeId,
+    requester: result.requester,
+    provider: result.provider,
+    skillId: Number(result.skillId),
+    description: result.description,
+    hoursRequested: Number(result.hoursRequested),
+    hourlyRate: Number(result.hourlyRate),
+    totalCredits: Number(result.totalCredits),
+    scheduledStart: Number(result.scheduledStart),
+    scheduledEnd: Number(result.scheduledEnd),
+    status: result.status as ServiceExchange['status'],
+    createdAt: Number(result.createdAt),
+    actualStart: optionalNumber(result.actualStart),
+    actualEnd: optionalNumber(result.actualEnd),
+    requesterConfirmed: result.requesterConfirmed,
+    providerConfirmed: result.providerConfirmed,
+  };
+};
+
 // ============================================
 // WRITE FUNCTIONS
 // ============================================
 
-export const createExchange = async (
+/**
+ * Request an exchange at the provider's registered rate. This is also how
+ * a requester accepts a signed offer (see lib/exchange-offers)
+ */
+export const createExchangeRequest = (
   provider: string,
-  skillName: string,
+  skillId: number,
   hoursRequested: number,
+  description: string,
   scheduledStart: number,
   scheduledEnd: number
-): Promise<ContractCallResult<number>> => {
-  try {
-    const functionArgs: ClarityValue[] = [
-      standardPrincipalCV(provider),
-      stringAsciiCV(skillName),
-      uintCV(hoursRequested),
-      uintCV(scheduledStart),
-      uintCV(scheduledEnd),
-    ];
-
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.createExchange,
-      functionArgs,
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to create exchange',
-    };
-  }
-};
-
-export const acceptExchange = async (
-  exchangeId: number
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.acceptExchange,
-      functionArgs: [uintCV(exchangeId)],
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to accept exchange',
-    };
-  }
-};
-
-export const confirmCompletion = async (
-  exchangeId: number
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.confirmCompletion,
-      functionArgs: [uintCV(exchangeId)],
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to confirm completion',
-    };
-  }
-};
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(
+    contractName,
+    exchangeManager.createExchangeRequestCall({
+      provider,
+      skillId,
+      hoursRequested,
+      description: description.slice(0, 200),
+      scheduledStart,
+      scheduledEnd,
+      coreContract: getContractIdentifier('timeBankCore'),
+      skillContract: getContractIdentifier('skillRegistry'),
+    }),
+    { postConditions: [] }
+  );
 
-export const cancelExchange = async (
-  exchangeId: number
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.cancelExchange,
-      functionArgs: [uintCV(exchangeId)],
-      postConditions: [],
-    });
+export const acceptExchange = (exchangeId: number): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, exchangeManager.acceptExchangeCall({ exchangeId }), {
+    postConditions: [],
+  });
+
+/**
+ * Start an accepted exchange, once its scheduled start has passed
+ */
+export const startExchange = (exchangeId: number): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, exchangeManager.startExchangeCall({ exchangeId }), {
+    postConditions: [],
+  });
+
+/**
+ * Confirm an exchange in progress as complete. Credits move to the provider
+ * once both sides have confirmed
+ */
+export const confirmCompletion = (exchangeId: number): Promise<ContractCallResult<void>> =>
+  submitContractCall(
+    contractName,
+    exchangeManager.completeExchangeCall({
+      exchangeId,
+      coreContract: getContractIdentifier('timeBankCore'),
+      skillContract: getContractIdentifier('skillRegistry'),
+    }),
+    { postConditions: [] }
+  );
 
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to cancel exchange',
-    };
-  }
-};
+export const cancelExchange = (exchangeId: number): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, exchangeManager.cancelExchangeCall({ exchangeId }), {
+    postConditions: [],
+  });
 
-export const submitReview = async (
+export const submitReview = (
   exchangeId: number,
   rating: number,
   comment: string
-): Promise<ContractCallResult<void>> => {
-  try {
-    const functionArgs: ClarityValue[] = [
-      uintCV(exchangeId),
-      uintCV(rating),
-      stringAsciiCV(comment),
-    ];
-
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.submitReview,
-      functionArgs,
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to submit review',
-    };
-  }
-};
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, exchangeManager.submitReviewCall({ exchangeId, rating, comment }), {
+    postConditions: [],
+  });
 
 // ============================================
 // READ-ONLY FUNCTIONS
@@ -176,95 +123,64 @@ export const getExchangeDetails = async (
   exchangeId: number
 ): Promise<ServiceExchange | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.getExchangeDetails,
-      functionArgs: [uintCV(exchangeId)],
-    });
-
-    if (!result || result.type === 'none') {
-      return null;
-    }
-
-    const value = cvToValue(result);
-
-    return {
+    return decodeExchange(
       exchangeId,
-      requester: value.value.requester.value,
-      provider: value.value.provider.value,
-      skillName: value.value['skill-name'].value,
-      hoursRequested: parseInt(value.value['hours-requested'].value),
-      scheduledStart: parseInt(value.value['scheduled-start'].value),
-      scheduledEnd: parseInt(value.value['scheduled-end'].value),
-      status: value.value.status.value as ExchangeStatus,
-      createdAt: parseInt(value.value['created-at'].value),
-      acceptedAt: value.value['accepted-at'].value
-        ? parseInt(value.value['accepted-at'].value.value)
-        : undefined,
-      completedAt: value.value['completed-at'].value
-        ? parseInt(value.value['completed-at'].value.value)
-        : undefined,
-      requesterConfirmed: value.value['requester-confirmed'].value,
-      providerConfirmed: value.value['provider-confirmed'].value,
-    };
+      await exchangeManager.getExchangeInfo(createReadOnlyCaller(contractName), { exchangeId })
+    );
   } catch (error) {
     console.error('Error fetching exchange details:', error);
     return null;
   }
 };
 
+/**
+ * Accepted or in progress
+ */
 export const isExchangeActive = async (exchangeId: number): Promise<boolean> => {
+  const exchange = await getExchangeDetails(exchangeId);
+  return exchange?.status === 'accepted' || exchange?.status === 'in-progress';
+};
+
+export const isExchangeCompleted = async (exchangeId: number): Promise<boolean> => {
+  const exchange = await getExchangeDetails(exchangeId);
+  return exchange?.status === 'completed';
+};
+
+export const getUserExchanges = async (user: string): Promise<number[]> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.isExchangeActive,
-      functionArgs: [uintCV(exchangeId)],
+    const result = await exchangeManager.getUserExchanges(createReadOnlyCaller(contractName), {
+      user,
     });
-
-    const value = cvToValue(result);
-    return value.value;
+    return result.ok ? result.value.map(Number) : [];
   } catch (error) {
-    console.error('Error checking if exchange is active:', error);
-    return false;
+    console.error('Error fetching user exchanges:', error);
+    return [];
   }
 };
 
-export const isExchangeCompleted = async (exchangeId: number): Promise<boolean> => {
+export const isExchangeExpired = async (exchangeId: number): Promise<boolean> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.isExchangeCompleted,
-      functionArgs: [uintCV(exchangeId)],
+    const result = await exchangeManager.isExchangeExpired(createReadOnlyCaller(contractName), {
+      exchangeId,
     });
-
-    const value = cvToValue(result);
-    return value.value;
+    return result.ok && result.value;
   } catch (error) {
-    console.error('Error checking if exchange is completed:', error);
+    console.error('Error checking if exchange is expired:', error);
     return false;
   }
 };
 
 export const getExchangeStats = async (): Promise<ExchangeStats | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.exchangeManager.getExchangeStats,
-      functionArgs: [],
-    });
-
-    const value = cvToValue(result);
+    const result = await exchangeManager.getExchangeStats(createReadOnlyCaller(contractName));
+    if (!result.ok) return null;
 
     return {
-      totalExchanges: parseInt(value.value['total-exchanges'].value),
-      completedExchanges: parseInt(value.value['completed-exchanges'].value),
-      cancelledExchanges: parseInt(value.value['cancelled-exchanges'].value),
-      activeExchanges: parseInt(value.value['active-exchanges'].value),
-      totalHoursExchanged: parseInt(value.value['total-hours-exchanged'].value),
+      totalExchanges: Number(result.value.totalExchanges),
+      totalCompletedExchanges: Number(result.value.totalCompletedExchanges),
+      totalCreditsExchanged: Number(result.value.totalCreditsExchanged),
+      nextExchangeId: Number(result.value.nextExchangeId),
+      exchangesEnabled: result.value.exchangesEnabled,
     };
   } catch (error) {
     console.error('Error fetching exchange stats:', error);
@@ -276,6 +192,12 @@ export const getExchangeStats = async (): Promise<ExchangeStats | null> => {
 // UTILITY FUNCTIONS
 // ============================================
 
+/**
+ * Short label for an exchange: its description, else its skill
+ */
+export const describeExchange = (exchange: ServiceExchange): string =>
+  exchange.description || `Skill #${exchange.skillId}`;
+
 export const formatScheduleTime = (timestamp: number): string => {
   return new Date(timestamp * 1000).toLocaleString();
 };
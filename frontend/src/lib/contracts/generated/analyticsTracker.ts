@@ -0,0 +1,339 @@
+// Generated by scripts/generate-contract-bindings.ts from the analytics-tracker ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "analytics-tracker";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-current-timestamp": {
+    "name": "get-current-timestamp",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-daily-metrics": {
+    "name": "get-daily-metrics",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "day",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "active-users",
+                  "type": "uint128"
+                },
+                {
+                  "name": "exchanges",
+                  "type": "uint128"
+                },
+                {
+                  "name": "recorded-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "volume",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-skill-metrics": {
+    "name": "get-skill-metrics",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "average-rate",
+                  "type": "uint128"
+                },
+                {
+                  "name": "popularity",
+                  "type": "uint128"
+                },
+                {
+                  "name": "total-exchanges",
+                  "type": "uint128"
+                },
+                {
+                  "name": "total-volume",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-total-stats": {
+    "name": "get-total-stats",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "total-exchanges",
+                "type": "uint128"
+              },
+              {
+                "name": "total-users",
+                "type": "uint128"
+              },
+              {
+                "name": "total-volume",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-user-activity": {
+    "name": "get-user-activity",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "day",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "exchanges-count",
+                  "type": "uint128"
+                },
+                {
+                  "name": "last-activity",
+                  "type": "uint128"
+                },
+                {
+                  "name": "volume-given",
+                  "type": "uint128"
+                },
+                {
+                  "name": "volume-received",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "record-exchange": {
+    "name": "record-exchange",
+    "access": "public",
+    "args": [
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "provider",
+        "type": "principal"
+      },
+      {
+        "name": "receiver",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  }
+};
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export type GetCurrentTimestampResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-current-timestamp))
+ */
+export const getCurrentTimestampCall = (): ContractCall<GetCurrentTimestampResult> =>
+  contractCall(CONTRACT_NAME, abi["get-current-timestamp"]);
+
+export const getCurrentTimestamp = (caller: ReadOnlyCaller): Promise<GetCurrentTimestampResult> =>
+  callReadOnly(caller, getCurrentTimestampCall());
+
+export interface GetDailyMetricsArgs {
+  day: IntegerInput;
+}
+
+export type GetDailyMetricsResult = ClarityResponse<{
+  activeUsers: bigint;
+  exchanges: bigint;
+  recordedAt: bigint;
+  volume: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-daily-metrics (day uint)))
+ */
+export const getDailyMetricsCall = (args: GetDailyMetricsArgs): ContractCall<GetDailyMetricsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-daily-metrics"], args);
+
+export const getDailyMetrics = (caller: ReadOnlyCaller, args: GetDailyMetricsArgs): Promise<GetDailyMetricsResult> =>
+  callReadOnly(caller, getDailyMetricsCall(args));
+
+export interface GetSkillMetricsArgs {
+  skillId: IntegerInput;
+}
+
+export type GetSkillMetricsResult = ClarityResponse<{
+  averageRate: bigint;
+  popularity: bigint;
+  totalExchanges: bigint;
+  totalVolume: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-skill-metrics (skill-id uint)))
+ */
+export const getSkillMetricsCall = (args: GetSkillMetricsArgs): ContractCall<GetSkillMetricsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-skill-metrics"], args);
+
+export const getSkillMetrics = (caller: ReadOnlyCaller, args: GetSkillMetricsArgs): Promise<GetSkillMetricsResult> =>
+  callReadOnly(caller, getSkillMetricsCall(args));
+
+export type GetTotalStatsResult = ClarityResponse<{
+  totalExchanges: bigint;
+  totalUsers: bigint;
+  totalVolume: bigint;
+}, null>;
+
+/**
+ * (define-read-only (get-total-stats))
+ */
+export const getTotalStatsCall = (): ContractCall<GetTotalStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-total-stats"]);
+
+export const getTotalStats = (caller: ReadOnlyCaller): Promise<GetTotalStatsResult> =>
+  callReadOnly(caller, getTotalStatsCall());
+
+export interface GetUserActivityArgs {
+  user: string;
+  day: IntegerInput;
+}
+
+export type GetUserActivityResult = ClarityResponse<{
+  exchangesCount: bigint;
+  lastActivity: bigint;
+  volumeGiven: bigint;
+  volumeReceived: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-user-activity (user principal) (day uint)))
+ */
+export const getUserActivityCall = (args: GetUserActivityArgs): ContractCall<GetUserActivityResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-activity"], args);
+
+export const getUserActivity = (caller: ReadOnlyCaller, args: GetUserActivityArgs): Promise<GetUserActivityResult> =>
+  callReadOnly(caller, getUserActivityCall(args));
+
+export interface RecordExchangeArgs {
+  skillId: IntegerInput;
+  provider: string;
+  receiver: string;
+  amount: IntegerInput;
+}
+
+export type RecordExchangeResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-public (record-exchange (skill-id uint) (provider principal) (receiver principal) (amount uint)))
+ */
+export const recordExchangeCall = (args: RecordExchangeArgs): ContractCall<RecordExchangeResult> =>
+  contractCall(CONTRACT_NAME, abi["record-exchange"], args);
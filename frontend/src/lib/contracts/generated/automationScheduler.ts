@@ -0,0 +1,262 @@
+// Generated by scripts/generate-contract-bindings.ts from the automation-scheduler ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "automation-scheduler";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "cancel-schedule": {
+    "name": "cancel-schedule",
+    "access": "public",
+    "args": [
+      {
+        "name": "schedule-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "create-schedule": {
+    "name": "create-schedule",
+    "access": "public",
+    "args": [
+      {
+        "name": "recipient",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      },
+      {
+        "name": "interval",
+        "type": "uint128"
+      },
+      {
+        "name": "schedule-type",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "execute-schedule": {
+    "name": "execute-schedule",
+    "access": "public",
+    "args": [
+      {
+        "name": "schedule-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-schedule": {
+    "name": "get-schedule",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "schedule-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "amount",
+                  "type": "uint128"
+                },
+                {
+                  "name": "execution-count",
+                  "type": "uint128"
+                },
+                {
+                  "name": "interval",
+                  "type": "uint128"
+                },
+                {
+                  "name": "is-active",
+                  "type": "bool"
+                },
+                {
+                  "name": "next-execution",
+                  "type": "uint128"
+                },
+                {
+                  "name": "owner",
+                  "type": "principal"
+                },
+                {
+                  "name": "recipient",
+                  "type": "principal"
+                },
+                {
+                  "name": "schedule-type",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-ready": {
+    "name": "is-ready",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "schedule-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface CancelScheduleArgs {
+  scheduleId: IntegerInput;
+}
+
+export type CancelScheduleResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (cancel-schedule (schedule-id uint)))
+ */
+export const cancelScheduleCall = (args: CancelScheduleArgs): ContractCall<CancelScheduleResult> =>
+  contractCall(CONTRACT_NAME, abi["cancel-schedule"], args);
+
+export interface CreateScheduleArgs {
+  recipient: string;
+  amount: IntegerInput;
+  interval: IntegerInput;
+  scheduleType: IntegerInput;
+}
+
+export type CreateScheduleResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (create-schedule (recipient principal) (amount uint) (interval uint) (schedule-type uint)))
+ */
+export const createScheduleCall = (args: CreateScheduleArgs): ContractCall<CreateScheduleResult> =>
+  contractCall(CONTRACT_NAME, abi["create-schedule"], args);
+
+export interface ExecuteScheduleArgs {
+  scheduleId: IntegerInput;
+}
+
+export type ExecuteScheduleResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (execute-schedule (schedule-id uint)))
+ */
+export const executeScheduleCall = (args: ExecuteScheduleArgs): ContractCall<ExecuteScheduleResult> =>
+  contractCall(CONTRACT_NAME, abi["execute-schedule"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetScheduleArgs {
+  scheduleId: IntegerInput;
+}
+
+export type GetScheduleResult = ClarityResponse<{
+  amount: bigint;
+  executionCount: bigint;
+  interval: bigint;
+  isActive: boolean;
+  nextExecution: bigint;
+  owner: string;
+  recipient: string;
+  scheduleType: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-schedule (schedule-id uint)))
+ */
+export const getScheduleCall = (args: GetScheduleArgs): ContractCall<GetScheduleResult> =>
+  contractCall(CONTRACT_NAME, abi["get-schedule"], args);
+
+export const getSchedule = (caller: ReadOnlyCaller, args: GetScheduleArgs): Promise<GetScheduleResult> =>
+  callReadOnly(caller, getScheduleCall(args));
+
+export interface IsReadyArgs {
+  scheduleId: IntegerInput;
+}
+
+export type IsReadyResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-read-only (is-ready (schedule-id uint)))
+ */
+export const isReadyCall = (args: IsReadyArgs): ContractCall<IsReadyResult> =>
+  contractCall(CONTRACT_NAME, abi["is-ready"], args);
+
+export const isReady = (caller: ReadOnlyCaller, args: IsReadyArgs): Promise<IsReadyResult> =>
+  callReadOnly(caller, isReadyCall(args));
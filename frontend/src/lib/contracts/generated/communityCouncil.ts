@@ -0,0 +1,582 @@
+// Generated by scripts/generate-contract-bindings.ts from the community-council ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "community-council";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "can-execute-proposal": {
+    "name": "can-execute-proposal",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "cancel-proposal": {
+    "name": "cancel-proposal",
+    "access": "public",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "cast-vote": {
+    "name": "cast-vote",
+    "access": "public",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      },
+      {
+        "name": "vote",
+        "type": "bool"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "create-proposal": {
+    "name": "create-proposal",
+    "access": "public",
+    "args": [
+      {
+        "name": "title",
+        "type": {
+          "string-ascii": {
+            "length": 100
+          }
+        }
+      },
+      {
+        "name": "description",
+        "type": {
+          "string-ascii": {
+            "length": 500
+          }
+        }
+      },
+      {
+        "name": "proposal-type",
+        "type": {
+          "string-ascii": {
+            "length": 50
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "execute-proposal": {
+    "name": "execute-proposal",
+    "access": "public",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "finalize-proposal": {
+    "name": "finalize-proposal",
+    "access": "public",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 6
+            }
+          },
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-governance-stats": {
+    "name": "get-governance-stats",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "governance-enabled",
+                "type": "bool"
+              },
+              {
+                "name": "next-proposal-id",
+                "type": "uint128"
+              },
+              {
+                "name": "quorum-percentage",
+                "type": "uint128"
+              },
+              {
+                "name": "timelock-period",
+                "type": "uint128"
+              },
+              {
+                "name": "total-active-voters",
+                "type": "uint128"
+              },
+              {
+                "name": "total-passed-proposals",
+                "type": "uint128"
+              },
+              {
+                "name": "total-proposals",
+                "type": "uint128"
+              },
+              {
+                "name": "voting-period",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-proposal": {
+    "name": "get-proposal",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "created-at",
+              "type": "uint128"
+            },
+            {
+              "name": "description",
+              "type": {
+                "string-ascii": {
+                  "length": 500
+                }
+              }
+            },
+            {
+              "name": "executed-at",
+              "type": {
+                "optional": "uint128"
+              }
+            },
+            {
+              "name": "execution-available-at",
+              "type": "uint128"
+            },
+            {
+              "name": "no-votes",
+              "type": "uint128"
+            },
+            {
+              "name": "proposal-type",
+              "type": {
+                "string-ascii": {
+                  "length": 50
+                }
+              }
+            },
+            {
+              "name": "proposer",
+              "type": "principal"
+            },
+            {
+              "name": "state",
+              "type": {
+                "string-ascii": {
+                  "length": 20
+                }
+              }
+            },
+            {
+              "name": "title",
+              "type": {
+                "string-ascii": {
+                  "length": 100
+                }
+              }
+            },
+            {
+              "name": "total-voters",
+              "type": "uint128"
+            },
+            {
+              "name": "voting-ends-at",
+              "type": "uint128"
+            },
+            {
+              "name": "yes-votes",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-vote": {
+    "name": "get-vote",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      },
+      {
+        "name": "voter",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "vote",
+              "type": "bool"
+            },
+            {
+              "name": "voted-at",
+              "type": "uint128"
+            },
+            {
+              "name": "weight",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-voting-power": {
+    "name": "get-voting-power",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "set-voting-power": {
+    "name": "set-voting-power",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "power",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "toggle-governance": {
+    "name": "toggle-governance",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface CanExecuteProposalArgs {
+  proposalId: IntegerInput;
+}
+
+export type CanExecuteProposalResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-read-only (can-execute-proposal (proposal-id uint)))
+ */
+export const canExecuteProposalCall = (args: CanExecuteProposalArgs): ContractCall<CanExecuteProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["can-execute-proposal"], args);
+
+export const canExecuteProposal = (caller: ReadOnlyCaller, args: CanExecuteProposalArgs): Promise<CanExecuteProposalResult> =>
+  callReadOnly(caller, canExecuteProposalCall(args));
+
+export interface CancelProposalArgs {
+  proposalId: IntegerInput;
+}
+
+export type CancelProposalResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (cancel-proposal (proposal-id uint)))
+ */
+export const cancelProposalCall = (args: CancelProposalArgs): ContractCall<CancelProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["cancel-proposal"], args);
+
+export interface CastVoteArgs {
+  proposalId: IntegerInput;
+  vote: boolean;
+}
+
+export type CastVoteResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (cast-vote (proposal-id uint) (vote bool)))
+ */
+export const castVoteCall = (args: CastVoteArgs): ContractCall<CastVoteResult> =>
+  contractCall(CONTRACT_NAME, abi["cast-vote"], args);
+
+export interface CreateProposalArgs {
+  title: string;
+  description: string;
+  proposalType: string;
+}
+
+export type CreateProposalResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (create-proposal (title (string-ascii 100)) (description (string-ascii 500)) (proposal-type (string-ascii 50))))
+ */
+export const createProposalCall = (args: CreateProposalArgs): ContractCall<CreateProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["create-proposal"], args);
+
+export interface ExecuteProposalArgs {
+  proposalId: IntegerInput;
+}
+
+export type ExecuteProposalResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (execute-proposal (proposal-id uint)))
+ */
+export const executeProposalCall = (args: ExecuteProposalArgs): ContractCall<ExecuteProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["execute-proposal"], args);
+
+export interface FinalizeProposalArgs {
+  proposalId: IntegerInput;
+}
+
+export type FinalizeProposalResult = ClarityResponse<string, bigint>;
+
+/**
+ * (define-public (finalize-proposal (proposal-id uint)))
+ */
+export const finalizeProposalCall = (args: FinalizeProposalArgs): ContractCall<FinalizeProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["finalize-proposal"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export type GetGovernanceStatsResult = ClarityResponse<{
+  governanceEnabled: boolean;
+  nextProposalId: bigint;
+  quorumPercentage: bigint;
+  timelockPeriod: bigint;
+  totalActiveVoters: bigint;
+  totalPassedProposals: bigint;
+  totalProposals: bigint;
+  votingPeriod: bigint;
+}, null>;
+
+/**
+ * (define-read-only (get-governance-stats))
+ */
+export const getGovernanceStatsCall = (): ContractCall<GetGovernanceStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-governance-stats"]);
+
+export const getGovernanceStats = (caller: ReadOnlyCaller): Promise<GetGovernanceStatsResult> =>
+  callReadOnly(caller, getGovernanceStatsCall());
+
+export interface GetProposalArgs {
+  proposalId: IntegerInput;
+}
+
+export type GetProposalResult = {
+  createdAt: bigint;
+  description: string;
+  executedAt: bigint | null;
+  executionAvailableAt: bigint;
+  noVotes: bigint;
+  proposalType: string;
+  proposer: string;
+  state: string;
+  title: string;
+  totalVoters: bigint;
+  votingEndsAt: bigint;
+  yesVotes: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-proposal (proposal-id uint)))
+ */
+export const getProposalCall = (args: GetProposalArgs): ContractCall<GetProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["get-proposal"], args);
+
+export const getProposal = (caller: ReadOnlyCaller, args: GetProposalArgs): Promise<GetProposalResult> =>
+  callReadOnly(caller, getProposalCall(args));
+
+export interface GetVoteArgs {
+  proposalId: IntegerInput;
+  voter: string;
+}
+
+export type GetVoteResult = {
+  vote: boolean;
+  votedAt: bigint;
+  weight: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-vote (proposal-id uint) (voter principal)))
+ */
+export const getVoteCall = (args: GetVoteArgs): ContractCall<GetVoteResult> =>
+  contractCall(CONTRACT_NAME, abi["get-vote"], args);
+
+export const getVote = (caller: ReadOnlyCaller, args: GetVoteArgs): Promise<GetVoteResult> =>
+  callReadOnly(caller, getVoteCall(args));
+
+export interface GetVotingPowerArgs {
+  user: string;
+}
+
+export type GetVotingPowerResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-voting-power (user principal)))
+ */
+export const getVotingPowerCall = (args: GetVotingPowerArgs): ContractCall<GetVotingPowerResult> =>
+  contractCall(CONTRACT_NAME, abi["get-voting-power"], args);
+
+export const getVotingPower = (caller: ReadOnlyCaller, args: GetVotingPowerArgs): Promise<GetVotingPowerResult> =>
+  callReadOnly(caller, getVotingPowerCall(args));
+
+export interface SetVotingPowerArgs {
+  user: string;
+  power: IntegerInput;
+}
+
+export type SetVotingPowerResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (set-voting-power (user principal) (power uint)))
+ */
+export const setVotingPowerCall = (args: SetVotingPowerArgs): ContractCall<SetVotingPowerResult> =>
+  contractCall(CONTRACT_NAME, abi["set-voting-power"], args);
+
+export type ToggleGovernanceResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (toggle-governance))
+ */
+export const toggleGovernanceCall = (): ContractCall<ToggleGovernanceResult> =>
+  contractCall(CONTRACT_NAME, abi["toggle-governance"]);
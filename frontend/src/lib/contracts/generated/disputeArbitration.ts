@@ -0,0 +1,476 @@
+// Generated by scripts/generate-contract-bindings.ts from the dispute-arbitration ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "dispute-arbitration";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "assign-to-dispute": {
+    "name": "assign-to-dispute",
+    "access": "public",
+    "args": [
+      {
+        "name": "dispute-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "cast-vote": {
+    "name": "cast-vote",
+    "access": "public",
+    "args": [
+      {
+        "name": "dispute-id",
+        "type": "uint128"
+      },
+      {
+        "name": "vote",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "create-dispute": {
+    "name": "create-dispute",
+    "access": "public",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      },
+      {
+        "name": "provider",
+        "type": "principal"
+      },
+      {
+        "name": "receiver",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-arbitrator-info": {
+    "name": "get-arbitrator-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "arbitrator",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "is-active",
+                  "type": "bool"
+                },
+                {
+                  "name": "joined-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "reputation-score",
+                  "type": "uint128"
+                },
+                {
+                  "name": "total-cases",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-dispute": {
+    "name": "get-dispute",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "dispute-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "created-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "evidence-deadline",
+                  "type": "uint128"
+                },
+                {
+                  "name": "exchange-id",
+                  "type": "uint128"
+                },
+                {
+                  "name": "outcome",
+                  "type": {
+                    "optional": "uint128"
+                  }
+                },
+                {
+                  "name": "provider",
+                  "type": "principal"
+                },
+                {
+                  "name": "receiver",
+                  "type": "principal"
+                },
+                {
+                  "name": "status",
+                  "type": "uint128"
+                },
+                {
+                  "name": "votes-provider",
+                  "type": "uint128"
+                },
+                {
+                  "name": "votes-receiver",
+                  "type": "uint128"
+                },
+                {
+                  "name": "votes-split",
+                  "type": "uint128"
+                },
+                {
+                  "name": "voting-deadline",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-vote": {
+    "name": "get-vote",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "dispute-id",
+        "type": "uint128"
+      },
+      {
+        "name": "arbitrator",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "vote",
+                  "type": "uint128"
+                },
+                {
+                  "name": "voted-at",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-evidence-period-open": {
+    "name": "is-evidence-period-open",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "dispute-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "is-voting-open": {
+    "name": "is-voting-open",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "dispute-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "register-arbitrator": {
+    "name": "register-arbitrator",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "resolve-dispute": {
+    "name": "resolve-dispute",
+    "access": "public",
+    "args": [
+      {
+        "name": "dispute-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface AssignToDisputeArgs {
+  disputeId: IntegerInput;
+}
+
+export type AssignToDisputeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (assign-to-dispute (dispute-id uint)))
+ */
+export const assignToDisputeCall = (args: AssignToDisputeArgs): ContractCall<AssignToDisputeResult> =>
+  contractCall(CONTRACT_NAME, abi["assign-to-dispute"], args);
+
+export interface CastVoteArgs {
+  disputeId: IntegerInput;
+  vote: IntegerInput;
+}
+
+export type CastVoteResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (cast-vote (dispute-id uint) (vote uint)))
+ */
+export const castVoteCall = (args: CastVoteArgs): ContractCall<CastVoteResult> =>
+  contractCall(CONTRACT_NAME, abi["cast-vote"], args);
+
+export interface CreateDisputeArgs {
+  exchangeId: IntegerInput;
+  provider: string;
+  receiver: string;
+}
+
+export type CreateDisputeResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (create-dispute (exchange-id uint) (provider principal) (receiver principal)))
+ */
+export const createDisputeCall = (args: CreateDisputeArgs): ContractCall<CreateDisputeResult> =>
+  contractCall(CONTRACT_NAME, abi["create-dispute"], args);
+
+export interface GetArbitratorInfoArgs {
+  arbitrator: string;
+}
+
+export type GetArbitratorInfoResult = ClarityResponse<{
+  isActive: boolean;
+  joinedAt: bigint;
+  reputationScore: bigint;
+  totalCases: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-arbitrator-info (arbitrator principal)))
+ */
+export const getArbitratorInfoCall = (args: GetArbitratorInfoArgs): ContractCall<GetArbitratorInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-arbitrator-info"], args);
+
+export const getArbitratorInfo = (caller: ReadOnlyCaller, args: GetArbitratorInfoArgs): Promise<GetArbitratorInfoResult> =>
+  callReadOnly(caller, getArbitratorInfoCall(args));
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetDisputeArgs {
+  disputeId: IntegerInput;
+}
+
+export type GetDisputeResult = ClarityResponse<{
+  createdAt: bigint;
+  evidenceDeadline: bigint;
+  exchangeId: bigint;
+  outcome: bigint | null;
+  provider: string;
+  receiver: string;
+  status: bigint;
+  votesProvider: bigint;
+  votesReceiver: bigint;
+  votesSplit: bigint;
+  votingDeadline: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-dispute (dispute-id uint)))
+ */
+export const getDisputeCall = (args: GetDisputeArgs): ContractCall<GetDisputeResult> =>
+  contractCall(CONTRACT_NAME, abi["get-dispute"], args);
+
+export const getDispute = (caller: ReadOnlyCaller, args: GetDisputeArgs): Promise<GetDisputeResult> =>
+  callReadOnly(caller, getDisputeCall(args));
+
+export interface GetVoteArgs {
+  disputeId: IntegerInput;
+  arbitrator: string;
+}
+
+export type GetVoteResult = ClarityResponse<{
+  vote: bigint;
+  votedAt: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-vote (dispute-id uint) (arbitrator principal)))
+ */
+export const getVoteCall = (args: GetVoteArgs): ContractCall<GetVoteResult> =>
+  contractCall(CONTRACT_NAME, abi["get-vote"], args);
+
+export const getVote = (caller: ReadOnlyCaller, args: GetVoteArgs): Promise<GetVoteResult> =>
+  callReadOnly(caller, getVoteCall(args));
+
+export interface IsEvidencePeriodOpenArgs {
+  disputeId: IntegerInput;
+}
+
+export type IsEvidencePeriodOpenResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-read-only (is-evidence-period-open (dispute-id uint)))
+ */
+export const isEvidencePeriodOpenCall = (args: IsEvidencePeriodOpenArgs): ContractCall<IsEvidencePeriodOpenResult> =>
+  contractCall(CONTRACT_NAME, abi["is-evidence-period-open"], args);
+
+export const isEvidencePeriodOpen = (caller: ReadOnlyCaller, args: IsEvidencePeriodOpenArgs): Promise<IsEvidencePeriodOpenResult> =>
+  callReadOnly(caller, isEvidencePeriodOpenCall(args));
+
+export interface IsVotingOpenArgs {
+  disputeId: IntegerInput;
+}
+
+export type IsVotingOpenResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-read-only (is-voting-open (dispute-id uint)))
+ */
+export const isVotingOpenCall = (args: IsVotingOpenArgs): ContractCall<IsVotingOpenResult> =>
+  contractCall(CONTRACT_NAME, abi["is-voting-open"], args);
+
+export const isVotingOpen = (caller: ReadOnlyCaller, args: IsVotingOpenArgs): Promise<IsVotingOpenResult> =>
+  callReadOnly(caller, isVotingOpenCall(args));
+
+export type RegisterArbitratorResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (register-arbitrator))
+ */
+export const registerArbitratorCall = (): ContractCall<RegisterArbitratorResult> =>
+  contractCall(CONTRACT_NAME, abi["register-arbitrator"]);
+
+export interface ResolveDisputeArgs {
+  disputeId: IntegerInput;
+}
+
+export type ResolveDisputeResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (resolve-dispute (dispute-id uint)))
+ */
+export const resolveDisputeCall = (args: ResolveDisputeArgs): ContractCall<ResolveDisputeResult> =>
+  contractCall(CONTRACT_NAME, abi["resolve-dispute"], args);
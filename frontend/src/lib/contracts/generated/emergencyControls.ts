@@ -0,0 +1,376 @@
+// Generated by scripts/generate-contract-bindings.ts from the emergency-controls ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "emergency-controls";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "add-admin": {
+    "name": "add-admin",
+    "access": "public",
+    "args": [
+      {
+        "name": "new-admin",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-operation": {
+    "name": "get-operation",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "operation-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "execute-after",
+                  "type": "uint128"
+                },
+                {
+                  "name": "executed",
+                  "type": "bool"
+                },
+                {
+                  "name": "operation-type",
+                  "type": {
+                    "string-ascii": {
+                      "length": 50
+                    }
+                  }
+                },
+                {
+                  "name": "proposer",
+                  "type": "principal"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-admin": {
+    "name": "is-admin",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-contract-paused": {
+    "name": "is-contract-paused",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "contract",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-globally-paused": {
+    "name": "is-globally-paused",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-operation-executable": {
+    "name": "is-operation-executable",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "operation-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "pause-contract": {
+    "name": "pause-contract",
+    "access": "public",
+    "args": [
+      {
+        "name": "contract",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "propose-operation": {
+    "name": "propose-operation",
+    "access": "public",
+    "args": [
+      {
+        "name": "operation-type",
+        "type": {
+          "string-ascii": {
+            "length": 50
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "toggle-global-pause": {
+    "name": "toggle-global-pause",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "unpause-contract": {
+    "name": "unpause-contract",
+    "access": "public",
+    "args": [
+      {
+        "name": "contract",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface AddAdminArgs {
+  newAdmin: string;
+}
+
+export type AddAdminResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (add-admin (new-admin principal)))
+ */
+export const addAdminCall = (args: AddAdminArgs): ContractCall<AddAdminResult> =>
+  contractCall(CONTRACT_NAME, abi["add-admin"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetOperationArgs {
+  operationId: IntegerInput;
+}
+
+export type GetOperationResult = ClarityResponse<{
+  executeAfter: bigint;
+  executed: boolean;
+  operationType: string;
+  proposer: string;
+} | null, null>;
+
+/**
+ * (define-read-only (get-operation (operation-id uint)))
+ */
+export const getOperationCall = (args: GetOperationArgs): ContractCall<GetOperationResult> =>
+  contractCall(CONTRACT_NAME, abi["get-operation"], args);
+
+export const getOperation = (caller: ReadOnlyCaller, args: GetOperationArgs): Promise<GetOperationResult> =>
+  callReadOnly(caller, getOperationCall(args));
+
+export interface IsAdminArgs {
+  user: string;
+}
+
+export type IsAdminResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (is-admin (user principal)))
+ */
+export const isAdminCall = (args: IsAdminArgs): ContractCall<IsAdminResult> =>
+  contractCall(CONTRACT_NAME, abi["is-admin"], args);
+
+export const isAdmin = (caller: ReadOnlyCaller, args: IsAdminArgs): Promise<IsAdminResult> =>
+  callReadOnly(caller, isAdminCall(args));
+
+export interface IsContractPausedArgs {
+  contract: string;
+}
+
+export type IsContractPausedResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (is-contract-paused (contract principal)))
+ */
+export const isContractPausedCall = (args: IsContractPausedArgs): ContractCall<IsContractPausedResult> =>
+  contractCall(CONTRACT_NAME, abi["is-contract-paused"], args);
+
+export const isContractPaused = (caller: ReadOnlyCaller, args: IsContractPausedArgs): Promise<IsContractPausedResult> =>
+  callReadOnly(caller, isContractPausedCall(args));
+
+export type IsGloballyPausedResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (is-globally-paused))
+ */
+export const isGloballyPausedCall = (): ContractCall<IsGloballyPausedResult> =>
+  contractCall(CONTRACT_NAME, abi["is-globally-paused"]);
+
+export const isGloballyPaused = (caller: ReadOnlyCaller): Promise<IsGloballyPausedResult> =>
+  callReadOnly(caller, isGloballyPausedCall());
+
+export interface IsOperationExecutableArgs {
+  operationId: IntegerInput;
+}
+
+export type IsOperationExecutableResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-read-only (is-operation-executable (operation-id uint)))
+ */
+export const isOperationExecutableCall = (args: IsOperationExecutableArgs): ContractCall<IsOperationExecutableResult> =>
+  contractCall(CONTRACT_NAME, abi["is-operation-executable"], args);
+
+export const isOperationExecutable = (caller: ReadOnlyCaller, args: IsOperationExecutableArgs): Promise<IsOperationExecutableResult> =>
+  callReadOnly(caller, isOperationExecutableCall(args));
+
+export interface PauseContractArgs {
+  contract: string;
+}
+
+export type PauseContractResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (pause-contract (contract principal)))
+ */
+export const pauseContractCall = (args: PauseContractArgs): ContractCall<PauseContractResult> =>
+  contractCall(CONTRACT_NAME, abi["pause-contract"], args);
+
+export interface ProposeOperationArgs {
+  operationType: string;
+}
+
+export type ProposeOperationResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (propose-operation (operation-type (string-ascii 50))))
+ */
+export const proposeOperationCall = (args: ProposeOperationArgs): ContractCall<ProposeOperationResult> =>
+  contractCall(CONTRACT_NAME, abi["propose-operation"], args);
+
+export type ToggleGlobalPauseResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (toggle-global-pause))
+ */
+export const toggleGlobalPauseCall = (): ContractCall<ToggleGlobalPauseResult> =>
+  contractCall(CONTRACT_NAME, abi["toggle-global-pause"]);
+
+export interface UnpauseContractArgs {
+  contract: string;
+}
+
+export type UnpauseContractResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (unpause-contract (contract principal)))
+ */
+export const unpauseContractCall = (args: UnpauseContractArgs): ContractCall<UnpauseContractResult> =>
+  contractCall(CONTRACT_NAME, abi["unpause-contract"], args);
@@ -0,0 +1,564 @@
+// Generated by scripts/generate-contract-bindings.ts from the escrow-guardian ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "escrow-guardian";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "create-escrow": {
+    "name": "create-escrow",
+    "access": "public",
+    "args": [
+      {
+        "name": "beneficiary",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      },
+      {
+        "name": "duration",
+        "type": "uint128"
+      },
+      {
+        "name": "exchange-id",
+        "type": {
+          "optional": "uint128"
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "deactivate-mediator": {
+    "name": "deactivate-mediator",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-escrow-info": {
+    "name": "get-escrow-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "escrow-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "amount",
+              "type": "uint128"
+            },
+            {
+              "name": "beneficiary",
+              "type": "principal"
+            },
+            {
+              "name": "created-at",
+              "type": "uint128"
+            },
+            {
+              "name": "depositor",
+              "type": "principal"
+            },
+            {
+              "name": "dispute-mediator",
+              "type": {
+                "optional": "principal"
+              }
+            },
+            {
+              "name": "exchange-id",
+              "type": {
+                "optional": "uint128"
+              }
+            },
+            {
+              "name": "expires-at",
+              "type": "uint128"
+            },
+            {
+              "name": "mediator-decision",
+              "type": {
+                "optional": "bool"
+              }
+            },
+            {
+              "name": "released-at",
+              "type": {
+                "optional": "uint128"
+              }
+            },
+            {
+              "name": "state",
+              "type": {
+                "string-ascii": {
+                  "length": 20
+                }
+              }
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-escrow-stats": {
+    "name": "get-escrow-stats",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "escrow-enabled",
+                "type": "bool"
+              },
+              {
+                "name": "next-escrow-id",
+                "type": "uint128"
+              },
+              {
+                "name": "total-completed-escrows",
+                "type": "uint128"
+              },
+              {
+                "name": "total-disputed-escrows",
+                "type": "uint128"
+              },
+              {
+                "name": "total-escrowed-amount",
+                "type": "uint128"
+              },
+              {
+                "name": "total-escrows",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-mediator-info": {
+    "name": "get-mediator-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "mediator",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "is-active",
+              "type": "bool"
+            },
+            {
+              "name": "joined-at",
+              "type": "uint128"
+            },
+            {
+              "name": "successful-resolutions",
+              "type": "uint128"
+            },
+            {
+              "name": "total-cases",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-user-escrows": {
+    "name": "get-user-escrows",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "list": {
+              "type": "uint128",
+              "length": 100
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-escrow-expired": {
+    "name": "is-escrow-expired",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "escrow-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "open-dispute": {
+    "name": "open-dispute",
+    "access": "public",
+    "args": [
+      {
+        "name": "escrow-id",
+        "type": "uint128"
+      },
+      {
+        "name": "mediator",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "refund-expired-escrow": {
+    "name": "refund-expired-escrow",
+    "access": "public",
+    "args": [
+      {
+        "name": "escrow-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "register-mediator": {
+    "name": "register-mediator",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "release-escrow": {
+    "name": "release-escrow",
+    "access": "public",
+    "args": [
+      {
+        "name": "escrow-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "resolve-dispute": {
+    "name": "resolve-dispute",
+    "access": "public",
+    "args": [
+      {
+        "name": "escrow-id",
+        "type": "uint128"
+      },
+      {
+        "name": "favor-beneficiary",
+        "type": "bool"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "principal",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "toggle-escrow-system": {
+    "name": "toggle-escrow-system",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface CreateEscrowArgs {
+  beneficiary: string;
+  amount: IntegerInput;
+  duration: IntegerInput;
+  exchangeId: IntegerInput | null;
+}
+
+export type CreateEscrowResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (create-escrow (beneficiary principal) (amount uint) (duration uint) (exchange-id (optional uint))))
+ */
+export const createEscrowCall = (args: CreateEscrowArgs): ContractCall<CreateEscrowResult> =>
+  contractCall(CONTRACT_NAME, abi["create-escrow"], args);
+
+export type DeactivateMediatorResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (deactivate-mediator))
+ */
+export const deactivateMediatorCall = (): ContractCall<DeactivateMediatorResult> =>
+  contractCall(CONTRACT_NAME, abi["deactivate-mediator"]);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetEscrowInfoArgs {
+  escrowId: IntegerInput;
+}
+
+export type GetEscrowInfoResult = {
+  amount: bigint;
+  beneficiary: string;
+  createdAt: bigint;
+  depositor: string;
+  disputeMediator: string | null;
+  exchangeId: bigint | null;
+  expiresAt: bigint;
+  mediatorDecision: boolean | null;
+  releasedAt: bigint | null;
+  state: string;
+} | null;
+
+/**
+ * (define-read-only (get-escrow-info (escrow-id uint)))
+ */
+export const getEscrowInfoCall = (args: GetEscrowInfoArgs): ContractCall<GetEscrowInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-escrow-info"], args);
+
+export const getEscrowInfo = (caller: ReadOnlyCaller, args: GetEscrowInfoArgs): Promise<GetEscrowInfoResult> =>
+  callReadOnly(caller, getEscrowInfoCall(args));
+
+export type GetEscrowStatsResult = ClarityResponse<{
+  escrowEnabled: boolean;
+  nextEscrowId: bigint;
+  totalCompletedEscrows: bigint;
+  totalDisputedEscrows: bigint;
+  totalEscrowedAmount: bigint;
+  totalEscrows: bigint;
+}, null>;
+
+/**
+ * (define-read-only (get-escrow-stats))
+ */
+export const getEscrowStatsCall = (): ContractCall<GetEscrowStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-escrow-stats"]);
+
+export const getEscrowStats = (caller: ReadOnlyCaller): Promise<GetEscrowStatsResult> =>
+  callReadOnly(caller, getEscrowStatsCall());
+
+export interface GetMediatorInfoArgs {
+  mediator: string;
+}
+
+export type GetMediatorInfoResult = {
+  isActive: boolean;
+  joinedAt: bigint;
+  successfulResolutions: bigint;
+  totalCases: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-mediator-info (mediator principal)))
+ */
+export const getMediatorInfoCall = (args: GetMediatorInfoArgs): ContractCall<GetMediatorInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-mediator-info"], args);
+
+export const getMediatorInfo = (caller: ReadOnlyCaller, args: GetMediatorInfoArgs): Promise<GetMediatorInfoResult> =>
+  callReadOnly(caller, getMediatorInfoCall(args));
+
+export interface GetUserEscrowsArgs {
+  user: string;
+}
+
+export type GetUserEscrowsResult = ClarityResponse<Array<bigint>, null>;
+
+/**
+ * (define-read-only (get-user-escrows (user principal)))
+ */
+export const getUserEscrowsCall = (args: GetUserEscrowsArgs): ContractCall<GetUserEscrowsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-escrows"], args);
+
+export const getUserEscrows = (caller: ReadOnlyCaller, args: GetUserEscrowsArgs): Promise<GetUserEscrowsResult> =>
+  callReadOnly(caller, getUserEscrowsCall(args));
+
+export interface IsEscrowExpiredArgs {
+  escrowId: IntegerInput;
+}
+
+export type IsEscrowExpiredResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-read-only (is-escrow-expired (escrow-id uint)))
+ */
+export const isEscrowExpiredCall = (args: IsEscrowExpiredArgs): ContractCall<IsEscrowExpiredResult> =>
+  contractCall(CONTRACT_NAME, abi["is-escrow-expired"], args);
+
+export const isEscrowExpired = (caller: ReadOnlyCaller, args: IsEscrowExpiredArgs): Promise<IsEscrowExpiredResult> =>
+  callReadOnly(caller, isEscrowExpiredCall(args));
+
+export interface OpenDisputeArgs {
+  escrowId: IntegerInput;
+  mediator: string;
+}
+
+export type OpenDisputeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (open-dispute (escrow-id uint) (mediator principal)))
+ */
+export const openDisputeCall = (args: OpenDisputeArgs): ContractCall<OpenDisputeResult> =>
+  contractCall(CONTRACT_NAME, abi["open-dispute"], args);
+
+export interface RefundExpiredEscrowArgs {
+  escrowId: IntegerInput;
+}
+
+export type RefundExpiredEscrowResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (refund-expired-escrow (escrow-id uint)))
+ */
+export const refundExpiredEscrowCall = (args: RefundExpiredEscrowArgs): ContractCall<RefundExpiredEscrowResult> =>
+  contractCall(CONTRACT_NAME, abi["refund-expired-escrow"], args);
+
+export type RegisterMediatorResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (register-mediator))
+ */
+export const registerMediatorCall = (): ContractCall<RegisterMediatorResult> =>
+  contractCall(CONTRACT_NAME, abi["register-mediator"]);
+
+export interface ReleaseEscrowArgs {
+  escrowId: IntegerInput;
+}
+
+export type ReleaseEscrowResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (release-escrow (escrow-id uint)))
+ */
+export const releaseEscrowCall = (args: ReleaseEscrowArgs): ContractCall<ReleaseEscrowResult> =>
+  contractCall(CONTRACT_NAME, abi["release-escrow"], args);
+
+export interface ResolveDisputeArgs {
+  escrowId: IntegerInput;
+  favorBeneficiary: boolean;
+}
+
+export type ResolveDisputeResult = ClarityResponse<string, bigint>;
+
+/**
+ * (define-public (resolve-dispute (escrow-id uint) (favor-beneficiary bool)))
+ */
+export const resolveDisputeCall = (args: ResolveDisputeArgs): ContractCall<ResolveDisputeResult> =>
+  contractCall(CONTRACT_NAME, abi["resolve-dispute"], args);
+
+export type ToggleEscrowSystemResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (toggle-escrow-system))
+ */
+export const toggleEscrowSystemCall = (): ContractCall<ToggleEscrowSystemResult> =>
+  contractCall(CONTRACT_NAME, abi["toggle-escrow-system"]);
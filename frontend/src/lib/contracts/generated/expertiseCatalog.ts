@@ -0,0 +1,658 @@
+// Generated by scripts/generate-contract-bindings.ts from the expertise-catalog ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "expertise-catalog";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "approve-skill-template": {
+    "name": "approve-skill-template",
+    "access": "public",
+    "args": [
+      {
+        "name": "template-name",
+        "type": {
+          "string-ascii": {
+            "length": 50
+          }
+        }
+      },
+      {
+        "name": "template-contract",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "buffer": {
+              "length": 32
+            }
+          },
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-registry-stats": {
+    "name": "get-registry-stats",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "min-verifications-required",
+                "type": "uint128"
+              },
+              {
+                "name": "min-verifier-reputation",
+                "type": "uint128"
+              },
+              {
+                "name": "next-skill-id",
+                "type": "uint128"
+              },
+              {
+                "name": "registration-enabled",
+                "type": "bool"
+              },
+              {
+                "name": "total-skills-registered",
+                "type": "uint128"
+              },
+              {
+                "name": "total-verified-skills",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-skill-hourly-rate": {
+    "name": "get-skill-hourly-rate",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-skill-info": {
+    "name": "get-skill-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "category",
+              "type": {
+                "string-ascii": {
+                  "length": 20
+                }
+              }
+            },
+            {
+              "name": "description",
+              "type": {
+                "string-ascii": {
+                  "length": 200
+                }
+              }
+            },
+            {
+              "name": "hourly-rate",
+              "type": "uint128"
+            },
+            {
+              "name": "is-verified",
+              "type": "bool"
+            },
+            {
+              "name": "registered-at",
+              "type": "uint128"
+            },
+            {
+              "name": "skill-name",
+              "type": {
+                "string-ascii": {
+                  "length": 50
+                }
+              }
+            },
+            {
+              "name": "total-services-provided",
+              "type": "uint128"
+            },
+            {
+              "name": "verification-count",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-user-skill-count": {
+    "name": "get-user-skill-count",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-verification-info": {
+    "name": "get-verification-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "verifier",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "verification-note",
+              "type": {
+                "string-ascii": {
+                  "length": 100
+                }
+              }
+            },
+            {
+              "name": "verified-at",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-verified-template": {
+    "name": "get-verified-template",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "template-name",
+        "type": {
+          "string-ascii": {
+            "length": 50
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "approved-at",
+              "type": "uint128"
+            },
+            {
+              "name": "creator",
+              "type": "principal"
+            },
+            {
+              "name": "template-hash",
+              "type": {
+                "buffer": {
+                  "length": 32
+                }
+              }
+            }
+          ]
+        }
+      }
+    }
+  },
+  "increment-service-count": {
+    "name": "increment-service-count",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "is-skill-verified": {
+    "name": "is-skill-verified",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "register-skill": {
+    "name": "register-skill",
+    "access": "public",
+    "args": [
+      {
+        "name": "skill-name",
+        "type": {
+          "string-ascii": {
+            "length": 50
+          }
+        }
+      },
+      {
+        "name": "category",
+        "type": {
+          "string-ascii": {
+            "length": 20
+          }
+        }
+      },
+      {
+        "name": "description",
+        "type": {
+          "string-ascii": {
+            "length": 200
+          }
+        }
+      },
+      {
+        "name": "hourly-rate",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "toggle-registration": {
+    "name": "toggle-registration",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "update-skill-rate": {
+    "name": "update-skill-rate",
+    "access": "public",
+    "args": [
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "new-rate",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "verify-skill": {
+    "name": "verify-skill",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "verification-note",
+        "type": {
+          "string-ascii": {
+            "length": 100
+          }
+        }
+      },
+      {
+        "name": "core-contract",
+        "type": "trait_reference"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface ApproveSkillTemplateArgs {
+  templateName: string;
+  templateContract: string;
+}
+
+export type ApproveSkillTemplateResult = ClarityResponse<string, bigint>;
+
+/**
+ * (define-public (approve-skill-template (template-name (string-ascii 50)) (template-contract principal)))
+ */
+export const approveSkillTemplateCall = (args: ApproveSkillTemplateArgs): ContractCall<ApproveSkillTemplateResult> =>
+  contractCall(CONTRACT_NAME, abi["approve-skill-template"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export type GetRegistryStatsResult = ClarityResponse<{
+  minVerificationsRequired: bigint;
+  minVerifierReputation: bigint;
+  nextSkillId: bigint;
+  registrationEnabled: boolean;
+  totalSkillsRegistered: bigint;
+  totalVerifiedSkills: bigint;
+}, null>;
+
+/**
+ * (define-read-only (get-registry-stats))
+ */
+export const getRegistryStatsCall = (): ContractCall<GetRegistryStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-registry-stats"]);
+
+export const getRegistryStats = (caller: ReadOnlyCaller): Promise<GetRegistryStatsResult> =>
+  callReadOnly(caller, getRegistryStatsCall());
+
+export interface GetSkillHourlyRateArgs {
+  user: string;
+  skillId: IntegerInput;
+}
+
+export type GetSkillHourlyRateResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-read-only (get-skill-hourly-rate (user principal) (skill-id uint)))
+ */
+export const getSkillHourlyRateCall = (args: GetSkillHourlyRateArgs): ContractCall<GetSkillHourlyRateResult> =>
+  contractCall(CONTRACT_NAME, abi["get-skill-hourly-rate"], args);
+
+export const getSkillHourlyRate = (caller: ReadOnlyCaller, args: GetSkillHourlyRateArgs): Promise<GetSkillHourlyRateResult> =>
+  callReadOnly(caller, getSkillHourlyRateCall(args));
+
+export interface GetSkillInfoArgs {
+  user: string;
+  skillId: IntegerInput;
+}
+
+export type GetSkillInfoResult = {
+  category: string;
+  description: string;
+  hourlyRate: bigint;
+  isVerified: boolean;
+  registeredAt: bigint;
+  skillName: string;
+  totalServicesProvided: bigint;
+  verificationCount: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-skill-info (user principal) (skill-id uint)))
+ */
+export const getSkillInfoCall = (args: GetSkillInfoArgs): ContractCall<GetSkillInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-skill-info"], args);
+
+export const getSkillInfo = (caller: ReadOnlyCaller, args: GetSkillInfoArgs): Promise<GetSkillInfoResult> =>
+  callReadOnly(caller, getSkillInfoCall(args));
+
+export interface GetUserSkillCountArgs {
+  user: string;
+}
+
+export type GetUserSkillCountResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-user-skill-count (user principal)))
+ */
+export const getUserSkillCountCall = (args: GetUserSkillCountArgs): ContractCall<GetUserSkillCountResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-skill-count"], args);
+
+export const getUserSkillCount = (caller: ReadOnlyCaller, args: GetUserSkillCountArgs): Promise<GetUserSkillCountResult> =>
+  callReadOnly(caller, getUserSkillCountCall(args));
+
+export interface GetVerificationInfoArgs {
+  user: string;
+  skillId: IntegerInput;
+  verifier: string;
+}
+
+export type GetVerificationInfoResult = {
+  verificationNote: string;
+  verifiedAt: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-verification-info (user principal) (skill-id uint) (verifier principal)))
+ */
+export const getVerificationInfoCall = (args: GetVerificationInfoArgs): ContractCall<GetVerificationInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-verification-info"], args);
+
+export const getVerificationInfo = (caller: ReadOnlyCaller, args: GetVerificationInfoArgs): Promise<GetVerificationInfoResult> =>
+  callReadOnly(caller, getVerificationInfoCall(args));
+
+export interface GetVerifiedTemplateArgs {
+  templateName: string;
+}
+
+export type GetVerifiedTemplateResult = {
+  approvedAt: bigint;
+  creator: string;
+  templateHash: string;
+} | null;
+
+/**
+ * (define-read-only (get-verified-template (template-name (string-ascii 50))))
+ */
+export const getVerifiedTemplateCall = (args: GetVerifiedTemplateArgs): ContractCall<GetVerifiedTemplateResult> =>
+  contractCall(CONTRACT_NAME, abi["get-verified-template"], args);
+
+export const getVerifiedTemplate = (caller: ReadOnlyCaller, args: GetVerifiedTemplateArgs): Promise<GetVerifiedTemplateResult> =>
+  callReadOnly(caller, getVerifiedTemplateCall(args));
+
+export interface IncrementServiceCountArgs {
+  user: string;
+  skillId: IntegerInput;
+}
+
+export type IncrementServiceCountResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (increment-service-count (user principal) (skill-id uint)))
+ */
+export const incrementServiceCountCall = (args: IncrementServiceCountArgs): ContractCall<IncrementServiceCountResult> =>
+  contractCall(CONTRACT_NAME, abi["increment-service-count"], args);
+
+export interface IsSkillVerifiedArgs {
+  user: string;
+  skillId: IntegerInput;
+}
+
+export type IsSkillVerifiedResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (is-skill-verified (user principal) (skill-id uint)))
+ */
+export const isSkillVerifiedCall = (args: IsSkillVerifiedArgs): ContractCall<IsSkillVerifiedResult> =>
+  contractCall(CONTRACT_NAME, abi["is-skill-verified"], args);
+
+export const isSkillVerified = (caller: ReadOnlyCaller, args: IsSkillVerifiedArgs): Promise<IsSkillVerifiedResult> =>
+  callReadOnly(caller, isSkillVerifiedCall(args));
+
+export interface RegisterSkillArgs {
+  skillName: string;
+  category: string;
+  description: string;
+  hourlyRate: IntegerInput;
+}
+
+export type RegisterSkillResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (register-skill (skill-name (string-ascii 50)) (category (string-ascii 20)) (description (string-ascii 200)) (hourly-rate uint)))
+ */
+export const registerSkillCall = (args: RegisterSkillArgs): ContractCall<RegisterSkillResult> =>
+  contractCall(CONTRACT_NAME, abi["register-skill"], args);
+
+export type ToggleRegistrationResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (toggle-registration))
+ */
+export const toggleRegistrationCall = (): ContractCall<ToggleRegistrationResult> =>
+  contractCall(CONTRACT_NAME, abi["toggle-registration"]);
+
+export interface UpdateSkillRateArgs {
+  skillId: IntegerInput;
+  newRate: IntegerInput;
+}
+
+export type UpdateSkillRateResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (update-skill-rate (skill-id uint) (new-rate uint)))
+ */
+export const updateSkillRateCall = (args: UpdateSkillRateArgs): ContractCall<UpdateSkillRateResult> =>
+  contractCall(CONTRACT_NAME, abi["update-skill-rate"], args);
+
+export interface VerifySkillArgs {
+  user: string;
+  skillId: IntegerInput;
+  verificationNote: string;
+  coreContract: string;
+}
+
+export type VerifySkillResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (verify-skill (user principal) (skill-id uint) (verification-note (string-ascii 100)) (core-contract trait_reference)))
+ */
+export const verifySkillCall = (args: VerifySkillArgs): ContractCall<VerifySkillResult> =>
+  contractCall(CONTRACT_NAME, abi["verify-skill"], args);
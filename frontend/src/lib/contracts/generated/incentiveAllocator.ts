@@ -0,0 +1,545 @@
+// Generated by scripts/generate-contract-bindings.ts from the incentive-allocator ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "incentive-allocator";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "claim-reward": {
+    "name": "claim-reward",
+    "access": "public",
+    "args": [
+      {
+        "name": "period-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "contribute-to-pool": {
+    "name": "contribute-to-pool",
+    "access": "public",
+    "args": [
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "finalize-period": {
+    "name": "finalize-period",
+    "access": "public",
+    "args": [
+      {
+        "name": "period-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-lifetime-rewards": {
+    "name": "get-lifetime-rewards",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "highest-tier",
+              "type": "uint128"
+            },
+            {
+              "name": "last-claim",
+              "type": "uint128"
+            },
+            {
+              "name": "total-claimed",
+              "type": "uint128"
+            },
+            {
+              "name": "total-periods",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-period-info": {
+    "name": "get-period-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "period-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "distributed-amount",
+              "type": "uint128"
+            },
+            {
+              "name": "end-time",
+              "type": "uint128"
+            },
+            {
+              "name": "is-finalized",
+              "type": "bool"
+            },
+            {
+              "name": "period-id",
+              "type": "uint128"
+            },
+            {
+              "name": "start-time",
+              "type": "uint128"
+            },
+            {
+              "name": "total-participants",
+              "type": "uint128"
+            },
+            {
+              "name": "total-pool",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-pool-contribution": {
+    "name": "get-pool-contribution",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "contributor",
+        "type": "principal"
+      },
+      {
+        "name": "period-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-rewards-stats": {
+    "name": "get-rewards-stats",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "base-reward-amount",
+                "type": "uint128"
+              },
+              {
+                "name": "current-period-id",
+                "type": "uint128"
+              },
+              {
+                "name": "min-activity-score",
+                "type": "uint128"
+              },
+              {
+                "name": "reward-period",
+                "type": "uint128"
+              },
+              {
+                "name": "rewards-enabled",
+                "type": "bool"
+              },
+              {
+                "name": "total-distributed",
+                "type": "uint128"
+              },
+              {
+                "name": "total-reward-pool",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-user-reward": {
+    "name": "get-user-reward",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "period-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "activity-score",
+              "type": "uint128"
+            },
+            {
+              "name": "calculated-reward",
+              "type": "uint128"
+            },
+            {
+              "name": "claimed",
+              "type": "bool"
+            },
+            {
+              "name": "claimed-at",
+              "type": {
+                "optional": "uint128"
+              }
+            },
+            {
+              "name": "reward-tier",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "is-eligible-for-rewards": {
+    "name": "is-eligible-for-rewards",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "period-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "register-activity": {
+    "name": "register-activity",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "activity-score",
+        "type": "uint128"
+      },
+      {
+        "name": "period-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "start-new-period": {
+    "name": "start-new-period",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "toggle-rewards-system": {
+    "name": "toggle-rewards-system",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface ClaimRewardArgs {
+  periodId: IntegerInput;
+}
+
+export type ClaimRewardResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (claim-reward (period-id uint)))
+ */
+export const claimRewardCall = (args: ClaimRewardArgs): ContractCall<ClaimRewardResult> =>
+  contractCall(CONTRACT_NAME, abi["claim-reward"], args);
+
+export interface ContributeToPoolArgs {
+  amount: IntegerInput;
+}
+
+export type ContributeToPoolResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (contribute-to-pool (amount uint)))
+ */
+export const contributeToPoolCall = (args: ContributeToPoolArgs): ContractCall<ContributeToPoolResult> =>
+  contractCall(CONTRACT_NAME, abi["contribute-to-pool"], args);
+
+export interface FinalizePeriodArgs {
+  periodId: IntegerInput;
+}
+
+export type FinalizePeriodResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (finalize-period (period-id uint)))
+ */
+export const finalizePeriodCall = (args: FinalizePeriodArgs): ContractCall<FinalizePeriodResult> =>
+  contractCall(CONTRACT_NAME, abi["finalize-period"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetLifetimeRewardsArgs {
+  user: string;
+}
+
+export type GetLifetimeRewardsResult = {
+  highestTier: bigint;
+  lastClaim: bigint;
+  totalClaimed: bigint;
+  totalPeriods: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-lifetime-rewards (user principal)))
+ */
+export const getLifetimeRewardsCall = (args: GetLifetimeRewardsArgs): ContractCall<GetLifetimeRewardsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-lifetime-rewards"], args);
+
+export const getLifetimeRewards = (caller: ReadOnlyCaller, args: GetLifetimeRewardsArgs): Promise<GetLifetimeRewardsResult> =>
+  callReadOnly(caller, getLifetimeRewardsCall(args));
+
+export interface GetPeriodInfoArgs {
+  periodId: IntegerInput;
+}
+
+export type GetPeriodInfoResult = {
+  distributedAmount: bigint;
+  endTime: bigint;
+  isFinalized: boolean;
+  periodId: bigint;
+  startTime: bigint;
+  totalParticipants: bigint;
+  totalPool: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-period-info (period-id uint)))
+ */
+export const getPeriodInfoCall = (args: GetPeriodInfoArgs): ContractCall<GetPeriodInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-period-info"], args);
+
+export const getPeriodInfo = (caller: ReadOnlyCaller, args: GetPeriodInfoArgs): Promise<GetPeriodInfoResult> =>
+  callReadOnly(caller, getPeriodInfoCall(args));
+
+export interface GetPoolContributionArgs {
+  contributor: string;
+  periodId: IntegerInput;
+}
+
+export type GetPoolContributionResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-pool-contribution (contributor principal) (period-id uint)))
+ */
+export const getPoolContributionCall = (args: GetPoolContributionArgs): ContractCall<GetPoolContributionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-pool-contribution"], args);
+
+export const getPoolContribution = (caller: ReadOnlyCaller, args: GetPoolContributionArgs): Promise<GetPoolContributionResult> =>
+  callReadOnly(caller, getPoolContributionCall(args));
+
+export type GetRewardsStatsResult = ClarityResponse<{
+  baseRewardAmount: bigint;
+  currentPeriodId: bigint;
+  minActivityScore: bigint;
+  rewardPeriod: bigint;
+  rewardsEnabled: boolean;
+  totalDistributed: bigint;
+  totalRewardPool: bigint;
+}, null>;
+
+/**
+ * (define-read-only (get-rewards-stats))
+ */
+export const getRewardsStatsCall = (): ContractCall<GetRewardsStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-rewards-stats"]);
+
+export const getRewardsStats = (caller: ReadOnlyCaller): Promise<GetRewardsStatsResult> =>
+  callReadOnly(caller, getRewardsStatsCall());
+
+export interface GetUserRewardArgs {
+  user: string;
+  periodId: IntegerInput;
+}
+
+export type GetUserRewardResult = {
+  activityScore: bigint;
+  calculatedReward: bigint;
+  claimed: boolean;
+  claimedAt: bigint | null;
+  rewardTier: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-user-reward (user principal) (period-id uint)))
+ */
+export const getUserRewardCall = (args: GetUserRewardArgs): ContractCall<GetUserRewardResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-reward"], args);
+
+export const getUserReward = (caller: ReadOnlyCaller, args: GetUserRewardArgs): Promise<GetUserRewardResult> =>
+  callReadOnly(caller, getUserRewardCall(args));
+
+export interface IsEligibleForRewardsArgs {
+  user: string;
+  periodId: IntegerInput;
+}
+
+export type IsEligibleForRewardsResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (is-eligible-for-rewards (user principal) (period-id uint)))
+ */
+export const isEligibleForRewardsCall = (args: IsEligibleForRewardsArgs): ContractCall<IsEligibleForRewardsResult> =>
+  contractCall(CONTRACT_NAME, abi["is-eligible-for-rewards"], args);
+
+export const isEligibleForRewards = (caller: ReadOnlyCaller, args: IsEligibleForRewardsArgs): Promise<IsEligibleForRewardsResult> =>
+  callReadOnly(caller, isEligibleForRewardsCall(args));
+
+export interface RegisterActivityArgs {
+  user: string;
+  activityScore: IntegerInput;
+  periodId: IntegerInput;
+}
+
+export type RegisterActivityResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (register-activity (user principal) (activity-score uint) (period-id uint)))
+ */
+export const registerActivityCall = (args: RegisterActivityArgs): ContractCall<RegisterActivityResult> =>
+  contractCall(CONTRACT_NAME, abi["register-activity"], args);
+
+export type StartNewPeriodResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (start-new-period))
+ */
+export const startNewPeriodCall = (): ContractCall<StartNewPeriodResult> =>
+  contractCall(CONTRACT_NAME, abi["start-new-period"]);
+
+export type ToggleRewardsSystemResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (toggle-rewards-system))
+ */
+export const toggleRewardsSystemCall = (): ContractCall<ToggleRewardsSystemResult> =>
+  contractCall(CONTRACT_NAME, abi["toggle-rewards-system"]);
@@ -0,0 +1,19 @@
+// Generated by scripts/generate-contract-bindings.ts. Do not edit by hand.
+
+export * as analyticsTracker from './analyticsTracker';
+export * as automationScheduler from './automationScheduler';
+export * as communityCouncil from './communityCouncil';
+export * as disputeArbitration from './disputeArbitration';
+export * as emergencyControls from './emergencyControls';
+export * as escrowGuardian from './escrowGuardian';
+export * as expertiseCatalog from './expertiseCatalog';
+export * as incentiveAllocator from './incentiveAllocator';
+export * as insurancePool from './insurancePool';
+export * as multiSigWallet from './multiSigWallet';
+export * as referralProgram from './referralProgram';
+export * as serviceCoordinator from './serviceCoordinator';
+export * as skillCertificationNft from './skillCertificationNft';
+export * as skillMatchingEngine from './skillMatchingEngine';
+export * as timeTokenFt from './timeTokenFt';
+export * as timebankFoundation from './timebankFoundation';
+export * as trustRegistry from './trustRegistry';
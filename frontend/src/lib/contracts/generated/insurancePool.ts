@@ -0,0 +1,350 @@
+// Generated by scripts/generate-contract-bindings.ts from the insurance-pool ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "insurance-pool";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "contribute-to-pool": {
+    "name": "contribute-to-pool",
+    "access": "public",
+    "args": [
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "file-claim": {
+    "name": "file-claim",
+    "access": "public",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-claim-info": {
+    "name": "get-claim-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "claim-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "amount",
+                  "type": "uint128"
+                },
+                {
+                  "name": "claimant",
+                  "type": "principal"
+                },
+                {
+                  "name": "exchange-id",
+                  "type": "uint128"
+                },
+                {
+                  "name": "filed-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "reviewed-at",
+                  "type": {
+                    "optional": "uint128"
+                  }
+                },
+                {
+                  "name": "status",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-contributor-info": {
+    "name": "get-contributor-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "contributor",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "coverage-amount",
+                  "type": "uint128"
+                },
+                {
+                  "name": "is-active",
+                  "type": "bool"
+                },
+                {
+                  "name": "joined-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "total-contributed",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-pool-balance": {
+    "name": "get-pool-balance",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "pay-claim": {
+    "name": "pay-claim",
+    "access": "public",
+    "args": [
+      {
+        "name": "claim-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "register-underwriter": {
+    "name": "register-underwriter",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "review-claim": {
+    "name": "review-claim",
+    "access": "public",
+    "args": [
+      {
+        "name": "claim-id",
+        "type": "uint128"
+      },
+      {
+        "name": "approved",
+        "type": "bool"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface ContributeToPoolArgs {
+  amount: IntegerInput;
+}
+
+export type ContributeToPoolResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (contribute-to-pool (amount uint)))
+ */
+export const contributeToPoolCall = (args: ContributeToPoolArgs): ContractCall<ContributeToPoolResult> =>
+  contractCall(CONTRACT_NAME, abi["contribute-to-pool"], args);
+
+export interface FileClaimArgs {
+  exchangeId: IntegerInput;
+  amount: IntegerInput;
+}
+
+export type FileClaimResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (file-claim (exchange-id uint) (amount uint)))
+ */
+export const fileClaimCall = (args: FileClaimArgs): ContractCall<FileClaimResult> =>
+  contractCall(CONTRACT_NAME, abi["file-claim"], args);
+
+export interface GetClaimInfoArgs {
+  claimId: IntegerInput;
+}
+
+export type GetClaimInfoResult = ClarityResponse<{
+  amount: bigint;
+  claimant: string;
+  exchangeId: bigint;
+  filedAt: bigint;
+  reviewedAt: bigint | null;
+  status: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-claim-info (claim-id uint)))
+ */
+export const getClaimInfoCall = (args: GetClaimInfoArgs): ContractCall<GetClaimInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-claim-info"], args);
+
+export const getClaimInfo = (caller: ReadOnlyCaller, args: GetClaimInfoArgs): Promise<GetClaimInfoResult> =>
+  callReadOnly(caller, getClaimInfoCall(args));
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetContributorInfoArgs {
+  contributor: string;
+}
+
+export type GetContributorInfoResult = ClarityResponse<{
+  coverageAmount: bigint;
+  isActive: boolean;
+  joinedAt: bigint;
+  totalContributed: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-contributor-info (contributor principal)))
+ */
+export const getContributorInfoCall = (args: GetContributorInfoArgs): ContractCall<GetContributorInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contributor-info"], args);
+
+export const getContributorInfo = (caller: ReadOnlyCaller, args: GetContributorInfoArgs): Promise<GetContributorInfoResult> =>
+  callReadOnly(caller, getContributorInfoCall(args));
+
+export type GetPoolBalanceResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-pool-balance))
+ */
+export const getPoolBalanceCall = (): ContractCall<GetPoolBalanceResult> =>
+  contractCall(CONTRACT_NAME, abi["get-pool-balance"]);
+
+export const getPoolBalance = (caller: ReadOnlyCaller): Promise<GetPoolBalanceResult> =>
+  callReadOnly(caller, getPoolBalanceCall());
+
+export interface PayClaimArgs {
+  claimId: IntegerInput;
+}
+
+export type PayClaimResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (pay-claim (claim-id uint)))
+ */
+export const payClaimCall = (args: PayClaimArgs): ContractCall<PayClaimResult> =>
+  contractCall(CONTRACT_NAME, abi["pay-claim"], args);
+
+export type RegisterUnderwriterResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (register-underwriter))
+ */
+export const registerUnderwriterCall = (): ContractCall<RegisterUnderwriterResult> =>
+  contractCall(CONTRACT_NAME, abi["register-underwriter"]);
+
+export interface ReviewClaimArgs {
+  claimId: IntegerInput;
+  approved: boolean;
+}
+
+export type ReviewClaimResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (review-claim (claim-id uint) (approved bool)))
+ */
+export const reviewClaimCall = (args: ReviewClaimArgs): ContractCall<ReviewClaimResult> =>
+  contractCall(CONTRACT_NAME, abi["review-claim"], args);
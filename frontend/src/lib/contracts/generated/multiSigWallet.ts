@@ -0,0 +1,324 @@
+// Generated by scripts/generate-contract-bindings.ts from the multi-sig-wallet ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "multi-sig-wallet";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "add-signer": {
+    "name": "add-signer",
+    "access": "public",
+    "args": [
+      {
+        "name": "new-signer",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "create-proposal": {
+    "name": "create-proposal",
+    "access": "public",
+    "args": [
+      {
+        "name": "recipient",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "execute-proposal": {
+    "name": "execute-proposal",
+    "access": "public",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-proposal": {
+    "name": "get-proposal",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "amount",
+                  "type": {
+                    "optional": "uint128"
+                  }
+                },
+                {
+                  "name": "created-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "execute-after",
+                  "type": "uint128"
+                },
+                {
+                  "name": "executed",
+                  "type": "bool"
+                },
+                {
+                  "name": "proposer",
+                  "type": "principal"
+                },
+                {
+                  "name": "recipient",
+                  "type": {
+                    "optional": "principal"
+                  }
+                },
+                {
+                  "name": "signatures-count",
+                  "type": "uint128"
+                },
+                {
+                  "name": "signatures-required",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "has-signed": {
+    "name": "has-signed",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      },
+      {
+        "name": "signer",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-signer": {
+    "name": "is-signer",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "sign-proposal": {
+    "name": "sign-proposal",
+    "access": "public",
+    "args": [
+      {
+        "name": "proposal-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface AddSignerArgs {
+  newSigner: string;
+}
+
+export type AddSignerResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (add-signer (new-signer principal)))
+ */
+export const addSignerCall = (args: AddSignerArgs): ContractCall<AddSignerResult> =>
+  contractCall(CONTRACT_NAME, abi["add-signer"], args);
+
+export interface CreateProposalArgs {
+  recipient: string;
+  amount: IntegerInput;
+}
+
+export type CreateProposalResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (create-proposal (recipient principal) (amount uint)))
+ */
+export const createProposalCall = (args: CreateProposalArgs): ContractCall<CreateProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["create-proposal"], args);
+
+export interface ExecuteProposalArgs {
+  proposalId: IntegerInput;
+}
+
+export type ExecuteProposalResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (execute-proposal (proposal-id uint)))
+ */
+export const executeProposalCall = (args: ExecuteProposalArgs): ContractCall<ExecuteProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["execute-proposal"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetProposalArgs {
+  proposalId: IntegerInput;
+}
+
+export type GetProposalResult = ClarityResponse<{
+  amount: bigint | null;
+  createdAt: bigint;
+  executeAfter: bigint;
+  executed: boolean;
+  proposer: string;
+  recipient: string | null;
+  signaturesCount: bigint;
+  signaturesRequired: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-proposal (proposal-id uint)))
+ */
+export const getProposalCall = (args: GetProposalArgs): ContractCall<GetProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["get-proposal"], args);
+
+export const getProposal = (caller: ReadOnlyCaller, args: GetProposalArgs): Promise<GetProposalResult> =>
+  callReadOnly(caller, getProposalCall(args));
+
+export interface HasSignedArgs {
+  proposalId: IntegerInput;
+  signer: string;
+}
+
+export type HasSignedResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (has-signed (proposal-id uint) (signer principal)))
+ */
+export const hasSignedCall = (args: HasSignedArgs): ContractCall<HasSignedResult> =>
+  contractCall(CONTRACT_NAME, abi["has-signed"], args);
+
+export const hasSigned = (caller: ReadOnlyCaller, args: HasSignedArgs): Promise<HasSignedResult> =>
+  callReadOnly(caller, hasSignedCall(args));
+
+export interface IsSignerArgs {
+  user: string;
+}
+
+export type IsSignerResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (is-signer (user principal)))
+ */
+export const isSignerCall = (args: IsSignerArgs): ContractCall<IsSignerResult> =>
+  contractCall(CONTRACT_NAME, abi["is-signer"], args);
+
+export const isSigner = (caller: ReadOnlyCaller, args: IsSignerArgs): Promise<IsSignerResult> =>
+  callReadOnly(caller, isSignerCall(args));
+
+export interface SignProposalArgs {
+  proposalId: IntegerInput;
+}
+
+export type SignProposalResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (sign-proposal (proposal-id uint)))
+ */
+export const signProposalCall = (args: SignProposalArgs): ContractCall<SignProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["sign-proposal"], args);
@@ -0,0 +1,249 @@
+// Generated by scripts/generate-contract-bindings.ts from the referral-program ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "referral-program";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "generate-code": {
+    "name": "generate-code",
+    "access": "public",
+    "args": [
+      {
+        "name": "code",
+        "type": {
+          "string-ascii": {
+            "length": 20
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 20
+            }
+          },
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-code-owner": {
+    "name": "get-code-owner",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "code",
+        "type": {
+          "string-ascii": {
+            "length": 20
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": "principal"
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-total-referrals": {
+    "name": "get-total-referrals",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-user-data": {
+    "name": "get-user-data",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "created-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "referral-code",
+                  "type": {
+                    "string-ascii": {
+                      "length": 20
+                    }
+                  }
+                },
+                {
+                  "name": "referrer",
+                  "type": {
+                    "optional": "principal"
+                  }
+                },
+                {
+                  "name": "total-referrals",
+                  "type": "uint128"
+                },
+                {
+                  "name": "total-rewards",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "use-code": {
+    "name": "use-code",
+    "access": "public",
+    "args": [
+      {
+        "name": "code",
+        "type": {
+          "string-ascii": {
+            "length": 20
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface GenerateCodeArgs {
+  code: string;
+}
+
+export type GenerateCodeResult = ClarityResponse<string, bigint>;
+
+/**
+ * (define-public (generate-code (code (string-ascii 20))))
+ */
+export const generateCodeCall = (args: GenerateCodeArgs): ContractCall<GenerateCodeResult> =>
+  contractCall(CONTRACT_NAME, abi["generate-code"], args);
+
+export interface GetCodeOwnerArgs {
+  code: string;
+}
+
+export type GetCodeOwnerResult = ClarityResponse<string | null, null>;
+
+/**
+ * (define-read-only (get-code-owner (code (string-ascii 20))))
+ */
+export const getCodeOwnerCall = (args: GetCodeOwnerArgs): ContractCall<GetCodeOwnerResult> =>
+  contractCall(CONTRACT_NAME, abi["get-code-owner"], args);
+
+export const getCodeOwner = (caller: ReadOnlyCaller, args: GetCodeOwnerArgs): Promise<GetCodeOwnerResult> =>
+  callReadOnly(caller, getCodeOwnerCall(args));
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export type GetTotalReferralsResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-total-referrals))
+ */
+export const getTotalReferralsCall = (): ContractCall<GetTotalReferralsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-total-referrals"]);
+
+export const getTotalReferrals = (caller: ReadOnlyCaller): Promise<GetTotalReferralsResult> =>
+  callReadOnly(caller, getTotalReferralsCall());
+
+export interface GetUserDataArgs {
+  user: string;
+}
+
+export type GetUserDataResult = ClarityResponse<{
+  createdAt: bigint;
+  referralCode: string;
+  referrer: string | null;
+  totalReferrals: bigint;
+  totalRewards: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-user-data (user principal)))
+ */
+export const getUserDataCall = (args: GetUserDataArgs): ContractCall<GetUserDataResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-data"], args);
+
+export const getUserData = (caller: ReadOnlyCaller, args: GetUserDataArgs): Promise<GetUserDataResult> =>
+  callReadOnly(caller, getUserDataCall(args));
+
+export interface UseCodeArgs {
+  code: string;
+}
+
+export type UseCodeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (use-code (code (string-ascii 20))))
+ */
+export const useCodeCall = (args: UseCodeArgs): ContractCall<UseCodeResult> =>
+  contractCall(CONTRACT_NAME, abi["use-code"], args);
@@ -0,0 +1,631 @@
+// Generated by scripts/generate-contract-bindings.ts from the service-coordinator ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "service-coordinator";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "accept-exchange": {
+    "name": "accept-exchange",
+    "access": "public",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "cancel-exchange": {
+    "name": "cancel-exchange",
+    "access": "public",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "complete-exchange": {
+    "name": "complete-exchange",
+    "access": "public",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      },
+      {
+        "name": "core-contract",
+        "type": "trait_reference"
+      },
+      {
+        "name": "skill-contract",
+        "type": "trait_reference"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "create-exchange-request": {
+    "name": "create-exchange-request",
+    "access": "public",
+    "args": [
+      {
+        "name": "provider",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "hours-requested",
+        "type": "uint128"
+      },
+      {
+        "name": "description",
+        "type": {
+          "string-ascii": {
+            "length": 200
+          }
+        }
+      },
+      {
+        "name": "scheduled-start",
+        "type": "uint128"
+      },
+      {
+        "name": "scheduled-end",
+        "type": "uint128"
+      },
+      {
+        "name": "core-contract",
+        "type": "trait_reference"
+      },
+      {
+        "name": "skill-contract",
+        "type": "trait_reference"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-exchange-info": {
+    "name": "get-exchange-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "actual-end",
+              "type": {
+                "optional": "uint128"
+              }
+            },
+            {
+              "name": "actual-start",
+              "type": {
+                "optional": "uint128"
+              }
+            },
+            {
+              "name": "created-at",
+              "type": "uint128"
+            },
+            {
+              "name": "description",
+              "type": {
+                "string-ascii": {
+                  "length": 200
+                }
+              }
+            },
+            {
+              "name": "hourly-rate",
+              "type": "uint128"
+            },
+            {
+              "name": "hours-requested",
+              "type": "uint128"
+            },
+            {
+              "name": "provider",
+              "type": "principal"
+            },
+            {
+              "name": "provider-confirmed",
+              "type": "bool"
+            },
+            {
+              "name": "requester",
+              "type": "principal"
+            },
+            {
+              "name": "requester-confirmed",
+              "type": "bool"
+            },
+            {
+              "name": "scheduled-end",
+              "type": "uint128"
+            },
+            {
+              "name": "scheduled-start",
+              "type": "uint128"
+            },
+            {
+              "name": "skill-id",
+              "type": "uint128"
+            },
+            {
+              "name": "status",
+              "type": {
+                "string-ascii": {
+                  "length": 20
+                }
+              }
+            },
+            {
+              "name": "total-credits",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-exchange-review": {
+    "name": "get-exchange-review",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "provider-comment",
+              "type": {
+                "optional": {
+                  "string-ascii": {
+                    "length": 200
+                  }
+                }
+              }
+            },
+            {
+              "name": "provider-rating",
+              "type": {
+                "optional": "uint128"
+              }
+            },
+            {
+              "name": "requester-comment",
+              "type": {
+                "optional": {
+                  "string-ascii": {
+                    "length": 200
+                  }
+                }
+              }
+            },
+            {
+              "name": "requester-rating",
+              "type": {
+                "optional": "uint128"
+              }
+            },
+            {
+              "name": "reviewed-at",
+              "type": {
+                "optional": "uint128"
+              }
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-exchange-stats": {
+    "name": "get-exchange-stats",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "exchanges-enabled",
+                "type": "bool"
+              },
+              {
+                "name": "next-exchange-id",
+                "type": "uint128"
+              },
+              {
+                "name": "total-completed-exchanges",
+                "type": "uint128"
+              },
+              {
+                "name": "total-credits-exchanged",
+                "type": "uint128"
+              },
+              {
+                "name": "total-exchanges",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-user-exchanges": {
+    "name": "get-user-exchanges",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "list": {
+              "type": "uint128",
+              "length": 100
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-exchange-expired": {
+    "name": "is-exchange-expired",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "start-exchange": {
+    "name": "start-exchange",
+    "access": "public",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "submit-review": {
+    "name": "submit-review",
+    "access": "public",
+    "args": [
+      {
+        "name": "exchange-id",
+        "type": "uint128"
+      },
+      {
+        "name": "rating",
+        "type": "uint128"
+      },
+      {
+        "name": "comment",
+        "type": {
+          "string-ascii": {
+            "length": 200
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "toggle-exchanges": {
+    "name": "toggle-exchanges",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface AcceptExchangeArgs {
+  exchangeId: IntegerInput;
+}
+
+export type AcceptExchangeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (accept-exchange (exchange-id uint)))
+ */
+export const acceptExchangeCall = (args: AcceptExchangeArgs): ContractCall<AcceptExchangeResult> =>
+  contractCall(CONTRACT_NAME, abi["accept-exchange"], args);
+
+export interface CancelExchangeArgs {
+  exchangeId: IntegerInput;
+}
+
+export type CancelExchangeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (cancel-exchange (exchange-id uint)))
+ */
+export const cancelExchangeCall = (args: CancelExchangeArgs): ContractCall<CancelExchangeResult> =>
+  contractCall(CONTRACT_NAME, abi["cancel-exchange"], args);
+
+export interface CompleteExchangeArgs {
+  exchangeId: IntegerInput;
+  coreContract: string;
+  skillContract: string;
+}
+
+export type CompleteExchangeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (complete-exchange (exchange-id uint) (core-contract trait_reference) (skill-contract trait_reference)))
+ */
+export const completeExchangeCall = (args: CompleteExchangeArgs): ContractCall<CompleteExchangeResult> =>
+  contractCall(CONTRACT_NAME, abi["complete-exchange"], args);
+
+export interface CreateExchangeRequestArgs {
+  provider: string;
+  skillId: IntegerInput;
+  hoursRequested: IntegerInput;
+  description: string;
+  scheduledStart: IntegerInput;
+  scheduledEnd: IntegerInput;
+  coreContract: string;
+  skillContract: string;
+}
+
+export type CreateExchangeRequestResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (create-exchange-request (provider principal) (skill-id uint) (hours-requested uint) (description (string-ascii 200)) (scheduled-start uint) (scheduled-end uint) (core-contract trait_reference) (skill-contract trait_reference)))
+ */
+export const createExchangeRequestCall = (args: CreateExchangeRequestArgs): ContractCall<CreateExchangeRequestResult> =>
+  contractCall(CONTRACT_NAME, abi["create-exchange-request"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetExchangeInfoArgs {
+  exchangeId: IntegerInput;
+}
+
+export type GetExchangeInfoResult = {
+  actualEnd: bigint | null;
+  actualStart: bigint | null;
+  createdAt: bigint;
+  description: string;
+  hourlyRate: bigint;
+  hoursRequested: bigint;
+  provider: string;
+  providerConfirmed: boolean;
+  requester: string;
+  requesterConfirmed: boolean;
+  scheduledEnd: bigint;
+  scheduledStart: bigint;
+  skillId: bigint;
+  status: string;
+  totalCredits: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-exchange-info (exchange-id uint)))
+ */
+export const getExchangeInfoCall = (args: GetExchangeInfoArgs): ContractCall<GetExchangeInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-exchange-info"], args);
+
+export const getExchangeInfo = (caller: ReadOnlyCaller, args: GetExchangeInfoArgs): Promise<GetExchangeInfoResult> =>
+  callReadOnly(caller, getExchangeInfoCall(args));
+
+export interface GetExchangeReviewArgs {
+  exchangeId: IntegerInput;
+}
+
+export type GetExchangeReviewResult = {
+  providerComment: string | null;
+  providerRating: bigint | null;
+  requesterComment: string | null;
+  requesterRating: bigint | null;
+  reviewedAt: bigint | null;
+} | null;
+
+/**
+ * (define-read-only (get-exchange-review (exchange-id uint)))
+ */
+export const getExchangeReviewCall = (args: GetExchangeReviewArgs): ContractCall<GetExchangeReviewResult> =>
+  contractCall(CONTRACT_NAME, abi["get-exchange-review"], args);
+
+export const getExchangeReview = (caller: ReadOnlyCaller, args: GetExchangeReviewArgs): Promise<GetExchangeReviewResult> =>
+  callReadOnly(caller, getExchangeReviewCall(args));
+
+export type GetExchangeStatsResult = ClarityResponse<{
+  exchangesEnabled: boolean;
+  nextExchangeId: bigint;
+  totalCompletedExchanges: bigint;
+  totalCreditsExchanged: bigint;
+  totalExchanges: bigint;
+}, null>;
+
+/**
+ * (define-read-only (get-exchange-stats))
+ */
+export const getExchangeStatsCall = (): ContractCall<GetExchangeStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-exchange-stats"]);
+
+export const getExchangeStats = (caller: ReadOnlyCaller): Promise<GetExchangeStatsResult> =>
+  callReadOnly(caller, getExchangeStatsCall());
+
+export interface GetUserExchangesArgs {
+  user: string;
+}
+
+export type GetUserExchangesResult = ClarityResponse<Array<bigint>, null>;
+
+/**
+ * (define-read-only (get-user-exchanges (user principal)))
+ */
+export const getUserExchangesCall = (args: GetUserExchangesArgs): ContractCall<GetUserExchangesResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-exchanges"], args);
+
+export const getUserExchanges = (caller: ReadOnlyCaller, args: GetUserExchangesArgs): Promise<GetUserExchangesResult> =>
+  callReadOnly(caller, getUserExchangesCall(args));
+
+export interface IsExchangeExpiredArgs {
+  exchangeId: IntegerInput;
+}
+
+export type IsExchangeExpiredResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-read-only (is-exchange-expired (exchange-id uint)))
+ */
+export const isExchangeExpiredCall = (args: IsExchangeExpiredArgs): ContractCall<IsExchangeExpiredResult> =>
+  contractCall(CONTRACT_NAME, abi["is-exchange-expired"], args);
+
+export const isExchangeExpired = (caller: ReadOnlyCaller, args: IsExchangeExpiredArgs): Promise<IsExchangeExpiredResult> =>
+  callReadOnly(caller, isExchangeExpiredCall(args));
+
+export interface StartExchangeArgs {
+  exchangeId: IntegerInput;
+}
+
+export type StartExchangeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (start-exchange (exchange-id uint)))
+ */
+export const startExchangeCall = (args: StartExchangeArgs): ContractCall<StartExchangeResult> =>
+  contractCall(CONTRACT_NAME, abi["start-exchange"], args);
+
+export interface SubmitReviewArgs {
+  exchangeId: IntegerInput;
+  rating: IntegerInput;
+  comment: string;
+}
+
+export type SubmitReviewResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (submit-review (exchange-id uint) (rating uint) (comment (string-ascii 200))))
+ */
+export const submitReviewCall = (args: SubmitReviewArgs): ContractCall<SubmitReviewResult> =>
+  contractCall(CONTRACT_NAME, abi["submit-review"], args);
+
+export type ToggleExchangesResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (toggle-exchanges))
+ */
+export const toggleExchangesCall = (): ContractCall<ToggleExchangesResult> =>
+  contractCall(CONTRACT_NAME, abi["toggle-exchanges"]);
@@ -0,0 +1,465 @@
+// Generated by scripts/generate-contract-bindings.ts from the skill-certification-nft ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "skill-certification-nft";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "add-verifier": {
+    "name": "add-verifier",
+    "access": "public",
+    "args": [
+      {
+        "name": "verifier",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-active-certification": {
+    "name": "get-active-certification",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "owner",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "expires-at",
+              "type": "uint128"
+            },
+            {
+              "name": "is-active",
+              "type": "bool"
+            },
+            {
+              "name": "issued-at",
+              "type": "uint128"
+            },
+            {
+              "name": "level",
+              "type": "uint128"
+            },
+            {
+              "name": "owner",
+              "type": "principal"
+            },
+            {
+              "name": "renewal-count",
+              "type": "uint128"
+            },
+            {
+              "name": "skill-id",
+              "type": "uint128"
+            },
+            {
+              "name": "verified-by",
+              "type": "principal"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-certification-info": {
+    "name": "get-certification-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "token-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "expires-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "is-active",
+                  "type": "bool"
+                },
+                {
+                  "name": "issued-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "level",
+                  "type": "uint128"
+                },
+                {
+                  "name": "owner",
+                  "type": "principal"
+                },
+                {
+                  "name": "renewal-count",
+                  "type": "uint128"
+                },
+                {
+                  "name": "skill-id",
+                  "type": "uint128"
+                },
+                {
+                  "name": "verified-by",
+                  "type": "principal"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-last-token-id": {
+    "name": "get-last-token-id",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-owner": {
+    "name": "get-owner",
+    "access": "public",
+    "args": [
+      {
+        "name": "token-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": "principal"
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-token-uri": {
+    "name": "get-token-uri",
+    "access": "public",
+    "args": [
+      {
+        "name": "token-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "string-ascii": {
+                "length": 43
+              }
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "is-certified": {
+    "name": "is-certified",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "owner",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": "bool"
+    }
+  },
+  "issue-certification": {
+    "name": "issue-certification",
+    "access": "public",
+    "args": [
+      {
+        "name": "recipient",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "level",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "renew-certification": {
+    "name": "renew-certification",
+    "access": "public",
+    "args": [
+      {
+        "name": "token-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "transfer": {
+    "name": "transfer",
+    "access": "public",
+    "args": [
+      {
+        "name": "token-id",
+        "type": "uint128"
+      },
+      {
+        "name": "sender",
+        "type": "principal"
+      },
+      {
+        "name": "recipient",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface AddVerifierArgs {
+  verifier: string;
+}
+
+export type AddVerifierResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (add-verifier (verifier principal)))
+ */
+export const addVerifierCall = (args: AddVerifierArgs): ContractCall<AddVerifierResult> =>
+  contractCall(CONTRACT_NAME, abi["add-verifier"], args);
+
+export interface GetActiveCertificationArgs {
+  owner: string;
+  skillId: IntegerInput;
+}
+
+export type GetActiveCertificationResult = {
+  expiresAt: bigint;
+  isActive: boolean;
+  issuedAt: bigint;
+  level: bigint;
+  owner: string;
+  renewalCount: bigint;
+  skillId: bigint;
+  verifiedBy: string;
+} | null;
+
+/**
+ * (define-read-only (get-active-certification (owner principal) (skill-id uint)))
+ */
+export const getActiveCertificationCall = (args: GetActiveCertificationArgs): ContractCall<GetActiveCertificationResult> =>
+  contractCall(CONTRACT_NAME, abi["get-active-certification"], args);
+
+export const getActiveCertification = (caller: ReadOnlyCaller, args: GetActiveCertificationArgs): Promise<GetActiveCertificationResult> =>
+  callReadOnly(caller, getActiveCertificationCall(args));
+
+export interface GetCertificationInfoArgs {
+  tokenId: IntegerInput;
+}
+
+export type GetCertificationInfoResult = ClarityResponse<{
+  expiresAt: bigint;
+  isActive: boolean;
+  issuedAt: bigint;
+  level: bigint;
+  owner: string;
+  renewalCount: bigint;
+  skillId: bigint;
+  verifiedBy: string;
+} | null, null>;
+
+/**
+ * (define-read-only (get-certification-info (token-id uint)))
+ */
+export const getCertificationInfoCall = (args: GetCertificationInfoArgs): ContractCall<GetCertificationInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-certification-info"], args);
+
+export const getCertificationInfo = (caller: ReadOnlyCaller, args: GetCertificationInfoArgs): Promise<GetCertificationInfoResult> =>
+  callReadOnly(caller, getCertificationInfoCall(args));
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export type GetLastTokenIdResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-public (get-last-token-id))
+ */
+export const getLastTokenIdCall = (): ContractCall<GetLastTokenIdResult> =>
+  contractCall(CONTRACT_NAME, abi["get-last-token-id"]);
+
+export interface GetOwnerArgs {
+  tokenId: IntegerInput;
+}
+
+export type GetOwnerResult = ClarityResponse<string | null, null>;
+
+/**
+ * (define-public (get-owner (token-id uint)))
+ */
+export const getOwnerCall = (args: GetOwnerArgs): ContractCall<GetOwnerResult> =>
+  contractCall(CONTRACT_NAME, abi["get-owner"], args);
+
+export interface GetTokenUriArgs {
+  tokenId: IntegerInput;
+}
+
+export type GetTokenUriResult = ClarityResponse<string | null, null>;
+
+/**
+ * (define-public (get-token-uri (token-id uint)))
+ */
+export const getTokenUriCall = (args: GetTokenUriArgs): ContractCall<GetTokenUriResult> =>
+  contractCall(CONTRACT_NAME, abi["get-token-uri"], args);
+
+export interface IsCertifiedArgs {
+  owner: string;
+  skillId: IntegerInput;
+}
+
+export type IsCertifiedResult = boolean;
+
+/**
+ * (define-read-only (is-certified (owner principal) (skill-id uint)))
+ */
+export const isCertifiedCall = (args: IsCertifiedArgs): ContractCall<IsCertifiedResult> =>
+  contractCall(CONTRACT_NAME, abi["is-certified"], args);
+
+export const isCertified = (caller: ReadOnlyCaller, args: IsCertifiedArgs): Promise<IsCertifiedResult> =>
+  callReadOnly(caller, isCertifiedCall(args));
+
+export interface IssueCertificationArgs {
+  recipient: string;
+  skillId: IntegerInput;
+  level: IntegerInput;
+}
+
+export type IssueCertificationResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (issue-certification (recipient principal) (skill-id uint) (level uint)))
+ */
+export const issueCertificationCall = (args: IssueCertificationArgs): ContractCall<IssueCertificationResult> =>
+  contractCall(CONTRACT_NAME, abi["issue-certification"], args);
+
+export interface RenewCertificationArgs {
+  tokenId: IntegerInput;
+}
+
+export type RenewCertificationResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (renew-certification (token-id uint)))
+ */
+export const renewCertificationCall = (args: RenewCertificationArgs): ContractCall<RenewCertificationResult> =>
+  contractCall(CONTRACT_NAME, abi["renew-certification"], args);
+
+export interface TransferArgs {
+  tokenId: IntegerInput;
+  sender: string;
+  recipient: string;
+}
+
+export type TransferResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (transfer (token-id uint) (sender principal) (recipient principal)))
+ */
+export const transferCall = (args: TransferArgs): ContractCall<TransferResult> =>
+  contractCall(CONTRACT_NAME, abi["transfer"], args);
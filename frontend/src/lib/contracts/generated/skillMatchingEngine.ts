@@ -0,0 +1,407 @@
+// Generated by scripts/generate-contract-bindings.ts from the skill-matching-engine ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "skill-matching-engine";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "accept-match": {
+    "name": "accept-match",
+    "access": "public",
+    "args": [
+      {
+        "name": "match-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "create-demand": {
+    "name": "create-demand",
+    "access": "public",
+    "args": [
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "hours-needed",
+        "type": "uint128"
+      },
+      {
+        "name": "max-rate",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "create-supply": {
+    "name": "create-supply",
+    "access": "public",
+    "args": [
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "hours-available",
+        "type": "uint128"
+      },
+      {
+        "name": "min-rate",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-demand": {
+    "name": "get-demand",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "requester",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "created-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "hours-needed",
+                  "type": "uint128"
+                },
+                {
+                  "name": "is-active",
+                  "type": "bool"
+                },
+                {
+                  "name": "max-rate",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-match-proposal": {
+    "name": "get-match-proposal",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "match-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "accepted",
+                  "type": "bool"
+                },
+                {
+                  "name": "created-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "hours",
+                  "type": "uint128"
+                },
+                {
+                  "name": "provider",
+                  "type": "principal"
+                },
+                {
+                  "name": "rate",
+                  "type": "uint128"
+                },
+                {
+                  "name": "requester",
+                  "type": "principal"
+                },
+                {
+                  "name": "skill-id",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-supply": {
+    "name": "get-supply",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "provider",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "created-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "hours-available",
+                  "type": "uint128"
+                },
+                {
+                  "name": "is-active",
+                  "type": "bool"
+                },
+                {
+                  "name": "min-rate",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "propose-match": {
+    "name": "propose-match",
+    "access": "public",
+    "args": [
+      {
+        "name": "requester",
+        "type": "principal"
+      },
+      {
+        "name": "provider",
+        "type": "principal"
+      },
+      {
+        "name": "skill-id",
+        "type": "uint128"
+      },
+      {
+        "name": "hours",
+        "type": "uint128"
+      },
+      {
+        "name": "rate",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  }
+};
+
+export interface AcceptMatchArgs {
+  matchId: IntegerInput;
+}
+
+export type AcceptMatchResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (accept-match (match-id uint)))
+ */
+export const acceptMatchCall = (args: AcceptMatchArgs): ContractCall<AcceptMatchResult> =>
+  contractCall(CONTRACT_NAME, abi["accept-match"], args);
+
+export interface CreateDemandArgs {
+  skillId: IntegerInput;
+  hoursNeeded: IntegerInput;
+  maxRate: IntegerInput;
+}
+
+export type CreateDemandResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-public (create-demand (skill-id uint) (hours-needed uint) (max-rate uint)))
+ */
+export const createDemandCall = (args: CreateDemandArgs): ContractCall<CreateDemandResult> =>
+  contractCall(CONTRACT_NAME, abi["create-demand"], args);
+
+export interface CreateSupplyArgs {
+  skillId: IntegerInput;
+  hoursAvailable: IntegerInput;
+  minRate: IntegerInput;
+}
+
+export type CreateSupplyResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-public (create-supply (skill-id uint) (hours-available uint) (min-rate uint)))
+ */
+export const createSupplyCall = (args: CreateSupplyArgs): ContractCall<CreateSupplyResult> =>
+  contractCall(CONTRACT_NAME, abi["create-supply"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetDemandArgs {
+  requester: string;
+  skillId: IntegerInput;
+}
+
+export type GetDemandResult = ClarityResponse<{
+  createdAt: bigint;
+  hoursNeeded: bigint;
+  isActive: boolean;
+  maxRate: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-demand (requester principal) (skill-id uint)))
+ */
+export const getDemandCall = (args: GetDemandArgs): ContractCall<GetDemandResult> =>
+  contractCall(CONTRACT_NAME, abi["get-demand"], args);
+
+export const getDemand = (caller: ReadOnlyCaller, args: GetDemandArgs): Promise<GetDemandResult> =>
+  callReadOnly(caller, getDemandCall(args));
+
+export interface GetMatchProposalArgs {
+  matchId: IntegerInput;
+}
+
+export type GetMatchProposalResult = ClarityResponse<{
+  accepted: boolean;
+  createdAt: bigint;
+  hours: bigint;
+  provider: string;
+  rate: bigint;
+  requester: string;
+  skillId: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-match-proposal (match-id uint)))
+ */
+export const getMatchProposalCall = (args: GetMatchProposalArgs): ContractCall<GetMatchProposalResult> =>
+  contractCall(CONTRACT_NAME, abi["get-match-proposal"], args);
+
+export const getMatchProposal = (caller: ReadOnlyCaller, args: GetMatchProposalArgs): Promise<GetMatchProposalResult> =>
+  callReadOnly(caller, getMatchProposalCall(args));
+
+export interface GetSupplyArgs {
+  provider: string;
+  skillId: IntegerInput;
+}
+
+export type GetSupplyResult = ClarityResponse<{
+  createdAt: bigint;
+  hoursAvailable: bigint;
+  isActive: boolean;
+  minRate: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-supply (provider principal) (skill-id uint)))
+ */
+export const getSupplyCall = (args: GetSupplyArgs): ContractCall<GetSupplyResult> =>
+  contractCall(CONTRACT_NAME, abi["get-supply"], args);
+
+export const getSupply = (caller: ReadOnlyCaller, args: GetSupplyArgs): Promise<GetSupplyResult> =>
+  callReadOnly(caller, getSupplyCall(args));
+
+export interface ProposeMatchArgs {
+  requester: string;
+  provider: string;
+  skillId: IntegerInput;
+  hours: IntegerInput;
+  rate: IntegerInput;
+}
+
+export type ProposeMatchResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-public (propose-match (requester principal) (provider principal) (skill-id uint) (hours uint) (rate uint)))
+ */
+export const proposeMatchCall = (args: ProposeMatchArgs): ContractCall<ProposeMatchResult> =>
+  contractCall(CONTRACT_NAME, abi["propose-match"], args);
@@ -0,0 +1,521 @@
+// Generated by scripts/generate-contract-bindings.ts from the time-token-ft ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type BufferInput,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "time-token-ft";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "approve": {
+    "name": "approve",
+    "access": "public",
+    "args": [
+      {
+        "name": "spender",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "burn": {
+    "name": "burn",
+    "access": "public",
+    "args": [
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-allowance": {
+    "name": "get-allowance",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "owner",
+        "type": "principal"
+      },
+      {
+        "name": "spender",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-balance": {
+    "name": "get-balance",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "account",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-decimals": {
+    "name": "get-decimals",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-name": {
+    "name": "get-name",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 10
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-stake-info": {
+    "name": "get-stake-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "staker",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "tuple": [
+                {
+                  "name": "amount",
+                  "type": "uint128"
+                },
+                {
+                  "name": "last-reward-claim",
+                  "type": "uint128"
+                },
+                {
+                  "name": "staked-at",
+                  "type": "uint128"
+                },
+                {
+                  "name": "total-rewards",
+                  "type": "uint128"
+                }
+              ]
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-symbol": {
+    "name": "get-symbol",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 4
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-token-uri": {
+    "name": "get-token-uri",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "optional": {
+              "string-ascii": {
+                "length": 37
+              }
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-total-supply": {
+    "name": "get-total-supply",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "mint": {
+    "name": "mint",
+    "access": "public",
+    "args": [
+      {
+        "name": "recipient",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "stake": {
+    "name": "stake",
+    "access": "public",
+    "args": [
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "transfer": {
+    "name": "transfer",
+    "access": "public",
+    "args": [
+      {
+        "name": "amount",
+        "type": "uint128"
+      },
+      {
+        "name": "sender",
+        "type": "principal"
+      },
+      {
+        "name": "recipient",
+        "type": "principal"
+      },
+      {
+        "name": "memo",
+        "type": {
+          "optional": {
+            "buffer": {
+              "length": 34
+            }
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "unstake": {
+    "name": "unstake",
+    "access": "public",
+    "args": [
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface ApproveArgs {
+  spender: string;
+  amount: IntegerInput;
+}
+
+export type ApproveResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-public (approve (spender principal) (amount uint)))
+ */
+export const approveCall = (args: ApproveArgs): ContractCall<ApproveResult> =>
+  contractCall(CONTRACT_NAME, abi["approve"], args);
+
+export interface BurnArgs {
+  amount: IntegerInput;
+}
+
+export type BurnResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (burn (amount uint)))
+ */
+export const burnCall = (args: BurnArgs): ContractCall<BurnResult> =>
+  contractCall(CONTRACT_NAME, abi["burn"], args);
+
+export interface GetAllowanceArgs {
+  owner: string;
+  spender: string;
+}
+
+export type GetAllowanceResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-allowance (owner principal) (spender principal)))
+ */
+export const getAllowanceCall = (args: GetAllowanceArgs): ContractCall<GetAllowanceResult> =>
+  contractCall(CONTRACT_NAME, abi["get-allowance"], args);
+
+export const getAllowance = (caller: ReadOnlyCaller, args: GetAllowanceArgs): Promise<GetAllowanceResult> =>
+  callReadOnly(caller, getAllowanceCall(args));
+
+export interface GetBalanceArgs {
+  account: string;
+}
+
+export type GetBalanceResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-balance (account principal)))
+ */
+export const getBalanceCall = (args: GetBalanceArgs): ContractCall<GetBalanceResult> =>
+  contractCall(CONTRACT_NAME, abi["get-balance"], args);
+
+export const getBalance = (caller: ReadOnlyCaller, args: GetBalanceArgs): Promise<GetBalanceResult> =>
+  callReadOnly(caller, getBalanceCall(args));
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export type GetDecimalsResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-decimals))
+ */
+export const getDecimalsCall = (): ContractCall<GetDecimalsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-decimals"]);
+
+export const getDecimals = (caller: ReadOnlyCaller): Promise<GetDecimalsResult> =>
+  callReadOnly(caller, getDecimalsCall());
+
+export type GetNameResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-name))
+ */
+export const getNameCall = (): ContractCall<GetNameResult> =>
+  contractCall(CONTRACT_NAME, abi["get-name"]);
+
+export const getName = (caller: ReadOnlyCaller): Promise<GetNameResult> =>
+  callReadOnly(caller, getNameCall());
+
+export interface GetStakeInfoArgs {
+  staker: string;
+}
+
+export type GetStakeInfoResult = ClarityResponse<{
+  amount: bigint;
+  lastRewardClaim: bigint;
+  stakedAt: bigint;
+  totalRewards: bigint;
+} | null, null>;
+
+/**
+ * (define-read-only (get-stake-info (staker principal)))
+ */
+export const getStakeInfoCall = (args: GetStakeInfoArgs): ContractCall<GetStakeInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-stake-info"], args);
+
+export const getStakeInfo = (caller: ReadOnlyCaller, args: GetStakeInfoArgs): Promise<GetStakeInfoResult> =>
+  callReadOnly(caller, getStakeInfoCall(args));
+
+export type GetSymbolResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-symbol))
+ */
+export const getSymbolCall = (): ContractCall<GetSymbolResult> =>
+  contractCall(CONTRACT_NAME, abi["get-symbol"]);
+
+export const getSymbol = (caller: ReadOnlyCaller): Promise<GetSymbolResult> =>
+  callReadOnly(caller, getSymbolCall());
+
+export type GetTokenUriResult = ClarityResponse<string | null, null>;
+
+/**
+ * (define-read-only (get-token-uri))
+ */
+export const getTokenUriCall = (): ContractCall<GetTokenUriResult> =>
+  contractCall(CONTRACT_NAME, abi["get-token-uri"]);
+
+export const getTokenUri = (caller: ReadOnlyCaller): Promise<GetTokenUriResult> =>
+  callReadOnly(caller, getTokenUriCall());
+
+export type GetTotalSupplyResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-total-supply))
+ */
+export const getTotalSupplyCall = (): ContractCall<GetTotalSupplyResult> =>
+  contractCall(CONTRACT_NAME, abi["get-total-supply"]);
+
+export const getTotalSupply = (caller: ReadOnlyCaller): Promise<GetTotalSupplyResult> =>
+  callReadOnly(caller, getTotalSupplyCall());
+
+export interface MintArgs {
+  recipient: string;
+  amount: IntegerInput;
+}
+
+export type MintResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (mint (recipient principal) (amount uint)))
+ */
+export const mintCall = (args: MintArgs): ContractCall<MintResult> =>
+  contractCall(CONTRACT_NAME, abi["mint"], args);
+
+export interface StakeArgs {
+  amount: IntegerInput;
+}
+
+export type StakeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (stake (amount uint)))
+ */
+export const stakeCall = (args: StakeArgs): ContractCall<StakeResult> =>
+  contractCall(CONTRACT_NAME, abi["stake"], args);
+
+export interface TransferArgs {
+  amount: IntegerInput;
+  sender: string;
+  recipient: string;
+  memo: BufferInput | null;
+}
+
+export type TransferResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (transfer (amount uint) (sender principal) (recipient principal) (memo (optional (buff 34)))))
+ */
+export const transferCall = (args: TransferArgs): ContractCall<TransferResult> =>
+  contractCall(CONTRACT_NAME, abi["transfer"], args);
+
+export interface UnstakeArgs {
+  amount: IntegerInput;
+}
+
+export type UnstakeResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (unstake (amount uint)))
+ */
+export const unstakeCall = (args: UnstakeArgs): ContractCall<UnstakeResult> =>
+  contractCall(CONTRACT_NAME, abi["unstake"], args);
@@ -0,0 +1,669 @@
+// Generated by scripts/generate-contract-bindings.ts from the timebank-foundation ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "timebank-foundation";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "burn-credits": {
+    "name": "burn-credits",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "can-afford-service": {
+    "name": "can-afford-service",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "hours",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "deactivate-user": {
+    "name": "deactivate-user",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-balance": {
+    "name": "get-balance",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": "uint128"
+    }
+  },
+  "get-contract-owner": {
+    "name": "get-contract-owner",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "principal",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-protocol-stats": {
+    "name": "get-protocol-stats",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "initial-credits-per-user",
+                "type": "uint128"
+              },
+              {
+                "name": "min-transfer-amount",
+                "type": "uint128"
+              },
+              {
+                "name": "protocol-paused",
+                "type": "bool"
+              },
+              {
+                "name": "total-credits-circulating",
+                "type": "uint128"
+              },
+              {
+                "name": "total-users",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-user-activity-info": {
+    "name": "get-user-activity-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "hours-given",
+                "type": "uint128"
+              },
+              {
+                "name": "hours-received",
+                "type": "uint128"
+              },
+              {
+                "name": "is-active",
+                "type": "bool"
+              },
+              {
+                "name": "last-activity",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-user-balance": {
+    "name": "get-user-balance",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-user-info": {
+    "name": "get-user-info",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "is-active",
+              "type": "bool"
+            },
+            {
+              "name": "joined-at",
+              "type": "uint128"
+            },
+            {
+              "name": "last-activity",
+              "type": "uint128"
+            },
+            {
+              "name": "reputation-score",
+              "type": "uint128"
+            },
+            {
+              "name": "total-hours-given",
+              "type": "uint128"
+            },
+            {
+              "name": "total-hours-received",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "is-user-active": {
+    "name": "is-user-active",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "mint-credits": {
+    "name": "mint-credits",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "reactivate-user": {
+    "name": "reactivate-user",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "register-user": {
+    "name": "register-user",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "set-min-transfer-amount": {
+    "name": "set-min-transfer-amount",
+    "access": "public",
+    "args": [
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "toggle-protocol-pause": {
+    "name": "toggle-protocol-pause",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "transfer-credits": {
+    "name": "transfer-credits",
+    "access": "public",
+    "args": [
+      {
+        "name": "to",
+        "type": "principal"
+      },
+      {
+        "name": "amount",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "update-reputation": {
+    "name": "update-reputation",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "score-delta",
+        "type": "int128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "update-user-stats": {
+    "name": "update-user-stats",
+    "access": "public",
+    "args": [
+      {
+        "name": "provider",
+        "type": "principal"
+      },
+      {
+        "name": "receiver",
+        "type": "principal"
+      },
+      {
+        "name": "hours",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface BurnCreditsArgs {
+  user: string;
+  amount: IntegerInput;
+}
+
+export type BurnCreditsResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (burn-credits (user principal) (amount uint)))
+ */
+export const burnCreditsCall = (args: BurnCreditsArgs): ContractCall<BurnCreditsResult> =>
+  contractCall(CONTRACT_NAME, abi["burn-credits"], args);
+
+export interface CanAffordServiceArgs {
+  user: string;
+  hours: IntegerInput;
+}
+
+export type CanAffordServiceResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (can-afford-service (user principal) (hours uint)))
+ */
+export const canAffordServiceCall = (args: CanAffordServiceArgs): ContractCall<CanAffordServiceResult> =>
+  contractCall(CONTRACT_NAME, abi["can-afford-service"], args);
+
+export const canAffordService = (caller: ReadOnlyCaller, args: CanAffordServiceArgs): Promise<CanAffordServiceResult> =>
+  callReadOnly(caller, canAffordServiceCall(args));
+
+export type DeactivateUserResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (deactivate-user))
+ */
+export const deactivateUserCall = (): ContractCall<DeactivateUserResult> =>
+  contractCall(CONTRACT_NAME, abi["deactivate-user"]);
+
+export interface GetBalanceArgs {
+  user: string;
+}
+
+export type GetBalanceResult = bigint;
+
+/**
+ * (define-read-only (get-balance (user principal)))
+ */
+export const getBalanceCall = (args: GetBalanceArgs): ContractCall<GetBalanceResult> =>
+  contractCall(CONTRACT_NAME, abi["get-balance"], args);
+
+export const getBalance = (caller: ReadOnlyCaller, args: GetBalanceArgs): Promise<GetBalanceResult> =>
+  callReadOnly(caller, getBalanceCall(args));
+
+export type GetContractOwnerResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-owner))
+ */
+export const getContractOwnerCall = (): ContractCall<GetContractOwnerResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-owner"]);
+
+export const getContractOwner = (caller: ReadOnlyCaller): Promise<GetContractOwnerResult> =>
+  callReadOnly(caller, getContractOwnerCall());
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export type GetProtocolStatsResult = ClarityResponse<{
+  initialCreditsPerUser: bigint;
+  minTransferAmount: bigint;
+  protocolPaused: boolean;
+  totalCreditsCirculating: bigint;
+  totalUsers: bigint;
+}, null>;
+
+/**
+ * (define-read-only (get-protocol-stats))
+ */
+export const getProtocolStatsCall = (): ContractCall<GetProtocolStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-protocol-stats"]);
+
+export const getProtocolStats = (caller: ReadOnlyCaller): Promise<GetProtocolStatsResult> =>
+  callReadOnly(caller, getProtocolStatsCall());
+
+export interface GetUserActivityInfoArgs {
+  user: string;
+}
+
+export type GetUserActivityInfoResult = ClarityResponse<{
+  hoursGiven: bigint;
+  hoursReceived: bigint;
+  isActive: boolean;
+  lastActivity: bigint;
+}, bigint>;
+
+/**
+ * (define-read-only (get-user-activity-info (user principal)))
+ */
+export const getUserActivityInfoCall = (args: GetUserActivityInfoArgs): ContractCall<GetUserActivityInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-activity-info"], args);
+
+export const getUserActivityInfo = (caller: ReadOnlyCaller, args: GetUserActivityInfoArgs): Promise<GetUserActivityInfoResult> =>
+  callReadOnly(caller, getUserActivityInfoCall(args));
+
+export interface GetUserBalanceArgs {
+  user: string;
+}
+
+export type GetUserBalanceResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-user-balance (user principal)))
+ */
+export const getUserBalanceCall = (args: GetUserBalanceArgs): ContractCall<GetUserBalanceResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-balance"], args);
+
+export const getUserBalance = (caller: ReadOnlyCaller, args: GetUserBalanceArgs): Promise<GetUserBalanceResult> =>
+  callReadOnly(caller, getUserBalanceCall(args));
+
+export interface GetUserInfoArgs {
+  user: string;
+}
+
+export type GetUserInfoResult = {
+  isActive: boolean;
+  joinedAt: bigint;
+  lastActivity: bigint;
+  reputationScore: bigint;
+  totalHoursGiven: bigint;
+  totalHoursReceived: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-user-info (user principal)))
+ */
+export const getUserInfoCall = (args: GetUserInfoArgs): ContractCall<GetUserInfoResult> =>
+  contractCall(CONTRACT_NAME, abi["get-user-info"], args);
+
+export const getUserInfo = (caller: ReadOnlyCaller, args: GetUserInfoArgs): Promise<GetUserInfoResult> =>
+  callReadOnly(caller, getUserInfoCall(args));
+
+export interface IsUserActiveArgs {
+  user: string;
+}
+
+export type IsUserActiveResult = ClarityResponse<boolean, null>;
+
+/**
+ * (define-read-only (is-user-active (user principal)))
+ */
+export const isUserActiveCall = (args: IsUserActiveArgs): ContractCall<IsUserActiveResult> =>
+  contractCall(CONTRACT_NAME, abi["is-user-active"], args);
+
+export const isUserActive = (caller: ReadOnlyCaller, args: IsUserActiveArgs): Promise<IsUserActiveResult> =>
+  callReadOnly(caller, isUserActiveCall(args));
+
+export interface MintCreditsArgs {
+  user: string;
+  amount: IntegerInput;
+}
+
+export type MintCreditsResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (mint-credits (user principal) (amount uint)))
+ */
+export const mintCreditsCall = (args: MintCreditsArgs): ContractCall<MintCreditsResult> =>
+  contractCall(CONTRACT_NAME, abi["mint-credits"], args);
+
+export type ReactivateUserResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (reactivate-user))
+ */
+export const reactivateUserCall = (): ContractCall<ReactivateUserResult> =>
+  contractCall(CONTRACT_NAME, abi["reactivate-user"]);
+
+export type RegisterUserResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (register-user))
+ */
+export const registerUserCall = (): ContractCall<RegisterUserResult> =>
+  contractCall(CONTRACT_NAME, abi["register-user"]);
+
+export interface SetMinTransferAmountArgs {
+  amount: IntegerInput;
+}
+
+export type SetMinTransferAmountResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (set-min-transfer-amount (amount uint)))
+ */
+export const setMinTransferAmountCall = (args: SetMinTransferAmountArgs): ContractCall<SetMinTransferAmountResult> =>
+  contractCall(CONTRACT_NAME, abi["set-min-transfer-amount"], args);
+
+export type ToggleProtocolPauseResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (toggle-protocol-pause))
+ */
+export const toggleProtocolPauseCall = (): ContractCall<ToggleProtocolPauseResult> =>
+  contractCall(CONTRACT_NAME, abi["toggle-protocol-pause"]);
+
+export interface TransferCreditsArgs {
+  to: string;
+  amount: IntegerInput;
+}
+
+export type TransferCreditsResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (transfer-credits (to principal) (amount uint)))
+ */
+export const transferCreditsCall = (args: TransferCreditsArgs): ContractCall<TransferCreditsResult> =>
+  contractCall(CONTRACT_NAME, abi["transfer-credits"], args);
+
+export interface UpdateReputationArgs {
+  user: string;
+  scoreDelta: IntegerInput;
+}
+
+export type UpdateReputationResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (update-reputation (user principal) (score-delta int)))
+ */
+export const updateReputationCall = (args: UpdateReputationArgs): ContractCall<UpdateReputationResult> =>
+  contractCall(CONTRACT_NAME, abi["update-reputation"], args);
+
+export interface UpdateUserStatsArgs {
+  provider: string;
+  receiver: string;
+  hours: IntegerInput;
+}
+
+export type UpdateUserStatsResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (update-user-stats (provider principal) (receiver principal) (hours uint)))
+ */
+export const updateUserStatsCall = (args: UpdateUserStatsArgs): ContractCall<UpdateUserStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["update-user-stats"], args);
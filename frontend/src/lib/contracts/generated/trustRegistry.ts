@@ -0,0 +1,627 @@
+// Generated by scripts/generate-contract-bindings.ts from the trust-registry ABI.
+// Do not edit by hand; re-run the generator after changing the contract.
+
+import type { ClarityAbiFunction } from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  type ContractCall,
+  type ClarityResponse,
+  type IntegerInput,
+  type ReadOnlyCaller,
+} from '../bindings-runtime';
+
+export const CONTRACT_NAME = "trust-registry";
+
+const abi: Record<string, ClarityAbiFunction> = {
+  "apply-reputation-decay": {
+    "name": "apply-reputation-decay",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "award-skill-badge": {
+    "name": "award-skill-badge",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "skill-category",
+        "type": {
+          "string-ascii": {
+            "length": 20
+          }
+        }
+      },
+      {
+        "name": "services-completed",
+        "type": "uint128"
+      },
+      {
+        "name": "average-rating",
+        "type": "uint128"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 8
+            }
+          },
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "endorse-user": {
+    "name": "endorse-user",
+    "access": "public",
+    "args": [
+      {
+        "name": "endorsed",
+        "type": "principal"
+      },
+      {
+        "name": "category",
+        "type": {
+          "string-ascii": {
+            "length": 20
+          }
+        }
+      },
+      {
+        "name": "comment",
+        "type": {
+          "string-ascii": {
+            "length": 100
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-contract-version": {
+    "name": "get-contract-version",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "string-ascii": {
+              "length": 5
+            }
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-endorsement": {
+    "name": "get-endorsement",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "endorser",
+        "type": "principal"
+      },
+      {
+        "name": "endorsed",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "category",
+              "type": {
+                "string-ascii": {
+                  "length": 20
+                }
+              }
+            },
+            {
+              "name": "comment",
+              "type": {
+                "string-ascii": {
+                  "length": 100
+                }
+              }
+            },
+            {
+              "name": "endorsed-at",
+              "type": "uint128"
+            },
+            {
+              "name": "value",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-endorsement-count": {
+    "name": "get-endorsement-count",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-reputation-score": {
+    "name": "get-reputation-score",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "base-score",
+              "type": "uint128"
+            },
+            {
+              "name": "completion-bonus",
+              "type": "uint128"
+            },
+            {
+              "name": "endorsement-score",
+              "type": "uint128"
+            },
+            {
+              "name": "last-updated",
+              "type": "uint128"
+            },
+            {
+              "name": "rating-score",
+              "type": "uint128"
+            },
+            {
+              "name": "tier",
+              "type": "uint128"
+            },
+            {
+              "name": "total-score",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-reputation-stats": {
+    "name": "get-reputation-stats",
+    "access": "read_only",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": {
+            "tuple": [
+              {
+                "name": "base-reputation-score",
+                "type": "uint128"
+              },
+              {
+                "name": "completion-bonus",
+                "type": "uint128"
+              },
+              {
+                "name": "endorsement-value",
+                "type": "uint128"
+              },
+              {
+                "name": "reputation-enabled",
+                "type": "bool"
+              },
+              {
+                "name": "total-badges-awarded",
+                "type": "uint128"
+              },
+              {
+                "name": "total-endorsements",
+                "type": "uint128"
+              }
+            ]
+          },
+          "error": "none"
+        }
+      }
+    }
+  },
+  "get-reputation-tier": {
+    "name": "get-reputation-tier",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "get-skill-badge": {
+    "name": "get-skill-badge",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "category",
+        "type": {
+          "string-ascii": {
+            "length": 20
+          }
+        }
+      }
+    ],
+    "outputs": {
+      "type": {
+        "optional": {
+          "tuple": [
+            {
+              "name": "average-rating",
+              "type": "uint128"
+            },
+            {
+              "name": "badge-tier",
+              "type": {
+                "string-ascii": {
+                  "length": 20
+                }
+              }
+            },
+            {
+              "name": "earned-at",
+              "type": "uint128"
+            },
+            {
+              "name": "services-completed",
+              "type": "uint128"
+            }
+          ]
+        }
+      }
+    }
+  },
+  "get-total-reputation": {
+    "name": "get-total-reputation",
+    "access": "read_only",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "none"
+        }
+      }
+    }
+  },
+  "initialize-reputation": {
+    "name": "initialize-reputation",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "record-exchange-completion": {
+    "name": "record-exchange-completion",
+    "access": "public",
+    "args": [
+      {
+        "name": "user",
+        "type": "principal"
+      },
+      {
+        "name": "rating",
+        "type": "uint128"
+      },
+      {
+        "name": "core-contract",
+        "type": "trait_reference"
+      }
+    ],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "uint128",
+          "error": "uint128"
+        }
+      }
+    }
+  },
+  "toggle-reputation-system": {
+    "name": "toggle-reputation-system",
+    "access": "public",
+    "args": [],
+    "outputs": {
+      "type": {
+        "response": {
+          "ok": "bool",
+          "error": "uint128"
+        }
+      }
+    }
+  }
+};
+
+export interface ApplyReputationDecayArgs {
+  user: string;
+}
+
+export type ApplyReputationDecayResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (apply-reputation-decay (user principal)))
+ */
+export const applyReputationDecayCall = (args: ApplyReputationDecayArgs): ContractCall<ApplyReputationDecayResult> =>
+  contractCall(CONTRACT_NAME, abi["apply-reputation-decay"], args);
+
+export interface AwardSkillBadgeArgs {
+  user: string;
+  skillCategory: string;
+  servicesCompleted: IntegerInput;
+  averageRating: IntegerInput;
+}
+
+export type AwardSkillBadgeResult = ClarityResponse<string, bigint>;
+
+/**
+ * (define-public (award-skill-badge (user principal) (skill-category (string-ascii 20)) (services-completed uint) (average-rating uint)))
+ */
+export const awardSkillBadgeCall = (args: AwardSkillBadgeArgs): ContractCall<AwardSkillBadgeResult> =>
+  contractCall(CONTRACT_NAME, abi["award-skill-badge"], args);
+
+export interface EndorseUserArgs {
+  endorsed: string;
+  category: string;
+  comment: string;
+}
+
+export type EndorseUserResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (endorse-user (endorsed principal) (category (string-ascii 20)) (comment (string-ascii 100))))
+ */
+export const endorseUserCall = (args: EndorseUserArgs): ContractCall<EndorseUserResult> =>
+  contractCall(CONTRACT_NAME, abi["endorse-user"], args);
+
+export type GetContractVersionResult = ClarityResponse<string, null>;
+
+/**
+ * (define-read-only (get-contract-version))
+ */
+export const getContractVersionCall = (): ContractCall<GetContractVersionResult> =>
+  contractCall(CONTRACT_NAME, abi["get-contract-version"]);
+
+export const getContractVersion = (caller: ReadOnlyCaller): Promise<GetContractVersionResult> =>
+  callReadOnly(caller, getContractVersionCall());
+
+export interface GetEndorsementArgs {
+  endorser: string;
+  endorsed: string;
+}
+
+export type GetEndorsementResult = {
+  category: string;
+  comment: string;
+  endorsedAt: bigint;
+  value: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-endorsement (endorser principal) (endorsed principal)))
+ */
+export const getEndorsementCall = (args: GetEndorsementArgs): ContractCall<GetEndorsementResult> =>
+  contractCall(CONTRACT_NAME, abi["get-endorsement"], args);
+
+export const getEndorsement = (caller: ReadOnlyCaller, args: GetEndorsementArgs): Promise<GetEndorsementResult> =>
+  callReadOnly(caller, getEndorsementCall(args));
+
+export interface GetEndorsementCountArgs {
+  user: string;
+}
+
+export type GetEndorsementCountResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-endorsement-count (user principal)))
+ */
+export const getEndorsementCountCall = (args: GetEndorsementCountArgs): ContractCall<GetEndorsementCountResult> =>
+  contractCall(CONTRACT_NAME, abi["get-endorsement-count"], args);
+
+export const getEndorsementCount = (caller: ReadOnlyCaller, args: GetEndorsementCountArgs): Promise<GetEndorsementCountResult> =>
+  callReadOnly(caller, getEndorsementCountCall(args));
+
+export interface GetReputationScoreArgs {
+  user: string;
+}
+
+export type GetReputationScoreResult = {
+  baseScore: bigint;
+  completionBonus: bigint;
+  endorsementScore: bigint;
+  lastUpdated: bigint;
+  ratingScore: bigint;
+  tier: bigint;
+  totalScore: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-reputation-score (user principal)))
+ */
+export const getReputationScoreCall = (args: GetReputationScoreArgs): ContractCall<GetReputationScoreResult> =>
+  contractCall(CONTRACT_NAME, abi["get-reputation-score"], args);
+
+export const getReputationScore = (caller: ReadOnlyCaller, args: GetReputationScoreArgs): Promise<GetReputationScoreResult> =>
+  callReadOnly(caller, getReputationScoreCall(args));
+
+export type GetReputationStatsResult = ClarityResponse<{
+  baseReputationScore: bigint;
+  completionBonus: bigint;
+  endorsementValue: bigint;
+  reputationEnabled: boolean;
+  totalBadgesAwarded: bigint;
+  totalEndorsements: bigint;
+}, null>;
+
+/**
+ * (define-read-only (get-reputation-stats))
+ */
+export const getReputationStatsCall = (): ContractCall<GetReputationStatsResult> =>
+  contractCall(CONTRACT_NAME, abi["get-reputation-stats"]);
+
+export const getReputationStats = (caller: ReadOnlyCaller): Promise<GetReputationStatsResult> =>
+  callReadOnly(caller, getReputationStatsCall());
+
+export interface GetReputationTierArgs {
+  user: string;
+}
+
+export type GetReputationTierResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-read-only (get-reputation-tier (user principal)))
+ */
+export const getReputationTierCall = (args: GetReputationTierArgs): ContractCall<GetReputationTierResult> =>
+  contractCall(CONTRACT_NAME, abi["get-reputation-tier"], args);
+
+export const getReputationTier = (caller: ReadOnlyCaller, args: GetReputationTierArgs): Promise<GetReputationTierResult> =>
+  callReadOnly(caller, getReputationTierCall(args));
+
+export interface GetSkillBadgeArgs {
+  user: string;
+  category: string;
+}
+
+export type GetSkillBadgeResult = {
+  averageRating: bigint;
+  badgeTier: string;
+  earnedAt: bigint;
+  servicesCompleted: bigint;
+} | null;
+
+/**
+ * (define-read-only (get-skill-badge (user principal) (category (string-ascii 20))))
+ */
+export const getSkillBadgeCall = (args: GetSkillBadgeArgs): ContractCall<GetSkillBadgeResult> =>
+  contractCall(CONTRACT_NAME, abi["get-skill-badge"], args);
+
+export const getSkillBadge = (caller: ReadOnlyCaller, args: GetSkillBadgeArgs): Promise<GetSkillBadgeResult> =>
+  callReadOnly(caller, getSkillBadgeCall(args));
+
+export interface GetTotalReputationArgs {
+  user: string;
+}
+
+export type GetTotalReputationResult = ClarityResponse<bigint, null>;
+
+/**
+ * (define-read-only (get-total-reputation (user principal)))
+ */
+export const getTotalReputationCall = (args: GetTotalReputationArgs): ContractCall<GetTotalReputationResult> =>
+  contractCall(CONTRACT_NAME, abi["get-total-reputation"], args);
+
+export const getTotalReputation = (caller: ReadOnlyCaller, args: GetTotalReputationArgs): Promise<GetTotalReputationResult> =>
+  callReadOnly(caller, getTotalReputationCall(args));
+
+export interface InitializeReputationArgs {
+  user: string;
+}
+
+export type InitializeReputationResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (initialize-reputation (user principal)))
+ */
+export const initializeReputationCall = (args: InitializeReputationArgs): ContractCall<InitializeReputationResult> =>
+  contractCall(CONTRACT_NAME, abi["initialize-reputation"], args);
+
+export interface RecordExchangeCompletionArgs {
+  user: string;
+  rating: IntegerInput;
+  coreContract: string;
+}
+
+export type RecordExchangeCompletionResult = ClarityResponse<bigint, bigint>;
+
+/**
+ * (define-public (record-exchange-completion (user principal) (rating uint) (core-contract trait_reference)))
+ */
+export const recordExchangeCompletionCall = (args: RecordExchangeCompletionArgs): ContractCall<RecordExchangeCompletionResult> =>
+  contractCall(CONTRACT_NAME, abi["record-exchange-completion"], args);
+
+export type ToggleReputationSystemResult = ClarityResponse<boolean, bigint>;
+
+/**
+ * (define-public (toggle-reputation-system))
+ */
+export const toggleReputationSystemCall = (): ContractCall<ToggleReputationSystemResult> =>
+  contractCall(CONTRACT_NAME, abi["toggle-reputation-system"]);
@@ -1,116 +1,61 @@
 // Governance Contract Integration
-// Clarity 4 contract with proposal timelock
+// Clarity 4 contract with proposal timelock, on top of the bindings
+// generated from the contract's ABI
 
-import {
-  standardPrincipalCV,
-  uintCV,
-  stringAsciiCV,
-  boolCV,
-  ClarityValue,
-  cvToValue,
-} from '@stacks/transactions';
 import {
   GovernanceProposal,
   GovernanceStats,
   ContractCallResult,
 } from '@/types/contracts';
-import {
-  getContractAddress,
-  CONTRACT_NAMES,
-  FUNCTION_NAMES,
-} from '../contractConfig';
-import { callReadOnlyFunction, makeContractCall } from '../stacksApi';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as governance from './generated/communityCouncil';
 
 const contractName = 'governance';
 
-export const createProposal = async (
+export const createProposal = (
   title: string,
   description: string,
   proposalType: string
-): Promise<ContractCallResult<number>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.governance.createProposal,
-      functionArgs: [
-        stringAsciiCV(title),
-        stringAsciiCV(description),
-        stringAsciiCV(proposalType),
-      ],
-    });
-
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(
+    contractName,
+    governance.createProposalCall({ title, description, proposalType })
+  );
 
-export const castVote = async (
+export const castVote = (
   proposalId: number,
   vote: boolean
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.governance.castVote,
-      functionArgs: [uintCV(proposalId), boolCV(vote)],
-    });
-
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, governance.castVoteCall({ proposalId, vote }));
 
-export const executeProposal = async (
+export const executeProposal = (
   proposalId: number
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.governance.executeProposal,
-      functionArgs: [uintCV(proposalId)],
-    });
-
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, governance.executeProposalCall({ proposalId }));
 
 export const getProposal = async (
   proposalId: number
 ): Promise<GovernanceProposal | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.governance.getProposal,
-      functionArgs: [uintCV(proposalId)],
+    const result = await governance.getProposal(createReadOnlyCaller(contractName), {
+      proposalId,
     });
+    if (!result) return null;
 
-    if (!result || result.type === 'none') return null;
-
-    const value = cvToValue(result);
     return {
       proposalId,
-      proposer: value.value.proposer.value,
-      title: value.value.title.value,
-      description: value.value.description.value,
-      proposalType: value.value['proposal-type'].value,
-      createdAt: parseInt(value.value['created-at'].value),
-      votingEndsAt: parseInt(value.value['voting-ends-at'].value),
-      executionAvailableAt: parseInt(value.value['execution-available-at'].value),
-      yesVotes: parseInt(value.value['yes-votes'].value),
-      noVotes: parseInt(value.value['no-votes'].value),
-      totalVoters: parseInt(value.value['total-voters'].value),
-      state: value.value.state.value,
-      executedAt: value.value['executed-at'].value
-        ? parseInt(value.value['executed-at'].value.value)
-        : undefined,
+      proposer: result.proposer,
+      title: result.title,
+      description: result.description,
+      proposalType: result.proposalType as GovernanceProposal['proposalType'],
+      createdAt: Number(result.createdAt),
+      votingEndsAt: Number(result.votingEndsAt),
+      executionAvailableAt: Number(result.executionAvailableAt),
+      yesVotes: Number(result.yesVotes),
+      noVotes: Number(result.noVotes),
+      totalVoters: Number(result.totalVoters),
+      state: result.state as GovernanceProposal['state'],
+      executedAt: result.executedAt === null ? undefined : Number(result.executedAt),
     };
   } catch (error) {
     console.error('Error fetching proposal:', error);
@@ -120,23 +65,18 @@ export const getProposal = async (
 
 export const getGovernanceStats = async (): Promise<GovernanceStats | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.governance.getGovernanceStats,
-      functionArgs: [],
-    });
+    const result = await governance.getGovernanceStats(createReadOnlyCaller(contractName));
+    if (!result.ok) return null;
 
-    const value = cvToValue(result);
     return {
-      totalProposals: parseInt(value.value['total-proposals'].value),
-      totalPassedProposals: parseInt(value.value['total-passed-proposals'].value),
-      totalActiveVoters: parseInt(value.value['total-active-voters'].value),
-      nextProposalId: parseInt(value.value['next-proposal-id'].value),
-      governanceEnabled: value.value['governance-enabled'].value,
-      votingPeriod: parseInt(value.value['voting-period'].value),
-      timelockPeriod: parseInt(value.value['timelock-period'].value),
-      quorumPercentage: parseInt(value.value['quorum-percentage'].value),
+      totalProposals: Number(result.value.totalProposals),
+      totalPassedProposals: Number(result.value.totalPassedProposals),
+      totalActiveVoters: Number(result.value.totalActiveVoters),
+      nextProposalId: Number(result.value.nextProposalId),
+      governanceEnabled: result.value.governanceEnabled,
+      votingPeriod: Number(result.value.votingPeriod),
+      timelockPeriod: Number(result.value.timelockPeriod),
+      quorumPercentage: Number(result.value.quorumPercentage),
     };
   } catch (error) {
     console.error('Error fetching governance stats:', error);
@@ -8,13 +8,21 @@ export * from './reputationSystem';
 export * from './escrowManager';
 export * from './governance';
 export * from './rewardsDistributor';
+export * from './disputeArbitration';
+export * from './insurancePool';
+export * from './multiSigWallet';
+export * from './emergencyControls';
+export * from './referralProgram';
+export * from './skillCertificationNft';
+export * from './skillMatchingEngine';
+export * from './automationScheduler';
+export * from './timeTokenFt';
 
 // Re-export common types and utilities
 export {
   getContractAddress,
   CONTRACT_NAMES,
-  FUNCTION_NAMES,
-  ERROR_MESSAGES,
+  getErrorMessage,
   getNetworkConfig,
 } from '../contractConfig';
 
@@ -0,0 +1,148 @@
+// Multi-Sig Wallet Contract Integration
+// Clarity 4 contract with M-of-N signing and stacks-block-time timelocks,
+// on top of the bindings generated from the contract's ABI
+
+import {
+  FungibleConditionCode,
+  PostCondition,
+  PostConditionMode,
+} from '@stacks/transactions';
+import { ContractCallResult, TreasuryProposal } from '@/types/contracts';
+import { getContractAddress, CONTRACT_NAMES } from '../contractConfig';
+import { createPostConditionBuilder } from '../post-conditions';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as multiSigWallet from './generated/multiSigWallet';
+
+const contractName = 'multiSigWallet';
+
+// Proposals are numbered from 1 and the proposal counter has no getter, so
+// listing scans ids until the first missing one
+const MAX_PROPOSAL_SCAN = 100;
+
+export const decodeTreasuryProposal = (
+  proposalId: number,
+  result: multiSigWallet.GetProposalResult
+): TreasuryProposal | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    proposalId,
+    proposer: result.value.proposer,
+    amount: result.value.amount === null ? undefined : Number(result.value.amount),
+    recipient: result.value.recipient ?? undefined,
+    signaturesRequired: Number(result.value.signaturesRequired),
+    signaturesCount: Number(result.value.signaturesCount),
+    createdAt: Number(result.value.createdAt),
+    executeAfter: Number(result.value.executeAfter),
+    executed: result.value.executed,
+  };
+};
+
+/**
+ * Seconds until the proposal's timelock lapses, 0 once it has
+ */
+export const getTimelockRemaining = (proposal: TreasuryProposal, now: number): number =>
+  Math.max(0, proposal.executeAfter - now);
+
+export const canExecuteProposal = (proposal: TreasuryProposal, now: number): boolean =>
+  !proposal.executed &&
+  proposal.signaturesCount >= proposal.signaturesRequired &&
+  getTimelockRemaining(proposal, now) === 0;
+
+/**
+ * Signing only records a signature, so no assets may move
+ */
+export const buildSignPostConditions = (): PostCondition[] =>
+  createPostConditionBuilder().build();
+
+/**
+ * Executing may release at most the proposal amount from the wallet contract
+ */
+export const buildExecutePostConditions = (proposal: TreasuryProposal): PostCondition[] =>
+  createPostConditionBuilder()
+    .addContractSTXCondition(
+      getContractAddress(contractName),
+      CONTRACT_NAMES[contractName],
+      FungibleConditionCode.LessEqual,
+      BigInt(proposal.amount || 0)
+    )
+    .build();
+
+export const createTreasuryProposal = (
+  recipient: string,
+  amount: number
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(contractName, multiSigWallet.createProposalCall({ recipient, amount }), {
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
+  });
+
+export const signTreasuryProposal = (
+  proposalId: number
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(contractName, multiSigWallet.signProposalCall({ proposalId }), {
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: buildSignPostConditions(),
+  });
+
+export const executeTreasuryProposal = (
+  proposal: TreasuryProposal
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(
+    contractName,
+    multiSigWallet.executeProposalCall({ proposalId: proposal.proposalId }),
+    {
+      postConditionMode: PostConditionMode.Deny,
+      postConditions: buildExecutePostConditions(proposal),
+    }
+  );
+
+export const getTreasuryProposal = async (
+  proposalId: number
+): Promise<TreasuryProposal | null> => {
+  try {
+    return decodeTreasuryProposal(
+      proposalId,
+      await multiSigWallet.getProposal(createReadOnlyCaller(contractName), { proposalId })
+    );
+  } catch (error) {
+    console.error('Error fetching treasury proposal:', error);
+    return null;
+  }
+};
+
+export const listTreasuryProposals = async (
+  maxProposals: number = MAX_PROPOSAL_SCAN
+): Promise<TreasuryProposal[]> => {
+  const proposals: TreasuryProposal[] = [];
+  for (let proposalId = 1; proposalId <= maxProposals; proposalId++) {
+    const proposal = await getTreasuryProposal(proposalId);
+    if (!proposal) break;
+    proposals.push(proposal);
+  }
+  return proposals;
+};
+
+const readFlag = async (
+  functionName: string,
+  read: () => Promise<{ ok: boolean; value?: unknown }>
+): Promise<boolean> => {
+  try {
+    const result = await read();
+    return result.ok && result.value === true;
+  } catch (error) {
+    console.error(`Error calling ${functionName}:`, error);
+    return false;
+  }
+};
+
+export const isTreasurySigner = async (user: string): Promise<boolean> =>
+  readFlag('is-signer', () => multiSigWallet.isSigner(createReadOnlyCaller(contractName), { user }));
+
+export const hasSignedProposal = async (
+  proposalId: number,
+  signer: string
+): Promise<boolean> =>
+  readFlag('has-signed', () =>
+    multiSigWallet.hasSigned(createReadOnlyCaller(contractName), { proposalId, signer })
+  );
@@ -0,0 +1,154 @@
+// Referral Program Contract Integration
+// Clarity 4 contract with stacks-block-time referral tracking, on top of
+// the bindings generated from the contract's ABI
+
+import {
+  ContractCallResult,
+  ReferralData,
+  ReferralRecord,
+} from '@/types/contracts';
+import { CONTRACT_CONSTANTS } from '../contractConfig';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as referralProgram from './generated/referralProgram';
+import type { DecodedTimeBankEvent, ReferralUsedEvent } from '../event-decoder';
+
+const contractName = 'referralProgram';
+
+// Where a `?ref=` code waits until the visitor has registered
+const PENDING_REFERRAL_KEY = 'timebank:pending-referral-code';
+
+// Codes travel in share links, so keep them to URL-safe characters even
+// though the contract accepts any (string-ascii 20)
+const REFERRAL_CODE_PATTERN = new RegExp(
+  `^[A-Za-z0-9_-]{1,${CONTRACT_CONSTANTS.referralProgram.maxCodeLength}}$`
+);
+
+export const decodeReferralData = (
+  user: string,
+  result: referralProgram.GetUserDataResult
+): ReferralData | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    user,
+    referrer: result.value.referrer ?? undefined,
+    referralCode: result.value.referralCode,
+    totalReferrals: Number(result.value.totalReferrals),
+    totalRewards: Number(result.value.totalRewards),
+    createdAt: Number(result.value.createdAt),
+  };
+};
+
+/**
+ * The user's own shareable code. A referred user's record holds the code
+ * they joined with instead, so it only counts when there is no referrer
+ */
+export const getOwnReferralCode = (data: ReferralData | null): string | null =>
+  data && !data.referrer ? data.referralCode : null;
+
+export const isValidReferralCode = (code: string): boolean =>
+  REFERRAL_CODE_PATTERN.test(code);
+
+export const buildReferralLink = (code: string, origin: string): string =>
+  `${origin.replace(/\/$/, '')}/?ref=${encodeURIComponent(code)}`;
+
+/**
+ * Referrals credited to `referrer`, newest first, from decoded
+ * referral-used events
+ */
+export const getReferralsFromEvents = (
+  events: DecodedTimeBankEvent[],
+  referrer: string
+): ReferralRecord[] =>
+  events
+    .filter(
+      (event): event is ReferralUsedEvent =>
+        event.event === 'referral-used' && (event as ReferralUsedEvent).referrer === referrer
+    )
+    .map((event) => ({
+      referee: event.referee,
+      code: event.code,
+      referrerReward: event.referrerReward,
+      refereeReward: event.refereeReward,
+      timestamp: event.timestamp,
+      txId: event.txId,
+    }))
+    .sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+
+// ============================================
+// REFERRAL LINKS
+// ============================================
+
+/**
+ * Remember a `?ref=` code from the landing URL so it survives wallet
+ * connection and registration. Invalid codes are ignored
+ */
+export const captureReferralCode = (ref: unknown): string | null => {
+  if (typeof window === 'undefined' || typeof ref !== 'string') return null;
+  if (!isValidReferralCode(ref)) return null;
+
+  window.localStorage.setItem(PENDING_REFERRAL_KEY, ref);
+  return ref;
+};
+
+export const getPendingReferralCode = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(PENDING_REFERRAL_KEY);
+};
+
+export const clearPendingReferralCode = (): void => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(PENDING_REFERRAL_KEY);
+};
+
+// ============================================
+// WRITE FUNCTIONS
+// ============================================
+
+export const generateReferralCode = (
+  code: string
+): Promise<ContractCallResult<string>> =>
+  submitContractCall(contractName, referralProgram.generateCodeCall({ code }));
+
+export const applyReferralCode = (
+  code: string
+): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(contractName, referralProgram.useCodeCall({ code }));
+
+// ============================================
+// READ-ONLY FUNCTIONS
+// ============================================
+
+export const getReferralData = async (user: string): Promise<ReferralData | null> => {
+  try {
+    return decodeReferralData(
+      user,
+      await referralProgram.getUserData(createReadOnlyCaller(contractName), { user })
+    );
+  } catch (error) {
+    console.error('Error fetching referral data:', error);
+    return null;
+  }
+};
+
+export const getReferralCodeOwner = async (code: string): Promise<string | null> => {
+  try {
+    const result = await referralProgram.getCodeOwner(createReadOnlyCaller(contractName), {
+      code,
+    });
+    return result.ok ? result.value : null;
+  } catch (error) {
+    console.error('Error fetching referral code owner:', error);
+    return null;
+  }
+};
+
+export const getTotalReferrals = async (): Promise<number> => {
+  try {
+    const result = await referralProgram.getTotalReferrals(createReadOnlyCaller(contractName));
+    return result.ok ? Number(result.value) : 0;
+  } catch (error) {
+    console.error('Error fetching total referrals:', error);
+    return 0;
+  }
+};
@@ -1,93 +1,57 @@
 // Reputation System Contract Integration
-// Clarity 4 contract with time-weighted decay
+// Clarity 4 contract with time-weighted decay, on top of the bindings
+// generated from the contract's ABI
 
-import {
-  standardPrincipalCV,
-  intCV,
-  uintCV,
-  stringAsciiCV,
-  ClarityValue,
-  cvToValue,
-} from '@stacks/transactions';
 import {
   UserReputation,
-  CategoryReputation,
-  Endorsement,
   ReputationStats,
   ContractCallResult,
 } from '@/types/contracts';
-import {
-  getContractAddress,
-  CONTRACT_NAMES,
-  FUNCTION_NAMES,
-} from '../contractConfig';
-import { callReadOnlyFunction, makeContractCall } from '../stacksApi';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as reputationSystem from './generated/trustRegistry';
 
 const contractName = 'reputationSystem';
 
-export const initializeReputation = async (
+export const initializeReputation = (
   userAddress: string
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.reputationSystem.initializeReputation,
-      functionArgs: [standardPrincipalCV(userAddress)],
-    });
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, reputationSystem.initializeReputationCall({ user: userAddress }));
 
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
-
-export const endorseUser = async (
+export const endorseUser = (
   endorsedUser: string,
   category: string,
   message: string
-): Promise<ContractCallResult<number>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.reputationSystem.endorseUser,
-      functionArgs: [
-        standardPrincipalCV(endorsedUser),
-        stringAsciiCV(category),
-        stringAsciiCV(message),
-      ],
-    });
-
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(
+    contractName,
+    reputationSystem.endorseUserCall({ endorsed: endorsedUser, category, comment: message })
+  );
 
+/**
+ * Score breakdown and endorsement count; null for users who never
+ * initialized reputation
+ */
 export const getUserReputation = async (
   userAddress: string
 ): Promise<UserReputation | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.reputationSystem.getUserReputation,
-      functionArgs: [standardPrincipalCV(userAddress)],
-    });
-
-    if (!result || result.type === 'none') return null;
+    const caller = createReadOnlyCaller(contractName);
+    const [score, endorsements] = await Promise.all([
+      reputationSystem.getReputationScore(caller, { user: userAddress }),
+      reputationSystem.getEndorsementCount(caller, { user: userAddress }),
+    ]);
+    if (!score) return null;
 
-    const value = cvToValue(result);
     return {
       user: userAddress,
-      totalScore: parseInt(value.value['total-score'].value),
-      positiveEndorsements: parseInt(value.value['positive-endorsements'].value),
-      negativeFlags: parseInt(value.value['negative-flags'].value),
-      completedExchanges: parseInt(value.value['completed-exchanges'].value),
-      averageRating: parseInt(value.value['average-rating'].value),
-      lastUpdated: parseInt(value.value['last-updated'].value),
-      lastDecayApplied: parseInt(value.value['last-decay-applied'].value),
+      totalScore: Number(score.totalScore),
+      baseScore: Number(score.baseScore),
+      completionBonus: Number(score.completionBonus),
+      ratingScore: Number(score.ratingScore),
+      endorsementScore: Number(score.endorsementScore),
+      endorsementCount: endorsements.ok ? Number(endorsements.value) : 0,
+      tier: Number(score.tier),
+      lastUpdated: Number(score.lastUpdated),
     };
   } catch (error) {
     console.error('Error fetching user reputation:', error);
@@ -95,22 +59,34 @@ export const getUserReputation = async (
   }
 };
 
-export const getReputationStats = async (): Promise<ReputationStats | null> => {
+/**
+ * Total reputation score from get-reputation-score; users who never
+ * initialized reputation score zero
+ */
+export const getReputationScore = async (userAddress: string): Promise<number> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.reputationSystem.getReputationStats,
-      functionArgs: [],
+    const score = await reputationSystem.getReputationScore(createReadOnlyCaller(contractName), {
+      user: userAddress,
     });
+    return score ? Number(score.totalScore) : 0;
+  } catch (error) {
+    console.error('Error fetching reputation score:', error);
+    return 0;
+  }
+};
+
+export const getReputationStats = async (): Promise<ReputationStats | null> => {
+  try {
+    const result = await reputationSystem.getReputationStats(createReadOnlyCaller(contractName));
+    if (!result.ok) return null;
 
-    const value = cvToValue(result);
     return {
-      totalEndorsements: parseInt(value.value['total-endorsements'].value),
-      totalBadgesAwarded: parseInt(value.value['total-badges-awarded'].value),
-      averageReputationScore: parseInt(value.value['average-reputation-score'].value),
-      nextEndorsementId: parseInt(value.value['next-endorsement-id'].value),
-      nextBadgeId: parseInt(value.value['next-badge-id'].value),
+      totalEndorsements: Number(result.value.totalEndorsements),
+      totalBadgesAwarded: Number(result.value.totalBadgesAwarded),
+      baseReputationScore: Number(result.value.baseReputationScore),
+      completionBonus: Number(result.value.completionBonus),
+      endorsementValue: Number(result.value.endorsementValue),
+      reputationEnabled: result.value.reputationEnabled,
     };
   } catch (error) {
     console.error('Error fetching reputation stats:', error);
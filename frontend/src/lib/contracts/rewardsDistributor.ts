@@ -1,83 +1,53 @@
 // Rewards Distributor Contract Integration
-// Clarity 4 contract with periodic reward cycles
+// Clarity 4 contract with periodic reward cycles, on top of the bindings
+// generated from the contract's ABI
 
-import {
-  standardPrincipalCV,
-  uintCV,
-  ClarityValue,
-  cvToValue,
-} from '@stacks/transactions';
 import {
   RewardPeriod,
   UserReward,
   RewardsStats,
   ContractCallResult,
 } from '@/types/contracts';
-import {
-  getContractAddress,
-  CONTRACT_NAMES,
-  FUNCTION_NAMES,
-} from '../contractConfig';
-import { callReadOnlyFunction, makeContractCall } from '../stacksApi';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as rewardsDistributor from './generated/incentiveAllocator';
 
 const contractName = 'rewardsDistributor';
 
-export const claimReward = async (
-  periodId: number
-): Promise<ContractCallResult<number>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.rewardsDistributor.claimReward,
-      functionArgs: [uintCV(periodId)],
-    });
-
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
+// The contract stores a tier as its minimum activity score
+const decodeRewardTier = (tier: bigint): UserReward['rewardTier'] => {
+  if (tier >= BigInt(1000)) return 'platinum';
+  if (tier >= BigInt(500)) return 'gold';
+  if (tier >= BigInt(250)) return 'silver';
+  return 'bronze';
 };
 
-export const contributeToPool = async (
-  amount: number
-): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.rewardsDistributor.contributeToPool,
-      functionArgs: [uintCV(amount)],
-    });
+export const claimReward = (
+  periodId: number
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(contractName, rewardsDistributor.claimRewardCall({ periodId }));
 
-    return { success: true, txId: result.txId };
-  } catch (error: any) {
-    return { success: false, error: error.message };
-  }
-};
+export const contributeToPool = (
+  amount: number
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, rewardsDistributor.contributeToPoolCall({ amount }));
 
 export const getPeriodInfo = async (
   periodId: number
 ): Promise<RewardPeriod | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.rewardsDistributor.getPeriodInfo,
-      functionArgs: [uintCV(periodId)],
+    const result = await rewardsDistributor.getPeriodInfo(createReadOnlyCaller(contractName), {
+      periodId,
     });
+    if (!result) return null;
 
-    if (!result || result.type === 'none') return null;
-
-    const value = cvToValue(result);
     return {
       periodId,
-      startTime: parseInt(value.value['start-time'].value),
-      endTime: parseInt(value.value['end-time'].value),
-      totalPool: parseInt(value.value['total-pool'].value),
-      distributedAmount: parseInt(value.value['distributed-amount'].value),
-      totalParticipants: parseInt(value.value['total-participants'].value),
-      isFinalized: value.value['is-finalized'].value,
+      startTime: Number(result.startTime),
+      endTime: Number(result.endTime),
+      totalPool: Number(result.totalPool),
+      distributedAmount: Number(result.distributedAmount),
+      totalParticipants: Number(result.totalParticipants),
+      isFinalized: result.isFinalized,
     };
   } catch (error) {
     console.error('Error fetching period info:', error);
@@ -90,26 +60,20 @@ export const getUserReward = async (
   periodId: number
 ): Promise<UserReward | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.rewardsDistributor.getUserReward,
-      functionArgs: [standardPrincipalCV(userAddress), uintCV(periodId)],
+    const result = await rewardsDistributor.getUserReward(createReadOnlyCaller(contractName), {
+      user: userAddress,
+      periodId,
     });
+    if (!result) return null;
 
-    if (!result || result.type === 'none') return null;
-
-    const value = cvToValue(result);
     return {
       user: userAddress,
       periodId,
-      activityScore: parseInt(value.value['activity-score'].value),
-      rewardTier: value.value['reward-tier'].value,
-      calculatedReward: parseInt(value.value['calculated-reward'].value),
-      claimed: value.value.claimed.value,
-      claimedAt: value.value['claimed-at'].value
-        ? parseInt(value.value['claimed-at'].value.value)
-        : undefined,
+      activityScore: Number(result.activityScore),
+      rewardTier: decodeRewardTier(result.rewardTier),
+      calculatedReward: Number(result.calculatedReward),
+      claimed: result.claimed,
+      claimedAt: result.claimedAt === null ? undefined : Number(result.claimedAt),
     };
   } catch (error) {
     console.error('Error fetching user reward:', error);
@@ -119,22 +83,17 @@ export const getUserReward = async (
 
 export const getRewardsStats = async (): Promise<RewardsStats | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.rewardsDistributor.getRewardsStats,
-      functionArgs: [],
-    });
+    const result = await rewardsDistributor.getRewardsStats(createReadOnlyCaller(contractName));
+    if (!result.ok) return null;
 
-    const value = cvToValue(result);
     return {
-      currentPeriodId: parseInt(value.value['current-period-id'].value),
-      totalRewardPool: parseInt(value.value['total-reward-pool'].value),
-      totalDistributed: parseInt(value.value['total-distributed'].value),
-      rewardsEnabled: value.value['rewards-enabled'].value,
-      rewardPeriod: parseInt(value.value['reward-period'].value),
-      minActivityScore: parseInt(value.value['min-activity-score'].value),
-      baseRewardAmount: parseInt(value.value['base-reward-amount'].value),
+      currentPeriodId: Number(result.value.currentPeriodId),
+      totalRewardPool: Number(result.value.totalRewardPool),
+      totalDistributed: Number(result.value.totalDistributed),
+      rewardsEnabled: result.value.rewardsEnabled,
+      rewardPeriod: Number(result.value.rewardPeriod),
+      minActivityScore: Number(result.value.minActivityScore),
+      baseRewardAmount: Number(result.value.baseRewardAmount),
     };
   } catch (error) {
     console.error('Error fetching rewards stats:', error);
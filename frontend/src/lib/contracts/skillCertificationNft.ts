@@ -0,0 +1,196 @@
+// Skill Certification NFT Contract Integration
+// Clarity 4 SIP-009 contract with stacks-block-time expiry, on top of the
+// bindings generated from the contract's ABI
+
+import {
+  CertificationLevel,
+  CertificationStatus,
+  ContractCallResult,
+  SkillCertification,
+} from '@/types/contracts';
+import { CONTRACT_CONSTANTS } from '../contractConfig';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as certificationNft from './generated/skillCertificationNft';
+
+const contractName = 'skillCertificationNft';
+
+// Token ids are numbered from 1 and get-last-token-id is a public function,
+// so listing scans ids until the first missing one
+const MAX_CERTIFICATION_SCAN = 100;
+
+const LEVEL_NAMES: Record<CertificationLevel, string> = {
+  [CertificationLevel.BRONZE]: 'Bronze',
+  [CertificationLevel.SILVER]: 'Silver',
+  [CertificationLevel.GOLD]: 'Gold',
+  [CertificationLevel.PLATINUM]: 'Platinum',
+};
+
+/**
+ * SIP-016 metadata served for each certification token
+ */
+export interface CertificationMetadata {
+  sip: 16;
+  name: string;
+  description: string;
+  attributes: Array<{
+    trait_type: string;
+    value: string | number;
+    display_type?: 'date' | 'number';
+  }>;
+  properties: {
+    token_id: number;
+    skill_id: number;
+    skill_name: string;
+    level: string;
+    owner: string;
+    verified_by: string;
+    issued_at: number;
+    expires_at: number;
+    renewal_count: number;
+    is_active: boolean;
+  };
+}
+
+export const decodeCertification = (
+  tokenId: number,
+  result: certificationNft.GetCertificationInfoResult
+): SkillCertification | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    tokenId,
+    skillId: Number(result.value.skillId),
+    owner: result.value.owner,
+    level: Number(result.value.level) as CertificationLevel,
+    issuedAt: Number(result.value.issuedAt),
+    expiresAt: Number(result.value.expiresAt),
+    verifiedBy: result.value.verifiedBy,
+    isActive: result.value.isActive,
+    renewalCount: Number(result.value.renewalCount),
+  };
+};
+
+export const formatCertificationLevel = (level: CertificationLevel): string =>
+  LEVEL_NAMES[level] ?? `Level ${level}`;
+
+/**
+ * Where a certification stands at `now`: expiring within the renewal
+ * window counts as renewal-due, while expired ones can still be renewed
+ * by their owner
+ */
+export const getCertificationStatus = (
+  certification: SkillCertification,
+  now: number
+): CertificationStatus => {
+  if (!certification.isActive) return 'inactive';
+  if (certification.expiresAt < now) return 'expired';
+  if (certification.expiresAt - now <= CONTRACT_CONSTANTS.skillCertificationNft.renewalWindow) {
+    return 'renewal-due';
+  }
+  return 'active';
+};
+
+export const needsRenewal = (certification: SkillCertification, now: number): boolean => {
+  const status = getCertificationStatus(certification, now);
+  return status === 'renewal-due' || status === 'expired';
+};
+
+export const buildCertificationMetadata = (
+  certification: SkillCertification,
+  skillName: string
+): CertificationMetadata => {
+  const level = formatCertificationLevel(certification.level);
+
+  return {
+    sip: 16,
+    name: `${skillName} ${level} Certification #${certification.tokenId}`,
+    description: `${level} certification in ${skillName}, issued on the Time Banking Protocol`,
+    attributes: [
+      { trait_type: 'Skill', value: skillName },
+      { trait_type: 'Level', value: level },
+      { trait_type: 'Issued', value: certification.issuedAt, display_type: 'date' },
+      { trait_type: 'Expires', value: certification.expiresAt, display_type: 'date' },
+      { trait_type: 'Renewals', value: certification.renewalCount, display_type: 'number' },
+    ],
+    properties: {
+      token_id: certification.tokenId,
+      skill_id: certification.skillId,
+      skill_name: skillName,
+      level,
+      owner: certification.owner,
+      verified_by: certification.verifiedBy,
+      issued_at: certification.issuedAt,
+      expires_at: certification.expiresAt,
+      renewal_count: certification.renewalCount,
+      is_active: certification.isActive,
+    },
+  };
+};
+
+// ============================================
+// WRITE FUNCTIONS
+// ============================================
+
+export const issueCertification = (
+  recipient: string,
+  skillId: number,
+  level: CertificationLevel
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(
+    contractName,
+    certificationNft.issueCertificationCall({ recipient, skillId, level })
+  );
+
+export const renewCertification = (
+  tokenId: number
+): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(contractName, certificationNft.renewCertificationCall({ tokenId }));
+
+// ============================================
+// READ-ONLY FUNCTIONS
+// ============================================
+
+export const getCertification = async (
+  tokenId: number
+): Promise<SkillCertification | null> => {
+  try {
+    return decodeCertification(
+      tokenId,
+      await certificationNft.getCertificationInfo(createReadOnlyCaller(contractName), { tokenId })
+    );
+  } catch (error) {
+    console.error('Error fetching certification:', error);
+    return null;
+  }
+};
+
+export const listCertifications = async (
+  maxCertifications: number = MAX_CERTIFICATION_SCAN
+): Promise<SkillCertification[]> => {
+  const certifications: SkillCertification[] = [];
+  for (let tokenId = 1; tokenId <= maxCertifications; tokenId++) {
+    const certification = await getCertification(tokenId);
+    if (!certification) break;
+    certifications.push(certification);
+  }
+  return certifications;
+};
+
+export const listUserCertifications = async (
+  owner: string
+): Promise<SkillCertification[]> => {
+  const certifications = await listCertifications();
+  return certifications.filter((certification) => certification.owner === owner);
+};
+
+export const isCertified = async (owner: string, skillId: number): Promise<boolean> => {
+  try {
+    return await certificationNft.isCertified(createReadOnlyCaller(contractName), {
+      owner,
+      skillId,
+    });
+  } catch (error) {
+    console.error('Error checking certification:', error);
+    return false;
+  }
+};
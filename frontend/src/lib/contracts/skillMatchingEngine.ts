@@ -0,0 +1,265 @@
+// Skill Matching Engine Contract Integration
+// Clarity 4 contract with demand/supply orders and stacks-block-time match
+// proposals, on top of the bindings generated from the contract's ABI
+
+import {
+  ContractCallResult,
+  MatchCandidate,
+  MatchProposal,
+  SkillDemand,
+  SkillOrderBook,
+  SkillSupply,
+} from '@/types/contracts';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as skillMatchingEngine from './generated/skillMatchingEngine';
+import type {
+  DecodedTimeBankEvent,
+  DemandCreatedEvent,
+  SupplyCreatedEvent,
+} from '../event-decoder';
+
+const contractName = 'skillMatchingEngine';
+
+// Match proposals are numbered from 1 and the match counter has no getter,
+// so listing scans ids until the first missing one
+const MAX_MATCH_SCAN = 100;
+
+export const decodeDemand = (
+  requester: string,
+  skillId: number,
+  result: skillMatchingEngine.GetDemandResult
+): SkillDemand | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    requester,
+    skillId,
+    hoursNeeded: Number(result.value.hoursNeeded),
+    maxRate: Number(result.value.maxRate),
+    createdAt: Number(result.value.createdAt),
+  };
+};
+
+export const decodeSupply = (
+  provider: string,
+  skillId: number,
+  result: skillMatchingEngine.GetSupplyResult
+): SkillSupply | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    provider,
+    skillId,
+    hoursAvailable: Number(result.value.hoursAvailable),
+    minRate: Number(result.value.minRate),
+    createdAt: Number(result.value.createdAt),
+  };
+};
+
+export const decodeMatchProposal = (
+  matchId: number,
+  result: skillMatchingEngine.GetMatchProposalResult
+): MatchProposal | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    matchId,
+    requester: result.value.requester,
+    provider: result.value.provider,
+    skillId: Number(result.value.skillId),
+    hours: Number(result.value.hours),
+    rate: Number(result.value.rate),
+    createdAt: Number(result.value.createdAt),
+    accepted: result.value.accepted,
+  };
+};
+
+export const isOverlapping = (demand: SkillDemand, supply: SkillSupply): boolean =>
+  demand.maxRate >= supply.minRate && demand.requester !== supply.provider;
+
+/**
+ * Terms for a crossing pair: the smaller side's hours at the midpoint of
+ * the overlapping rate range
+ */
+export const getMatchTerms = (demand: SkillDemand, supply: SkillSupply): MatchCandidate => ({
+  demand,
+  supply,
+  hours: Math.min(demand.hoursNeeded, supply.hoursAvailable),
+  rate: Math.floor((demand.maxRate + supply.minRate) / 2),
+});
+
+/**
+ * Build per-skill order books from decoded demand-created/supply-created
+ * events. Orders are map entries keyed by principal and skill, so the
+ * latest event per key wins, and posting zero hours withdraws an order
+ */
+export const buildOrderBooks = (events: DecodedTimeBankEvent[]): SkillOrderBook[] => {
+  const demands = new Map<string, SkillDemand>();
+  const supplies = new Map<string, SkillSupply>();
+
+  const ordered = [...events].sort(
+    (a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0) || (a.blockHeight ?? 0) - (b.blockHeight ?? 0)
+  );
+
+  for (const event of ordered) {
+    if (event.event === 'demand-created') {
+      const demand = event as DemandCreatedEvent;
+      demands.set(`${demand.requester}:${demand.skillId}`, {
+        requester: demand.requester,
+        skillId: demand.skillId,
+        hoursNeeded: demand.hoursNeeded,
+        maxRate: demand.maxRate,
+        createdAt: demand.timestamp ?? 0,
+      });
+    } else if (event.event === 'supply-created') {
+      const supply = event as SupplyCreatedEvent;
+      supplies.set(`${supply.provider}:${supply.skillId}`, {
+        provider: supply.provider,
+        skillId: supply.skillId,
+        hoursAvailable: supply.hoursAvailable,
+        minRate: supply.minRate,
+        createdAt: supply.timestamp ?? 0,
+      });
+    }
+  }
+
+  const books = new Map<number, SkillOrderBook>();
+  const bookFor = (skillId: number) => {
+    if (!books.has(skillId)) {
+      books.set(skillId, { skillId, demands: [], supplies: [], matches: [] });
+    }
+    return books.get(skillId)!;
+  };
+
+  demands.forEach((demand) => {
+    if (demand.hoursNeeded > 0) bookFor(demand.skillId).demands.push(demand);
+  });
+  supplies.forEach((supply) => {
+    if (supply.hoursAvailable > 0) bookFor(supply.skillId).supplies.push(supply);
+  });
+
+  return Array.from(books.values())
+    .map((book) => {
+      const bids = [...book.demands].sort((a, b) => b.maxRate - a.maxRate);
+      const asks = [...book.supplies].sort((a, b) => a.minRate - b.minRate);
+      const matches = bids
+        .flatMap((demand) =>
+          asks.filter((supply) => isOverlapping(demand, supply)).map((supply) => getMatchTerms(demand, supply))
+        )
+        .sort(
+          (a, b) =>
+            b.demand.maxRate - b.supply.minRate - (a.demand.maxRate - a.supply.minRate) ||
+            b.hours - a.hours
+        );
+
+      return { skillId: book.skillId, demands: bids, supplies: asks, matches };
+    })
+    .sort((a, b) => a.skillId - b.skillId);
+};
+
+// ============================================
+// WRITE FUNCTIONS
+// ============================================
+
+export const createDemand = (
+  skillId: number,
+  hoursNeeded: number,
+  maxRate: number
+): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(
+    contractName,
+    skillMatchingEngine.createDemandCall({ skillId, hoursNeeded, maxRate })
+  );
+
+export const createSupply = (
+  skillId: number,
+  hoursAvailable: number,
+  minRate: number
+): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(
+    contractName,
+    skillMatchingEngine.createSupplyCall({ skillId, hoursAvailable, minRate })
+  );
+
+export const proposeMatch = (
+  candidate: MatchCandidate
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(
+    contractName,
+    skillMatchingEngine.proposeMatchCall({
+      requester: candidate.demand.requester,
+      provider: candidate.supply.provider,
+      skillId: candidate.demand.skillId,
+      hours: candidate.hours,
+      rate: candidate.rate,
+    })
+  );
+
+export const acceptMatch = (matchId: number): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(contractName, skillMatchingEngine.acceptMatchCall({ matchId }));
+
+// ============================================
+// READ-ONLY FUNCTIONS
+// ============================================
+
+export const getDemand = async (
+  requester: string,
+  skillId: number
+): Promise<SkillDemand | null> => {
+  try {
+    return decodeDemand(
+      requester,
+      skillId,
+      await skillMatchingEngine.getDemand(createReadOnlyCaller(contractName), {
+        requester,
+        skillId,
+      })
+    );
+  } catch (error) {
+    console.error('Error fetching demand:', error);
+    return null;
+  }
+};
+
+export const getSupply = async (
+  provider: string,
+  skillId: number
+): Promise<SkillSupply | null> => {
+  try {
+    return decodeSupply(
+      provider,
+      skillId,
+      await skillMatchingEngine.getSupply(createReadOnlyCaller(contractName), {
+        provider,
+        skillId,
+      })
+    );
+  } catch (error) {
+    console.error('Error fetching supply:', error);
+    return null;
+  }
+};
+
+export const getMatchProposal = async (matchId: number): Promise<MatchProposal | null> => {
+  try {
+    return decodeMatchProposal(
+      matchId,
+      await skillMatchingEngine.getMatchProposal(createReadOnlyCaller(contractName), { matchId })
+    );
+  } catch (error) {
+    console.error('Error fetching match proposal:', error);
+    return null;
+  }
+};
+
+export const listMatchProposals = async (
+  maxMatches: number = MAX_MATCH_SCAN
+): Promise<MatchProposal[]> => {
+  const proposals: MatchProposal[] = [];
+  for (let matchId = 1; matchId <= maxMatches; matchId++) {
+    const proposal = await getMatchProposal(matchId);
+    if (!proposal) break;
+    proposals.push(proposal);
+  }
+  return proposals;
+};
@@ -1,130 +1,89 @@
 // Skill Registry Contract Integration
-// Clarity 4 contract with contract-hash? verification
+// Clarity 4 contract with contract-hash? verification, on top of the
+// bindings generated from the contract's ABI
 
-import {
-  standardPrincipalCV,
-  uintCV,
-  stringAsciiCV,
-  contractPrincipalCV,
-  noneCV,
-  ClarityValue,
-  cvToValue,
-  PostCondition,
-} from '@stacks/transactions';
 import {
   RegisteredSkill,
-  SkillVerification,
   SkillTemplate,
-  SkillBadge,
   RegistryStats,
   ContractCallResult,
   SkillCategory,
 } from '@/types/contracts';
-import {
-  getContractIdentifier,
-  getContractAddress,
-  CONTRACT_NAMES,
-  FUNCTION_NAMES,
-  getErrorMessage,
-} from '../contractConfig';
-import { callReadOnlyFunction, makeContractCall } from '../stacksApi';
+import { getContractIdentifier } from '../contractConfig';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as skillRegistry from './generated/expertiseCatalog';
 
 const contractName = 'skillRegistry';
 
+const decodeSkillInfo = (
+  userAddress: string,
+  skillId: number,
+  result: skillRegistry.GetSkillInfoResult
+): RegisteredSkill | null => {
+  if (!result) return null;
+
+  return {
+    skillId,
+    owner: userAddress,
+    skillName: result.skillName,
+    category: result.category as SkillCategory,
+    description: result.description,
+    hourlyRate: Number(result.hourlyRate),
+    verified: result.isVerified,
+    verificationCount: Number(result.verificationCount),
+    totalServicesProvided: Number(result.totalServicesProvided),
+    registeredAt: Number(result.registeredAt),
+  };
+};
+
 // ============================================
 // WRITE FUNCTIONS (State-changing operations)
 // ============================================
 
 /**
- * Register a new skill on-chain
+ * Register a new skill on-chain. Its id is only known once the
+ * transaction confirms
  * @param skillName - Name of the skill
  * @param category - Skill category (technical, creative, etc.)
  * @param description - Skill description
  * @param hourlyRate - Hourly rate in time credits
  */
-export const registerSkill = async (
+export const registerSkill = (
   skillName: string,
   category: SkillCategory,
   description: string,
   hourlyRate: number
-): Promise<ContractCallResult<number>> => {
-  try {
-    const functionArgs: ClarityValue[] = [
-      stringAsciiCV(skillName),
-      stringAsciiCV(category),
-      stringAsciiCV(description),
-      uintCV(hourlyRate),
-    ];
-
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.skillRegistry.registerSkill,
-      functionArgs,
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      data: result.txId ? parseInt(result.txId, 16) : undefined,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to register skill',
-    };
-  }
-};
+): Promise<ContractCallResult<number>> =>
+  submitContractCall(
+    contractName,
+    skillRegistry.registerSkillCall({ skillName, category, description, hourlyRate }),
+    { postConditions: [] }
+  );
 
 /**
  * Verify another user's skill (Clarity 4 feature)
  * @param userAddress - Address of the skill owner
  * @param skillId - ID of the skill to verify
- * @param endorsement - Endorsement message
- * @param treasuryContract - Optional treasury contract for verification
+ * @param endorsement - Verification note
+ * @param coreContract - Time bank core contract the verifier is registered
+ *   in; defaults to the configured one
  */
-export const verifySkill = async (
+export const verifySkill = (
   userAddress: string,
   skillId: number,
   endorsement: string,
-  treasuryContract?: string
-): Promise<ContractCallResult<void>> => {
-  try {
-    const functionArgs: ClarityValue[] = [
-      standardPrincipalCV(userAddress),
-      uintCV(skillId),
-      stringAsciiCV(endorsement),
-      treasuryContract
-        ? contractPrincipalCV(
-            treasuryContract.split('.')[0],
-            treasuryContract.split('.')[1]
-          )
-        : contractPrincipalCV(
-            getContractAddress(contractName),
-            CONTRACT_NAMES[contractName]
-          ),
-    ];
-
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.skillRegistry.verifySkill,
-      functionArgs,
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to verify skill',
-    };
-  }
-};
+  coreContract: string = getContractIdentifier('timeBankCore')
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(
+    contractName,
+    skillRegistry.verifySkillCall({
+      user: userAddress,
+      skillId,
+      verificationNote: endorsement,
+      coreContract,
+    }),
+    { postConditions: [] }
+  );
 
 /**
  * Approve a skill template using contract-hash? (Clarity 4)
@@ -132,78 +91,15 @@ export const verifySkill = async (
  * @param templateName - Name of the template
  * @param templateContract - Contract principal to verify
  */
-export const approveSkillTemplate = async (
+export const approveSkillTemplate = (
   templateName: string,
   templateContract: string
-): Promise<ContractCallResult<string>> => {
-  try {
-    const [contractAddress, contractName] = templateContract.split('.');
-
-    const functionArgs: ClarityValue[] = [
-      stringAsciiCV(templateName),
-      contractPrincipalCV(contractAddress, contractName),
-    ];
-
-    const result = await makeContractCall({
-      contractAddress: getContractAddress('skillRegistry'),
-      contractName: CONTRACT_NAMES.skillRegistry,
-      functionName: FUNCTION_NAMES.skillRegistry.approveSkillTemplate,
-      functionArgs,
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      data: result.txId,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to approve skill template',
-    };
-  }
-};
-
-/**
- * Award a badge to a user
- * Only owner can call this function
- * @param recipient - Address of the badge recipient
- * @param badgeName - Name of the badge
- * @param tier - Badge tier (bronze, silver, gold, platinum)
- */
-export const awardBadge = async (
-  recipient: string,
-  badgeName: string,
-  tier: 'bronze' | 'silver' | 'gold' | 'platinum'
-): Promise<ContractCallResult<number>> => {
-  try {
-    const functionArgs: ClarityValue[] = [
-      standardPrincipalCV(recipient),
-      stringAsciiCV(badgeName),
-      stringAsciiCV(tier),
-    ];
-
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.skillRegistry.awardBadge,
-      functionArgs,
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      data: result.txId ? parseInt(result.txId, 16) : undefined,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to award badge',
-    };
-  }
-};
+): Promise<ContractCallResult<string>> =>
+  submitContractCall(
+    contractName,
+    skillRegistry.approveSkillTemplateCall({ templateName, templateContract }),
+    { postConditions: [] }
+  );
 
 // ============================================
 // READ-ONLY FUNCTIONS
@@ -219,33 +115,14 @@ export const getSkillInfo = async (
   skillId: number
 ): Promise<RegisteredSkill | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.skillRegistry.getSkillInfo,
-      functionArgs: [standardPrincipalCV(userAddress), uintCV(skillId)],
-    });
-
-    if (!result || result.type === 'none') {
-      return null;
-    }
-
-    const value = cvToValue(result);
-
-    return {
+    return decodeSkillInfo(
+      userAddress,
       skillId,
-      owner: userAddress,
-      skillName: value.value['skill-name'].value,
-      category: value.value.category.value as SkillCategory,
-      description: value.value.description.value,
-      hourlyRate: parseInt(value.value['hourly-rate'].value),
-      verified: value.value.verified.value,
-      verificationCount: parseInt(value.value['verification-count'].value),
-      registeredAt: parseInt(value.value['registered-at'].value),
-      lastVerifiedAt: value.value['last-verified-at'].value
-        ? parseInt(value.value['last-verified-at'].value.value)
-        : undefined,
-    };
+      await skillRegistry.getSkillInfo(createReadOnlyCaller(contractName), {
+        user: userAddress,
+        skillId,
+      })
+    );
   } catch (error) {
     console.error('Error fetching skill info:', error);
     return null;
@@ -258,15 +135,10 @@ export const getSkillInfo = async (
  */
 export const getUserSkillCount = async (userAddress: string): Promise<number> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.skillRegistry.getUserSkillCount,
-      functionArgs: [standardPrincipalCV(userAddress)],
+    const result = await skillRegistry.getUserSkillCount(createReadOnlyCaller(contractName), {
+      user: userAddress,
     });
-
-    const value = cvToValue(result);
-    return parseInt(value.value);
+    return result.ok ? Number(result.value) : 0;
   } catch (error) {
     console.error('Error fetching user skill count:', error);
     return 0;
@@ -283,15 +155,11 @@ export const isSkillVerified = async (
   skillId: number
 ): Promise<boolean> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.skillRegistry.isSkillVerified,
-      functionArgs: [standardPrincipalCV(userAddress), uintCV(skillId)],
+    const result = await skillRegistry.isSkillVerified(createReadOnlyCaller(contractName), {
+      user: userAddress,
+      skillId,
     });
-
-    const value = cvToValue(result);
-    return value.value;
+    return result.ok && result.value;
   } catch (error) {
     console.error('Error checking if skill is verified:', error);
     return false;
@@ -307,19 +175,30 @@ export const getVerificationCount = async (
   userAddress: string,
   skillId: number
 ): Promise<number> => {
+  const skill = await getSkillInfo(userAddress, skillId);
+  return skill ? skill.verificationCount : 0;
+};
+
+/**
+ * Get an approved skill template
+ * @param templateName - Name of the template
+ */
+export const getSkillTemplate = async (templateName: string): Promise<SkillTemplate | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.skillRegistry.getVerificationCount,
-      functionArgs: [standardPrincipalCV(userAddress), uintCV(skillId)],
+    const result = await skillRegistry.getVerifiedTemplate(createReadOnlyCaller(contractName), {
+      templateName,
     });
+    if (!result) return null;
 
-    const value = cvToValue(result);
-    return parseInt(value.value);
+    return {
+      templateName,
+      templateHash: result.templateHash,
+      creator: result.creator,
+      approvedAt: Number(result.approvedAt),
+    };
   } catch (error) {
-    console.error('Error fetching verification count:', error);
-    return 0;
+    console.error('Error fetching skill template:', error);
+    return null;
   }
 };
 
@@ -328,21 +207,16 @@ export const getVerificationCount = async (
  */
 export const getRegistryStats = async (): Promise<RegistryStats | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.skillRegistry.getRegistryStats,
-      functionArgs: [],
-    });
-
-    const value = cvToValue(result);
+    const result = await skillRegistry.getRegistryStats(createReadOnlyCaller(contractName));
+    if (!result.ok) return null;
 
     return {
-      totalSkills: parseInt(value.value['total-skills'].value),
-      totalVerifications: parseInt(value.value['total-verifications'].value),
-      totalBadges: parseInt(value.value['total-badges'].value),
-      nextSkillId: parseInt(value.value['next-skill-id'].value),
-      nextBadgeId: parseInt(value.value['next-badge-id'].value),
+      totalSkillsRegistered: Number(result.value.totalSkillsRegistered),
+      totalVerifiedSkills: Number(result.value.totalVerifiedSkills),
+      nextSkillId: Number(result.value.nextSkillId),
+      minVerificationsRequired: Number(result.value.minVerificationsRequired),
+      minVerifierReputation: Number(result.value.minVerifierReputation),
+      registrationEnabled: result.value.registrationEnabled,
     };
   } catch (error) {
     console.error('Error fetching registry stats:', error);
@@ -1,126 +1,69 @@
 // Time Bank Core Contract Integration
-// Clarity 4 contract with stacks-block-time timestamps
+// Clarity 4 contract with stacks-block-time timestamps, on top of the
+// bindings generated from the contract's ABI
 
-import {
-  standardPrincipalCV,
-  uintCV,
-  ClarityValue,
-  cvToValue,
-} from '@stacks/transactions';
 import {
   TimeBankUser,
   ProtocolStats,
   ContractCallResult,
 } from '@/types/contracts';
-import {
-  getContractIdentifier,
-  getContractAddress,
-  CONTRACT_NAMES,
-  FUNCTION_NAMES,
-} from '../contractConfig';
-import { callReadOnlyFunction, makeContractCall } from '../stacksApi';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as timeBankCore from './generated/timebankFoundation';
 
 const contractName = 'timeBankCore';
 
+const decodeUserInfo = (
+  userAddress: string,
+  result: timeBankCore.GetUserInfoResult
+): TimeBankUser | null => {
+  if (!result) return null;
+
+  return {
+    principal: userAddress,
+    joinedAt: Number(result.joinedAt),
+    totalHoursGiven: Number(result.totalHoursGiven),
+    totalHoursReceived: Number(result.totalHoursReceived),
+    reputationScore: Number(result.reputationScore),
+    isActive: result.isActive,
+    lastActivity: Number(result.lastActivity),
+    timeBalance: 0, // Fetched separately
+  };
+};
+
+const decodeProtocolStats = (
+  result: timeBankCore.GetProtocolStatsResult
+): ProtocolStats | null => {
+  if (!result.ok) return null;
+
+  return {
+    totalUsers: Number(result.value.totalUsers),
+    totalCreditsCirculating: Number(result.value.totalCreditsCirculating),
+    initialCreditsPerUser: Number(result.value.initialCreditsPerUser),
+    minTransferAmount: Number(result.value.minTransferAmount),
+    protocolPaused: result.value.protocolPaused,
+  };
+};
+
 // ============================================
 // WRITE FUNCTIONS
 // ============================================
 
-export const registerUser = async (): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.timeBankCore.registerUser,
-      functionArgs: [],
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to register user',
-    };
-  }
-};
+export const registerUser = (): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, timeBankCore.registerUserCall(), { postConditions: [] });
 
-export const transferCredits = async (
+export const transferCredits = (
   recipient: string,
   amount: number
-): Promise<ContractCallResult<void>> => {
-  try {
-    const functionArgs: ClarityValue[] = [
-      standardPrincipalCV(recipient),
-      uintCV(amount),
-    ];
-
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.timeBankCore.transferCredits,
-      functionArgs,
-      postConditions: [],
-    });
+): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, timeBankCore.transferCreditsCall({ to: recipient, amount }), {
+    postConditions: [],
+  });
 
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to transfer credits',
-    };
-  }
-};
+export const deactivateUser = (): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, timeBankCore.deactivateUserCall(), { postConditions: [] });
 
-export const deactivateUser = async (): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.timeBankCore.deactivateUser,
-      functionArgs: [],
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to deactivate user',
-    };
-  }
-};
-
-export const reactivateUser = async (): Promise<ContractCallResult<void>> => {
-  try {
-    const result = await makeContractCall({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.timeBankCore.reactivateUser,
-      functionArgs: [],
-      postConditions: [],
-    });
-
-    return {
-      success: true,
-      txId: result.txId,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message || 'Failed to reactivate user',
-    };
-  }
-};
+export const reactivateUser = (): Promise<ContractCallResult<void>> =>
+  submitContractCall(contractName, timeBankCore.reactivateUserCall(), { postConditions: [] });
 
 // ============================================
 // READ-ONLY FUNCTIONS
@@ -128,29 +71,10 @@ export const reactivateUser = async (): Promise<ContractCallResult<void>> => {
 
 export const getUserInfo = async (userAddress: string): Promise<TimeBankUser | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.timeBankCore.getUserInfo,
-      functionArgs: [standardPrincipalCV(userAddress)],
-    });
-
-    if (!result || result.type === 'none') {
-      return null;
-    }
-
-    const value = cvToValue(result);
-
-    return {
-      principal: userAddress,
-      joinedAt: parseInt(value.value['joined-at'].value),
-      totalHoursGiven: parseInt(value.value['total-hours-given'].value),
-      totalHoursReceived: parseInt(value.value['total-hours-received'].value),
-      reputationScore: parseInt(value.value['reputation-score'].value),
-      isActive: value.value['is-active'].value,
-      lastActivity: parseInt(value.value['last-activity'].value),
-      timeBalance: 0, // Fetched separately
-    };
+    return decodeUserInfo(
+      userAddress,
+      await timeBankCore.getUserInfo(createReadOnlyCaller(contractName), { user: userAddress })
+    );
   } catch (error) {
     console.error('Error fetching user info:', error);
     return null;
@@ -159,15 +83,10 @@ export const getUserInfo = async (userAddress: string): Promise<TimeBankUser | n
 
 export const getUserBalance = async (userAddress: string): Promise<number> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.timeBankCore.getUserBalance,
-      functionArgs: [standardPrincipalCV(userAddress)],
+    const result = await timeBankCore.getUserBalance(createReadOnlyCaller(contractName), {
+      user: userAddress,
     });
-
-    const value = cvToValue(result);
-    return parseInt(value.value);
+    return result.ok ? Number(result.value) : 0;
   } catch (error) {
     console.error('Error fetching user balance:', error);
     return 0;
@@ -176,15 +95,10 @@ export const getUserBalance = async (userAddress: string): Promise<number> => {
 
 export const isUserActive = async (userAddress: string): Promise<boolean> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.timeBankCore.isUserActive,
-      functionArgs: [standardPrincipalCV(userAddress)],
+    const result = await timeBankCore.isUserActive(createReadOnlyCaller(contractName), {
+      user: userAddress,
     });
-
-    const value = cvToValue(result);
-    return value.value;
+    return result.ok && result.value;
   } catch (error) {
     console.error('Error checking if user is active:', error);
     return false;
@@ -193,22 +107,9 @@ export const isUserActive = async (userAddress: string): Promise<boolean> => {
 
 export const getProtocolStats = async (): Promise<ProtocolStats | null> => {
   try {
-    const result = await callReadOnlyFunction({
-      contractAddress: getContractAddress(contractName),
-      contractName: CONTRACT_NAMES[contractName],
-      functionName: FUNCTION_NAMES.timeBankCore.getProtocolStats,
-      functionArgs: [],
-    });
-
-    const value = cvToValue(result);
-
-    return {
-      totalUsers: parseInt(value.value['total-users'].value),
-      totalActiveUsers: parseInt(value.value['total-active-users'].value),
-      totalCreditsIssued: parseInt(value.value['total-credits-issued'].value),
-      totalCreditsCirculating: parseInt(value.value['total-credits-circulating'].value),
-      protocolPaused: value.value['protocol-paused'].value,
-    };
+    return decodeProtocolStats(
+      await timeBankCore.getProtocolStats(createReadOnlyCaller(contractName))
+    );
   } catch (error) {
     console.error('Error fetching protocol stats:', error);
     return null;
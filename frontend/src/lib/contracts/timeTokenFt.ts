@@ -0,0 +1,194 @@
+// Time Token Contract Integration
+// Clarity 4 SIP-010 token with staking and spender allowances, on top of
+// the bindings generated from the contract's ABI
+
+import { PostCondition, PostConditionMode } from '@stacks/transactions';
+import {
+  ContractCallResult,
+  TokenAllowance,
+  TokenStakeInfo,
+} from '@/types/contracts';
+import { getContractIdentifier, CONTRACT_CONSTANTS } from '../contractConfig';
+import { createReadOnlyCaller, submitContractCall } from './bindings';
+import * as timeToken from './generated/timeTokenFt';
+import {
+  FungibleConditionCode,
+  makeAssetString,
+  makeFTPostCondition,
+} from '../transactions/post-condition-factory';
+import type { AllowanceApprovedEvent, DecodedTimeBankEvent } from '../event-decoder';
+
+const contractName = 'timeTokenFt';
+
+export const decodeStakeInfo = (
+  result: timeToken.GetStakeInfoResult
+): TokenStakeInfo | null => {
+  if (!result.ok || !result.value) return null;
+
+  return {
+    amount: Number(result.value.amount),
+    stakedAt: Number(result.value.stakedAt),
+    lastRewardClaim: Number(result.value.lastRewardClaim),
+    totalRewards: Number(result.value.totalRewards),
+  };
+};
+
+/**
+ * Fully qualified asset id, e.g. `SP….time-token-ft::time-token`
+ */
+export const getTimeTokenAsset = () =>
+  makeAssetString(getContractIdentifier(contractName), CONTRACT_CONSTANTS.timeTokenFt.assetName);
+
+/**
+ * Base units as a decimal string, e.g. 12500000 with 6 decimals is "12.5"
+ */
+export const formatTokenAmount = (amount: number | bigint, decimals: number): string => {
+  const value = BigInt(amount);
+  const negative = value < BigInt(0);
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${BigInt(whole).toLocaleString('en-US')}${fraction ? `.${fraction}` : ''}`;
+};
+
+/**
+ * Decimal string to base units, null if it isn't a positive amount the
+ * token can represent
+ */
+export const parseTokenAmount = (input: string, decimals: number): number | null => {
+  const match = input.trim().match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const fraction = match[2] ?? '';
+  if (fraction.length > decimals) return null;
+
+  const amount = BigInt(`${match[1] || '0'}${fraction.padEnd(decimals, '0')}`);
+  if (amount <= BigInt(0) || amount > BigInt(Number.MAX_SAFE_INTEGER)) return null;
+  return Number(amount);
+};
+
+/**
+ * Spenders the owner has approved at some point, most recent first, from
+ * decoded allowance-approved events. The allowance map can't be enumerated
+ * on chain, so current amounts still have to be read with get-allowance
+ */
+export const getSpendersFromEvents = (
+  events: DecodedTimeBankEvent[],
+  owner: string
+): string[] => {
+  const approvals = events
+    .filter(
+      (event): event is AllowanceApprovedEvent =>
+        event.event === 'allowance-approved' && (event as AllowanceApprovedEvent).owner === owner
+    )
+    .sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+
+  return Array.from(new Set(approvals.map((event) => event.spender)));
+};
+
+/**
+ * Staking burns exactly `amount` from the staker and nothing else
+ */
+export const buildStakePostConditions = (staker: string, amount: number): PostCondition[] => [
+  makeFTPostCondition(staker, getTimeTokenAsset(), FungibleConditionCode.Equal, BigInt(amount)),
+];
+
+// ============================================
+// WRITE FUNCTIONS
+// ============================================
+
+export const stakeTokens = (
+  staker: string,
+  amount: number
+): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(contractName, timeToken.stakeCall({ amount }), {
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: buildStakePostConditions(staker, amount),
+  });
+
+/**
+ * Unstaking mints back to the caller, and minted tokens aren't covered by
+ * post-conditions, so the call denies any outgoing transfer
+ */
+export const unstakeTokens = (amount: number): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(contractName, timeToken.unstakeCall({ amount }), {
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
+  });
+
+/**
+ * Set the spender's allowance to `amount`, replacing any previous one
+ */
+export const approveSpender = (
+  spender: string,
+  amount: number
+): Promise<ContractCallResult<boolean>> =>
+  submitContractCall(contractName, timeToken.approveCall({ spender, amount }), {
+    postConditionMode: PostConditionMode.Deny,
+    postConditions: [],
+  });
+
+export const revokeAllowance = (spender: string): Promise<ContractCallResult<boolean>> =>
+  approveSpender(spender, 0);
+
+// ============================================
+// READ-ONLY FUNCTIONS
+// ============================================
+
+export const getTokenDecimals = async (): Promise<number | null> => {
+  try {
+    const result = await timeToken.getDecimals(createReadOnlyCaller(contractName));
+    return result.ok ? Number(result.value) : null;
+  } catch (error) {
+    console.error('Error fetching token decimals:', error);
+    return null;
+  }
+};
+
+export const getTokenBalance = async (account: string): Promise<number> => {
+  try {
+    const result = await timeToken.getBalance(createReadOnlyCaller(contractName), { account });
+    return result.ok ? Number(result.value) : 0;
+  } catch (error) {
+    console.error('Error fetching token balance:', error);
+    return 0;
+  }
+};
+
+export const getStakeInfo = async (staker: string): Promise<TokenStakeInfo | null> => {
+  try {
+    return decodeStakeInfo(
+      await timeToken.getStakeInfo(createReadOnlyCaller(contractName), { staker })
+    );
+  } catch (error) {
+    console.error('Error fetching stake info:', error);
+    return null;
+  }
+};
+
+export const getAllowance = async (owner: string, spender: string): Promise<number> => {
+  try {
+    const result = await timeToken.getAllowance(createReadOnlyCaller(contractName), {
+      owner,
+      spender,
+    });
+    return result.ok ? Number(result.value) : 0;
+  } catch (error) {
+    console.error('Error fetching allowance:', error);
+    return 0;
+  }
+};
+
+/**
+ * Non-zero allowances of the given spenders
+ */
+export const listAllowances = async (
+  owner: string,
+  spenders: string[]
+): Promise<TokenAllowance[]> => {
+  const allowances = await Promise.all(
+    spenders.map(async (spender) => ({ spender, amount: await getAllowance(owner, spender) }))
+  );
+  return allowances.filter((allowance) => allowance.amount > 0);
+};
@@ -0,0 +1,72 @@
+/**
+ * Shared PostgreSQL Connection
+ * One pool for the event store and the other server-side stores
+ */
+
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { MigrationRunner } from './realtime/migration-runner';
+
+let pool: Pool | null = null;
+let schemaReady: Promise<void> | null = null;
+
+/**
+ * Get or create the shared pool (DATABASE_URL)
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    pool = new Pool({
+      connectionString: process.env.DATABASE_URL || 'postgresql://localhost:5432/timebank',
+      max: 20,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 2000,
+    });
+  }
+  return pool;
+}
+
+/**
+ * Resolves once the shared pool's schema can be queried
+ *
+ * With EVENT_STORE_AUTO_MIGRATE=true the pending migrations run on the first
+ * call and every later call waits on that same run. A failed run rejects its
+ * waiters and is retried by the next call.
+ */
+export function whenSchemaReady(): Promise<void> {
+  if (process.env.EVENT_STORE_AUTO_MIGRATE !== 'true') return Promise.resolve();
+
+  if (!schemaReady) {
+    schemaReady = new MigrationRunner(getPool()).migrate().then(
+      () => undefined,
+      (error) => {
+        schemaReady = null;
+        console.error('[Database] Failed to apply migrations:', error);
+        throw error;
+      }
+    );
+  }
+  return schemaReady;
+}
+
+/**
+ * Base for stores kept in Postgres. Every query first waits for `ready`, so
+ * none can run against a schema that is still being migrated
+ */
+export abstract class PostgresStore {
+  protected pool: Pool;
+  private ready: () => Promise<void>;
+
+  constructor(pool: Pool, ready: () => Promise<void> = () => Promise.resolve()) {
+    this.pool = pool;
+    this.ready = ready;
+  }
+
+  protected async query(text: string, params?: unknown[]): Promise<QueryResult> {
+    await this.ready();
+    return this.pool.query(text, params);
+  }
+
+  protected async connect(): Promise<PoolClient> {
+    await this.ready();
+    return this.pool.connect();
+  }
+}
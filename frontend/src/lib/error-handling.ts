@@ -4,6 +4,7 @@
  */
 
 import { TxBroadcastResult } from '@stacks/transactions';
+import { getContractError, toErrorContract } from './clarity-types/error-catalog';
 
 /**
  * Error types for Stacks transactions
@@ -90,6 +91,34 @@ export class PostConditionError extends StacksError {
   }
 }
 
+/**
+ * Contract `(err uNNNN)` errors, resolved through the error catalog
+ */
+export class ContractError extends StacksError {
+  readonly contract: string;
+  readonly code: number;
+  /** Constant name in the contract, e.g. `ERR_NOT_FOUND`; unset for unknown codes */
+  readonly errorName?: string;
+
+  constructor(contract: string, code: number, originalError?: Error) {
+    const info = getContractError(contract, code);
+    super(
+      StacksErrorType.CONTRACT_ERROR,
+      info ? info.message : `Unknown error (code: ${code})`,
+      originalError,
+      { contract, code, errorName: info?.name }
+    );
+    this.name = 'ContractError';
+    this.contract = info ? info.contract : toErrorContract(contract);
+    this.code = code;
+    this.errorName = info?.name;
+    // StacksError pins its own prototype; restore ours for instanceof checks
+    Object.setPrototypeOf(this, ContractError.prototype);
+  }
+}
+
+const CONTRACT_ERROR_PATTERN = /\(err u(\d+)\)/;
+
 /**
  * Error parser for Stacks responses
  */
@@ -127,14 +156,29 @@ export class ErrorParser {
   }
 
   /**
-   * Parse general error
+   * Parse a contract call result, e.g. a transaction's `tx_result.repr`.
+   * Returns null unless it is an `(err uNNNN)`
    */
-  static parseError(error: unknown): StacksError {
+  static parseContractError(result: string, contract: string): ContractError | null {
+    const match = result.match(CONTRACT_ERROR_PATTERN);
+    return match ? new ContractError(contract, Number(match[1])) : null;
+  }
+
+  /**
+   * Parse general error. With the contract that was called, `(err uNNNN)`
+   * in the message becomes a ContractError
+   */
+  static parseError(error: unknown, contract?: string): StacksError {
     if (error instanceof StacksError) {
       return error;
     }
 
     if (error instanceof Error) {
+      const match = contract ? error.message.match(CONTRACT_ERROR_PATTERN) : null;
+      if (contract && match) {
+        return new ContractError(contract, Number(match[1]), error);
+      }
+
       // Check error message for specific types
       const msg = error.message.toLowerCase();
 
@@ -186,7 +230,9 @@ export class ErrorHandler {
       case StacksErrorType.UNAUTHORIZED:
         return 'You are not authorized to perform this action.';
       case StacksErrorType.CONTRACT_ERROR:
-        return 'Smart contract execution failed.';
+        return error instanceof ContractError
+          ? error.message
+          : 'Smart contract execution failed.';
       default:
         return 'An unexpected error occurred. Please try again.';
     }
@@ -23,6 +23,8 @@ export type TimeBankEventType =
   | 'dispute-resolved'
   | 'schedule-created'
   | 'tokens-staked'
+  | 'tokens-unstaked'
+  | 'allowance-approved'
   | 'exchange-recorded'
   | 'proposal-created'
   | 'vote-cast'
@@ -34,6 +36,10 @@ export type TimeBankEventType =
   | 'certification-issued'
   | 'reward-claimed'
   | 'referral-used'
+  | 'demand-created'
+  | 'supply-created'
+  | 'match-proposed'
+  | 'match-accepted'
   | 'unknown';
 
 export interface BaseTimeBankEvent {
@@ -84,6 +90,19 @@ export interface TokensStakedEvent extends BaseTimeBankEvent {
   stakedAt: number;
 }
 
+export interface TokensUnstakedEvent extends BaseTimeBankEvent {
+  event: 'tokens-unstaked';
+  staker: string;
+  amount: number;
+}
+
+export interface AllowanceApprovedEvent extends BaseTimeBankEvent {
+  event: 'allowance-approved';
+  owner: string;
+  spender: string;
+  amount: number;
+}
+
 export interface ScheduleCreatedEvent extends BaseTimeBankEvent {
   event: 'schedule-created';
   scheduleId: number;
@@ -94,13 +113,133 @@ export interface ScheduleCreatedEvent extends BaseTimeBankEvent {
   createdAt: number;
 }
 
+export interface EscrowReleasedEvent extends BaseTimeBankEvent {
+  event: 'escrow-released';
+  escrowId: number;
+  beneficiary: string;
+  amount: number;
+}
+
+export interface DisputeOpenedEvent extends BaseTimeBankEvent {
+  event: 'dispute-opened';
+  escrowId: number;
+  mediator: string;
+}
+
+export interface DisputeResolvedEvent extends BaseTimeBankEvent {
+  event: 'dispute-resolved';
+  escrowId: number;
+  recipient: string;
+  favorBeneficiary: boolean;
+  mediatorFee: number;
+}
+
+export interface ProposalCreatedEvent extends BaseTimeBankEvent {
+  event: 'proposal-created';
+  proposalId: number;
+  proposer: string;
+  title: string;
+}
+
+export interface VoteCastEvent extends BaseTimeBankEvent {
+  event: 'vote-cast';
+  proposalId: number;
+  voter: string;
+  vote: boolean;
+  weight: number;
+}
+
+export interface ReputationUpdatedEvent extends BaseTimeBankEvent {
+  event: 'reputation-updated';
+  user: string;
+  newScore: number;
+  change: number;
+}
+
+export interface SkillRegisteredEvent extends BaseTimeBankEvent {
+  event: 'skill-registered';
+  user: string;
+  skillId: number;
+  skillName: string;
+}
+
+export interface SkillVerifiedEvent extends BaseTimeBankEvent {
+  event: 'skill-verified';
+  user: string;
+  skillId: number;
+  verifier: string;
+}
+
+export interface RewardClaimedEvent extends BaseTimeBankEvent {
+  event: 'reward-claimed';
+  user: string;
+  periodId: number;
+  amount: number;
+}
+
+export interface ReferralUsedEvent extends BaseTimeBankEvent {
+  event: 'referral-used';
+  referrer: string;
+  referee: string;
+  code: string;
+  referrerReward: number;
+  refereeReward: number;
+}
+
+export interface DemandCreatedEvent extends BaseTimeBankEvent {
+  event: 'demand-created';
+  requester: string;
+  skillId: number;
+  hoursNeeded: number;
+  maxRate: number;
+}
+
+export interface SupplyCreatedEvent extends BaseTimeBankEvent {
+  event: 'supply-created';
+  provider: string;
+  skillId: number;
+  hoursAvailable: number;
+  minRate: number;
+}
+
+export interface MatchProposedEvent extends BaseTimeBankEvent {
+  event: 'match-proposed';
+  matchId: number;
+  requester: string;
+  provider: string;
+  skillId: number;
+  hours: number;
+  rate: number;
+}
+
+export interface MatchAcceptedEvent extends BaseTimeBankEvent {
+  event: 'match-accepted';
+  matchId: number;
+}
+
 export type DecodedTimeBankEvent =
   | UserRegisteredEvent
   | CreditsTransferredEvent
   | ExchangeCreatedEvent
   | ExchangeCompletedEvent
   | EscrowCreatedEvent
+  | EscrowReleasedEvent
+  | DisputeOpenedEvent
+  | DisputeResolvedEvent
+  | ProposalCreatedEvent
+  | VoteCastEvent
+  | ReputationUpdatedEvent
+  | SkillRegisteredEvent
+  | SkillVerifiedEvent
+  | RewardClaimedEvent
+  | ReferralUsedEvent
+  | DemandCreatedEvent
+  | SupplyCreatedEvent
+  | MatchProposedEvent
+  | MatchAcceptedEvent
   | TokensStakedEvent
+  | TokensUnstakedEvent
+  | AllowanceApprovedEvent
   | ScheduleCreatedEvent
   | BaseTimeBankEvent;
 
@@ -115,21 +254,64 @@ export interface RawContractEvent {
   block_height?: number;
 }
 
+/** Type strings cvToJSON writes, e.g. `uint` or `(tuple (amount uint))` */
+const CLARITY_JSON_TYPE =
+  /^(?:bool|int|uint|principal|none|\((?:buff|string-ascii|string-utf8|list|tuple|optional|response)\b.*\))$/;
+
+/**
+ * Unwrap cvToJSON-style `{ type, value }` nodes into plain values. Only real
+ * Clarity type strings count, so a printed tuple with its own `type` and
+ * `value` fields is kept as it is
+ */
+function unwrapClarityJson(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(unwrapClarityJson);
+  if (!value || typeof value !== 'object') return value;
+
+  const node = value as Record<string, unknown>;
+  if (
+    typeof node.type === 'string' &&
+    CLARITY_JSON_TYPE.test(node.type) &&
+    'value' in node &&
+    Object.keys(node).length <= 3
+  ) {
+    return unwrapClarityJson(node.value);
+  }
+
+  return Object.fromEntries(
+    Object.entries(node).map(([key, inner]) => [key, unwrapClarityJson(inner)])
+  );
+}
+
 export class EventDecoder {
   decodeEvent(raw: RawContractEvent): DecodedTimeBankEvent | null {
     if (raw.event_type !== 'smart_contract_log' || !raw.contract_log) return null;
+    return this.decodePrintValue(raw.contract_log.value.hex, {
+      txId: raw.tx_id,
+      contractId: raw.contract_log.contract_id,
+      blockHeight: raw.block_height,
+    });
+  }
+
+  /**
+   * Decode a print payload given either as serialized Clarity hex or as an
+   * already-decoded tuple (plain or cvToJSON-shaped)
+   */
+  decodePrintValue(
+    payload: unknown,
+    context: Omit<BaseTimeBankEvent, 'event'> = {}
+  ): DecodedTimeBankEvent | null {
     try {
-      const cv = hexToCV(raw.contract_log.value.hex);
-      const value = cvToValue(cv, true);
-      if (!value || typeof value !== 'object') return null;
-      const eventType = (value.event as string) as TimeBankEventType;
+      const decoded =
+        typeof payload === 'string'
+          ? cvToValue(hexToCV(payload), true)
+          : payload;
+      const value = unwrapClarityJson(decoded) as Record<string, unknown> | null;
+      if (!value || typeof value !== 'object' || typeof value.event !== 'string') return null;
 
       const base: BaseTimeBankEvent = {
-        event: eventType ?? 'unknown',
-        timestamp: value.timestamp ? Number(value.timestamp) : undefined,
-        txId: raw.tx_id,
-        contractId: raw.contract_log.contract_id,
-        blockHeight: raw.block_height,
+        ...context,
+        event: value.event as TimeBankEventType,
+        timestamp: value.timestamp ? Number(value.timestamp) : context.timestamp,
       };
 
       return this.enrichEvent(base, value);
@@ -206,6 +388,23 @@ export class EventDecoder {
           stakedAt: Number(value['staked-at'] ?? value.stakedAt ?? 0),
         } as TokensStakedEvent;
 
+      case 'tokens-unstaked':
+        return {
+          ...base,
+          event: 'tokens-unstaked',
+          staker: String(value.staker ?? ''),
+          amount: Number(value.amount ?? 0),
+        } as TokensUnstakedEvent;
+
+      case 'allowance-approved':
+        return {
+          ...base,
+          event: 'allowance-approved',
+          owner: String(value.owner ?? ''),
+          spender: String(value.spender ?? ''),
+          amount: Number(value.amount ?? 0),
+        } as AllowanceApprovedEvent;
+
       case 'schedule-created':
         return {
           ...base,
@@ -218,6 +417,138 @@ export class EventDecoder {
           createdAt: Number(value['created-at'] ?? value.createdAt ?? 0),
         } as ScheduleCreatedEvent;
 
+      case 'escrow-released':
+        return {
+          ...base,
+          event: 'escrow-released',
+          escrowId: Number(value['escrow-id'] ?? value.escrowId ?? 0),
+          beneficiary: String(value.beneficiary ?? ''),
+          amount: Number(value.amount ?? 0),
+        } as EscrowReleasedEvent;
+
+      case 'dispute-opened':
+        return {
+          ...base,
+          event: 'dispute-opened',
+          escrowId: Number(value['escrow-id'] ?? value.escrowId ?? 0),
+          mediator: String(value.mediator ?? ''),
+        } as DisputeOpenedEvent;
+
+      case 'dispute-resolved':
+        return {
+          ...base,
+          event: 'dispute-resolved',
+          escrowId: Number(value['escrow-id'] ?? value.escrowId ?? 0),
+          recipient: String(value.recipient ?? ''),
+          favorBeneficiary: Boolean(value['favor-beneficiary']),
+          mediatorFee: Number(value['mediator-fee'] ?? 0),
+        } as DisputeResolvedEvent;
+
+      case 'proposal-created':
+        return {
+          ...base,
+          event: 'proposal-created',
+          proposalId: Number(value['proposal-id'] ?? value.proposalId ?? 0),
+          proposer: String(value.proposer ?? ''),
+          title: String(value.title ?? ''),
+        } as ProposalCreatedEvent;
+
+      case 'vote-cast':
+        return {
+          ...base,
+          event: 'vote-cast',
+          proposalId: Number(value['proposal-id'] ?? value.proposalId ?? 0),
+          voter: String(value.voter ?? ''),
+          vote: Boolean(value.vote),
+          weight: Number(value.weight ?? 0),
+        } as VoteCastEvent;
+
+      case 'reputation-updated':
+        return {
+          ...base,
+          event: 'reputation-updated',
+          user: String(value.user ?? ''),
+          newScore: Number(value['new-score'] ?? 0),
+          change: Number(value.change ?? 0),
+        } as ReputationUpdatedEvent;
+
+      case 'skill-registered':
+        return {
+          ...base,
+          event: 'skill-registered',
+          user: String(value.user ?? ''),
+          skillId: Number(value['skill-id'] ?? value.skillId ?? 0),
+          skillName: String(value['skill-name'] ?? ''),
+        } as SkillRegisteredEvent;
+
+      case 'skill-verified':
+        return {
+          ...base,
+          event: 'skill-verified',
+          user: String(value.user ?? ''),
+          skillId: Number(value['skill-id'] ?? value.skillId ?? 0),
+          verifier: String(value.verifier ?? ''),
+        } as SkillVerifiedEvent;
+
+      case 'reward-claimed':
+        return {
+          ...base,
+          event: 'reward-claimed',
+          user: String(value.user ?? ''),
+          periodId: Number(value['period-id'] ?? value.periodId ?? 0),
+          amount: Number(value.amount ?? 0),
+        } as RewardClaimedEvent;
+
+      case 'referral-used':
+        return {
+          ...base,
+          event: 'referral-used',
+          referrer: String(value.referrer ?? ''),
+          referee: String(value.referee ?? ''),
+          code: String(value.code ?? ''),
+          referrerReward: Number(value['referrer-reward'] ?? value.referrerReward ?? 0),
+          refereeReward: Number(value['referee-reward'] ?? value.refereeReward ?? 0),
+        } as ReferralUsedEvent;
+
+      case 'demand-created':
+        return {
+          ...base,
+          event: 'demand-created',
+          requester: String(value.requester ?? ''),
+          skillId: Number(value['skill-id'] ?? value.skillId ?? 0),
+          hoursNeeded: Number(value['hours-needed'] ?? value.hoursNeeded ?? 0),
+          maxRate: Number(value['max-rate'] ?? value.maxRate ?? 0),
+        } as DemandCreatedEvent;
+
+      case 'supply-created':
+        return {
+          ...base,
+          event: 'supply-created',
+          provider: String(value.provider ?? ''),
+          skillId: Number(value['skill-id'] ?? value.skillId ?? 0),
+          hoursAvailable: Number(value['hours-available'] ?? value.hoursAvailable ?? 0),
+          minRate: Number(value['min-rate'] ?? value.minRate ?? 0),
+        } as SupplyCreatedEvent;
+
+      case 'match-proposed':
+        return {
+          ...base,
+          event: 'match-proposed',
+          matchId: Number(value['match-id'] ?? value.matchId ?? 0),
+          requester: String(value.requester ?? ''),
+          provider: String(value.provider ?? ''),
+          skillId: Number(value['skill-id'] ?? value.skillId ?? 0),
+          hours: Number(value.hours ?? 0),
+          rate: Number(value.rate ?? 0),
+        } as MatchProposedEvent;
+
+      case 'match-accepted':
+        return {
+          ...base,
+          event: 'match-accepted',
+          matchId: Number(value['match-id'] ?? value.matchId ?? 0),
+        } as MatchAcceptedEvent;
+
       default:
         return base;
     }
@@ -0,0 +1,179 @@
+/**
+ * Exchange Offer Store
+ * Signed exchange offers kept in the exchange_offers table (server only)
+ */
+
+import { getPool, PostgresStore, whenSchemaReady } from './database';
+import type { ExchangeOffer, SignedExchangeOffer } from './exchange-offers';
+
+export interface OfferQueryFilter {
+  provider?: string;
+  /** Offers this requester may accept: untargeted ones and those made to them */
+  requester?: string;
+  skillId?: number;
+  /** Unix seconds; offers expiring at or before it are left out */
+  now?: number;
+  limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+export class ExchangeOfferStore extends PostgresStore {
+  /**
+   * Store a verified offer. Resolves null if the provider already used its
+   * nonce, which is what stops a signed offer being replayed
+   */
+  public async saveOffer(offer: SignedExchangeOffer): Promise<ExchangeOffer | null> {
+    try {
+      const result = await this.query(
+        `INSERT INTO exchange_offers
+          (provider, requester, skill_id, hours, hourly_rate, scheduled_start,
+           scheduled_end, expires_at, nonce, signature)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [
+          offer.provider,
+          offer.requester ?? null,
+          offer.skillId,
+          offer.hours,
+          offer.hourlyRate,
+          offer.scheduledStart,
+          offer.scheduledEnd,
+          offer.expiresAt,
+          offer.nonce,
+          offer.signature,
+        ]
+      );
+
+      return this.rowToOffer(result.rows[0]);
+    } catch (error) {
+      // unique_violation on (provider, nonce)
+      if ((error as { code?: string }).code === '23505') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Get an offer by id, whatever its status
+   */
+  public async getOffer(id: string): Promise<ExchangeOffer | null> {
+    if (!/^\d+$/.test(id)) return null;
+
+    const result = await this.query('SELECT * FROM exchange_offers WHERE id = $1', [
+      parseInt(id),
+    ]);
+
+    return result.rows.length > 0 ? this.rowToOffer(result.rows[0]) : null;
+  }
+
+  /**
+   * Open, unexpired offers, soonest expiry first
+   */
+  public async getOpenOffers(filter: OfferQueryFilter = {}): Promise<ExchangeOffer[]> {
+    const conditions = ["status = 'open'", 'expires_at > $1'];
+    const params: unknown[] = [filter.now ?? Math.floor(Date.now() / 1000)];
+
+    if (filter.provider) {
+      params.push(filter.provider);
+      conditions.push(`provider = $${params.length}`);
+    }
+    if (filter.requester) {
+      params.push(filter.requester);
+      conditions.push(`(requester IS NULL OR requester = $${params.length})`);
+    }
+    if (filter.skillId !== undefined) {
+      params.push(filter.skillId);
+      conditions.push(`skill_id = $${params.length}`);
+    }
+
+    params.push(Math.min(Math.max(filter.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE));
+
+    const result = await this.query(
+      `SELECT * FROM exchange_offers
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY expires_at ASC, id ASC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(this.rowToOffer);
+  }
+
+  /**
+   * Withdraw an open offer. Resolves the withdrawn offer, or null if the
+   * provider has no open offer with that nonce
+   */
+  public async withdrawOffer(provider: string, nonce: string): Promise<ExchangeOffer | null> {
+    const result = await this.query(
+      `UPDATE exchange_offers
+       SET status = 'withdrawn', updated_at = NOW()
+       WHERE provider = $1 AND nonce = $2 AND status = 'open'
+       RETURNING *`,
+      [provider, nonce]
+    );
+
+    return result.rows.length > 0 ? this.rowToOffer(result.rows[0]) : null;
+  }
+
+  /**
+   * Mark an open offer accepted by a create-exchange-request. Resolves false
+   * if it is no longer open, not for this requester, or the transaction
+   * already accepted another offer
+   */
+  public async acceptOffer(id: string, requester: string, txId: string): Promise<boolean> {
+    if (!/^\d+$/.test(id)) return false;
+
+    const accepted = await this.query('SELECT id FROM exchange_offers WHERE tx_id = $1', [
+      txId,
+    ]);
+    if (accepted.rows.length > 0) return false;
+
+    const result = await this.query(
+      `UPDATE exchange_offers
+       SET status = 'accepted', accepted_by = $2, tx_id = $3, updated_at = NOW()
+       WHERE id = $1 AND status = 'open' AND provider <> $2
+         AND (requester IS NULL OR requester = $2)
+       RETURNING id`,
+      [parseInt(id), requester, txId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Convert database row to ExchangeOffer
+   */
+  private rowToOffer(row: any): ExchangeOffer {
+    return {
+      id: String(row.id),
+      provider: row.provider,
+      requester: row.requester ?? undefined,
+      skillId: parseInt(row.skill_id),
+      hours: parseInt(row.hours),
+      hourlyRate: parseInt(row.hourly_rate),
+      scheduledStart: parseInt(row.scheduled_start),
+      scheduledEnd: parseInt(row.scheduled_end),
+      expiresAt: parseInt(row.expires_at),
+      nonce: row.nonce,
+      signature: row.signature,
+      status: row.status,
+      acceptedBy: row.accepted_by ?? undefined,
+      txId: row.tx_id ?? undefined,
+      createdAt: new Date(row.created_at).getTime(),
+    };
+  }
+}
+
+// Singleton instance
+let exchangeOfferStore: ExchangeOfferStore | null = null;
+
+/**
+ * Get or create the offer store on the shared pool
+ */
+export function getExchangeOfferStore(): ExchangeOfferStore {
+  if (!exchangeOfferStore) {
+    exchangeOfferStore = new ExchangeOfferStore(getPool(), whenSchemaReady);
+  }
+  return exchangeOfferStore;
+}
@@ -0,0 +1,330 @@
+/**
+ * Exchange Offers
+ * SIP-018 signed offers to provide a skill, kept off-chain until a requester
+ * accepts one
+ *
+ * create-exchange-request has to be sent by the requester, so offers are
+ * made by providers: the provider signs the terms, the API stores them, and
+ * a requester accepts by sending create-exchange-request with those terms.
+ * Nothing touches the chain until then. The server only stores offers whose
+ * signature recovers to their provider, and each provider nonce is stored
+ * once, so a withdrawn or accepted offer cannot be posted again.
+ */
+
+import { bytesToHex } from '@stacks/common';
+import { CONTRACT_CONSTANTS, getContractIdentifier, getNetworkConfig } from './contractConfig';
+import { MessageSigner, verifyStructuredMessageSignature } from './message-signing';
+
+export interface ExchangeOfferTerms {
+  provider: string;
+  /** Only this requester may accept; anyone may when omitted */
+  requester?: string;
+  skillId: number;
+  hours: number;
+  /** Credits per hour; must still be the skill's rate on chain when accepted */
+  hourlyRate: number;
+  /** Unix seconds, compared against stacks-block-time */
+  scheduledStart: number;
+  scheduledEnd: number;
+  /** Unix seconds after which the offer can no longer be accepted */
+  expiresAt: number;
+  /** Single use per provider, see createOfferNonce */
+  nonce: string;
+}
+
+export interface SignedExchangeOffer extends ExchangeOfferTerms {
+  signature: string;
+}
+
+export type ExchangeOfferStatus = 'open' | 'accepted' | 'withdrawn';
+
+export interface ExchangeOffer extends SignedExchangeOffer {
+  id: string;
+  status: ExchangeOfferStatus;
+  /** Sender of the create-exchange-request that accepted the offer */
+  acceptedBy?: string;
+  txId?: string;
+  createdAt: number;
+}
+
+/** A provider's signed request to take down one of their offers */
+export interface OfferWithdrawal {
+  provider: string;
+  nonce: string;
+  signature: string;
+}
+
+/** Offers may stay open for at most this long */
+export const MAX_OFFER_LIFETIME_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+const OFFER_NONCE_PATTERN = /^[0-9a-f]{32}$/;
+const ADDRESS_PATTERN = /^S[PMTN][0-9A-Z]{20,}$/;
+
+/** Aborted on chain, or dropped from the mempool */
+const isFailedTxStatus = (status: string) => /^(abort|dropped)_/.test(status);
+
+const isWholeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+
+/** Network an address belongs to, which is also the network its signatures are bound to */
+export const getAddressNetwork = (address: string): 'mainnet' | 'testnet' =>
+  /^S[PM]/.test(address) ? 'mainnet' : 'testnet';
+
+/**
+ * Random 128-bit nonce for a new offer
+ */
+export const createOfferNonce = (): string => {
+  const bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  return bytesToHex(bytes);
+};
+
+/**
+ * The structured message a provider signs for an offer
+ */
+export const buildOfferMessage = (terms: ExchangeOfferTerms): Record<string, string | number> => ({
+  action: 'exchange-offer',
+  provider: terms.provider,
+  requester: terms.requester ?? '',
+  'skill-id': terms.skillId,
+  hours: terms.hours,
+  'hourly-rate': terms.hourlyRate,
+  'scheduled-start': terms.scheduledStart,
+  'scheduled-end': terms.scheduledEnd,
+  'expires-at': terms.expiresAt,
+  nonce: terms.nonce,
+});
+
+/**
+ * The structured message a provider signs to withdraw an offer. Provider and
+ * nonce identify the offer without depending on the id the server gave it
+ */
+export const buildWithdrawalMessage = (
+  offer: Pick<ExchangeOfferTerms, 'provider' | 'nonce'>
+): Record<string, string> => ({
+  action: 'withdraw-offer',
+  provider: offer.provider,
+  nonce: offer.nonce,
+});
+
+/**
+ * Problems with an offer's terms, empty if it can be published at `now`
+ * (unix seconds)
+ */
+export const validateOfferTerms = (
+  terms: ExchangeOfferTerms,
+  now = Math.floor(Date.now() / 1000)
+): string[] => {
+  const errors: string[] = [];
+  const { minExchangeDuration, maxExchangeDuration } = CONTRACT_CONSTANTS.exchangeManager;
+
+  if (!ADDRESS_PATTERN.test(terms.provider)) {
+    errors.push('Invalid provider address');
+  }
+  if (terms.requester !== undefined) {
+    if (!ADDRESS_PATTERN.test(terms.requester)) {
+      errors.push('Invalid requester address');
+    } else if (terms.requester === terms.provider) {
+      errors.push('Provider cannot make an offer to themselves');
+    } else if (getAddressNetwork(terms.requester) !== getAddressNetwork(terms.provider)) {
+      errors.push('Requester is on a different network than the provider');
+    }
+  }
+  if (!isWholeNumber(terms.skillId)) {
+    errors.push('skillId must be a non-negative integer');
+  }
+  if (!isWholeNumber(terms.hours) || terms.hours === 0) {
+    errors.push('hours must be a positive integer');
+  }
+  if (!isWholeNumber(terms.hourlyRate)) {
+    errors.push('hourlyRate must be a non-negative integer');
+  }
+
+  if (!isWholeNumber(terms.scheduledStart) || !isWholeNumber(terms.scheduledEnd)) {
+    errors.push('scheduledStart and scheduledEnd must be unix timestamps');
+  } else {
+    const duration = terms.scheduledEnd - terms.scheduledStart;
+    if (duration < minExchangeDuration || duration > maxExchangeDuration) {
+      errors.push(
+        `Exchange window must be between ${minExchangeDuration / 3600} and ` +
+          `${maxExchangeDuration / 3600} hours`
+      );
+    }
+    if (terms.scheduledStart <= now) {
+      errors.push('Exchange window must start in the future');
+    }
+  }
+
+  if (!isWholeNumber(terms.expiresAt) || terms.expiresAt <= now) {
+    errors.push('Offer must expire in the future');
+  } else if (terms.expiresAt - now > MAX_OFFER_LIFETIME_SECONDS) {
+    errors.push(`Offer cannot stay open longer than ${MAX_OFFER_LIFETIME_SECONDS / 86400} days`);
+  } else if (isWholeNumber(terms.scheduledStart) && terms.expiresAt > terms.scheduledStart) {
+    // create-exchange-request rejects windows that have already started
+    errors.push('Offer must expire before the exchange window starts');
+  }
+
+  if (typeof terms.nonce !== 'string' || !OFFER_NONCE_PATTERN.test(terms.nonce)) {
+    errors.push('nonce must be 32 lowercase hex characters');
+  }
+
+  return errors;
+};
+
+/**
+ * Read a signed offer from an untrusted request body, or null if a field is
+ * missing or of the wrong type. Terms still need validateOfferTerms
+ */
+export const parseSignedOffer = (body: unknown): SignedExchangeOffer | null => {
+  if (!body || typeof body !== 'object') return null;
+  const value = body as Record<string, unknown>;
+
+  const strings = ['provider', 'nonce', 'signature'] as const;
+  const numbers = ['skillId', 'hours', 'hourlyRate', 'scheduledStart', 'scheduledEnd', 'expiresAt'] as const;
+
+  if (strings.some((key) => typeof value[key] !== 'string')) return null;
+  if (numbers.some((key) => typeof value[key] !== 'number')) return null;
+  if (value.requester !== undefined && typeof value.requester !== 'string') return null;
+
+  return {
+    provider: value.provider as string,
+    ...(value.requester !== undefined && { requester: value.requester as string }),
+    skillId: value.skillId as number,
+    hours: value.hours as number,
+    hourlyRate: value.hourlyRate as number,
+    scheduledStart: value.scheduledStart as number,
+    scheduledEnd: value.scheduledEnd as number,
+    expiresAt: value.expiresAt as number,
+    nonce: value.nonce as string,
+    signature: value.signature as string,
+  };
+};
+
+/**
+ * Whether the offer was signed by its provider
+ */
+export const verifyOfferSignature = (offer: SignedExchangeOffer): boolean =>
+  verifyStructuredMessageSignature(
+    buildOfferMessage(offer),
+    offer.signature,
+    offer.provider,
+    getAddressNetwork(offer.provider)
+  ).valid;
+
+/**
+ * Whether the withdrawal was signed by the offer's provider
+ */
+export const verifyWithdrawalSignature = (withdrawal: OfferWithdrawal): boolean =>
+  verifyStructuredMessageSignature(
+    buildWithdrawalMessage(withdrawal),
+    withdrawal.signature,
+    withdrawal.provider,
+    getAddressNetwork(withdrawal.provider)
+  ).valid;
+
+export const isOfferExpired = (
+  offer: Pick<ExchangeOffer, 'expiresAt'>,
+  now = Math.floor(Date.now() / 1000)
+): boolean => offer.expiresAt <= now;
+
+/**
+ * Why `requester` cannot accept the offer at `now` (unix seconds), or null
+ * if they can
+ */
+export const getOfferAcceptError = (
+  offer: ExchangeOffer,
+  requester: string,
+  now = Math.floor(Date.now() / 1000)
+): string | null => {
+  if (offer.status !== 'open') return `Offer is ${offer.status}`;
+  if (isOfferExpired(offer, now)) return 'Offer has expired';
+  if (requester === offer.provider) return 'Providers cannot accept their own offer';
+  if (offer.requester && offer.requester !== requester) return 'Offer is for another requester';
+  return null;
+};
+
+/**
+ * Have the wallet sign new offer terms. The signer's network must be the
+ * provider's, since the SIP-018 domain binds the signature to a chain
+ */
+export const signOffer = async (
+  signer: MessageSigner,
+  terms: ExchangeOfferTerms
+): Promise<SignedExchangeOffer> => {
+  const signed = await signer.signStructuredData({ message: buildOfferMessage(terms) });
+  if (signed.address !== terms.provider) {
+    throw new Error('Offers must be signed by the provider wallet');
+  }
+  return { ...terms, signature: signed.signature };
+};
+
+/**
+ * Have the wallet sign the withdrawal of one of its offers
+ */
+export const signWithdrawal = async (
+  signer: MessageSigner,
+  offer: Pick<ExchangeOfferTerms, 'provider' | 'nonce'>
+): Promise<OfferWithdrawal> => {
+  const signed = await signer.signStructuredData({ message: buildWithdrawalMessage(offer) });
+  if (signed.address !== offer.provider) {
+    throw new Error('Only the provider can withdraw an offer');
+  }
+  return { provider: offer.provider, nonce: offer.nonce, signature: signed.signature };
+};
+
+interface ContractCallTransaction {
+  tx_type: string;
+  tx_status: string;
+  sender_address: string;
+  contract_call?: {
+    contract_id: string;
+    function_name: string;
+    function_args?: Array<{ repr: string }>;
+  };
+}
+
+/**
+ * Check a transaction is a create-exchange-request for the offer's terms,
+ * returning its sender (the accepting requester) or an error. Pending
+ * transactions count; one that later aborts leaves an accepted offer with
+ * no exchange on chain, which the exchange itself shows
+ */
+export const verifyAcceptanceTransaction = async (
+  offer: ExchangeOffer,
+  txId: string
+): Promise<{ requester: string } | { error: string }> => {
+  const response = await fetch(`${getNetworkConfig().apiUrl}/extended/v1/tx/${txId}`);
+  if (!response.ok) {
+    return { error: `Transaction ${txId} not found` };
+  }
+
+  const tx = (await response.json()) as ContractCallTransaction;
+  const call = tx.contract_call;
+
+  if (
+    tx.tx_type !== 'contract_call' ||
+    call?.contract_id !== getContractIdentifier('exchangeManager') ||
+    call.function_name !== 'create-exchange-request'
+  ) {
+    return { error: 'Transaction is not a create-exchange-request' };
+  }
+  if (isFailedTxStatus(tx.tx_status)) {
+    return { error: `Transaction failed (${tx.tx_status})` };
+  }
+
+  const args = (call.function_args ?? []).map((arg) => arg.repr);
+  const expected = [
+    `'${offer.provider}`,
+    `u${offer.skillId}`,
+    `u${offer.hours}`,
+    undefined, // description is the requester's
+    `u${offer.scheduledStart}`,
+    `u${offer.scheduledEnd}`,
+  ];
+  if (expected.some((repr, index) => repr !== undefined && args[index] !== repr)) {
+    return { error: 'Transaction does not match the offer terms' };
+  }
+
+  const acceptError = getOfferAcceptError(offer, tx.sender_address);
+  return acceptError ? { error: acceptError } : { requester: tx.sender_address };
+};
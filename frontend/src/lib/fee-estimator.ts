@@ -3,6 +3,7 @@
  * Estimates transaction fees for Stacks contract calls and token transfers
  */
 
+import { deserializeTransaction, serializePayload } from '@stacks/transactions';
 import type { StacksNetworkClient } from './stacks-network-client';
 
 export interface FeeEstimate {
@@ -21,7 +22,18 @@ export interface FeeEstimateRequest {
 
 export type FeeLevel = 'low' | 'medium' | 'high' | 'recommended';
 
+export interface FeePercentiles {
+  p25: bigint;
+  p50: bigint;
+  p75: bigint;
+  p95: bigint;
+  sampleSize: number;
+}
+
+export type FeeTransactionType = 'contract_call' | 'token_transfer' | 'smart_contract';
+
 const FEE_CACHE_TTL_MS = 30_000; // 30 seconds
+const RECENT_TX_SAMPLE_SIZE = 50;
 
 interface CachedFee {
   estimate: FeeEstimate;
@@ -77,6 +89,58 @@ export class FeeEstimator {
     }
   }
 
+  /**
+   * Estimate fees for a serialized transaction from the node's mempool-aware
+   * /v2/fees/transaction endpoint. Unlike estimateFee this throws instead of
+   * falling back, so callers can tell a real estimate from a guess.
+   */
+  async estimateTransactionFee(serializedTx: string): Promise<FeeEstimate> {
+    const hex = serializedTx.replace(/^0x/, '');
+    const cacheKey = `tx:${hex}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.estimate;
+    }
+
+    const transaction = deserializeTransaction(hex);
+    const endpoint = this.client.getPrimaryEndpoint();
+    const response = await fetch(`${endpoint}/v2/fees/transaction`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        transaction_payload: serializePayload(transaction.payload),
+        estimated_len: hex.length / 2,
+      }),
+    });
+    if (!response.ok) throw new Error(`Fee estimate failed: ${response.status}`);
+
+    const estimate = this.parseApiResponse(await response.json());
+    this.cache.set(cacheKey, { estimate, expiresAt: Date.now() + FEE_CACHE_TTL_MS });
+    return estimate;
+  }
+
+  /**
+   * Fee percentiles paid by recently confirmed transactions of a type
+   */
+  async getRecentFeePercentiles(txType: FeeTransactionType = 'contract_call'): Promise<FeePercentiles> {
+    const endpoint = this.client.getPrimaryEndpoint();
+    const response = await fetch(
+      `${endpoint}/extended/v1/tx?limit=${RECENT_TX_SAMPLE_SIZE}&type=${txType}`
+    );
+    if (!response.ok) throw new Error(`Recent transactions fetch failed: ${response.status}`);
+
+    const data = await response.json();
+    const fees: bigint[] = (data?.results ?? [])
+      .map((tx: { fee_rate?: string }) => tx.fee_rate)
+      .filter((fee: string | undefined): fee is string => !!fee && /^\d+$/.test(fee))
+      .map((fee: string) => BigInt(fee))
+      .sort((a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0));
+    if (fees.length === 0) throw new Error('No recent transactions to sample fees from');
+
+    const at = (p: number) => fees[Math.min(fees.length - 1, Math.floor((p / 100) * fees.length))];
+    return { p25: at(25), p50: at(50), p75: at(75), p95: at(95), sampleSize: fees.length };
+  }
+
   async estimateContractCallFee(
     contractAddress: string,
     contractName: string,
@@ -99,7 +163,10 @@ export class FeeEstimator {
   }
 
   private parseApiResponse(data: any): FeeEstimate {
-    const estimations: number[] = data?.estimations ?? [];
+    // The node returns [{ fee_rate, fee }, ...]; plain numbers are accepted too
+    const estimations: number[] = (data?.estimations ?? []).map(
+      (e: number | { fee: number }) => (typeof e === 'number' ? e : e.fee)
+    );
     if (estimations.length >= 3) {
       const [low, medium, high] = estimations.sort((a, b) => a - b);
       return {
@@ -0,0 +1,65 @@
+/**
+ * Match Submission Store
+ * Broadcast propose-match transactions kept in the match_submissions table
+ * until their match-proposed event arrives (server only)
+ */
+
+import { getPool, PostgresStore, whenSchemaReady } from './database';
+import type { MatchSubmission } from './skill-matcher';
+
+export class MatchSubmissionStore extends PostgresStore {
+  /**
+   * Record a broadcast propose-match, replacing an earlier one for the pair
+   */
+  public async saveMatchSubmission(submission: MatchSubmission): Promise<void> {
+    await this.query(
+      `INSERT INTO match_submissions (requester, provider, skill_id, tx_id)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (requester, provider, skill_id) DO UPDATE SET
+         tx_id = EXCLUDED.tx_id,
+         submitted_at = NOW()`,
+      [submission.requester, submission.provider, submission.skillId, submission.txId]
+    );
+  }
+
+  /**
+   * Get every propose-match still awaiting its match-proposed event
+   */
+  public async getMatchSubmissions(): Promise<MatchSubmission[]> {
+    const result = await this.query(
+      'SELECT requester, provider, skill_id, tx_id FROM match_submissions ORDER BY submitted_at ASC'
+    );
+
+    return result.rows.map((row) => ({
+      requester: row.requester,
+      provider: row.provider,
+      skillId: parseInt(row.skill_id),
+      txId: row.tx_id,
+    }));
+  }
+
+  /**
+   * Forget a propose-match once it has confirmed or failed
+   */
+  public async deleteMatchSubmission(txId: string): Promise<boolean> {
+    const result = await this.query(
+      'DELETE FROM match_submissions WHERE tx_id = $1 RETURNING tx_id',
+      [txId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+}
+
+// Singleton instance
+let matchSubmissionStore: MatchSubmissionStore | null = null;
+
+/**
+ * Get or create the match submission store on the shared pool
+ */
+export function getMatchSubmissionStore(): MatchSubmissionStore {
+  if (!matchSubmissionStore) {
+    matchSubmissionStore = new MatchSubmissionStore(getPool(), whenSchemaReady);
+  }
+  return matchSubmissionStore;
+}
@@ -3,21 +3,23 @@
  * Sign structured data and plain messages with Stacks wallets
  */
 
+import { bytesToHex } from '@stacks/common';
+import { hashMessage, verifyMessageSignatureRsv } from '@stacks/encryption';
 import {
-  openSignatureRequestPopup,
-  openStructuredDataSignatureRequestPopup,
-} from '@stacks/connect';
-import { verifyMessageSignatureRsv, getAddressFromPublicKey } from '@stacks/encryption';
-import {
-  createStacksPrivateKey,
+  getAddressFromPublicKey,
   publicKeyFromSignatureRsv,
   stringAsciiCV,
   tupleCV,
   uintCV,
-  bufferCV,
+  type ClarityValue,
+  type TupleCV,
 } from '@stacks/transactions';
-import type { UserSession } from '@stacks/auth';
-import type { AppDetails } from '@stacks/connect';
+import {
+  buildSIP018Payload,
+  signMessage,
+  signStructuredData,
+  verifyStructuredDataSignature,
+} from './connect';
 
 export interface SignedMessage {
   message: string;
@@ -27,13 +29,9 @@ export interface SignedMessage {
   signedAt: number;
 }
 
+/** Signed under the protocol's SIP-018 domain (TIMEBANK_SIP018_DOMAIN) */
 export interface StructuredSignatureData {
   message: Record<string, unknown>;
-  domain: {
-    name: string;
-    version: string;
-    chainId: number;
-  };
 }
 
 export interface SignatureVerifyResult {
@@ -43,8 +41,6 @@ export interface SignatureVerifyResult {
 }
 
 export interface MessageSigningConfig {
-  appDetails: AppDetails;
-  userSession: UserSession;
   network?: 'mainnet' | 'testnet';
 }
 
@@ -59,73 +55,33 @@ export class MessageSigner {
    * Signs a plain text message using the wallet
    */
   async signMessage(message: string): Promise<SignedMessage> {
-    return new Promise((resolve, reject) => {
-      openSignatureRequestPopup({
-        message,
-        appDetails: this.config.appDetails,
-        userSession: this.config.userSession,
-        onFinish: ({ signature, publicKey }) => {
-          resolve({
-            message,
-            signature,
-            publicKey,
-            address: getAddressFromPublicKey(publicKey, this.config.network === 'mainnet' ? 22 : 26),
-            signedAt: Date.now(),
-          });
-        },
-        onCancel: () => reject(new Error('User cancelled signature request')),
-      });
-    });
+    const { signature, publicKey } = await signMessage(message);
+    return this.toSignedMessage(message, signature, publicKey);
   }
 
   /**
-   * Signs a structured data payload (SIP-018 compatible)
+   * Signs a structured data payload under the protocol's SIP-018 domain
    */
   async signStructuredData(data: StructuredSignatureData): Promise<SignedMessage> {
-    const messageCV = this.buildMessageCV(data.message);
-    const domainCV = tupleCV({
-      name: stringAsciiCV(data.domain.name),
-      version: stringAsciiCV(data.domain.version),
-      'chain-id': uintCV(BigInt(data.domain.chainId)),
-    });
-
-    return new Promise((resolve, reject) => {
-      openStructuredDataSignatureRequestPopup({
-        message: messageCV,
-        domain: domainCV,
-        appDetails: this.config.appDetails,
-        userSession: this.config.userSession,
-        onFinish: ({ signature, publicKey }) => {
-          resolve({
-            message: JSON.stringify(data.message),
-            signature,
-            publicKey,
-            address: getAddressFromPublicKey(publicKey, this.config.network === 'mainnet' ? 22 : 26),
-            signedAt: Date.now(),
-          });
-        },
-        onCancel: () => reject(new Error('User cancelled structured signature')),
-      });
-    });
+    const { signature, publicKey } = await signStructuredData(
+      buildStructuredMessage(data.message),
+      this.config.network ?? 'testnet'
+    );
+    return this.toSignedMessage(JSON.stringify(data.message), signature, publicKey);
+  }
+
+  /**
+   * Signs a Sign-In With Stacks message (see createSignInMessage)
+   */
+  async signIn(fields: SignInMessage): Promise<SignedMessage> {
+    return this.signMessage(createSignInMessage(fields));
   }
 
   /**
    * Verifies a signed message
    */
   verifySignature(message: string, signature: string, expectedAddress?: string): SignatureVerifyResult {
-    try {
-      const isValid = verifyMessageSignatureRsv({ message, signature });
-      if (!isValid) return { valid: false };
-
-      const publicKey = publicKeyFromSignatureRsv(message, signature);
-      const addressVersion = this.config.network === 'mainnet' ? 22 : 26;
-      const recoveredAddress = getAddressFromPublicKey(publicKey, addressVersion);
-
-      const valid = expectedAddress ? recoveredAddress === expectedAddress : true;
-      return { valid, address: recoveredAddress, publicKey };
-    } catch {
-      return { valid: false };
-    }
+    return verifyMessageSignature(message, signature, expectedAddress, this.config.network);
   }
 
   /**
@@ -143,20 +99,155 @@ export class MessageSigner {
     ].join('\n');
   }
 
-  /**
-   * Builds a Clarity tuple CV from a plain object (shallow)
-   */
-  private buildMessageCV(obj: Record<string, unknown>) {
-    const entries: Record<string, ReturnType<typeof stringAsciiCV>> = {};
-    for (const [key, val] of Object.entries(obj)) {
-      if (typeof val === 'string') {
-        entries[key] = stringAsciiCV(val.slice(0, 128));
-      } else if (typeof val === 'number' || typeof val === 'bigint') {
-        entries[key] = uintCV(BigInt(val)) as any;
-      }
+  private toSignedMessage(message: string, signature: string, publicKey: string): SignedMessage {
+    return {
+      message,
+      signature,
+      publicKey,
+      address: getAddressFromPublicKey(publicKey, this.config.network ?? 'testnet'),
+      signedAt: Date.now(),
+    };
+  }
+}
+
+/**
+ * Sign-In With Stacks message, laid out like an EIP-4361 (Sign-In With
+ * Ethereum) message so wallets show the user what they are signing in to
+ */
+export interface SignInMessage {
+  /** Host of the site being signed in to */
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  /** See SIGN_IN_CHAIN_IDS */
+  chainId: number;
+  /** Issued by the server, single use */
+  nonce: string;
+  /** ISO 8601 */
+  issuedAt: string;
+  /** ISO 8601 */
+  expirationTime?: string;
+}
+
+/** Stacks chain ids (ChainId in @stacks/network) */
+export const SIGN_IN_CHAIN_IDS = {
+  mainnet: 1,
+  testnet: 2147483648,
+} as const;
+
+export const SIGN_IN_STATEMENT = 'Sign in to Time Banking Protocol';
+
+/**
+ * Text of a sign-in message, for the wallet to sign as a plain message
+ */
+export function createSignInMessage(fields: SignInMessage): string {
+  return [
+    `${fields.domain} wants you to sign in with your Stacks account:`,
+    fields.address,
+    '',
+    ...(fields.statement ? [fields.statement, ''] : []),
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    ...(fields.expirationTime ? [`Expiration Time: ${fields.expirationTime}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Read the fields of a sign-in message (see createSignInMessage), or null if
+ * it is not one
+ */
+export function parseSignInMessage(message: string): SignInMessage | null {
+  const line = (label: string) => new RegExp(`^${label}: (\\S+)$`, 'm').exec(message)?.[1];
+  const header = /^(\S+) wants you to sign in with your Stacks account:\n(S[0-9A-Z]+)\n\n(?:(.+)\n\n)?URI: /.exec(
+    message
+  );
+  const [uri, chainId, nonce, issuedAt, expirationTime] = [
+    'URI',
+    'Chain ID',
+    'Nonce',
+    'Issued At',
+    'Expiration Time',
+  ].map(line);
+  if (!header || !uri || !chainId || !nonce || !issuedAt) return null;
+
+  const fields: SignInMessage = {
+    domain: header[1],
+    address: header[2],
+    ...(header[3] && { statement: header[3] }),
+    uri,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    ...(expirationTime && { expirationTime }),
+  };
+  // Anything else in the message, or fields out of order, is not ours
+  return createSignInMessage(fields) === message ? fields : null;
+}
+
+/**
+ * Builds the Clarity tuple signed for a plain object (shallow): strings
+ * become string-ascii (first 128 chars), numbers uint, anything else is left
+ * out
+ */
+export function buildStructuredMessage(obj: Record<string, unknown>): TupleCV {
+  const entries: Record<string, ClarityValue> = {};
+  for (const [key, val] of Object.entries(obj)) {
+    if (typeof val === 'string') {
+      entries[key] = stringAsciiCV(val.slice(0, 128));
+    } else if (typeof val === 'number' || typeof val === 'bigint') {
+      entries[key] = uintCV(BigInt(val));
     }
-    return tupleCV(entries);
   }
+  return tupleCV(entries);
+}
+
+/**
+ * Verifies a signed message without a wallet session (e.g. server-side)
+ */
+export function verifyMessageSignature(
+  message: string,
+  signature: string,
+  expectedAddress?: string,
+  network: 'mainnet' | 'testnet' = 'testnet'
+): SignatureVerifyResult {
+  try {
+    // Recover the signer from the hash wallets sign, then check the signature
+    // against it (the legacy message prefix is accepted too)
+    const publicKey = publicKeyFromSignatureRsv(bytesToHex(hashMessage(message)), signature);
+    if (!verifyMessageSignatureRsv({ message, signature, publicKey })) return { valid: false };
+
+    const recoveredAddress = getAddressFromPublicKey(publicKey, network);
+
+    const valid = expectedAddress ? recoveredAddress === expectedAddress : true;
+    return { valid, address: recoveredAddress, publicKey };
+  } catch {
+    return { valid: false };
+  }
+}
+
+/**
+ * Verifies a structured data signature (see MessageSigner.signStructuredData)
+ * without a wallet session. The message is rebuilt from `message`, so it must
+ * hold the same fields that were signed
+ */
+export function verifyStructuredMessageSignature(
+  message: Record<string, unknown>,
+  signature: string,
+  expectedAddress?: string,
+  network: 'mainnet' | 'testnet' = 'testnet'
+): SignatureVerifyResult {
+  const payload = buildSIP018Payload(buildStructuredMessage(message), network);
+  const { verified, address, publicKey } = verifyStructuredDataSignature(
+    payload,
+    signature,
+    expectedAddress,
+    network
+  );
+  return { valid: verified, address, publicKey };
 }
 
 export function createMessageSigner(config: MessageSigningConfig): MessageSigner {
@@ -4,17 +4,48 @@
  */
 
 import type { StacksNetworkClient } from './stacks-network-client';
+import { CallStatus, isCallSuccess, type CallState } from './connect/contract-call-flow';
+import { openTransferDialog, type TransferRequest } from './connect/stx-transfer-flow';
+import { MinFeeStrategy } from './transactions/fee-strategies';
+import { CANCEL_AMOUNT, CANCEL_RECIPIENTS } from './transactions/replace-by-fee';
 
 export interface NonceInfo {
   possible_next_nonce: number;
   detected_missing_nonces: number[];
   last_executed_tx_nonce: number | null;
+  last_mempool_tx_nonce: number | null;
+}
+
+/**
+ * How the locally handed-out nonce compares with the chain
+ *
+ * - `behind`: the next local nonce has already been executed
+ * - `ahead`: nonces were handed out that never reached the mempool
+ */
+export type LocalNonceState = 'unknown' | 'in-sync' | 'behind' | 'ahead';
+
+export interface NonceGapReport {
+  address: string;
+  missingNonces: number[];
+  localState: LocalNonceState;
+  localNonce: number | null;
+  lastExecutedNonce: number | null;
+  possibleNextNonce: number;
+  checkedAt: number;
+}
+
+export interface NonceRepairResult {
+  address: string;
+  filled: Array<{ nonce: number; txId: string }>;
+  failed: Array<{ nonce: number; error: string }>;
+  /** Next nonce the manager will hand out */
+  nextNonce: number;
 }
 
 export interface ManagedNonce {
   address: string;
   nonce: number;
-  source: 'api' | 'local' | 'incremented';
+  source: 'api' | 'local' | 'incremented' | 'replacement';
   fetchedAt: number;
 }
 
@@ -76,6 +107,20 @@ export class NonceManager {
     this.cachedNonces.delete(address);
   }
 
+  /**
+   * Hand out a nonce that is already in use by a pending transaction so it can
+   * be replaced. Throws once the chain has executed that nonce; the local
+   * counter and pending count are left untouched.
+   */
+  async reuseNonce(address: string, nonce: number): Promise<ManagedNonce> {
+    this.cachedNonces.delete(address);
+    const info = await this.fetchNonceInfo(address);
+    if (info.last_executed_tx_nonce !== null && nonce <= info.last_executed_tx_nonce) {
+      throw new Error(`Nonce ${nonce} for ${address} has already been executed`);
+    }
+    return { address, nonce, source: 'replacement', fetchedAt: Date.now() };
+  }
+
   getPendingCount(address: string): number {
     return this.pendingCounts.get(address) ?? 0;
   }
@@ -85,6 +130,77 @@ export class NonceManager {
     return info.detected_missing_nonces;
   }
 
+  /**
+   * Compare local state with the chain: nonces missing below a pending
+   * transaction stall everything after them, and a stale local counter hands
+   * out nonces the node will reject or never mine.
+   */
+  async detectGaps(address: string): Promise<NonceGapReport> {
+    this.cachedNonces.delete(address);
+    const info = await this.fetchNonceInfo(address);
+    const localNonce = this.localNonces.get(address) ?? null;
+
+    let localState: LocalNonceState = 'unknown';
+    if (localNonce !== null) {
+      if (localNonce + 1 < info.possible_next_nonce) localState = 'behind';
+      else if (localNonce + 1 > info.possible_next_nonce) localState = 'ahead';
+      else localState = 'in-sync';
+    }
+
+    return {
+      address,
+      missingNonces: [...info.detected_missing_nonces].sort((a, b) => a - b),
+      localState,
+      localNonce,
+      lastExecutedNonce: info.last_executed_tx_nonce,
+      possibleNextNonce: info.possible_next_nonce,
+      checkedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Fill missing nonces with minimum-fee transfers signed in the wallet, so
+   * the transactions queued behind them can be mined, then resync the local
+   * counter. Fillers send one micro-STX to the burn address because nodes
+   * reject zero-value and self transfers. Stops asking once the user cancels.
+   */
+  async repair(
+    address: string,
+    transfer: (request: TransferRequest) => Promise<CallState> = (request) =>
+      openTransferDialog(request)
+  ): Promise<NonceRepairResult> {
+    const report = await this.detectGaps(address);
+    const network = this.client.getNetwork() === 'mainnet' ? 'mainnet' : 'testnet';
+    const result: NonceRepairResult = {
+      address,
+      filled: [],
+      failed: [],
+      nextNonce: report.possibleNextNonce,
+    };
+
+    for (const nonce of report.missingNonces) {
+      const state = await transfer({
+        recipient: CANCEL_RECIPIENTS[network],
+        amount: CANCEL_AMOUNT,
+        memo: 'nonce gap',
+        fee: new MinFeeStrategy().estimateFee(),
+        nonce,
+        network,
+      });
+      if (isCallSuccess(state)) {
+        result.filled.push({ nonce, txId: state.txId as string });
+        continue;
+      }
+      result.failed.push({ nonce, error: state.error ?? 'Repair failed' });
+      if (state.status === CallStatus.Cancelled) break;
+    }
+
+    this.resetNonce(address);
+    this.localNonces.set(address, report.possibleNextNonce - 1);
+    this.pendingCounts.set(address, 0);
+    return result;
+  }
+
   private async fetchNonceInfo(address: string): Promise<NonceInfo> {
     const cached = this.cachedNonces.get(address);
     if (cached && cached.expiresAt > Date.now()) {
@@ -92,19 +208,20 @@ export class NonceManager {
     }
 
     const endpoint = this.client.getPrimaryEndpoint();
-    const url = `${endpoint}/v2/accounts/${address}?unanchored=true`;
+    const url = `${endpoint}/extended/v1/address/${address}/nonces`;
     const response = await fetch(url);
 
     if (!response.ok) {
-      // Return safe defaults
-      return { possible_next_nonce: 0, detected_missing_nonces: [], last_executed_tx_nonce: null };
+      // A guessed nonce would be rejected or stall behind a gap, so let callers see the failure
+      throw new Error(`Failed to fetch nonces for ${address}: ${response.status}`);
     }
 
     const data = await response.json();
     const info: NonceInfo = {
-      possible_next_nonce: data.nonce ?? 0,
-      detected_missing_nonces: [],
-      last_executed_tx_nonce: data.nonce ? data.nonce - 1 : null,
+      possible_next_nonce: data.possible_next_nonce ?? 0,
+      detected_missing_nonces: data.detected_missing_nonces ?? [],
+      last_executed_tx_nonce: data.last_executed_tx_nonce ?? null,
+      last_mempool_tx_nonce: data.last_mempool_tx_nonce ?? null,
     };
 
     this.cachedNonces.set(address, {
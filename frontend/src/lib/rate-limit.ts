@@ -0,0 +1,77 @@
+/**
+ * Rate Limiting
+ * Fixed-window request limits for API routes (server only)
+ *
+ * Counts live in the memory of each server instance, so the effective limit
+ * is per instance; that is enough to stop one client hammering a route.
+ */
+
+import type { NextApiRequest } from 'next';
+
+export interface RateLimitOptions {
+  /** Requests allowed per key in each window */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the key's window resets */
+  retryAfter: number;
+}
+
+export class RateLimiter {
+  private limit: number;
+  private windowMs: number;
+  private windows: Map<string, { count: number; resetAt: number }> = new Map();
+  private lastSweepAt = 0;
+
+  constructor(options: RateLimitOptions) {
+    this.limit = options.limit;
+    this.windowMs = options.windowMs;
+  }
+
+  /**
+   * Count a request for `key`, and whether it is within the limit
+   */
+  public take(key: string, now = Date.now()): RateLimitResult {
+    this.sweep(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+
+    return {
+      allowed: window.count <= this.limit,
+      remaining: Math.max(this.limit - window.count, 0),
+      retryAfter: Math.ceil((window.resetAt - now) / 1000),
+    };
+  }
+
+  /**
+   * Forget keys whose window has ended, at most once per window
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweepAt < this.windowMs) return;
+    this.lastSweepAt = now;
+
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
+
+/**
+ * The client address of a request: the first X-Forwarded-For hop set by the
+ * proxy in front of the app, else the socket's peer
+ */
+export function getClientAddress(req: NextApiRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+
+  return first || req.socket?.remoteAddress || 'unknown';
+}
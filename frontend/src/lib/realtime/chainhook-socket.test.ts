@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Cl, serializeCV } from '@stacks/transactions';
+import { ChainhookSocketServer } from './chainhook-socket';
+import type { RealtimeSocketServer } from './socket-server';
+import type { ChainhookPayload } from '@/types/realtime';
+
+const CONTRACT_ID = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.exchange-manager';
+const REQUESTER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const PROVIDER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+function createPayload(
+  events: Array<{ type: string; data: any; position?: { index: number } }>
+): ChainhookPayload {
+  return {
+    apply: [
+      {
+        block_identifier: { index: 100, hash: '0xblock100' },
+        parent_block_identifier: { index: 99, hash: '0xblock99' },
+        timestamp: 1700000000,
+        transactions: [
+          {
+            transaction_identifier: { hash: '0xtx1' },
+            metadata: {
+              sender: REQUESTER,
+              success: true,
+              receipt: { events },
+              contract_calls_stack: [
+                { contract_identifier: CONTRACT_ID, function_name: 'complete-exchange', function_args: [] },
+              ],
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+describe('ChainhookSocketServer print event decoding', () => {
+  let server: ChainhookSocketServer;
+  let broadcastEvent: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    broadcastEvent = vi.fn();
+    server = new ChainhookSocketServer({
+      broadcastEvent,
+      broadcastReorg: vi.fn(),
+    } as unknown as RealtimeSocketServer);
+  });
+
+  it('decodes serialized Clarity print values into typed events', () => {
+    const rawValue = serializeCV(
+      Cl.tuple({
+        event: Cl.stringAscii('exchange-completed'),
+        'exchange-id': Cl.uint(7),
+        credits: Cl.uint(3),
+      })
+    );
+    const data = { contract_identifier: CONTRACT_ID, topic: 'print', raw_value: `0x${rawValue}` };
+
+    const [event] = server.processWebhookPayload(createPayload([{ type: 'print_event', data }]));
+
+    expect(event.eventType).toBe('exchange-completed');
+    expect(event.eventTopic).toBe('exchange-completed');
+    expect(event.value).toMatchObject({
+      event: 'exchange-completed',
+      exchangeId: 7,
+      credits: 3,
+      txId: '0xtx1',
+      blockHeight: 100,
+      contractId: CONTRACT_ID,
+    });
+    expect(event.raw).toEqual(data);
+    expect(broadcastEvent).toHaveBeenCalledWith(event);
+  });
+
+  it('decodes already-decoded print tuples', () => {
+    const data = {
+      contract_identifier: CONTRACT_ID,
+      topic: 'print',
+      value: { event: 'escrow-released', 'escrow-id': 2, beneficiary: PROVIDER, amount: 500 },
+    };
+
+    const [event] = server.processWebhookPayload(createPayload([{ type: 'print_event', data }]));
+
+    expect(event.eventType).toBe('escrow-released');
+    expect(event.value).toMatchObject({ escrowId: 2, beneficiary: PROVIDER, amount: 500 });
+    expect(event.affectedAddresses).toContain(PROVIDER);
+  });
+
+  it('keeps undecodable prints and other events as-is', () => {
+    const print = { contract_identifier: CONTRACT_ID, topic: 'print', value: { message: 'hello' } };
+    const transfer = { sender: REQUESTER, recipient: PROVIDER, amount: '100' };
+
+    const [printEvent, transferEvent] = server.processWebhookPayload(
+      createPayload([
+        { type: 'print_event', data: print },
+        { type: 'stx_transfer_event', data: transfer },
+      ])
+    );
+
+    expect(printEvent.eventType).toBe('print_event');
+    expect(printEvent.value).toEqual(print);
+    expect(printEvent.raw).toBeUndefined();
+    expect(transferEvent.eventType).toBe('stx_transfer_event');
+    expect(transferEvent.value).toEqual(transfer);
+  });
+
+  it('numbers each event by its position in the receipt', () => {
+    const print = { contract_identifier: CONTRACT_ID, topic: 'print', value: { message: 'hello' } };
+    const transfer = { sender: REQUESTER, recipient: PROVIDER, amount: '100' };
+
+    const events = server.processWebhookPayload(
+      createPayload([
+        { type: 'stx_transfer_event', data: transfer },
+        { type: 'print_event', data: print, position: { index: 3 } },
+      ])
+    );
+
+    expect(events.map((e) => [e.txHash, e.eventIndex])).toEqual([
+      ['0xtx1', 0],
+      ['0xtx1', 3],
+    ]);
+  });
+});
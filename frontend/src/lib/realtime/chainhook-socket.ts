@@ -4,7 +4,119 @@
  */
 
 import { RealtimeSocketServer } from './socket-server';
-import { ChainhookPayload, ChainhookEvent } from '@/types/realtime';
+import { ChainhookPayload, ChainhookEvent, ReorgNotice } from '@/types/realtime';
+import { createEventDecoder, DecodedTimeBankEvent } from '@/lib/event-decoder';
+
+type RollbackBlock = NonNullable<ChainhookPayload['rollback']>[number];
+
+const PRINT_EVENT_TYPES = new Set(['print_event', 'SmartContractEvent', 'smart_contract_log']);
+const PRINCIPAL_PATTERN = /^S[PTMN][0-9A-Z]{28,40}(\.[a-zA-Z][\w-]*)?$/;
+
+const decoder = createEventDecoder();
+
+/**
+ * Decode the events of a webhook payload's applied blocks
+ *
+ * Independent of any socket server, so the webhook can persist events
+ * whether or not clients are connected.
+ */
+export function decodeWebhookPayload(payload: ChainhookPayload): ChainhookEvent[] {
+  const events: ChainhookEvent[] = [];
+
+  payload.apply?.forEach((block) => {
+    block.transactions.forEach((tx) => {
+      if (tx.metadata.success && tx.metadata.receipt.events) {
+        tx.metadata.receipt.events.forEach((event, index) => {
+          events.push(convertToChainhookEvent(tx, event, block, event.position?.index ?? index));
+        });
+      }
+    });
+  });
+
+  return events;
+}
+
+/**
+ * Convert raw event to ChainhookEvent
+ */
+function convertToChainhookEvent(
+  tx: any,
+  event: any,
+  block: any,
+  eventIndex: number
+): ChainhookEvent {
+  // Extract contract ID from contract calls stack
+  let contractId = 'unknown';
+  let affectedAddresses: string[] = [tx.metadata.sender];
+
+  if (tx.metadata.contract_calls_stack && tx.metadata.contract_calls_stack.length > 0) {
+    contractId = tx.metadata.contract_calls_stack[0].contract_identifier;
+  }
+
+  // Extract affected addresses from event data
+  if (event.data) {
+    if (event.data.sender) affectedAddresses.push(event.data.sender);
+    if (event.data.receiver) affectedAddresses.push(event.data.receiver);
+    if (event.data.provider) affectedAddresses.push(event.data.provider);
+    if (event.data.beneficiary) affectedAddresses.push(event.data.beneficiary);
+  }
+
+  const decoded = PRINT_EVENT_TYPES.has(event.type)
+    ? decodePrintEvent(event.data, {
+        txId: tx.transaction_identifier.hash,
+        contractId: event.data?.contract_identifier || contractId,
+        blockHeight: block.block_identifier.index,
+      })
+    : null;
+
+  if (decoded) {
+    contractId = decoded.contractId || contractId;
+    Object.values(decoded).forEach((field) => {
+      if (typeof field === 'string' && PRINCIPAL_PATTERN.test(field) && field !== contractId) {
+        affectedAddresses.push(field);
+      }
+    });
+  }
+
+  // Remove duplicates
+  affectedAddresses = [...new Set(affectedAddresses)];
+
+  return {
+    txHash: tx.transaction_identifier.hash,
+    eventIndex,
+    blockHeight: block.block_identifier.index,
+    blockHash: block.block_identifier.hash,
+    contractId,
+    eventType: decoded ? decoded.event : event.type,
+    eventTopic: decoded ? decoded.event : event.data?.event || event.data?.topic,
+    value: decoded ?? event.data,
+    raw: decoded ? event.data : undefined,
+    affectedAddresses,
+    success: tx.metadata.success,
+    timestamp: block.timestamp || Date.now(),
+    metadata: {
+      sender: tx.metadata.sender,
+      functionName: tx.metadata.contract_calls_stack?.[0]?.function_name,
+    },
+  };
+}
+
+/**
+ * Decode a contract print event into a typed TimeBank event
+ *
+ * Chainhook delivers the print value either as serialized Clarity hex or as
+ * an already-decoded tuple depending on version. Returns null for prints
+ * that are not TimeBank events.
+ */
+function decodePrintEvent(
+  data: any,
+  context: { txId: string; contractId: string; blockHeight: number }
+): DecodedTimeBankEvent | null {
+  if (!data) return null;
+
+  const payload = data.raw_value ?? data.hex ?? data.value?.hex ?? data.value;
+  return decoder.decodePrintValue(payload, context);
+}
 
 export class ChainhookSocketServer {
   private socketServer: RealtimeSocketServer;
@@ -17,106 +129,65 @@ export class ChainhookSocketServer {
 
   /**
    * Process chainhook webhook payload
+   *
+   * Rollbacks are handled before applies so that a block replaced within the
+   * same payload is orphaned first and its replacement delivered afterwards.
+   * `orphanedEvents` are events the event store orphaned for this payload and
+   * are included in the reorg notice alongside those found in memory.
+   * `events` are the payload's decoded events, when the caller already has them.
    */
-  public processWebhookPayload(payload: ChainhookPayload): ChainhookEvent[] {
-    const events: ChainhookEvent[] = [];
-
-    // Handle apply (new blocks)
-    if (payload.apply && payload.apply.length > 0) {
-      payload.apply.forEach((block) => {
-        block.transactions.forEach((tx) => {
-          if (tx.metadata.success && tx.metadata.receipt.events) {
-            tx.metadata.receipt.events.forEach((event) => {
-              const chainhookEvent = this.convertToChainhookEvent(
-                tx,
-                event,
-                block
-              );
-              events.push(chainhookEvent);
-
-              // Store in history
-              this.addToHistory(chainhookEvent);
-
-              // Broadcast to connected clients
-              this.socketServer.broadcastEvent(chainhookEvent);
-            });
-          }
-        });
-      });
-    }
-
+  public processWebhookPayload(
+    payload: ChainhookPayload,
+    orphanedEvents: ChainhookEvent[] = [],
+    events: ChainhookEvent[] = decodeWebhookPayload(payload)
+  ): ChainhookEvent[] {
     // Handle rollback (chain reorganization)
     if (payload.rollback && payload.rollback.length > 0) {
-      this.handleReorg(payload.rollback);
+      this.handleReorg(payload.rollback, orphanedEvents);
     }
 
-    return events;
-  }
-
-  /**
-   * Convert raw event to ChainhookEvent
-   */
-  private convertToChainhookEvent(
-    tx: any,
-    event: any,
-    block: any
-  ): ChainhookEvent {
-    // Extract contract ID from contract calls stack
-    let contractId = 'unknown';
-    let affectedAddresses: string[] = [tx.metadata.sender];
-
-    if (tx.metadata.contract_calls_stack && tx.metadata.contract_calls_stack.length > 0) {
-      contractId = tx.metadata.contract_calls_stack[0].contract_identifier;
-    }
-
-    // Extract affected addresses from event data
-    if (event.data) {
-      if (event.data.sender) affectedAddresses.push(event.data.sender);
-      if (event.data.receiver) affectedAddresses.push(event.data.receiver);
-      if (event.data.provider) affectedAddresses.push(event.data.provider);
-      if (event.data.beneficiary) affectedAddresses.push(event.data.beneficiary);
-    }
+    // Handle apply (new blocks)
+    events.forEach((event) => {
+      // Store in history
+      this.addToHistory(event);
 
-    // Remove duplicates
-    affectedAddresses = [...new Set(affectedAddresses)];
+      // Broadcast to connected clients
+      this.socketServer.broadcastEvent(event);
+    });
 
-    return {
-      txHash: tx.transaction_identifier.hash,
-      blockHeight: block.block_identifier.index,
-      blockHash: block.block_identifier.hash,
-      contractId,
-      eventType: event.type,
-      eventTopic: event.data?.event || event.data?.topic,
-      value: event.data,
-      affectedAddresses,
-      success: tx.metadata.success,
-      timestamp: block.timestamp || Date.now(),
-      metadata: {
-        sender: tx.metadata.sender,
-        functionName: tx.metadata.contract_calls_stack?.[0]?.function_name,
-      },
-    };
+    return events;
   }
 
   /**
    * Handle chain reorganization
    */
-  private handleReorg(rollbackBlocks: Array<{ block_identifier: { index: number; hash: string } }>): void {
-    const rollbackHeights = rollbackBlocks.map((b) => b.block_identifier.index);
+  private handleReorg(rollbackBlocks: RollbackBlock[], orphanedEvents: ChainhookEvent[]): void {
+    const rollbackHashes = new Set(rollbackBlocks.map((b) => b.block_identifier.hash));
+    const orphanedTxHashes = new Set(orphanedEvents.map((event) => event.txHash));
 
-    // Remove events from history
-    this.eventHistory = this.eventHistory.filter(
-      (event) => !rollbackHeights.includes(event.blockHeight)
-    );
+    // Remove events belonging to the rolled-back blocks from history
+    this.eventHistory = this.eventHistory.filter((event) => {
+      if (!rollbackHashes.has(event.blockHash)) return true;
+      orphanedTxHashes.add(event.txHash);
+      return false;
+    });
 
-    // Broadcast reorg notification
-    this.socketServer.broadcastStatus({
-      type: 'reorg',
-      message: `Chain reorganization detected, rolled back blocks: ${rollbackHeights.join(', ')}`,
+    const notice: ReorgNotice = {
+      rolledBackBlocks: rollbackBlocks.map((b) => ({
+        blockHeight: b.block_identifier.index,
+        blockHash: b.block_identifier.hash,
+      })),
+      orphanedTxHashes: Array.from(orphanedTxHashes),
       timestamp: Date.now(),
-    });
+    };
+
+    // Tell clients which transactions to undo
+    this.socketServer.broadcastReorg(notice);
 
-    console.warn(`[Chainhook] Handled reorg for blocks: ${rollbackHeights.join(', ')}`);
+    const heights = notice.rolledBackBlocks.map((b) => b.blockHeight).join(', ');
+    console.warn(
+      `[Chainhook] Handled reorg for blocks: ${heights} (${notice.orphanedTxHashes.length} orphaned tx)`
+    );
   }
 
   /**
@@ -4,49 +4,92 @@
  */
 
 import { Pool, PoolClient } from 'pg';
-import { ChainhookEvent } from '@/types/realtime';
-
-export class EventStore {
-  private pool: Pool;
-
-  constructor(connectionString?: string) {
-    this.pool = new Pool({
-      connectionString:
-        connectionString ||
-        process.env.DATABASE_URL ||
-        'postgresql://localhost:5432/timebank',
-      max: 20,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 2000,
-    });
+import {
+  ChainhookEvent,
+  EventPage,
+  EventQueryFilter,
+  ReplayCursor,
+  ReplayFilter,
+} from '@/types/realtime';
+import { Migration, MigrationRunner } from './migration-runner';
+import { getPool, PostgresStore, whenSchemaReady } from '../database';
+import type { SubscriptionRecord } from './subscription-manager';
+
+/**
+ * Insert an event, reviving it if it was orphaned by a reorg and has now been
+ * re-applied in a (possibly different) canonical block
+ */
+const UPSERT_EVENT_SQL = `INSERT INTO chainhook_events
+  (tx_hash, event_index, block_height, block_hash, contract_id, event_type,
+   event_topic, event_data, raw_data, affected_addresses, success, timestamp, metadata)
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+  ON CONFLICT (tx_hash, event_index) DO UPDATE SET
+    block_height = EXCLUDED.block_height,
+    block_hash = EXCLUDED.block_hash,
+    timestamp = EXCLUDED.timestamp,
+    orphaned = FALSE,
+    orphaned_at = NULL
+  WHERE chainhook_events.orphaned = TRUE
+  RETURNING id`;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+interface EventCursor {
+  blockHeight: number;
+  id: number;
+}
+
+/**
+ * Encode a (block_height, id) position as an opaque pagination cursor
+ */
+export function encodeEventCursor(cursor: EventCursor): string {
+  return Buffer.from(`${cursor.blockHeight}:${cursor.id}`).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor, returning null if it is malformed
+ */
+export function decodeEventCursor(cursor: string): EventCursor | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const match = /^(\d+):(\d+)$/.exec(decoded);
+  if (!match) return null;
+
+  return { blockHeight: parseInt(match[1]), id: parseInt(match[2]) };
+}
+
+export class EventStore extends PostgresStore {
+  constructor(connection?: string | Pool, ready?: () => Promise<void>) {
+    super(
+      connection && typeof connection !== 'string'
+        ? connection
+        : new Pool({
+            connectionString:
+              connection ||
+              process.env.DATABASE_URL ||
+              'postgresql://localhost:5432/timebank',
+            max: 20,
+            idleTimeoutMillis: 30000,
+            connectionTimeoutMillis: 2000,
+          }),
+      ready
+    );
+  }
+
+  /**
+   * Apply pending schema migrations
+   */
+  public async migrate(migrationsDir?: string): Promise<Migration[]> {
+    return new MigrationRunner(this.pool, migrationsDir).migrate();
   }
 
   /**
    * Save event to database
    */
   public async saveEvent(event: ChainhookEvent): Promise<void> {
-    const client = await this.pool.connect();
+    const client = await this.connect();
     try {
-      await client.query(
-        `INSERT INTO chainhook_events
-         (tx_hash, block_height, block_hash, contract_id, event_type,
-          event_topic, event_data, affected_addresses, success, timestamp, metadata)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-         ON CONFLICT (tx_hash) DO NOTHING`,
-        [
-          event.txHash,
-          event.blockHeight,
-          event.blockHash,
-          event.contractId,
-          event.eventType,
-          event.eventTopic || null,
-          JSON.stringify(event.value),
-          event.affectedAddresses,
-          event.success,
-          event.timestamp,
-          JSON.stringify(event.metadata || {}),
-        ]
-      );
+      await client.query(UPSERT_EVENT_SQL, this.eventToParams(event));
     } finally {
       client.release();
     }
@@ -56,34 +99,14 @@ export class EventStore {
    * Save multiple events in batch
    */
   public async saveEvents(events: ChainhookEvent[]): Promise<number> {
-    const client = await this.pool.connect();
+    const client = await this.connect();
     let saved = 0;
 
     try {
       await client.query('BEGIN');
 
       for (const event of events) {
-        const result = await client.query(
-          `INSERT INTO chainhook_events
-           (tx_hash, block_height, block_hash, contract_id, event_type,
-            event_topic, event_data, affected_addresses, success, timestamp, metadata)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-           ON CONFLICT (tx_hash) DO NOTHING
-           RETURNING id`,
-          [
-            event.txHash,
-            event.blockHeight,
-            event.blockHash,
-            event.contractId,
-            event.eventType,
-            event.eventTopic || null,
-            JSON.stringify(event.value),
-            event.affectedAddresses,
-            event.success,
-            event.timestamp,
-            JSON.stringify(event.metadata || {}),
-          ]
-        );
+        const result = await client.query(UPSERT_EVENT_SQL, this.eventToParams(event));
 
         if (result.rowCount && result.rowCount > 0) {
           saved++;
@@ -105,8 +128,9 @@ export class EventStore {
    * Get recent events
    */
   public async getRecentEvents(limit = 50): Promise<ChainhookEvent[]> {
-    const result = await this.pool.query(
+    const result = await this.query(
       `SELECT * FROM chainhook_events
+       WHERE orphaned = FALSE
        ORDER BY block_height DESC, timestamp DESC
        LIMIT $1`,
       [limit]
@@ -122,9 +146,9 @@ export class EventStore {
     contractId: string,
     limit = 50
   ): Promise<ChainhookEvent[]> {
-    const result = await this.pool.query(
+    const result = await this.query(
       `SELECT * FROM chainhook_events
-       WHERE contract_id = $1
+       WHERE contract_id = $1 AND orphaned = FALSE
        ORDER BY block_height DESC, timestamp DESC
        LIMIT $2`,
       [contractId, limit]
@@ -140,9 +164,9 @@ export class EventStore {
     address: string,
     limit = 50
   ): Promise<ChainhookEvent[]> {
-    const result = await this.pool.query(
+    const result = await this.query(
       `SELECT * FROM chainhook_events
-       WHERE $1 = ANY(affected_addresses)
+       WHERE $1 = ANY(affected_addresses) AND orphaned = FALSE
        ORDER BY block_height DESC, timestamp DESC
        LIMIT $2`,
       [address, limit]
@@ -158,9 +182,9 @@ export class EventStore {
     eventType: string,
     limit = 50
   ): Promise<ChainhookEvent[]> {
-    const result = await this.pool.query(
+    const result = await this.query(
       `SELECT * FROM chainhook_events
-       WHERE event_type = $1
+       WHERE event_type = $1 AND orphaned = FALSE
        ORDER BY block_height DESC, timestamp DESC
        LIMIT $2`,
       [eventType, limit]
@@ -176,9 +200,9 @@ export class EventStore {
     startBlock: number,
     endBlock: number
   ): Promise<ChainhookEvent[]> {
-    const result = await this.pool.query(
+    const result = await this.query(
       `SELECT * FROM chainhook_events
-       WHERE block_height BETWEEN $1 AND $2
+       WHERE block_height BETWEEN $1 AND $2 AND orphaned = FALSE
        ORDER BY block_height ASC, timestamp ASC`,
       [startBlock, endBlock]
     );
@@ -186,25 +210,158 @@ export class EventStore {
     return result.rows.map(this.rowToEvent);
   }
 
+  /**
+   * Query events with optional filters and cursor pagination
+   */
+  public async queryEvents(filter: EventQueryFilter = {}): Promise<EventPage> {
+    const limit = Math.min(Math.max(filter.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const conditions: string[] = ['orphaned = FALSE'];
+    const params: unknown[] = [];
+
+    const addCondition = (sql: (placeholder: string) => string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql(`$${params.length}`));
+    };
+
+    if (filter.contractId) {
+      addCondition((p) => `contract_id = ${p}`, filter.contractId);
+    }
+    if (filter.eventType) {
+      addCondition((p) => `event_type = ${p}`, filter.eventType);
+    }
+    if (filter.address) {
+      addCondition((p) => `${p} = ANY(affected_addresses)`, filter.address);
+    }
+    if (filter.fromBlock !== undefined) {
+      addCondition((p) => `block_height >= ${p}`, filter.fromBlock);
+    }
+    if (filter.toBlock !== undefined) {
+      addCondition((p) => `block_height <= ${p}`, filter.toBlock);
+    }
+    if (filter.cursor) {
+      const cursor = decodeEventCursor(filter.cursor);
+      if (!cursor) {
+        throw new Error('Invalid cursor');
+      }
+      params.push(cursor.blockHeight, cursor.id);
+      const [height, id] = [`$${params.length - 1}`, `$${params.length}`];
+      conditions.push(`(block_height < ${height} OR (block_height = ${height} AND id < ${id}))`);
+    }
+
+    params.push(limit + 1);
+    const result = await this.query(
+      `SELECT * FROM chainhook_events
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY block_height DESC, id DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    const rows = result.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+    const nextCursor =
+      result.rows.length > limit && last
+        ? encodeEventCursor({ blockHeight: parseInt(last.block_height), id: last.id })
+        : null;
+
+    return {
+      events: rows.map(this.rowToEvent),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Get canonical events after a cursor matching any of the given rooms,
+   * oldest first
+   *
+   * If the cursor's event is not stored at its height (e.g. it was
+   * orphaned) the whole block is returned and callers de-duplicate.
+   */
+  public async getEventsSince(
+    cursor: ReplayCursor,
+    filter: ReplayFilter,
+    limit = DEFAULT_PAGE_SIZE
+  ): Promise<ChainhookEvent[]> {
+    const roomConditions: string[] = [];
+    const params: unknown[] = [cursor.blockHeight];
+
+    const addParam = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (filter.contractIds.length > 0) {
+      roomConditions.push(`contract_id IN (${filter.contractIds.map(addParam).join(', ')})`);
+    }
+    filter.addresses.forEach((address) => {
+      roomConditions.push(`${addParam(address)} = ANY(affected_addresses)`);
+    });
+    if (filter.eventTypes.length > 0) {
+      roomConditions.push(`event_type IN (${filter.eventTypes.map(addParam).join(', ')})`);
+    }
+
+    if (roomConditions.length === 0) return [];
+
+    const cursorRow = await this.query(
+      `SELECT id FROM chainhook_events WHERE tx_hash = $1 AND event_index = $2 AND block_height = $3`,
+      [cursor.txHash, cursor.eventIndex ?? 0, cursor.blockHeight]
+    );
+    const cursorId = cursorRow.rows[0] ? parseInt(cursorRow.rows[0].id) : 0;
+
+    const result = await this.query(
+      `SELECT * FROM chainhook_events
+       WHERE orphaned = FALSE
+         AND (block_height > $1 OR (block_height = $1 AND id > ${addParam(cursorId)}))
+         AND (${roomConditions.join(' OR ')})
+       ORDER BY block_height ASC, id ASC
+       LIMIT ${addParam(Math.min(Math.max(limit, 1), MAX_PAGE_SIZE))}`,
+      params
+    );
+
+    return result.rows.map(this.rowToEvent);
+  }
+
   /**
    * Handle chain reorganization
+   *
+   * Events from the rolled-back blocks are marked orphaned rather than deleted,
+   * so they can be revived if the same transactions are re-applied. Returns the
+   * events that were orphaned.
    */
-  public async handleReorg(rollbackBlocks: number[]): Promise<number> {
-    const result = await this.pool.query(
-      `DELETE FROM chainhook_events
-       WHERE block_height = ANY($1)
-       RETURNING id`,
-      [rollbackBlocks]
+  public async handleReorg(rollbackBlockHashes: string[]): Promise<ChainhookEvent[]> {
+    if (rollbackBlockHashes.length === 0) return [];
+
+    const result = await this.query(
+      `UPDATE chainhook_events
+       SET orphaned = TRUE, orphaned_at = NOW()
+       WHERE block_hash = ANY($1) AND orphaned = FALSE
+       RETURNING *`,
+      [rollbackBlockHashes]
     );
 
-    return result.rowCount || 0;
+    return result.rows.map(this.rowToEvent);
+  }
+
+  /**
+   * Get events orphaned by reorgs
+   */
+  public async getOrphanedEvents(limit = 50): Promise<ChainhookEvent[]> {
+    const result = await this.query(
+      `SELECT * FROM chainhook_events
+       WHERE orphaned = TRUE
+       ORDER BY block_height DESC, timestamp DESC
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map(this.rowToEvent);
   }
 
   /**
    * Get event statistics
    */
   public async getStats() {
-    const result = await this.pool.query(`
+    const result = await this.query(`
       SELECT
         COUNT(*) as total_events,
         COUNT(DISTINCT contract_id) as unique_contracts,
@@ -214,6 +371,7 @@ export class EventStore {
         MAX(timestamp) as newest_event,
         MAX(block_height) as highest_block
       FROM chainhook_events
+      WHERE orphaned = FALSE
     `);
 
     return result.rows[0];
@@ -225,7 +383,7 @@ export class EventStore {
   public async cleanOldEvents(retentionDays = 30): Promise<number> {
     const cutoffTime = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
 
-    const result = await this.pool.query(
+    const result = await this.query(
       `DELETE FROM chainhook_events
        WHERE timestamp < $1
        RETURNING id`,
@@ -235,12 +393,110 @@ export class EventStore {
     return result.rowCount || 0;
   }
 
+  /**
+   * Persist a subscription for a wallet address, reactivating it if it exists
+   */
+  public async saveSubscription(
+    address: string,
+    subscription: Pick<SubscriptionRecord, 'type' | 'target'>
+  ): Promise<SubscriptionRecord> {
+    const { type, target } = subscription;
+
+    const result = await this.query(
+      `INSERT INTO user_event_subscriptions
+        (user_address, subscription_type, target, contract_id, event_types)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_address, subscription_type, target) DO UPDATE SET
+         active = TRUE,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        address,
+        type,
+        target,
+        type === 'contract' ? target : null,
+        type === 'event-type' ? [target] : null,
+      ]
+    );
+
+    return this.rowToSubscription(result.rows[0]);
+  }
+
+  /**
+   * Get active subscriptions for a wallet address
+   */
+  public async getSubscriptions(address: string): Promise<SubscriptionRecord[]> {
+    const result = await this.query(
+      `SELECT * FROM user_event_subscriptions
+       WHERE user_address = $1 AND active = TRUE
+       ORDER BY created_at ASC, id ASC`,
+      [address]
+    );
+
+    return result.rows.map(this.rowToSubscription);
+  }
+
+  /**
+   * Deactivate a subscription by its target
+   */
+  public async deactivateSubscription(
+    address: string,
+    subscription: Pick<SubscriptionRecord, 'type' | 'target'>
+  ): Promise<boolean> {
+    const result = await this.query(
+      `UPDATE user_event_subscriptions
+       SET active = FALSE, updated_at = NOW()
+       WHERE user_address = $1 AND subscription_type = $2 AND target = $3 AND active = TRUE`,
+      [address, subscription.type, subscription.target]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Delete a subscription owned by a wallet address
+   */
+  public async deleteSubscription(address: string, id: string): Promise<boolean> {
+    if (!/^\d+$/.test(id)) return false;
+
+    const result = await this.query(
+      `DELETE FROM user_event_subscriptions
+       WHERE id = $1 AND user_address = $2
+       RETURNING id`,
+      [parseInt(id), address]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Build insert parameters for an event
+   */
+  private eventToParams(event: ChainhookEvent): unknown[] {
+    return [
+      event.txHash,
+      event.eventIndex ?? 0,
+      event.blockHeight,
+      event.blockHash,
+      event.contractId,
+      event.eventType,
+      event.eventTopic || null,
+      JSON.stringify(event.value),
+      event.raw === undefined ? null : JSON.stringify(event.raw),
+      event.affectedAddresses,
+      event.success,
+      event.timestamp,
+      JSON.stringify(event.metadata || {}),
+    ];
+  }
+
   /**
    * Convert database row to ChainhookEvent
    */
   private rowToEvent(row: any): ChainhookEvent {
     return {
       txHash: row.tx_hash,
+      eventIndex: row.event_index,
       blockHeight: parseInt(row.block_height),
       blockHash: row.block_hash,
       contractId: row.contract_id,
@@ -249,12 +505,31 @@ export class EventStore {
       value: typeof row.event_data === 'string'
         ? JSON.parse(row.event_data)
         : row.event_data,
+      raw: typeof row.raw_data === 'string'
+        ? JSON.parse(row.raw_data)
+        : row.raw_data ?? undefined,
       affectedAddresses: row.affected_addresses,
       success: row.success,
       timestamp: parseInt(row.timestamp),
       metadata: typeof row.metadata === 'string'
         ? JSON.parse(row.metadata)
         : row.metadata,
+      orphaned: row.orphaned === true,
+    };
+  }
+
+  /**
+   * Convert database row to SubscriptionRecord
+   */
+  private rowToSubscription(row: any): SubscriptionRecord {
+    return {
+      id: String(row.id),
+      userId: row.user_address,
+      type: row.subscription_type,
+      target: row.target,
+      eventTypes: row.event_types ?? undefined,
+      createdAt: new Date(row.created_at).getTime(),
+      active: row.active,
     };
   }
 
@@ -270,7 +545,7 @@ export class EventStore {
    */
   public async testConnection(): Promise<boolean> {
     try {
-      const result = await this.pool.query('SELECT NOW()');
+      const result = await this.query('SELECT NOW()');
       return !!result;
     } catch (error) {
       console.error('Database connection test failed:', error);
@@ -284,10 +559,13 @@ let eventStore: EventStore | null = null;
 
 /**
  * Get or create event store instance
+ *
+ * Uses the shared pool; with EVENT_STORE_AUTO_MIGRATE=true its queries wait
+ * for the schema migration to finish.
  */
 export function getEventStore(): EventStore {
   if (!eventStore) {
-    eventStore = new EventStore();
+    eventStore = new EventStore(getPool(), whenSchemaReady);
   }
   return eventStore;
 }
@@ -14,6 +14,7 @@ export {
   ChainhookSocketServer,
   initChainhookSocket,
   getChainhookSocket,
+  decodeWebhookPayload,
 } from './chainhook-socket';
 
 export {
@@ -27,6 +28,12 @@ export {
   getEventStore,
 } from './event-store';
 
+export {
+  MigrationRunner,
+  type Migration,
+  type MigrationStatus,
+} from './migration-runner';
+
 // Client-side exports
 export {
   SocketClient,
@@ -34,6 +41,7 @@ export {
   type EventHandler,
   type StatusHandler,
   type ErrorHandler,
+  type ReorgHandler,
 } from './socket-client';
 
 export {
@@ -57,6 +65,7 @@ export {
 export type {
   ChainhookEvent,
   ChainhookPayload,
+  ReorgNotice,
   Subscription,
   SubscriptionType,
   WebSocketMessage,
@@ -0,0 +1,348 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as path from 'path';
+import { newDb } from 'pg-mem';
+import type { Pool } from 'pg';
+import { MigrationRunner } from './migration-runner';
+import { EventStore } from './event-store';
+import { ExchangeOfferStore } from '@/lib/exchange-offer-store';
+import { WalletSessionStore } from '@/lib/wallet-session-store';
+import { MatchSubmissionStore } from '@/lib/match-submission-store';
+import { createMockChainhookEvent } from '@/test/utils';
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+function createPool(): Pool {
+  const { Pool: MemPool } = newDb().adapters.createPg();
+  return new MemPool() as unknown as Pool;
+}
+
+describe('MigrationRunner', () => {
+  let pool: Pool;
+  let runner: MigrationRunner;
+
+  beforeEach(() => {
+    pool = createPool();
+    runner = new MigrationRunner(pool, MIGRATIONS_DIR);
+  });
+
+  it('loads numbered migrations in order with their down scripts', () => {
+    const migrations = runner.loadMigrations();
+
+    expect(migrations.map((m) => m.version)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(migrations[0].name).toBe('create_events_table');
+    migrations.forEach((m) => expect(m.down).toBeDefined());
+  });
+
+  it('builds the full schema on an empty database', async () => {
+    const applied = await runner.migrate();
+
+    expect(applied).toHaveLength(10);
+
+    const columns = await pool.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'chainhook_events'`
+    );
+    expect(columns.rows.map((r) => r.column_name)).toEqual(
+      expect.arrayContaining(['tx_hash', 'block_hash', 'affected_addresses', 'orphaned', 'raw_data', 'event_index'])
+    );
+
+    const status = await runner.status();
+    expect(status.every((m) => m.applied)).toBe(true);
+  });
+
+  it('is a no-op when everything is applied', async () => {
+    await runner.migrate();
+
+    expect(await runner.migrate()).toEqual([]);
+  });
+
+  it('stops at the target version', async () => {
+    await runner.migrate(1);
+
+    const status = await runner.status();
+    expect(status.map((m) => m.applied)).toEqual([true, false, false, false, false, false, false, false, false, false]);
+  });
+
+  it('reverts the latest migration', async () => {
+    await runner.migrate();
+
+    const reverted = await runner.rollback();
+
+    expect(reverted.map((m) => m.version)).toEqual([10]);
+    const status = await runner.status();
+    expect(status.map((m) => m.applied)).toEqual([true, true, true, true, true, true, true, true, true, false]);
+
+    // Re-applying after a rollback works
+    expect(await runner.migrate()).toHaveLength(1);
+  });
+
+  it('reverts everything back to an empty schema', async () => {
+    await runner.migrate();
+    await runner.rollback(10);
+
+    await expect(pool.query('SELECT * FROM chainhook_events')).rejects.toThrow();
+  });
+});
+
+describe('EventStore while migrations run', () => {
+  it('holds queries until the schema is ready', async () => {
+    const pool = createPool();
+    let migration: Promise<void> | null = null;
+    const ready = () =>
+      (migration ??= new MigrationRunner(pool, MIGRATIONS_DIR).migrate().then(() => undefined));
+    const store = new EventStore(pool, ready);
+
+    // Issued before the tables exist
+    const saved = store.saveEvents([createMockChainhookEvent({ txHash: '0xtx1' })]);
+
+    expect(await saved).toBe(1);
+    expect((await store.queryEvents()).events).toHaveLength(1);
+  });
+});
+
+describe('EventStore on the migrated schema', () => {
+  let store: EventStore;
+
+  beforeEach(async () => {
+    store = new EventStore(createPool());
+    await store.migrate(MIGRATIONS_DIR);
+  });
+
+  it('saves and pages through events', async () => {
+    const events = [100, 101, 102].map((height) =>
+      createMockChainhookEvent({
+        txHash: `0xtx${height}`,
+        blockHeight: height,
+        blockHash: `0xblock${height}`,
+      })
+    );
+
+    expect(await store.saveEvents(events)).toBe(3);
+
+    const first = await store.queryEvents({ limit: 2 });
+    expect(first.events.map((e) => e.blockHeight)).toEqual([102, 101]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await store.queryEvents({ limit: 2, cursor: first.nextCursor! });
+    expect(second.events.map((e) => e.blockHeight)).toEqual([100]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('keeps every event of a transaction', async () => {
+    const transfer = createMockChainhookEvent({ txHash: '0xtx', eventIndex: 0, eventType: 'ft_transfer_event' });
+    const print = createMockChainhookEvent({ txHash: '0xtx', eventIndex: 1, eventType: 'exchange-completed' });
+
+    await store.saveEvents([transfer, print]);
+    // Redelivery of the same block does not duplicate them
+    await store.saveEvents([transfer, print]);
+
+    const { events } = await store.queryEvents({});
+    expect(events).toHaveLength(2);
+    expect(events.map((e) => [e.eventIndex, e.eventType])).toEqual(
+      expect.arrayContaining([
+        [0, 'ft_transfer_event'],
+        [1, 'exchange-completed'],
+      ])
+    );
+  });
+
+  it('round-trips the raw copy of decoded events', async () => {
+    const raw = { topic: 'print', raw_value: '0x0c' };
+    await store.saveEvent(
+      createMockChainhookEvent({ eventType: 'exchange-completed', value: { event: 'exchange-completed' }, raw })
+    );
+
+    const { events } = await store.queryEvents({ eventType: 'exchange-completed' });
+    expect(events[0].raw).toEqual(raw);
+    expect(events[0].value).toEqual({ event: 'exchange-completed' });
+  });
+
+  it('persists, reactivates and deletes wallet subscriptions', async () => {
+    const address = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+    const contractId = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.exchange-manager';
+
+    const contract = await store.saveSubscription(address, { type: 'contract', target: contractId });
+    await store.saveSubscription(address, { type: 'event-type', target: 'exchange-completed' });
+    await store.saveSubscription('ST1OTHER', { type: 'user', target: 'ST1OTHER' });
+
+    let subscriptions = await store.getSubscriptions(address);
+    expect(subscriptions.map((s) => `${s.type}:${s.target}`)).toEqual([
+      `contract:${contractId}`,
+      'event-type:exchange-completed',
+    ]);
+
+    expect(await store.deactivateSubscription(address, { type: 'contract', target: contractId })).toBe(true);
+    expect(await store.getSubscriptions(address)).toHaveLength(1);
+
+    // Subscribing again reactivates the same row
+    const reactivated = await store.saveSubscription(address, { type: 'contract', target: contractId });
+    expect(reactivated.id).toBe(contract.id);
+    subscriptions = await store.getSubscriptions(address);
+    expect(subscriptions).toHaveLength(2);
+
+    // Only the owning address can delete
+    expect(await store.deleteSubscription('ST1OTHER', contract.id)).toBe(false);
+    expect(await store.deleteSubscription(address, contract.id)).toBe(true);
+    expect(await store.getSubscriptions(address)).toHaveLength(1);
+  });
+
+  it('returns events after a replay cursor for the given rooms', async () => {
+    const contractId = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.exchange-manager';
+    await store.saveEvents([
+      createMockChainhookEvent({ txHash: '0xa', blockHeight: 100, contractId }),
+      createMockChainhookEvent({ txHash: '0xb', blockHeight: 100, contractId }),
+      createMockChainhookEvent({ txHash: '0xc', blockHeight: 101, contractId: 'ST1OTHER.contract' }),
+      createMockChainhookEvent({ txHash: '0xd', blockHeight: 102, contractId }),
+    ]);
+
+    const filter = { contractIds: [contractId], addresses: [], eventTypes: [] };
+
+    const events = await store.getEventsSince({ blockHeight: 100, txHash: '0xa' }, filter);
+    expect(events.map((e) => e.txHash)).toEqual(['0xb', '0xd']);
+
+    // Unknown cursor transactions replay the whole block
+    const fromUnknown = await store.getEventsSince({ blockHeight: 100, txHash: '0xgone' }, filter);
+    expect(fromUnknown.map((e) => e.txHash)).toEqual(['0xa', '0xb', '0xd']);
+
+    // Later events of the cursor's own transaction are still replayed
+    await store.saveEvent(createMockChainhookEvent({ txHash: '0xd', eventIndex: 1, blockHeight: 102, contractId }));
+    const fromEvent = await store.getEventsSince({ blockHeight: 102, txHash: '0xd', eventIndex: 0 }, filter);
+    expect(fromEvent.map((e) => [e.txHash, e.eventIndex])).toEqual([['0xd', 1]]);
+
+    expect(
+      await store.getEventsSince({ blockHeight: 0, txHash: '' }, { contractIds: [], addresses: [], eventTypes: [] })
+    ).toEqual([]);
+  });
+});
+
+describe('ExchangeOfferStore on the migrated schema', () => {
+  let store: ExchangeOfferStore;
+
+  beforeEach(async () => {
+    const pool = createPool();
+    await new MigrationRunner(pool, MIGRATIONS_DIR).migrate();
+    store = new ExchangeOfferStore(pool);
+  });
+
+  it('stores each provider nonce once and accepts or withdraws open offers', async () => {
+    const provider = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+    const requester = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+    const offer = {
+      provider,
+      skillId: 3,
+      hours: 2,
+      hourlyRate: 5,
+      scheduledStart: 1800090000,
+      scheduledEnd: 1800097200,
+      expiresAt: 1800003600,
+      nonce: 'a'.repeat(32),
+      signature: '00',
+    };
+
+    const saved = await store.saveOffer(offer);
+    expect(saved).toMatchObject({ ...offer, status: 'open', requester: undefined });
+    // Replaying the same signed offer is rejected
+    expect(await store.saveOffer(offer)).toBeNull();
+
+    const targeted = await store.saveOffer({ ...offer, nonce: 'b'.repeat(32), requester: 'ST1OTHER' });
+    const now = 1800000000;
+    expect((await store.getOpenOffers({ requester, now })).map((o) => o.id)).toEqual([saved!.id]);
+    expect(await store.getOpenOffers({ provider, now })).toHaveLength(2);
+    expect(await store.getOpenOffers({ provider, now: offer.expiresAt })).toEqual([]);
+
+    expect(await store.acceptOffer(targeted!.id, requester, '0x01')).toBe(false);
+    expect(await store.acceptOffer(saved!.id, requester, '0x01')).toBe(true);
+    expect(await store.getOffer(saved!.id)).toMatchObject({
+      status: 'accepted',
+      acceptedBy: requester,
+      txId: '0x01',
+    });
+    // One transaction cannot accept a second offer
+    const other = await store.saveOffer({ ...offer, nonce: 'c'.repeat(32) });
+    expect(await store.acceptOffer(other!.id, requester, '0x01')).toBe(false);
+
+    expect(await store.withdrawOffer(provider, offer.nonce)).toBeNull();
+    expect(await store.withdrawOffer(provider, 'b'.repeat(32))).toMatchObject({ status: 'withdrawn' });
+  });
+});
+
+describe('WalletSessionStore on the migrated schema', () => {
+  let store: WalletSessionStore;
+
+  beforeEach(async () => {
+    const pool = createPool();
+    await new MigrationRunner(pool, MIGRATIONS_DIR).migrate();
+    store = new WalletSessionStore(pool);
+  });
+
+  it('uses each sign-in nonce once and expires wallet sessions', async () => {
+    const address = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+    const now = 1800000000;
+    await store.saveAuthNonce('a'.repeat(32), now + 300);
+    await store.saveAuthNonce('b'.repeat(32), now - 1);
+
+    expect(await store.consumeAuthNonce('a'.repeat(32), now)).toBe(true);
+    expect(await store.consumeAuthNonce('a'.repeat(32), now)).toBe(false);
+    expect(await store.consumeAuthNonce('b'.repeat(32), now)).toBe(false);
+
+    const tokenHash = 'f'.repeat(64);
+    await store.createSession(tokenHash, address, now + 3600);
+    expect(await store.getSession(tokenHash, now)).toEqual({ address, expiresAt: now + 3600 });
+    expect(await store.getSession(tokenHash, now + 3600)).toBeNull();
+
+    expect(await store.deleteSession(tokenHash)).toBe(true);
+    expect(await store.getSession(tokenHash, now)).toBeNull();
+  });
+
+  it('keeps socket nonces apart from sign-in nonces', async () => {
+    const address = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+    const now = 1800000000;
+    await store.saveAuthNonce('a'.repeat(32), now + 60, address);
+    await store.saveAuthNonce('b'.repeat(32), now + 60);
+
+    // Neither kind is accepted as the other
+    expect(await store.consumeAuthNonce('a'.repeat(32), now)).toBe(false);
+    expect(await store.consumeSocketNonce('b'.repeat(32), now)).toBeNull();
+
+    expect(await store.consumeSocketNonce('a'.repeat(32), now)).toBe(address);
+    expect(await store.consumeSocketNonce('a'.repeat(32), now)).toBeNull();
+
+    await store.saveAuthNonce('c'.repeat(32), now, address);
+    expect(await store.consumeSocketNonce('c'.repeat(32), now)).toBeNull();
+  });
+
+  it('deletes expired nonces and sessions', async () => {
+    const now = 1800000000;
+    await store.saveAuthNonce('a'.repeat(32), now);
+    await store.saveAuthNonce('b'.repeat(32), now + 300);
+    await store.createSession('e'.repeat(64), 'ST1OLD', now - 1);
+    await store.createSession('f'.repeat(64), 'ST1CURRENT', now + 3600);
+
+    expect(await store.cleanExpired(now)).toBe(2);
+    expect(await store.consumeAuthNonce('b'.repeat(32), now)).toBe(true);
+    expect(await store.getSession('f'.repeat(64), now)).toMatchObject({ address: 'ST1CURRENT' });
+    expect(await store.cleanExpired(now)).toBe(0);
+  });
+});
+
+describe('MatchSubmissionStore on the migrated schema', () => {
+  let store: MatchSubmissionStore;
+
+  beforeEach(async () => {
+    const pool = createPool();
+    await new MigrationRunner(pool, MIGRATIONS_DIR).migrate();
+    store = new MatchSubmissionStore(pool);
+  });
+
+  it('tracks in-flight match proposals per pair', async () => {
+    const pair = { requester: 'ST1REQUESTER', provider: 'ST1PROVIDER', skillId: 3 };
+
+    await store.saveMatchSubmission({ ...pair, txId: '0xfirst' });
+    // A resubmission after a failure replaces the earlier transaction
+    await store.saveMatchSubmission({ ...pair, txId: '0xsecond' });
+
+    expect(await store.getMatchSubmissions()).toEqual([{ ...pair, txId: '0xsecond' }]);
+    expect(await store.deleteMatchSubmission('0xfirst')).toBe(false);
+    expect(await store.deleteMatchSubmission('0xsecond')).toBe(true);
+    expect(await store.getMatchSubmissions()).toEqual([]);
+  });
+});
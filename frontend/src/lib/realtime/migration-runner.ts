@@ -0,0 +1,206 @@
+/**
+ * Event Store Migration Runner
+ * Applies numbered SQL migrations to the realtime Postgres database
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Pool, PoolClient } from 'pg';
+
+/**
+ * A numbered migration loaded from disk
+ *
+ * `NNN_name.sql` holds the up migration; an optional `NNN_name.down.sql`
+ * reverses it.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down?: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt?: Date;
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+/**
+ * Default migrations directory: EVENT_STORE_MIGRATIONS_DIR, else relative to
+ * the frontend project root. Builds keep the files at that relative path
+ * through the outputFileTracingIncludes entry in next.config.js
+ */
+export const DEFAULT_MIGRATIONS_DIR =
+  process.env.EVENT_STORE_MIGRATIONS_DIR ||
+  path.join(process.cwd(), 'src', 'lib', 'realtime', 'migrations');
+
+export class MigrationRunner {
+  private pool: Pool;
+  private migrationsDir: string;
+  private tableReady = false;
+
+  constructor(pool: Pool, migrationsDir = DEFAULT_MIGRATIONS_DIR) {
+    this.pool = pool;
+    this.migrationsDir = migrationsDir;
+  }
+
+  /**
+   * Load migrations from disk, ordered by version
+   */
+  public loadMigrations(): Migration[] {
+    const files = fs.readdirSync(this.migrationsDir);
+    const migrations: Migration[] = [];
+
+    for (const file of files) {
+      const match = MIGRATION_FILE_PATTERN.exec(file);
+      if (!match || file.endsWith('.down.sql')) continue;
+
+      const version = parseInt(match[1]);
+      if (migrations.some((m) => m.version === version)) {
+        throw new Error(`Duplicate migration version ${version}`);
+      }
+
+      const downFile = path.join(this.migrationsDir, `${match[1]}_${match[2]}.down.sql`);
+
+      migrations.push({
+        version,
+        name: match[2],
+        up: fs.readFileSync(path.join(this.migrationsDir, file), 'utf-8'),
+        down: fs.existsSync(downFile) ? fs.readFileSync(downFile, 'utf-8') : undefined,
+      });
+    }
+
+    return migrations.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Get applied migration versions with their apply time
+   */
+  public async getApplied(): Promise<Map<number, Date>> {
+    await this.ensureMigrationsTable();
+
+    const result = await this.pool.query(
+      `SELECT version, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version ASC`
+    );
+
+    return new Map(
+      result.rows.map((row) => [parseInt(row.version), new Date(row.applied_at)])
+    );
+  }
+
+  /**
+   * Get status of every known migration
+   */
+  public async status(): Promise<MigrationStatus[]> {
+    const applied = await this.getApplied();
+
+    return this.loadMigrations().map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      appliedAt: applied.get(migration.version),
+    }));
+  }
+
+  /**
+   * Apply pending migrations up to (and including) the target version
+   */
+  public async migrate(targetVersion?: number): Promise<Migration[]> {
+    const applied = await this.getApplied();
+    const pending = this.loadMigrations().filter(
+      (m) =>
+        !applied.has(m.version) &&
+        (targetVersion === undefined || m.version <= targetVersion)
+    );
+
+    for (const migration of pending) {
+      await this.runInTransaction(migration, migration.up, async (client) => {
+        await client.query(
+          `INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES ($1, $2)`,
+          [migration.version, migration.name]
+        );
+      });
+      console.log(`[Migrations] Applied ${this.label(migration)}`);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Revert the most recently applied migrations
+   */
+  public async rollback(steps = 1): Promise<Migration[]> {
+    const applied = await this.getApplied();
+    const toRevert = this.loadMigrations()
+      .filter((m) => applied.has(m.version))
+      .reverse()
+      .slice(0, steps);
+
+    for (const migration of toRevert) {
+      if (!migration.down) {
+        throw new Error(`Migration ${this.label(migration)} has no down migration`);
+      }
+
+      await this.runInTransaction(migration, migration.down, async (client) => {
+        await client.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [
+          migration.version,
+        ]);
+      });
+      console.log(`[Migrations] Reverted ${this.label(migration)}`);
+    }
+
+    return toRevert;
+  }
+
+  /**
+   * Run migration SQL and bookkeeping in a single transaction
+   */
+  private async runInTransaction(
+    migration: Migration,
+    sql: string,
+    record: (client: PoolClient) => Promise<void>
+  ): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(sql);
+      await record(client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(
+        `Migration ${this.label(migration)} failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Create the migrations bookkeeping table if needed
+   */
+  private async ensureMigrationsTable(): Promise<void> {
+    if (this.tableReady) return;
+
+    await this.pool.query(
+      `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP DEFAULT NOW()
+      )`
+    );
+    this.tableReady = true;
+  }
+
+  private label(migration: Migration): string {
+    return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+  }
+}
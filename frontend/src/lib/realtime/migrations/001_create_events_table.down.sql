@@ -0,0 +1,4 @@
+-- Revert: Create chainhook_events table
+
+DROP TABLE IF EXISTS user_event_subscriptions;
+DROP TABLE IF EXISTS chainhook_events;
@@ -14,18 +14,17 @@ CREATE TABLE IF NOT EXISTS chainhook_events (
   success BOOLEAN NOT NULL,
   timestamp BIGINT NOT NULL,
   metadata JSONB DEFAULT '{}',
-  received_at TIMESTAMP DEFAULT NOW(),
-
-  -- Indexes for performance
-  INDEX idx_tx_hash (tx_hash),
-  INDEX idx_block_height (block_height DESC),
-  INDEX idx_contract_id (contract_id),
-  INDEX idx_event_type (event_type),
-  INDEX idx_timestamp (timestamp DESC),
-  INDEX idx_affected_addresses USING GIN(affected_addresses),
-  INDEX idx_event_data USING GIN(event_data)
+  received_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_block_height ON chainhook_events(block_height DESC);
+CREATE INDEX IF NOT EXISTS idx_contract_id ON chainhook_events(contract_id);
+CREATE INDEX IF NOT EXISTS idx_event_type ON chainhook_events(event_type);
+CREATE INDEX IF NOT EXISTS idx_timestamp ON chainhook_events(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_affected_addresses ON chainhook_events USING GIN(affected_addresses);
+CREATE INDEX IF NOT EXISTS idx_event_data ON chainhook_events USING GIN(event_data);
+
 -- Create user_event_subscriptions table
 CREATE TABLE IF NOT EXISTS user_event_subscriptions (
   id SERIAL PRIMARY KEY,
@@ -41,24 +40,9 @@ CREATE TABLE IF NOT EXISTS user_event_subscriptions (
   UNIQUE(user_address, contract_id, subscription_type)
 );
 
--- Indexes for subscriptions
-CREATE INDEX idx_user_subscriptions ON user_event_subscriptions(user_address) WHERE active = TRUE;
-CREATE INDEX idx_subscription_type ON user_event_subscriptions(subscription_type) WHERE active = TRUE;
-
--- Create function to update updated_at timestamp
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
-BEGIN
-  NEW.updated_at = NOW();
-  RETURN NEW;
-END;
-$$ language 'plpgsql';
-
--- Create trigger for updated_at
-CREATE TRIGGER update_subscriptions_updated_at
-  BEFORE UPDATE ON user_event_subscriptions
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
+-- Indexes for subscriptions (updated_at is maintained by the event store)
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions ON user_event_subscriptions(user_address) WHERE active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_subscription_type ON user_event_subscriptions(subscription_type) WHERE active = TRUE;
 
 -- Comments
 COMMENT ON TABLE chainhook_events IS 'Stores blockchain events received from Chainhooks';
@@ -0,0 +1,8 @@
+-- Revert: Track events orphaned by chain reorganizations
+
+DROP INDEX IF EXISTS idx_canonical_events;
+DROP INDEX IF EXISTS idx_block_hash;
+
+ALTER TABLE chainhook_events
+  DROP COLUMN IF EXISTS orphaned_at,
+  DROP COLUMN IF EXISTS orphaned;
@@ -0,0 +1,11 @@
+-- Migration: Track events orphaned by chain reorganizations
+-- Description: Rolled-back events are kept and flagged instead of deleted
+
+ALTER TABLE chainhook_events
+  ADD COLUMN IF NOT EXISTS orphaned BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS orphaned_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_block_hash ON chainhook_events(block_hash);
+CREATE INDEX IF NOT EXISTS idx_canonical_events ON chainhook_events(block_height DESC, id DESC) WHERE orphaned = FALSE;
+
+COMMENT ON COLUMN chainhook_events.orphaned IS 'True when the event''s block was rolled back by a reorg';
@@ -0,0 +1,4 @@
+-- Revert: Keep the undecoded chainhook payload alongside decoded events
+
+ALTER TABLE chainhook_events
+  DROP COLUMN IF EXISTS raw_data;
@@ -0,0 +1,8 @@
+-- Migration: Keep the undecoded chainhook payload alongside decoded events
+-- Description: event_data holds the typed TimeBank event for decoded print events,
+-- raw_data keeps the original chainhook event data for re-decoding
+
+ALTER TABLE chainhook_events
+  ADD COLUMN IF NOT EXISTS raw_data JSONB;
+
+COMMENT ON COLUMN chainhook_events.raw_data IS 'Original chainhook event data before decoding';
@@ -0,0 +1,6 @@
+-- Revert: Key subscriptions by the room they join
+
+DROP INDEX IF EXISTS idx_subscription_target;
+
+ALTER TABLE user_event_subscriptions
+  DROP COLUMN IF EXISTS target;
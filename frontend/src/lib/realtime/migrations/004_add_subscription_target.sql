@@ -0,0 +1,19 @@
+-- Migration: Key subscriptions by the room they join
+-- Description: contract_id alone cannot identify user and event-type subscriptions,
+-- so each row records its target (contract id, address or event type)
+
+ALTER TABLE user_event_subscriptions
+  ADD COLUMN IF NOT EXISTS target VARCHAR(255) NOT NULL DEFAULT '';
+
+UPDATE user_event_subscriptions
+  SET target = CASE subscription_type
+    WHEN 'contract' THEN COALESCE(contract_id, '')
+    WHEN 'event-type' THEN COALESCE(event_types[1], '')
+    ELSE user_address
+  END
+  WHERE target = '';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscription_target
+  ON user_event_subscriptions(user_address, subscription_type, target);
+
+COMMENT ON COLUMN user_event_subscriptions.target IS 'Subscribed contract id, address or event type';
@@ -0,0 +1,4 @@
+-- Revert: Create schedule_keeper_claims table
+
+DROP INDEX IF EXISTS idx_keeper_claim_execution;
+DROP TABLE IF EXISTS schedule_keeper_claims;
@@ -0,0 +1,20 @@
+-- Migration: Create schedule_keeper_claims table
+-- Description: Keepers claim an automation-scheduler execution before submitting
+-- execute-schedule, so concurrent keepers never submit the same execution twice.
+-- An execution is identified by its schedule id and the next-execution time it
+-- was due at, which moves forward once it succeeds on chain
+
+CREATE TABLE IF NOT EXISTS schedule_keeper_claims (
+  schedule_id BIGINT NOT NULL,
+  next_execution BIGINT NOT NULL,
+  keeper_id VARCHAR(100) NOT NULL,
+  tx_id VARCHAR(66),
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One claim per execution; keepers insert with ON CONFLICT against this index
+CREATE UNIQUE INDEX IF NOT EXISTS idx_keeper_claim_execution
+  ON schedule_keeper_claims(schedule_id, next_execution);
+
+COMMENT ON TABLE schedule_keeper_claims IS 'Execution claims held by automation-scheduler keepers';
+COMMENT ON COLUMN schedule_keeper_claims.tx_id IS 'execute-schedule transaction broadcast under this claim';
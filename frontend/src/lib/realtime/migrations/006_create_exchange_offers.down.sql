@@ -0,0 +1,3 @@
+-- Revert: Create exchange_offers table
+
+DROP TABLE IF EXISTS exchange_offers;
@@ -0,0 +1,39 @@
+-- Migration: Create exchange_offers table
+-- Description: Providers publish SIP-018 signed exchange offers off-chain; an
+-- offer only reaches the chain once a requester accepts it with
+-- create-exchange-request. Each provider nonce can be used once, so a signed
+-- offer cannot be replayed after it was withdrawn or accepted
+
+CREATE TABLE IF NOT EXISTS exchange_offers (
+  id BIGSERIAL PRIMARY KEY,
+  provider VARCHAR(128) NOT NULL,
+  requester VARCHAR(128),
+  skill_id BIGINT NOT NULL,
+  hours BIGINT NOT NULL,
+  hourly_rate BIGINT NOT NULL,
+  scheduled_start BIGINT NOT NULL,
+  scheduled_end BIGINT NOT NULL,
+  expires_at BIGINT NOT NULL,
+  nonce VARCHAR(64) NOT NULL,
+  signature VARCHAR(132) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  accepted_by VARCHAR(128),
+  tx_id VARCHAR(66),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_offer_nonce
+  ON exchange_offers(provider, nonce);
+
+-- A create-exchange-request creates one exchange, so it can accept one offer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_offer_tx
+  ON exchange_offers(tx_id);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_offer_open
+  ON exchange_offers(status, expires_at);
+
+COMMENT ON TABLE exchange_offers IS 'SIP-018 signed exchange offers awaiting a requester';
+COMMENT ON COLUMN exchange_offers.requester IS 'Only this requester may accept; NULL for open offers';
+COMMENT ON COLUMN exchange_offers.expires_at IS 'Unix seconds after which the offer can no longer be accepted';
+COMMENT ON COLUMN exchange_offers.tx_id IS 'create-exchange-request transaction sent by the accepting requester';
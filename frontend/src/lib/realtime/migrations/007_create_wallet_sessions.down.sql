@@ -0,0 +1,7 @@
+-- Revert: Create wallet_auth_nonces and wallet_sessions tables
+
+DROP INDEX IF EXISTS idx_wallet_session_address;
+DROP INDEX IF EXISTS idx_wallet_session_token;
+DROP TABLE IF EXISTS wallet_sessions;
+DROP INDEX IF EXISTS idx_wallet_auth_nonce;
+DROP TABLE IF EXISTS wallet_auth_nonces;
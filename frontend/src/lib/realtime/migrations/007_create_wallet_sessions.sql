@@ -0,0 +1,33 @@
+-- Migration: Create wallet_auth_nonces and wallet_sessions tables
+-- Description: Sign-In With Stacks. The server issues a nonce, the wallet signs
+-- a sign-in message containing it, and the server exchanges the signature for
+-- a session cookie. Nonces are deleted when used so a signed message can only
+-- start one session; sessions store a hash of the cookie token, never the token
+
+CREATE TABLE IF NOT EXISTS wallet_auth_nonces (
+  nonce VARCHAR(64) NOT NULL,
+  expires_at BIGINT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_auth_nonce
+  ON wallet_auth_nonces(nonce);
+
+CREATE TABLE IF NOT EXISTS wallet_sessions (
+  token_hash VARCHAR(64) NOT NULL,
+  address VARCHAR(128) NOT NULL,
+  expires_at BIGINT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_session_token
+  ON wallet_sessions(token_hash);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_session_address
+  ON wallet_sessions(address);
+
+COMMENT ON TABLE wallet_auth_nonces IS 'Unused Sign-In With Stacks nonces';
+COMMENT ON COLUMN wallet_auth_nonces.expires_at IS 'Unix seconds after which the nonce can no longer sign in';
+COMMENT ON TABLE wallet_sessions IS 'API sessions started by a verified wallet signature';
+COMMENT ON COLUMN wallet_sessions.token_hash IS 'SHA-256 of the session cookie token, hex';
+COMMENT ON COLUMN wallet_sessions.expires_at IS 'Unix seconds after which the session is rejected';
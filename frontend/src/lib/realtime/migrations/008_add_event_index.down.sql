@@ -0,0 +1,12 @@
+-- Revert: Key events by their position within the transaction
+-- Only the first event of each transaction fits the old tx_hash key
+
+DROP INDEX IF EXISTS idx_event_position;
+
+DELETE FROM chainhook_events WHERE event_index > 0;
+
+ALTER TABLE chainhook_events
+  DROP COLUMN IF EXISTS event_index;
+
+ALTER TABLE chainhook_events
+  ADD CONSTRAINT chainhook_events_tx_hash_key UNIQUE (tx_hash);
@@ -0,0 +1,15 @@
+-- Migration: Key events by their position within the transaction
+-- Description: a transaction can emit several events (e.g. a transfer and a
+-- print), so tx_hash alone is not unique; event_index is the event's position
+-- in the transaction receipt
+
+ALTER TABLE chainhook_events
+  ADD COLUMN IF NOT EXISTS event_index INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE chainhook_events
+  DROP CONSTRAINT IF EXISTS chainhook_events_tx_hash_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_position
+  ON chainhook_events(tx_hash, event_index);
+
+COMMENT ON COLUMN chainhook_events.event_index IS 'Position of the event in its transaction receipt';
@@ -0,0 +1,4 @@
+-- Revert: Create match_submissions table
+
+DROP INDEX IF EXISTS idx_match_submission_pair;
+DROP TABLE IF EXISTS match_submissions;
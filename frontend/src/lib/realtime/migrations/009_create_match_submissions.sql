@@ -0,0 +1,18 @@
+-- Migration: Create match_submissions table
+-- Description: propose-match transactions the skill matcher has broadcast but
+-- whose match-proposed event has not been stored yet. The matcher skips these
+-- pairs until the event arrives or the transaction fails, so a pending
+-- proposal is never sent twice
+
+CREATE TABLE IF NOT EXISTS match_submissions (
+  requester VARCHAR(128) NOT NULL,
+  provider VARCHAR(128) NOT NULL,
+  skill_id BIGINT NOT NULL,
+  tx_id VARCHAR(66) NOT NULL,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_submission_pair
+  ON match_submissions(requester, provider, skill_id);
+
+COMMENT ON TABLE match_submissions IS 'In-flight propose-match transactions sent by the skill matcher';
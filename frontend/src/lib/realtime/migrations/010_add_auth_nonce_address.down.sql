@@ -0,0 +1,6 @@
+-- Revert: Bind socket sign-in nonces to a wallet address
+
+DELETE FROM wallet_auth_nonces WHERE address IS NOT NULL;
+
+ALTER TABLE wallet_auth_nonces
+  DROP COLUMN IF EXISTS address;
@@ -0,0 +1,9 @@
+-- Migration: Bind socket sign-in nonces to a wallet address
+-- Description: A signed-in wallet authenticates its realtime socket with a
+-- single-use nonce issued for its session's address. Sign-in nonces keep a
+-- NULL address, so neither kind can be used in place of the other
+
+ALTER TABLE wallet_auth_nonces
+  ADD COLUMN IF NOT EXISTS address VARCHAR(128);
+
+COMMENT ON COLUMN wallet_auth_nonces.address IS 'Signed-in address a socket nonce was issued to; NULL for sign-in nonces';
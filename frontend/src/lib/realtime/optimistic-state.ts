@@ -3,7 +3,7 @@
  * Manages optimistic updates with automatic rollback on failure
  */
 
-import { OptimisticUpdate } from '@/types/realtime';
+import { OptimisticUpdate, ReorgNotice } from '@/types/realtime';
 import { getSocketClient } from './socket-client';
 
 export type OnConfirmCallback<T> = (data: T) => void;
@@ -52,9 +52,12 @@ export class OptimisticStateManager {
     if (!update) return false;
 
     update.status = 'confirmed';
-    // Keep confirmed updates for a short time for reference
+    // Keep confirmed updates for a short time for reference (a reorg may
+    // move them back to pending in the meantime)
     setTimeout(() => {
-      this.pendingUpdates.delete(id);
+      if (this.pendingUpdates.get(id)?.status === 'confirmed') {
+        this.pendingUpdates.delete(id);
+      }
     }, 5000);
 
     return true;
@@ -181,6 +184,35 @@ export class OptimisticStateManager {
     });
   }
 
+  /**
+   * Undo confirmations whose transactions were orphaned by a reorg
+   *
+   * Affected updates go back to pending and wait for the transaction to be
+   * re-applied in a canonical block; if it is not, they revert on timeout.
+   */
+  public handleReorg(notice: ReorgNotice): OptimisticUpdate[] {
+    const orphaned = new Set(notice.orphanedTxHashes);
+    const affected: OptimisticUpdate[] = [];
+
+    this.pendingUpdates.forEach((update) => {
+      if (
+        update.status === 'confirmed' &&
+        update.relatedTxId &&
+        orphaned.has(update.relatedTxId)
+      ) {
+        update.status = 'pending';
+        update.expiresAt = Date.now() + this.defaultTTL;
+        affected.push(update);
+
+        this.waitForConfirmation(update.relatedTxId, update.id).catch(() => {
+          this.revertUpdate(update.id);
+        });
+      }
+    });
+
+    return affected;
+  }
+
   /**
    * Clear expired updates
    */
@@ -245,7 +277,9 @@ let optimisticStateManager: OptimisticStateManager | null = null;
  */
 export function getOptimisticStateManager(): OptimisticStateManager {
   if (!optimisticStateManager) {
-    optimisticStateManager = new OptimisticStateManager();
+    const manager = new OptimisticStateManager();
+    getSocketClient().onReorg((notice) => manager.handleReorg(notice));
+    optimisticStateManager = manager;
   }
   return optimisticStateManager;
 }
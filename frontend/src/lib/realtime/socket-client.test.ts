@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SocketClient } from './socket-client';
+import { createMockChainhookEvent } from '@/test/utils';
+import type { ChainhookEvent } from '@/types/realtime';
+
+type Listener = (...args: any[]) => void;
+
+const mockSocket = {
+  connected: true,
+  listeners: new Map<string, Listener>(),
+  on: vi.fn((event: string, listener: Listener) => {
+    mockSocket.listeners.set(event, listener);
+  }),
+  emit: vi.fn(),
+  connect: vi.fn(),
+  disconnect: vi.fn(),
+  trigger(event: string, ...args: any[]) {
+    mockSocket.listeners.get(event)?.(...args);
+  },
+};
+
+vi.mock('socket.io-client', () => ({
+  io: () => mockSocket,
+}));
+
+const event = (height: number, txHash: string): ChainhookEvent =>
+  createMockChainhookEvent({ blockHeight: height, blockHash: `0xblock${height}`, txHash });
+
+describe('SocketClient reconnect replay', () => {
+  let client: SocketClient;
+  let received: string[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    mockSocket.listeners.clear();
+    mockSocket.emit.mockClear();
+
+    client = new SocketClient();
+    received = [];
+    client.onEvent((e) => received.push(e.txHash));
+
+    const connected = client.connect('http://localhost:3000');
+    mockSocket.trigger('connect');
+    await connected;
+
+    client.subscribeToContract('ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.exchange-manager');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requests a replay from the last seen event after reconnecting', () => {
+    mockSocket.trigger('chainhook:event', event(100, '0xa'));
+    mockSocket.trigger('chainhook:event', event(101, '0xb'));
+    mockSocket.emit.mockClear();
+
+    mockSocket.trigger('connect');
+
+    expect(mockSocket.emit).toHaveBeenCalledWith(
+      'subscribe:contract',
+      'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.exchange-manager'
+    );
+    expect(mockSocket.emit).toHaveBeenLastCalledWith('replay:request', {
+      blockHeight: 101,
+      txHash: '0xb',
+    });
+  });
+
+  it('delivers replayed events before buffered live events, without duplicates', () => {
+    mockSocket.trigger('chainhook:event', event(100, '0xa'));
+    mockSocket.trigger('connect');
+
+    // Live event arrives while the replay is in flight
+    mockSocket.trigger('chainhook:event', event(103, '0xd'));
+    expect(received).toEqual(['0xa']);
+
+    mockSocket.trigger('replay:batch', [event(100, '0xa'), event(101, '0xb'), event(102, '0xc')]);
+    mockSocket.trigger('replay:batch', [event(103, '0xd')]);
+    mockSocket.trigger('replay:complete', { count: 4, truncated: false });
+
+    expect(received).toEqual(['0xa', '0xb', '0xc', '0xd']);
+  });
+
+  it('resumes live delivery if the replay never completes', () => {
+    mockSocket.trigger('chainhook:event', event(100, '0xa'));
+    mockSocket.trigger('connect');
+    mockSocket.trigger('chainhook:event', event(101, '0xb'));
+
+    vi.advanceTimersByTime(15000);
+
+    expect(received).toEqual(['0xa', '0xb']);
+  });
+
+  it('does not replay on the first connection', () => {
+    expect(mockSocket.emit).not.toHaveBeenCalledWith('replay:request', expect.anything());
+  });
+});
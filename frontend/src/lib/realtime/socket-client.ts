@@ -4,20 +4,51 @@
  */
 
 import { io, Socket } from 'socket.io-client';
-import { ChainhookEvent, ConnectionStatus, Subscription } from '@/types/realtime';
+import {
+  ChainhookEvent,
+  ConnectionStatus,
+  ReorgNotice,
+  ReplayComplete,
+  ReplayCursor,
+  Subscription,
+} from '@/types/realtime';
 
 export type EventHandler = (event: ChainhookEvent) => void;
+export type ReorgHandler = (notice: ReorgNotice) => void;
 export type StatusHandler = (status: ConnectionStatus) => void;
 export type ErrorHandler = (error: Error) => void;
+export type AuthHandler = (address: string) => void;
+/** Fetches a socket nonce for the signed-in wallet, or null if there is no session */
+export type AuthNonceSource = () => Promise<string | null>;
+
+const MAX_SEEN_EVENTS = 1000;
+const REPLAY_TIMEOUT_MS = 15000;
+
+/**
+ * Identity of an event for de-duplication across rooms, replays and reorgs
+ */
+export function getEventKey(event: ChainhookEvent): string {
+  return [event.txHash, event.eventIndex ?? 0, event.blockHash, event.eventType, event.eventTopic ?? ''].join('|');
+}
 
 export class SocketClient {
   private socket: Socket | null = null;
   private eventHandlers: Map<string, Set<EventHandler>> = new Map();
   private statusHandlers: Set<StatusHandler> = new Set();
   private errorHandlers: Set<ErrorHandler> = new Set();
+  private reorgHandlers: Set<ReorgHandler> = new Set();
+  private authHandlers: Set<AuthHandler> = new Set();
   private status: ConnectionStatus = ConnectionStatus.DISCONNECTED;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private requestAuthNonce: AuthNonceSource | null = null;
+  private rooms: Set<string> = new Set();
+  private hasConnected = false;
+  private lastSeen: ReplayCursor | null = null;
+  private seenKeys: Set<string> = new Set();
+  private replaying = false;
+  private replayBuffer: ChainhookEvent[] = [];
+  private replayTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Connect to Socket.io server
@@ -40,6 +71,21 @@ export class SocketClient {
         console.log('[Socket.io] Connected to server');
         this.updateStatus(ConnectionStatus.CONNECTED);
         this.reconnectAttempts = 0;
+
+        // Re-authenticate so the server rejoins persisted subscriptions
+        const authenticating = this.requestAuthNonce ? this.sendAuth() : null;
+
+        // After a dropped connection, rejoin rooms and catch up on missed events,
+        // once any authentication is sent so the replay covers restored rooms
+        if (this.hasConnected) {
+          this.rooms.forEach((room) => this.emitSubscribe(room));
+          if (authenticating) {
+            authenticating.then(() => this.requestReplay());
+          } else {
+            this.requestReplay();
+          }
+        }
+        this.hasConnected = true;
         resolve();
       });
 
@@ -93,11 +139,46 @@ export class SocketClient {
         this.handleEvent(event, 'global');
       });
 
+      // Handle replay of missed events
+      this.socket.on('replay:batch', (events: ChainhookEvent[]) => {
+        events.forEach((event) => this.deliverEvent(event));
+      });
+
+      this.socket.on('replay:complete', (result: ReplayComplete) => {
+        console.log(`[Socket.io] Replayed ${result.count} missed event(s)`);
+        if (result.truncated) {
+          this.notifyError(new Error(result.error || 'Replay incomplete, some missed events were not delivered'));
+        }
+        this.finishReplay();
+      });
+
+      // Handle chain reorganizations
+      this.socket.on('chainhook:reorg', (notice: ReorgNotice) => {
+        this.handleReorg(notice);
+      });
+
       // Handle subscription success
       this.socket.on('subscription:success', (data: any) => {
         console.log('[Socket.io] Subscription successful:', data);
       });
 
+      // Handle wallet authentication result
+      this.socket.on('auth:success', (data: { address: string; rooms: string[] }) => {
+        console.log(`[Socket.io] Authenticated as ${data.address}, restored ${data.rooms.length} subscription(s)`);
+        this.authHandlers.forEach((handler) => {
+          try {
+            handler(data.address);
+          } catch (error) {
+            console.error('[Socket.io] Error in auth handler:', error);
+          }
+        });
+      });
+
+      this.socket.on('auth:error', (data: { message: string }) => {
+        console.error('[Socket.io] Authentication failed:', data.message);
+        this.notifyError(new Error(data.message));
+      });
+
       // Handle system status
       this.socket.on('system:status', (status: any) => {
         console.log('[Socket.io] System status:', status);
@@ -109,6 +190,12 @@ export class SocketClient {
    * Disconnect from server
    */
   public disconnect(): void {
+    this.rooms.clear();
+    this.hasConnected = false;
+    this.lastSeen = null;
+    this.seenKeys.clear();
+    this.finishReplay();
+
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
@@ -116,6 +203,38 @@ export class SocketClient {
     }
   }
 
+  /**
+   * Authenticate as the signed-in wallet so subscriptions persist for its
+   * address and are restored on every (re)connect. Each attempt sends a fresh
+   * nonce from `requestNonce`. Resolves false if the socket is connected but
+   * no nonce could be sent, e.g. because the wallet is not signed in
+   */
+  public async authenticate(requestNonce: AuthNonceSource): Promise<boolean> {
+    this.requestAuthNonce = requestNonce;
+    if (!this.socket?.connected) return true;
+
+    return this.sendAuth();
+  }
+
+  /**
+   * Send `auth:wallet` with a fresh socket nonce
+   */
+  private async sendAuth(): Promise<boolean> {
+    const requestNonce = this.requestAuthNonce;
+    if (!requestNonce) return false;
+
+    try {
+      const nonce = await requestNonce();
+      if (!nonce || !this.socket?.connected) return false;
+
+      this.socket.emit('auth:wallet', { nonce });
+      return true;
+    } catch (error) {
+      this.notifyError(error instanceof Error ? error : new Error('Wallet authentication failed'));
+      return false;
+    }
+  }
+
   /**
    * Subscribe to contract events
    */
@@ -123,6 +242,7 @@ export class SocketClient {
     if (!this.socket) {
       throw new Error('Socket not connected');
     }
+    this.rooms.add(`contract:${contractId}`);
     this.socket.emit('subscribe:contract', contractId);
   }
 
@@ -133,6 +253,7 @@ export class SocketClient {
     if (!this.socket) {
       throw new Error('Socket not connected');
     }
+    this.rooms.add(`user:${address}`);
     this.socket.emit('subscribe:user', address);
   }
 
@@ -143,6 +264,7 @@ export class SocketClient {
     if (!this.socket) {
       throw new Error('Socket not connected');
     }
+    this.rooms.add(`event-type:${eventType}`);
     this.socket.emit('subscribe:event-type', eventType);
   }
 
@@ -153,6 +275,7 @@ export class SocketClient {
     if (!this.socket) {
       throw new Error('Socket not connected');
     }
+    this.rooms.delete(room);
     this.socket.emit('unsubscribe', room);
   }
 
@@ -191,10 +314,103 @@ export class SocketClient {
     };
   }
 
+  /**
+   * Add reorg handler
+   */
+  public onReorg(handler: ReorgHandler): () => void {
+    this.reorgHandlers.add(handler);
+    return () => {
+      this.reorgHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Register a handler for the address the server authenticated the socket as
+   */
+  public onAuthenticated(handler: AuthHandler): () => void {
+    this.authHandlers.add(handler);
+    return () => {
+      this.authHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Re-send a subscription for a room after reconnecting
+   */
+  private emitSubscribe(room: string): void {
+    const separator = room.indexOf(':');
+    this.socket?.emit(`subscribe:${room.slice(0, separator)}`, room.slice(separator + 1));
+  }
+
+  /**
+   * Ask the server for events missed since the last one seen
+   *
+   * Live events are buffered until the replay completes (or times out) so
+   * handlers receive events in order.
+   */
+  private requestReplay(): void {
+    if (!this.socket || !this.lastSeen || this.rooms.size === 0) return;
+
+    this.replaying = true;
+    this.replayTimer = setTimeout(() => this.finishReplay(), REPLAY_TIMEOUT_MS);
+    this.socket.emit('replay:request', this.lastSeen);
+  }
+
+  /**
+   * Stop replaying and flush live events received meanwhile
+   */
+  private finishReplay(): void {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+
+    const buffered = this.replayBuffer;
+    this.replaying = false;
+    this.replayBuffer = [];
+    buffered.forEach((event) => this.deliverEvent(event));
+  }
+
+  /**
+   * Deliver a room event once, tracking it as the replay cursor
+   */
+  private deliverEvent(event: ChainhookEvent): void {
+    const key = getEventKey(event);
+    if (this.seenKeys.has(key)) return;
+
+    this.seenKeys.add(key);
+    if (this.seenKeys.size > MAX_SEEN_EVENTS) {
+      this.seenKeys.delete(this.seenKeys.values().next().value as string);
+    }
+
+    if (!this.lastSeen || event.blockHeight >= this.lastSeen.blockHeight) {
+      this.lastSeen = {
+        blockHeight: event.blockHeight,
+        txHash: event.txHash,
+        eventIndex: event.eventIndex,
+      };
+    }
+
+    this.dispatchEvent(event, 'default');
+  }
+
   /**
    * Handle incoming event
    */
   private handleEvent(event: ChainhookEvent, channel = 'default'): void {
+    if (channel !== 'default') {
+      this.dispatchEvent(event, channel);
+    } else if (this.replaying) {
+      this.replayBuffer.push(event);
+    } else {
+      this.deliverEvent(event);
+    }
+  }
+
+  /**
+   * Call handlers registered for a channel
+   */
+  private dispatchEvent(event: ChainhookEvent, channel: string): void {
     const handlers = this.eventHandlers.get(channel);
     if (handlers) {
       handlers.forEach((handler) => {
@@ -207,6 +423,19 @@ export class SocketClient {
     }
   }
 
+  /**
+   * Handle reorg notice
+   */
+  private handleReorg(notice: ReorgNotice): void {
+    this.reorgHandlers.forEach((handler) => {
+      try {
+        handler(notice);
+      } catch (error) {
+        console.error('[Socket.io] Error in reorg handler:', error);
+      }
+    });
+  }
+
   /**
    * Update connection status
    */
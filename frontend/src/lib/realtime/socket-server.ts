@@ -5,7 +5,21 @@
 
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
-import { ChainhookEvent, Subscription } from '@/types/realtime';
+import {
+  ChainhookEvent,
+  ReorgNotice,
+  ReplayComplete,
+  ReplayCursor,
+  ReplayFilter,
+  Subscription,
+  SubscriptionType,
+} from '@/types/realtime';
+import { consumeSocketNonce } from '@/lib/wallet-session';
+import { getEventStore } from './event-store';
+
+const SUBSCRIPTION_TYPES: SubscriptionType[] = ['contract', 'user', 'event-type'];
+const REPLAY_PAGE_SIZE = 100;
+const MAX_REPLAY_EVENTS = 1000;
 
 export class RealtimeSocketServer {
   private io: SocketIOServer;
@@ -32,11 +46,22 @@ export class RealtimeSocketServer {
     this.io.on('connection', (socket: Socket) => {
       console.log(`[Socket.io] Client connected: ${socket.id}`);
 
+      // Handle wallet authentication, restoring persisted subscriptions
+      socket.on('auth:wallet', (auth: { nonce?: string }) => {
+        socket.data.authentication = this.authenticate(socket, auth?.nonce);
+      });
+
+      // Handle replay of events missed while disconnected
+      socket.on('replay:request', (cursor: ReplayCursor) => {
+        this.replayEvents(socket, cursor);
+      });
+
       // Handle contract subscription
       socket.on('subscribe:contract', (contractId: string) => {
         const room = `contract:${contractId}`;
         socket.join(room);
         this.addSubscription(socket.id, room);
+        this.persistSubscription(socket, room);
         console.log(`[Socket.io] ${socket.id} subscribed to ${room}`);
         socket.emit('subscription:success', { type: 'contract', id: contractId });
       });
@@ -46,6 +71,7 @@ export class RealtimeSocketServer {
         const room = `user:${address}`;
         socket.join(room);
         this.addSubscription(socket.id, room);
+        this.persistSubscription(socket, room);
         console.log(`[Socket.io] ${socket.id} subscribed to ${room}`);
         socket.emit('subscription:success', { type: 'user', address });
       });
@@ -55,6 +81,7 @@ export class RealtimeSocketServer {
         const room = `event-type:${eventType}`;
         socket.join(room);
         this.addSubscription(socket.id, room);
+        this.persistSubscription(socket, room);
         console.log(`[Socket.io] ${socket.id} subscribed to ${room}`);
         socket.emit('subscription:success', { type: 'event-type', eventType });
       });
@@ -63,6 +90,7 @@ export class RealtimeSocketServer {
       socket.on('unsubscribe', (room: string) => {
         socket.leave(room);
         this.removeSubscription(socket.id, room);
+        this.deactivateSubscription(socket, room);
         console.log(`[Socket.io] ${socket.id} unsubscribed from ${room}`);
       });
 
@@ -109,6 +137,158 @@ export class RealtimeSocketServer {
     this.io.emit('system:status', status);
   }
 
+  /**
+   * Broadcast reorg notice so clients can undo state derived from orphaned events
+   */
+  public broadcastReorg(notice: ReorgNotice): void {
+    this.io.emit('chainhook:reorg', notice);
+    this.broadcastStatus({
+      type: 'reorg',
+      message: `Chain reorganization detected, rolled back blocks: ${notice.rolledBackBlocks
+        .map((b) => b.blockHeight)
+        .join(', ')}`,
+      timestamp: notice.timestamp,
+    });
+  }
+
+  /**
+   * Bind a socket to the signed-in wallet a socket nonce was issued to (see
+   * /api/auth/socket-nonce) and rejoin its persisted subscriptions
+   */
+  private async authenticate(socket: Socket, nonce: string | undefined): Promise<void> {
+    let address: string | null;
+    try {
+      address = await consumeSocketNonce(nonce);
+    } catch (error) {
+      console.error(`[Socket.io] Failed to check socket nonce for ${socket.id}:`, error);
+      socket.emit('auth:error', { message: 'Authentication unavailable' });
+      return;
+    }
+
+    if (!address) {
+      socket.emit('auth:error', { message: 'Socket nonce is unknown, expired or already used' });
+      return;
+    }
+
+    socket.data.address = address;
+
+    try {
+      const subscriptions = await getEventStore().getSubscriptions(address);
+      const rooms = subscriptions.map((sub) => `${sub.type}:${sub.target}`);
+
+      rooms.forEach((room) => {
+        socket.join(room);
+        this.addSubscription(socket.id, room);
+      });
+
+      console.log(`[Socket.io] ${socket.id} authenticated as ${address}, restored ${rooms.length} subscription(s)`);
+      socket.emit('auth:success', { address, rooms });
+    } catch (error) {
+      console.error(`[Socket.io] Failed to restore subscriptions for ${address}:`, error);
+      socket.emit('auth:success', { address, rooms: [] });
+    }
+  }
+
+  /**
+   * Replay stored events after the client's cursor for the socket's rooms
+   *
+   * Waits for a pending wallet authentication so restored rooms are included.
+   * Events are sent as `replay:batch` pages followed by `replay:complete`; the
+   * client holds back live events until then.
+   */
+  private async replayEvents(socket: Socket, cursor: ReplayCursor): Promise<void> {
+    const result: ReplayComplete = { count: 0, truncated: false };
+
+    try {
+      await socket.data.authentication;
+
+      if (!cursor || !Number.isInteger(cursor.blockHeight) || typeof cursor.txHash !== 'string') {
+        throw new Error('Invalid replay cursor');
+      }
+
+      const filter = this.getReplayFilter(socket.id);
+      let position = cursor;
+
+      while (result.count < MAX_REPLAY_EVENTS) {
+        const events = await getEventStore().getEventsSince(position, filter, REPLAY_PAGE_SIZE);
+        if (events.length === 0) break;
+
+        socket.emit('replay:batch', events);
+        result.count += events.length;
+
+        const last = events[events.length - 1];
+        position = { blockHeight: last.blockHeight, txHash: last.txHash, eventIndex: last.eventIndex };
+
+        if (events.length < REPLAY_PAGE_SIZE) break;
+        result.truncated = result.count >= MAX_REPLAY_EVENTS;
+      }
+
+      console.log(`[Socket.io] Replayed ${result.count} event(s) to ${socket.id}`);
+    } catch (error) {
+      console.error(`[Socket.io] Replay failed for ${socket.id}:`, error);
+      result.truncated = true;
+      result.error = error instanceof Error ? error.message : 'Replay failed';
+    }
+
+    socket.emit('replay:complete', result);
+  }
+
+  /**
+   * Build a replay filter from a socket's rooms
+   */
+  private getReplayFilter(socketId: string): ReplayFilter {
+    const filter: ReplayFilter = { contractIds: [], addresses: [], eventTypes: [] };
+
+    this.subscriptions.get(socketId)?.forEach((room) => {
+      const subscription = this.parseRoom(room);
+      if (subscription?.type === 'contract') filter.contractIds.push(subscription.target);
+      if (subscription?.type === 'user') filter.addresses.push(subscription.target);
+      if (subscription?.type === 'event-type') filter.eventTypes.push(subscription.target);
+    });
+
+    return filter;
+  }
+
+  /**
+   * Persist a room subscription for an authenticated socket
+   */
+  private persistSubscription(socket: Socket, room: string): void {
+    const subscription = this.parseRoom(room);
+    if (!socket.data.address || !subscription) return;
+
+    getEventStore()
+      .saveSubscription(socket.data.address, subscription)
+      .catch((error) => {
+        console.error(`[Socket.io] Failed to persist subscription ${room}:`, error);
+      });
+  }
+
+  /**
+   * Deactivate a persisted room subscription for an authenticated socket
+   */
+  private deactivateSubscription(socket: Socket, room: string): void {
+    const subscription = this.parseRoom(room);
+    if (!socket.data.address || !subscription) return;
+
+    getEventStore()
+      .deactivateSubscription(socket.data.address, subscription)
+      .catch((error) => {
+        console.error(`[Socket.io] Failed to deactivate subscription ${room}:`, error);
+      });
+  }
+
+  /**
+   * Split a room name into subscription type and target
+   */
+  private parseRoom(room: string): { type: SubscriptionType; target: string } | null {
+    const separator = room.indexOf(':');
+    const type = room.slice(0, separator) as SubscriptionType;
+    const target = room.slice(separator + 1);
+
+    if (separator < 0 || !SUBSCRIPTION_TYPES.includes(type) || !target) return null;
+    return { type, target };
+  }
+
   /**
    * Add subscription tracking
    */
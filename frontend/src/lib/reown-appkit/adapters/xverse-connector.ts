@@ -3,8 +3,13 @@
  * Supports Xverse browser extension and mobile wallet via WalletConnect
  */
 
-import { showConnect, disconnect as stacksDisconnect } from '@stacks/connect';
-import { userSession } from '@/lib/stacks';
+import {
+  clearSession,
+  getUserSession,
+  initializeAuth,
+  isUserCancellation,
+  signMessage,
+} from '@/lib/connect';
 import type {
   StacksConnector,
   StacksAccount,
@@ -23,59 +28,44 @@ export class XverseConnector implements StacksConnector {
   constructor(private config?: { walletConnectProjectId?: string }) {}
 
   async connect(): Promise<StacksAccount> {
-    return new Promise((resolve, reject) => {
-      showConnect({
-        appDetails: {
-          name: 'Time Banking Protocol',
-          icon: typeof window !== 'undefined' ? `${window.location.origin}/icon.svg` : '/icon.svg',
-        },
+    try {
+      await initializeAuth({
+        network: process.env.NEXT_PUBLIC_NETWORK === 'mainnet' ? 'mainnet' : 'testnet',
         walletConnectProjectId: this.config?.walletConnectProjectId,
-        userSession,
-        onFinish: async () => {
-          try {
-            const account = await this.getAccount();
-            if (account) {
-              this.currentAccount = account;
-              this.emit('connect', { address: account.address, network: account.network });
-              resolve(account);
-            } else {
-              reject(this.createError('Failed to get account after connection', 4900));
-            }
-          } catch (error) {
-            reject(error);
-          }
-        },
-        onCancel: () => {
-          reject(this.createError('User rejected the connection', 4001));
-        },
       });
-    });
+    } catch (error) {
+      if (isUserCancellation(error)) {
+        throw this.createError('User rejected the connection', 4001);
+      }
+      throw error;
+    }
+
+    const account = await this.getAccount();
+    if (!account) {
+      throw this.createError('Failed to get account after connection', 4900);
+    }
+    this.currentAccount = account;
+    this.emit('connect', { address: account.address, network: account.network });
+    return account;
   }
 
   async disconnect(): Promise<void> {
-    if (userSession.isUserSignedIn()) {
-      userSession.signUserOut();
-    }
+    clearSession();
 
     this.currentAccount = null;
     this.emit('disconnect');
   }
 
   async getAccount(): Promise<StacksAccount | null> {
-    if (!userSession.isUserSignedIn()) {
+    const session = getUserSession();
+    if (!session) {
       return null;
     }
 
-    const userData = userSession.loadUserData();
-    const network = process.env.NEXT_PUBLIC_NETWORK === 'mainnet' ? 'mainnet' : 'testnet';
-    const address = network === 'mainnet'
-      ? userData.profile.stxAddress.mainnet
-      : userData.profile.stxAddress.testnet;
-
     return {
-      address,
-      publicKey: userData.appPrivateKey, // Note: This is app private key, adapt as needed
-      network,
+      address: session.address,
+      publicKey: session.publicKey ?? '',
+      network: session.network,
     };
   }
 
@@ -92,8 +82,8 @@ export class XverseConnector implements StacksConnector {
       throw this.createError('Wallet not connected', 4100);
     }
 
-    // Transaction signing is handled by @stacks/connect's contract call methods
-    throw this.createError('Use contract call methods from @stacks/connect', 4200);
+    // Transactions are signed and broadcast by the wallet in lib/connect's call flows
+    throw this.createError('Use openContractCallDialog from lib/connect', 4200);
   }
 
   async signMessage(message: string): Promise<string> {
@@ -101,8 +91,15 @@ export class XverseConnector implements StacksConnector {
       throw this.createError('Wallet not connected', 4100);
     }
 
-    // Message signing would require @stacks/connect's signMessage if available
-    throw this.createError('Message signing not yet implemented', 4200);
+    try {
+      const { signature } = await signMessage(message);
+      return signature;
+    } catch (error) {
+      if (isUserCancellation(error)) {
+        throw this.createError('User rejected the signature request', 4001);
+      }
+      throw error;
+    }
   }
 
   on(event: string, callback: (...args: any[]) => void): void {
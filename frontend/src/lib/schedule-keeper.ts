@@ -0,0 +1,224 @@
+/**
+ * Schedule Keeper
+ * Finds automation-scheduler schedules whose is-ready is true and submits
+ * execute-schedule for them from a keeper key
+ *
+ * Keepers coordinate through claims keyed by schedule id and the
+ * next-execution time the run was due at. Only the keeper that wins the
+ * claim submits, so several keepers can run side by side without paying
+ * for duplicate transactions. The contract moves next-execution forward on
+ * success, which both rejects a late duplicate on chain and gives the next
+ * run a fresh claim key.
+ */
+
+import type { Pool } from 'pg';
+import { makeContractCall } from '@stacks/transactions';
+import type { AutomationSchedule } from '@/types/contracts';
+import {
+  getContractAddress,
+  getNetworkConfig,
+  CONTRACT_NAMES,
+} from './contractConfig';
+import { isScheduleReady, listSchedules } from './contracts/automationScheduler';
+import { executeScheduleCall } from './contracts/generated/automationScheduler';
+import {
+  BroadcastManager,
+  type BroadcastResult,
+  type TxOutcome,
+} from './transactions/broadcast-manager';
+
+/**
+ * A claim older than this may be taken over by another keeper if it never
+ * broadcast (keeper crashed) or its transaction failed or was dropped
+ */
+export const CLAIM_TTL_SECONDS = 600; // 10 minutes
+
+export interface KeeperClaimStore {
+  /** Resolve true only for the keeper that now holds the claim */
+  claim(scheduleId: number, nextExecution: number, keeperId: string): Promise<boolean>;
+  /** Record the transaction submitted under a held claim */
+  complete(scheduleId: number, nextExecution: number, keeperId: string, txId: string): Promise<void>;
+  /** Give up a held claim so another pass can retry */
+  release(scheduleId: number, nextExecution: number, keeperId: string): Promise<void>;
+}
+
+/**
+ * Claims stored in the schedule_keeper_claims table of the event store
+ * database (migration 005)
+ */
+export class PostgresKeeperClaimStore implements KeeperClaimStore {
+  private pool: Pool;
+  private ttlSeconds: number;
+  private getTxOutcome: (txId: string) => Promise<TxOutcome>;
+
+  constructor(
+    pool: Pool,
+    ttlSeconds = CLAIM_TTL_SECONDS,
+    getTxOutcome: (txId: string) => Promise<TxOutcome> = (txId) =>
+      new BroadcastManager({ nodeUrl: getNetworkConfig().apiUrl }).getOutcome(txId)
+  ) {
+    this.pool = pool;
+    this.ttlSeconds = ttlSeconds;
+    this.getTxOutcome = getTxOutcome;
+  }
+
+  public async claim(scheduleId: number, nextExecution: number, keeperId: string): Promise<boolean> {
+    const inserted = await this.pool.query(
+      `INSERT INTO schedule_keeper_claims (schedule_id, next_execution, keeper_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (schedule_id, next_execution) DO NOTHING
+       RETURNING keeper_id`,
+      [scheduleId, nextExecution, keeperId]
+    );
+    if (inserted.rows[0]?.keeper_id === keeperId) return true;
+
+    // Someone holds it; take it over only if their claim has gone stale
+    const stale = await this.pool.query(
+      `SELECT tx_id FROM schedule_keeper_claims
+       WHERE schedule_id = $1 AND next_execution = $2
+         AND claimed_at < NOW() - $3::interval`,
+      [scheduleId, nextExecution, `${this.ttlSeconds} seconds`]
+    );
+    if (stale.rows.length === 0) return false;
+
+    // A stale claim that already broadcast is only abandoned once its
+    // transaction can no longer confirm, otherwise taking over would submit
+    // the same execution twice
+    const txId: string | null = stale.rows[0].tx_id;
+    if (txId !== null) {
+      try {
+        if ((await this.getTxOutcome(txId)) !== 'failed') return false;
+      } catch (error) {
+        console.error(`Could not check keeper transaction ${txId}:`, error);
+        return false;
+      }
+    }
+
+    // Concurrent takeovers re-check the condition after the first commits,
+    // so at most one of them succeeds
+    const takenOver = await this.pool.query(
+      `UPDATE schedule_keeper_claims SET
+         keeper_id = $3,
+         tx_id = NULL,
+         claimed_at = NOW()
+       WHERE schedule_id = $1 AND next_execution = $2
+         AND claimed_at < NOW() - $4::interval
+         AND ${txId === null ? 'tx_id IS NULL' : 'tx_id = $5'}
+       RETURNING schedule_id`,
+      [scheduleId, nextExecution, keeperId, `${this.ttlSeconds} seconds`, ...(txId === null ? [] : [txId])]
+    );
+
+    return takenOver.rows.length > 0;
+  }
+
+  public async complete(
+    scheduleId: number,
+    nextExecution: number,
+    keeperId: string,
+    txId: string
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE schedule_keeper_claims SET tx_id = $4
+       WHERE schedule_id = $1 AND next_execution = $2 AND keeper_id = $3`,
+      [scheduleId, nextExecution, keeperId, txId]
+    );
+  }
+
+  public async release(scheduleId: number, nextExecution: number, keeperId: string): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM schedule_keeper_claims
+       WHERE schedule_id = $1 AND next_execution = $2 AND keeper_id = $3`,
+      [scheduleId, nextExecution, keeperId]
+    );
+  }
+}
+
+export interface KeeperPassOptions {
+  keeperId: string;
+  claims: KeeperClaimStore;
+  /** Submit execute-schedule for a schedule */
+  execute: (scheduleId: number) => Promise<BroadcastResult>;
+  listSchedules?: () => Promise<AutomationSchedule[]>;
+  isReady?: (scheduleId: number) => Promise<boolean>;
+  /** Unix seconds */
+  now?: number;
+}
+
+export interface KeeperPassResult {
+  checked: number;
+  submitted: Array<{ scheduleId: number; txId: string }>;
+  /** Ready schedules another keeper already claimed */
+  skipped: number[];
+  failed: Array<{ scheduleId: number; error: string }>;
+}
+
+/**
+ * One sweep over all schedules: claim each ready execution and submit it
+ */
+export const runKeeperPass = async (options: KeeperPassOptions): Promise<KeeperPassResult> => {
+  const { keeperId, claims, execute } = options;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const isReady = options.isReady ?? isScheduleReady;
+
+  const schedules = await (options.listSchedules ?? listSchedules)();
+  // Cheap local pre-filter; is-ready on chain has the final say
+  const due = schedules.filter((schedule) => schedule.isActive && schedule.nextExecution <= now);
+
+  const result: KeeperPassResult = { checked: schedules.length, submitted: [], skipped: [], failed: [] };
+
+  for (const { scheduleId, nextExecution } of due) {
+    if (!(await isReady(scheduleId))) continue;
+
+    if (!(await claims.claim(scheduleId, nextExecution, keeperId))) {
+      result.skipped.push(scheduleId);
+      continue;
+    }
+
+    try {
+      const broadcast = await execute(scheduleId);
+      if (broadcast.status === 'error') {
+        await claims.release(scheduleId, nextExecution, keeperId);
+        result.failed.push({ scheduleId, error: broadcast.error ?? 'Broadcast failed' });
+      } else {
+        await claims.complete(scheduleId, nextExecution, keeperId, broadcast.txId);
+        result.submitted.push({ scheduleId, txId: broadcast.txId });
+      }
+    } catch (e) {
+      await claims.release(scheduleId, nextExecution, keeperId);
+      result.failed.push({ scheduleId, error: e instanceof Error ? e.message : 'Execution failed' });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * execute-schedule submitter signing with the keeper key. The first nonce
+ * comes from the node and later ones follow it, so one pass can submit
+ * several executions without them colliding in the mempool
+ */
+export const createScheduleExecutor = (
+  senderKey: string,
+  broadcaster: BroadcastManager = new BroadcastManager({ nodeUrl: getNetworkConfig().apiUrl })
+) => {
+  let nonce: bigint | undefined;
+
+  return async (scheduleId: number): Promise<BroadcastResult> => {
+    const { functionName, functionArgs } = executeScheduleCall({ scheduleId });
+    const tx = await makeContractCall({
+      contractAddress: getContractAddress('automationScheduler'),
+      contractName: CONTRACT_NAMES.automationScheduler,
+      functionName,
+      functionArgs,
+      senderKey,
+      network: getNetworkConfig().network,
+      ...(nonce !== undefined && { nonce }),
+    });
+    const result = await broadcaster.broadcast(tx);
+
+    // A rejected broadcast leaves its nonce unused for the next execution
+    const used = BigInt(tx.auth.spendingCondition.nonce);
+    nonce = result.status === 'ok' ? used + BigInt(1) : used;
+    return result;
+  };
+};
@@ -0,0 +1,356 @@
+/**
+ * Skill Matcher
+ * Ranks crossing demand/supply orders from the skill matching engine and
+ * submits propose-match for the best pairs from a service key
+ *
+ * propose-match does not check its caller, so the service key has no special
+ * standing on chain: it only pays the fees, and anyone could propose the same
+ * pairs. What keeps the service from proposing a pair twice is the
+ * bookkeeping here, not the contract
+ */
+
+import { makeContractCall } from '@stacks/transactions';
+import type { MatchCandidate, SkillOrderBook } from '@/types/contracts';
+import { ExchangeStatus } from '@/types/contracts';
+import {
+  getContractAddress,
+  getNetworkConfig,
+  CONTRACT_NAMES,
+} from './contractConfig';
+import { buildOrderBooks } from './contracts/skillMatchingEngine';
+import { proposeMatchCall } from './contracts/generated/skillMatchingEngine';
+import { getReputationScore } from './contracts/reputationSystem';
+import { isSkillVerified } from './contracts/skillRegistry';
+import {
+  getExchangeDetails,
+  getUserExchanges,
+  isTimeConflict,
+} from './contracts/exchangeManager';
+import type { DecodedTimeBankEvent, MatchProposedEvent } from './event-decoder';
+import {
+  BroadcastManager,
+  type BroadcastResult,
+  type TxOutcome,
+} from './transactions/broadcast-manager';
+
+/** Relative weight of each factor in a suggestion's score; they sum to 1 */
+export interface MatchWeights {
+  rateOverlap: number;
+  reputation: number;
+  verification: number;
+  schedule: number;
+}
+
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  rateOverlap: 0.4,
+  reputation: 0.3,
+  verification: 0.2,
+  schedule: 0.1,
+};
+
+/** Reputation score at which the reputation factor saturates (expert tier) */
+export const REPUTATION_SCALE = 1000;
+
+const SECONDS_PER_HOUR = 3600;
+
+/** Exchange statuses that still hold a slot in a participant's schedule */
+const BOOKED_STATUSES: string[] = [
+  ExchangeStatus.PENDING,
+  ExchangeStatus.ACCEPTED,
+  ExchangeStatus.IN_PROGRESS,
+];
+
+export interface BusyWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Everything scoring needs to know about the participants, fetched up front
+ * so ranking itself stays synchronous
+ */
+export interface MatchContext {
+  /** Unix seconds; a match is assumed to start now and run for its hours */
+  now: number;
+  /** Total reputation score by address */
+  reputation: Record<string, number>;
+  /** Providers verified for a skill, keyed `provider:skillId` */
+  verified: Record<string, boolean>;
+  /** Scheduled exchanges by address */
+  busy: Record<string, BusyWindow[]>;
+}
+
+export interface MatchScoreBreakdown {
+  rateOverlap: number;
+  reputation: number;
+  verification: number;
+  schedule: number;
+}
+
+export interface MatchSuggestion extends MatchCandidate {
+  score: number;
+  breakdown: MatchScoreBreakdown;
+  /** Participants with an exchange overlapping the match window */
+  conflicts: string[];
+}
+
+/** Chain lookups used to build a MatchContext; swapped out in tests */
+export interface MatchLookups {
+  getReputationScore: (address: string) => Promise<number>;
+  isSkillVerified: (address: string, skillId: number) => Promise<boolean>;
+  getBusyWindows: (address: string) => Promise<BusyWindow[]>;
+}
+
+const verificationKey = (provider: string, skillId: number) => `${provider}:${skillId}`;
+
+const pairKey = (requester: string, provider: string, skillId: number) =>
+  `${requester}:${provider}:${skillId}`;
+
+/**
+ * Windows of a user's exchanges that are still booked
+ */
+export const getBusyWindows = async (address: string): Promise<BusyWindow[]> => {
+  const exchangeIds = await getUserExchanges(address);
+  const exchanges = await Promise.all(exchangeIds.map((id) => getExchangeDetails(id)));
+
+  return exchanges
+    .filter((exchange) => exchange && BOOKED_STATUSES.includes(exchange.status))
+    .map((exchange) => ({ start: exchange!.scheduledStart, end: exchange!.scheduledEnd }));
+};
+
+export const defaultMatchLookups: MatchLookups = {
+  getReputationScore,
+  isSkillVerified,
+  getBusyWindows,
+};
+
+const getProposedPairs = (events: DecodedTimeBankEvent[]): Set<string> =>
+  new Set(
+    events
+      .filter((event): event is MatchProposedEvent => event.event === 'match-proposed')
+      .map((event) => pairKey(event.requester, event.provider, event.skillId))
+  );
+
+/**
+ * Crossing pairs from demand/supply events that have not been proposed yet.
+ * A pair stays proposed once any match-proposed event names it, and is held
+ * back while one of our own proposals for it is still in flight
+ */
+export const getOpenCandidates = (
+  events: DecodedTimeBankEvent[],
+  submissions: MatchSubmission[] = []
+): MatchCandidate[] => {
+  const proposed = getProposedPairs(events);
+  submissions.forEach((s) => proposed.add(pairKey(s.requester, s.provider, s.skillId)));
+
+  return buildOrderBooks(events)
+    .flatMap((book: SkillOrderBook) => book.matches)
+    .filter(
+      (candidate) =>
+        !proposed.has(
+          pairKey(candidate.demand.requester, candidate.supply.provider, candidate.demand.skillId)
+        )
+    );
+};
+
+/**
+ * Fetch reputation, verification and schedules for every participant once
+ */
+export const loadMatchContext = async (
+  candidates: MatchCandidate[],
+  lookups: MatchLookups = defaultMatchLookups,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<MatchContext> => {
+  const addresses = Array.from(
+    new Set(candidates.flatMap((c) => [c.demand.requester, c.supply.provider]))
+  );
+  const providerSkills = Array.from(
+    new Map(
+      candidates.map((c) => [verificationKey(c.supply.provider, c.supply.skillId), c.supply])
+    ).entries()
+  );
+
+  const context: MatchContext = { now, reputation: {}, verified: {}, busy: {} };
+
+  await Promise.all([
+    ...addresses.map(async (address) => {
+      context.reputation[address] = await lookups.getReputationScore(address);
+      context.busy[address] = await lookups.getBusyWindows(address);
+    }),
+    ...providerSkills.map(async ([key, supply]) => {
+      context.verified[key] = await lookups.isSkillVerified(supply.provider, supply.skillId);
+    }),
+  ]);
+
+  return context;
+};
+
+/**
+ * Score a single candidate. Each factor is normalized to 0..1:
+ * - rateOverlap: share of the requester's max rate left as surplus
+ * - reputation: mean of both parties' scores against REPUTATION_SCALE
+ * - verification: whether the provider's skill is verified
+ * - schedule: whether neither party is booked during the match window
+ */
+export const scoreCandidate = (
+  candidate: MatchCandidate,
+  context: MatchContext,
+  weights: MatchWeights = DEFAULT_MATCH_WEIGHTS
+): MatchSuggestion => {
+  const { demand, supply } = candidate;
+  const windowEnd = context.now + candidate.hours * SECONDS_PER_HOUR;
+
+  const normalizeReputation = (address: string) =>
+    Math.min((context.reputation[address] ?? 0) / REPUTATION_SCALE, 1);
+
+  const conflicts = [demand.requester, supply.provider].filter((address) =>
+    (context.busy[address] ?? []).some((window) =>
+      isTimeConflict(context.now, windowEnd, window.start, window.end)
+    )
+  );
+
+  const breakdown: MatchScoreBreakdown = {
+    rateOverlap: demand.maxRate > 0 ? (demand.maxRate - supply.minRate) / demand.maxRate : 0,
+    reputation: (normalizeReputation(demand.requester) + normalizeReputation(supply.provider)) / 2,
+    verification: context.verified[verificationKey(supply.provider, supply.skillId)] ? 1 : 0,
+    schedule: conflicts.length === 0 ? 1 : 0,
+  };
+
+  const score =
+    breakdown.rateOverlap * weights.rateOverlap +
+    breakdown.reputation * weights.reputation +
+    breakdown.verification * weights.verification +
+    breakdown.schedule * weights.schedule;
+
+  return { ...candidate, score, breakdown, conflicts };
+};
+
+/**
+ * Rank candidates by score, breaking ties on hours matched
+ */
+export const rankMatches = (
+  candidates: MatchCandidate[],
+  context: MatchContext,
+  weights: MatchWeights = DEFAULT_MATCH_WEIGHTS
+): MatchSuggestion[] =>
+  candidates
+    .map((candidate) => scoreCandidate(candidate, context, weights))
+    .sort((a, b) => b.score - a.score || b.hours - a.hours);
+
+/**
+ * Greedily pick the best conflict-free suggestions so that each order is
+ * used at most once per run
+ */
+export const selectMatches = (suggestions: MatchSuggestion[]): MatchSuggestion[] => {
+  const usedDemands = new Set<string>();
+  const usedSupplies = new Set<string>();
+  const selected: MatchSuggestion[] = [];
+
+  for (const suggestion of suggestions) {
+    const demandKey = `${suggestion.demand.requester}:${suggestion.demand.skillId}`;
+    const supplyKey = `${suggestion.supply.provider}:${suggestion.supply.skillId}`;
+    if (suggestion.conflicts.length > 0) continue;
+    if (usedDemands.has(demandKey) || usedSupplies.has(supplyKey)) continue;
+
+    usedDemands.add(demandKey);
+    usedSupplies.add(supplyKey);
+    selected.push(suggestion);
+  }
+
+  return selected;
+};
+
+/** A propose-match broadcast by the service, awaiting its match-proposed event */
+export interface MatchSubmission {
+  requester: string;
+  provider: string;
+  skillId: number;
+  txId: string;
+}
+
+/**
+ * Split recorded submissions into those still in flight and those that have
+ * settled: their match-proposed event is in `events`, or their transaction
+ * failed so the pair may be proposed again. A submission whose status cannot
+ * be fetched stays in flight
+ */
+export const settleMatchSubmissions = async (
+  submissions: MatchSubmission[],
+  events: DecodedTimeBankEvent[],
+  getOutcome: (txId: string) => Promise<TxOutcome>
+): Promise<{ inFlight: MatchSubmission[]; settled: MatchSubmission[] }> => {
+  const proposed = getProposedPairs(events);
+  const inFlight: MatchSubmission[] = [];
+  const settled: MatchSubmission[] = [];
+
+  for (const submission of submissions) {
+    if (proposed.has(pairKey(submission.requester, submission.provider, submission.skillId))) {
+      settled.push(submission);
+      continue;
+    }
+
+    const outcome = await getOutcome(submission.txId).catch(() => 'pending' as const);
+    (outcome === 'failed' ? settled : inFlight).push(submission);
+  }
+
+  return { inFlight, settled };
+};
+
+export interface SubmittedMatch {
+  requester: string;
+  provider: string;
+  skillId: number;
+  txId: string;
+  status: BroadcastResult['status'];
+  error?: string;
+}
+
+/**
+ * Sign propose-match for each selected suggestion with the service key and
+ * broadcast them in order. Unlike the wallet flow in lib/contracts this runs
+ * server-side; the first nonce comes from the node and later ones follow it
+ * so back-to-back proposals don't collide in the mempool
+ */
+export const submitMatchProposals = async (
+  suggestions: MatchCandidate[],
+  senderKey: string,
+  broadcaster: BroadcastManager = new BroadcastManager({ nodeUrl: getNetworkConfig().apiUrl })
+): Promise<SubmittedMatch[]> => {
+  const submitted: SubmittedMatch[] = [];
+  let nonce: bigint | undefined;
+
+  for (const candidate of suggestions) {
+    const { functionName, functionArgs } = proposeMatchCall({
+      requester: candidate.demand.requester,
+      provider: candidate.supply.provider,
+      skillId: candidate.demand.skillId,
+      hours: candidate.hours,
+      rate: candidate.rate,
+    });
+    const tx = await makeContractCall({
+      contractAddress: getContractAddress('skillMatchingEngine'),
+      contractName: CONTRACT_NAMES.skillMatchingEngine,
+      functionName,
+      functionArgs,
+      senderKey,
+      network: getNetworkConfig().network,
+      ...(nonce !== undefined && { nonce }),
+    });
+    const result = await broadcaster.broadcast(tx);
+
+    submitted.push({
+      requester: candidate.demand.requester,
+      provider: candidate.supply.provider,
+      skillId: candidate.demand.skillId,
+      txId: result.txId,
+      status: result.status,
+      ...(result.error && { error: result.error }),
+    });
+
+    // A rejected broadcast leaves its nonce unused for the next proposal
+    const used = BigInt(tx.auth.spendingCondition.nonce);
+    nonce = result.status === 'ok' ? used + BigInt(1) : used;
+  }
+
+  return submitted;
+};
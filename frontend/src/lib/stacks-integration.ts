@@ -28,6 +28,8 @@ export {
   createNonceManager,
   type NonceInfo,
   type ManagedNonce,
+  type NonceGapReport,
+  type NonceRepairResult,
 } from './nonce-manager';
 
 // Hiro API
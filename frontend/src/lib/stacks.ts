@@ -1,24 +1,26 @@
 import {
-  AnchorMode,
-  PostConditionMode,
   standardPrincipalCV,
   uintCV,
   stringAsciiCV,
-  contractPrincipalCV,
   fetchCallReadOnlyFunction,
-  broadcastTransaction,
-  makeContractCall,
   ClarityValue,
+  PostCondition,
   cvToValue,
-  hexToCV,
 } from '@stacks/transactions';
 import { StacksMainnet, StacksTestnet, StacksNetwork } from '@stacks/network';
-import { showConnect, connect as stacksConnect, disconnect as stacksDisconnect } from '@stacks/connect';
 import { AppConfig, UserSession } from '@stacks/auth';
 import { Storage } from '@stacks/storage';
 import { ContractCallOptions, User, TimeExchange, UserSkill, Skill } from '@/types';
-import { createTransactionBuilder } from './transaction-builder';
-import { ErrorParser, withRetry } from './error-handling';
+import { ErrorParser } from './error-handling';
+import {
+  clearSession,
+  getUserSession,
+  initializeAuth,
+  isCallSuccess,
+  isUserCancellation,
+  openContractCallDialog,
+  type ConnectSession,
+} from './connect';
 
 // BigInt JSON serialization support
 if (typeof BigInt.prototype.toJSON === 'undefined') {
@@ -59,58 +61,35 @@ interface ConnectOptions {
   onCancel?: () => void;
 }
 
-// App configuration for wallet connection
-const getAppDetails = () => ({
-  name: process.env.NEXT_PUBLIC_APP_NAME || 'TimeBank',
-  icon: typeof window !== 'undefined' ? `${window.location.origin}/icon.svg` : '/icon.svg',
-});
-
 /**
- * Connect wallet using @stacks/connect
+ * Connect wallet through the Stacks Connect layer in lib/connect
  * Supports both browser extension wallets (Hiro, Xverse, Leather) and WalletConnect
  *
  * @param options - Optional configuration for wallet connection
  */
-export const connectWallet = (options?: ConnectOptions) => {
-  const connectOptions: any = {
-    appDetails: getAppDetails(),
-    redirectTo: '/',
-    onFinish: () => {
-      console.log('✅ Wallet connected successfully');
-      if (options?.onFinish) {
-        options.onFinish();
-      } else {
-        window.location.reload();
-      }
-    },
-    onCancel: () => {
-      console.log('❌ User cancelled wallet connection');
-      if (options?.onCancel) {
-        options.onCancel();
-      }
-    },
-    userSession,
-  };
-
-  // Add Reown (WalletConnect) support if Project ID is configured
-  if (REOWN_PROJECT_ID || options?.walletConnectProjectId) {
-    connectOptions.walletConnectProjectId = options?.walletConnectProjectId || REOWN_PROJECT_ID;
-    console.log('🔗 WalletConnect enabled with Project ID:', connectOptions.walletConnectProjectId.substring(0, 8) + '...');
-  }
-
-  // Add additional options
-  if (options?.forceWalletSelect !== undefined) {
-    connectOptions.forceWalletSelect = options.forceWalletSelect;
-  }
-  if (options?.persistWalletSelect !== undefined) {
-    connectOptions.persistWalletSelect = options.persistWalletSelect;
+export const connectWallet = async (options?: ConnectOptions): Promise<ConnectSession | null> => {
+  const walletConnectProjectId = options?.walletConnectProjectId || REOWN_PROJECT_ID;
+  if (walletConnectProjectId) {
+    console.log('🔗 WalletConnect enabled with Project ID:', walletConnectProjectId.substring(0, 8) + '...');
   }
 
   try {
-    // Using showConnect for backwards compatibility (still recommended by @stacks/connect v8.x)
-    showConnect(connectOptions);
+    const session = await initializeAuth({
+      network: getNetworkType(),
+      walletConnectProjectId,
+      forceWalletSelect: options?.forceWalletSelect,
+      persistWalletSelect: options?.persistWalletSelect,
+    });
+    console.log('✅ Wallet connected successfully');
+    options?.onFinish?.();
+    return session;
   } catch (error) {
-    console.error('Failed to show wallet connect modal:', error);
+    if (isUserCancellation(error)) {
+      console.log('❌ User cancelled wallet connection');
+      options?.onCancel?.();
+      return null;
+    }
+    console.error('Failed to connect wallet:', error);
     throw new Error('Failed to initialize wallet connection. Please ensure you have a Stacks wallet installed.');
   }
 };
@@ -135,7 +114,7 @@ export const connectViaReown = (options?: Omit<ConnectOptions, 'walletConnectPro
 
   console.log('🔗 Connecting via Reown (WalletConnect)...');
 
-  connectWallet({
+  return connectWallet({
     ...options,
     walletConnectProjectId: REOWN_PROJECT_ID,
     forceWalletSelect: true, // Always show wallet selection for WalletConnect
@@ -143,66 +122,41 @@ export const connectViaReown = (options?: Omit<ConnectOptions, 'walletConnectPro
 };
 
 export const disconnectWallet = async () => {
-  if (userSession.isUserSignedIn()) {
-    userSession.signUserOut();
-  }
-  window.location.reload();
+  clearSession();
 };
 
 export const isWalletConnected = (): boolean => {
-  return userSession.isUserSignedIn();
+  return getUserSession() !== null;
 };
 
 export const getUserAddress = (): string | null => {
-  if (!userSession.isUserSignedIn()) return null;
-  const networkType = getNetworkType();
-  const userData = userSession.loadUserData();
-  return networkType === 'mainnet'
-    ? userData.profile.stxAddress.mainnet
-    : userData.profile.stxAddress.testnet;
+  return getUserSession()?.address ?? null;
 };
 
-// Contract Call Helper (v8 API with TransactionBuilder)
+// Contract Call Helper: the wallet signs and broadcasts the call
 export const makeContractCallWithOptions = async (
   functionName: string,
   functionArgs: ClarityValue[],
-  postConditions: any[] = []
+  postConditions: PostCondition[] = []
 ) => {
-  const network = getNetwork();
-  const senderAddress = getUserAddress();
-
-  if (!senderAddress) {
+  if (!getUserAddress()) {
     throw new Error('Wallet not connected');
   }
 
-  const userData = userSession.loadUserData();
-  if (!userData.appPrivateKey) {
-    throw new Error('Private key not available');
-  }
-
-  // Use TransactionBuilder for modern v8 API
-  const builder = createTransactionBuilder();
-  builder.setNetwork(network);
-  builder.setAnchorMode(AnchorMode.Any);
-
-  if (postConditions.length > 0) {
-    builder.setPostConditions(postConditions);
-  }
+  const state = await openContractCallDialog({
+    contractAddress: CONTRACT_ADDRESS,
+    contractName: CONTRACT_NAME,
+    functionName,
+    functionArgs,
+    postConditions,
+    postConditionMode: postConditions.length > 0 ? 'deny' : 'allow',
+    network: getNetworkType(),
+  });
 
-  try {
-    return await withRetry(async () => {
-      return builder.executeContractCall({
-        contractAddress: CONTRACT_ADDRESS,
-        contractName: CONTRACT_NAME,
-        functionName,
-        functionArgs,
-        senderKey: userData.appPrivateKey,
-      });
-    });
-  } catch (error) {
-    const parsedError = ErrorParser.parseError(error);
-    throw parsedError;
+  if (!isCallSuccess(state)) {
+    throw ErrorParser.parseError(new Error(state.error || 'Contract call failed'), CONTRACT_NAME);
   }
+  return { txid: state.txId! };
 };
 
 // Read-only function calls
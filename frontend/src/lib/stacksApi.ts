@@ -2,8 +2,6 @@
 // Wrapper around @stacks/transactions for contract interactions
 
 import {
-  makeContractCall as makeStacksContractCall,
-  broadcastTransaction,
   AnchorMode,
   PostConditionMode,
   ClarityValue,
@@ -11,8 +9,8 @@ import {
   cvToValue,
   PostCondition,
 } from '@stacks/transactions';
-import { userSession } from './stacks';
-import { getStacksNetwork, TX_CONFIG } from './contractConfig';
+import { getUserSession, isCallSuccess, openContractCallDialog } from './connect';
+import { getNetworkConfig, getStacksNetwork, TX_CONFIG } from './contractConfig';
 import { TransactionStatus } from '@/types/contracts';
 
 // ============================================
@@ -36,52 +34,36 @@ export interface ContractCallResponse {
 }
 
 /**
- * Make a contract call (write operation)
+ * Make a contract call (write operation). The connected wallet signs and
+ * broadcasts it through lib/connect; fee and nonce are left to the wallet
  */
 export const makeContractCall = async (
   params: ContractCallParams
 ): Promise<ContractCallResponse> => {
-  try {
-    if (!userSession.isUserSignedIn()) {
-      throw new Error('Wallet not connected');
-    }
-
-    const userData = userSession.loadUserData();
-    if (!userData.appPrivateKey) {
-      throw new Error('Private key not available');
-    }
-
-    const network = getStacksNetwork();
-
-    const txOptions = {
-      contractAddress: params.contractAddress,
-      contractName: params.contractName,
-      functionName: params.functionName,
-      functionArgs: params.functionArgs,
-      senderKey: userData.appPrivateKey,
-      network,
-      anchorMode: params.anchorMode || AnchorMode.Any,
-      postConditionMode: params.postConditionMode || PostConditionMode.Allow,
-      postConditions: params.postConditions || [],
-      fee: params.fee || TX_CONFIG.defaultFee,
-    };
-
-    const transaction = await makeStacksContractCall(txOptions);
-    const broadcastResponse = await broadcastTransaction({ transaction, network });
-
-    if (broadcastResponse.error) {
-      throw new Error(broadcastResponse.error);
-    }
+  if (!getUserSession()) {
+    return { error: 'Wallet not connected' };
+  }
 
+  const state = await openContractCallDialog({
+    contractAddress: params.contractAddress,
+    contractName: params.contractName,
+    functionName: params.functionName,
+    functionArgs: params.functionArgs,
+    postConditions: params.postConditions || [],
+    postConditionMode: params.postConditionMode === PostConditionMode.Deny ? 'deny' : 'allow',
+    network: getNetworkConfig().network === 'mainnet' ? 'mainnet' : 'testnet',
+  });
+
+  if (!isCallSuccess(state)) {
+    console.error('Contract call error:', state.error);
     return {
-      txId: broadcastResponse.txid,
-    };
-  } catch (error: any) {
-    console.error('Contract call error:', error);
-    return {
-      error: error.message || 'Failed to make contract call',
+      error: state.error || 'Failed to make contract call',
     };
   }
+
+  return {
+    txId: state.txId,
+  };
 };
 
 // ============================================
@@ -106,10 +88,8 @@ export const callReadOnlyFunction = async (
     const network = getStacksNetwork();
     let senderAddress = params.senderAddress;
 
-    if (!senderAddress && userSession.isUserSignedIn()) {
-      const userData = userSession.loadUserData();
-      const networkType = network.isMainnet() ? 'mainnet' : 'testnet';
-      senderAddress = userData.profile.stxAddress[networkType];
+    if (!senderAddress) {
+      senderAddress = getUserSession()?.address;
     }
 
     if (!senderAddress) {
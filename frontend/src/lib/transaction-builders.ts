@@ -19,6 +19,7 @@ import {
 } from '@stacks/transactions';
 import type { StacksNetworkClient } from './stacks-network-client';
 import type { FeeEstimator } from './fee-estimator';
+import { createFeeStrategy, resolveFee, type FeeStrategyName } from './transactions/fee-strategies';
 
 export interface ContractCallParams {
   contractAddress: string;
@@ -27,6 +28,7 @@ export interface ContractCallParams {
   functionArgs: ClarityValue[];
   senderKey: string;
   fee?: bigint;
+  feeStrategy?: FeeStrategyName;
   nonce?: number;
   postConditionMode?: PostConditionMode;
   postConditions?: any[];
@@ -38,25 +40,33 @@ export interface TxBroadcastResult {
   error?: string;
 }
 
+export interface TxBuilderOptions {
+  /** Fee strategy used when a call does not name one (default 'mempool') */
+  feeStrategy?: FeeStrategyName;
+  /** Upper bound on estimated fees, in micro-STX */
+  maxFee?: bigint;
+}
+
 export class TimeBankingTxBuilders {
   constructor(
     private networkClient: StacksNetworkClient,
-    private feeEstimator: FeeEstimator
+    private feeEstimator: FeeEstimator,
+    private options: TxBuilderOptions = {}
   ) {}
 
   async buildRegisterUser(
     senderKey: string,
-    contractId: string
+    contractId: string,
+    feeStrategy?: FeeStrategyName
   ): Promise<StacksTransaction> {
     const [contractAddress, contractName] = contractId.split('.');
-    const fee = await this.feeEstimator.estimateContractCallFee(contractAddress, contractName, 'register-user');
     return this.buildContractCall({
       contractAddress,
       contractName,
       functionName: 'register-user',
       functionArgs: [],
       senderKey,
-      fee: fee.recommended,
+      feeStrategy,
     });
   }
 
@@ -64,17 +74,17 @@ export class TimeBankingTxBuilders {
     senderKey: string,
     contractId: string,
     to: string,
-    amount: number
+    amount: number,
+    feeStrategy?: FeeStrategyName
   ): Promise<StacksTransaction> {
     const [contractAddress, contractName] = contractId.split('.');
-    const fee = await this.feeEstimator.estimateContractCallFee(contractAddress, contractName, 'transfer-credits');
     return this.buildContractCall({
       contractAddress,
       contractName,
       functionName: 'transfer-credits',
       functionArgs: [principalCV(to), uintCV(BigInt(amount))],
       senderKey,
-      fee: fee.recommended,
+      feeStrategy,
     });
   }
 
@@ -84,10 +94,10 @@ export class TimeBankingTxBuilders {
     beneficiary: string,
     amount: number,
     duration: number,
-    exchangeId?: number
+    exchangeId?: number,
+    feeStrategy?: FeeStrategyName
   ): Promise<StacksTransaction> {
     const [contractAddress, contractName] = contractId.split('.');
-    const fee = await this.feeEstimator.estimateContractCallFee(contractAddress, contractName, 'create-escrow');
     return this.buildContractCall({
       contractAddress,
       contractName,
@@ -99,7 +109,7 @@ export class TimeBankingTxBuilders {
         exchangeId !== undefined ? someCV(uintCV(BigInt(exchangeId))) : noneCV(),
       ],
       senderKey,
-      fee: fee.recommended,
+      feeStrategy,
     });
   }
 
@@ -109,10 +119,10 @@ export class TimeBankingTxBuilders {
     recipient: string,
     amount: number,
     interval: number,
-    scheduleType: number
+    scheduleType: number,
+    feeStrategy?: FeeStrategyName
   ): Promise<StacksTransaction> {
     const [contractAddress, contractName] = contractId.split('.');
-    const fee = await this.feeEstimator.estimateContractCallFee(contractAddress, contractName, 'create-schedule');
     return this.buildContractCall({
       contractAddress,
       contractName,
@@ -124,24 +134,24 @@ export class TimeBankingTxBuilders {
         uintCV(BigInt(scheduleType)),
       ],
       senderKey,
-      fee: fee.recommended,
+      feeStrategy,
     });
   }
 
   async buildStakeTokens(
     senderKey: string,
     contractId: string,
-    amount: bigint
+    amount: bigint,
+    feeStrategy?: FeeStrategyName
   ): Promise<StacksTransaction> {
     const [contractAddress, contractName] = contractId.split('.');
-    const fee = await this.feeEstimator.estimateContractCallFee(contractAddress, contractName, 'stake');
     return this.buildContractCall({
       contractAddress,
       contractName,
       functionName: 'stake',
       functionArgs: [uintCV(amount)],
       senderKey,
-      fee: fee.recommended,
+      feeStrategy,
     });
   }
 
@@ -149,17 +159,17 @@ export class TimeBankingTxBuilders {
     senderKey: string,
     contractId: string,
     proposalId: number,
-    vote: boolean
+    vote: boolean,
+    feeStrategy?: FeeStrategyName
   ): Promise<StacksTransaction> {
     const [contractAddress, contractName] = contractId.split('.');
-    const fee = await this.feeEstimator.estimateContractCallFee(contractAddress, contractName, 'cast-vote');
     return this.buildContractCall({
       contractAddress,
       contractName,
       functionName: 'cast-vote',
       functionArgs: [uintCV(BigInt(proposalId)), boolCV(vote)],
       senderKey,
-      fee: fee.recommended,
+      feeStrategy,
     });
   }
 
@@ -180,26 +190,46 @@ export class TimeBankingTxBuilders {
     }
   }
 
+  /**
+   * Build a signed contract call. Without an explicit fee, a zero-fee draft is
+   * built and serialized so the named fee strategy can price it, then the call
+   * is rebuilt with that fee and the draft's nonce.
+   */
   private async buildContractCall(params: ContractCallParams): Promise<StacksTransaction> {
-    return makeContractCall({
-      contractAddress: params.contractAddress,
-      contractName: params.contractName,
-      functionName: params.functionName,
-      functionArgs: params.functionArgs,
-      senderKey: params.senderKey,
-      network: this.networkClient.getStacksNetwork(),
-      anchorMode: AnchorMode.Any,
-      fee: params.fee,
-      nonce: params.nonce !== undefined ? BigInt(params.nonce) : undefined,
-      postConditionMode: params.postConditionMode ?? PostConditionMode.Deny,
-      postConditions: params.postConditions ?? [],
+    const build = (fee: bigint, nonce?: bigint) =>
+      makeContractCall({
+        contractAddress: params.contractAddress,
+        contractName: params.contractName,
+        functionName: params.functionName,
+        functionArgs: params.functionArgs,
+        senderKey: params.senderKey,
+        network: this.networkClient.getStacksNetwork(),
+        anchorMode: AnchorMode.Any,
+        fee,
+        nonce,
+        postConditionMode: params.postConditionMode ?? PostConditionMode.Deny,
+        postConditions: params.postConditions ?? [],
+      });
+
+    const nonce = params.nonce !== undefined ? BigInt(params.nonce) : undefined;
+    if (params.fee !== undefined) {
+      return build(params.fee, nonce);
+    }
+
+    const draft = await build(BigInt(0), nonce);
+    const strategy = createFeeStrategy(params.feeStrategy ?? this.options.feeStrategy ?? 'mempool', {
+      estimator: this.feeEstimator,
+      maxFee: this.options.maxFee,
     });
+    const fee = await resolveFee(strategy, draft.serialize());
+    return build(fee, BigInt(draft.auth.spendingCondition.nonce));
   }
 }
 
 export function createTxBuilders(
   networkClient: StacksNetworkClient,
-  feeEstimator: FeeEstimator
+  feeEstimator: FeeEstimator,
+  options?: TxBuilderOptions
 ): TimeBankingTxBuilders {
-  return new TimeBankingTxBuilders(networkClient, feeEstimator);
+  return new TimeBankingTxBuilders(networkClient, feeEstimator, options);
 }
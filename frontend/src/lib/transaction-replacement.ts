@@ -0,0 +1,150 @@
+/**
+ * Transaction Replacement
+ * Speeds up or cancels stuck transactions by having the wallet sign a new
+ * transaction at their nonce
+ */
+
+import { deserializeTransaction } from '@stacks/transactions';
+import type { ConnectNetwork } from './connect/auth-flow';
+import {
+  isCallSuccess,
+  openContractCallDialog,
+  type CallState,
+  type ContractCallRequest,
+} from './connect/contract-call-flow';
+import { openTransferDialog, type TransferRequest } from './connect/stx-transfer-flow';
+import type { StacksNetworkClient } from './stacks-network-client';
+import type { NonceManager } from './nonce-manager';
+import {
+  TransactionStatus,
+  type ReplacementKind,
+  type TransactionTracker,
+} from './transaction-tracker';
+import {
+  buildCancelRequest,
+  buildSpeedUpRequest,
+  getSenderAddress,
+} from './transactions/replace-by-fee';
+
+export interface ReplacementResult {
+  txId: string;
+  replaces: string;
+  kind: ReplacementKind;
+  nonce: number;
+  fee: bigint;
+}
+
+/** Wallet requests a replacement is signed and broadcast through */
+export interface ReplacementWallet {
+  callContract: (call: ContractCallRequest) => Promise<CallState>;
+  transfer: (transfer: TransferRequest) => Promise<CallState>;
+}
+
+const connectWallet: ReplacementWallet = {
+  callContract: (call) => openContractCallDialog(call),
+  transfer: (transfer) => openTransferDialog(transfer),
+};
+
+export class TransactionReplacer {
+  constructor(
+    private networkClient: StacksNetworkClient,
+    private nonceManager: NonceManager,
+    private tracker: TransactionTracker,
+    private wallet: ReplacementWallet = connectWallet
+  ) {}
+
+  /**
+   * Re-send a pending contract call with the same nonce and a higher fee
+   */
+  speedUp(txId: string, senderAddress: string, fee?: bigint): Promise<ReplacementResult> {
+    return this.replace('speed-up', txId, senderAddress, fee);
+  }
+
+  /**
+   * Replace a pending transaction with a minimal transfer at its nonce
+   */
+  cancel(txId: string, senderAddress: string, fee?: bigint): Promise<ReplacementResult> {
+    return this.replace('cancel', txId, senderAddress, fee);
+  }
+
+  /**
+   * Replace the newest transaction in txId's chain, so repeated speed-ups
+   * keep outbidding the last one broadcast
+   */
+  private async replace(
+    kind: ReplacementKind,
+    txId: string,
+    senderAddress: string,
+    fee?: bigint
+  ): Promise<ReplacementResult> {
+    if (this.tracker.getConfirmedInChain(txId)) {
+      throw new Error(`Transaction ${txId} has already been mined`);
+    }
+
+    const latest = this.tracker.getReplacementChain(txId).pop()?.txId ?? txId;
+    const tracked = this.tracker.getStatus(latest);
+    if (tracked && tracked.status !== TransactionStatus.PENDING) {
+      throw new Error(`Transaction ${latest} is no longer pending`);
+    }
+
+    const original = deserializeTransaction(await this.fetchRawTransaction(latest));
+    const network: ConnectNetwork =
+      this.networkClient.getNetwork() === 'mainnet' ? 'mainnet' : 'testnet';
+    if (getSenderAddress(original, network) !== senderAddress) {
+      throw new Error(`Transaction ${latest} was not sent by ${senderAddress}`);
+    }
+
+    const { nonce } = await this.nonceManager.reuseNonce(
+      senderAddress,
+      Number(original.auth.spendingCondition.nonce)
+    );
+
+    const options = { network, fee };
+    let replacementFee: bigint;
+    let state: CallState;
+    if (kind === 'speed-up') {
+      const call = buildSpeedUpRequest(original, options);
+      replacementFee = BigInt(call.fee ?? 0);
+      state = await this.wallet.callContract(call);
+    } else {
+      const transfer = buildCancelRequest(original, options);
+      replacementFee = BigInt(transfer.fee ?? 0);
+      state = await this.wallet.transfer(transfer);
+    }
+
+    if (!isCallSuccess(state)) {
+      throw new Error(state.error ?? 'Replacement was not broadcast');
+    }
+
+    const replacementTxId = state.txId as string;
+    this.tracker.trackReplacement(latest, replacementTxId, kind, tracked?.metadata);
+    return {
+      txId: replacementTxId,
+      replaces: latest,
+      kind,
+      nonce,
+      fee: replacementFee,
+    };
+  }
+
+  private async fetchRawTransaction(txId: string): Promise<string> {
+    const endpoint = this.networkClient.getPrimaryEndpoint();
+    const response = await fetch(`${endpoint}/extended/v1/tx/${txId}/raw`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch raw transaction ${txId}: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.raw_tx;
+  }
+}
+
+export function createTransactionReplacer(
+  networkClient: StacksNetworkClient,
+  nonceManager: NonceManager,
+  tracker: TransactionTracker,
+  wallet?: ReplacementWallet
+): TransactionReplacer {
+  return new TransactionReplacer(networkClient, nonceManager, tracker, wallet);
+}
@@ -4,6 +4,7 @@
  */
 
 import { StacksNetwork } from '@stacks/network';
+import { ContractError, ErrorParser } from './error-handling';
 
 export enum TransactionStatus {
   PENDING = 'pending',
@@ -11,8 +12,21 @@ export enum TransactionStatus {
   FAILED = 'failed',
   ABORT_BY_POST_CONDITION = 'abort_by_post_condition',
   ABORT_BY_RESPONSE = 'abort_by_response',
+  REPLACED = 'replaced',
 }
 
+/**
+ * How a replacement transaction relates to the one it replaces
+ */
+export type ReplacementKind = 'speed-up' | 'cancel';
+
+/** Statuses of transactions that were mined, successfully or not */
+const MINED_STATUSES = [
+  TransactionStatus.SUCCESS,
+  TransactionStatus.ABORT_BY_POST_CONDITION,
+  TransactionStatus.ABORT_BY_RESPONSE,
+];
+
 export interface TrackedTransaction {
   txId: string;
   status: TransactionStatus;
@@ -21,7 +35,14 @@ export interface TrackedTransaction {
   blockHeight?: number;
   blockHash?: string;
   error?: string;
+  /** The called contract's error, when the call aborted with an `(err uNNNN)` */
+  contractError?: ContractError;
   metadata?: Record<string, unknown>;
+  /** Transaction this one replaces at the same nonce */
+  replaces?: string;
+  /** Transaction that replaced this one at the same nonce */
+  replacedBy?: string;
+  replacementKind?: ReplacementKind;
 }
 
 export interface TransactionTrackerConfig {
@@ -68,6 +89,69 @@ export class TransactionTracker {
     this.startPolling(txId);
   }
 
+  /**
+   * Track a speed-up or cancel transaction that reuses the nonce of a pending
+   * one. Whichever member of the chain is mined first settles the others as
+   * replaced.
+   */
+  trackReplacement(
+    originalTxId: string,
+    replacementTxId: string,
+    kind: ReplacementKind,
+    metadata?: Record<string, unknown>
+  ): void {
+    if (!this.trackedTxs.has(originalTxId)) {
+      this.track(originalTxId);
+    }
+
+    const original: TrackedTransaction = {
+      ...this.trackedTxs.get(originalTxId)!,
+      replacedBy: replacementTxId,
+    };
+    this.trackedTxs.set(originalTxId, original);
+    this.config.onStatusChange(original);
+
+    // The original may have run out of poll attempts while it was stuck
+    if (original.status === TransactionStatus.PENDING && !this.pollTimers.has(originalTxId)) {
+      this.startPolling(originalTxId);
+    }
+
+    const replacement: TrackedTransaction = {
+      txId: replacementTxId,
+      status: TransactionStatus.PENDING,
+      startedAt: Date.now(),
+      metadata,
+      replaces: originalTxId,
+      replacementKind: kind,
+    };
+    this.trackedTxs.set(replacementTxId, replacement);
+    this.config.onStatusChange(replacement);
+    this.startPolling(replacementTxId);
+  }
+
+  /**
+   * Get every transaction sharing a nonce with txId, oldest first
+   */
+  getReplacementChain(txId: string): TrackedTransaction[] {
+    let root = this.trackedTxs.get(txId);
+    while (root?.replaces && this.trackedTxs.has(root.replaces)) {
+      root = this.trackedTxs.get(root.replaces);
+    }
+
+    const chain: TrackedTransaction[] = [];
+    for (let tx = root; tx; tx = tx.replacedBy ? this.trackedTxs.get(tx.replacedBy) : undefined) {
+      chain.push(tx);
+    }
+    return chain;
+  }
+
+  /**
+   * Get the member of a replacement chain that was mined, if any
+   */
+  getConfirmedInChain(txId: string): TrackedTransaction | undefined {
+    return this.getReplacementChain(txId).find((tx) => MINED_STATUSES.includes(tx.status));
+  }
+
   /**
    * Stop tracking a transaction
    */
@@ -108,7 +192,8 @@ export class TransactionTracker {
         tx.status === TransactionStatus.SUCCESS ||
         tx.status === TransactionStatus.FAILED ||
         tx.status === TransactionStatus.ABORT_BY_POST_CONDITION ||
-        tx.status === TransactionStatus.ABORT_BY_RESPONSE
+        tx.status === TransactionStatus.ABORT_BY_RESPONSE ||
+        tx.status === TransactionStatus.REPLACED
     );
   }
 
@@ -156,7 +241,8 @@ export class TransactionTracker {
         const status = await this.checkTransactionStatus(txId);
         const tx = this.trackedTxs.get(txId);
 
-        if (!tx) {
+        // Untracked, or settled by its replacement chain while this poll was in flight
+        if (!tx || tx.status !== TransactionStatus.PENDING) {
           this.stopPolling(txId);
           return;
         }
@@ -167,6 +253,7 @@ export class TransactionTracker {
           blockHeight: status.blockHeight,
           blockHash: status.blockHash,
           error: status.error,
+          contractError: status.contractError,
         };
 
         if (status.status !== TransactionStatus.PENDING) {
@@ -177,6 +264,10 @@ export class TransactionTracker {
         this.trackedTxs.set(txId, updated);
         this.config.onStatusChange(updated);
 
+        if (MINED_STATUSES.includes(updated.status)) {
+          this.settleReplacementChain(txId);
+        }
+
         if (
           status.status === TransactionStatus.PENDING &&
           attempts < this.config.maxAttempts
@@ -198,6 +289,24 @@ export class TransactionTracker {
     poll();
   }
 
+  /**
+   * Mark the rest of a mined transaction's replacement chain as replaced
+   */
+  private settleReplacementChain(minedTxId: string): void {
+    for (const tx of this.getReplacementChain(minedTxId)) {
+      if (tx.txId === minedTxId || tx.status !== TransactionStatus.PENDING) continue;
+
+      this.stopPolling(tx.txId);
+      const replaced: TrackedTransaction = {
+        ...tx,
+        status: TransactionStatus.REPLACED,
+        completedAt: Date.now(),
+      };
+      this.trackedTxs.set(tx.txId, replaced);
+      this.config.onStatusChange(replaced);
+    }
+  }
+
   /**
    * Stop polling for transaction status
    */
@@ -217,6 +326,7 @@ export class TransactionTracker {
     blockHeight?: number;
     blockHash?: string;
     error?: string;
+    contractError?: ContractError;
   }> {
     const apiUrl = this.config.network.coreApiUrl.replace('/v2', '');
     const response = await fetch(`${apiUrl}/extended/v1/tx/${txId}`);
@@ -238,17 +348,29 @@ export class TransactionTracker {
       case 'abort_by_response':
         status = TransactionStatus.ABORT_BY_RESPONSE;
         break;
+      case 'dropped_replace_by_fee':
+      case 'dropped_replace_across_fork':
+        status = TransactionStatus.REPLACED;
+        break;
       case 'pending':
       default:
         status = TransactionStatus.PENDING;
         break;
     }
 
+    const result: string | undefined = data.tx_result?.repr;
+    const contractId: string | undefined = data.contract_call?.contract_id;
+    const contractError =
+      status === TransactionStatus.ABORT_BY_RESPONSE && result && contractId
+        ? ErrorParser.parseContractError(result, contractId) ?? undefined
+        : undefined;
+
     return {
       status,
       blockHeight: data.block_height,
       blockHash: data.block_hash,
-      error: data.tx_result?.repr,
+      error: contractError?.message ?? result,
+      contractError,
     };
   }
 
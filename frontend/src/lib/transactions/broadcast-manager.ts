@@ -1,4 +1,6 @@
 // broadcast-manager.ts — transaction broadcasting with retry logic
+import { hexToBytes } from '@stacks/common';
+import { serializeTransaction, txidFromData, type StacksTransactionWire } from '@stacks/transactions';
 
 /** Broadcast result type */
 export interface BroadcastResult {
@@ -7,16 +9,88 @@ export interface BroadcastResult {
   error?: string;
 }
 
+/** Whether a broadcast transaction confirmed, failed or may still confirm */
+export type TxOutcome = 'pending' | 'success' | 'failed';
+
+/** Classified broadcast failure reasons */
+export enum BroadcastErrorCode {
+  Unknown = 0,
+  BadNonce = 1,
+  NotEnoughFunds = 2,
+  ConflictingNonceInMempool = 3,
+  FeeTooLow = 4,
+  Rejected = 5,
+  NetworkError = 6,
+  ServerError = 7,
+}
+
+/** Node rejection reasons mapped to error codes */
+const REJECTION_CODES: Record<string, BroadcastErrorCode> = {
+  BadNonce: BroadcastErrorCode.BadNonce,
+  NotEnoughFunds: BroadcastErrorCode.NotEnoughFunds,
+  ConflictingNonceInMempool: BroadcastErrorCode.ConflictingNonceInMempool,
+  FeeTooLow: BroadcastErrorCode.FeeTooLow,
+};
+
 /** Broadcast error class */
 export class BroadcastError extends Error {
   constructor(
     message: string,
-    public readonly code: number,
-    public readonly txId?: string
+    public readonly code: BroadcastErrorCode,
+    public readonly txId?: string,
+    public readonly reason?: string,
+    public readonly reasonData?: unknown
   ) {
     super(message);
     this.name = 'BroadcastError';
   }
+
+  /** Whether retrying the same transaction may succeed */
+  get transient(): boolean {
+    return this.code === BroadcastErrorCode.NetworkError || this.code === BroadcastErrorCode.ServerError;
+  }
+}
+
+/** Broadcast configuration */
+export interface BroadcastConfig {
+  nodeUrl?: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+}
+
+/** Default retry count for transient failures */
+export const DEFAULT_BROADCAST_RETRIES = 3;
+
+/** Default base delay for exponential backoff */
+export const DEFAULT_BASE_DELAY_MS = 500;
+
+/** Default cap on a single backoff delay */
+export const DEFAULT_MAX_DELAY_MS = 8000;
+
+/** Default request timeout */
+export const DEFAULT_BROADCAST_TIMEOUT_MS = 15000;
+
+/** Classify a node rejection body into a BroadcastError */
+export function classifyRejection(body: unknown, txId?: string): BroadcastError {
+  const rejection = (body && typeof body === 'object' ? body : {}) as {
+    error?: string;
+    reason?: string;
+    reason_data?: unknown;
+  };
+  const reason = rejection.reason;
+  const code = reason ? REJECTION_CODES[reason] ?? BroadcastErrorCode.Rejected : BroadcastErrorCode.Unknown;
+  const message = reason
+    ? `Transaction rejected: ${reason}`
+    : rejection.error ?? (typeof body === 'string' && body ? body : 'Transaction rejected');
+
+  return new BroadcastError(message, code, txId, reason, rejection.reason_data);
+}
+
+/** Full-jitter exponential backoff delay for a retry attempt */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.floor(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
 }
 
 /** BroadcastManager handles tx broadcast with retry */
@@ -24,6 +98,17 @@ export class BroadcastManager {
   private successCallbacks: Array<(result: BroadcastResult) => void> = [];
   private failureCallbacks: Array<(error: BroadcastError) => void> = [];
   private pendingCallbacks: Array<(txId: string) => void> = [];
+  private readonly config: Required<BroadcastConfig>;
+
+  constructor(config: BroadcastConfig = {}) {
+    this.config = {
+      nodeUrl: (config.nodeUrl ?? process.env.NEXT_PUBLIC_STACKS_API_URL ?? 'https://api.testnet.hiro.so').replace(/\/$/, ''),
+      maxRetries: config.maxRetries ?? DEFAULT_BROADCAST_RETRIES,
+      baseDelayMs: config.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+      maxDelayMs: config.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+      timeoutMs: config.timeoutMs ?? DEFAULT_BROADCAST_TIMEOUT_MS,
+    };
+  }
 
   onSuccess(cb: (result: BroadcastResult) => void): this {
     this.successCallbacks.push(cb);
@@ -40,309 +125,83 @@ export class BroadcastManager {
     return this;
   }
 
-  async broadcast(_txHex: string): Promise<BroadcastResult> {
-    const result: BroadcastResult = { txId: 'placeholder', status: 'ok' };
-    this.successCallbacks.forEach(cb => cb(result));
-    return result;
+  /** Serialize and POST a transaction, retrying transient failures */
+  async broadcast(tx: StacksTransactionWire | string): Promise<BroadcastResult> {
+    const bytes = hexToBytes((typeof tx === 'string' ? tx : serializeTransaction(tx)).replace(/^0x/, ''));
+    const txId = `0x${txidFromData(bytes)}`;
+    this.pendingCallbacks.forEach(cb => cb(txId));
+
+    let error: BroadcastError | undefined;
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve =>
+          setTimeout(resolve, backoffDelay(attempt - 1, this.config.baseDelayMs, this.config.maxDelayMs))
+        );
+      }
+
+      try {
+        const accepted = await this.post(bytes, txId);
+        const result: BroadcastResult = { txId: accepted, status: 'ok' };
+        this.successCallbacks.forEach(cb => cb(result));
+        return result;
+      } catch (err) {
+        error = err instanceof BroadcastError
+          ? err
+          : new BroadcastError(err instanceof Error ? err.message : 'Broadcast failed', BroadcastErrorCode.NetworkError, txId);
+        if (!error.transient) break;
+      }
+    }
+
+    const failure = error!;
+    this.failureCallbacks.forEach(cb => cb(failure));
+    return { txId, status: 'error', error: failure.message };
   }
-}
-
-/** RETRY_DELAY_1 */
-export const RETRY_DELAY_1 = 13;
-
-/** RETRY_DELAY_2 */
-export const RETRY_DELAY_2 = 26;
-
-/** RETRY_DELAY_3 */
-export const RETRY_DELAY_3 = 39;
-
-/** RETRY_DELAY_4 */
-export const RETRY_DELAY_4 = 52;
-
-/** RETRY_DELAY_5 */
-export const RETRY_DELAY_5 = 65;
-
-/** RETRY_DELAY_6 */
-export const RETRY_DELAY_6 = 78;
-
-/** RETRY_DELAY_7 */
-export const RETRY_DELAY_7 = 91;
-
-/** RETRY_DELAY_8 */
-export const RETRY_DELAY_8 = 104;
-
-/** RETRY_DELAY_9 */
-export const RETRY_DELAY_9 = 117;
-
-/** RETRY_DELAY_10 */
-export const RETRY_DELAY_10 = 130;
-
-/** RETRY_DELAY_11 */
-export const RETRY_DELAY_11 = 143;
-
-/** RETRY_DELAY_12 */
-export const RETRY_DELAY_12 = 156;
-
-/** RETRY_DELAY_13 */
-export const RETRY_DELAY_13 = 169;
-
-/** RETRY_DELAY_14 */
-export const RETRY_DELAY_14 = 182;
-
-/** RETRY_DELAY_15 */
-export const RETRY_DELAY_15 = 195;
-
-/** RETRY_DELAY_16 */
-export const RETRY_DELAY_16 = 208;
-
-/** RETRY_DELAY_17 */
-export const RETRY_DELAY_17 = 221;
-
-/** RETRY_DELAY_18 */
-export const RETRY_DELAY_18 = 234;
-
-/** RETRY_DELAY_19 */
-export const RETRY_DELAY_19 = 247;
-
-/** RETRY_DELAY_20 */
-export const RETRY_DELAY_20 = 260;
-
-/** RETRY_DELAY_21 */
-export const RETRY_DELAY_21 = 273;
-
-/** RETRY_DELAY_22 */
-export const RETRY_DELAY_22 = 286;
-
-/** RETRY_DELAY_23 */
-export const RETRY_DELAY_23 = 299;
-
-/** RETRY_DELAY_24 */
-export const RETRY_DELAY_24 = 312;
-
-/** RETRY_DELAY_25 */
-export const RETRY_DELAY_25 = 325;
-
-/** RETRY_DELAY_26 */
-export const RETRY_DELAY_26 = 338;
-
-/** RETRY_DELAY_27 */
-export const RETRY_DELAY_27 = 351;
-
-/** RETRY_DELAY_28 */
-export const RETRY_DELAY_28 = 364;
-
-/** RETRY_DELAY_29 */
-export const RETRY_DELAY_29 = 377;
-
-/** RETRY_DELAY_30 */
-export const RETRY_DELAY_30 = 390;
-
-/** RETRY_DELAY_31 */
-export const RETRY_DELAY_31 = 403;
-
-/** RETRY_DELAY_32 */
-export const RETRY_DELAY_32 = 416;
-
-/** RETRY_DELAY_33 */
-export const RETRY_DELAY_33 = 429;
-
-/** RETRY_DELAY_34 */
-export const RETRY_DELAY_34 = 442;
-
-/** RETRY_DELAY_35 */
-export const RETRY_DELAY_35 = 455;
-
-/** RETRY_DELAY_36 */
-export const RETRY_DELAY_36 = 468;
-
-/** RETRY_DELAY_37 */
-export const RETRY_DELAY_37 = 481;
-
-/** RETRY_DELAY_38 */
-export const RETRY_DELAY_38 = 494;
-
-/** RETRY_DELAY_39 */
-export const RETRY_DELAY_39 = 507;
-
-/** RETRY_DELAY_40 */
-export const RETRY_DELAY_40 = 520;
-
-/** RETRY_DELAY_41 */
-export const RETRY_DELAY_41 = 533;
-
-/** RETRY_DELAY_42 */
-export const RETRY_DELAY_42 = 546;
 
-/** RETRY_DELAY_43 */
-export const RETRY_DELAY_43 = 559;
-
-/** RETRY_DELAY_44 */
-export const RETRY_DELAY_44 = 572;
-
-/** RETRY_DELAY_45 */
-export const RETRY_DELAY_45 = 585;
-
-/** RETRY_DELAY_46 */
-export const RETRY_DELAY_46 = 598;
-
-/** RETRY_DELAY_47 */
-export const RETRY_DELAY_47 = 611;
-
-/** RETRY_DELAY_48 */
-export const RETRY_DELAY_48 = 624;
-
-/** RETRY_DELAY_49 */
-export const RETRY_DELAY_49 = 637;
-
-/** RETRY_DELAY_50 */
-export const RETRY_DELAY_50 = 650;
-
-/** RETRY_DELAY_51 */
-export const RETRY_DELAY_51 = 663;
-
-/** RETRY_DELAY_52 */
-export const RETRY_DELAY_52 = 676;
-
-/** RETRY_DELAY_53 */
-export const RETRY_DELAY_53 = 689;
-
-/** RETRY_DELAY_54 */
-export const RETRY_DELAY_54 = 702;
-
-/** RETRY_DELAY_55 */
-export const RETRY_DELAY_55 = 715;
-
-/** RETRY_DELAY_56 */
-export const RETRY_DELAY_56 = 728;
-
-/** RETRY_DELAY_57 */
-export const RETRY_DELAY_57 = 741;
-
-/** RETRY_DELAY_58 */
-export const RETRY_DELAY_58 = 754;
-
-/** RETRY_DELAY_59 */
-export const RETRY_DELAY_59 = 767;
-
-/** RETRY_DELAY_60 */
-export const RETRY_DELAY_60 = 780;
-
-/** RETRY_DELAY_61 */
-export const RETRY_DELAY_61 = 793;
-
-/** RETRY_DELAY_62 */
-export const RETRY_DELAY_62 = 806;
-
-/** RETRY_DELAY_63 */
-export const RETRY_DELAY_63 = 819;
-
-/** RETRY_DELAY_64 */
-export const RETRY_DELAY_64 = 832;
-
-/** RETRY_DELAY_65 */
-export const RETRY_DELAY_65 = 845;
-
-/** RETRY_DELAY_66 */
-export const RETRY_DELAY_66 = 858;
-
-/** RETRY_DELAY_67 */
-export const RETRY_DELAY_67 = 871;
-
-/** RETRY_DELAY_68 */
-export const RETRY_DELAY_68 = 884;
-
-/** RETRY_DELAY_69 */
-export const RETRY_DELAY_69 = 897;
-
-/** RETRY_DELAY_70 */
-export const RETRY_DELAY_70 = 910;
-
-/** RETRY_DELAY_71 */
-export const RETRY_DELAY_71 = 923;
-
-/** RETRY_DELAY_72 */
-export const RETRY_DELAY_72 = 936;
-
-/** RETRY_DELAY_73 */
-export const RETRY_DELAY_73 = 949;
-
-/** RETRY_DELAY_74 */
-export const RETRY_DELAY_74 = 962;
-
-/** RETRY_DELAY_75 */
-export const RETRY_DELAY_75 = 975;
-
-/** RETRY_DELAY_76 */
-export const RETRY_DELAY_76 = 988;
-
-/** RETRY_DELAY_77 */
-export const RETRY_DELAY_77 = 1001;
-
-/** RETRY_DELAY_78 */
-export const RETRY_DELAY_78 = 1014;
-
-/** RETRY_DELAY_79 */
-export const RETRY_DELAY_79 = 1027;
-
-/** RETRY_DELAY_80 */
-export const RETRY_DELAY_80 = 1040;
-
-/** RETRY_DELAY_81 */
-export const RETRY_DELAY_81 = 1053;
-
-/** RETRY_DELAY_82 */
-export const RETRY_DELAY_82 = 1066;
-
-/** RETRY_DELAY_83 */
-export const RETRY_DELAY_83 = 1079;
-
-/** RETRY_DELAY_84 */
-export const RETRY_DELAY_84 = 1092;
-
-/** RETRY_DELAY_85 */
-export const RETRY_DELAY_85 = 1105;
-
-/** RETRY_DELAY_86 */
-export const RETRY_DELAY_86 = 1118;
-
-/** RETRY_DELAY_87 */
-export const RETRY_DELAY_87 = 1131;
-
-/** RETRY_DELAY_88 */
-export const RETRY_DELAY_88 = 1144;
-
-/** RETRY_DELAY_89 */
-export const RETRY_DELAY_89 = 1157;
-
-/** RETRY_DELAY_90 */
-export const RETRY_DELAY_90 = 1170;
-
-/** RETRY_DELAY_91 */
-export const RETRY_DELAY_91 = 1183;
-
-/** RETRY_DELAY_92 */
-export const RETRY_DELAY_92 = 1196;
-
-/** RETRY_DELAY_93 */
-export const RETRY_DELAY_93 = 1209;
-
-/** RETRY_DELAY_94 */
-export const RETRY_DELAY_94 = 1222;
-
-/** RETRY_DELAY_95 */
-export const RETRY_DELAY_95 = 1235;
-
-/** RETRY_DELAY_96 */
-export const RETRY_DELAY_96 = 1248;
-
-/** RETRY_DELAY_97 */
-export const RETRY_DELAY_97 = 1261;
-
-/** RETRY_DELAY_98 */
-export const RETRY_DELAY_98 = 1274;
-
-/** RETRY_DELAY_99 */
-export const RETRY_DELAY_99 = 1287;
+  /**
+   * Look up a broadcast transaction. Aborted and dropped transactions have
+   * failed; anything else, including one the node has not indexed yet, may
+   * still confirm
+   */
+  async getOutcome(txId: string): Promise<TxOutcome> {
+    const res = await fetch(`${this.config.nodeUrl}/extended/v1/tx/${txId}`);
+    if (res.status === 404) return 'pending';
+    if (!res.ok) {
+      throw new Error(`Failed to fetch transaction ${txId}: ${res.status} ${res.statusText}`);
+    }
+
+    const { tx_status: status } = await res.json();
+    if (status === 'success') return 'success';
+    if (typeof status === 'string' && (status.startsWith('abort_') || status.startsWith('dropped_'))) {
+      return 'failed';
+    }
+    return 'pending';
+  }
 
-/** RETRY_DELAY_100 */
-export const RETRY_DELAY_100 = 1300;
+  /** POST raw transaction bytes to the node, returning the accepted txid */
+  private async post(bytes: Uint8Array, txId: string): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    try {
+      const res = await fetch(`${this.config.nodeUrl}/v2/transactions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: bytes as BodyInit,
+        signal: controller.signal,
+      });
+      const text = await res.text();
+      let body: unknown = text;
+      try { body = JSON.parse(text); } catch { /* plain text body */ }
+
+      if (res.ok) {
+        const accepted = typeof body === 'string' ? body : txId;
+        return accepted.startsWith('0x') ? accepted : `0x${accepted}`;
+      }
+      if (res.status >= 500 || res.status === 429) {
+        throw new BroadcastError(`Node responded with ${res.status}`, BroadcastErrorCode.ServerError, txId);
+      }
+      throw classifyRejection(body, txId);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
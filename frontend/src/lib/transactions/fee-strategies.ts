@@ -1,23 +1,32 @@
 // fee-strategies.ts — transaction fee estimation strategies
+import type { FeeEstimator, FeeTransactionType } from '../fee-estimator';
 
 /** Fee strategy interface */
 export interface FeeStrategy {
   estimateFee(): bigint;
 }
 
+/** Async fee strategy priced against a serialized transaction */
+export interface AsyncFeeStrategy {
+  estimateFee(serializedTx?: string): Promise<bigint>;
+}
+
+/** Fee priority level */
+export type FeePriority = 'low' | 'medium' | 'high';
+
 /** Minimum fee strategy */
 export class MinFeeStrategy implements FeeStrategy {
-  estimateFee(): bigint { return 180n; }
+  estimateFee(): bigint { return BigInt(180); }
 }
 
 /** Average fee strategy */
 export class AverageFeeStrategy implements FeeStrategy {
-  estimateFee(): bigint { return 500n; }
+  estimateFee(): bigint { return BigInt(500); }
 }
 
 /** High priority fee strategy */
 export class HighPriorityFeeStrategy implements FeeStrategy {
-  estimateFee(): bigint { return 1500n; }
+  estimateFee(): bigint { return BigInt(1500); }
 }
 
 /** Custom fee strategy with configurable amount */
@@ -31,6 +40,104 @@ export function estimateFee(strategy: FeeStrategy): bigint {
   return strategy.estimateFee();
 }
 
+/** Static tier used per priority when no live estimate is available */
+const STATIC_TIERS: Record<FeePriority, FeeStrategy> = {
+  low: new MinFeeStrategy(),
+  medium: new AverageFeeStrategy(),
+  high: new HighPriorityFeeStrategy(),
+};
+
+/** Mempool-aware strategy options */
+export interface MempoolFeeOptions {
+  priority?: FeePriority;
+  /** Upper bound on the fee, in micro-STX */
+  maxFee?: bigint;
+  /** Weight of recent block fees in the blend, 0..1 */
+  blockFeeWeight?: number;
+  txType?: FeeTransactionType;
+}
+
+/** Default weight of recent block fees against the node's mempool estimate */
+export const DEFAULT_BLOCK_FEE_WEIGHT = 0.3;
+
+/**
+ * Mempool-aware fee strategy: blends the node's estimate for the transaction
+ * with fees paid in recent blocks, caps the result and falls back to the
+ * static tiers when neither source is reachable
+ */
+export class MempoolFeeStrategy implements AsyncFeeStrategy {
+  private readonly priority: FeePriority;
+
+  constructor(
+    private readonly estimator: FeeEstimator,
+    private readonly options: MempoolFeeOptions = {}
+  ) {
+    this.priority = options.priority ?? 'medium';
+  }
+
+  async estimateFee(serializedTx?: string): Promise<bigint> {
+    const [mempool, blocks] = await Promise.allSettled([
+      serializedTx
+        ? this.estimator.estimateTransactionFee(serializedTx)
+        : Promise.reject(new Error('No transaction to estimate')),
+      this.estimator.getRecentFeePercentiles(this.options.txType),
+    ]);
+
+    const mempoolFee = mempool.status === 'fulfilled' ? mempool.value[this.priority] : undefined;
+    const blockFee = blocks.status === 'fulfilled'
+      ? { low: blocks.value.p25, medium: blocks.value.p50, high: blocks.value.p95 }[this.priority]
+      : undefined;
+
+    let fee: bigint;
+    if (mempoolFee !== undefined && blockFee !== undefined) {
+      const weight = Math.round((this.options.blockFeeWeight ?? DEFAULT_BLOCK_FEE_WEIGHT) * 100);
+      fee = (mempoolFee * BigInt(100 - weight) + blockFee * BigInt(weight)) / BigInt(100);
+    } else {
+      fee = mempoolFee ?? blockFee ?? STATIC_TIERS[this.priority].estimateFee();
+    }
+
+    const minFee = STATIC_TIERS.low.estimateFee();
+    if (fee < minFee) fee = minFee;
+    if (this.options.maxFee !== undefined && fee > this.options.maxFee) fee = this.options.maxFee;
+    return fee;
+  }
+}
+
+/** Named fee strategies */
+export type FeeStrategyName = 'min' | 'average' | 'high' | 'mempool';
+
+/** Options for building a strategy by name */
+export interface FeeStrategyOptions extends MempoolFeeOptions {
+  estimator?: FeeEstimator;
+}
+
+/** Create a fee strategy by name; 'mempool' needs an estimator and otherwise uses its static tier */
+export function createFeeStrategy(
+  name: FeeStrategyName,
+  options: FeeStrategyOptions = {}
+): FeeStrategy | AsyncFeeStrategy {
+  switch (name) {
+    case 'min':
+      return STATIC_TIERS.low;
+    case 'average':
+      return STATIC_TIERS.medium;
+    case 'high':
+      return STATIC_TIERS.high;
+    case 'mempool':
+      return options.estimator
+        ? new MempoolFeeStrategy(options.estimator, options)
+        : STATIC_TIERS[options.priority ?? 'medium'];
+  }
+}
+
+/** Resolve a fee from either a sync or async strategy */
+export async function resolveFee(
+  strategy: FeeStrategy | AsyncFeeStrategy,
+  serializedTx?: string
+): Promise<bigint> {
+  return strategy.estimateFee(serializedTx);
+}
+
 /** FEE_TIER_1 */
 export const FEE_TIER_1 = 13;
 
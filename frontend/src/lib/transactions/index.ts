@@ -3,3 +3,4 @@ export * from './contract-call-builder';
 export * from './fee-strategies';
 export * from './broadcast-manager';
 export * from './post-condition-factory';
+export * from './replace-by-fee';
@@ -1,5 +1,15 @@
 // post-condition-factory.ts — builders for Stacks post-conditions
 
+import type {
+  AssetString,
+  ClarityValue,
+  FungibleComparator,
+  FungiblePostCondition,
+  NonFungibleComparator,
+  NonFungiblePostCondition,
+  StxPostCondition,
+} from '@stacks/transactions';
+
 /** Fungible condition code */
 export enum FungibleConditionCode {
   Equal = 0x01,
@@ -15,33 +25,73 @@ export enum NonFungibleConditionCode {
   DoesNotSend = 0x11,
 }
 
+const FUNGIBLE_COMPARATORS: Record<FungibleConditionCode, FungibleComparator> = {
+  [FungibleConditionCode.Equal]: 'eq',
+  [FungibleConditionCode.Greater]: 'gt',
+  [FungibleConditionCode.GreaterEqual]: 'gte',
+  [FungibleConditionCode.Less]: 'lt',
+  [FungibleConditionCode.LessEqual]: 'lte',
+};
+
+const NON_FUNGIBLE_COMPARATORS: Record<NonFungibleConditionCode, NonFungibleComparator> = {
+  [NonFungibleConditionCode.Sends]: 'sent',
+  [NonFungibleConditionCode.DoesNotSend]: 'not-sent',
+};
+
+/**
+ * Asset identifier `address.contract::asset` used by FT and NFT conditions
+ */
+export function makeAssetString(contractId: string, assetName: string): AssetString {
+  return `${contractId}::${assetName}` as AssetString;
+}
+
 /** STX post-condition builder */
 export function makeSTXPostCondition(
   address: string,
   code: FungibleConditionCode,
   amount: bigint
-): Record<string, unknown> {
-  return { type: 'stx', address, code, amount: amount.toString() };
+): StxPostCondition {
+  return {
+    type: 'stx-postcondition',
+    address,
+    condition: FUNGIBLE_COMPARATORS[code],
+    amount: amount.toString(),
+  };
 }
 
-/** FT post-condition builder */
+/**
+ * FT post-condition builder. Burns count as sends, so this also bounds
+ * tokens a contract burns from `address`
+ */
 export function makeFTPostCondition(
   address: string,
-  assetInfo: string,
+  assetInfo: AssetString,
   code: FungibleConditionCode,
   amount: bigint
-): Record<string, unknown> {
-  return { type: 'ft', address, assetInfo, code, amount: amount.toString() };
+): FungiblePostCondition {
+  return {
+    type: 'ft-postcondition',
+    address,
+    condition: FUNGIBLE_COMPARATORS[code],
+    asset: assetInfo,
+    amount: amount.toString(),
+  };
 }
 
 /** NFT post-condition builder */
 export function makeNFTPostCondition(
   address: string,
-  assetInfo: string,
+  assetInfo: AssetString,
   code: NonFungibleConditionCode,
-  tokenId: unknown
-): Record<string, unknown> {
-  return { type: 'nft', address, assetInfo, code, tokenId };
+  tokenId: ClarityValue
+): NonFungiblePostCondition {
+  return {
+    type: 'nft-postcondition',
+    address,
+    condition: NON_FUNGIBLE_COMPARATORS[code],
+    asset: assetInfo,
+    assetId: tokenId,
+  };
 }
 
 /** POST_COND_1 */
@@ -0,0 +1,99 @@
+// replace-by-fee.ts — wallet requests that speed up or cancel pending transactions
+import {
+  addressFromVersionHash,
+  addressHashModeToVersion,
+  addressToString,
+  deserializeTransaction,
+  PayloadType,
+  PostConditionMode,
+  wireToPostCondition,
+  type StacksTransactionWire,
+} from '@stacks/transactions';
+import type { ConnectNetwork } from '../connect/auth-flow';
+import type { ContractCallRequest } from '../connect/contract-call-flow';
+import type { TransferRequest } from '../connect/stx-transfer-flow';
+
+/** Minimum fee increase a replacement pays over the transaction it replaces, in percent */
+export const MIN_FEE_BUMP_PERCENT = 10;
+
+/**
+ * Where cancel transfers go. Nodes reject zero-value transfers and transfers
+ * to the sender, so a cancel sends one micro-STX to the burn address
+ */
+export const CANCEL_RECIPIENTS: Record<ConnectNetwork, string> = {
+  mainnet: 'SP000000000000000000002Q6VF78',
+  testnet: 'ST000000000000000000002AMW42H',
+};
+
+export const CANCEL_AMOUNT = 1;
+
+/** Replacement request options */
+export interface ReplacementOptions {
+  network: ConnectNetwork;
+  /** Explicit replacement fee; defaults to the minimum bump */
+  fee?: bigint;
+}
+
+/** Lowest fee that outbids a pending transaction paying originalFee */
+export function minimumReplacementFee(originalFee: bigint): bigint {
+  const bumped = (originalFee * BigInt(100 + MIN_FEE_BUMP_PERCENT) + BigInt(99)) / BigInt(100);
+  return bumped > originalFee ? bumped : originalFee + BigInt(1);
+}
+
+/** Address that signed a transaction */
+export function getSenderAddress(tx: StacksTransactionWire, network: ConnectNetwork): string {
+  const { hashMode, signer } = tx.auth.spendingCondition;
+  return addressToString(addressFromVersionHash(addressHashModeToVersion(hashMode, network), signer));
+}
+
+/** Wallet contract call re-sending a pending contract call at its nonce with a higher fee */
+export function buildSpeedUpRequest(
+  original: StacksTransactionWire | string,
+  options: ReplacementOptions
+): ContractCallRequest {
+  const tx = typeof original === 'string' ? deserializeTransaction(original) : original;
+  const { payload } = tx;
+  if (payload.payloadType !== PayloadType.ContractCall) {
+    throw new Error('Only contract calls can be sped up');
+  }
+
+  return {
+    contractAddress: addressToString(payload.contractAddress),
+    contractName: payload.contractName.content,
+    functionName: payload.functionName.content,
+    functionArgs: payload.functionArgs,
+    postConditions: tx.postConditions.values.map(wireToPostCondition),
+    postConditionMode: tx.postConditionMode === PostConditionMode.Allow ? 'allow' : 'deny',
+    ...replacementFeeAndNonce(tx, options),
+  };
+}
+
+/** Wallet transfer that takes a pending transaction's nonce so it can never be mined */
+export function buildCancelRequest(
+  original: StacksTransactionWire | string,
+  options: ReplacementOptions
+): TransferRequest {
+  const tx = typeof original === 'string' ? deserializeTransaction(original) : original;
+
+  return {
+    recipient: CANCEL_RECIPIENTS[options.network],
+    amount: CANCEL_AMOUNT,
+    memo: 'cancel',
+    ...replacementFeeAndNonce(tx, options),
+  };
+}
+
+/** Nonce, fee and network shared by both replacement kinds */
+function replacementFeeAndNonce(tx: StacksTransactionWire, options: ReplacementOptions) {
+  const { nonce, fee: originalFee } = tx.auth.spendingCondition;
+  const minFee = minimumReplacementFee(originalFee);
+  if (options.fee !== undefined && options.fee < minFee) {
+    throw new Error(`Replacement fee must be at least ${minFee} micro-STX`);
+  }
+
+  return {
+    network: options.network,
+    nonce,
+    fee: options.fee ?? minFee,
+  };
+}
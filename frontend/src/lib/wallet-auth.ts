@@ -3,8 +3,15 @@
  * Handles Stacks wallet connection, session management and user data
  */
 
-import { AppConfig, UserSession, showConnect } from '@stacks/connect';
 import type { SupportedNetwork } from './stacks-network-client';
+import {
+  clearSession,
+  getUserSession,
+  initializeAuth,
+  isUserCancellation,
+  refreshSession,
+  type ConnectSession,
+} from './connect';
 
 export interface WalletAuthConfig {
   appName: string;
@@ -36,8 +43,6 @@ type AuthStateListener = (state: AuthState) => void;
 
 export class WalletAuth {
   private config: WalletAuthConfig;
-  private appConfig: AppConfig;
-  private userSession: UserSession;
   private state: AuthState = {
     isConnected: false,
     isConnecting: false,
@@ -47,39 +52,34 @@ export class WalletAuth {
 
   constructor(config: WalletAuthConfig) {
     this.config = config;
-    this.appConfig = new AppConfig(['store_write', 'publish_data'], config.redirectUrl);
-    this.userSession = new UserSession({ appConfig: this.appConfig });
     this.initFromSession();
   }
 
   async connect(options?: { onFinish?: () => void; onCancel?: () => void }): Promise<void> {
     this.setState({ ...this.state, isConnecting: true, error: undefined });
 
-    return new Promise((resolve, reject) => {
-      showConnect({
-        appDetails: {
-          name: this.config.appName,
-          icon: this.config.appIconUrl ?? `${window.location.origin}/icon.png`,
-        },
-        userSession: this.userSession,
-        onFinish: () => {
-          this.initFromSession();
-          options?.onFinish?.();
-          resolve();
-        },
-        onCancel: () => {
-          this.setState({ ...this.state, isConnecting: false });
-          options?.onCancel?.();
-          resolve();
-        },
+    try {
+      const session = await initializeAuth({
+        network: this.config.network === 'mainnet' ? 'mainnet' : 'testnet',
       });
-    });
+      this.loadWalletFromSession(session);
+      options?.onFinish?.();
+    } catch (error) {
+      if (isUserCancellation(error)) {
+        this.setState({ ...this.state, isConnecting: false });
+        options?.onCancel?.();
+        return;
+      }
+      this.setState({
+        ...this.state,
+        isConnecting: false,
+        error: error instanceof Error ? error.message : 'Wallet connection failed',
+      });
+    }
   }
 
   disconnect(): void {
-    if (this.userSession.isUserSignedIn()) {
-      this.userSession.signUserOut();
-    }
+    clearSession();
     this.setState({
       isConnected: false,
       isConnecting: false,
@@ -92,23 +92,13 @@ export class WalletAuth {
   }
 
   getTestnetAddress(): string | null {
-    if (!this.userSession.isUserSignedIn()) return null;
-    try {
-      const userData = this.userSession.loadUserData();
-      return userData?.profile?.stxAddress?.testnet ?? null;
-    } catch {
-      return null;
-    }
+    const session = getUserSession();
+    return session?.network === 'testnet' ? session.address : null;
   }
 
   getMainnetAddress(): string | null {
-    if (!this.userSession.isUserSignedIn()) return null;
-    try {
-      const userData = this.userSession.loadUserData();
-      return userData?.profile?.stxAddress?.mainnet ?? null;
-    } catch {
-      return null;
-    }
+    const session = getUserSession();
+    return session?.network === 'mainnet' ? session.address : null;
   }
 
   getAddressForNetwork(): string | null {
@@ -125,8 +115,8 @@ export class WalletAuth {
     return { ...this.state };
   }
 
-  getUserSession(): UserSession {
-    return this.userSession;
+  getUserSession(): ConnectSession | null {
+    return getUserSession();
   }
 
   onStateChange(listener: AuthStateListener): () => void {
@@ -138,12 +128,9 @@ export class WalletAuth {
 
   private initFromSession(): void {
     try {
-      if (this.userSession.isSignInPending()) {
-        this.userSession.handlePendingSignIn().then(() => this.loadWalletFromSession());
-        return;
-      }
-      if (this.userSession.isUserSignedIn()) {
-        this.loadWalletFromSession();
+      const session = refreshSession();
+      if (session) {
+        this.loadWalletFromSession(session);
         return;
       }
     } catch {
@@ -152,29 +139,13 @@ export class WalletAuth {
     this.setState({ isConnected: false, isConnecting: false, wallet: null });
   }
 
-  private loadWalletFromSession(): void {
-    try {
-      const userData = this.userSession.loadUserData();
-      const address =
-        this.config.network === 'mainnet'
-          ? (userData?.profile?.stxAddress?.mainnet ?? '')
-          : (userData?.profile?.stxAddress?.testnet ?? '');
-
-      const wallet: ConnectedWallet = {
-        address,
-        publicKey: userData?.appPrivateKey,
-        profile: {
-          name: userData?.profile?.name ?? undefined,
-          avatarUrl: userData?.profile?.image?.[0]?.contentUrl ?? undefined,
-          description: userData?.profile?.description ?? undefined,
-        },
-        decentralizedId: userData?.decentralizedID ?? undefined,
-        connectedAt: Date.now(),
-      };
-      this.setState({ isConnected: true, isConnecting: false, wallet });
-    } catch {
-      this.setState({ isConnected: false, isConnecting: false, wallet: null });
-    }
+  private loadWalletFromSession(session: ConnectSession): void {
+    const wallet: ConnectedWallet = {
+      address: session.address,
+      publicKey: session.publicKey,
+      connectedAt: session.connectedAt,
+    };
+    this.setState({ isConnected: true, isConnecting: false, wallet });
   }
 
   private setState(newState: AuthState): void {
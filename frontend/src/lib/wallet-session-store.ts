@@ -0,0 +1,119 @@
+/**
+ * Wallet Session Store
+ * Sign-in and socket nonces and wallet sessions kept in the wallet_auth_nonces and
+ * wallet_sessions tables (server only)
+ */
+
+import { getPool, PostgresStore, whenSchemaReady } from './database';
+import type { WalletSession } from './wallet-session';
+
+export class WalletSessionStore extends PostgresStore {
+  /**
+   * Store a nonce until it is used or expires (unix seconds). With an
+   * address it is a socket nonce for that signed-in wallet, else a sign-in
+   * nonce
+   */
+  public async saveAuthNonce(nonce: string, expiresAt: number, address?: string): Promise<void> {
+    await this.query(
+      'INSERT INTO wallet_auth_nonces (nonce, expires_at, address) VALUES ($1, $2, $3)',
+      [nonce, expiresAt, address ?? null]
+    );
+  }
+
+  /**
+   * Use up a sign-in nonce. Resolves false if it was never issued, has
+   * already been used or expired before `now` (unix seconds)
+   */
+  public async consumeAuthNonce(nonce: string, now: number): Promise<boolean> {
+    const result = await this.query(
+      'DELETE FROM wallet_auth_nonces WHERE nonce = $1 AND address IS NULL RETURNING expires_at',
+      [nonce]
+    );
+
+    return result.rows.length > 0 && parseInt(result.rows[0].expires_at) > now;
+  }
+
+  /**
+   * Use up a socket nonce. Resolves the address it was issued to, or null if
+   * it was never issued, has already been used or expired before `now`
+   */
+  public async consumeSocketNonce(nonce: string, now: number): Promise<string | null> {
+    const result = await this.query(
+      `DELETE FROM wallet_auth_nonces WHERE nonce = $1 AND address IS NOT NULL
+       RETURNING address, expires_at`,
+      [nonce]
+    );
+
+    if (result.rows.length === 0 || parseInt(result.rows[0].expires_at) <= now) return null;
+    return result.rows[0].address;
+  }
+
+  /**
+   * Start a session for a verified wallet address
+   */
+  public async createSession(tokenHash: string, address: string, expiresAt: number): Promise<void> {
+    await this.query(
+      'INSERT INTO wallet_sessions (token_hash, address, expires_at) VALUES ($1, $2, $3)',
+      [tokenHash, address, expiresAt]
+    );
+  }
+
+  /**
+   * Get the session for a token hash, or null if there is none or it expired
+   * at or before `now` (unix seconds)
+   */
+  public async getSession(tokenHash: string, now: number): Promise<WalletSession | null> {
+    const result = await this.query(
+      'SELECT address, expires_at FROM wallet_sessions WHERE token_hash = $1 AND expires_at > $2',
+      [tokenHash, now]
+    );
+
+    if (result.rows.length === 0) return null;
+    return {
+      address: result.rows[0].address,
+      expiresAt: parseInt(result.rows[0].expires_at),
+    };
+  }
+
+  /**
+   * End a session
+   */
+  public async deleteSession(tokenHash: string): Promise<boolean> {
+    const result = await this.query(
+      'DELETE FROM wallet_sessions WHERE token_hash = $1 RETURNING address',
+      [tokenHash]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Delete nonces and sessions that expired at or before `now` (unix
+   * seconds). Resolves how many rows went
+   */
+  public async cleanExpired(now: number): Promise<number> {
+    const nonces = await this.query(
+      'DELETE FROM wallet_auth_nonces WHERE expires_at <= $1 RETURNING nonce',
+      [now]
+    );
+    const sessions = await this.query(
+      'DELETE FROM wallet_sessions WHERE expires_at <= $1 RETURNING token_hash',
+      [now]
+    );
+
+    return (nonces.rowCount || 0) + (sessions.rowCount || 0);
+  }
+}
+
+// Singleton instance
+let walletSessionStore: WalletSessionStore | null = null;
+
+/**
+ * Get or create the session store on the shared pool
+ */
+export function getWalletSessionStore(): WalletSessionStore {
+  if (!walletSessionStore) {
+    walletSessionStore = new WalletSessionStore(getPool(), whenSchemaReady);
+  }
+  return walletSessionStore;
+}
@@ -0,0 +1,251 @@
+/**
+ * Wallet Sessions
+ * Sign-In With Stacks for API routes (server only)
+ *
+ * The server issues a single-use nonce, the wallet signs a sign-in message
+ * containing it (see createSignInMessage), and the server exchanges the
+ * signature for an HTTP-only session cookie. Routes wrapped in withWalletAuth
+ * then see the signed-in address as `req.wallet.address`. The cookie holds a
+ * random token; only its hash is stored, and signing out deletes the session.
+ * A signed-in wallet authenticates its realtime socket with a single-use
+ * socket nonce issued for the session's address (issueSocketNonce).
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getWalletSessionStore } from './wallet-session-store';
+import {
+  parseSignInMessage,
+  SIGN_IN_CHAIN_IDS,
+  SignInMessage,
+  verifyMessageSignature,
+} from './message-signing';
+
+export interface WalletSession {
+  address: string;
+  /** Unix seconds */
+  expiresAt: number;
+}
+
+/** A request made with a valid session cookie */
+export type WalletAuthRequest = NextApiRequest & { wallet: WalletSession };
+
+export type WalletAuthHandler = (
+  req: WalletAuthRequest,
+  res: NextApiResponse
+) => unknown | Promise<unknown>;
+
+export const SESSION_COOKIE = 'timebank_session';
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60; // 7 days
+/** How long a nonce, and the message signed with it, can be used to sign in */
+export const SIGN_IN_NONCE_TTL_SECONDS = 10 * 60;
+const SIGN_IN_CLOCK_SKEW_SECONDS = 60;
+/** How long a socket nonce can be used; clients fetch one right before using it */
+export const SOCKET_NONCE_TTL_SECONDS = 60;
+/** Expired nonces and sessions are deleted at most this often */
+const CLEAN_EXPIRED_INTERVAL_SECONDS = 60;
+
+let lastCleanedAt = 0;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const hashSessionToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const getAddressNetwork = (address: string): 'mainnet' | 'testnet' =>
+  /^S[PM]/.test(address) ? 'mainnet' : 'testnet';
+
+/**
+ * Host sign-in messages must name: the configured app URL's, or the
+ * request's when none is configured
+ */
+export function getSignInDomain(req: NextApiRequest): string | undefined {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return appUrl ? new URL(appUrl).host : req.headers.host;
+}
+
+/**
+ * Issue a nonce for the next sign-in message, first deleting expired nonces
+ * and sessions if that has not been done in the last minute
+ */
+export async function issueSignInNonce(now = nowSeconds()): Promise<{ nonce: string; expiresAt: number }> {
+  const sessionStore = getWalletSessionStore();
+  const nonce = randomBytes(16).toString('hex');
+  const expiresAt = now + SIGN_IN_NONCE_TTL_SECONDS;
+
+  if (now - lastCleanedAt >= CLEAN_EXPIRED_INTERVAL_SECONDS) {
+    lastCleanedAt = now;
+    await sessionStore.cleanExpired(now);
+  }
+  await sessionStore.saveAuthNonce(nonce, expiresAt);
+  return { nonce, expiresAt };
+}
+
+/**
+ * Issue a single-use nonce the signed-in `address` can authenticate its
+ * realtime socket with
+ */
+export async function issueSocketNonce(
+  address: string,
+  now = nowSeconds()
+): Promise<{ nonce: string; expiresAt: number }> {
+  const nonce = randomBytes(16).toString('hex');
+  const expiresAt = now + SOCKET_NONCE_TTL_SECONDS;
+
+  await getWalletSessionStore().saveAuthNonce(nonce, expiresAt, address);
+  return { nonce, expiresAt };
+}
+
+/**
+ * Use up a socket nonce. Resolves the address it was issued to, or null if
+ * it is unknown, used or expired
+ */
+export async function consumeSocketNonce(nonce: unknown, now = nowSeconds()): Promise<string | null> {
+  if (typeof nonce !== 'string' || !/^[0-9a-f]{32}$/.test(nonce)) return null;
+
+  return getWalletSessionStore().consumeSocketNonce(nonce, now);
+}
+
+/**
+ * Why a sign-in message cannot start a session on `domain` at `now` (unix
+ * seconds), or null if it can. Does not check the signature or the nonce
+ */
+export function getSignInError(
+  fields: SignInMessage,
+  domain: string | undefined,
+  now = nowSeconds()
+): string | null {
+  if (!domain || fields.domain !== domain) return 'Message was signed for another domain';
+
+  let uriHost: string | null = null;
+  try {
+    uriHost = new URL(fields.uri).host;
+  } catch {
+    // reported below
+  }
+  if (uriHost !== domain) return 'Message URI does not match its domain';
+
+  if (fields.chainId !== SIGN_IN_CHAIN_IDS[getAddressNetwork(fields.address)]) {
+    return "Chain ID does not match the address's network";
+  }
+
+  const issuedAt = Date.parse(fields.issuedAt) / 1000;
+  if (Number.isNaN(issuedAt)) return 'Invalid Issued At';
+  if (issuedAt - now > SIGN_IN_CLOCK_SKEW_SECONDS) return 'Message is issued in the future';
+  if (now - issuedAt > SIGN_IN_NONCE_TTL_SECONDS) return 'Message has expired';
+
+  if (fields.expirationTime !== undefined) {
+    const expiresAt = Date.parse(fields.expirationTime) / 1000;
+    if (Number.isNaN(expiresAt)) return 'Invalid Expiration Time';
+    if (expiresAt <= now) return 'Message has expired';
+  }
+
+  return null;
+}
+
+/**
+ * Verify a signed sign-in message and start a session for its address.
+ * Resolves the session and the token for its cookie, or why sign-in failed
+ */
+export async function signInWithWallet(
+  message: string,
+  signature: string,
+  domain: string | undefined,
+  now = nowSeconds()
+): Promise<{ session: WalletSession; token: string } | { error: string }> {
+  const fields = parseSignInMessage(message);
+  if (!fields) return { error: 'Not a sign-in message' };
+
+  const invalid = getSignInError(fields, domain, now);
+  if (invalid) return { error: invalid };
+
+  const network = getAddressNetwork(fields.address);
+  if (!verifyMessageSignature(message, signature, fields.address, network).valid) {
+    return { error: 'Signature does not match the address' };
+  }
+
+  // Only after the signature checks out, so nobody can burn another user's nonce
+  const sessionStore = getWalletSessionStore();
+  if (!(await sessionStore.consumeAuthNonce(fields.nonce, now))) {
+    return { error: 'Nonce is unknown, expired or already used' };
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const session = { address: fields.address, expiresAt: now + SESSION_MAX_AGE_SECONDS };
+  await sessionStore.createSession(hashSessionToken(token), session.address, session.expiresAt);
+
+  return { session, token };
+}
+
+/**
+ * Set-Cookie value carrying a session token; an empty token with no max age
+ * clears the cookie
+ */
+export function serializeSessionCookie(token: string, maxAgeSeconds = SESSION_MAX_AGE_SECONDS): string {
+  return [
+    `${SESSION_COOKIE}=${token}`,
+    'Path=/',
+    `Max-Age=${maxAgeSeconds}`,
+    'HttpOnly',
+    'SameSite=Lax',
+    ...(process.env.NODE_ENV === 'production' ? ['Secure'] : []),
+  ].join('; ');
+}
+
+export const clearSessionCookie = (): string => serializeSessionCookie('', 0);
+
+const readSessionToken = (req: NextApiRequest): string | undefined =>
+  req.cookies?.[SESSION_COOKIE] || undefined;
+
+/**
+ * The session the request's cookie belongs to, or null if it has none or
+ * the session ended
+ */
+export async function getWalletSession(
+  req: NextApiRequest,
+  now = nowSeconds()
+): Promise<WalletSession | null> {
+  const token = readSessionToken(req);
+  if (!token) return null;
+
+  return getWalletSessionStore().getSession(hashSessionToken(token), now);
+}
+
+/**
+ * End the request's session, if it has one
+ */
+export async function endWalletSession(req: NextApiRequest): Promise<boolean> {
+  const token = readSessionToken(req);
+  if (!token) return false;
+
+  return getWalletSessionStore().deleteSession(hashSessionToken(token));
+}
+
+/**
+ * Wrap an API route so it only runs for signed-in wallets, with the session
+ * on `req.wallet`. Anything else gets 401
+ */
+export function withWalletAuth(handler: WalletAuthHandler) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    let session: WalletSession | null;
+    try {
+      session = await getWalletSession(req);
+    } catch (error) {
+      console.error('Error reading wallet session:', error);
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    if (!session) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Sign in with your wallet first',
+      });
+    }
+
+    const authed = req as WalletAuthRequest;
+    authed.wallet = session;
+    return handler(authed, res);
+  };
+}
@@ -9,6 +9,7 @@ import Layout from '@/components/Layout';
 import { AppProvider } from '@/contexts/AppContext';
 import { WalletProvider } from '@/contexts/WalletContext';
 import LoadingScreen from '@/components/LoadingScreen';
+import { captureReferralCode } from '@/lib/contracts/referralProgram';
 
 interface MyAppProps extends AppProps {
   Component: AppProps['Component'] & {
@@ -28,6 +29,11 @@ function MyApp({ Component, pageProps, router }: MyAppProps) {
     return () => clearTimeout(timer);
   }, []);
 
+  // Keep `?ref=` codes from shared referral links until onboarding
+  useEffect(() => {
+    captureReferralCode(router.query.ref);
+  }, [router.query.ref]);
+
   // Use the layout defined at the page level, if available
   const getLayout = Component.getLayout ?? ((page) => <Layout>{page}</Layout>);
 
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from './nonce';
+
+const mockSaveAuthNonce = vi.fn();
+const mockCleanExpired = vi.fn();
+
+vi.mock('@/lib/wallet-session-store', () => ({
+  getWalletSessionStore: () => ({
+    saveAuthNonce: mockSaveAuthNonce,
+    cleanExpired: mockCleanExpired,
+  }),
+}));
+
+describe('Sign-in nonce API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+  let setHeaderMock: ReturnType<typeof vi.fn>;
+
+  const request = (method: string, headers: Record<string, string> = {}) =>
+    handler({ method, query: {}, headers } as unknown as NextApiRequest, res as NextApiResponse);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    setHeaderMock = vi.fn();
+    res = { status: statusMock as any, setHeader: setHeaderMock as any };
+
+    mockSaveAuthNonce.mockResolvedValue(undefined);
+    mockCleanExpired.mockResolvedValue(0);
+  });
+
+  it('should reject unsupported methods', async () => {
+    await request('POST');
+
+    expect(statusMock).toHaveBeenCalledWith(405);
+  });
+
+  it('should issue and store a fresh nonce', async () => {
+    await request('GET');
+    await request('GET');
+
+    const [first, second] = jsonMock.mock.calls.map(([body]) => body);
+    expect(first).toMatchObject({ success: true, nonce: expect.stringMatching(/^[0-9a-f]{32}$/) });
+    expect(second.nonce).not.toBe(first.nonce);
+    expect(mockSaveAuthNonce).toHaveBeenCalledWith(first.nonce, first.expiresAt);
+    expect(setHeaderMock).toHaveBeenCalledWith('Cache-Control', 'no-store');
+  });
+
+  it('should return 500 when the event store fails', async () => {
+    mockSaveAuthNonce.mockRejectedValue(new Error('connection refused'));
+
+    await request('GET');
+
+    expect(statusMock).toHaveBeenCalledWith(500);
+  });
+
+  it('should limit how many nonces one client can request', async () => {
+    const client = { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' };
+    for (let i = 0; i < 10; i++) await request('GET', client);
+    expect(statusMock).not.toHaveBeenCalledWith(429);
+
+    await request('GET', client);
+
+    expect(statusMock).toHaveBeenLastCalledWith(429);
+    expect(setHeaderMock).toHaveBeenCalledWith('Retry-After', expect.stringMatching(/^\d+$/));
+    expect(mockSaveAuthNonce).toHaveBeenCalledTimes(10);
+
+    // Other clients are unaffected
+    await request('GET', { 'x-forwarded-for': '203.0.113.8' });
+    expect(statusMock).toHaveBeenLastCalledWith(200);
+  });
+});
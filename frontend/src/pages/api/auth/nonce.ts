@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getClientAddress, RateLimiter } from '@/lib/rate-limit';
+import { issueSignInNonce } from '@/lib/wallet-session';
+
+/** Nonces each client address may request per minute */
+const NONCE_RATE_LIMIT = 10;
+
+const limiter = new RateLimiter({ limit: NONCE_RATE_LIMIT, windowMs: 60_000 });
+
+/**
+ * Issue a single-use nonce for a Sign-In With Stacks message. Each sign-in
+ * needs a fresh one, so responses are never cached. Every nonce is stored
+ * until it expires, so clients are limited to NONCE_RATE_LIMIT a minute
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { allowed, retryAfter } = limiter.take(getClientAddress(req));
+  if (!allowed) {
+    res.setHeader('Retry-After', String(retryAfter));
+    return res.status(429).json({
+      error: 'Too many requests',
+      message: `Try again in ${retryAfter} seconds`,
+    });
+  }
+
+  try {
+    const { nonce, expiresAt } = await issueSignInNonce();
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ success: true, nonce, expiresAt });
+  } catch (error) {
+    console.error('Error issuing sign-in nonce:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SESSION_COOKIE } from '@/lib/wallet-session';
+import handler from './session';
+
+const ADDRESS = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const mockGetSession = vi.fn();
+const mockDeleteSession = vi.fn();
+
+vi.mock('@/lib/wallet-session-store', () => ({
+  getWalletSessionStore: () => ({
+    getSession: mockGetSession,
+    deleteSession: mockDeleteSession,
+  }),
+}));
+
+const cookies = { [SESSION_COOKIE]: 'session-token' };
+
+describe('Wallet session API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+  let setHeaderMock: ReturnType<typeof vi.fn>;
+
+  const request = (method: string, requestCookies: Record<string, string> = cookies) =>
+    handler(
+      { method, query: {}, headers: {}, cookies: requestCookies } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    setHeaderMock = vi.fn();
+    res = { status: statusMock as any, setHeader: setHeaderMock as any };
+
+    mockGetSession.mockResolvedValue({ address: ADDRESS, expiresAt: 1800000000 });
+    mockDeleteSession.mockResolvedValue(true);
+  });
+
+  it('should reject unsupported methods', async () => {
+    await request('POST');
+
+    expect(statusMock).toHaveBeenCalledWith(405);
+  });
+
+  it('should return the signed-in address', async () => {
+    await request('GET');
+
+    expect(statusMock).toHaveBeenCalledWith(200);
+    expect(jsonMock).toHaveBeenCalledWith({ success: true, address: ADDRESS, expiresAt: 1800000000 });
+  });
+
+  it('should return 401 without a session', async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    await request('GET');
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+  });
+
+  it('should return 500 when the session cannot be read', async () => {
+    mockGetSession.mockRejectedValue(new Error('connection refused'));
+
+    await request('GET');
+
+    expect(statusMock).toHaveBeenCalledWith(500);
+  });
+
+  it('should end the session and clear its cookie on sign-out', async () => {
+    await request('DELETE');
+
+    expect(mockDeleteSession).toHaveBeenCalledWith(expect.stringMatching(/^[0-9a-f]{64}$/));
+    expect(setHeaderMock).toHaveBeenCalledWith(
+      'Set-Cookie',
+      expect.stringMatching(new RegExp(`^${SESSION_COOKIE}=; .*Max-Age=0`))
+    );
+    expect(statusMock).toHaveBeenCalledWith(200);
+  });
+
+  it('should clear the cookie even without a session', async () => {
+    await request('DELETE', {});
+
+    expect(mockDeleteSession).not.toHaveBeenCalled();
+    expect(setHeaderMock).toHaveBeenCalledWith('Set-Cookie', expect.stringContaining('Max-Age=0'));
+    expect(statusMock).toHaveBeenCalledWith(200);
+  });
+});
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  clearSessionCookie,
+  endWalletSession,
+  withWalletAuth,
+} from '@/lib/wallet-session';
+
+const getSession = withWalletAuth((req, res) =>
+  res.status(200).json({ success: true, ...req.wallet })
+);
+
+/**
+ * The current wallet session.
+ *
+ * GET returns the signed-in address, or 401. DELETE signs out, ending the
+ * session and clearing its cookie; it succeeds whether or not there was one
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method === 'GET') {
+    return getSession(req, res);
+  }
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    await endWalletSession(req);
+
+    res.setHeader('Set-Cookie', clearSessionCookie());
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
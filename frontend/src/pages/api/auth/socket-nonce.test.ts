@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SESSION_COOKIE } from '@/lib/wallet-session';
+import handler from './socket-nonce';
+
+const ADDRESS = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const mockGetSession = vi.fn();
+const mockSaveAuthNonce = vi.fn();
+
+vi.mock('@/lib/wallet-session-store', () => ({
+  getWalletSessionStore: () => ({
+    getSession: mockGetSession,
+    saveAuthNonce: mockSaveAuthNonce,
+  }),
+}));
+
+const cookies = { [SESSION_COOKIE]: 'session-token' };
+
+describe('Socket nonce API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+  let setHeaderMock: ReturnType<typeof vi.fn>;
+
+  const request = (method: string, requestCookies: Record<string, string> = cookies) =>
+    handler(
+      { method, query: {}, headers: {}, cookies: requestCookies } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    setHeaderMock = vi.fn();
+    res = { status: statusMock as any, setHeader: setHeaderMock as any };
+
+    mockGetSession.mockResolvedValue({ address: ADDRESS, expiresAt: 1800000000 });
+    mockSaveAuthNonce.mockResolvedValue(undefined);
+  });
+
+  it('should reject unsupported methods', async () => {
+    await request('GET');
+
+    expect(statusMock).toHaveBeenCalledWith(405);
+  });
+
+  it('should issue a nonce bound to the signed-in address', async () => {
+    await request('POST');
+
+    expect(statusMock).toHaveBeenCalledWith(200);
+    const [body] = jsonMock.mock.calls[0];
+    expect(body).toMatchObject({ success: true, nonce: expect.stringMatching(/^[0-9a-f]{32}$/) });
+    expect(mockSaveAuthNonce).toHaveBeenCalledWith(body.nonce, body.expiresAt, ADDRESS);
+    expect(setHeaderMock).toHaveBeenCalledWith('Cache-Control', 'no-store');
+  });
+
+  it('should return 401 without a session', async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    await request('POST', {});
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+    expect(mockSaveAuthNonce).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { issueSocketNonce, withWalletAuth } from '@/lib/wallet-session';
+
+const issueNonce = withWalletAuth(async (req, res) => {
+  try {
+    const { nonce, expiresAt } = await issueSocketNonce(req.wallet.address);
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ success: true, nonce, expiresAt });
+  } catch (error) {
+    console.error('Error issuing socket nonce:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Issue a single-use nonce the signed-in wallet sends with `auth:wallet` to
+ * authenticate its realtime socket. Each (re)connect needs a fresh one
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return issueNonce(req, res);
+}
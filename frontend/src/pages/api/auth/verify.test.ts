@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from './verify';
+
+const ADDRESS = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const mockSignInWithWallet = vi.fn();
+
+vi.mock('@/lib/wallet-session', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/wallet-session')>()),
+  signInWithWallet: (...args: unknown[]) => mockSignInWithWallet(...args),
+}));
+
+describe('Sign-in verify API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+  let setHeaderMock: ReturnType<typeof vi.fn>;
+
+  const body = { message: 'signed message', signature: '00' };
+
+  const request = (method: string, requestBody: unknown = body) =>
+    handler(
+      {
+        method,
+        query: {},
+        headers: { host: 'localhost:3000' },
+        body: requestBody,
+      } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', '');
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    setHeaderMock = vi.fn();
+    res = { status: statusMock as any, setHeader: setHeaderMock as any };
+
+    mockSignInWithWallet.mockResolvedValue({
+      session: { address: ADDRESS, expiresAt: 1800000000 },
+      token: 'session-token',
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should reject unsupported methods', async () => {
+    await request('GET');
+
+    expect(statusMock).toHaveBeenCalledWith(405);
+  });
+
+  it('should require a message and signature', async () => {
+    await request('POST', { message: 'signed message' });
+
+    expect(statusMock).toHaveBeenCalledWith(400);
+    expect(mockSignInWithWallet).not.toHaveBeenCalled();
+  });
+
+  it('should set an HTTP-only session cookie for a verified signature', async () => {
+    await request('POST');
+
+    expect(mockSignInWithWallet).toHaveBeenCalledWith('signed message', '00', 'localhost:3000');
+    expect(setHeaderMock).toHaveBeenCalledWith(
+      'Set-Cookie',
+      expect.stringMatching(/^timebank_session=session-token; .*HttpOnly/)
+    );
+    expect(statusMock).toHaveBeenCalledWith(200);
+    expect(jsonMock).toHaveBeenCalledWith({ success: true, address: ADDRESS, expiresAt: 1800000000 });
+  });
+
+  it('should check messages against the configured app domain', async () => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://timebank.example');
+
+    await request('POST');
+
+    expect(mockSignInWithWallet).toHaveBeenCalledWith('signed message', '00', 'timebank.example');
+  });
+
+  it('should reject a failed sign-in without a cookie', async () => {
+    mockSignInWithWallet.mockResolvedValue({ error: 'Nonce is unknown, expired or already used' });
+
+    await request('POST');
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+    expect(jsonMock).toHaveBeenCalledWith({
+      error: 'Unauthorized',
+      message: 'Nonce is unknown, expired or already used',
+    });
+    expect(setHeaderMock).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when sign-in throws', async () => {
+    mockSignInWithWallet.mockRejectedValue(new Error('connection refused'));
+
+    await request('POST');
+
+    expect(statusMock).toHaveBeenCalledWith(500);
+  });
+});
@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  getSignInDomain,
+  serializeSessionCookie,
+  signInWithWallet,
+} from '@/lib/wallet-session';
+
+/**
+ * Exchange a signed Sign-In With Stacks message for a session.
+ *
+ * Body is `{ message, signature }`, the message built with
+ * createSignInMessage around a nonce from /api/auth/nonce. On success the
+ * session token is set as an HTTP-only cookie
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { message, signature } = req.body ?? {};
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return res.status(400).json({
+      error: 'Invalid body',
+      message: 'message and signature are required',
+    });
+  }
+
+  try {
+    const result = await signInWithWallet(message, signature, getSignInDomain(req));
+    if ('error' in result) {
+      return res.status(401).json({ error: 'Unauthorized', message: result.error });
+    }
+
+    res.setHeader('Set-Cookie', serializeSessionCookie(result.token));
+    return res.status(200).json({ success: true, ...result.session });
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from './[tokenId]';
+import { CertificationLevel } from '@/types/contracts';
+
+const mockGetCertification = vi.fn();
+const mockGetSkillInfo = vi.fn();
+
+vi.mock('@/lib/contracts/skillCertificationNft', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/contracts/skillCertificationNft')>();
+  return {
+    ...actual,
+    getCertification: (tokenId: number) => mockGetCertification(tokenId),
+  };
+});
+
+vi.mock('@/lib/contracts/skillRegistry', () => ({
+  getSkillInfo: (owner: string, skillId: number) => mockGetSkillInfo(owner, skillId),
+}));
+
+const OWNER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+const PAGES_DIR = path.resolve(__dirname, '../..');
+const CONTRACT_SOURCE = path.resolve(
+  __dirname,
+  '../../../../../time-banking/contracts/skill-certification-nft.clar'
+);
+
+describe('Certification Metadata API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+
+  const get = (tokenId: string) =>
+    handler(
+      { method: 'GET', query: { tokenId } } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock as any };
+
+    mockGetSkillInfo.mockResolvedValue({ skillName: 'Carpentry' });
+  });
+
+  it('should reject non-GET requests', async () => {
+    await handler(
+      { method: 'POST', query: { tokenId: '1' } } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+    expect(statusMock).toHaveBeenCalledWith(405);
+  });
+
+  it('should reject token ids that are not positive integers', async () => {
+    await get('abc');
+    expect(statusMock).toHaveBeenCalledWith(400);
+
+    await get('0');
+    expect(statusMock).toHaveBeenLastCalledWith(400);
+    expect(mockGetCertification).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown tokens', async () => {
+    mockGetCertification.mockResolvedValue(null);
+
+    await get('99');
+
+    expect(mockGetCertification).toHaveBeenCalledWith(99);
+    expect(statusMock).toHaveBeenCalledWith(404);
+  });
+
+  it('should serve metadata named after the owner\'s registered skill', async () => {
+    mockGetCertification.mockResolvedValue({
+      tokenId: 5,
+      skillId: 2,
+      owner: OWNER,
+      level: CertificationLevel.PLATINUM,
+      issuedAt: 1000,
+      expiresAt: 2000,
+      verifiedBy: OWNER,
+      isActive: true,
+      renewalCount: 0,
+    });
+
+    await get('5');
+
+    expect(mockGetSkillInfo).toHaveBeenCalledWith(OWNER, 2);
+    expect(statusMock).toHaveBeenCalledWith(200);
+    expect(jsonMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sip: 16,
+        name: 'Carpentry Platinum Certification #5',
+      })
+    );
+  });
+
+  it('should be the route the contract\'s get-token-uri points at', () => {
+    const source = fs.readFileSync(CONTRACT_SOURCE, 'utf8');
+    const uri = source.match(/\(get-token-uri [\s\S]*?"([^"]+)"/)?.[1];
+
+    const { pathname } = new URL(uri!.replace('{id}', '7'));
+    expect(path.join(PAGES_DIR, path.dirname(pathname), '[tokenId].ts')).toBe(
+      path.join(__dirname, '[tokenId].ts')
+    );
+  });
+});
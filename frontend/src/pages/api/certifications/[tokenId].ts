@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  getCertification,
+  buildCertificationMetadata,
+} from '@/lib/contracts/skillCertificationNft';
+import { getSkillInfo } from '@/lib/contracts/skillRegistry';
+
+/**
+ * SIP-009 metadata for a skill certification token. The contract's
+ * get-token-uri points wallets and explorers here with `{id}` filled in
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const tokenId = Array.isArray(req.query.tokenId) ? req.query.tokenId[0] : req.query.tokenId;
+
+  if (!tokenId || !/^\d+$/.test(tokenId) || parseInt(tokenId) === 0) {
+    return res.status(400).json({
+      error: 'Invalid token id',
+      message: 'tokenId must be a positive integer',
+    });
+  }
+
+  try {
+    const certification = await getCertification(parseInt(tokenId));
+
+    if (!certification) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `No certification with token id ${tokenId}`,
+      });
+    }
+
+    // Skills are registered per user, so look the name up under the owner
+    const skill = await getSkillInfo(certification.owner, certification.skillId);
+    const skillName = skill?.skillName || `Skill #${certification.skillId}`;
+
+    return res.status(200).json(buildCertificationMetadata(certification, skillName));
+  } catch (error) {
+    console.error('Error building certification metadata:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
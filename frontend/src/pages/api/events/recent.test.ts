@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from './recent';
+import { encodeEventCursor } from '@/lib/realtime/event-store';
+import { createMockChainhookEvent } from '@/test/utils';
+
+const mockQueryEvents = vi.fn();
+
+vi.mock('@/lib/realtime/event-store', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/realtime/event-store')>();
+  return {
+    ...actual,
+    getEventStore: () => ({
+      queryEvents: mockQueryEvents,
+    }),
+  };
+});
+
+describe('Recent Events API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+
+  const get = (query: Record<string, string>) =>
+    handler(
+      { method: 'GET', query } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock as any };
+
+    mockQueryEvents.mockResolvedValue({ events: [], nextCursor: null });
+  });
+
+  it('should reject non-GET requests', async () => {
+    await handler(
+      { method: 'POST', query: {} } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+    expect(statusMock).toHaveBeenCalledWith(405);
+  });
+
+  it('should return a page of events from the event store', async () => {
+    const event = createMockChainhookEvent();
+    const nextCursor = encodeEventCursor({ blockHeight: 100, id: 7 });
+    mockQueryEvents.mockResolvedValue({ events: [event], nextCursor });
+
+    await get({});
+
+    expect(statusMock).toHaveBeenCalledWith(200);
+    expect(jsonMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: true,
+        events: [event],
+        count: 1,
+        nextCursor,
+      })
+    );
+  });
+
+  it('should pass filters and cursor through to the event store', async () => {
+    const cursor = encodeEventCursor({ blockHeight: 120, id: 42 });
+
+    await get({
+      contract: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.exchange-manager',
+      eventType: 'print_event',
+      address: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
+      fromBlock: '100',
+      toBlock: '200',
+      limit: '25',
+      cursor,
+    });
+
+    expect(mockQueryEvents).toHaveBeenCalledWith({
+      contractId: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.exchange-manager',
+      eventType: 'print_event',
+      address: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
+      fromBlock: 100,
+      toBlock: 200,
+      limit: 25,
+      cursor,
+    });
+  });
+
+  it('should reject non-numeric block ranges', async () => {
+    await get({ fromBlock: 'abc' });
+
+    expect(statusMock).toHaveBeenCalledWith(400);
+    expect(mockQueryEvents).not.toHaveBeenCalled();
+  });
+
+  it('should reject an inverted block range', async () => {
+    await get({ fromBlock: '200', toBlock: '100' });
+
+    expect(statusMock).toHaveBeenCalledWith(400);
+  });
+
+  it('should reject a malformed cursor', async () => {
+    await get({ cursor: 'not-a-cursor' });
+
+    expect(statusMock).toHaveBeenCalledWith(400);
+    expect(mockQueryEvents).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the event store fails', async () => {
+    mockQueryEvents.mockRejectedValue(new Error('connection refused'));
+
+    await get({});
+
+    expect(statusMock).toHaveBeenCalledWith(500);
+    expect(jsonMock).toHaveBeenCalledWith({
+      error: 'Internal server error',
+      message: 'connection refused',
+    });
+  });
+});
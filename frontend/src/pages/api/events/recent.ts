@@ -1,5 +1,23 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getRecentEvents } from '../webhooks/chainhook';
+import { getEventStore, decodeEventCursor } from '@/lib/realtime/event-store';
+import type { EventQueryFilter } from '@/types/realtime';
+
+/**
+ * Read a single string value from a query parameter
+ */
+function queryParam(value: string | string[] | undefined): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === '' ? undefined : first;
+}
+
+/**
+ * Parse a non-negative integer query parameter
+ */
+function parseIntParam(value: string | undefined): number | undefined | null {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) return null;
+  return parseInt(value);
+}
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,14 +27,50 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const limit = parseIntParam(queryParam(req.query.limit));
+  const fromBlock = parseIntParam(queryParam(req.query.fromBlock));
+  const toBlock = parseIntParam(queryParam(req.query.toBlock));
+  const cursor = queryParam(req.query.cursor);
+
+  if (limit === null || fromBlock === null || toBlock === null) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: 'limit, fromBlock and toBlock must be non-negative integers',
+    });
+  }
+
+  if (fromBlock !== undefined && toBlock !== undefined && fromBlock > toBlock) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: 'fromBlock must not be greater than toBlock',
+    });
+  }
+
+  if (cursor && !decodeEventCursor(cursor)) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: 'Malformed cursor',
+    });
+  }
+
+  const filter: EventQueryFilter = {
+    contractId: queryParam(req.query.contract),
+    eventType: queryParam(req.query.eventType),
+    address: queryParam(req.query.address),
+    fromBlock,
+    toBlock,
+    cursor,
+    limit,
+  };
+
   try {
-    const limit = parseInt(req.query.limit as string) || 50;
-    const events = getRecentEvents(limit);
+    const { events, nextCursor } = await getEventStore().queryEvents(filter);
 
     return res.status(200).json({
       success: true,
       events,
       count: events.length,
+      nextCursor,
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from './suggestions';
+
+const mockGetEventsByContract = vi.fn();
+const mockGetMatchSubmissions = vi.fn();
+const mockSaveMatchSubmission = vi.fn();
+const mockDeleteMatchSubmission = vi.fn();
+const mockSubmitMatchProposals = vi.fn();
+const mockGetOutcome = vi.fn();
+
+vi.mock('@/lib/realtime/event-store', () => ({
+  getEventStore: () => ({
+    getEventsByContract: mockGetEventsByContract,
+  }),
+}));
+
+vi.mock('@/lib/match-submission-store', () => ({
+  getMatchSubmissionStore: () => ({
+    getMatchSubmissions: mockGetMatchSubmissions,
+    saveMatchSubmission: mockSaveMatchSubmission,
+    deleteMatchSubmission: mockDeleteMatchSubmission,
+  }),
+}));
+
+vi.mock('@/lib/transactions/broadcast-manager', () => ({
+  BroadcastManager: class {
+    getOutcome = mockGetOutcome;
+  },
+}));
+
+vi.mock('@/lib/skill-matcher', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/skill-matcher')>();
+  return {
+    ...actual,
+    loadMatchContext: async () => ({ now: 0, reputation: {}, verified: {}, busy: {} }),
+    submitMatchProposals: (...args: unknown[]) => mockSubmitMatchProposals(...args),
+  };
+});
+
+const ALICE = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const BOB = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const stored = (value: Record<string, unknown>) => ({ eventType: value.event, value });
+
+describe('Match Suggestions API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+
+  const call = (method: string, query: Record<string, string> = {}, authorization?: string) =>
+    handler(
+      { method, query, headers: { authorization } } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock as any };
+
+    process.env.MATCHER_API_SECRET = 'secret';
+    process.env.MATCHER_SERVICE_KEY = 'service-key';
+
+    mockGetEventsByContract.mockResolvedValue([
+      stored({ event: 'demand-created', requester: ALICE, skillId: 1, hoursNeeded: 3, maxRate: 10, timestamp: 1 }),
+      stored({ event: 'supply-created', provider: BOB, skillId: 1, hoursAvailable: 5, minRate: 6, timestamp: 2 }),
+      stored({ event: 'supply-created', provider: BOB, skillId: 2, hoursAvailable: 5, minRate: 1, timestamp: 3 }),
+    ]);
+    mockGetMatchSubmissions.mockResolvedValue([]);
+    mockSubmitMatchProposals.mockResolvedValue([
+      { requester: ALICE, provider: BOB, skillId: 1, txId: '0xabc', status: 'ok' },
+    ]);
+  });
+
+  afterEach(() => {
+    delete process.env.MATCHER_API_SECRET;
+    delete process.env.MATCHER_SERVICE_KEY;
+  });
+
+  it('should reject unsupported methods and malformed queries', async () => {
+    await call('DELETE');
+    expect(statusMock).toHaveBeenCalledWith(405);
+
+    await call('GET', { skillId: 'abc' });
+    expect(statusMock).toHaveBeenLastCalledWith(400);
+  });
+
+  it('should return ranked suggestions from stored events', async () => {
+    await call('GET', { skillId: '1' });
+
+    expect(statusMock).toHaveBeenCalledWith(200);
+    const body = jsonMock.mock.calls[0][0];
+    expect(body.count).toBe(1);
+    expect(body.suggestions[0]).toMatchObject({ hours: 3, rate: 8 });
+    expect(mockSubmitMatchProposals).not.toHaveBeenCalled();
+  });
+
+  it('should require the matcher secret to submit proposals', async () => {
+    await call('POST', {}, 'Bearer wrong');
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+    expect(mockSubmitMatchProposals).not.toHaveBeenCalled();
+  });
+
+  it('should submit the selected matches with the service key', async () => {
+    await call('POST', {}, 'Bearer secret');
+
+    expect(statusMock).toHaveBeenCalledWith(200);
+    const [selected, key] = mockSubmitMatchProposals.mock.calls[0];
+    expect(key).toBe('service-key');
+    expect(selected).toHaveLength(1);
+    expect(jsonMock.mock.calls[0][0].submitted[0].txId).toBe('0xabc');
+  });
+
+  it('should record submitted proposals', async () => {
+    await call('POST', {}, 'Bearer secret');
+
+    expect(mockSaveMatchSubmission).toHaveBeenCalledWith(
+      expect.objectContaining({ requester: ALICE, provider: BOB, skillId: 1, txId: '0xabc' })
+    );
+  });
+
+  it('should not resend a pair whose proposal is still pending', async () => {
+    mockGetMatchSubmissions.mockResolvedValue([{ requester: ALICE, provider: BOB, skillId: 1, txId: '0xabc' }]);
+    mockGetOutcome.mockResolvedValue('pending');
+
+    await call('POST', {}, 'Bearer secret');
+
+    expect(mockGetOutcome).toHaveBeenCalledWith('0xabc');
+    expect(mockDeleteMatchSubmission).not.toHaveBeenCalled();
+    expect(mockSubmitMatchProposals.mock.calls[0][0]).toHaveLength(0);
+
+    await call('GET', { skillId: '1' });
+    expect(jsonMock.mock.calls[1][0].count).toBe(0);
+  });
+
+  it('should propose a pair again once its transaction failed', async () => {
+    mockGetMatchSubmissions.mockResolvedValue([{ requester: ALICE, provider: BOB, skillId: 1, txId: '0xabc' }]);
+    mockGetOutcome.mockResolvedValue('failed');
+
+    await call('POST', {}, 'Bearer secret');
+
+    expect(mockDeleteMatchSubmission).toHaveBeenCalledWith('0xabc');
+    expect(mockSubmitMatchProposals.mock.calls[0][0]).toHaveLength(1);
+  });
+});
@@ -0,0 +1,142 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getEventStore } from '@/lib/realtime/event-store';
+import { getMatchSubmissionStore } from '@/lib/match-submission-store';
+import { getContractIdentifier, getNetworkConfig } from '@/lib/contractConfig';
+import type { DecodedTimeBankEvent } from '@/lib/event-decoder';
+import {
+  getOpenCandidates,
+  loadMatchContext,
+  rankMatches,
+  selectMatches,
+  settleMatchSubmissions,
+  submitMatchProposals,
+} from '@/lib/skill-matcher';
+import { BroadcastManager } from '@/lib/transactions/broadcast-manager';
+
+/** Skill matching engine events read from the store per request */
+const MATCH_EVENT_SCAN = 1000;
+
+const DEFAULT_SUGGESTION_LIMIT = 20;
+
+const MATCH_EVENT_TYPES = ['demand-created', 'supply-created', 'match-proposed'];
+
+/**
+ * Read a single string value from a query parameter
+ */
+function queryParam(value: string | string[] | undefined): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === '' ? undefined : first;
+}
+
+/**
+ * Parse a non-negative integer query parameter
+ */
+function parseIntParam(value: string | undefined): number | undefined | null {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) return null;
+  return parseInt(value);
+}
+
+/**
+ * Ranked demand/supply match suggestions from the event store.
+ *
+ * GET lists suggestions, optionally for one `skillId`. POST additionally
+ * submits propose-match for the best conflict-free pairs, signed with
+ * MATCHER_SERVICE_KEY; it requires `Authorization: Bearer MATCHER_API_SECRET`.
+ * Pairs with a submitted proposal are left out until its match-proposed event
+ * is stored or its transaction fails
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const skillId = parseIntParam(queryParam(req.query.skillId));
+  const limit = parseIntParam(queryParam(req.query.limit));
+
+  if (skillId === null || limit === null) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: 'skillId and limit must be non-negative integers',
+    });
+  }
+
+  const serviceKey = process.env.MATCHER_SERVICE_KEY;
+
+  if (req.method === 'POST') {
+    const secret = process.env.MATCHER_API_SECRET;
+    if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!serviceKey) {
+      return res.status(503).json({
+        error: 'Matcher disabled',
+        message: 'MATCHER_SERVICE_KEY is not configured',
+      });
+    }
+  }
+
+  try {
+    const store = getEventStore();
+    const submissionStore = getMatchSubmissionStore();
+    const broadcaster = new BroadcastManager({ nodeUrl: getNetworkConfig().apiUrl });
+    const storedEvents = await store.getEventsByContract(
+      getContractIdentifier('skillMatchingEngine'),
+      MATCH_EVENT_SCAN
+    );
+    const events = storedEvents
+      .filter((event) => MATCH_EVENT_TYPES.includes(event.eventType))
+      .map((event) => event.value as DecodedTimeBankEvent);
+
+    let submissions = await submissionStore.getMatchSubmissions();
+    if (req.method === 'POST') {
+      const { inFlight, settled } = await settleMatchSubmissions(submissions, events, (txId) =>
+        broadcaster.getOutcome(txId)
+      );
+      await Promise.all(
+        settled.map((submission) => submissionStore.deleteMatchSubmission(submission.txId))
+      );
+      submissions = inFlight;
+    }
+
+    const candidates = getOpenCandidates(events, submissions).filter(
+      (candidate) => skillId === undefined || candidate.demand.skillId === skillId
+    );
+    const context = await loadMatchContext(candidates);
+    const suggestions = rankMatches(candidates, context).slice(0, limit ?? DEFAULT_SUGGESTION_LIMIT);
+
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        success: true,
+        suggestions,
+        count: suggestions.length,
+        timestamp: Date.now(),
+      });
+    }
+
+    const submitted = await submitMatchProposals(selectMatches(suggestions), serviceKey!, broadcaster);
+    await Promise.all(
+      submitted
+        .filter((match) => match.status === 'ok')
+        .map((match) => submissionStore.saveMatchSubmission(match))
+    );
+
+    return res.status(200).json({
+      success: true,
+      suggestions,
+      submitted,
+      count: submitted.length,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Error computing match suggestions:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
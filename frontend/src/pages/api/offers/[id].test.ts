@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  getAddressFromPublicKey,
+  privateKeyToPublic,
+  signStructuredData,
+} from '@stacks/transactions';
+import { buildSIP018Payload } from '@/lib/connect';
+import { buildStructuredMessage } from '@/lib/message-signing';
+import { buildWithdrawalMessage, type ExchangeOffer } from '@/lib/exchange-offers';
+import handler from './[id]';
+
+const PRIVATE_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const PROVIDER = getAddressFromPublicKey(privateKeyToPublic(PRIVATE_KEY), 'testnet');
+const REQUESTER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const TX_ID = `0x${'ab'.repeat(32)}`;
+
+const mockGetOffer = vi.fn();
+const mockWithdrawOffer = vi.fn();
+const mockAcceptOffer = vi.fn();
+const mockVerifyAcceptanceTransaction = vi.fn();
+
+vi.mock('@/lib/exchange-offer-store', () => ({
+  getExchangeOfferStore: () => ({
+    getOffer: mockGetOffer,
+    withdrawOffer: mockWithdrawOffer,
+    acceptOffer: mockAcceptOffer,
+  }),
+}));
+
+vi.mock('@/lib/exchange-offers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/exchange-offers')>()),
+  verifyAcceptanceTransaction: (...args: unknown[]) => mockVerifyAcceptanceTransaction(...args),
+}));
+
+const offer: ExchangeOffer = {
+  id: '1',
+  provider: PROVIDER,
+  skillId: 3,
+  hours: 2,
+  hourlyRate: 5,
+  scheduledStart: 1800090000,
+  scheduledEnd: 1800097200,
+  expiresAt: 1800003600,
+  nonce: '0123456789abcdef0123456789abcdef',
+  signature: '00',
+  status: 'open',
+  createdAt: 1800000000000,
+};
+
+const withdrawalSignature = signStructuredData({
+  ...buildSIP018Payload(buildStructuredMessage(buildWithdrawalMessage(offer)), 'testnet'),
+  privateKey: PRIVATE_KEY,
+});
+
+describe('Exchange offer API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+
+  const request = (method: string, body?: unknown, id = '1') =>
+    handler(
+      { method, query: { id }, body, headers: {} } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock as any };
+
+    mockGetOffer.mockResolvedValue(offer);
+    mockWithdrawOffer.mockResolvedValue({ ...offer, status: 'withdrawn' });
+    mockAcceptOffer.mockResolvedValue(true);
+    mockVerifyAcceptanceTransaction.mockResolvedValue({ requester: REQUESTER });
+  });
+
+  it('should return 404 for unknown offers', async () => {
+    mockGetOffer.mockResolvedValue(null);
+
+    await request('GET', undefined, '99');
+
+    expect(statusMock).toHaveBeenCalledWith(404);
+  });
+
+  it('should withdraw an offer with the provider signature', async () => {
+    await request('DELETE', { signature: withdrawalSignature });
+
+    expect(mockWithdrawOffer).toHaveBeenCalledWith(PROVIDER, offer.nonce);
+    expect(statusMock).toHaveBeenCalledWith(200);
+  });
+
+  it('should not withdraw without a valid withdrawal signature', async () => {
+    await request('DELETE', { signature: offer.signature });
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+    expect(mockWithdrawOffer).not.toHaveBeenCalled();
+  });
+
+  it('should report offers that are no longer open', async () => {
+    mockWithdrawOffer.mockResolvedValue(null);
+
+    await request('DELETE', { signature: withdrawalSignature });
+
+    expect(statusMock).toHaveBeenCalledWith(409);
+  });
+
+  it('should record acceptance by the sender of a matching create-exchange-request', async () => {
+    await request('POST', { txId: 'AB'.repeat(32) });
+
+    expect(mockVerifyAcceptanceTransaction).toHaveBeenCalledWith(offer, TX_ID);
+    expect(mockAcceptOffer).toHaveBeenCalledWith('1', REQUESTER, TX_ID);
+    expect(statusMock).toHaveBeenCalledWith(200);
+    expect(jsonMock).toHaveBeenCalledWith({ success: true, id: '1', requester: REQUESTER, txId: TX_ID });
+  });
+
+  it('should not accept with a transaction that does not match', async () => {
+    mockVerifyAcceptanceTransaction.mockResolvedValue({
+      error: 'Transaction does not match the offer terms',
+    });
+
+    await request('POST', { txId: TX_ID });
+
+    expect(statusMock).toHaveBeenCalledWith(409);
+    expect(mockAcceptOffer).not.toHaveBeenCalled();
+  });
+
+  it('should require a transaction id to accept', async () => {
+    await request('POST', { txId: 'not-a-tx' });
+
+    expect(statusMock).toHaveBeenCalledWith(400);
+    expect(mockVerifyAcceptanceTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getExchangeOfferStore } from '@/lib/exchange-offer-store';
+import {
+  verifyAcceptanceTransaction,
+  verifyWithdrawalSignature,
+} from '@/lib/exchange-offers';
+
+const TX_ID_PATTERN = /^(0x)?[0-9a-f]{64}$/i;
+
+/**
+ * A single exchange offer.
+ *
+ * GET returns it whatever its status. DELETE withdraws it and needs
+ * `{ signature }`, the provider's signed withdrawal message. POST records
+ * its acceptance from `{ txId }`, the requester's create-exchange-request,
+ * which must carry the offer's terms
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'DELETE' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+
+  try {
+    const offerStore = getExchangeOfferStore();
+    const offer = id ? await offerStore.getOffer(id) : null;
+
+    if (!offer) {
+      return res.status(404).json({ error: 'Offer not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, offer });
+    }
+
+    if (req.method === 'DELETE') {
+      const signature = req.body?.signature;
+      if (
+        typeof signature !== 'string' ||
+        !verifyWithdrawalSignature({ provider: offer.provider, nonce: offer.nonce, signature })
+      ) {
+        return res.status(401).json({
+          error: 'Invalid signature',
+          message: 'Withdrawal was not signed by the offer provider',
+        });
+      }
+
+      const withdrawn = await offerStore.withdrawOffer(offer.provider, offer.nonce);
+      if (!withdrawn) {
+        return res.status(409).json({ error: 'Offer is not open', status: offer.status });
+      }
+
+      return res.status(200).json({ success: true, offer: withdrawn });
+    }
+
+    const rawTxId = req.body?.txId;
+    if (typeof rawTxId !== 'string' || !TX_ID_PATTERN.test(rawTxId)) {
+      return res.status(400).json({
+        error: 'Invalid body',
+        message: 'txId must be a transaction id',
+      });
+    }
+    // Wallets return ids with or without the prefix; store one form
+    const txId = `0x${rawTxId.replace(/^0x/i, '').toLowerCase()}`;
+
+    const verification = await verifyAcceptanceTransaction(offer, txId);
+    if ('error' in verification) {
+      return res.status(409).json({ error: 'Offer not accepted', message: verification.error });
+    }
+
+    if (!(await offerStore.acceptOffer(offer.id, verification.requester, txId))) {
+      return res.status(409).json({
+        error: 'Offer not accepted',
+        message: 'Offer is no longer open or the transaction already accepted another offer',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      id: offer.id,
+      requester: verification.requester,
+      txId,
+    });
+  } catch (error) {
+    console.error('Error managing exchange offer:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
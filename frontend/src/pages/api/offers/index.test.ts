@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  getAddressFromPublicKey,
+  privateKeyToPublic,
+  signStructuredData,
+} from '@stacks/transactions';
+import { buildSIP018Payload } from '@/lib/connect';
+import { buildStructuredMessage } from '@/lib/message-signing';
+import { buildOfferMessage, type ExchangeOfferTerms } from '@/lib/exchange-offers';
+import handler from './index';
+
+const PRIVATE_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const PROVIDER = getAddressFromPublicKey(privateKeyToPublic(PRIVATE_KEY), 'testnet');
+const REQUESTER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const mockGetOpenOffers = vi.fn();
+const mockSaveOffer = vi.fn();
+
+vi.mock('@/lib/exchange-offer-store', () => ({
+  getExchangeOfferStore: () => ({
+    getOpenOffers: mockGetOpenOffers,
+    saveOffer: mockSaveOffer,
+  }),
+}));
+
+const now = Math.floor(Date.now() / 1000);
+const terms: ExchangeOfferTerms = {
+  provider: PROVIDER,
+  skillId: 3,
+  hours: 2,
+  hourlyRate: 5,
+  scheduledStart: now + 86400,
+  scheduledEnd: now + 86400 + 7200,
+  expiresAt: now + 3600,
+  nonce: '0123456789abcdef0123456789abcdef',
+};
+const signedOffer = {
+  ...terms,
+  signature: signStructuredData({
+    ...buildSIP018Payload(buildStructuredMessage(buildOfferMessage(terms)), 'testnet'),
+    privateKey: PRIVATE_KEY,
+  }),
+};
+
+describe('Exchange offers API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+
+  const request = (method: string, query: Record<string, string> = {}, body?: unknown) =>
+    handler(
+      { method, query, body, headers: {} } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock as any };
+
+    mockGetOpenOffers.mockResolvedValue([]);
+    mockSaveOffer.mockImplementation(async (offer) => ({ ...offer, id: '1', status: 'open' }));
+  });
+
+  it('should reject unsupported methods', async () => {
+    await request('PUT');
+
+    expect(statusMock).toHaveBeenCalledWith(405);
+  });
+
+  it('should list open offers for a requester and skill', async () => {
+    await request('GET', { requester: REQUESTER, skillId: '3' });
+
+    expect(mockGetOpenOffers).toHaveBeenCalledWith({
+      provider: undefined,
+      requester: REQUESTER,
+      skillId: 3,
+      limit: undefined,
+    });
+    expect(statusMock).toHaveBeenCalledWith(200);
+    expect(jsonMock).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true, offers: [], count: 0 })
+    );
+  });
+
+  it('should reject a malformed skillId', async () => {
+    await request('GET', { skillId: 'abc' });
+
+    expect(statusMock).toHaveBeenCalledWith(400);
+    expect(mockGetOpenOffers).not.toHaveBeenCalled();
+  });
+
+  it('should store an offer signed by its provider', async () => {
+    await request('POST', {}, signedOffer);
+
+    expect(mockSaveOffer).toHaveBeenCalledWith(signedOffer);
+    expect(statusMock).toHaveBeenCalledWith(201);
+  });
+
+  it('should reject offers that are malformed or have invalid terms', async () => {
+    await request('POST', {}, { ...signedOffer, hours: '2' });
+    expect(statusMock).toHaveBeenLastCalledWith(400);
+
+    await request('POST', {}, { ...signedOffer, expiresAt: now - 1 });
+    expect(statusMock).toHaveBeenLastCalledWith(400);
+    expect(jsonMock).toHaveBeenLastCalledWith({
+      error: 'Invalid offer',
+      message: 'Offer must expire in the future',
+    });
+
+    expect(mockSaveOffer).not.toHaveBeenCalled();
+  });
+
+  it('should reject offers whose terms were changed after signing', async () => {
+    await request('POST', {}, { ...signedOffer, hourlyRate: 1 });
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+    expect(mockSaveOffer).not.toHaveBeenCalled();
+  });
+
+  it('should reject a replayed nonce', async () => {
+    mockSaveOffer.mockResolvedValue(null);
+
+    await request('POST', {}, signedOffer);
+
+    expect(statusMock).toHaveBeenCalledWith(409);
+  });
+
+  it('should return 500 when the event store fails', async () => {
+    mockGetOpenOffers.mockRejectedValue(new Error('connection refused'));
+
+    await request('GET');
+
+    expect(statusMock).toHaveBeenCalledWith(500);
+  });
+});
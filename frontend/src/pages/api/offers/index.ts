@@ -0,0 +1,107 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getExchangeOfferStore } from '@/lib/exchange-offer-store';
+import {
+  parseSignedOffer,
+  validateOfferTerms,
+  verifyOfferSignature,
+} from '@/lib/exchange-offers';
+
+/**
+ * Read a single string value from a query parameter
+ */
+function queryParam(value: string | string[] | undefined): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === '' ? undefined : first;
+}
+
+/**
+ * Parse a non-negative integer query parameter
+ */
+function parseIntParam(value: string | undefined): number | undefined | null {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) return null;
+  return parseInt(value);
+}
+
+/**
+ * SIP-018 signed exchange offers.
+ *
+ * GET lists open, unexpired offers, optionally by `provider`, `skillId` or
+ * the `requester` who could accept them. POST publishes a signed offer; its
+ * terms and signature are checked here, and a nonce the provider already
+ * used is rejected so a signed offer cannot be replayed
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const offerStore = getExchangeOfferStore();
+
+    if (req.method === 'GET') {
+      const skillId = parseIntParam(queryParam(req.query.skillId));
+      const limit = parseIntParam(queryParam(req.query.limit));
+
+      if (skillId === null || limit === null) {
+        return res.status(400).json({
+          error: 'Invalid query',
+          message: 'skillId and limit must be non-negative integers',
+        });
+      }
+
+      const offers = await offerStore.getOpenOffers({
+        provider: queryParam(req.query.provider),
+        requester: queryParam(req.query.requester),
+        skillId,
+        limit,
+      });
+
+      return res.status(200).json({
+        success: true,
+        offers,
+        count: offers.length,
+        timestamp: Date.now(),
+      });
+    }
+
+    const offer = parseSignedOffer(req.body);
+    if (!offer) {
+      return res.status(400).json({
+        error: 'Invalid offer',
+        message: 'Body must be a signed offer',
+      });
+    }
+
+    const errors = validateOfferTerms(offer);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid offer', message: errors.join('; ') });
+    }
+
+    if (!verifyOfferSignature(offer)) {
+      return res.status(401).json({
+        error: 'Invalid signature',
+        message: 'Offer was not signed by its provider',
+      });
+    }
+
+    const saved = await offerStore.saveOffer(offer);
+    if (!saved) {
+      return res.status(409).json({
+        error: 'Nonce already used',
+        message: 'Sign the offer again with a new nonce',
+      });
+    }
+
+    return res.status(201).json({ success: true, offer: saved });
+  } catch (error) {
+    console.error('Error handling exchange offers:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
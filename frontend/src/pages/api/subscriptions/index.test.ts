@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SESSION_COOKIE } from '@/lib/wallet-session';
+import handler from './index';
+
+const ADDRESS = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const mockGetSubscriptions = vi.fn();
+const mockDeleteSubscription = vi.fn();
+const mockGetSession = vi.fn();
+
+vi.mock('@/lib/realtime/event-store', () => ({
+  getEventStore: () => ({
+    getSubscriptions: mockGetSubscriptions,
+    deleteSubscription: mockDeleteSubscription,
+  }),
+}));
+
+vi.mock('@/lib/wallet-session-store', () => ({
+  getWalletSessionStore: () => ({
+    getSession: mockGetSession,
+  }),
+}));
+
+const TOKEN = 'session-token';
+const cookies = { [SESSION_COOKIE]: TOKEN };
+
+describe('Subscriptions API', () => {
+  let res: Partial<NextApiResponse>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+
+  const request = (
+    method: string,
+    query: Record<string, string> = {},
+    requestCookies: Record<string, string> = cookies
+  ) =>
+    handler(
+      { method, query, headers: {}, cookies: requestCookies } as unknown as NextApiRequest,
+      res as NextApiResponse
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn().mockReturnValue({ json: jsonMock });
+    res = { status: statusMock as any };
+
+    mockGetSession.mockResolvedValue({ address: ADDRESS, expiresAt: 1800000000 });
+    mockGetSubscriptions.mockResolvedValue([]);
+    mockDeleteSubscription.mockResolvedValue(true);
+  });
+
+  it('should reject unsupported methods', async () => {
+    await request('POST');
+
+    expect(statusMock).toHaveBeenCalledWith(405);
+  });
+
+  it('should require a wallet session', async () => {
+    await request('GET', {}, {});
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+    expect(mockGetSession).not.toHaveBeenCalled();
+    expect(mockGetSubscriptions).not.toHaveBeenCalled();
+  });
+
+  it('should reject an ended or expired session', async () => {
+    mockGetSession.mockResolvedValue(null);
+
+    await request('GET');
+
+    // Sessions are looked up by the token's hash, never the token
+    const [tokenHash] = mockGetSession.mock.calls[0];
+    expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(tokenHash).not.toContain(TOKEN);
+    expect(statusMock).toHaveBeenCalledWith(401);
+  });
+
+  it('should list subscriptions for the signed-in address', async () => {
+    const subscription = {
+      id: '1',
+      userId: ADDRESS,
+      type: 'event-type',
+      target: 'exchange-completed',
+      createdAt: 1700000000000,
+      active: true,
+    };
+    mockGetSubscriptions.mockResolvedValue([subscription]);
+
+    await request('GET');
+
+    expect(mockGetSubscriptions).toHaveBeenCalledWith(ADDRESS);
+    expect(statusMock).toHaveBeenCalledWith(200);
+    expect(jsonMock).toHaveBeenCalledWith({
+      success: true,
+      address: ADDRESS,
+      subscriptions: [subscription],
+      count: 1,
+    });
+  });
+
+  it('should delete a subscription owned by the signed-in address', async () => {
+    await request('DELETE', { id: '1' });
+
+    expect(mockDeleteSubscription).toHaveBeenCalledWith(ADDRESS, '1');
+    expect(statusMock).toHaveBeenCalledWith(200);
+  });
+
+  it('should require an id to delete', async () => {
+    await request('DELETE');
+
+    expect(statusMock).toHaveBeenCalledWith(400);
+    expect(mockDeleteSubscription).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown subscriptions', async () => {
+    mockDeleteSubscription.mockResolvedValue(false);
+
+    await request('DELETE', { id: '99' });
+
+    expect(statusMock).toHaveBeenCalledWith(404);
+  });
+
+  it('should return 500 when the event store fails', async () => {
+    mockGetSubscriptions.mockRejectedValue(new Error('connection refused'));
+
+    await request('GET');
+
+    expect(statusMock).toHaveBeenCalledWith(500);
+  });
+});
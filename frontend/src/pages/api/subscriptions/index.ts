@@ -0,0 +1,57 @@
+import type { NextApiResponse } from 'next';
+import { getEventStore } from '@/lib/realtime/event-store';
+import { withWalletAuth, type WalletAuthRequest } from '@/lib/wallet-session';
+
+/**
+ * The signed-in wallet's event subscriptions.
+ *
+ * GET lists them. DELETE removes the one given by `?id=`
+ */
+async function handler(
+  req: WalletAuthRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { address } = req.wallet;
+
+  try {
+    const eventStore = getEventStore();
+
+    if (req.method === 'GET') {
+      const subscriptions = await eventStore.getSubscriptions(address);
+
+      return res.status(200).json({
+        success: true,
+        address,
+        subscriptions,
+        count: subscriptions.length,
+      });
+    }
+
+    const id = Array.isArray(req.query.id) ? req.query.id[0] : req.query.id;
+    if (!id) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        message: 'id is required',
+      });
+    }
+
+    const deleted = await eventStore.deleteSubscription(address, id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    return res.status(200).json({ success: true, id });
+  } catch (error) {
+    console.error('Error managing subscriptions:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export default withWalletAuth(handler);
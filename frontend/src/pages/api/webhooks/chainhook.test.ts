@@ -4,15 +4,21 @@ import handler from './chainhook';
 
 // Mock the realtime services
 const mockProcessWebhookPayload = vi.fn();
+const mockDecodeWebhookPayload = vi.fn();
+let mockSocketAttached = true;
 const mockSaveEvents = vi.fn();
 const mockHandleReorg = vi.fn();
 const mockBroadcastEvent = vi.fn();
 
 vi.mock('@/lib/realtime/chainhook-socket', () => ({
-  getChainhookSocket: () => ({
-    processWebhookPayload: mockProcessWebhookPayload,
-    broadcastEvent: mockBroadcastEvent,
-  }),
+  getChainhookSocket: () =>
+    mockSocketAttached
+      ? {
+          processWebhookPayload: mockProcessWebhookPayload,
+          broadcastEvent: mockBroadcastEvent,
+        }
+      : null,
+  decodeWebhookPayload: (payload: unknown) => mockDecodeWebhookPayload(payload),
 }));
 
 vi.mock('@/lib/realtime/event-store', () => ({
@@ -47,9 +53,11 @@ describe('Chainhook Webhook Handler', () => {
     process.env.CHAINHOOK_WEBHOOK_SECRET = 'test-secret-123';
 
     // Setup default successful responses
+    mockSocketAttached = true;
     mockProcessWebhookPayload.mockReturnValue([]);
+    mockDecodeWebhookPayload.mockReturnValue([]);
     mockSaveEvents.mockResolvedValue(0);
-    mockHandleReorg.mockResolvedValue(0);
+    mockHandleReorg.mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -210,14 +218,15 @@ describe('Chainhook Webhook Handler', () => {
         },
       };
 
-      mockProcessWebhookPayload.mockReturnValue([
+      const decoded = [
         {
           txHash: '0xtx123',
           blockHeight: 100,
           eventType: 'print_event',
           success: true,
         },
-      ]);
+      ];
+      mockDecodeWebhookPayload.mockReturnValue(decoded);
 
       mockSaveEvents.mockResolvedValue(1);
 
@@ -231,8 +240,9 @@ describe('Chainhook Webhook Handler', () => {
 
       await handler(req as NextApiRequest, res as NextApiResponse);
 
-      expect(mockProcessWebhookPayload).toHaveBeenCalledWith(mockPayload);
-      expect(mockSaveEvents).toHaveBeenCalled();
+      expect(mockDecodeWebhookPayload).toHaveBeenCalledWith(mockPayload);
+      expect(mockProcessWebhookPayload).toHaveBeenCalledWith(mockPayload, [], decoded);
+      expect(mockSaveEvents).toHaveBeenCalledWith(decoded);
       expect(statusMock).toHaveBeenCalledWith(200);
       expect(jsonMock).toHaveBeenCalledWith({
         success: true,
@@ -270,7 +280,7 @@ describe('Chainhook Webhook Handler', () => {
         },
       };
 
-      mockProcessWebhookPayload.mockReturnValue([]);
+      mockDecodeWebhookPayload.mockReturnValue([]);
 
       req = {
         method: 'POST',
@@ -343,6 +353,41 @@ describe('Chainhook Webhook Handler', () => {
     });
   });
 
+  describe('Without a socket server', () => {
+    it('should still save decoded events', async () => {
+      mockSocketAttached = false;
+      const decoded = [{ txHash: '0xtx123', blockHeight: 100, eventType: 'referral-used' }];
+      mockDecodeWebhookPayload.mockReturnValue(decoded);
+      mockSaveEvents.mockResolvedValue(1);
+
+      req = {
+        method: 'POST',
+        headers: {
+          authorization: 'Bearer test-secret-123',
+        },
+        body: {
+          apply: [
+            {
+              block_identifier: { index: 100, hash: '0xabc' },
+              parent_block_identifier: { index: 99, hash: '0xabb' },
+              timestamp: Date.now(),
+              transactions: [],
+              metadata: {},
+            },
+          ],
+          rollback: [],
+          chainhook: { uuid: 'test', predicate: {}, is_streaming_blocks: true },
+        },
+      };
+
+      await handler(req as NextApiRequest, res as NextApiResponse);
+
+      expect(mockSaveEvents).toHaveBeenCalledWith(decoded);
+      expect(mockProcessWebhookPayload).not.toHaveBeenCalled();
+      expect(statusMock).toHaveBeenCalledWith(200);
+    });
+  });
+
   describe('Rollback Events Processing', () => {
     it('should process rollback events successfully', async () => {
       const mockPayload = {
@@ -368,7 +413,8 @@ describe('Chainhook Webhook Handler', () => {
         },
       };
 
-      mockHandleReorg.mockResolvedValue(5);
+      const orphaned = [{ txHash: '0xtx123', blockHeight: 100, blockHash: '0xabc123' }];
+      mockHandleReorg.mockResolvedValue(orphaned);
 
       req = {
         method: 'POST',
@@ -380,7 +426,8 @@ describe('Chainhook Webhook Handler', () => {
 
       await handler(req as NextApiRequest, res as NextApiResponse);
 
-      expect(mockHandleReorg).toHaveBeenCalledWith([100]);
+      expect(mockHandleReorg).toHaveBeenCalledWith(['0xabc123']);
+      expect(mockProcessWebhookPayload).toHaveBeenCalledWith(mockPayload, orphaned, []);
       expect(statusMock).toHaveBeenCalledWith(200);
       expect(jsonMock).toHaveBeenCalledWith({
         success: true,
@@ -426,8 +473,76 @@ describe('Chainhook Webhook Handler', () => {
 
       await handler(req as NextApiRequest, res as NextApiResponse);
 
-      // Should call handleReorg once for each block
-      expect(mockHandleReorg).toHaveBeenCalledTimes(2);
+      // Should orphan all rolled-back blocks by hash in one call
+      expect(mockHandleReorg).toHaveBeenCalledTimes(1);
+      expect(mockHandleReorg).toHaveBeenCalledWith(['0xabc123', '0xabc124']);
+    });
+
+    it('should orphan rolled-back blocks before applying their replacements', async () => {
+      const calls: string[] = [];
+      mockHandleReorg.mockImplementation(async () => {
+        calls.push('reorg');
+        return [];
+      });
+      mockDecodeWebhookPayload.mockImplementation(() => {
+        calls.push('decode');
+        return [{ txHash: '0xtx123', blockHeight: 100, blockHash: '0xnew100' }];
+      });
+      mockProcessWebhookPayload.mockImplementation(() => {
+        calls.push('process');
+        return [];
+      });
+      mockSaveEvents.mockImplementation(async () => {
+        calls.push('save');
+        return 1;
+      });
+
+      req = {
+        method: 'POST',
+        headers: {
+          authorization: 'Bearer test-secret-123',
+        },
+        body: {
+          apply: [
+            {
+              block_identifier: { index: 100, hash: '0xnew100' },
+              parent_block_identifier: { index: 99, hash: '0xabc099' },
+              timestamp: Date.now(),
+              transactions: [
+                {
+                  transaction_identifier: { hash: '0xtx123' },
+                  operations: [],
+                  metadata: {
+                    success: true,
+                    sender: 'ST1SENDER',
+                    fee: '1000',
+                    kind: {},
+                    receipt: {},
+                    events: [{ type: 'print_event', data: {} }],
+                    position: { index: 0 },
+                  },
+                },
+              ],
+              metadata: {},
+            },
+          ],
+          rollback: [
+            {
+              block_identifier: { index: 100, hash: '0xold100' },
+              parent_block_identifier: { index: 99, hash: '0xabc099' },
+              timestamp: Date.now(),
+              transactions: [],
+            },
+          ],
+          chainhook: { uuid: 'test', predicate: {}, is_streaming_blocks: true },
+        },
+      };
+
+      await handler(req as NextApiRequest, res as NextApiResponse);
+
+      expect(mockHandleReorg).toHaveBeenCalledWith(['0xold100']);
+      expect(calls).toEqual(['reorg', 'decode', 'save', 'process']);
+      expect(statusMock).toHaveBeenCalledWith(200);
     });
   });
 
@@ -466,7 +581,7 @@ describe('Chainhook Webhook Handler', () => {
       });
     });
 
-    it('should handle database save errors gracefully', async () => {
+    it('should not save when the payload has no events', async () => {
       mockSaveEvents.mockRejectedValue(new Error('Database error'));
 
       req = {
@@ -481,12 +596,43 @@ describe('Chainhook Webhook Handler', () => {
         },
       };
 
-      // Should not throw - errors are caught and logged
       await handler(req as NextApiRequest, res as NextApiResponse);
 
+      expect(mockSaveEvents).not.toHaveBeenCalled();
       expect(statusMock).toHaveBeenCalledWith(200);
     });
 
+    it('should fail without broadcasting when events cannot be saved', async () => {
+      mockDecodeWebhookPayload.mockReturnValue([{ txHash: '0xtx123', blockHeight: 100 }]);
+      mockSaveEvents.mockRejectedValue(new Error('Database error'));
+
+      req = {
+        method: 'POST',
+        headers: {
+          authorization: 'Bearer test-secret-123',
+        },
+        body: {
+          apply: [
+            {
+              block_identifier: { index: 100, hash: '0xabc' },
+              parent_block_identifier: { index: 99, hash: '0xabb' },
+              timestamp: Date.now(),
+              transactions: [],
+              metadata: {},
+            },
+          ],
+          rollback: [],
+          chainhook: { uuid: 'test', predicate: {}, is_streaming_blocks: true },
+        },
+      };
+
+      await handler(req as NextApiRequest, res as NextApiResponse);
+
+      // A 500 makes Chainhook retry the payload
+      expect(statusMock).toHaveBeenCalledWith(500);
+      expect(mockProcessWebhookPayload).not.toHaveBeenCalled();
+    });
+
     it('should handle reorg errors gracefully', async () => {
       mockHandleReorg.mockRejectedValue(new Error('Reorg error'));
 
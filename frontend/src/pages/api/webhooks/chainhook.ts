@@ -1,7 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getChainhookSocket } from '@/lib/realtime/chainhook-socket';
+import { decodeWebhookPayload, getChainhookSocket } from '@/lib/realtime/chainhook-socket';
 import { getEventStore } from '@/lib/realtime/event-store';
 import { getSocketServer } from '@/lib/realtime/socket-server';
+import type { ChainhookEvent } from '@/types/realtime';
 
 // Chainhook webhook payload types
 interface ChainhookPayload {
@@ -65,10 +66,6 @@ interface ContractEvent {
   data: any;
 }
 
-// Event storage (in-memory for now, replace with DB in production)
-const recentEvents: any[] = [];
-const MAX_EVENTS = 100;
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -99,6 +96,29 @@ export default async function handler(
     const chainhookSocket = getChainhookSocket();
     const eventStore = getEventStore();
     const processedEvents: any[] = [];
+    let orphanedEvents: ChainhookEvent[] = [];
+
+    // Process rollback events first (blockchain reorganization), so that blocks
+    // replaced within this payload are orphaned before their replacements apply
+    if (payload.rollback && payload.rollback.length > 0) {
+      console.log(`\n⚠️  ROLLBACK: ${payload.rollback.length} block(s)`);
+
+      for (const block of payload.rollback) {
+        console.log(`\nRolling back Block #${block.block_identifier.index}`);
+        console.log(`  Hash: ${block.block_identifier.hash.substring(0, 16)}...`);
+      }
+
+      if (eventStore) {
+        try {
+          orphanedEvents = await eventStore.handleReorg(
+            payload.rollback.map((block) => block.block_identifier.hash)
+          );
+          console.log(`  🗑️  Orphaned ${orphanedEvents.length} event(s) from rolled-back blocks`);
+        } catch (error) {
+          console.error('Failed to handle reorg in database:', error);
+        }
+      }
+    }
 
     // Process apply events (new blocks/transactions)
     if (payload.apply && payload.apply.length > 0) {
@@ -164,42 +184,22 @@ export default async function handler(
         }
       }
 
-      // Process all events through realtime system
-      if (chainhookSocket && processedEvents.length > 0) {
-        const events = chainhookSocket.processWebhookPayload(payload);
-
-        // Save to database if event store is available
-        if (eventStore) {
-          try {
-            const saved = await eventStore.saveEvents(events);
-            console.log(`📁 Saved ${saved} events to database`);
-          } catch (error) {
-            console.error('Failed to save events to database:', error);
-          }
-        }
-      }
+      console.log(`\n📊 Parsed ${processedEvents.length} contract event(s)`);
     }
 
-    // Process rollback events (blockchain reorganization)
-    if (payload.rollback && payload.rollback.length > 0) {
-      console.log(`\n⚠️  ROLLBACK: ${payload.rollback.length} block(s)`);
-
-      for (const block of payload.rollback) {
-        console.log(`\nRolling back Block #${block.block_identifier.index}`);
-        console.log(`  Hash: ${block.block_identifier.hash.substring(0, 16)}...`);
-
-        // Handle reorg in event store
-        const blockHeight = block.block_identifier.index;
+    // Persist before broadcasting, so a client that reconnects afterwards gets
+    // these events replayed. A failed save fails the request and Chainhook
+    // retries the payload; saves are upserts, so the retry is safe
+    const events = decodeWebhookPayload(payload);
+    if (eventStore && events.length > 0) {
+      const saved = await eventStore.saveEvents(events);
+      console.log(`📁 Saved ${saved} events to database`);
+    }
 
-        if (eventStore) {
-          try {
-            const removed = await eventStore.handleReorg([blockHeight]);
-            console.log(`  🗑️  Removed ${removed} event(s) from rolled-back block`);
-          } catch (error) {
-            console.error('Failed to handle reorg in database:', error);
-          }
-        }
-      }
+    // Hand events to connected clients when a socket server is attached
+    const hasBlocks = payload.apply?.length > 0 || (payload.rollback?.length ?? 0) > 0;
+    if (chainhookSocket && hasBlocks) {
+      chainhookSocket.processWebhookPayload(payload, orphanedEvents, events);
     }
 
     console.log('\n===============================================\n');
@@ -222,8 +222,3 @@ export default async function handler(
     });
   }
 }
-
-// Export function to get recent events (for frontend polling or SSE)
-export function getRecentEvents(limit: number = 50) {
-  return recentEvents.slice(0, limit);
-}
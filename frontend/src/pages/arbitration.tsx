@@ -0,0 +1,278 @@
+// Arbitration Page - Dispute Arbitration Contract Integration
+// Clarity 4 with stacks-block-time evidence and voting periods
+
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ClockIcon,
+  CheckCircleIcon,
+  ScaleIcon,
+  UserPlusIcon,
+  ShieldCheckIcon,
+} from '@heroicons/react/24/outline';
+import { useWallet } from '@/contexts/WalletContext';
+import { useDisputeArbitration, DisputeOverview } from '@/hooks/useDisputeArbitration';
+import { DisputeOutcome, DisputePhase, DisputeStatus } from '@/types/contracts';
+import PauseBanner from '@/components/PauseBanner';
+import Link from 'next/link';
+
+const PHASE_LABELS: Record<DisputePhase, string> = {
+  evidence: 'Evidence Period',
+  voting: 'Voting Open',
+  'awaiting-resolution': 'Awaiting Resolution',
+  resolved: 'Resolved',
+};
+
+const PHASE_BADGES: Record<DisputePhase, string> = {
+  evidence: 'badge-warning',
+  voting: 'badge-primary',
+  'awaiting-resolution': 'badge-neutral',
+  resolved: 'badge-success',
+};
+
+const OUTCOME_LABELS: Record<DisputeOutcome, string> = {
+  [DisputeOutcome.FAVOR_PROVIDER]: 'Provider',
+  [DisputeOutcome.FAVOR_RECEIVER]: 'Receiver',
+  [DisputeOutcome.SPLIT]: 'Split',
+};
+
+const formatCountdown = (seconds: number): string => {
+  if (seconds <= 0) return 'ended';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes}m left`;
+  return `${minutes}m ${seconds % 60}s left`;
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const Arbitration: React.FC = () => {
+  const { isConnected, address } = useWallet();
+  const {
+    disputes,
+    arbitrator,
+    isArbitrator,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadDisputes,
+    registerArbitrator,
+    assignToDispute,
+    castVote,
+    resolveDispute,
+  } = useDisputeArbitration(address);
+
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    if (isConnected && address) {
+      loadDisputes();
+    }
+  }, [isConnected, address]);
+
+  // Tick the countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleResult = async (
+    action: Promise<{ success: boolean; txId?: string; error?: string }>,
+    label: string
+  ) => {
+    const result = await action;
+    if (result.success) {
+      alert(`${label} submitted! TX: ${result.txId}`);
+      loadDisputes();
+    } else {
+      alert(`${label} failed: ${result.error}`);
+    }
+  };
+
+  const getCountdown = ({ dispute, phase }: DisputeOverview): string | null => {
+    if (phase === 'evidence') return `Voting opens: ${formatCountdown(dispute.evidenceDeadline - now)}`;
+    if (phase === 'voting') return `Voting closes: ${formatCountdown(dispute.votingDeadline - now)}`;
+    return null;
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">
+            Connect Your Wallet
+          </h1>
+          <p className="text-neutral-600 mb-8">
+            Please connect your wallet to view disputes
+          </p>
+          <Link href="/" className="btn-primary">
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="flex items-center justify-between"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-neutral-900">Arbitration</h1>
+          <p className="text-neutral-600 mt-1">
+            Resolve failed exchanges with evidence and voting periods
+          </p>
+        </div>
+        {isArbitrator ? (
+          <div className="flex items-center space-x-2 text-sm text-secondary-700">
+            <ShieldCheckIcon className="w-5 h-5" />
+            <span>Arbitrator • {arbitrator?.totalCases || 0} cases</span>
+          </div>
+        ) : (
+          <button
+            onClick={() => handleResult(registerArbitrator(), 'Arbitrator registration')}
+            disabled={isLoading || isPaused}
+            className="btn-primary flex items-center space-x-2"
+          >
+            <UserPlusIcon className="w-4 h-4" />
+            <span>Become an Arbitrator</span>
+          </button>
+        )}
+      </motion.div>
+
+      <PauseBanner message={pauseMessage} />
+
+      {error && (
+        <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Disputes */}
+      {disputes.length === 0 ? (
+        <div className="card">
+          <div className="card-body text-center text-neutral-600">
+            <ScaleIcon className="w-12 h-12 mx-auto mb-4 text-neutral-400" />
+            {isLoading ? 'Loading disputes...' : 'No disputes have been opened'}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {disputes.map((overview, index) => {
+            const { dispute, phase, myVote } = overview;
+            const countdown = getCountdown(overview);
+
+            return (
+              <motion.div
+                key={dispute.disputeId}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05, duration: 0.5 }}
+                className="card"
+              >
+                <div className="card-body space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h2 className="text-lg font-semibold text-neutral-900">
+                        Dispute #{dispute.disputeId}
+                      </h2>
+                      <p className="text-sm text-neutral-600">
+                        Exchange #{dispute.exchangeId} • Provider {shortAddress(dispute.provider)} •
+                        Receiver {shortAddress(dispute.receiver)}
+                      </p>
+                    </div>
+                    <span className={`badge ${PHASE_BADGES[phase]}`}>{PHASE_LABELS[phase]}</span>
+                  </div>
+
+                  {countdown && (
+                    <div className="flex items-center space-x-2 text-sm text-neutral-600">
+                      <ClockIcon className="w-4 h-4" />
+                      <span>{countdown}</span>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div>
+                      <p className="text-xs text-neutral-500">Provider</p>
+                      <p className="text-xl font-bold text-neutral-900">{dispute.votesProvider}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-neutral-500">Receiver</p>
+                      <p className="text-xl font-bold text-neutral-900">{dispute.votesReceiver}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-neutral-500">Split</p>
+                      <p className="text-xl font-bold text-neutral-900">{dispute.votesSplit}</p>
+                    </div>
+                  </div>
+
+                  {phase === 'resolved' && dispute.outcome && (
+                    <div className="flex items-center space-x-2 text-sm text-secondary-700">
+                      <CheckCircleIcon className="w-4 h-4" />
+                      <span>Outcome: {OUTCOME_LABELS[dispute.outcome]}</span>
+                    </div>
+                  )}
+
+                  {isArbitrator && myVote && (
+                    <p className="text-sm text-neutral-600">
+                      You voted: {OUTCOME_LABELS[myVote.vote]}
+                    </p>
+                  )}
+
+                  {isArbitrator && !myVote && phase !== 'resolved' && (
+                    <div className="flex flex-wrap gap-2">
+                      {/* Assignment isn't readable on-chain, so joining stays available until voting closes */}
+                      {(phase === 'evidence' || phase === 'voting') && (
+                        <button
+                          onClick={() => handleResult(assignToDispute(dispute.disputeId), 'Joining dispute')}
+                          disabled={isLoading || isPaused}
+                          className="btn-outline"
+                        >
+                          Join as Arbitrator
+                        </button>
+                      )}
+                      {phase === 'voting' &&
+                        [
+                          DisputeOutcome.FAVOR_PROVIDER,
+                          DisputeOutcome.FAVOR_RECEIVER,
+                          DisputeOutcome.SPLIT,
+                        ].map((outcome) => (
+                          <button
+                            key={outcome}
+                            onClick={() => handleResult(castVote(dispute.disputeId, outcome), 'Vote')}
+                            disabled={isLoading || isPaused}
+                            className="btn-outline"
+                          >
+                            Vote {OUTCOME_LABELS[outcome]}
+                          </button>
+                        ))}
+                    </div>
+                  )}
+
+                  {/* Only disputes that received votes can be resolved */}
+                  {phase === 'awaiting-resolution' && dispute.status === DisputeStatus.VOTING && (
+                    <button
+                      onClick={() => handleResult(resolveDispute(dispute.disputeId), 'Resolution')}
+                      disabled={isLoading || isPaused}
+                      className="btn-primary"
+                    >
+                      Resolve Dispute
+                    </button>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Arbitration;
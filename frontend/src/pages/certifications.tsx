@@ -0,0 +1,290 @@
+// Certifications Page - Skill Certification NFT Contract Integration
+// Clarity 4 SIP-009 certifications with stacks-block-time expiry
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import { motion } from 'framer-motion';
+import {
+  AcademicCapIcon,
+  ArrowPathIcon,
+  CheckBadgeIcon,
+  ClockIcon,
+} from '@heroicons/react/24/outline';
+import { useWallet } from '@/contexts/WalletContext';
+import { useSkillCertifications } from '@/hooks/useSkillCertifications';
+import {
+  formatCertificationLevel,
+  getCertificationStatus,
+} from '@/lib/contracts/skillCertificationNft';
+import { CertificationLevel, CertificationStatus } from '@/types/contracts';
+import PauseBanner from '@/components/PauseBanner';
+import Link from 'next/link';
+
+const LEVEL_STYLES: Record<CertificationLevel, string> = {
+  [CertificationLevel.BRONZE]: 'from-warning-600 to-warning-700',
+  [CertificationLevel.SILVER]: 'from-neutral-400 to-neutral-500',
+  [CertificationLevel.GOLD]: 'from-warning-400 to-warning-500',
+  [CertificationLevel.PLATINUM]: 'from-primary-500 to-secondary-500',
+};
+
+const STATUS_BADGES: Record<CertificationStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'badge-success' },
+  'renewal-due': { label: 'Renewal due', className: 'badge-warning' },
+  expired: { label: 'Expired', className: 'badge-danger' },
+  inactive: { label: 'Inactive', className: 'badge-neutral' },
+};
+
+const SECONDS_PER_DAY = 86400;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+const Certifications: React.FC = () => {
+  const router = useRouter();
+  const { isConnected, address } = useWallet();
+
+  // `?owner=` shows another user's gallery; default to the connected wallet
+  const ownerParam = Array.isArray(router.query.owner) ? router.query.owner[0] : router.query.owner;
+  const owner = ownerParam || address;
+  const isOwnGallery = !!owner && owner === address;
+
+  const {
+    certifications,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadCertifications,
+    issueCertification,
+    renewCertification,
+  } = useSkillCertifications(owner);
+
+  const [now] = useState(() => Math.floor(Date.now() / 1000));
+  const [recipient, setRecipient] = useState('');
+  const [skillId, setSkillId] = useState(1);
+  const [level, setLevel] = useState<CertificationLevel>(CertificationLevel.BRONZE);
+
+  useEffect(() => {
+    if (isConnected && owner) {
+      loadCertifications();
+    }
+  }, [isConnected, owner]);
+
+  const handleResult = async (
+    action: Promise<{ success: boolean; txId?: string; error?: string }>,
+    label: string
+  ) => {
+    const result = await action;
+    if (result.success) {
+      alert(`${label} submitted! TX: ${result.txId}`);
+      loadCertifications();
+    } else {
+      alert(`${label} failed: ${result.error}`);
+    }
+    return result.success;
+  };
+
+  const handleIssueCertification = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await handleResult(issueCertification(recipient, skillId, level), 'Certification')) {
+      setRecipient('');
+      setSkillId(1);
+      setLevel(CertificationLevel.BRONZE);
+    }
+  };
+
+  const renewalsDue = certifications.filter((certification) => {
+    const status = getCertificationStatus(certification, now);
+    return status === 'renewal-due' || status === 'expired';
+  }).length;
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">
+            Connect Your Wallet
+          </h1>
+          <p className="text-neutral-600 mb-8">
+            Please connect your wallet to view skill certifications
+          </p>
+          <Link href="/" className="btn-primary">
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <h1 className="text-3xl font-bold text-neutral-900">Certifications</h1>
+        <p className="text-neutral-600 mt-1">
+          {isOwnGallery
+            ? 'Your verified skill certifications'
+            : `Skill certifications held by ${owner ? shortAddress(owner) : 'this user'}`}
+        </p>
+      </motion.div>
+
+      <PauseBanner message={pauseMessage} />
+
+      {error && (
+        <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      {isOwnGallery && renewalsDue > 0 && (
+        <div className="alert alert-warning flex items-center space-x-3">
+          <ClockIcon className="w-5 h-5" />
+          <span>
+            {renewalsDue} certification{renewalsDue > 1 ? 's' : ''} need renewal: expiring
+            within 30 days or already expired
+          </span>
+        </div>
+      )}
+
+      {/* Gallery */}
+      {certifications.length === 0 ? (
+        <div className="card">
+          <div className="card-body text-center text-neutral-600">
+            <AcademicCapIcon className="w-12 h-12 mx-auto mb-4 text-neutral-400" />
+            {isLoading ? 'Loading certifications...' : 'No certifications yet'}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {certifications.map((certification, index) => {
+            const status = getCertificationStatus(certification, now);
+            const badge = STATUS_BADGES[status];
+            const daysLeft = Math.ceil((certification.expiresAt - now) / SECONDS_PER_DAY);
+
+            return (
+              <motion.div
+                key={certification.tokenId}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05, duration: 0.5 }}
+                className="card overflow-hidden"
+              >
+                <div
+                  className={`h-24 bg-gradient-to-br ${LEVEL_STYLES[certification.level]} flex items-center justify-center`}
+                >
+                  <CheckBadgeIcon className="w-12 h-12 text-white" />
+                </div>
+                <div className="card-body space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h2 className="font-semibold text-neutral-900">
+                      {formatCertificationLevel(certification.level)} • Skill #
+                      {certification.skillId}
+                    </h2>
+                    <span className={`badge ${badge.className}`}>{badge.label}</span>
+                  </div>
+                  <div className="text-sm text-neutral-600 space-y-1">
+                    <p>Token #{certification.tokenId}</p>
+                    <p>Issued {formatDate(certification.issuedAt)}</p>
+                    <p>
+                      Expires {formatDate(certification.expiresAt)}
+                      {status === 'renewal-due' && ` (${daysLeft} day${daysLeft === 1 ? '' : 's'} left)`}
+                    </p>
+                    <p>Verified by {shortAddress(certification.verifiedBy)}</p>
+                    {certification.renewalCount > 0 && (
+                      <p>Renewed {certification.renewalCount}×</p>
+                    )}
+                  </div>
+                  {isOwnGallery && (status === 'renewal-due' || status === 'expired') && (
+                    <button
+                      onClick={() =>
+                        handleResult(renewCertification(certification.tokenId), 'Renewal')
+                      }
+                      disabled={isLoading || isPaused}
+                      className="btn-primary w-full flex items-center justify-center space-x-2"
+                    >
+                      <ArrowPathIcon className="w-4 h-4" />
+                      <span>Renew</span>
+                    </button>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Verifier Tools */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header">
+          <h2 className="text-lg font-semibold text-neutral-900">Verifier Tools</h2>
+          <p className="text-sm text-neutral-600">
+            Only the contract owner and approved verifiers can issue certifications
+          </p>
+        </div>
+        <div className="card-body">
+          <form
+            onSubmit={handleIssueCertification}
+            className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+          >
+            <div className="md:col-span-2">
+              <label className="label">Recipient Address</label>
+              <input
+                type="text"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                className="input"
+                placeholder="SP..."
+                required
+              />
+            </div>
+            <div>
+              <label className="label">Skill ID</label>
+              <input
+                type="number"
+                value={skillId}
+                onChange={(e) => setSkillId(Number(e.target.value))}
+                className="input"
+                min={1}
+                required
+              />
+            </div>
+            <div>
+              <label className="label">Level</label>
+              <select
+                value={level}
+                onChange={(e) => setLevel(Number(e.target.value) as CertificationLevel)}
+                className="input"
+              >
+                {[
+                  CertificationLevel.BRONZE,
+                  CertificationLevel.SILVER,
+                  CertificationLevel.GOLD,
+                  CertificationLevel.PLATINUM,
+                ].map((option) => (
+                  <option key={option} value={option}>
+                    {formatCertificationLevel(option)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-4 flex justify-end">
+              <button type="submit" disabled={isLoading || isPaused} className="btn-primary">
+                {isLoading ? 'Submitting...' : 'Issue Certification'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Certifications;
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import Dashboard from './dashboard';
 
 // Mock Next.js router and Link
@@ -27,6 +27,8 @@ vi.mock('framer-motion', () => ({
 const mockLoadUserInfo = vi.fn();
 const mockLoadStats = vi.fn();
 const mockLoadExchangeStats = vi.fn();
+const mockRegisterUser = vi.fn();
+const mockApplyCode = vi.fn();
 
 const mockWalletContext = {
   isConnected: true,
@@ -55,6 +57,18 @@ const mockTimeBankCore = {
   },
   loadUserInfo: mockLoadUserInfo,
   loadStats: mockLoadStats,
+  registerUser: mockRegisterUser,
+  isLoading: false,
+  isPaused: false,
+};
+
+const mockReferralProgram = {
+  pendingReferral: null as { code: string; referrer: string } | null,
+  loadReferralData: vi.fn(),
+  applyCode: mockApplyCode,
+  dismissPendingReferral: vi.fn(),
+  isLoading: false,
+  isPaused: false,
 };
 
 const mockExchangeManager = {
@@ -77,6 +91,40 @@ vi.mock('@/hooks/useExchangeManager', () => ({
   useExchangeManager: () => mockExchangeManager,
 }));
 
+vi.mock('@/hooks/useReferralProgram', () => ({
+  useReferralProgram: () => mockReferralProgram,
+}));
+
+const mockNonce = {
+  gaps: null as any,
+  hasGaps: false,
+  checkGaps: vi.fn(),
+  repair: vi.fn(),
+  isRepairing: false,
+  error: null as string | null,
+};
+
+vi.mock('@/hooks/useNetwork', () => ({
+  useNetwork: () => ({ client: {} }),
+}));
+
+vi.mock('@/hooks/useNonce', () => ({
+  useNonce: () => mockNonce,
+}));
+
+const mockTransactions = {
+  tracked: [] as any[],
+  track: vi.fn(),
+  speedUp: vi.fn(),
+  cancel: vi.fn(),
+  getReplacementChain: vi.fn((): any[] => mockTransactions.tracked),
+  getConfirmedInChain: vi.fn(),
+};
+
+vi.mock('@/hooks/useTransactionTracker', () => ({
+  useTransactionTracker: () => mockTransactions,
+}));
+
 describe('Dashboard Page', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -93,6 +141,11 @@ describe('Dashboard Page', () => {
       activeUsers: 45,
     });
     mockLoadExchangeStats.mockResolvedValue({});
+    mockNonce.gaps = null;
+    mockNonce.hasGaps = false;
+    mockNonce.error = null;
+    mockTransactions.tracked = [];
+    mockReferralProgram.pendingReferral = null;
   });
 
   describe('Not Connected State', () => {
@@ -199,6 +252,31 @@ describe('Dashboard Page', () => {
       expect(screen.getByText('Register Now')).toBeInTheDocument();
     });
 
+    it('should offer the referral code from the invite link after registering', async () => {
+      mockReferralProgram.pendingReferral = {
+        code: 'FRIEND42',
+        referrer: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
+      };
+      mockRegisterUser.mockResolvedValue({ success: true, txId: '0xabc123def456' });
+      mockApplyCode.mockResolvedValue({ success: true, txId: '0xfeed' });
+      vi.spyOn(window, 'alert').mockImplementation(() => {});
+
+      render(<Dashboard />);
+      expect(screen.queryByText('Apply Code')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Register Now'));
+      await waitFor(() => {
+        expect(screen.getByText('Apply Code')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByText('Apply Code'));
+      await waitFor(() => {
+        expect(mockApplyCode).toHaveBeenCalledWith('FRIEND42');
+      });
+      expect(mockTransactions.track).toHaveBeenCalledWith('0xabc123def456', { label: 'Registration' });
+      expect(mockTransactions.track).toHaveBeenCalledWith('0xfeed', { label: 'Referral code' });
+    });
+
     it('should still show quick stats with zero values', () => {
       render(<Dashboard />);
 
@@ -329,6 +407,72 @@ describe('Dashboard Page', () => {
     });
   });
 
+  describe('Nonce Gap Warning', () => {
+    it('should check for nonce gaps when connected', () => {
+      render(<Dashboard />);
+
+      expect(mockNonce.checkGaps).toHaveBeenCalled();
+      expect(screen.queryByText('Transactions may be stuck')).not.toBeInTheDocument();
+    });
+
+    it('should warn about missing nonces', () => {
+      mockNonce.hasGaps = true;
+      mockNonce.gaps = { missingNonces: [11], localState: 'in-sync' };
+
+      render(<Dashboard />);
+
+      expect(screen.getByText('Transactions may be stuck')).toBeInTheDocument();
+      expect(screen.getByText(/Nonce 11 never reached the network/)).toBeInTheDocument();
+    });
+
+    it('should fill missing nonces through the wallet and track the fillers', async () => {
+      mockNonce.hasGaps = true;
+      mockNonce.gaps = { missingNonces: [11], localState: 'in-sync' };
+      mockNonce.repair.mockResolvedValue({ filled: [{ nonce: 11, txId: '0xfill' }], failed: [] });
+
+      render(<Dashboard />);
+      fireEvent.click(screen.getByText('Fill nonce gaps'));
+
+      await waitFor(() => {
+        expect(mockTransactions.track).toHaveBeenCalledWith('0xfill', { label: 'Nonce 11 gap filler' });
+      });
+      expect(mockNonce.repair).toHaveBeenCalledWith();
+    });
+
+    it('should not offer a repair when only the local counter is stale', () => {
+      mockNonce.hasGaps = true;
+      mockNonce.gaps = { missingNonces: [], localState: 'ahead' };
+
+      render(<Dashboard />);
+
+      expect(screen.getByText('Transactions may be stuck')).toBeInTheDocument();
+      expect(screen.queryByText('Fill nonce gaps')).not.toBeInTheDocument();
+    });
+
+    it('should show when the nonce check failed', () => {
+      mockNonce.error = 'Failed to fetch nonces for ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM: 503';
+
+      render(<Dashboard />);
+
+      expect(screen.getByText('Could not check your pending transactions')).toBeInTheDocument();
+      expect(screen.getByText(/Failed to fetch nonces/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Pending Transactions', () => {
+    it('should offer speed-up and cancel for a pending transaction', () => {
+      mockTransactions.tracked = [
+        { txId: '0xabc123def456', status: 'pending', startedAt: 0, metadata: { label: 'Registration' } },
+      ];
+
+      render(<Dashboard />);
+
+      expect(screen.getByText('Your Transactions')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Speed up' }));
+      expect(mockTransactions.speedUp).toHaveBeenCalledWith('0xabc123def456');
+    });
+  });
+
   describe('Status Helpers', () => {
     it('should render Quick Stats section', () => {
       render(<Dashboard />);
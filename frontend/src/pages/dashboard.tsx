@@ -13,11 +13,20 @@ import {
   ArrowTrendingUpIcon,
   CurrencyDollarIcon,
   UserGroupIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 import { useApp } from '@/contexts/AppContext';
 import { useWallet } from '@/contexts/WalletContext';
 import { useTimeBankCore } from '@/hooks/useTimeBankCore';
+import { useReferralProgram } from '@/hooks/useReferralProgram';
 import { useExchangeManager } from '@/hooks/useExchangeManager';
+import { useNetwork } from '@/hooks/useNetwork';
+import { useNonce } from '@/hooks/useNonce';
+import { useTransactionTracker } from '@/hooks/useTransactionTracker';
+import PendingTransactions from '@/components/PendingTransactions';
+import { getNetworkType } from '@/lib/stacks';
+import { CONTRACT_CONSTANTS } from '@/lib/contractConfig';
+import type { NonceGapReport } from '@/lib/nonce-manager';
 import { TimeExchange } from '@/types';
 import { TimeBankUser, TimeBankStats, ExchangeStats } from '@/types/contracts';
 import Link from 'next/link';
@@ -25,16 +34,45 @@ import Link from 'next/link';
 const Dashboard: React.FC = () => {
   const { state } = useApp();
   const { isConnected, address } = useWallet();
-  const { user: timeBankUser, stats, loadUserInfo, loadStats } = useTimeBankCore();
+  const {
+    user: timeBankUser,
+    stats,
+    loadUserInfo,
+    loadStats,
+    registerUser,
+    isLoading: isRegistering,
+    isPaused: isRegistrationPaused,
+  } = useTimeBankCore();
+  const {
+    pendingReferral,
+    loadReferralData,
+    applyCode,
+    dismissPendingReferral,
+    isLoading: isApplyingReferral,
+    isPaused: isReferralPaused,
+  } = useReferralProgram(address);
   const { loadExchangeStats } = useExchangeManager();
+  const { client } = useNetwork({ network: getNetworkType(), autoRefresh: false });
+  const {
+    gaps: nonceGaps,
+    hasGaps: hasNonceGaps,
+    checkGaps,
+    repair: repairNonceGaps,
+    isRepairing: isRepairingNonces,
+    error: nonceError,
+  } = useNonce(address, client);
+  const transactions = useTransactionTracker(client, address);
   const [recentExchanges, setRecentExchanges] = useState<TimeExchange[]>([]);
   const [timeBankStats, setTimeBankStats] = useState<TimeBankStats | null>(null);
   const [exchangeStats, setExchangeStats] = useState<ExchangeStats | null>(null);
+  const [registrationTxId, setRegistrationTxId] = useState<string | null>(null);
 
   useEffect(() => {
     if (isConnected && address) {
       loadUserInfo();
       loadContractStats();
+      loadReferralData();
+      checkGaps();
     }
   }, [isConnected, address]);
 
@@ -113,6 +151,45 @@ const Dashboard: React.FC = () => {
     },
   ];
 
+  const handleRegister = async () => {
+    const result = await registerUser();
+    if (result.success) {
+      setRegistrationTxId(result.txId || null);
+      if (result.txId) transactions.track(result.txId, { label: 'Registration' });
+    } else {
+      alert(`Registration failed: ${result.error}`);
+    }
+  };
+
+  const handleApplyReferral = async () => {
+    if (!pendingReferral) return;
+    const result = await applyCode(pendingReferral.code);
+    if (result.success) {
+      if (result.txId) transactions.track(result.txId, { label: 'Referral code' });
+      alert(`Referral code applied! TX: ${result.txId}`);
+    } else {
+      alert(`Failed to apply referral code: ${result.error}`);
+    }
+  };
+
+  const handleRepairNonceGaps = async () => {
+    try {
+      const result = await repairNonceGaps();
+      result.filled.forEach(({ nonce, txId }) =>
+        transactions.track(txId, { label: `Nonce ${nonce} gap filler` })
+      );
+    } catch (error) {
+      alert(`Failed to fill nonce gaps: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const describeNonceGaps = (report: NonceGapReport) => {
+    if (report.missingNonces.length > 0) {
+      return `Nonce ${report.missingNonces.join(', ')} never reached the network, so later transactions from this wallet cannot be mined until the gap is filled. Filling a gap asks your wallet to sign a minimum-fee transfer of 1 micro-STX to the burn address at that nonce.`;
+    }
+    return 'Your pending transaction count is out of sync with the network. Refresh before sending new transactions.';
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -186,6 +263,38 @@ const Dashboard: React.FC = () => {
         </div>
       </motion.div>
 
+      {/* Nonce Gap Warning */}
+      {((hasNonceGaps && nonceGaps) || nonceError) && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="card border border-warning-200 bg-warning-50"
+        >
+          <div className="card-body flex items-start space-x-3">
+            <ExclamationTriangleIcon className="w-6 h-6 text-warning-600 flex-shrink-0" />
+            <div>
+              <h2 className="font-semibold text-warning-800">
+                {hasNonceGaps ? 'Transactions may be stuck' : 'Could not check your pending transactions'}
+              </h2>
+              {hasNonceGaps && nonceGaps && (
+                <p className="text-sm text-warning-700 mt-1">{describeNonceGaps(nonceGaps)}</p>
+              )}
+              {nonceError && <p className="text-sm text-warning-700 mt-1">{nonceError}</p>}
+              {hasNonceGaps && nonceGaps && nonceGaps.missingNonces.length > 0 && (
+                <button
+                  onClick={handleRepairNonceGaps}
+                  disabled={isRepairingNonces}
+                  className="btn-outline btn-sm mt-3"
+                >
+                  {isRepairingNonces ? 'Filling gaps...' : 'Fill nonce gaps'}
+                </button>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      )}
+
       {/* Registration Prompt if Not Registered */}
       {isConnected && !timeBankUser && (
         <motion.div
@@ -197,22 +306,65 @@ const Dashboard: React.FC = () => {
           <div className="card-body text-center">
             <SparklesIcon className="w-12 h-12 mx-auto mb-4" />
             <h2 className="text-2xl font-bold mb-2">Welcome to TimeBank!</h2>
-            <p className="mb-6 opacity-90">
-              You need to register to start using the Time Banking Protocol
-            </p>
-            <button
-              onClick={() => {
-                // Register user through hook
-                // Will be implemented in the next section
-              }}
-              className="btn bg-white text-primary-600 hover:bg-neutral-100 mx-auto"
-            >
-              Register Now
-            </button>
+            {!registrationTxId ? (
+              <>
+                <p className="mb-6 opacity-90">
+                  You need to register to start using the Time Banking Protocol
+                </p>
+                {pendingReferral && (
+                  <p className="mb-4 text-sm opacity-90">
+                    You were invited with referral code{' '}
+                    <span className="font-mono font-semibold">{pendingReferral.code}</span>
+                  </p>
+                )}
+                <button
+                  onClick={handleRegister}
+                  disabled={isRegistering || isRegistrationPaused}
+                  className="btn bg-white text-primary-600 hover:bg-neutral-100 mx-auto"
+                >
+                  {isRegistering ? 'Registering...' : 'Register Now'}
+                </button>
+              </>
+            ) : (
+              <>
+                <p className="mb-6 opacity-90">
+                  Registration submitted! TX: {registrationTxId.slice(0, 10)}...
+                </p>
+                {pendingReferral && (
+                  <div className="space-y-4">
+                    <p className="opacity-90">
+                      Apply referral code{' '}
+                      <span className="font-mono font-semibold">{pendingReferral.code}</span> to
+                      earn {CONTRACT_CONSTANTS.referralProgram.refereeReward} credits for you and{' '}
+                      {CONTRACT_CONSTANTS.referralProgram.referrerReward} for the friend who
+                      invited you.
+                    </p>
+                    <div className="flex items-center justify-center space-x-3">
+                      <button
+                        onClick={handleApplyReferral}
+                        disabled={isApplyingReferral || isReferralPaused}
+                        className="btn bg-white text-primary-600 hover:bg-neutral-100"
+                      >
+                        {isApplyingReferral ? 'Submitting...' : 'Apply Code'}
+                      </button>
+                      <button
+                        onClick={dismissPendingReferral}
+                        className="btn border border-white text-white hover:bg-white/10"
+                      >
+                        Skip
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </motion.div>
       )}
 
+      {/* Transactions sent from the dashboard, with speed-up and cancel */}
+      <PendingTransactions {...transactions} />
+
       {/* Quick Stats */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {quickStats.map((stat, index) => (
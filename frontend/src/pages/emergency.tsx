@@ -0,0 +1,251 @@
+// Emergency Page - Emergency Controls Contract Integration
+// Clarity 4 with pause switches and stacks-block-time timelocks
+
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ClockIcon,
+  ExclamationTriangleIcon,
+  PauseCircleIcon,
+  PlayCircleIcon,
+  ShieldExclamationIcon,
+} from '@heroicons/react/24/outline';
+import { useWallet } from '@/contexts/WalletContext';
+import { useEmergencyControls } from '@/hooks/useEmergencyControls';
+import { CONTRACT_CONSTANTS } from '@/lib/contractConfig';
+import Link from 'next/link';
+
+const formatCountdown = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m left`;
+  return `${minutes}m ${seconds % 60}s left`;
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const Emergency: React.FC = () => {
+  const { isConnected, address } = useWallet();
+  const {
+    isAdmin,
+    globalPaused,
+    contracts,
+    operations,
+    isLoading,
+    error,
+    loadControls,
+    toggleGlobalPause,
+    pauseContract,
+    unpauseContract,
+    proposeOperation,
+  } = useEmergencyControls(address);
+
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [operationType, setOperationType] = useState('');
+
+  useEffect(() => {
+    if (isConnected && address) {
+      loadControls();
+    }
+  }, [isConnected, address]);
+
+  // Tick the timelock countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleResult = async (
+    action: Promise<{ success: boolean; txId?: string; error?: string }>,
+    label: string
+  ) => {
+    const result = await action;
+    if (result.success) {
+      alert(`${label} submitted! TX: ${result.txId}`);
+      loadControls();
+    } else {
+      alert(`${label} failed: ${result.error}`);
+    }
+    return result.success;
+  };
+
+  const handleProposeOperation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await handleResult(proposeOperation(operationType), 'Operation proposal')) {
+      setOperationType('');
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">
+            Connect Your Wallet
+          </h1>
+          <p className="text-neutral-600 mb-8">
+            Please connect your wallet to access emergency controls
+          </p>
+          <Link href="/" className="btn-primary">
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="flex items-center justify-between"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-neutral-900">Emergency Controls</h1>
+          <p className="text-neutral-600 mt-1">
+            Pause the protocol or individual contracts and track timelocked operations
+          </p>
+        </div>
+        <button
+          onClick={() =>
+            handleResult(toggleGlobalPause(), globalPaused ? 'Global unpause' : 'Global pause')
+          }
+          disabled={isLoading || !isAdmin}
+          className={`${globalPaused ? 'btn-primary' : 'btn-outline'} flex items-center space-x-2`}
+        >
+          {globalPaused ? (
+            <PlayCircleIcon className="w-4 h-4" />
+          ) : (
+            <PauseCircleIcon className="w-4 h-4" />
+          )}
+          <span>{globalPaused ? 'Resume Protocol' : 'Pause Protocol'}</span>
+        </button>
+      </motion.div>
+
+      {!isAdmin && !isLoading && (
+        <div className="alert alert-info">
+          Only emergency admins can change pause state or propose operations.
+        </div>
+      )}
+
+      {globalPaused && (
+        <div className="alert alert-error flex items-center space-x-3">
+          <ExclamationTriangleIcon className="w-5 h-5" />
+          <span>The protocol is globally paused</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Contract Pauses */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header">
+          <h2 className="text-lg font-semibold text-neutral-900">Contracts</h2>
+        </div>
+        <div className="card-body divide-y divide-neutral-100">
+          {contracts.map(({ contract, contractName, paused }) => (
+            <div key={contract} className="flex items-center justify-between py-3">
+              <div className="flex items-center space-x-3">
+                <span className="font-mono text-sm text-neutral-900">{contractName}</span>
+                <span className={`badge ${paused ? 'badge-danger' : 'badge-success'}`}>
+                  {paused ? 'Paused' : 'Active'}
+                </span>
+              </div>
+              <button
+                onClick={() =>
+                  handleResult(
+                    paused ? unpauseContract(contract) : pauseContract(contract),
+                    paused ? 'Unpause' : 'Pause'
+                  )
+                }
+                disabled={isLoading || !isAdmin}
+                className="btn-outline"
+              >
+                {paused ? 'Unpause' : 'Pause'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+
+      {/* Timelocked Operations */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header flex items-center space-x-2">
+          <ShieldExclamationIcon className="w-5 h-5 text-neutral-500" />
+          <h2 className="text-lg font-semibold text-neutral-900">Timelocked Operations</h2>
+        </div>
+        <div className="card-body space-y-4">
+          <form onSubmit={handleProposeOperation} className="flex items-end space-x-3">
+            <div className="flex-1">
+              <label className="label">Operation Type</label>
+              <input
+                type="text"
+                value={operationType}
+                onChange={(e) => setOperationType(e.target.value)}
+                className="input"
+                placeholder="e.g., upgrade-exchange-manager"
+                maxLength={CONTRACT_CONSTANTS.emergencyControls.maxOperationTypeLength}
+                pattern="[ -~]*"
+                required
+              />
+            </div>
+            <button type="submit" disabled={isLoading || !isAdmin} className="btn-primary">
+              Propose
+            </button>
+          </form>
+
+          {operations.length === 0 ? (
+            <p className="text-center text-neutral-600">
+              {isLoading ? 'Loading operations...' : 'No operations have been proposed'}
+            </p>
+          ) : (
+            <div className="divide-y divide-neutral-100">
+              {operations.map(({ operation, executable }) => (
+                <div
+                  key={operation.operationId}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <p className="font-medium text-neutral-900">
+                      #{operation.operationId} • {operation.operationType}
+                    </p>
+                    <p className="text-sm text-neutral-600">
+                      Proposed by {shortAddress(operation.proposer)}
+                    </p>
+                  </div>
+                  {operation.executed ? (
+                    <span className="badge badge-neutral">Executed</span>
+                  ) : executable ? (
+                    <span className="badge badge-success">Executable</span>
+                  ) : (
+                    <div className="flex items-center space-x-2 text-sm text-neutral-600">
+                      <ClockIcon className="w-4 h-4" />
+                      <span>{formatCountdown(Math.max(0, operation.executeAfter - now))}</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Emergency;
@@ -13,21 +13,25 @@ import {
 } from '@heroicons/react/24/outline';
 import { useWallet } from '@/contexts/WalletContext';
 import { useEscrow } from '@/hooks/useContracts';
+import PauseBanner from '@/components/PauseBanner';
+import { EscrowStats } from '@/types/contracts';
 import Link from 'next/link';
 
 const Escrow: React.FC = () => {
   const { isConnected, address } = useWallet();
   const {
     isLoading,
-    error,
+    userFriendlyError,
     createEscrow,
     releaseEscrow,
     raiseDispute,
     loadEscrowStats,
+    isPaused,
+    pauseMessage,
   } = useEscrow();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [escrowStats, setEscrowStats] = useState<any>(null);
+  const [escrowStats, setEscrowStats] = useState<EscrowStats | null>(null);
 
   // Form states
   const [beneficiary, setBeneficiary] = useState('');
@@ -108,6 +112,7 @@ const Escrow: React.FC = () => {
         </div>
         <button
           onClick={() => setShowCreateModal(true)}
+          disabled={isPaused}
           className="btn-primary flex items-center space-x-2"
         >
           <PlusIcon className="w-4 h-4" />
@@ -115,6 +120,8 @@ const Escrow: React.FC = () => {
         </button>
       </motion.div>
 
+      <PauseBanner message={pauseMessage} />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <motion.div
@@ -147,9 +154,9 @@ const Escrow: React.FC = () => {
           <div className="card-body">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-neutral-600">Active</p>
+                <p className="text-sm font-medium text-neutral-600">Disputed</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {escrowStats?.activeEscrows || 0}
+                  {escrowStats?.totalDisputedEscrows || 0}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-secondary-50 flex items-center justify-center">
@@ -170,7 +177,7 @@ const Escrow: React.FC = () => {
               <div>
                 <p className="text-sm font-medium text-neutral-600">Released</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {escrowStats?.releasedEscrows || 0}
+                  {escrowStats?.totalCompletedEscrows || 0}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-accent-50 flex items-center justify-center">
@@ -271,7 +278,7 @@ const Escrow: React.FC = () => {
                   </button>
                   <button
                     type="submit"
-                    disabled={isLoading}
+                    disabled={isLoading || isPaused}
                     className="btn-primary flex-1"
                   >
                     {isLoading ? 'Creating...' : 'Create Escrow'}
@@ -279,9 +286,9 @@ const Escrow: React.FC = () => {
                 </div>
               </form>
 
-              {error && (
+              {userFriendlyError && (
                 <div className="mt-4 p-3 bg-error-50 text-error-700 rounded-lg text-sm">
-                  {error}
+                  {userFriendlyError}
                 </div>
               )}
             </motion.div>
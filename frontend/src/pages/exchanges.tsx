@@ -11,11 +11,48 @@ import {
   CalendarIcon,
   XMarkIcon,
   ArrowPathIcon,
+  ShieldExclamationIcon,
+  PlayIcon,
+  DocumentCheckIcon,
 } from '@heroicons/react/24/outline';
 import { useWallet } from '@/contexts/WalletContext';
-import { useExchangeManager } from '@/hooks/useExchangeManager';
+import { useExchangeManager, UserExchange } from '@/hooks/useExchangeManager';
+import { useInsurancePool } from '@/hooks/useInsurancePool';
+import { useAutomationScheduler } from '@/hooks/useAutomationScheduler';
+import { useExchangeOffers } from '@/hooks/useExchangeOffers';
+import PauseBanner from '@/components/PauseBanner';
+import { canFileClaim } from '@/lib/contracts/insurancePool';
+import { describeExchange } from '@/lib/contracts/exchangeManager';
+import {
+  formatNextExecution,
+  formatScheduleInterval,
+  formatScheduleType,
+} from '@/lib/contracts/automationScheduler';
+import { CONTRACT_CONSTANTS } from '@/lib/contractConfig';
+import { ExchangeStats, ScheduleType, ServiceExchange } from '@/types/contracts';
 import Link from 'next/link';
 
+const SCHEDULE_INTERVALS = [
+  { label: 'Weekly', value: CONTRACT_CONSTANTS.automationScheduler.weeklyInterval },
+  { label: 'Monthly', value: CONTRACT_CONSTANTS.automationScheduler.monthlyInterval },
+];
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const toUnixSeconds = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+const ACTIVE_STATUSES: ServiceExchange['status'][] = ['accepted', 'in-progress'];
+
+const EMPTY_OFFER_FORM = {
+  skillId: 1,
+  hours: 1,
+  hourlyRate: 1,
+  scheduledStart: '',
+  scheduledEnd: '',
+  expiresAt: '',
+  requester: '',
+};
+
 const Exchanges: React.FC = () => {
   const { isConnected, address } = useWallet();
   const {
@@ -26,30 +63,111 @@ const Exchanges: React.FC = () => {
     confirmCompletion,
     cancelExchange,
     loadExchangeStats,
+    loadUserExchanges,
     validateTimeRange,
+    isPaused,
+    pauseMessage,
   } = useExchangeManager();
+  const {
+    myClaims,
+    isContributor,
+    isLoading: isClaimLoading,
+    error: claimError,
+    isPaused: isClaimPaused,
+    pauseMessage: claimPauseMessage,
+    loadPool,
+    fileClaim,
+  } = useInsurancePool(address);
+  const {
+    schedules,
+    isLoading: isScheduleLoading,
+    error: scheduleError,
+    isPaused: isSchedulePaused,
+    pauseMessage: schedulePauseMessage,
+    loadSchedules,
+    createSchedule,
+    executeSchedule,
+    cancelSchedule,
+  } = useAutomationScheduler(address);
+  const {
+    offers,
+    myOffers,
+    isLoading: isOfferLoading,
+    error: offerError,
+    loadOffers,
+    createOffer,
+    withdrawOffer,
+    acceptOffer,
+  } = useExchangeOffers(address);
 
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [exchangeStats, setExchangeStats] = useState<any>(null);
+  const [exchangeStats, setExchangeStats] = useState<ExchangeStats | null>(null);
+  const [userExchanges, setUserExchanges] = useState<UserExchange[]>([]);
+  const [claimExchange, setClaimExchange] = useState<ServiceExchange | null>(null);
+  const [claimAmount, setClaimAmount] = useState(1);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+  const [showOfferModal, setShowOfferModal] = useState(false);
+  const [offerForm, setOfferForm] = useState(EMPTY_OFFER_FORM);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
 
   // Form states
   const [provider, setProvider] = useState('');
-  const [skillName, setSkillName] = useState('');
+  const [skillId, setSkillId] = useState(1);
+  const [description, setDescription] = useState('');
   const [hoursRequested, setHoursRequested] = useState(1);
   const [scheduledStart, setScheduledStart] = useState('');
   const [scheduledEnd, setScheduledEnd] = useState('');
+  const [scheduleRecipient, setScheduleRecipient] = useState('');
+  const [scheduleAmount, setScheduleAmount] = useState(1);
+  const [scheduleInterval, setScheduleInterval] = useState(SCHEDULE_INTERVALS[0].value);
+  const [scheduleType, setScheduleType] = useState<ScheduleType>(ScheduleType.RECURRING);
 
   useEffect(() => {
     if (isConnected && address) {
       loadStats();
+      loadPool();
+      loadSchedules();
+      loadOffers();
     }
   }, [isConnected, address]);
 
+  // Keep next-execution countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   const loadStats = async () => {
     const stats = await loadExchangeStats();
     setExchangeStats(stats);
+    if (address) {
+      setUserExchanges(await loadUserExchanges(address));
+    }
+  };
+
+  const openClaimModal = (exchange: ServiceExchange) => {
+    setClaimExchange(exchange);
+    setClaimAmount(exchange.hoursRequested);
+  };
+
+  const handleFileClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!claimExchange) return;
+
+    const result = await fileClaim(claimExchange.exchangeId, claimAmount);
+
+    if (result.success) {
+      alert(`Claim filed successfully! TX: ${result.txId}`);
+      setClaimExchange(null);
+      loadPool();
+    } else {
+      alert(`Failed to file claim: ${result.error}`);
+    }
   };
 
+  const hasClaim = (exchangeId: number) =>
+    myClaims.some(({ claim }) => claim.exchangeId === exchangeId);
+
   const handleCreateExchange = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -63,8 +181,9 @@ const Exchanges: React.FC = () => {
 
     const result = await createExchange(
       provider,
-      skillName,
+      skillId,
       hoursRequested,
+      description,
       startTimestamp,
       endTimestamp
     );
@@ -79,9 +198,76 @@ const Exchanges: React.FC = () => {
     }
   };
 
+  const handleScheduleResult = async (
+    action: Promise<{ success: boolean; txId?: string; error?: string }>,
+    label: string
+  ) => {
+    const result = await action;
+    if (result.success) {
+      alert(`${label} submitted! TX: ${result.txId}`);
+      loadSchedules();
+    } else {
+      alert(`${label} failed: ${result.error}`);
+    }
+    return result.success;
+  };
+
+  const handleCreateSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const created = await handleScheduleResult(
+      createSchedule(scheduleRecipient, scheduleAmount, scheduleInterval, scheduleType),
+      'Schedule'
+    );
+
+    if (created) {
+      setShowScheduleModal(false);
+      setScheduleRecipient('');
+      setScheduleAmount(1);
+      setScheduleInterval(SCHEDULE_INTERVALS[0].value);
+      setScheduleType(ScheduleType.RECURRING);
+    }
+  };
+
+  const updateOfferForm = (field: keyof typeof EMPTY_OFFER_FORM, value: string | number) =>
+    setOfferForm((current) => ({ ...current, [field]: value }));
+
+  const handleCreateOffer = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = await createOffer({
+      skillId: offerForm.skillId,
+      hours: offerForm.hours,
+      hourlyRate: offerForm.hourlyRate,
+      scheduledStart: toUnixSeconds(offerForm.scheduledStart),
+      scheduledEnd: toUnixSeconds(offerForm.scheduledEnd),
+      expiresAt: toUnixSeconds(offerForm.expiresAt),
+      ...(offerForm.requester && { requester: offerForm.requester }),
+    });
+
+    if (result.success) {
+      setShowOfferModal(false);
+      setOfferForm(EMPTY_OFFER_FORM);
+    }
+  };
+
+  const handleAcceptOffer = async (offerId: string) => {
+    const offer = offers.find(({ id }) => id === offerId);
+    if (!offer) return;
+
+    const result = await acceptOffer(offer, `Offer #${offer.id}`);
+    if (result.success) {
+      alert(`Offer accepted! TX: ${result.value}`);
+      loadStats();
+    } else {
+      alert(`Failed to accept offer: ${result.error}`);
+    }
+  };
+
   const resetForm = () => {
     setProvider('');
-    setSkillName('');
+    setSkillId(1);
+    setDescription('');
     setHoursRequested(1);
     setScheduledStart('');
     setScheduledEnd('');
@@ -122,6 +308,7 @@ const Exchanges: React.FC = () => {
         </div>
         <button
           onClick={() => setShowCreateModal(true)}
+          disabled={isPaused}
           className="btn-primary flex items-center space-x-2"
         >
           <PlusIcon className="w-4 h-4" />
@@ -129,6 +316,8 @@ const Exchanges: React.FC = () => {
         </button>
       </motion.div>
 
+      <PauseBanner message={pauseMessage} />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <motion.div
@@ -163,7 +352,7 @@ const Exchanges: React.FC = () => {
               <div>
                 <p className="text-sm font-medium text-neutral-600">Completed</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {exchangeStats?.completedExchanges || 0}
+                  {exchangeStats?.totalCompletedExchanges || 0}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-secondary-50 flex items-center justify-center">
@@ -182,9 +371,9 @@ const Exchanges: React.FC = () => {
           <div className="card-body">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-neutral-600">Active</p>
+                <p className="text-sm font-medium text-neutral-600">My Active</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {exchangeStats?.activeExchanges || 0}
+                  {userExchanges.filter(({ exchange }) => ACTIVE_STATUSES.includes(exchange.status)).length}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-accent-50 flex items-center justify-center">
@@ -203,9 +392,9 @@ const Exchanges: React.FC = () => {
           <div className="card-body">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-neutral-600">Total Hours</p>
+                <p className="text-sm font-medium text-neutral-600">Credits Exchanged</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {exchangeStats?.totalHoursExchanged || 0}
+                  {exchangeStats?.totalCreditsExchanged || 0}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-warning-50 flex items-center justify-center">
@@ -216,6 +405,601 @@ const Exchanges: React.FC = () => {
         </motion.div>
       </div>
 
+      {/* My Exchanges */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.5, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header">
+          <h2 className="text-lg font-semibold text-neutral-900">My Exchanges</h2>
+        </div>
+        <div className="card-body">
+          {userExchanges.length === 0 ? (
+            <p className="text-center text-neutral-600">
+              {isLoading ? 'Loading exchanges...' : 'You have no exchanges yet'}
+            </p>
+          ) : (
+            <div className="divide-y divide-neutral-100">
+              {userExchanges.map(({ exchange, isExpired }) => {
+                const claimable = !!address && canFileClaim(exchange, isExpired, address);
+                const failed =
+                  exchange.status === 'cancelled' ||
+                  (isExpired && exchange.status !== 'completed');
+
+                return (
+                  <div
+                    key={exchange.exchangeId}
+                    className="flex items-center justify-between py-3"
+                  >
+                    <div>
+                      <p className="font-medium text-neutral-900">
+                        #{exchange.exchangeId} • {describeExchange(exchange)}
+                      </p>
+                      <p className="text-sm text-neutral-600">
+                        {exchange.hoursRequested}h •{' '}
+                        {new Date(exchange.scheduledStart * 1000).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span
+                        className={`badge ${
+                          exchange.status === 'completed'
+                            ? 'badge-success'
+                            : failed
+                            ? 'badge-danger'
+                            : 'badge-neutral'
+                        }`}
+                      >
+                        {failed && exchange.status !== 'cancelled' ? 'expired' : exchange.status}
+                      </span>
+                      {claimable &&
+                        (hasClaim(exchange.exchangeId) ? (
+                          <span className="text-sm text-neutral-500">Claim filed</span>
+                        ) : (
+                          <button
+                            onClick={() => openClaimModal(exchange)}
+                            disabled={isClaimPaused}
+                            className="btn-outline flex items-center space-x-1"
+                          >
+                            <ShieldExclamationIcon className="w-4 h-4" />
+                            <span>File Claim</span>
+                          </button>
+                        ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </motion.div>
+
+      {/* Exchange Offers */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.55, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-neutral-900">Exchange Offers</h2>
+            <p className="text-sm text-neutral-600">
+              Signed offers cost nothing to publish; an exchange is only created on chain when a
+              requester accepts
+            </p>
+          </div>
+          <button
+            onClick={() => setShowOfferModal(true)}
+            className="btn-outline flex items-center space-x-1"
+          >
+            <PlusIcon className="w-4 h-4" />
+            <span>New Offer</span>
+          </button>
+        </div>
+        <div className="card-body space-y-4">
+          {offerError && (
+            <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{offerError}</div>
+          )}
+
+          {offers.length === 0 && myOffers.length === 0 ? (
+            <p className="text-center text-neutral-600">
+              {isOfferLoading ? 'Loading offers...' : 'There are no open offers for you'}
+            </p>
+          ) : (
+            <div className="divide-y divide-neutral-100">
+              {[...myOffers, ...offers].map((offer) => {
+                const isOwn = offer.provider === address;
+
+                return (
+                  <div key={offer.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-neutral-900">
+                        Skill #{offer.skillId} • {offer.hours}h at {offer.hourlyRate} credits/h
+                      </p>
+                      <p className="text-sm text-neutral-600">
+                        {isOwn
+                          ? offer.requester
+                            ? `Offered to ${shortAddress(offer.requester)}`
+                            : 'Open to anyone'
+                          : `From ${shortAddress(offer.provider)}`}{' '}
+                        • {new Date(offer.scheduledStart * 1000).toLocaleString()} • Expires{' '}
+                        {new Date(offer.expiresAt * 1000).toLocaleString()}
+                      </p>
+                    </div>
+                    {isOwn ? (
+                      <button
+                        onClick={() => withdrawOffer(offer)}
+                        disabled={isOfferLoading}
+                        className="btn-outline flex items-center space-x-1"
+                      >
+                        <XCircleIcon className="w-4 h-4" />
+                        <span>Withdraw</span>
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleAcceptOffer(offer.id)}
+                        disabled={isOfferLoading || isPaused}
+                        className="btn-outline flex items-center space-x-1"
+                      >
+                        <DocumentCheckIcon className="w-4 h-4" />
+                        <span>Accept</span>
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </motion.div>
+
+      {/* Recurring Payments */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.6, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-neutral-900">Recurring Payments</h2>
+            <p className="text-sm text-neutral-600">
+              Weekly sessions and subscriptions, executed once each interval has passed
+            </p>
+          </div>
+          <button
+            onClick={() => setShowScheduleModal(true)}
+            disabled={isSchedulePaused}
+            className="btn-outline flex items-center space-x-1"
+          >
+            <PlusIcon className="w-4 h-4" />
+            <span>New Schedule</span>
+          </button>
+        </div>
+        <div className="card-body space-y-4">
+          <PauseBanner message={schedulePauseMessage} />
+
+          {scheduleError && (
+            <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">
+              {scheduleError}
+            </div>
+          )}
+
+          {schedules.length === 0 ? (
+            <p className="text-center text-neutral-600">
+              {isScheduleLoading ? 'Loading schedules...' : 'You have no recurring payments yet'}
+            </p>
+          ) : (
+            <div className="divide-y divide-neutral-100">
+              {schedules.map((schedule) => {
+                const isOwner = schedule.owner === address;
+                const isDue = schedule.isActive && schedule.nextExecution <= now;
+
+                return (
+                  <div
+                    key={schedule.scheduleId}
+                    className="flex items-center justify-between py-3"
+                  >
+                    <div>
+                      <p className="font-medium text-neutral-900">
+                        #{schedule.scheduleId} • {formatScheduleType(schedule.scheduleType)} •{' '}
+                        {schedule.amount} credits every {formatScheduleInterval(schedule.interval)}
+                      </p>
+                      <p className="text-sm text-neutral-600">
+                        {isOwner
+                          ? `To ${shortAddress(schedule.recipient)}`
+                          : `From ${shortAddress(schedule.owner)}`}{' '}
+                        • {schedule.executionCount} execution
+                        {schedule.executionCount === 1 ? '' : 's'}
+                        {schedule.isActive &&
+                          ` • Next ${new Date(schedule.nextExecution * 1000).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span
+                        className={`badge ${
+                          !schedule.isActive
+                            ? 'badge-neutral'
+                            : isDue
+                            ? 'badge-warning'
+                            : 'badge-success'
+                        }`}
+                      >
+                        {formatNextExecution(schedule, now)}
+                      </span>
+                      {isDue && (
+                        <button
+                          onClick={() =>
+                            handleScheduleResult(executeSchedule(schedule.scheduleId), 'Execution')
+                          }
+                          disabled={isScheduleLoading || isSchedulePaused}
+                          className="btn-outline flex items-center space-x-1"
+                        >
+                          <PlayIcon className="w-4 h-4" />
+                          <span>Execute</span>
+                        </button>
+                      )}
+                      {isOwner && schedule.isActive && (
+                        <button
+                          onClick={() =>
+                            handleScheduleResult(cancelSchedule(schedule.scheduleId), 'Cancellation')
+                          }
+                          disabled={isScheduleLoading || isSchedulePaused}
+                          className="btn-outline flex items-center space-x-1"
+                        >
+                          <XCircleIcon className="w-4 h-4" />
+                          <span>Cancel</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </motion.div>
+
+      {/* File Claim Modal */}
+      <AnimatePresence>
+        {claimExchange && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+            onClick={() => setClaimExchange(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              className="bg-white rounded-2xl shadow-2xl max-w-md w-full mx-4 p-6"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-neutral-900">File Insurance Claim</h2>
+                <button
+                  onClick={() => setClaimExchange(null)}
+                  className="p-2 text-neutral-400 hover:text-neutral-600 transition-colors"
+                >
+                  <XMarkIcon className="w-6 h-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleFileClaim} className="space-y-4">
+                <div>
+                  <label className="label">Exchange</label>
+                  <input
+                    type="text"
+                    value={`#${claimExchange.exchangeId} • ${describeExchange(claimExchange)}`}
+                    className="input"
+                    readOnly
+                  />
+                </div>
+
+                <div>
+                  <label className="label">Claim Amount (credits)</label>
+                  <input
+                    type="number"
+                    value={claimAmount}
+                    onChange={(e) => setClaimAmount(Number(e.target.value))}
+                    className="input"
+                    min={1}
+                    required
+                  />
+                </div>
+
+                {claimPauseMessage && (
+                  <p className="text-sm text-warning-700">{claimPauseMessage}</p>
+                )}
+
+                {!isContributor && (
+                  <p className="text-sm text-warning-700">
+                    Only pool contributors can file claims.{' '}
+                    <Link href="/insurance" className="underline">
+                      Contribute to the pool
+                    </Link>{' '}
+                    first.
+                  </p>
+                )}
+
+                <div className="flex items-center space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setClaimExchange(null)}
+                    className="btn-outline flex-1"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isClaimLoading || !isContributor || isClaimPaused}
+                    className="btn-primary flex-1"
+                  >
+                    {isClaimLoading ? 'Filing...' : 'File Claim'}
+                  </button>
+                </div>
+              </form>
+
+              {claimError && (
+                <div className="mt-4 p-3 bg-error-50 text-error-700 rounded-lg text-sm">
+                  {claimError}
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* New Schedule Modal */}
+      <AnimatePresence>
+        {showScheduleModal && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+            onClick={() => setShowScheduleModal(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              className="bg-white rounded-2xl shadow-2xl max-w-md w-full mx-4 p-6"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-neutral-900">New Schedule</h2>
+                <button
+                  onClick={() => setShowScheduleModal(false)}
+                  className="p-2 text-neutral-400 hover:text-neutral-600 transition-colors"
+                >
+                  <XMarkIcon className="w-6 h-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleCreateSchedule} className="space-y-4">
+                <div>
+                  <label className="label">Type</label>
+                  <select
+                    value={scheduleType}
+                    onChange={(e) => setScheduleType(Number(e.target.value) as ScheduleType)}
+                    className="input"
+                  >
+                    <option value={ScheduleType.RECURRING}>
+                      Recurring (e.g. weekly tutoring)
+                    </option>
+                    <option value={ScheduleType.SUBSCRIPTION}>Subscription</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="label">Recipient Address</label>
+                  <input
+                    type="text"
+                    value={scheduleRecipient}
+                    onChange={(e) => setScheduleRecipient(e.target.value)}
+                    className="input"
+                    placeholder="SP..."
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="label">Amount per Execution (credits)</label>
+                  <input
+                    type="number"
+                    value={scheduleAmount}
+                    onChange={(e) => setScheduleAmount(Number(e.target.value))}
+                    className="input"
+                    min={1}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="label">Frequency</label>
+                  <select
+                    value={scheduleInterval}
+                    onChange={(e) => setScheduleInterval(Number(e.target.value))}
+                    className="input"
+                  >
+                    {SCHEDULE_INTERVALS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-sm text-neutral-500 mt-1">
+                    First execution in {formatScheduleInterval(scheduleInterval)}
+                  </p>
+                </div>
+
+                <div className="flex items-center space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowScheduleModal(false)}
+                    className="btn-outline flex-1"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isScheduleLoading || isSchedulePaused}
+                    className="btn-primary flex-1"
+                  >
+                    {isScheduleLoading ? 'Creating...' : 'Create Schedule'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* New Offer Modal */}
+      <AnimatePresence>
+        {showOfferModal && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+            onClick={() => setShowOfferModal(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              className="bg-white rounded-2xl shadow-2xl max-w-md w-full mx-4 p-6"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-neutral-900">New Offer</h2>
+                <button
+                  onClick={() => setShowOfferModal(false)}
+                  className="p-2 text-neutral-400 hover:text-neutral-600 transition-colors"
+                >
+                  <XMarkIcon className="w-6 h-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleCreateOffer} className="space-y-4">
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <label className="label">Skill ID</label>
+                    <input
+                      type="number"
+                      value={offerForm.skillId}
+                      onChange={(e) => updateOfferForm('skillId', Number(e.target.value))}
+                      className="input"
+                      min={0}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="label">Hours</label>
+                    <input
+                      type="number"
+                      value={offerForm.hours}
+                      onChange={(e) => updateOfferForm('hours', Number(e.target.value))}
+                      className="input"
+                      min={1}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="label">Rate</label>
+                    <input
+                      type="number"
+                      value={offerForm.hourlyRate}
+                      onChange={(e) => updateOfferForm('hourlyRate', Number(e.target.value))}
+                      className="input"
+                      min={0}
+                      required
+                    />
+                  </div>
+                </div>
+                <p className="text-sm text-neutral-500">
+                  The rate must match your registered rate for the skill when the offer is
+                  accepted
+                </p>
+
+                <div>
+                  <label className="label">Scheduled Start</label>
+                  <input
+                    type="datetime-local"
+                    value={offerForm.scheduledStart}
+                    onChange={(e) => updateOfferForm('scheduledStart', e.target.value)}
+                    className="input"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="label">Scheduled End</label>
+                  <input
+                    type="datetime-local"
+                    value={offerForm.scheduledEnd}
+                    onChange={(e) => updateOfferForm('scheduledEnd', e.target.value)}
+                    className="input"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="label">Offer Expires</label>
+                  <input
+                    type="datetime-local"
+                    value={offerForm.expiresAt}
+                    onChange={(e) => updateOfferForm('expiresAt', e.target.value)}
+                    className="input"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="label">Requester Address (optional)</label>
+                  <input
+                    type="text"
+                    value={offerForm.requester}
+                    onChange={(e) => updateOfferForm('requester', e.target.value)}
+                    className="input"
+                    placeholder="Leave empty to offer to anyone"
+                  />
+                </div>
+
+                <div className="flex items-center space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowOfferModal(false)}
+                    className="btn-outline flex-1"
+                  >
+                    Cancel
+                  </button>
+                  <button type="submit" disabled={isOfferLoading} className="btn-primary flex-1">
+                    {isOfferLoading ? 'Signing...' : 'Sign & Publish'}
+                  </button>
+                </div>
+              </form>
+
+              {offerError && (
+                <div className="mt-4 p-3 bg-error-50 text-error-700 rounded-lg text-sm">
+                  {offerError}
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Create Exchange Modal */}
       <AnimatePresence>
         {showCreateModal && (
@@ -258,13 +1042,26 @@ const Exchanges: React.FC = () => {
                 </div>
 
                 <div>
-                  <label className="label">Skill Name</label>
+                  <label className="label">Skill ID</label>
+                  <input
+                    type="number"
+                    value={skillId}
+                    onChange={(e) => setSkillId(Number(e.target.value))}
+                    className="input"
+                    min={1}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="label">Description</label>
                   <input
                     type="text"
-                    value={skillName}
-                    onChange={(e) => setSkillName(e.target.value)}
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
                     className="input"
-                    placeholder="e.g., Web Development"
+                    placeholder="e.g., Help with a React component"
+                    maxLength={200}
                     required
                   />
                 </div>
@@ -314,7 +1111,7 @@ const Exchanges: React.FC = () => {
                   </button>
                   <button
                     type="submit"
-                    disabled={isLoading}
+                    disabled={isLoading || isPaused}
                     className="btn-primary flex-1"
                   >
                     {isLoading ? 'Creating...' : 'Create Exchange'}
@@ -14,6 +14,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { useWallet } from '@/contexts/WalletContext';
 import { useGovernance } from '@/hooks/useContracts';
+import PauseBanner from '@/components/PauseBanner';
 import Link from 'next/link';
 
 const Governance: React.FC = () => {
@@ -25,6 +26,8 @@ const Governance: React.FC = () => {
     castVote,
     executeProposal,
     loadGovernanceStats,
+    isPaused,
+    pauseMessage,
   } = useGovernance();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -109,6 +112,7 @@ const Governance: React.FC = () => {
         </div>
         <button
           onClick={() => setShowCreateModal(true)}
+          disabled={isPaused}
           className="btn-primary flex items-center space-x-2"
         >
           <PlusIcon className="w-4 h-4" />
@@ -116,6 +120,8 @@ const Governance: React.FC = () => {
         </button>
       </motion.div>
 
+      <PauseBanner message={pauseMessage} />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <motion.div
@@ -282,7 +288,7 @@ const Governance: React.FC = () => {
                   </button>
                   <button
                     type="submit"
-                    disabled={isLoading}
+                    disabled={isLoading || isPaused}
                     className="btn-primary flex-1"
                   >
                     {isLoading ? 'Creating...' : 'Create Proposal'}
@@ -0,0 +1,314 @@
+// Insurance Page - Insurance Pool Contract Integration
+// Clarity 4 with stacks-block-time claim filing and review
+
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+  BanknotesIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  ShieldCheckIcon,
+  DocumentTextIcon,
+} from '@heroicons/react/24/outline';
+import { useWallet } from '@/contexts/WalletContext';
+import { useInsurancePool, ClaimOverview } from '@/hooks/useInsurancePool';
+import { ClaimStatus } from '@/types/contracts';
+import { describeExchange } from '@/lib/contracts/exchangeManager';
+import PauseBanner from '@/components/PauseBanner';
+import Link from 'next/link';
+
+const STATUS_LABELS: Record<ClaimStatus, string> = {
+  [ClaimStatus.PENDING]: 'Pending',
+  [ClaimStatus.APPROVED]: 'Approved',
+  [ClaimStatus.DENIED]: 'Denied',
+  [ClaimStatus.PAID]: 'Paid',
+};
+
+const STATUS_BADGES: Record<ClaimStatus, string> = {
+  [ClaimStatus.PENDING]: 'badge-warning',
+  [ClaimStatus.APPROVED]: 'badge-primary',
+  [ClaimStatus.DENIED]: 'badge-danger',
+  [ClaimStatus.PAID]: 'badge-success',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatTime = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+const Insurance: React.FC = () => {
+  const { isConnected, address } = useWallet();
+  const {
+    claims,
+    pendingClaims,
+    myClaims,
+    contributor,
+    poolBalance,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadPool,
+    contribute,
+    reviewClaim,
+    payClaim,
+  } = useInsurancePool(address);
+
+  const [contributionAmount, setContributionAmount] = useState(10);
+
+  useEffect(() => {
+    if (isConnected && address) {
+      loadPool();
+    }
+  }, [isConnected, address]);
+
+  const handleResult = async (
+    action: Promise<{ success: boolean; txId?: string; error?: string }>,
+    label: string
+  ) => {
+    const result = await action;
+    if (result.success) {
+      alert(`${label} submitted! TX: ${result.txId}`);
+      loadPool();
+    } else {
+      alert(`${label} failed: ${result.error}`);
+    }
+  };
+
+  const handleContribute = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleResult(contribute(contributionAmount), 'Contribution');
+  };
+
+  const approvedClaims = claims.filter(({ claim }) => claim.status === ClaimStatus.APPROVED);
+
+  const renderClaim = ({ claim, exchange }: ClaimOverview, actions?: React.ReactNode) => (
+    <div key={claim.claimId} className="py-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium text-neutral-900">
+            Claim #{claim.claimId} • {claim.amount} credits
+          </p>
+          <p className="text-sm text-neutral-600">
+            Filed by {shortAddress(claim.claimant)} on {formatTime(claim.filedAt)}
+          </p>
+        </div>
+        <span className={`badge ${STATUS_BADGES[claim.status]}`}>
+          {STATUS_LABELS[claim.status]}
+        </span>
+      </div>
+
+      {exchange ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-3 bg-neutral-50 rounded-lg text-sm">
+          <div>
+            <p className="text-xs text-neutral-500">Exchange</p>
+            <p className="text-neutral-900">
+              #{exchange.exchangeId} • {describeExchange(exchange)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-neutral-500">Provider</p>
+            <p className="text-neutral-900">{shortAddress(exchange.provider)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-neutral-500">Scheduled</p>
+            <p className="text-neutral-900">
+              {exchange.hoursRequested}h ending {formatTime(exchange.scheduledEnd)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-neutral-500">Exchange Status</p>
+            <p className="text-neutral-900">
+              {exchange.status}
+              {exchange.requesterConfirmed && ' • requester confirmed'}
+              {exchange.providerConfirmed && ' • provider confirmed'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-warning-700">
+          Exchange #{claim.exchangeId} was not found on-chain
+        </p>
+      )}
+
+      {actions}
+    </div>
+  );
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">
+            Connect Your Wallet
+          </h1>
+          <p className="text-neutral-600 mb-8">
+            Please connect your wallet to access the insurance pool
+          </p>
+          <Link href="/" className="btn-primary">
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <h1 className="text-3xl font-bold text-neutral-900">Insurance Pool</h1>
+        <p className="text-neutral-600 mt-1">
+          Collective cover for failed exchanges, reviewed by underwriters
+        </p>
+      </motion.div>
+
+      <PauseBanner message={pauseMessage} />
+
+      {error && (
+        <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Pool and Contribution */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1, duration: 0.5 }}
+          className="card hover-lift"
+        >
+          <div className="card-body">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-neutral-600">Pool Balance</p>
+                <p className="text-2xl font-bold text-neutral-900">{poolBalance}</p>
+                <p className="text-sm text-neutral-600 mt-1">
+                  You contributed {contributor?.totalContributed || 0}
+                </p>
+              </div>
+              <div className="w-12 h-12 rounded-xl bg-secondary-50 flex items-center justify-center">
+                <BanknotesIcon className="w-6 h-6 text-secondary-700" />
+              </div>
+            </div>
+          </div>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2, duration: 0.5 }}
+          className="card"
+        >
+          <form onSubmit={handleContribute} className="card-body space-y-4">
+            <div>
+              <label className="label">Contribute to Pool</label>
+              <input
+                type="number"
+                value={contributionAmount}
+                onChange={(e) => setContributionAmount(Number(e.target.value))}
+                className="input"
+                min={1}
+                required
+              />
+            </div>
+            <button type="submit" disabled={isLoading || isPaused} className="btn-primary w-full">
+              Contribute
+            </button>
+          </form>
+        </motion.div>
+      </div>
+
+      {/* My Claims */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header flex items-center space-x-2">
+          <DocumentTextIcon className="w-5 h-5 text-neutral-500" />
+          <h2 className="text-lg font-semibold text-neutral-900">My Claims</h2>
+        </div>
+        <div className="card-body">
+          {myClaims.length === 0 ? (
+            <p className="text-center text-neutral-600">
+              No claims yet. File one from a failed exchange on{' '}
+              <Link href="/exchanges" className="underline">
+                My Exchanges
+              </Link>
+              .
+            </p>
+          ) : (
+            <div className="divide-y divide-neutral-100">
+              {myClaims.map((overview) => renderClaim(overview))}
+            </div>
+          )}
+        </div>
+      </motion.div>
+
+      {/* Underwriter Review Queue */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.4, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header flex items-center space-x-2">
+          <ShieldCheckIcon className="w-5 h-5 text-neutral-500" />
+          <h2 className="text-lg font-semibold text-neutral-900">Underwriter Review Queue</h2>
+        </div>
+        <div className="card-body">
+          {/* Underwriter membership isn't readable on-chain; review-claim rejects non-underwriters */}
+          {pendingClaims.length === 0 && approvedClaims.length === 0 ? (
+            <p className="text-center text-neutral-600">
+              {isLoading ? 'Loading claims...' : 'No claims awaiting review'}
+            </p>
+          ) : (
+            <div className="divide-y divide-neutral-100">
+              {pendingClaims.map((overview) =>
+                renderClaim(
+                  overview,
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleResult(reviewClaim(overview.claim.claimId, true), 'Approval')}
+                      disabled={isLoading || isPaused}
+                      className="btn-primary flex items-center space-x-1"
+                    >
+                      <CheckCircleIcon className="w-4 h-4" />
+                      <span>Approve</span>
+                    </button>
+                    <button
+                      onClick={() => handleResult(reviewClaim(overview.claim.claimId, false), 'Denial')}
+                      disabled={isLoading || isPaused}
+                      className="btn-outline flex items-center space-x-1"
+                    >
+                      <XCircleIcon className="w-4 h-4" />
+                      <span>Deny</span>
+                    </button>
+                  </div>
+                )
+              )}
+              {approvedClaims.map((overview) =>
+                renderClaim(
+                  overview,
+                  <button
+                    onClick={() => handleResult(payClaim(overview.claim.claimId), 'Payout')}
+                    disabled={isLoading || isPaused || overview.claim.amount > poolBalance}
+                    className="btn-primary"
+                  >
+                    Pay Claim
+                  </button>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Insurance;
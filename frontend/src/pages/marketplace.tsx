@@ -1,175 +1,98 @@
-import React, { useState, useEffect } from 'react';
-import { motion } from 'framer-motion';
+// Marketplace Page - Skill Matching Engine Contract Integration
+// Clarity 4 per-skill demand/supply order book with stacks-block-time match proposals
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
 import {
   MagnifyingGlassIcon,
-  AdjustmentsHorizontalIcon,
-  ClockIcon,
-  StarIcon,
-  UserIcon,
-  CheckBadgeIcon,
-  MapPinIcon,
-  FunnelIcon,
-  CalendarIcon,
-  ChartBarIcon,
+  PlusIcon,
+  ArrowsRightLeftIcon,
+  CheckCircleIcon,
+  XMarkIcon,
 } from '@heroicons/react/24/outline';
-import { UserProfile, SearchFilters, FilterOptions } from '@/types';
-import { useApp } from '@/contexts/AppContext';
 import { useWallet } from '@/contexts/WalletContext';
-import { formatPrincipal } from '@/lib/stacks';
-
-const Marketplace: React.FC = () => {
-  const { state } = useApp();
-  const { isConnected } = useWallet();
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState<FilterOptions>({});
-  const [sortBy, setSortBy] = useState<'recent' | 'rating' | 'hours' | 'reputation'>('recent');
-  const [showFilters, setShowFilters] = useState(false);
-  const [providers, setProviders] = useState<UserProfile[]>([]);
-  const [loading, setLoading] = useState(true);
+import { useSkillMatchingEngine } from '@/hooks/useSkillMatchingEngine';
+import { useNetwork } from '@/hooks/useNetwork';
+import { useEvents } from '@/hooks/useEvents';
+import { createHiroApiClient } from '@/lib/hiro-api-client';
+import type { TimeBankEventType } from '@/lib/event-decoder';
+import { getNetworkType, formatPrincipal } from '@/lib/stacks';
+import { getContractIdentifier } from '@/lib/contractConfig';
+import { buildOrderBooks } from '@/lib/contracts/skillMatchingEngine';
+import PauseBanner from '@/components/PauseBanner';
 
-  const skillCategories = [
-    'Web Development',
-    'Graphic Design',
-    'Writing',
-    'Marketing',
-    'Programming',
-    'Photography',
-    'Teaching',
-    'Consulting',
-    'Data Analysis',
-    'Translation',
-  ];
+const ORDER_EVENT_TYPES: TimeBankEventType[] = ['demand-created', 'supply-created'];
 
-  const availabilityOptions = [
-    { value: 'available', label: 'Available Now' },
-    { value: 'busy', label: 'Busy This Week' },
-    { value: 'offline', label: 'Offline' },
-  ];
-
-  useEffect(() => {
-    // Simulate loading providers data
-    const loadProviders = async () => {
-      setLoading(true);
-      
-      // Mock data - in a real app, this would come from the blockchain
-      const mockProviders: UserProfile[] = [
-        {
-          principal: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
-          displayName: 'Alice Johnson',
-          bio: 'Full-stack developer with 5+ years experience in React and Node.js',
-          avatar: 'https://api.dicebear.com/7.x/avatars/svg?seed=alice',
-          skills: [
-            { skill: 'Web Development', verified: true, verifiedBy: 'expert1', rating: 5 },
-            { skill: 'React', verified: true, verifiedBy: 'expert2', rating: 4 },
-          ],
-          user: {
-            principal: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
-            joinedAt: Date.now() - 2592000000,
-            totalHoursGiven: 45,
-            totalHoursReceived: 38,
-            reputationScore: 94,
-            isActive: true,
-            timeBalance: 15,
-          },
-        },
-        {
-          principal: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
-          displayName: 'Bob Smith',
-          bio: 'Creative designer specializing in brand identity and user experience',
-          avatar: 'https://api.dicebear.com/7.x/avatars/svg?seed=bob',
-          skills: [
-            { skill: 'Graphic Design', verified: true, verifiedBy: 'expert3', rating: 5 },
-            { skill: 'Photography', verified: false, rating: 3 },
-          ],
-          user: {
-            principal: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
-            joinedAt: Date.now() - 1296000000,
-            totalHoursGiven: 32,
-            totalHoursReceived: 28,
-            reputationScore: 87,
-            isActive: true,
-            timeBalance: 8,
-          },
-        },
-        {
-          principal: 'ST3A5HQKQM3T3BV1MCZ45S6Q729V8355BQ0W0NP2V',
-          displayName: 'Carol Davis',
-          bio: 'Technical writer and content strategist with expertise in blockchain',
-          avatar: 'https://api.dicebear.com/7.x/avatars/svg?seed=carol',
-          skills: [
-            { skill: 'Writing', verified: true, verifiedBy: 'expert4', rating: 5 },
-            { skill: 'Marketing', verified: true, verifiedBy: 'expert5', rating: 4 },
-          ],
-          user: {
-            principal: 'ST3A5HQKQM3T3BV1MCZ45S6Q729V8355BQ0W0NP2V',
-            joinedAt: Date.now() - 3888000000,
-            totalHoursGiven: 67,
-            totalHoursReceived: 52,
-            reputationScore: 96,
-            isActive: true,
-            timeBalance: 22,
-          },
-        },
-      ];
+type OrderSide = 'demand' | 'supply';
 
-      // Filter providers based on search and filters
-      let filteredProviders = mockProviders;
-
-      if (searchQuery) {
-        filteredProviders = filteredProviders.filter(provider =>
-          provider.displayName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          provider.bio?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          provider.skills.some(skill => skill.skill.toLowerCase().includes(searchQuery.toLowerCase()))
-        );
-      }
-
-      if (filters.skill) {
-        filteredProviders = filteredProviders.filter(provider =>
-          provider.skills.some(skill => skill.skill === filters.skill)
-        );
-      }
-
-      if (filters.minRating) {
-        filteredProviders = filteredProviders.filter(provider =>
-          provider.user.reputationScore >= filters.minRating!
-        );
-      }
+const Marketplace: React.FC = () => {
+  const { isConnected, address } = useWallet();
+  const {
+    proposals,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadProposals,
+    createDemand,
+    createSupply,
+    proposeMatch,
+    acceptMatch,
+  } = useSkillMatchingEngine(address);
+  const { client } = useNetwork({ network: getNetworkType(), autoRefresh: false });
+  const apiClient = useMemo(() => createHiroApiClient(client), [client]);
+  const { events, isLoading: isLoadingOrders, refresh: refreshOrders } = useEvents(
+    getContractIdentifier('skillMatchingEngine'),
+    apiClient,
+    { eventTypes: ORDER_EVENT_TYPES }
+  );
 
-      // Sort providers
-      filteredProviders.sort((a, b) => {
-        switch (sortBy) {
-          case 'rating':
-            return b.user.reputationScore - a.user.reputationScore;
-          case 'hours':
-            return b.user.totalHoursGiven - a.user.totalHoursGiven;
-          case 'reputation':
-            return b.user.reputationScore - a.user.reputationScore;
-          case 'recent':
-          default:
-            return b.user.joinedAt - a.user.joinedAt;
-        }
-      });
+  const [skillQuery, setSkillQuery] = useState('');
+  const [orderSide, setOrderSide] = useState<OrderSide | null>(null);
+  const [skillId, setSkillId] = useState(1);
+  const [hours, setHours] = useState(1);
+  const [rate, setRate] = useState(1);
 
-      setProviders(filteredProviders);
-      setLoading(false);
-    };
+  useEffect(() => {
+    if (isConnected && address) {
+      loadProposals();
+    }
+  }, [isConnected, address]);
 
-    loadProviders();
-  }, [searchQuery, filters, sortBy]);
+  const orderBooks = useMemo(() => buildOrderBooks(events), [events]);
+  const visibleBooks = skillQuery
+    ? orderBooks.filter((book) => String(book.skillId) === skillQuery.trim())
+    : orderBooks;
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    // Search is handled in useEffect
+  const handleResult = async (
+    action: Promise<{ success: boolean; txId?: string; error?: string }>,
+    label: string
+  ) => {
+    const result = await action;
+    if (result.success) {
+      alert(`${label} submitted! TX: ${result.txId}`);
+      refreshOrders();
+      loadProposals();
+    } else {
+      alert(`${label} failed: ${result.error}`);
+    }
+    return result.success;
   };
 
-  const clearFilters = () => {
-    setFilters({});
-    setSearchQuery('');
-    setSortBy('recent');
+  const openOrderModal = (side: OrderSide, forSkill?: number) => {
+    setOrderSide(side);
+    setSkillId(forSkill ?? 1);
+    setHours(1);
+    setRate(1);
   };
 
-  const getAvatarUrl = (seed: string) => {
-    return `https://api.dicebear.com/7.x/avatars/svg?seed=${seed}`;
+  const handlePostOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const submitted =
+      orderSide === 'demand'
+        ? await handleResult(createDemand(skillId, hours, rate), 'Demand')
+        : await handleResult(createSupply(skillId, hours, rate), 'Supply');
+    if (submitted) setOrderSide(null);
   };
 
   return (
@@ -184,287 +107,351 @@ const Marketplace: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold text-neutral-900">Marketplace</h1>
           <p className="text-neutral-600 mt-1">
-            Discover skilled professionals and find the expertise you need
+            Post what you need or offer, and match where rates overlap
           </p>
         </div>
         <div className="flex items-center space-x-2 mt-4 md:mt-0">
-          <span className="text-sm text-neutral-500">
-            {providers.length} provider{providers.length !== 1 ? 's' : ''} available
-          </span>
+          <button
+            onClick={() => openOrderModal('demand')}
+            disabled={!isConnected || isPaused}
+            className="btn-outline flex items-center space-x-2"
+          >
+            <PlusIcon className="w-4 h-4" />
+            <span>Post Demand</span>
+          </button>
+          <button
+            onClick={() => openOrderModal('supply')}
+            disabled={!isConnected || isPaused}
+            className="btn-primary flex items-center space-x-2"
+          >
+            <PlusIcon className="w-4 h-4" />
+            <span>Post Supply</span>
+          </button>
         </div>
       </motion.div>
 
-      {/* Search and Filters */}
+      <PauseBanner message={pauseMessage} />
+
+      {error && (
+        <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Skill Search */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.1, duration: 0.5 }}
         className="card"
       >
-        <div className="card-body">
-          <div className="flex flex-col lg:flex-row lg:items-center space-y-4 lg:space-y-0 lg:space-x-4">
-            {/* Search Bar */}
-            <form onSubmit={handleSearch} className="flex-1">
-              <div className="relative">
-                <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-neutral-400" />
-                <input
-                  type="text"
-                  placeholder="Search skills, names, or expertise..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="input pl-10 w-full"
-                />
-              </div>
-            </form>
-
-            {/* Sort */}
-            <div className="flex items-center space-x-2">
-              <label className="text-sm font-medium text-neutral-700">Sort by:</label>
-              <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as any)}
-                className="input w-auto"
-              >
-                <option value="recent">Recent</option>
-                <option value="rating">Rating</option>
-                <option value="hours">Hours Given</option>
-                <option value="reputation">Reputation</option>
-              </select>
-            </div>
-
-            {/* Filter Toggle */}
-            <button
-              onClick={() => setShowFilters(!showFilters)}
-              className="btn-outline flex items-center space-x-2"
-            >
-              <FunnelIcon className="w-4 h-4" />
-              <span>Filters</span>
-            </button>
+        <div className="card-body flex items-center justify-between space-x-4">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-neutral-400" />
+            <input
+              type="number"
+              placeholder="Filter by skill ID..."
+              value={skillQuery}
+              onChange={(e) => setSkillQuery(e.target.value)}
+              className="input pl-10 w-full"
+              min={1}
+            />
           </div>
+          <span className="text-sm text-neutral-500">
+            {visibleBooks.length} skill{visibleBooks.length !== 1 ? 's' : ''} with open orders
+          </span>
+        </div>
+      </motion.div>
 
-          {/* Filters Panel */}
-          {showFilters && (
-            <motion.div
-              initial={{ opacity: 0, height: 0 }}
-              animate={{ opacity: 1, height: 'auto' }}
-              exit={{ opacity: 0, height: 0 }}
-              transition={{ duration: 0.3 }}
-              className="mt-6 pt-6 border-t border-neutral-200"
-            >
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {/* Skill Filter */}
-                <div>
-                  <label className="label">Skill Category</label>
-                  <select
-                    value={filters.skill || ''}
-                    onChange={(e) => setFilters({ ...filters, skill: e.target.value || undefined })}
-                    className="input"
-                  >
-                    <option value="">All Skills</option>
-                    {skillCategories.map(category => (
-                      <option key={category} value={category}>{category}</option>
-                    ))}
-                  </select>
-                </div>
-
-                {/* Rating Filter */}
+      {/* My Match Proposals */}
+      {isConnected && proposals.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15, duration: 0.5 }}
+          className="card"
+        >
+          <div className="card-header">
+            <h2 className="text-lg font-semibold text-neutral-900">My Match Proposals</h2>
+          </div>
+          <div className="card-body divide-y divide-neutral-100">
+            {proposals.map((proposal) => (
+              <div key={proposal.matchId} className="flex items-center justify-between py-3">
                 <div>
-                  <label className="label">Minimum Rating</label>
-                  <select
-                    value={filters.minRating || ''}
-                    onChange={(e) => setFilters({ ...filters, minRating: e.target.value ? Number(e.target.value) : undefined })}
-                    className="input"
-                  >
-                    <option value="">Any Rating</option>
-                    <option value="90">90+ (Excellent)</option>
-                    <option value="80">80+ (Great)</option>
-                    <option value="70">70+ (Good)</option>
-                    <option value="60">60+ (Fair)</option>
-                  </select>
+                  <p className="font-medium text-neutral-900">
+                    #{proposal.matchId} • Skill #{proposal.skillId} • {proposal.hours} hrs @{' '}
+                    {proposal.rate} credits/hr
+                  </p>
+                  <p className="text-sm text-neutral-600">
+                    {proposal.requester === address
+                      ? `Provider ${formatPrincipal(proposal.provider)}`
+                      : `Requester ${formatPrincipal(proposal.requester)}`}
+                  </p>
                 </div>
-
-                {/* Hours Filter */}
-                <div>
-                  <label className="label">Maximum Hours</label>
-                  <select
-                    value={filters.maxHours || ''}
-                    onChange={(e) => setFilters({ ...filters, maxHours: e.target.value ? Number(e.target.value) : undefined })}
-                    className="input"
+                {proposal.accepted ? (
+                  <span className="badge badge-success flex items-center space-x-1">
+                    <CheckCircleIcon className="w-3 h-3" />
+                    <span>Accepted</span>
+                  </span>
+                ) : proposal.requester === address ? (
+                  <button
+                    onClick={() => handleResult(acceptMatch(proposal.matchId), 'Match acceptance')}
+                    disabled={isLoading || isPaused}
+                    className="btn-primary btn-sm"
                   >
-                    <option value="">Any Duration</option>
-                    <option value="1">1 hour</option>
-                    <option value="2">2 hours</option>
-                    <option value="4">4 hours</option>
-                    <option value="8">8 hours</option>
-                  </select>
-                </div>
+                    Accept
+                  </button>
+                ) : (
+                  <span className="badge badge-warning">Awaiting requester</span>
+                )}
               </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
 
-              <div className="flex items-center justify-between mt-4">
-                <button
-                  onClick={clearFilters}
-                  className="btn-ghost text-sm"
-                >
-                  Clear all filters
-                </button>
-                <button
-                  onClick={() => setShowFilters(false)}
-                  className="btn-primary btn-sm"
-                >
-                  Apply Filters
-                </button>
-              </div>
-            </motion.div>
+      {/* Order Books */}
+      {visibleBooks.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2, duration: 0.5 }}
+          className="text-center py-12"
+        >
+          <MagnifyingGlassIcon className="w-12 h-12 text-neutral-300 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-neutral-900 mb-2">
+            {isLoadingOrders ? 'Loading order books...' : 'No open orders'}
+          </h3>
+          {!isLoadingOrders && (
+            <p className="text-neutral-600">
+              Post demand or supply for a skill to start its order book
+            </p>
           )}
-        </div>
-      </motion.div>
+        </motion.div>
+      ) : (
+        <div className="space-y-6">
+          {visibleBooks.map((book, index) => {
+            const matchedRequesters = new Set(book.matches.map((m) => m.demand.requester));
+            const matchedProviders = new Set(book.matches.map((m) => m.supply.provider));
 
-      {/* Providers Grid */}
-      {loading ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {[...Array(6)].map((_, index) => (
-            <div key={index} className="card">
-              <div className="card-body animate-pulse">
-                <div className="flex items-center space-x-3 mb-4">
-                  <div className="w-12 h-12 bg-neutral-200 rounded-full"></div>
-                  <div className="flex-1">
-                    <div className="h-4 bg-neutral-200 rounded w-3/4 mb-2"></div>
-                    <div className="h-3 bg-neutral-200 rounded w-1/2"></div>
-                  </div>
-                </div>
-                <div className="space-y-2">
-                  <div className="h-3 bg-neutral-200 rounded"></div>
-                  <div className="h-3 bg-neutral-200 rounded w-5/6"></div>
+            return (
+              <motion.div
+                key={book.skillId}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05, duration: 0.5 }}
+                className="card"
+              >
+                <div className="card-header flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-neutral-900">Skill #{book.skillId}</h2>
+                  <span
+                    className={`badge ${book.matches.length > 0 ? 'badge-success' : 'badge-neutral'}`}
+                  >
+                    {book.matches.length} overlap{book.matches.length !== 1 ? 's' : ''}
+                  </span>
                 </div>
-              </div>
-            </div>
-          ))}
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {providers.map((provider, index) => (
-            <motion.div
-              key={provider.principal}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.1, duration: 0.5 }}
-              className="card hover-lift"
-            >
-              <div className="card-body">
-                {/* Header */}
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-12 h-12 rounded-full bg-gradient-to-br from-primary-500 to-secondary-500 flex items-center justify-center overflow-hidden">
-                      {provider.avatar ? (
-                        <img
-                          src={provider.avatar}
-                          alt={provider.displayName}
-                          className="w-full h-full object-cover"
-                        />
+                <div className="card-body space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {/* Demand */}
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-medium text-neutral-900">Demand</h3>
+                        <button
+                          onClick={() => openOrderModal('demand', book.skillId)}
+                          disabled={!isConnected || isPaused}
+                          className="btn-ghost btn-sm"
+                        >
+                          + Post
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-3 text-xs font-medium text-neutral-500 pb-1">
+                        <span>Requester</span>
+                        <span className="text-right">Hours</span>
+                        <span className="text-right">Max rate</span>
+                      </div>
+                      {book.demands.length === 0 ? (
+                        <p className="text-sm text-neutral-500 py-2">No demand</p>
                       ) : (
-                        <UserIcon className="w-6 h-6 text-white" />
+                        book.demands.map((demand) => (
+                          <div
+                            key={demand.requester}
+                            className={`grid grid-cols-3 text-sm py-1 px-1 rounded ${
+                              matchedRequesters.has(demand.requester) ? 'bg-secondary-50' : ''
+                            }`}
+                          >
+                            <span className="text-neutral-700">
+                              {demand.requester === address ? 'You' : formatPrincipal(demand.requester)}
+                            </span>
+                            <span className="text-right">{demand.hoursNeeded}</span>
+                            <span className="text-right font-medium">{demand.maxRate}</span>
+                          </div>
+                        ))
                       )}
                     </div>
+
+                    {/* Supply */}
                     <div>
-                      <h3 className="font-semibold text-neutral-900 flex items-center space-x-1">
-                        <span>{provider.displayName}</span>
-                        {provider.skills.some(skill => skill.verified) && (
-                          <CheckBadgeIcon className="w-4 h-4 text-primary-500" />
-                        )}
-                      </h3>
-                      <p className="text-sm text-neutral-500">
-                        {formatPrincipal(provider.principal)}
-                      </p>
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-medium text-neutral-900">Supply</h3>
+                        <button
+                          onClick={() => openOrderModal('supply', book.skillId)}
+                          disabled={!isConnected || isPaused}
+                          className="btn-ghost btn-sm"
+                        >
+                          + Post
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-3 text-xs font-medium text-neutral-500 pb-1">
+                        <span>Provider</span>
+                        <span className="text-right">Hours</span>
+                        <span className="text-right">Min rate</span>
+                      </div>
+                      {book.supplies.length === 0 ? (
+                        <p className="text-sm text-neutral-500 py-2">No supply</p>
+                      ) : (
+                        book.supplies.map((supply) => (
+                          <div
+                            key={supply.provider}
+                            className={`grid grid-cols-3 text-sm py-1 px-1 rounded ${
+                              matchedProviders.has(supply.provider) ? 'bg-secondary-50' : ''
+                            }`}
+                          >
+                            <span className="text-neutral-700">
+                              {supply.provider === address ? 'You' : formatPrincipal(supply.provider)}
+                            </span>
+                            <span className="text-right">{supply.hoursAvailable}</span>
+                            <span className="text-right font-medium">{supply.minRate}</span>
+                          </div>
+                        ))
+                      )}
                     </div>
                   </div>
-                  <div className="flex items-center space-x-1">
-                    <StarIcon className="w-4 h-4 text-warning-500 fill-current" />
-                    <span className="text-sm font-medium text-neutral-700">
-                      {provider.user.reputationScore}
-                    </span>
-                  </div>
+
+                  {/* Overlaps */}
+                  {book.matches.length > 0 && (
+                    <div className="border-t border-neutral-200 pt-4 space-y-2">
+                      <h3 className="font-medium text-neutral-900">Overlapping Orders</h3>
+                      {book.matches.map((candidate) => (
+                        <div
+                          key={`${candidate.demand.requester}:${candidate.supply.provider}`}
+                          className="flex items-center justify-between p-3 rounded-lg border border-neutral-200"
+                        >
+                          <div className="flex items-center space-x-2 text-sm text-neutral-700">
+                            <span>{formatPrincipal(candidate.demand.requester)}</span>
+                            <ArrowsRightLeftIcon className="w-4 h-4 text-neutral-400" />
+                            <span>{formatPrincipal(candidate.supply.provider)}</span>
+                            <span className="text-neutral-500">
+                              • {candidate.hours} hrs @ {candidate.rate} credits/hr (range{' '}
+                              {candidate.supply.minRate}–{candidate.demand.maxRate})
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => handleResult(proposeMatch(candidate), 'Match proposal')}
+                            disabled={!isConnected || isLoading || isPaused}
+                            className="btn-outline btn-sm"
+                          >
+                            Propose Match
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
 
-                {/* Bio */}
-                <p className="text-neutral-600 text-sm mb-4 line-clamp-3">
-                  {provider.bio}
-                </p>
+      {/* Post Order Modal */}
+      <AnimatePresence>
+        {orderSide && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+            onClick={() => setOrderSide(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              className="bg-white rounded-2xl shadow-2xl max-w-md w-full mx-4 p-6"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-neutral-900">
+                  {orderSide === 'demand' ? 'Post Demand' : 'Post Supply'}
+                </h2>
+                <button
+                  onClick={() => setOrderSide(null)}
+                  className="p-2 text-neutral-400 hover:text-neutral-600 transition-colors"
+                >
+                  <XMarkIcon className="w-6 h-6" />
+                </button>
+              </div>
 
-                {/* Skills */}
-                <div className="flex flex-wrap gap-2 mb-4">
-                  {provider.skills.slice(0, 3).map((skill, skillIndex) => (
-                    <span
-                      key={skillIndex}
-                      className={`badge ${skill.verified ? 'badge-primary' : 'badge-neutral'} text-xs`}
-                    >
-                      {skill.skill}
-                      {skill.verified && (
-                        <CheckBadgeIcon className="w-3 h-3 ml-1" />
-                      )}
-                    </span>
-                  ))}
-                  {provider.skills.length > 3 && (
-                    <span className="badge badge-neutral text-xs">
-                      +{provider.skills.length - 3} more
-                    </span>
-                  )}
+              <form onSubmit={handlePostOrder} className="space-y-4">
+                <div>
+                  <label className="label">Skill ID</label>
+                  <input
+                    type="number"
+                    value={skillId}
+                    onChange={(e) => setSkillId(Number(e.target.value))}
+                    className="input"
+                    min={1}
+                    required
+                  />
                 </div>
 
-                {/* Stats */}
-                <div className="flex items-center justify-between text-sm text-neutral-600 mb-4">
-                  <div className="flex items-center space-x-1">
-                    <ClockIcon className="w-4 h-4" />
-                    <span>{provider.user.totalHoursGiven} hrs given</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <CalendarIcon className="w-4 h-4" />
-                    <span>
-                      {Math.floor((Date.now() - provider.user.joinedAt) / 86400000)} days
-                    </span>
-                  </div>
+                <div>
+                  <label className="label">
+                    {orderSide === 'demand' ? 'Hours Needed' : 'Hours Available'}
+                  </label>
+                  <input
+                    type="number"
+                    value={hours}
+                    onChange={(e) => setHours(Number(e.target.value))}
+                    className="input"
+                    min={0}
+                    required
+                  />
+                  <p className="text-xs text-neutral-500 mt-1">
+                    Posting again replaces your order for this skill; 0 hours withdraws it
+                  </p>
+                </div>
+
+                <div>
+                  <label className="label">
+                    {orderSide === 'demand' ? 'Max Rate' : 'Min Rate'} (credits/hr)
+                  </label>
+                  <input
+                    type="number"
+                    value={rate}
+                    onChange={(e) => setRate(Number(e.target.value))}
+                    className="input"
+                    min={0}
+                    required
+                  />
                 </div>
 
-                {/* Actions */}
-                <div className="flex items-center space-x-2">
+                <div className="flex items-center space-x-3 pt-4">
                   <button
-                    className="btn-primary flex-1"
-                    disabled={!isConnected}
+                    type="button"
+                    onClick={() => setOrderSide(null)}
+                    className="btn-outline flex-1"
                   >
-                    Request Service
+                    Cancel
                   </button>
-                  <button className="btn-outline flex items-center justify-center w-10 h-10">
-                    <ChartBarIcon className="w-4 h-4" />
+                  <button type="submit" disabled={isLoading || isPaused} className="btn-primary flex-1">
+                    {isLoading ? 'Submitting...' : 'Post Order'}
                   </button>
                 </div>
-              </div>
+              </form>
             </motion.div>
-          ))}
-        </div>
-      )}
-
-      {/* Empty State */}
-      {!loading && providers.length === 0 && (
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2, duration: 0.5 }}
-          className="text-center py-12"
-        >
-          <MagnifyingGlassIcon className="w-12 h-12 text-neutral-300 mx-auto mb-4" />
-          <h3 className="text-lg font-semibold text-neutral-900 mb-2">
-            No providers found
-          </h3>
-          <p className="text-neutral-600 mb-4">
-            Try adjusting your search criteria or clearing filters
-          </p>
-          <button
-            onClick={clearFilters}
-            className="btn-primary"
-          >
-            Clear Filters
-          </button>
-        </motion.div>
-      )}
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 };
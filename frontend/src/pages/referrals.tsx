@@ -0,0 +1,265 @@
+// Referrals Page - Referral Program Contract Integration
+// Clarity 4 with stacks-block-time referral tracking
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ClipboardDocumentIcon,
+  GiftIcon,
+  LinkIcon,
+  UserPlusIcon,
+} from '@heroicons/react/24/outline';
+import { useWallet } from '@/contexts/WalletContext';
+import { useReferralProgram } from '@/hooks/useReferralProgram';
+import { useNetwork } from '@/hooks/useNetwork';
+import { useEvents } from '@/hooks/useEvents';
+import { createHiroApiClient } from '@/lib/hiro-api-client';
+import type { TimeBankEventType } from '@/lib/event-decoder';
+import { getNetworkType } from '@/lib/stacks';
+import { CONTRACT_CONSTANTS, getContractIdentifier } from '@/lib/contractConfig';
+import { buildReferralLink, getReferralsFromEvents } from '@/lib/contracts/referralProgram';
+import PauseBanner from '@/components/PauseBanner';
+import Link from 'next/link';
+
+const REFERRAL_EVENT_TYPES: TimeBankEventType[] = ['referral-used'];
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const Referrals: React.FC = () => {
+  const { isConnected, address } = useWallet();
+  const {
+    referralData,
+    ownCode,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadReferralData,
+    generateCode,
+  } = useReferralProgram(address);
+  const { client } = useNetwork({ network: getNetworkType(), autoRefresh: false });
+  const apiClient = useMemo(() => createHiroApiClient(client), [client]);
+  const { events, isLoading: isLoadingEvents } = useEvents(
+    isConnected ? getContractIdentifier('referralProgram') : null,
+    apiClient,
+    { eventTypes: REFERRAL_EVENT_TYPES, autoRefresh: false }
+  );
+
+  const [code, setCode] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (isConnected && address) {
+      loadReferralData();
+    }
+  }, [isConnected, address]);
+
+  const referrals = useMemo(
+    () => (address ? getReferralsFromEvents(events, address) : []),
+    [events, address]
+  );
+
+  const referralLink =
+    ownCode && typeof window !== 'undefined'
+      ? buildReferralLink(ownCode, window.location.origin)
+      : null;
+
+  const handleGenerateCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await generateCode(code);
+    if (result.success) {
+      alert(`Referral code submitted! TX: ${result.txId}`);
+      setCode('');
+      loadReferralData();
+    } else {
+      alert(`Failed to generate code: ${result.error}`);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!referralLink) return;
+    await navigator.clipboard.writeText(referralLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">
+            Connect Your Wallet
+          </h1>
+          <p className="text-neutral-600 mb-8">
+            Please connect your wallet to manage your referrals
+          </p>
+          <Link href="/" className="btn-primary">
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <h1 className="text-3xl font-bold text-neutral-900">Referrals</h1>
+        <p className="text-neutral-600 mt-1">
+          Invite friends and earn {CONTRACT_CONSTANTS.referralProgram.referrerReward} credits for
+          each one who joins with your code
+        </p>
+      </motion.div>
+
+      <PauseBanner message={pauseMessage} />
+
+      {error && (
+        <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1, duration: 0.5 }}
+          className="card"
+        >
+          <div className="card-body flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-neutral-600">Friends Referred</p>
+              <p className="text-2xl font-bold text-neutral-900">
+                {referralData?.totalReferrals || 0}
+              </p>
+            </div>
+            <UserPlusIcon className="w-8 h-8 text-primary-500" />
+          </div>
+        </motion.div>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15, duration: 0.5 }}
+          className="card"
+        >
+          <div className="card-body flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-neutral-600">Rewards Earned</p>
+              <p className="text-2xl font-bold text-neutral-900">
+                {referralData?.totalRewards || 0} credits
+              </p>
+            </div>
+            <GiftIcon className="w-8 h-8 text-secondary-500" />
+          </div>
+        </motion.div>
+      </div>
+
+      {/* Referral Code */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header flex items-center space-x-2">
+          <LinkIcon className="w-5 h-5 text-neutral-500" />
+          <h2 className="text-lg font-semibold text-neutral-900">Your Referral Link</h2>
+        </div>
+        <div className="card-body space-y-4">
+          {ownCode && referralLink ? (
+            <>
+              <p className="text-sm text-neutral-600">
+                Code <span className="font-mono font-semibold text-neutral-900">{ownCode}</span>
+              </p>
+              <div className="flex items-center space-x-3">
+                <input type="text" value={referralLink} readOnly className="input flex-1" />
+                <button
+                  onClick={handleCopyLink}
+                  className="btn-outline flex items-center space-x-1"
+                >
+                  <ClipboardDocumentIcon className="w-4 h-4" />
+                  <span>{copied ? 'Copied' : 'Copy'}</span>
+                </button>
+              </div>
+            </>
+          ) : (
+            <form onSubmit={handleGenerateCode} className="space-y-3">
+              {referralData?.referrer && (
+                <div className="alert alert-info text-sm">
+                  You joined with code {referralData.referralCode} from{' '}
+                  {shortAddress(referralData.referrer)}. Creating your own code replaces that
+                  record.
+                </div>
+              )}
+              <div className="flex items-end space-x-3">
+                <div className="flex-1">
+                  <label className="label">Choose a Code</label>
+                  <input
+                    type="text"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="input"
+                    placeholder="e.g., alice-teaches"
+                    maxLength={CONTRACT_CONSTANTS.referralProgram.maxCodeLength}
+                    pattern="[A-Za-z0-9_\-]+"
+                    required
+                  />
+                </div>
+                <button type="submit" disabled={isLoading || isPaused} className="btn-primary">
+                  {isLoading ? 'Submitting...' : 'Generate Code'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </motion.div>
+
+      {/* Referrals */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header">
+          <h2 className="text-lg font-semibold text-neutral-900">People You Referred</h2>
+        </div>
+        <div className="card-body">
+          {referrals.length === 0 ? (
+            <p className="text-center text-neutral-600">
+              {isLoadingEvents ? 'Loading referrals...' : 'No one has used your code yet'}
+            </p>
+          ) : (
+            <div className="divide-y divide-neutral-100">
+              {referrals.map((referral) => (
+                <div
+                  key={referral.txId || referral.referee}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <p className="font-medium text-neutral-900">
+                      {shortAddress(referral.referee)}
+                    </p>
+                    <p className="text-sm text-neutral-600">
+                      Used {referral.code}
+                      {referral.timestamp
+                        ? ` • ${new Date(referral.timestamp * 1000).toLocaleDateString()}`
+                        : ''}
+                    </p>
+                  </div>
+                  <span className="badge badge-success">+{referral.referrerReward} credits</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Referrals;
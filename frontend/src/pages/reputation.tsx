@@ -9,24 +9,27 @@ import {
   TrophyIcon,
   ChartBarIcon,
   HeartIcon,
-  FlagIcon,
 } from '@heroicons/react/24/outline';
 import { useWallet } from '@/contexts/WalletContext';
 import { useReputation } from '@/hooks/useContracts';
+import PauseBanner from '@/components/PauseBanner';
+import { ReputationStats, UserReputation } from '@/types/contracts';
 import Link from 'next/link';
 
 const Reputation: React.FC = () => {
   const { isConnected, address } = useWallet();
   const {
     isLoading,
-    error,
+    userFriendlyError,
     endorseUser,
     loadUserReputation,
     loadReputationStats,
+    isPaused,
+    pauseMessage,
   } = useReputation();
 
-  const [userReputation, setUserReputation] = useState<any>(null);
-  const [reputationStats, setReputationStats] = useState<any>(null);
+  const [userReputation, setUserReputation] = useState<UserReputation | null>(null);
+  const [reputationStats, setReputationStats] = useState<ReputationStats | null>(null);
   const [endorsedUser, setEndorsedUser] = useState('');
   const [category, setCategory] = useState('');
   const [message, setMessage] = useState('');
@@ -116,6 +119,8 @@ const Reputation: React.FC = () => {
         </p>
       </motion.div>
 
+      <PauseBanner message={pauseMessage} />
+
       {/* User Reputation Card */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -156,7 +161,7 @@ const Reputation: React.FC = () => {
               <div>
                 <p className="text-sm font-medium text-neutral-600">Endorsements</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {userReputation?.positiveEndorsements || 0}
+                  {userReputation?.endorsementCount || 0}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-secondary-50 flex items-center justify-center">
@@ -175,9 +180,9 @@ const Reputation: React.FC = () => {
           <div className="card-body">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-neutral-600">Completed</p>
+                <p className="text-sm font-medium text-neutral-600">Completion Bonus</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {userReputation?.completedExchanges || 0}
+                  {userReputation?.completionBonus || 0}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-primary-50 flex items-center justify-center">
@@ -196,9 +201,9 @@ const Reputation: React.FC = () => {
           <div className="card-body">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-neutral-600">Avg Rating</p>
+                <p className="text-sm font-medium text-neutral-600">Rating Score</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {userReputation?.averageRating || 0}/5
+                  {userReputation?.ratingScore || 0}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-accent-50 flex items-center justify-center">
@@ -217,13 +222,13 @@ const Reputation: React.FC = () => {
           <div className="card-body">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-neutral-600">Flags</p>
+                <p className="text-sm font-medium text-neutral-600">Tier</p>
                 <p className="text-2xl font-bold text-neutral-900">
-                  {userReputation?.negativeFlags || 0}
+                  {userReputation?.tier || 0}
                 </p>
               </div>
               <div className="w-12 h-12 rounded-xl bg-warning-50 flex items-center justify-center">
-                <FlagIcon className="w-6 h-6 text-warning-700" />
+                <TrophyIcon className="w-6 h-6 text-warning-700" />
               </div>
             </div>
           </div>
@@ -285,16 +290,16 @@ const Reputation: React.FC = () => {
 
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || isPaused}
               className="btn-primary w-full"
             >
               {isLoading ? 'Endorsing...' : 'Endorse User'}
             </button>
           </form>
 
-          {error && (
+          {userFriendlyError && (
             <div className="mt-4 p-3 bg-error-50 text-error-700 rounded-lg text-sm">
-              {error}
+              {userFriendlyError}
             </div>
           )}
         </div>
@@ -326,9 +331,9 @@ const Reputation: React.FC = () => {
             </div>
             <div className="text-center">
               <p className="text-3xl font-bold text-accent-600">
-                {reputationStats?.averageReputationScore || 0}
+                {reputationStats?.baseReputationScore || 0}
               </p>
-              <p className="text-sm text-neutral-600 mt-1">Average Reputation</p>
+              <p className="text-sm text-neutral-600 mt-1">Starting Reputation</p>
             </div>
           </div>
         </div>
@@ -13,6 +13,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { useWallet } from '@/contexts/WalletContext';
 import { useRewards } from '@/hooks/useContracts';
+import PauseBanner from '@/components/PauseBanner';
 import Link from 'next/link';
 
 const Rewards: React.FC = () => {
@@ -25,6 +26,8 @@ const Rewards: React.FC = () => {
     loadPeriodInfo,
     loadUserReward,
     loadRewardsStats,
+    isPaused,
+    pauseMessage,
   } = useRewards();
 
   const [rewardsStats, setRewardsStats] = useState<any>(null);
@@ -107,6 +110,8 @@ const Rewards: React.FC = () => {
         </p>
       </motion.div>
 
+      <PauseBanner message={pauseMessage} />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <motion.div
@@ -202,7 +207,7 @@ const Rewards: React.FC = () => {
               </div>
               <button
                 onClick={handleClaimReward}
-                disabled={isLoading}
+                disabled={isLoading || isPaused}
                 className="btn-primary w-full"
               >
                 {isLoading ? 'Claiming...' : 'Claim Reward'}
@@ -243,7 +248,7 @@ const Rewards: React.FC = () => {
             />
             <button
               onClick={handleContribute}
-              disabled={isLoading}
+              disabled={isLoading || isPaused}
               className="btn-primary"
             >
               {isLoading ? 'Contributing...' : 'Contribute'}
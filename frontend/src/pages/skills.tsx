@@ -14,6 +14,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { useWallet } from '@/contexts/WalletContext';
 import { useSkillRegistry } from '@/hooks/useSkillRegistry';
+import PauseBanner from '@/components/PauseBanner';
 import { SkillCategory } from '@/types/contracts';
 import Link from 'next/link';
 
@@ -26,6 +27,8 @@ const Skills: React.FC = () => {
     verifySkill,
     loadSkillDetails,
     loadSkillStats,
+    isPaused,
+    pauseMessage,
   } = useSkillRegistry();
 
   const [showRegisterModal, setShowRegisterModal] = useState(false);
@@ -136,6 +139,7 @@ const Skills: React.FC = () => {
         </div>
         <button
           onClick={() => setShowRegisterModal(true)}
+          disabled={isPaused}
           className="btn-primary flex items-center space-x-2"
         >
           <PlusIcon className="w-4 h-4" />
@@ -143,6 +147,8 @@ const Skills: React.FC = () => {
         </button>
       </motion.div>
 
+      <PauseBanner message={pauseMessage} />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <motion.div
@@ -300,7 +306,7 @@ const Skills: React.FC = () => {
                   </button>
                   <button
                     type="submit"
-                    disabled={isLoading}
+                    disabled={isLoading || isPaused}
                     className="btn-primary flex-1"
                   >
                     {isLoading ? 'Registering...' : 'Register'}
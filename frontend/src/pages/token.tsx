@@ -0,0 +1,371 @@
+// TIME Token Page - Time Token Contract Integration
+// Clarity 4 SIP-010 token with staking and spender allowances
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  CircleStackIcon,
+  KeyIcon,
+  LockClosedIcon,
+  WalletIcon,
+} from '@heroicons/react/24/outline';
+import { useWallet } from '@/contexts/WalletContext';
+import { useTimeToken } from '@/hooks/useTimeToken';
+import { useNetwork } from '@/hooks/useNetwork';
+import { useEvents } from '@/hooks/useEvents';
+import { createHiroApiClient } from '@/lib/hiro-api-client';
+import type { TimeBankEventType } from '@/lib/event-decoder';
+import { getNetworkType } from '@/lib/stacks';
+import { CONTRACT_CONSTANTS, getContractIdentifier } from '@/lib/contractConfig';
+import {
+  formatTokenAmount,
+  getSpendersFromEvents,
+  parseTokenAmount,
+} from '@/lib/contracts/timeTokenFt';
+import PauseBanner from '@/components/PauseBanner';
+import Link from 'next/link';
+
+const ALLOWANCE_EVENT_TYPES: TimeBankEventType[] = ['allowance-approved'];
+
+const { symbol, minStakeAmount } = CONTRACT_CONSTANTS.timeTokenFt;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+type StakeAction = 'stake' | 'unstake';
+
+const Token: React.FC = () => {
+  const { isConnected, address } = useWallet();
+  const {
+    decimals,
+    balance,
+    stakedBalance,
+    allowances,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadBalances,
+    loadAllowances,
+    stake,
+    unstake,
+    approve,
+    revoke,
+  } = useTimeToken(address);
+  const { client } = useNetwork({ network: getNetworkType(), autoRefresh: false });
+  const apiClient = useMemo(() => createHiroApiClient(client), [client]);
+  const { events, isLoading: isLoadingEvents } = useEvents(
+    isConnected ? getContractIdentifier('timeTokenFt') : null,
+    apiClient,
+    { eventTypes: ALLOWANCE_EVENT_TYPES, autoRefresh: false }
+  );
+
+  const [stakeAction, setStakeAction] = useState<StakeAction>('stake');
+  const [stakeAmount, setStakeAmount] = useState('');
+  const [spender, setSpender] = useState('');
+  const [allowanceAmount, setAllowanceAmount] = useState('');
+
+  useEffect(() => {
+    if (isConnected && address) {
+      loadBalances();
+    }
+  }, [isConnected, address]);
+
+  const spenders = useMemo(
+    () => (address ? getSpendersFromEvents(events, address) : []),
+    [events, address]
+  );
+
+  useEffect(() => {
+    loadAllowances(spenders);
+  }, [spenders, loadAllowances]);
+
+  // Amounts stay unformatted until get-decimals has answered
+  const format = (amount: number) =>
+    decimals === null ? '—' : `${formatTokenAmount(amount, decimals)} ${symbol}`;
+
+  const handleStakeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (decimals === null) return;
+
+    const amount = parseTokenAmount(stakeAmount, decimals);
+    if (amount === null) {
+      alert(`Enter an amount with at most ${decimals} decimal places`);
+      return;
+    }
+    if (stakeAction === 'stake' && amount < minStakeAmount) {
+      alert(`The minimum stake is ${format(minStakeAmount)}`);
+      return;
+    }
+    const available = stakeAction === 'stake' ? balance : stakedBalance;
+    if (amount > available) {
+      alert(`You only have ${format(available)} ${stakeAction === 'stake' ? 'available' : 'staked'}`);
+      return;
+    }
+
+    const result = stakeAction === 'stake' ? await stake(amount) : await unstake(amount);
+    if (result.success) {
+      alert(`${stakeAction === 'stake' ? 'Stake' : 'Unstake'} submitted! TX: ${result.txId}`);
+      setStakeAmount('');
+      loadBalances();
+    } else {
+      alert(`Failed to ${stakeAction}: ${result.error}`);
+    }
+  };
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (decimals === null) return;
+
+    const amount = parseTokenAmount(allowanceAmount, decimals);
+    if (amount === null) {
+      alert(`Enter an amount with at most ${decimals} decimal places`);
+      return;
+    }
+
+    const result = await approve(spender.trim(), amount);
+    if (result.success) {
+      alert(`Approval submitted! TX: ${result.txId}`);
+      setSpender('');
+      setAllowanceAmount('');
+    } else {
+      alert(`Failed to approve spender: ${result.error}`);
+    }
+  };
+
+  const handleRevoke = async (spenderAddress: string) => {
+    if (!confirm(`Revoke the allowance of ${shortAddress(spenderAddress)}?`)) return;
+
+    const result = await revoke(spenderAddress);
+    if (result.success) {
+      alert(`Revocation submitted! TX: ${result.txId}`);
+    } else {
+      alert(`Failed to revoke allowance: ${result.error}`);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">
+            Connect Your Wallet
+          </h1>
+          <p className="text-neutral-600 mb-8">
+            Please connect your wallet to manage your {symbol} tokens
+          </p>
+          <Link href="/" className="btn-primary">
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const stepSize = decimals === null ? 'any' : (1 / 10 ** decimals).toFixed(decimals);
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <h1 className="text-3xl font-bold text-neutral-900">{symbol} Token</h1>
+        <p className="text-neutral-600 mt-1">
+          Stake your {symbol} and manage who may spend it on your behalf
+        </p>
+      </motion.div>
+
+      <PauseBanner message={pauseMessage} />
+
+      {error && (
+        <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Balances */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1, duration: 0.5 }}
+          className="card"
+        >
+          <div className="card-body flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-neutral-600">Liquid</p>
+              <p className="text-2xl font-bold text-neutral-900">{format(balance)}</p>
+            </div>
+            <WalletIcon className="w-8 h-8 text-primary-500" />
+          </div>
+        </motion.div>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15, duration: 0.5 }}
+          className="card"
+        >
+          <div className="card-body flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-neutral-600">Staked</p>
+              <p className="text-2xl font-bold text-neutral-900">{format(stakedBalance)}</p>
+            </div>
+            <LockClosedIcon className="w-8 h-8 text-secondary-500" />
+          </div>
+        </motion.div>
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2, duration: 0.5 }}
+          className="card"
+        >
+          <div className="card-body flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-neutral-600">Total</p>
+              <p className="text-2xl font-bold text-neutral-900">
+                {format(balance + stakedBalance)}
+              </p>
+            </div>
+            <CircleStackIcon className="w-8 h-8 text-accent-500" />
+          </div>
+        </motion.div>
+      </div>
+
+      {/* Staking */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.25, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-neutral-900">Staking</h2>
+          <div className="flex space-x-2">
+            {(['stake', 'unstake'] as StakeAction[]).map((action) => (
+              <button
+                key={action}
+                type="button"
+                onClick={() => setStakeAction(action)}
+                className={stakeAction === action ? 'btn-primary' : 'btn-outline'}
+              >
+                {action === 'stake' ? 'Stake' : 'Unstake'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="card-body">
+          <form onSubmit={handleStakeSubmit} className="space-y-3">
+            <div className="flex items-end space-x-3">
+              <div className="flex-1">
+                <label className="label">Amount ({symbol})</label>
+                <input
+                  type="number"
+                  value={stakeAmount}
+                  onChange={(e) => setStakeAmount(e.target.value)}
+                  className="input"
+                  min="0"
+                  step={stepSize}
+                  placeholder="0.0"
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isLoading || isPaused || decimals === null}
+                className="btn-primary"
+              >
+                {isLoading ? 'Submitting...' : stakeAction === 'stake' ? 'Stake' : 'Unstake'}
+              </button>
+            </div>
+            <p className="text-sm text-neutral-600">
+              {stakeAction === 'stake'
+                ? `Minimum stake ${format(minStakeAmount)}. Staked tokens leave your liquid balance until you unstake them.`
+                : `Up to ${format(stakedBalance)} can be returned to your liquid balance.`}
+            </p>
+          </form>
+        </div>
+      </motion.div>
+
+      {/* Allowances */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3, duration: 0.5 }}
+        className="card"
+      >
+        <div className="card-header flex items-center space-x-2">
+          <KeyIcon className="w-5 h-5 text-neutral-500" />
+          <h2 className="text-lg font-semibold text-neutral-900">Spender Allowances</h2>
+        </div>
+        <div className="card-body space-y-6">
+          {allowances.length === 0 ? (
+            <p className="text-center text-neutral-600">
+              {isLoadingEvents ? 'Loading allowances...' : 'No spender can move your tokens'}
+            </p>
+          ) : (
+            <div className="divide-y divide-neutral-100">
+              {allowances.map((allowance) => (
+                <div
+                  key={allowance.spender}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <p className="font-medium text-neutral-900 font-mono">
+                      {shortAddress(allowance.spender)}
+                    </p>
+                    <p className="text-sm text-neutral-600">
+                      May spend {format(allowance.amount)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(allowance.spender)}
+                    disabled={isLoading || isPaused}
+                    className="btn-outline"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleApprove} className="flex items-end space-x-3">
+            <div className="flex-1">
+              <label className="label">Spender</label>
+              <input
+                type="text"
+                value={spender}
+                onChange={(e) => setSpender(e.target.value)}
+                className="input"
+                placeholder="SP... or SP....contract-name"
+                required
+              />
+            </div>
+            <div className="w-48">
+              <label className="label">Allowance ({symbol})</label>
+              <input
+                type="number"
+                value={allowanceAmount}
+                onChange={(e) => setAllowanceAmount(e.target.value)}
+                className="input"
+                min="0"
+                step={stepSize}
+                placeholder="0.0"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isLoading || isPaused || decimals === null}
+              className="btn-primary"
+            >
+              Approve
+            </button>
+          </form>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Token;
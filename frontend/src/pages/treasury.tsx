@@ -0,0 +1,321 @@
+// Treasury Page - Multi-Sig Wallet Contract Integration
+// Clarity 4 with M-of-N signing and stacks-block-time timelocks
+
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  PlusIcon,
+  ClockIcon,
+  CheckCircleIcon,
+  PencilSquareIcon,
+  BuildingLibraryIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { useWallet } from '@/contexts/WalletContext';
+import { useMultiSigWallet } from '@/hooks/useMultiSigWallet';
+import { canExecuteProposal, getTimelockRemaining } from '@/lib/contracts/multiSigWallet';
+import PauseBanner from '@/components/PauseBanner';
+import Link from 'next/link';
+
+const MICRO_STX = 1_000_000;
+
+const formatCountdown = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const Treasury: React.FC = () => {
+  const { isConnected, address } = useWallet();
+  const {
+    proposals,
+    isSigner,
+    isLoading,
+    error,
+    isPaused,
+    pauseMessage,
+    loadProposals,
+    createProposal,
+    signProposal,
+    executeProposal,
+  } = useMultiSigWallet(address);
+
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState(1);
+
+  useEffect(() => {
+    if (isConnected && address) {
+      loadProposals();
+    }
+  }, [isConnected, address]);
+
+  // Tick the timelock countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleResult = async (
+    action: Promise<{ success: boolean; txId?: string; error?: string }>,
+    label: string
+  ) => {
+    const result = await action;
+    if (result.success) {
+      alert(`${label} submitted! TX: ${result.txId}`);
+      loadProposals();
+    } else {
+      alert(`${label} failed: ${result.error}`);
+    }
+    return result.success;
+  };
+
+  const handleCreateProposal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const submitted = await handleResult(
+      createProposal(recipient, Math.round(amount * MICRO_STX)),
+      'Proposal'
+    );
+    if (submitted) {
+      setShowCreateModal(false);
+      setRecipient('');
+      setAmount(1);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-neutral-900 mb-4">
+            Connect Your Wallet
+          </h1>
+          <p className="text-neutral-600 mb-8">
+            Please connect your wallet to view treasury proposals
+          </p>
+          <Link href="/" className="btn-primary">
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="flex items-center justify-between"
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-neutral-900">Treasury</h1>
+          <p className="text-neutral-600 mt-1">
+            Multi-signature spending proposals with timelocked execution
+          </p>
+        </div>
+        {isSigner && (
+          <button
+            onClick={() => setShowCreateModal(true)}
+            disabled={isPaused}
+            className="btn-primary flex items-center space-x-2"
+          >
+            <PlusIcon className="w-4 h-4" />
+            <span>New Proposal</span>
+          </button>
+        )}
+      </motion.div>
+
+      <PauseBanner message={pauseMessage} />
+
+      {error && (
+        <div className="p-3 bg-error-50 text-error-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Proposals */}
+      {proposals.length === 0 ? (
+        <div className="card">
+          <div className="card-body text-center text-neutral-600">
+            <BuildingLibraryIcon className="w-12 h-12 mx-auto mb-4 text-neutral-400" />
+            {isLoading ? 'Loading proposals...' : 'No treasury proposals yet'}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {proposals.map(({ proposal, signedByMe }, index) => {
+            const remaining = getTimelockRemaining(proposal, now);
+            const progress = Math.min(
+              100,
+              (proposal.signaturesCount / Math.max(proposal.signaturesRequired, 1)) * 100
+            );
+
+            return (
+              <motion.div
+                key={proposal.proposalId}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05, duration: 0.5 }}
+                className="card"
+              >
+                <div className="card-body space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h2 className="text-lg font-semibold text-neutral-900">
+                        Proposal #{proposal.proposalId} •{' '}
+                        {((proposal.amount || 0) / MICRO_STX).toLocaleString()} STX
+                      </h2>
+                      <p className="text-sm text-neutral-600">
+                        To {proposal.recipient ? shortAddress(proposal.recipient) : 'unknown'} •
+                        Proposed by {shortAddress(proposal.proposer)}
+                      </p>
+                    </div>
+                    <span
+                      className={`badge ${proposal.executed ? 'badge-success' : 'badge-warning'}`}
+                    >
+                      {proposal.executed ? 'Executed' : 'Open'}
+                    </span>
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between text-sm text-neutral-600 mb-1">
+                      <span>Signatures</span>
+                      <span>
+                        {proposal.signaturesCount} / {proposal.signaturesRequired}
+                      </span>
+                    </div>
+                    <div className="w-full h-2 bg-neutral-100 rounded-full">
+                      <div
+                        className="h-2 bg-primary-600 rounded-full"
+                        style={{ width: `${progress}%` }}
+                      />
+                    </div>
+                  </div>
+
+                  {!proposal.executed && (
+                    <div className="flex items-center space-x-2 text-sm text-neutral-600">
+                      <ClockIcon className="w-4 h-4" />
+                      <span>
+                        {remaining > 0
+                          ? `Timelock: ${formatCountdown(remaining)} left`
+                          : 'Timelock elapsed'}
+                      </span>
+                    </div>
+                  )}
+
+                  {signedByMe && !proposal.executed && (
+                    <div className="flex items-center space-x-2 text-sm text-secondary-700">
+                      <CheckCircleIcon className="w-4 h-4" />
+                      <span>You signed this proposal</span>
+                    </div>
+                  )}
+
+                  {isSigner && !proposal.executed && (
+                    <div className="flex flex-wrap gap-2">
+                      {!signedByMe && (
+                        <button
+                          onClick={() => handleResult(signProposal(proposal.proposalId), 'Signature')}
+                          disabled={isLoading || isPaused}
+                          className="btn-outline flex items-center space-x-1"
+                        >
+                          <PencilSquareIcon className="w-4 h-4" />
+                          <span>Sign</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleResult(executeProposal(proposal), 'Execution')}
+                        disabled={isLoading || isPaused || !canExecuteProposal(proposal, now)}
+                        className="btn-primary"
+                      >
+                        Execute
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create Proposal Modal */}
+      <AnimatePresence>
+        {showCreateModal && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+            onClick={() => setShowCreateModal(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              className="bg-white rounded-2xl shadow-2xl max-w-md w-full mx-4 p-6"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-neutral-900">New Proposal</h2>
+                <button
+                  onClick={() => setShowCreateModal(false)}
+                  className="p-2 text-neutral-400 hover:text-neutral-600 transition-colors"
+                >
+                  <XMarkIcon className="w-6 h-6" />
+                </button>
+              </div>
+
+              <form onSubmit={handleCreateProposal} className="space-y-4">
+                <div>
+                  <label className="label">Recipient Address</label>
+                  <input
+                    type="text"
+                    value={recipient}
+                    onChange={(e) => setRecipient(e.target.value)}
+                    className="input"
+                    placeholder="SP..."
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="label">Amount (STX)</label>
+                  <input
+                    type="number"
+                    value={amount}
+                    onChange={(e) => setAmount(Number(e.target.value))}
+                    className="input"
+                    min={0.000001}
+                    step={0.000001}
+                    required
+                  />
+                </div>
+
+                <div className="flex items-center space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowCreateModal(false)}
+                    className="btn-outline flex-1"
+                  >
+                    Cancel
+                  </button>
+                  <button type="submit" disabled={isLoading || isPaused} className="btn-primary flex-1">
+                    {isLoading ? 'Submitting...' : 'Create Proposal'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default Treasury;
@@ -0,0 +1,84 @@
+// automation-scheduler.test.ts — schedule decoding and next-execution display
+import { describe, it, expect } from 'vitest';
+import {
+  boolCV,
+  noneCV,
+  responseOkCV,
+  someCV,
+  standardPrincipalCV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import {
+  decodeSchedule,
+  formatNextExecution,
+  formatScheduleInterval,
+} from '@/lib/contracts/automationScheduler';
+import { getScheduleCall } from '@/lib/contracts/generated/automationScheduler';
+import { ScheduleType } from '@/types/contracts';
+
+const OWNER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const TUTOR = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const NOW = 1_700_000_000;
+const WEEK = 604800;
+
+describe('automation-scheduler decoders', () => {
+  it('decodes get-schedule responses through the generated binding', () => {
+    const { decode } = getScheduleCall({ scheduleId: 3 });
+    const schedule = decodeSchedule(
+      3,
+      decode(responseOkCV(
+        someCV(
+          tupleCV({
+            owner: standardPrincipalCV(OWNER),
+            'schedule-type': uintCV(ScheduleType.SUBSCRIPTION),
+            interval: uintCV(WEEK),
+            'next-execution': uintCV(NOW + WEEK),
+            'execution-count': uintCV(2),
+            'is-active': boolCV(true),
+            recipient: standardPrincipalCV(TUTOR),
+            amount: uintCV(5),
+          })
+        )
+      ))
+    );
+
+    expect(schedule).toEqual({
+      scheduleId: 3,
+      owner: OWNER,
+      scheduleType: ScheduleType.SUBSCRIPTION,
+      interval: WEEK,
+      nextExecution: NOW + WEEK,
+      executionCount: 2,
+      isActive: true,
+      recipient: TUTOR,
+      amount: 5,
+    });
+    expect(decodeSchedule(4, decode(responseOkCV(noneCV())))).toBeNull();
+  });
+});
+
+describe('automation-scheduler timing', () => {
+  const schedule = {
+    scheduleId: 1,
+    owner: OWNER,
+    scheduleType: ScheduleType.RECURRING,
+    interval: WEEK,
+    nextExecution: NOW + 2 * 86400 + 3 * 3600,
+    executionCount: 0,
+    isActive: true,
+    recipient: TUTOR,
+    amount: 1,
+  };
+
+  it('formats the interval and time until the next execution with block-time', () => {
+    expect(formatScheduleInterval(WEEK)).toBe('1 week');
+    expect(formatNextExecution(schedule, NOW)).toBe('2d 3h');
+  });
+
+  it('reports due and cancelled schedules', () => {
+    expect(formatNextExecution({ ...schedule, nextExecution: NOW - 1 }, NOW)).toBe('Due now');
+    expect(formatNextExecution({ ...schedule, isActive: false }, NOW)).toBe('Cancelled');
+  });
+});
@@ -0,0 +1,157 @@
+// broadcast-manager.test.ts — broadcast against a local stub node
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { makeSTXTokenTransfer, randomPrivateKey } from '@stacks/transactions';
+import {
+  BroadcastManager,
+  BroadcastError,
+  BroadcastErrorCode,
+} from '@/lib/transactions/broadcast-manager';
+
+const TX_HEX = '0x80800000000400c0ffee';
+
+type StubResponse = { status: number; body: unknown };
+
+let server: Server;
+let nodeUrl: string;
+let responses: StubResponse[];
+let requests: Array<{ url?: string; contentType?: string; body: Buffer }>;
+
+function respond(req: IncomingMessage, res: ServerResponse) {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    requests.push({ url: req.url, contentType: req.headers['content-type'], body: Buffer.concat(chunks) });
+    const next = responses.shift() ?? { status: 200, body: 'c0ffee' };
+    res.writeHead(next.status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    res.end(JSON.stringify(next.body));
+  });
+}
+
+function createManager() {
+  return new BroadcastManager({ nodeUrl, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 });
+}
+
+beforeAll(async () => {
+  server = createServer(respond);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  nodeUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  responses = [];
+  requests = [];
+});
+
+describe('BroadcastManager.broadcast', () => {
+  it('posts raw transaction bytes and reports success', async () => {
+    responses.push({ status: 200, body: 'ab12' });
+    const onPending = vi.fn();
+    const onSuccess = vi.fn();
+
+    const result = await createManager().onPending(onPending).onSuccess(onSuccess).broadcast(TX_HEX);
+
+    expect(result).toEqual({ txId: '0xab12', status: 'ok' });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v2/transactions');
+    expect(requests[0].contentType).toBe('application/octet-stream');
+    expect(requests[0].body.toString('hex')).toBe(TX_HEX.slice(2));
+    expect(onPending).toHaveBeenCalledWith(expect.stringMatching(/^0x[0-9a-f]{64}$/));
+    expect(onSuccess).toHaveBeenCalledWith(result);
+  });
+
+  it('serializes transaction objects', async () => {
+    const tx = await makeSTXTokenTransfer({
+      recipient: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
+      amount: BigInt(1000),
+      fee: BigInt(180),
+      nonce: BigInt(0),
+      senderKey: randomPrivateKey(),
+      network: 'testnet',
+    });
+    const onPending = vi.fn();
+
+    await createManager().onPending(onPending).broadcast(tx);
+
+    expect(requests[0].body.toString('hex')).toBe(tx.serialize());
+    expect(onPending).toHaveBeenCalledWith(`0x${tx.txid()}`);
+  });
+
+  it.each([
+    ['BadNonce', BroadcastErrorCode.BadNonce],
+    ['NotEnoughFunds', BroadcastErrorCode.NotEnoughFunds],
+    ['ConflictingNonceInMempool', BroadcastErrorCode.ConflictingNonceInMempool],
+    ['FeeTooLow', BroadcastErrorCode.FeeTooLow],
+    ['Serialization', BroadcastErrorCode.Rejected],
+  ])('classifies %s rejections without retrying', async (reason, code) => {
+    responses.push({
+      status: 400,
+      body: { error: 'transaction rejected', reason, reason_data: { expected: 5, actual: 3 } },
+    });
+    const onFailure = vi.fn();
+
+    const result = await createManager().onFailure(onFailure).broadcast(TX_HEX);
+
+    expect(result.status).toBe('error');
+    expect(requests).toHaveLength(1);
+    const error: BroadcastError = onFailure.mock.calls[0][0];
+    expect(error).toBeInstanceOf(BroadcastError);
+    expect(error.code).toBe(code);
+    expect(error.reason).toBe(reason);
+    expect(error.reasonData).toEqual({ expected: 5, actual: 3 });
+  });
+
+  it('retries transient server errors', async () => {
+    responses.push({ status: 503, body: 'unavailable' }, { status: 429, body: 'slow down' }, { status: 200, body: 'ab12' });
+    const onFailure = vi.fn();
+
+    const result = await createManager().onFailure(onFailure).broadcast(TX_HEX);
+
+    expect(result.status).toBe('ok');
+    expect(requests).toHaveLength(3);
+    expect(onFailure).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the retry budget', async () => {
+    responses.push(...Array(3).fill({ status: 500, body: 'boom' }));
+    const onFailure = vi.fn();
+
+    const result = await createManager().onFailure(onFailure).broadcast(TX_HEX);
+
+    expect(result.status).toBe('error');
+    expect(requests).toHaveLength(3);
+    expect(onFailure.mock.calls[0][0].code).toBe(BroadcastErrorCode.ServerError);
+  });
+
+  it('retries network failures', async () => {
+    const onFailure = vi.fn();
+    const manager = new BroadcastManager({ nodeUrl: 'http://127.0.0.1:1', maxRetries: 1, baseDelayMs: 1 });
+
+    const result = await manager.onFailure(onFailure).broadcast(TX_HEX);
+
+    expect(result.status).toBe('error');
+    expect(onFailure.mock.calls[0][0].code).toBe(BroadcastErrorCode.NetworkError);
+  });
+
+  it('reports whether a broadcast transaction can still confirm', async () => {
+    responses.push(
+      { status: 200, body: { tx_status: 'pending' } },
+      { status: 200, body: { tx_status: 'success' } },
+      { status: 200, body: { tx_status: 'abort_by_response' } },
+      { status: 200, body: { tx_status: 'dropped_replace_by_fee' } },
+      { status: 404, body: { error: 'could not find transaction' } }
+    );
+    const manager = createManager();
+
+    const outcomes = [];
+    for (let i = 0; i < 5; i++) outcomes.push(await manager.getOutcome('0xc0ffee'));
+
+    expect(outcomes).toEqual(['pending', 'success', 'failed', 'failed', 'pending']);
+    expect(requests[0].url).toBe('/extended/v1/tx/0xc0ffee');
+  });
+});
@@ -0,0 +1,231 @@
+// connect-flows.test.ts — Stacks Connect auth, call status, transfer and SIP-018 signing flows
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { bytesToHex } from '@stacks/common';
+import { hashMessage } from '@stacks/encryption';
+import {
+  Cl,
+  getAddressFromPublicKey,
+  privateKeyToPublic,
+  signMessageHashRsv,
+  signStructuredData as signStructuredDataWithKey,
+} from '@stacks/transactions';
+
+const connectMocks = vi.hoisted(() => ({
+  connect: vi.fn(),
+  request: vi.fn(),
+  disconnect: vi.fn(),
+  isConnected: vi.fn(),
+  getLocalStorage: vi.fn(),
+}));
+
+vi.mock('@stacks/connect', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@stacks/connect')>()),
+  ...connectMocks,
+}));
+
+import { JsonRpcError, JsonRpcErrorCode } from '@stacks/connect';
+import {
+  CallStatus,
+  SESSION_REFRESH_WINDOW_MS,
+  SESSION_TTL_MS,
+  buildSIP018Payload,
+  clearSession,
+  formatTransferAmount,
+  getUserSession,
+  initializeAuth,
+  openContractCallDialog,
+  openTransferDialog,
+  refreshSession,
+  transitionCallStatus,
+  validateRecipient,
+  verifySignature,
+  verifyStructuredDataSignature,
+  type CallState,
+} from '@/lib/connect';
+
+const PRIVATE_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const SIGNER = getAddressFromPublicKey(privateKeyToPublic(PRIVATE_KEY), 'testnet');
+const MAINNET_ADDRESS = 'SP3BXJENEWVNCFYGJF75DFS478H1BZJXNZPT84EAD';
+const TESTNET_ADDRESS = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  window.localStorage.clear();
+  connectMocks.isConnected.mockReturnValue(true);
+  connectMocks.getLocalStorage.mockReturnValue({
+    addresses: { stx: [{ address: TESTNET_ADDRESS }], btc: [] },
+    version: '0.0.1',
+  });
+});
+
+describe('auth flow', () => {
+  const addresses = {
+    addresses: [
+      { address: 'bc1qexample', publicKey: '02aa' },
+      { address: MAINNET_ADDRESS, publicKey: '03bb' },
+      { address: TESTNET_ADDRESS, publicKey: '03bb' },
+    ],
+  };
+
+  it('starts a session for the address on the configured network', async () => {
+    connectMocks.connect.mockResolvedValue(addresses);
+
+    const session = await initializeAuth({ walletConnectProjectId: 'project' });
+    expect(connectMocks.connect).toHaveBeenCalledWith({
+      network: 'testnet',
+      walletConnectProjectId: 'project',
+    });
+    expect(session.address).toBe(TESTNET_ADDRESS);
+    expect(session.expiresAt - session.connectedAt).toBe(SESSION_TTL_MS);
+    expect(getUserSession()).toEqual(session);
+  });
+
+  it('drops sessions that expired or were disconnected in the wallet', async () => {
+    connectMocks.connect.mockResolvedValue(addresses);
+    const session = await initializeAuth();
+
+    expect(getUserSession(session.expiresAt + 1)).toBeNull();
+    connectMocks.isConnected.mockReturnValue(false);
+    expect(getUserSession()).toBeNull();
+
+    clearSession();
+    expect(connectMocks.disconnect).toHaveBeenCalled();
+  });
+
+  it('extends sessions close to expiry while the wallet is connected', async () => {
+    connectMocks.connect.mockResolvedValue(addresses);
+    const session = await initializeAuth();
+
+    expect(refreshSession(session.connectedAt + 1000)).toEqual(session);
+
+    const nearExpiry = session.expiresAt - SESSION_REFRESH_WINDOW_MS / 2;
+    expect(refreshSession(nearExpiry)?.expiresAt).toBe(nearExpiry + SESSION_TTL_MS);
+
+    connectMocks.getLocalStorage.mockReturnValue({
+      addresses: { stx: [], btc: [] },
+      version: '0.0.1',
+    });
+    expect(refreshSession()).toBeNull();
+    expect(getUserSession()).toBeNull();
+  });
+});
+
+describe('contract call flow', () => {
+  const call = {
+    contractAddress: TESTNET_ADDRESS,
+    contractName: 'time-bank-core',
+    functionName: 'register-user',
+    functionArgs: [Cl.uint(1)],
+  };
+
+  it('moves through Pending to Success with the wallet txid', async () => {
+    connectMocks.request.mockResolvedValue({ txid: '0xabc' });
+    const statuses: CallStatus[] = [];
+
+    const state = await openContractCallDialog(call, ({ status }) => statuses.push(status));
+    expect(state).toEqual({ status: CallStatus.Success, txId: '0xabc' });
+    expect(statuses).toEqual([CallStatus.Pending, CallStatus.Success]);
+    expect(connectMocks.request).toHaveBeenCalledWith('stx_callContract', {
+      contract: `${TESTNET_ADDRESS}.time-bank-core`,
+      functionName: 'register-user',
+      functionArgs: [Cl.uint(1)],
+      postConditions: [],
+      postConditionMode: 'deny',
+      network: 'testnet',
+    });
+  });
+
+  it('separates cancellation from failure', async () => {
+    connectMocks.request.mockRejectedValueOnce(
+      new JsonRpcError('User rejected', JsonRpcErrorCode.UserRejection)
+    );
+    expect((await openContractCallDialog(call)).status).toBe(CallStatus.Cancelled);
+
+    connectMocks.request.mockRejectedValueOnce(new Error('Node unavailable'));
+    expect(await openContractCallDialog(call)).toEqual({
+      status: CallStatus.Failed,
+      error: 'Node unavailable',
+    });
+
+    const invalid = await openContractCallDialog({ ...call, contractAddress: 'nope' });
+    expect(invalid.status).toBe(CallStatus.Failed);
+    expect(connectMocks.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects transitions the flow does not allow', () => {
+    const idle: CallState = { status: CallStatus.Idle };
+    expect(() => transitionCallStatus(idle, CallStatus.Success)).toThrow(
+      'Invalid call status transition: idle -> success'
+    );
+    const failed = transitionCallStatus(
+      transitionCallStatus(idle, CallStatus.Pending),
+      CallStatus.Failed
+    );
+    expect(transitionCallStatus(failed, CallStatus.Pending).status).toBe(CallStatus.Pending);
+  });
+});
+
+describe('stx transfer flow', () => {
+  it('validates before asking the wallet', async () => {
+    expect(validateRecipient(MAINNET_ADDRESS, 'testnet')).toBe('Recipient is not a testnet address');
+    expect(validateRecipient(TESTNET_ADDRESS, 'testnet', TESTNET_ADDRESS)).toBe(
+      'Cannot transfer to yourself'
+    );
+
+    const state = await openTransferDialog({ recipient: TESTNET_ADDRESS, amount: 0 });
+    expect(state).toEqual({ status: CallStatus.Failed, error: 'Amount must be greater than zero' });
+    expect(connectMocks.request).not.toHaveBeenCalled();
+  });
+
+  it('sends the amount as micro-STX', async () => {
+    connectMocks.request.mockResolvedValue({ txid: '0xdef' });
+    const state = await openTransferDialog({ recipient: TESTNET_ADDRESS, amount: 1500000, memo: 'hi' });
+
+    expect(state.txId).toBe('0xdef');
+    expect(connectMocks.request).toHaveBeenCalledWith('stx_transferStx', {
+      recipient: TESTNET_ADDRESS,
+      amount: '1500000',
+      memo: 'hi',
+      network: 'testnet',
+    });
+    expect(formatTransferAmount(1500000)).toBe('1.5 STX');
+  });
+
+  it('passes a fixed fee and nonce to the wallet when replacing a transaction', async () => {
+    connectMocks.request.mockResolvedValue({ txid: '0xfed' });
+    await openTransferDialog({ recipient: TESTNET_ADDRESS, amount: 1, fee: BigInt(1100), nonce: BigInt(7) });
+
+    expect(connectMocks.request).toHaveBeenCalledWith('stx_transferStx', {
+      recipient: TESTNET_ADDRESS,
+      amount: '1',
+      network: 'testnet',
+      fee: '1100',
+      nonce: '7',
+    });
+  });
+});
+
+describe('signing flow', () => {
+  it('verifies plain message signatures against the signer', () => {
+    const signature = signMessageHashRsv({
+      messageHash: bytesToHex(hashMessage('hello')),
+      privateKey: PRIVATE_KEY,
+    });
+
+    expect(verifySignature('hello', signature, SIGNER).verified).toBe(true);
+    expect(verifySignature('hello', signature, TESTNET_ADDRESS).verified).toBe(false);
+  });
+
+  it('binds SIP-018 signatures to the protocol domain and chain', () => {
+    const payload = buildSIP018Payload(Cl.tuple({ offer: Cl.uint(7) }), 'testnet');
+    const signature = signStructuredDataWithKey({ ...payload, privateKey: PRIVATE_KEY });
+
+    expect(verifyStructuredDataSignature(payload, signature, SIGNER, 'testnet')).toMatchObject({
+      verified: true,
+      address: SIGNER,
+    });
+
+    const mainnetPayload = buildSIP018Payload(Cl.tuple({ offer: Cl.uint(7) }), 'mainnet');
+    expect(verifyStructuredDataSignature(mainnetPayload, signature, SIGNER).verified).toBe(false);
+  });
+});
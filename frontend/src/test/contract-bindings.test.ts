@@ -0,0 +1,168 @@
+// contract-bindings.test.ts — ABI-driven encoding/decoding and generated module source
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  Cl,
+  type ClarityAbiFunction,
+} from '@stacks/transactions';
+import {
+  callReadOnly,
+  contractCall,
+  decodeAbiValue,
+  toBindingName,
+} from '@/lib/contracts/bindings-runtime';
+import {
+  generateBindingsIndex,
+  generateContractBindings,
+} from '@/lib/contracts/bindings-codegen';
+import { submitContractCall } from '@/lib/contracts/bindings';
+import { acceptExchangeCall } from '@/lib/contracts/generated/serviceCoordinator';
+
+const mockMakeContractCall = vi.fn();
+
+vi.mock('@/lib/stacksApi', () => ({
+  makeContractCall: (...args: unknown[]) => mockMakeContractCall(...args),
+  callReadOnlyFunction: vi.fn(),
+}));
+
+const STAKER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+const stake: ClarityAbiFunction = {
+  name: 'stake',
+  access: 'public',
+  args: [{ name: 'amount', type: 'uint128' }],
+  outputs: { type: { response: { ok: 'bool', error: 'uint128' } } },
+};
+
+const getStakeInfo: ClarityAbiFunction = {
+  name: 'get-stake-info',
+  access: 'read_only',
+  args: [{ name: 'staker', type: 'principal' }],
+  outputs: {
+    type: {
+      response: {
+        ok: {
+          optional: {
+            tuple: [
+              { name: 'amount', type: 'uint128' },
+              { name: 'staked-at', type: 'uint128' },
+            ],
+          },
+        },
+        error: 'none',
+      },
+    },
+  },
+};
+
+const getName: ClarityAbiFunction = {
+  name: 'get-name',
+  access: 'read_only',
+  args: [],
+  outputs: { type: { response: { ok: { 'string-ascii': { length: 10 } }, error: 'none' } } },
+};
+
+const getAllowanceOrDefault: ClarityAbiFunction = {
+  name: 'get-allowance-or-default',
+  access: 'private',
+  args: [],
+  outputs: { type: 'uint128' },
+};
+
+describe('bindings runtime', () => {
+  it('maps Clarity names to identifiers', () => {
+    expect(toBindingName('get-stake-info')).toBe('getStakeInfo');
+    expect(toBindingName('is-paused?')).toBe('isPaused');
+    expect(toBindingName('time-token-ft')).toBe('timeTokenFt');
+  });
+
+  it('encodes arguments in ABI order and decodes typed results', async () => {
+    const call = contractCall<unknown>('time-token-ft', getStakeInfo, { staker: STAKER });
+    expect(call.functionName).toBe('get-stake-info');
+    expect(call.functionArgs).toEqual([Cl.principal(STAKER)]);
+
+    const result = await callReadOnly(
+      () => Cl.ok(Cl.some(Cl.tuple({ amount: Cl.uint(20), 'staked-at': Cl.uint(1700) }))),
+      call
+    );
+    expect(result).toEqual({
+      ok: true,
+      value: { amount: BigInt(20), stakedAt: BigInt(1700) },
+    });
+
+    expect(
+      contractCall('time-token-ft', stake, { amount: 5 }).decode(Cl.error(Cl.uint(3003)))
+    ).toEqual({ ok: false, error: BigInt(3003) });
+  });
+
+  it('rejects results that do not match the ABI', () => {
+    expect(() => decodeAbiValue('uint128', Cl.bool(true))).toThrow('Expected uint but got true');
+  });
+});
+
+describe('bindings generator', () => {
+  const { moduleName, source } = generateContractBindings({
+    contractName: 'time-token-ft',
+    functions: [stake, getStakeInfo, getName, getAllowanceOrDefault],
+  });
+
+  it('names the module after the contract and skips private functions', () => {
+    expect(moduleName).toBe('timeTokenFt');
+    expect(source).toContain("export const CONTRACT_NAME = \"time-token-ft\";");
+    expect(source).not.toContain('getAllowanceOrDefault');
+  });
+
+  it('emits argument and result types per function', () => {
+    expect(source).toContain('export interface StakeArgs {\n  amount: IntegerInput;\n}');
+    expect(source).toContain('export type StakeResult = ClarityResponse<boolean, bigint>;');
+    expect(source).toContain(
+      'export type GetStakeInfoResult = ClarityResponse<{\n  amount: bigint;\n  stakedAt: bigint;\n} | null, null>;'
+    );
+  });
+
+  it('emits call builders for every function and callers for read-only ones', () => {
+    expect(source).toContain(
+      'export const stakeCall = (args: StakeArgs): ContractCall<StakeResult> =>'
+    );
+    expect(source).not.toMatch(/export const stake = /);
+    expect(source).toContain(
+      'export const getStakeInfo = (caller: ReadOnlyCaller, args: GetStakeInfoArgs): Promise<GetStakeInfoResult> =>'
+    );
+    expect(source).toContain('export const getName = (caller: ReadOnlyCaller): Promise<GetNameResult> =>');
+    expect(source).toContain("} from '../bindings-runtime';");
+  });
+
+  it('indexes modules by contract', () => {
+    expect(generateBindingsIndex(['timeTokenFt', 'automationScheduler'])).toContain(
+      "export * as automationScheduler from './automationScheduler';\nexport * as timeTokenFt from './timeTokenFt';"
+    );
+  });
+});
+
+describe('submitContractCall', () => {
+  beforeEach(() => {
+    mockMakeContractCall.mockReset();
+  });
+
+  it('sends the generated call to the configured contract', async () => {
+    mockMakeContractCall.mockResolvedValue({ txId: '0xabc' });
+
+    await expect(
+      submitContractCall('exchangeManager', acceptExchangeCall({ exchangeId: 3 }))
+    ).resolves.toEqual({ success: true, txId: '0xabc' });
+    expect(mockMakeContractCall).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contractName: 'exchange-manager',
+        functionName: 'accept-exchange',
+        functionArgs: [Cl.uint(3)],
+      })
+    );
+  });
+
+  it('fails when the wallet does not send the call', async () => {
+    mockMakeContractCall.mockResolvedValue({ error: 'User cancelled' });
+
+    await expect(
+      submitContractCall('exchangeManager', acceptExchangeCall({ exchangeId: 3 }))
+    ).resolves.toEqual({ success: false, error: 'User cancelled' });
+  });
+});
@@ -0,0 +1,102 @@
+// dispute-arbitration.test.ts — decoders and phase mapping for the dispute-arbitration contract
+import { describe, it, expect } from 'vitest';
+import {
+  boolCV,
+  ClarityValue,
+  noneCV,
+  responseOkCV,
+  someCV,
+  standardPrincipalCV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import {
+  decodeArbitratorInfo,
+  decodeDispute,
+  getDisputePhase,
+} from '@/lib/contracts/disputeArbitration';
+import { getArbitratorInfoCall, getDisputeCall } from '@/lib/contracts/generated/disputeArbitration';
+import { DisputeOutcome, DisputeStatus } from '@/types/contracts';
+
+const PROVIDER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const RECEIVER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const disputeTuple = (status: number, outcome?: number) =>
+  tupleCV({
+    'exchange-id': uintCV(12),
+    provider: standardPrincipalCV(PROVIDER),
+    receiver: standardPrincipalCV(RECEIVER),
+    status: uintCV(status),
+    outcome: outcome ? someCV(uintCV(outcome)) : noneCV(),
+    'created-at': uintCV(1000),
+    'evidence-deadline': uintCV(605800),
+    'voting-deadline': uintCV(865000),
+    'votes-provider': uintCV(2),
+    'votes-receiver': uintCV(1),
+    'votes-split': uintCV(0),
+  });
+
+// Decode through the generated bindings, as the read-only callers do
+const disputeResult = (cv: ClarityValue) => getDisputeCall({ disputeId: 1 }).decode(cv);
+const arbitratorResult = (cv: ClarityValue) =>
+  getArbitratorInfoCall({ arbitrator: PROVIDER }).decode(cv);
+
+describe('dispute-arbitration decoders', () => {
+  it('decodes get-dispute responses', () => {
+    const dispute = decodeDispute(3, disputeResult(responseOkCV(someCV(disputeTuple(3, 1)))));
+
+    expect(dispute).toEqual({
+      disputeId: 3,
+      exchangeId: 12,
+      provider: PROVIDER,
+      receiver: RECEIVER,
+      status: DisputeStatus.RESOLVED,
+      outcome: DisputeOutcome.FAVOR_PROVIDER,
+      createdAt: 1000,
+      evidenceDeadline: 605800,
+      votingDeadline: 865000,
+      votesProvider: 2,
+      votesReceiver: 1,
+      votesSplit: 0,
+    });
+  });
+
+  it('returns null for missing disputes and arbitrators', () => {
+    expect(decodeDispute(9, disputeResult(responseOkCV(noneCV())))).toBeNull();
+    expect(decodeArbitratorInfo(PROVIDER, arbitratorResult(responseOkCV(noneCV())))).toBeNull();
+  });
+
+  it('decodes get-arbitrator-info responses', () => {
+    const info = decodeArbitratorInfo(
+      PROVIDER,
+      arbitratorResult(responseOkCV(
+        someCV(
+          tupleCV({
+            'reputation-score': uintCV(40),
+            'total-cases': uintCV(5),
+            'is-active': boolCV(true),
+            'joined-at': uintCV(1000),
+          })
+        )
+      ))
+    );
+
+    expect(info).toEqual({
+      arbitrator: PROVIDER,
+      reputationScore: 40,
+      totalCases: 5,
+      isActive: true,
+      joinedAt: 1000,
+    });
+  });
+
+  it('maps the contract phase flags to a phase', () => {
+    const pending = decodeDispute(1, disputeResult(responseOkCV(someCV(disputeTuple(1)))))!;
+    const resolved = decodeDispute(1, disputeResult(responseOkCV(someCV(disputeTuple(3, 3)))))!;
+
+    expect(getDisputePhase(pending, true, false)).toBe('evidence');
+    expect(getDisputePhase(pending, false, true)).toBe('voting');
+    expect(getDisputePhase(pending, false, false)).toBe('awaiting-resolution');
+    expect(getDisputePhase(resolved, false, false)).toBe('resolved');
+  });
+});
@@ -0,0 +1,101 @@
+// emergency-controls.test.ts — operation decoding and the write-hook pause guard
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import {
+  noneCV,
+  responseOkCV,
+  someCV,
+  standardPrincipalCV,
+  stringAsciiCV,
+  tupleCV,
+  uintCV,
+  boolCV,
+} from '@stacks/transactions';
+import { decodeOperation, describePause } from '@/lib/contracts/emergencyControls';
+import { getOperationCall } from '@/lib/contracts/generated/emergencyControls';
+import { usePauseGuard } from '@/hooks/useContracts';
+import type { PauseState } from '@/types/contracts';
+
+const pauseState: PauseState = { globalPaused: false, contractPaused: false };
+
+vi.mock('@/lib/contracts/emergencyControls', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/contracts/emergencyControls')>();
+  return {
+    ...actual,
+    getPauseState: vi.fn(async () => ({ ...pauseState })),
+  };
+});
+
+const ADMIN = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+beforeEach(() => {
+  pauseState.globalPaused = false;
+  pauseState.contractPaused = false;
+});
+
+describe('emergency-controls decoders', () => {
+  it('decodes get-operation responses through the generated binding', () => {
+    const { decode } = getOperationCall({ operationId: 2 });
+    const operation = decodeOperation(
+      2,
+      decode(responseOkCV(
+        someCV(
+          tupleCV({
+            'operation-type': stringAsciiCV('upgrade-exchange-manager'),
+            proposer: standardPrincipalCV(ADMIN),
+            'execute-after': uintCV(90000),
+            executed: boolCV(false),
+          })
+        )
+      ))
+    );
+
+    expect(operation).toEqual({
+      operationId: 2,
+      operationType: 'upgrade-exchange-manager',
+      proposer: ADMIN,
+      executeAfter: 90000,
+      executed: false,
+    });
+    expect(decodeOperation(3, decode(responseOkCV(noneCV())))).toBeNull();
+  });
+
+  it('explains global pauses before contract pauses', () => {
+    expect(describePause({ globalPaused: false, contractPaused: false })).toBeNull();
+    expect(describePause({ globalPaused: true, contractPaused: true })).toMatch(/protocol is paused/);
+    expect(describePause({ globalPaused: false, contractPaused: true })).toMatch(/contract is paused/);
+  });
+});
+
+describe('usePauseGuard', () => {
+  it('passes writes through while nothing is paused', async () => {
+    const write = vi.fn(async (id: number) => ({ success: true, txId: `0x${id}` }));
+    const { result } = renderHook(() => usePauseGuard('exchangeManager'));
+
+    let outcome: any;
+    await act(async () => {
+      outcome = await result.current.guard(write)(7);
+    });
+
+    expect(write).toHaveBeenCalledWith(7);
+    expect(outcome).toEqual({ success: true, txId: '0x7' });
+    expect(result.current.isPaused).toBe(false);
+  });
+
+  it('blocks writes once the contract is paused and exposes the banner message', async () => {
+    const write = vi.fn(async () => ({ success: true, txId: '0x1' }));
+    const { result } = renderHook(() => usePauseGuard('exchangeManager'));
+    await waitFor(() => expect(result.current.pauseMessage).toBeNull());
+
+    pauseState.contractPaused = true;
+    let outcome: any;
+    await act(async () => {
+      outcome = await result.current.guard(write)();
+    });
+
+    expect(write).not.toHaveBeenCalled();
+    expect(outcome).toEqual({ success: false, error: 'This contract is paused by emergency controls' });
+    expect(result.current.isPaused).toBe(true);
+    expect(result.current.pauseMessage).toMatch(/contract is paused/);
+  });
+});
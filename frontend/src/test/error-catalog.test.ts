@@ -0,0 +1,143 @@
+// error-catalog.test.ts — generated error catalog vs the contracts, and ErrorParser mapping
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { StacksNetwork } from '@stacks/network';
+import { CONTRACT_ERRORS } from '@/lib/clarity-types/error-constants';
+import {
+  buildErrorCatalog,
+  CONTRACT_ERROR_MESSAGES,
+  getContractError,
+  parseErrorConstants,
+  renderErrorConstants,
+} from '@/lib/clarity-types/error-catalog';
+import {
+  ContractError,
+  ErrorHandler,
+  ErrorParser,
+  StacksErrorType,
+} from '@/lib/error-handling';
+import { TransactionStatus, TransactionTracker } from '@/lib/transaction-tracker';
+
+const DEPLOYER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const CONTRACTS_DIR = path.resolve(__dirname, '../../../time-banking/contracts');
+
+const readContracts = (): Record<string, string> => {
+  const sources: Record<string, string> = {};
+  fs.readdirSync(CONTRACTS_DIR)
+    .filter((file) => file.endsWith('.clar'))
+    .forEach((file) => {
+      sources[path.basename(file, '.clar')] = fs.readFileSync(
+        path.join(CONTRACTS_DIR, file),
+        'utf8'
+      );
+    });
+  return sources;
+};
+
+describe('error catalog', () => {
+  const catalog = buildErrorCatalog(readContracts());
+
+  it('matches the ERR_* constants of every contract', () => {
+    // Fails when a contract's error constants change; re-run scripts/generate-error-catalog.ts
+    expect(CONTRACT_ERRORS).toEqual(catalog);
+  });
+
+  it('matches the generator output', () => {
+    const generated = fs.readFileSync(
+      path.resolve(__dirname, '../lib/clarity-types/error-constants.ts'),
+      'utf8'
+    );
+    expect(generated).toBe(renderErrorConstants(catalog));
+  });
+
+  it('only overrides messages for constants the contract declares', () => {
+    Object.entries(CONTRACT_ERROR_MESSAGES).forEach(([contract, messages]) => {
+      const declared: string[] = Object.values(catalog[contract] ?? {});
+      Object.keys(messages ?? {}).forEach((name) => {
+        expect(declared, `${contract}.${name}`).toContain(name);
+      });
+    });
+  });
+
+  it('parses error constants from Clarity source', () => {
+    expect(
+      parseErrorConstants(
+        '(define-constant ERR_UNAUTHORIZED (err u6001))\n(define-constant ERR_NOT_FOUND (err u6002))\n(define-constant MAX u10)'
+      )
+    ).toEqual({ 6001: 'ERR_UNAUTHORIZED', 6002: 'ERR_NOT_FOUND' });
+  });
+
+  it('resolves codes per contract', () => {
+    expect(getContractError('governance', 6002)?.message).toBe('Proposal not found');
+    expect(getContractError('automation-scheduler', 6002)?.message).toBe('Schedule not found');
+    expect(getContractError(`${DEPLOYER}.time-bank-core`, 1012)).toEqual({
+      contract: 'timeBankCore',
+      code: 1012,
+      name: 'ERR_USER_INACTIVE',
+      message: 'User is inactive',
+    });
+    expect(getContractError('timeBankCore', 1004)).toBeNull();
+    expect(getContractError('unknown-contract', 1001)).toBeNull();
+  });
+});
+
+describe('ErrorParser contract errors', () => {
+  it('maps (err uNNNN) results to a ContractError', () => {
+    const error = ErrorParser.parseContractError('(err u5009)', 'escrowManager');
+    expect(error).toBeInstanceOf(ContractError);
+    expect(error?.type).toBe(StacksErrorType.CONTRACT_ERROR);
+    expect(error?.errorName).toBe('ERR_ALREADY_RELEASED');
+    expect(error?.message).toBe('Escrow already released');
+    expect(ErrorHandler.getUserMessage(error!)).toBe('Escrow already released');
+
+    expect(ErrorParser.parseContractError('(ok true)', 'escrowManager')).toBeNull();
+  });
+
+  it('detects contract errors in thrown messages when the contract is known', () => {
+    const error = ErrorParser.parseError(
+      new Error('Transaction failed: (err u4005)'),
+      'reputationSystem'
+    );
+    expect(error).toBeInstanceOf(ContractError);
+    expect(error.message).toBe('Already endorsed this user');
+
+    expect(ErrorParser.parseError(new Error('(err u4005)'))).not.toBeInstanceOf(ContractError);
+    expect(new ContractError('governance', 6100).message).toBe('Unknown error (code: 6100)');
+  });
+});
+
+describe('TransactionTracker contract errors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('maps the result of a call that aborted by response through the error catalog', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        new Response(
+          JSON.stringify({
+            tx_status: 'abort_by_response',
+            tx_result: { repr: '(err u5009)' },
+            contract_call: { contract_id: `${DEPLOYER}.escrow-manager` },
+          })
+        )
+      )
+    );
+    const tracker = new TransactionTracker({
+      network: { coreApiUrl: 'http://node.test/v2' } as unknown as StacksNetwork,
+      pollInterval: 5,
+    });
+    tracker.track('0xrelease');
+
+    await vi.waitFor(() =>
+      expect(tracker.getStatus('0xrelease')?.status).toBe(TransactionStatus.ABORT_BY_RESPONSE)
+    );
+    const tx = tracker.getStatus('0xrelease')!;
+    expect(tx.contractError).toBeInstanceOf(ContractError);
+    expect(tx.contractError?.errorName).toBe('ERR_ALREADY_RELEASED');
+    expect(tx.error).toBe('Escrow already released');
+    tracker.destroy();
+  });
+});
@@ -0,0 +1,34 @@
+// event-decoder.test.ts — print payloads given as plain or cvToJSON-shaped tuples
+import { describe, it, expect } from 'vitest';
+import { Cl, cvToJSON } from '@stacks/transactions';
+import { createEventDecoder } from '@/lib/event-decoder';
+
+const decoder = createEventDecoder();
+
+describe('EventDecoder.decodePrintValue', () => {
+  it('unwraps cvToJSON nodes', () => {
+    const payload = cvToJSON(
+      Cl.tuple({
+        event: Cl.stringAscii('match-accepted'),
+        'match-id': Cl.uint(4),
+        timestamp: Cl.uint(1700000000),
+      })
+    );
+
+    expect(decoder.decodePrintValue(payload.value, { txId: '0x1' })).toMatchObject({
+      event: 'match-accepted',
+      matchId: 4,
+      timestamp: 1700000000,
+    });
+  });
+
+  it('keeps a printed tuple whose own fields are named type and value', () => {
+    const decoded = decoder.decodePrintValue({
+      event: 'config-updated',
+      type: 'min-transfer-amount',
+      value: 5,
+    });
+
+    expect(decoded).toMatchObject({ event: 'config-updated' });
+  });
+});
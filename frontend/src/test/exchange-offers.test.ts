@@ -0,0 +1,194 @@
+// exchange-offers.test.ts — SIP-018 signed exchange offers, withdrawals and acceptance checks
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getAddressFromPublicKey,
+  privateKeyToPublic,
+  signStructuredData as signStructuredDataWithKey,
+} from '@stacks/transactions';
+import { buildSIP018Payload } from '@/lib/connect';
+import { buildStructuredMessage, type MessageSigner } from '@/lib/message-signing';
+import { getContractIdentifier } from '@/lib/contractConfig';
+import {
+  buildOfferMessage,
+  buildWithdrawalMessage,
+  createOfferNonce,
+  getOfferAcceptError,
+  parseSignedOffer,
+  signOffer,
+  validateOfferTerms,
+  verifyAcceptanceTransaction,
+  verifyOfferSignature,
+  verifyWithdrawalSignature,
+  type ExchangeOffer,
+  type ExchangeOfferTerms,
+} from '@/lib/exchange-offers';
+
+const PRIVATE_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const PROVIDER = getAddressFromPublicKey(privateKeyToPublic(PRIVATE_KEY), 'testnet');
+const REQUESTER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const NOW = 1800000000;
+const TX_ID = `0x${'ab'.repeat(32)}`;
+
+const terms: ExchangeOfferTerms = {
+  provider: PROVIDER,
+  skillId: 3,
+  hours: 2,
+  hourlyRate: 5,
+  scheduledStart: NOW + 86400,
+  scheduledEnd: NOW + 86400 + 7200,
+  expiresAt: NOW + 3600,
+  nonce: '0123456789abcdef0123456789abcdef',
+};
+
+const signWithKey = (message: Record<string, string | number>) =>
+  signStructuredDataWithKey({
+    ...buildSIP018Payload(buildStructuredMessage(message), 'testnet'),
+    privateKey: PRIVATE_KEY,
+  });
+
+const openOffer = (overrides: Partial<ExchangeOffer> = {}): ExchangeOffer => ({
+  ...terms,
+  signature: signWithKey(buildOfferMessage(terms)),
+  id: '1',
+  status: 'open',
+  createdAt: NOW * 1000,
+  ...overrides,
+});
+
+describe('offer terms', () => {
+  it('accepts well-formed terms', () => {
+    expect(validateOfferTerms(terms, NOW)).toEqual([]);
+    expect(createOfferNonce()).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('rejects windows the contract would refuse and offers outliving their window', () => {
+    const errors = validateOfferTerms(
+      { ...terms, scheduledEnd: terms.scheduledStart + 600, expiresAt: terms.scheduledStart + 1 },
+      NOW
+    );
+
+    expect(errors).toContain('Exchange window must be between 1 and 24 hours');
+    expect(errors).toContain('Offer must expire before the exchange window starts');
+    expect(validateOfferTerms({ ...terms, expiresAt: NOW }, NOW)).toContain(
+      'Offer must expire in the future'
+    );
+    expect(validateOfferTerms({ ...terms, requester: PROVIDER }, NOW)).toContain(
+      'Provider cannot make an offer to themselves'
+    );
+  });
+
+  it('parses signed offers from request bodies', () => {
+    const body = { ...terms, signature: '00', extra: true };
+
+    expect(parseSignedOffer(body)).toEqual({ ...terms, signature: '00' });
+    expect(parseSignedOffer({ ...body, hours: '2' })).toBeNull();
+    expect(parseSignedOffer(null)).toBeNull();
+  });
+});
+
+describe('offer signatures', () => {
+  it('verifies offers signed by their provider and rejects altered terms', () => {
+    const offer = { ...terms, signature: signWithKey(buildOfferMessage(terms)) };
+
+    expect(verifyOfferSignature(offer)).toBe(true);
+    expect(verifyOfferSignature({ ...offer, hourlyRate: 1 })).toBe(false);
+    expect(verifyOfferSignature({ ...offer, requester: REQUESTER })).toBe(false);
+    expect(verifyOfferSignature({ ...offer, provider: REQUESTER })).toBe(false);
+  });
+
+  it('does not accept an offer signature as a withdrawal', () => {
+    const offerSignature = signWithKey(buildOfferMessage(terms));
+    const withdrawal = { provider: PROVIDER, nonce: terms.nonce };
+
+    expect(verifyWithdrawalSignature({ ...withdrawal, signature: offerSignature })).toBe(false);
+    expect(
+      verifyWithdrawalSignature({
+        ...withdrawal,
+        signature: signWithKey(buildWithdrawalMessage(withdrawal)),
+      })
+    ).toBe(true);
+  });
+
+  it('refuses offers a different wallet signed', async () => {
+    const signer = {
+      signStructuredData: vi.fn().mockResolvedValue({ signature: '00', address: REQUESTER }),
+    } as unknown as MessageSigner;
+
+    await expect(signOffer(signer, terms)).rejects.toThrow('signed by the provider');
+  });
+});
+
+describe('offer acceptance', () => {
+  const fetchMock = vi.fn();
+
+  const contractCall = (overrides: Record<string, unknown> = {}) => ({
+    tx_type: 'contract_call',
+    tx_status: 'pending',
+    sender_address: REQUESTER,
+    contract_call: {
+      contract_id: getContractIdentifier('exchangeManager'),
+      function_name: 'create-exchange-request',
+      function_args: [
+        { repr: `'${PROVIDER}` },
+        { repr: 'u3' },
+        { repr: 'u2' },
+        { repr: '"Offer #1"' },
+        { repr: `u${terms.scheduledStart}` },
+        { repr: `u${terms.scheduledEnd}` },
+      ],
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.useFakeTimers({ now: NOW * 1000 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('explains why an offer cannot be accepted', () => {
+    expect(getOfferAcceptError(openOffer(), REQUESTER, NOW)).toBeNull();
+    expect(getOfferAcceptError(openOffer(), PROVIDER, NOW)).toMatch(/own offer/);
+    expect(getOfferAcceptError(openOffer({ status: 'withdrawn' }), REQUESTER, NOW)).toBe(
+      'Offer is withdrawn'
+    );
+    expect(getOfferAcceptError(openOffer(), REQUESTER, terms.expiresAt)).toBe('Offer has expired');
+    expect(
+      getOfferAcceptError(openOffer({ requester: 'ST1OTHER' }), REQUESTER, NOW)
+    ).toMatch(/another requester/);
+  });
+
+  it('takes the requester from a matching create-exchange-request', async () => {
+    fetchMock.mockResolvedValue({ ok: true, json: async () => contractCall() });
+
+    await expect(verifyAcceptanceTransaction(openOffer(), TX_ID)).resolves.toEqual({
+      requester: REQUESTER,
+    });
+    expect(fetchMock.mock.calls[0][0]).toMatch(new RegExp(`/extended/v1/tx/${TX_ID}$`));
+  });
+
+  it('rejects transactions for other terms or that failed', async () => {
+    const mismatched = contractCall();
+    mismatched.contract_call.function_args[2] = { repr: 'u8' };
+    fetchMock.mockResolvedValueOnce({ ok: true, json: async () => mismatched });
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      json: async () => contractCall({ tx_status: 'abort_by_response' }),
+    });
+    fetchMock.mockResolvedValueOnce({ ok: false, json: async () => ({}) });
+
+    await expect(verifyAcceptanceTransaction(openOffer(), TX_ID)).resolves.toEqual({
+      error: 'Transaction does not match the offer terms',
+    });
+    await expect(verifyAcceptanceTransaction(openOffer(), TX_ID)).resolves.toEqual({
+      error: 'Transaction failed (abort_by_response)',
+    });
+    await expect(verifyAcceptanceTransaction(openOffer(), TX_ID)).resolves.toEqual({
+      error: `Transaction ${TX_ID} not found`,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+// fee-strategies.test.ts — mempool-aware fee strategy tests
+import { describe, it, expect, vi } from 'vitest';
+import type { FeeEstimator } from '@/lib/fee-estimator';
+import {
+  MempoolFeeStrategy,
+  MinFeeStrategy,
+  AverageFeeStrategy,
+  HighPriorityFeeStrategy,
+  createFeeStrategy,
+  resolveFee,
+} from '@/lib/transactions/fee-strategies';
+
+const TX_HEX = '0x80800000000400c0ffee';
+
+function createEstimator(options: { mempool?: number; blocks?: number } = {}) {
+  const estimate = (fee: number) => ({
+    low: BigInt(fee / 2),
+    medium: BigInt(fee),
+    high: BigInt(fee * 2),
+    recommended: BigInt(fee),
+    estimatedAt: Date.now(),
+  });
+  const percentiles = (fee: number) => ({
+    p25: BigInt(fee / 2),
+    p50: BigInt(fee),
+    p75: BigInt(fee * 2),
+    p95: BigInt(fee * 4),
+    sampleSize: 50,
+  });
+
+  return {
+    estimateTransactionFee: vi.fn(() =>
+      options.mempool !== undefined
+        ? Promise.resolve(estimate(options.mempool))
+        : Promise.reject(new Error('offline'))
+    ),
+    getRecentFeePercentiles: vi.fn(() =>
+      options.blocks !== undefined
+        ? Promise.resolve(percentiles(options.blocks))
+        : Promise.reject(new Error('offline'))
+    ),
+  } as unknown as FeeEstimator & {
+    estimateTransactionFee: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe('MempoolFeeStrategy', () => {
+  it('prices the serialized transaction against the mempool estimate', async () => {
+    const estimator = createEstimator({ mempool: 1000 });
+
+    const fee = await new MempoolFeeStrategy(estimator).estimateFee(TX_HEX);
+
+    expect(estimator.estimateTransactionFee).toHaveBeenCalledWith(TX_HEX);
+    expect(fee).toBe(BigInt(1000));
+  });
+
+  it('blends the mempool estimate with recent block fees', async () => {
+    const estimator = createEstimator({ mempool: 1000, blocks: 2000 });
+
+    const fee = await new MempoolFeeStrategy(estimator, { blockFeeWeight: 0.5 }).estimateFee(TX_HEX);
+
+    expect(fee).toBe(BigInt(1500));
+  });
+
+  it('uses the priority level of each source', async () => {
+    const estimator = createEstimator({ mempool: 1000, blocks: 1000 });
+
+    const fee = await new MempoolFeeStrategy(estimator, { priority: 'high', blockFeeWeight: 0.5 })
+      .estimateFee(TX_HEX);
+
+    // mempool high = 2000, block p95 = 4000
+    expect(fee).toBe(BigInt(3000));
+  });
+
+  it('enforces the user fee cap', async () => {
+    const estimator = createEstimator({ mempool: 50000 });
+
+    const fee = await new MempoolFeeStrategy(estimator, { maxFee: BigInt(10000) }).estimateFee(TX_HEX);
+
+    expect(fee).toBe(BigInt(10000));
+  });
+
+  it('falls back to the static tiers when offline', async () => {
+    const estimator = createEstimator();
+
+    expect(await new MempoolFeeStrategy(estimator, { priority: 'low' }).estimateFee(TX_HEX))
+      .toBe(new MinFeeStrategy().estimateFee());
+    expect(await new MempoolFeeStrategy(estimator).estimateFee(TX_HEX))
+      .toBe(new AverageFeeStrategy().estimateFee());
+    expect(await new MempoolFeeStrategy(estimator, { priority: 'high' }).estimateFee(TX_HEX))
+      .toBe(new HighPriorityFeeStrategy().estimateFee());
+  });
+
+  it('never goes below the minimum fee', async () => {
+    const estimator = createEstimator({ mempool: 10 });
+
+    expect(await new MempoolFeeStrategy(estimator).estimateFee(TX_HEX)).toBe(BigInt(180));
+  });
+});
+
+describe('createFeeStrategy', () => {
+  it('resolves static strategies by name', async () => {
+    expect(await resolveFee(createFeeStrategy('min'))).toBe(BigInt(180));
+    expect(await resolveFee(createFeeStrategy('average'))).toBe(BigInt(500));
+    expect(await resolveFee(createFeeStrategy('high'))).toBe(BigInt(1500));
+  });
+
+  it('builds a mempool strategy when given an estimator', async () => {
+    const estimator = createEstimator({ mempool: 800 });
+
+    const strategy = createFeeStrategy('mempool', { estimator, blockFeeWeight: 0 });
+
+    expect(strategy).toBeInstanceOf(MempoolFeeStrategy);
+    expect(await resolveFee(strategy, TX_HEX)).toBe(BigInt(800));
+  });
+});
@@ -0,0 +1,110 @@
+// insurance-pool.test.ts — decoders and claim eligibility for the insurance-pool contract
+import { describe, it, expect } from 'vitest';
+import {
+  boolCV,
+  noneCV,
+  responseOkCV,
+  someCV,
+  standardPrincipalCV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import {
+  canFileClaim,
+  decodeClaim,
+  decodeContributor,
+} from '@/lib/contracts/insurancePool';
+import { getClaimInfoCall, getContributorInfoCall } from '@/lib/contracts/generated/insurancePool';
+import { ClaimStatus, ExchangeStatus, ServiceExchange } from '@/types/contracts';
+
+const REQUESTER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const PROVIDER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const exchange = (status: ServiceExchange['status']): ServiceExchange => ({
+  exchangeId: 7,
+  requester: REQUESTER,
+  provider: PROVIDER,
+  skillId: 1,
+  description: 'Plumbing',
+  hoursRequested: 2,
+  hourlyRate: 1,
+  totalCredits: 2,
+  scheduledStart: 1000,
+  scheduledEnd: 8200,
+  status,
+  createdAt: 500,
+  requesterConfirmed: false,
+  providerConfirmed: false,
+});
+
+describe('insurance-pool decoders', () => {
+  it('decodes get-claim-info responses through the generated binding', () => {
+    const claim = decodeClaim(
+      4,
+      getClaimInfoCall({ claimId: 4 }).decode(responseOkCV(
+        someCV(
+          tupleCV({
+            claimant: standardPrincipalCV(REQUESTER),
+            'exchange-id': uintCV(7),
+            amount: uintCV(2),
+            status: uintCV(2),
+            'filed-at': uintCV(9000),
+            'reviewed-at': someCV(uintCV(9600)),
+          })
+        )
+      ))
+    );
+
+    expect(claim).toEqual({
+      claimId: 4,
+      claimant: REQUESTER,
+      exchangeId: 7,
+      amount: 2,
+      status: ClaimStatus.APPROVED,
+      filedAt: 9000,
+      reviewedAt: 9600,
+    });
+  });
+
+  it('decodes contributors and returns null for missing entries', () => {
+    const { decode } = getContributorInfoCall({ contributor: PROVIDER });
+
+    expect(decodeClaim(5, getClaimInfoCall({ claimId: 5 }).decode(responseOkCV(noneCV())))).toBeNull();
+    expect(decodeContributor(PROVIDER, decode(responseOkCV(noneCV())))).toBeNull();
+
+    const contributor = decodeContributor(
+      PROVIDER,
+      decode(responseOkCV(
+        someCV(
+          tupleCV({
+            'total-contributed': uintCV(50),
+            'coverage-amount': uintCV(0),
+            'is-active': boolCV(true),
+            'joined-at': uintCV(1000),
+          })
+        )
+      ))
+    );
+
+    expect(contributor).toEqual({
+      contributor: PROVIDER,
+      totalContributed: 50,
+      coverageAmount: 0,
+      isActive: true,
+      joinedAt: 1000,
+    });
+  });
+});
+
+describe('canFileClaim', () => {
+  it('lets the receiver claim cancelled or expired exchanges', () => {
+    expect(canFileClaim(exchange(ExchangeStatus.CANCELLED), false, REQUESTER)).toBe(true);
+    expect(canFileClaim(exchange(ExchangeStatus.ACCEPTED), true, REQUESTER)).toBe(true);
+    expect(canFileClaim(exchange(ExchangeStatus.ACCEPTED), false, REQUESTER)).toBe(false);
+    expect(canFileClaim(exchange(ExchangeStatus.COMPLETED), true, REQUESTER)).toBe(false);
+  });
+
+  it('does not let the provider claim', () => {
+    expect(canFileClaim(exchange(ExchangeStatus.CANCELLED), true, PROVIDER)).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+// message-signing.test.ts — plain message signatures
+import { describe, it, expect } from 'vitest';
+import { bytesToHex } from '@stacks/common';
+import { hashMessage } from '@stacks/encryption';
+import {
+  getAddressFromPublicKey,
+  privateKeyToPublic,
+  signMessageHashRsv,
+} from '@stacks/transactions';
+import { verifyMessageSignature } from '@/lib/message-signing';
+
+const PRIVATE_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const ADDRESS = getAddressFromPublicKey(privateKeyToPublic(PRIVATE_KEY), 'testnet');
+
+const signWithKey = (message: string) =>
+  signMessageHashRsv({ messageHash: bytesToHex(hashMessage(message)), privateKey: PRIVATE_KEY });
+
+describe('verifyMessageSignature', () => {
+  it('recovers the address that signed a message', () => {
+    const signature = signWithKey('hello');
+
+    expect(verifyMessageSignature('hello', signature, ADDRESS)).toMatchObject({
+      valid: true,
+      address: ADDRESS,
+    });
+    expect(verifyMessageSignature('hello!', signature, ADDRESS).valid).toBe(false);
+    expect(verifyMessageSignature('hello', 'not a signature').valid).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+// nonce-manager.test.ts — gap detection and repair against a stubbed network client
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { randomPrivateKey, getAddressFromPrivateKey } from '@stacks/transactions';
+import { NonceManager } from '@/lib/nonce-manager';
+import { CallStatus } from '@/lib/connect/contract-call-flow';
+import { CANCEL_RECIPIENTS } from '@/lib/transactions/replace-by-fee';
+import type { StacksNetworkClient } from '@/lib/stacks-network-client';
+
+const NODE_URL = 'http://node.test';
+const senderKey = randomPrivateKey();
+const address = getAddressFromPrivateKey(senderKey, 'testnet');
+
+const client = {
+  getPrimaryEndpoint: () => NODE_URL,
+  getNetwork: () => 'testnet',
+} as unknown as StacksNetworkClient;
+
+let nonces: Record<string, unknown>;
+let nonceStatus: number;
+
+beforeEach(() => {
+  nonceStatus = 200;
+  nonces = {
+    last_executed_tx_nonce: 10,
+    last_mempool_tx_nonce: 12,
+    possible_next_nonce: 13,
+    detected_missing_nonces: [11],
+  };
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => new Response(JSON.stringify(nonces), { status: nonceStatus }))
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('NonceManager gap detection', () => {
+  it('reports nonces missing below pending transactions', async () => {
+    const manager = new NonceManager(client);
+
+    const report = await manager.detectGaps(address);
+
+    expect(report).toMatchObject({
+      missingNonces: [11],
+      localState: 'unknown',
+      lastExecutedNonce: 10,
+      possibleNextNonce: 13,
+    });
+  });
+
+  it('flags a local counter that is behind or ahead of the chain', async () => {
+    const manager = new NonceManager(client);
+    await manager.getNextNonce(address); // hands out 13, which reaches the mempool
+    nonces = { ...nonces, last_mempool_tx_nonce: 13, possible_next_nonce: 14 };
+
+    expect((await manager.detectGaps(address)).localState).toBe('in-sync');
+
+    await manager.getNextNonce(address); // 14 never broadcast
+    expect((await manager.detectGaps(address)).localState).toBe('ahead');
+
+    nonces = { ...nonces, last_executed_tx_nonce: 20, possible_next_nonce: 21 };
+    expect((await manager.detectGaps(address)).localState).toBe('behind');
+  });
+
+  it('fills gaps with minimum-fee wallet transfers and resyncs the counter', async () => {
+    const manager = new NonceManager(client);
+    await manager.getNextNonce(address);
+    await manager.getNextNonce(address);
+    const transfer = vi.fn(async () => ({ status: CallStatus.Success, txId: '0xc0ffee1' }));
+
+    const result = await manager.repair(address, transfer);
+
+    expect(result.filled).toEqual([{ nonce: 11, txId: '0xc0ffee1' }]);
+    expect(result.failed).toEqual([]);
+    expect(result.nextNonce).toBe(13);
+    expect(transfer).toHaveBeenCalledWith({
+      recipient: CANCEL_RECIPIENTS.testnet,
+      amount: 1,
+      memo: 'nonce gap',
+      fee: BigInt(180),
+      nonce: 11,
+      network: 'testnet',
+    });
+
+    expect((await manager.getNextNonce(address)).nonce).toBe(13);
+  });
+
+  it('stops asking the wallet once the user cancels a filler', async () => {
+    nonces = { ...nonces, detected_missing_nonces: [9, 11] };
+    const manager = new NonceManager(client);
+    const transfer = vi.fn(async () => ({ status: CallStatus.Cancelled, error: 'Request cancelled' }));
+
+    const result = await manager.repair(address, transfer);
+
+    expect(transfer).toHaveBeenCalledTimes(1);
+    expect(result.failed).toEqual([{ nonce: 9, error: 'Request cancelled' }]);
+  });
+
+  it('surfaces nonce lookup failures instead of guessing nonce 0', async () => {
+    nonceStatus = 503;
+    const manager = new NonceManager(client);
+
+    await expect(manager.getNextNonce(address)).rejects.toThrow(`Failed to fetch nonces for ${address}: 503`);
+    await expect(manager.detectGaps(address)).rejects.toThrow('503');
+  });
+
+  it('refuses to reuse a nonce that has already been executed', async () => {
+    const manager = new NonceManager(client);
+
+    await expect(manager.reuseNonce(address, 10)).rejects.toThrow('already been executed');
+    expect(await manager.reuseNonce(address, 12)).toMatchObject({ nonce: 12, source: 'replacement' });
+  });
+});
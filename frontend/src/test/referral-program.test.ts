@@ -0,0 +1,111 @@
+// referral-program.test.ts — decoders, share links and referral-used event attribution
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  Cl,
+  ClarityValue,
+  noneCV,
+  responseOkCV,
+  serializeCV,
+  someCV,
+  standardPrincipalCV,
+  stringAsciiCV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import {
+  buildReferralLink,
+  captureReferralCode,
+  decodeReferralData,
+  getOwnReferralCode,
+  getPendingReferralCode,
+  getReferralsFromEvents,
+} from '@/lib/contracts/referralProgram';
+import { getUserDataCall } from '@/lib/contracts/generated/referralProgram';
+import { createEventDecoder } from '@/lib/event-decoder';
+
+const REFERRER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const REFEREE = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const OTHER = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+
+const userData = (referrer: ReturnType<typeof noneCV> | ReturnType<typeof someCV>, code: string) =>
+  responseOkCV(
+    someCV(
+      tupleCV({
+        referrer,
+        'referral-code': stringAsciiCV(code),
+        'total-referrals': uintCV(2),
+        'total-rewards': uintCV(20),
+        'created-at': uintCV(1700000000),
+      })
+    )
+  );
+
+const referralUsed = (referrer: string, referee: string, timestamp: number) =>
+  `0x${serializeCV(
+    Cl.tuple({
+      event: Cl.stringAscii('referral-used'),
+      referrer: Cl.standardPrincipal(referrer),
+      referee: Cl.standardPrincipal(referee),
+      code: Cl.stringAscii('alice'),
+      'referrer-reward': Cl.uint(10),
+      'referee-reward': Cl.uint(5),
+      timestamp: Cl.uint(timestamp),
+    })
+  )}`;
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+describe('referral-program decoders', () => {
+  it('treats the stored code as the user\'s own only when they were not referred', () => {
+    const decode = (user: string, cv: ClarityValue) =>
+      decodeReferralData(user, getUserDataCall({ user }).decode(cv));
+    const own = decode(REFERRER, userData(noneCV(), 'alice'));
+    const referred = decode(REFEREE, userData(someCV(standardPrincipalCV(REFERRER)), 'alice'));
+
+    expect(own).toEqual({
+      user: REFERRER,
+      referrer: undefined,
+      referralCode: 'alice',
+      totalReferrals: 2,
+      totalRewards: 20,
+      createdAt: 1700000000,
+    });
+    expect(referred?.referrer).toBe(REFERRER);
+    expect(getOwnReferralCode(own)).toBe('alice');
+    expect(getOwnReferralCode(referred)).toBeNull();
+    expect(decode(OTHER, responseOkCV(noneCV()))).toBeNull();
+  });
+});
+
+describe('referral links', () => {
+  it('builds ?ref= links and only captures URL-safe codes', () => {
+    expect(buildReferralLink('alice-teaches', 'https://timebank.app/')).toBe(
+      'https://timebank.app/?ref=alice-teaches'
+    );
+
+    expect(captureReferralCode(['alice'])).toBeNull();
+    expect(captureReferralCode('not a code!')).toBeNull();
+    expect(getPendingReferralCode()).toBeNull();
+
+    expect(captureReferralCode('alice')).toBe('alice');
+    expect(getPendingReferralCode()).toBe('alice');
+  });
+});
+
+describe('referral attribution', () => {
+  it('lists referrals credited to a referrer from decoded referral-used events, newest first', () => {
+    const decoder = createEventDecoder();
+    const events = [
+      decoder.decodePrintValue(referralUsed(REFERRER, REFEREE, 100), { txId: '0x1' }),
+      decoder.decodePrintValue(referralUsed(OTHER, REFEREE, 200), { txId: '0x2' }),
+      decoder.decodePrintValue(referralUsed(REFERRER, OTHER, 300), { txId: '0x3' }),
+    ].flatMap((event) => (event ? [event] : []));
+
+    expect(getReferralsFromEvents(events, REFERRER)).toEqual([
+      { referee: OTHER, code: 'alice', referrerReward: 10, refereeReward: 5, timestamp: 300, txId: '0x3' },
+      { referee: REFEREE, code: 'alice', referrerReward: 10, refereeReward: 5, timestamp: 100, txId: '0x1' },
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+// replace-by-fee.test.ts — speed-up/cancel wallet requests and replacement chain tracking
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  getAddressFromPrivateKey,
+  makeContractCall,
+  Pc,
+  PostConditionMode,
+  randomPrivateKey,
+  uintCV,
+} from '@stacks/transactions';
+import type { StacksNetwork } from '@stacks/network';
+import {
+  buildCancelRequest,
+  buildSpeedUpRequest,
+  CANCEL_RECIPIENTS,
+  minimumReplacementFee,
+} from '@/lib/transactions/replace-by-fee';
+import { CallStatus } from '@/lib/connect/contract-call-flow';
+import { TransactionReplacer } from '@/lib/transaction-replacement';
+import { TransactionStatus, TransactionTracker } from '@/lib/transaction-tracker';
+import type { NonceManager } from '@/lib/nonce-manager';
+import type { StacksNetworkClient } from '@/lib/stacks-network-client';
+
+const senderKey = randomPrivateKey();
+const network = 'testnet' as const;
+const sender = getAddressFromPrivateKey(senderKey, network);
+const postCondition = Pc.principal(sender).willSendLte(5).ustx();
+
+function buildOriginal() {
+  return makeContractCall({
+    contractAddress: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
+    contractName: 'time-bank-core',
+    functionName: 'transfer-credits',
+    functionArgs: [uintCV(5)],
+    postConditions: [postCondition],
+    postConditionMode: PostConditionMode.Deny,
+    senderKey,
+    network,
+    nonce: 7,
+    fee: 1000,
+  });
+}
+
+describe('replace-by-fee requests', () => {
+  it('requires the minimum fee bump', () => {
+    expect(minimumReplacementFee(BigInt(1000))).toBe(BigInt(1100));
+    expect(minimumReplacementFee(BigInt(1))).toBe(BigInt(2));
+  });
+
+  it('asks the wallet to re-send a contract call at the same nonce with a higher fee', async () => {
+    const original = await buildOriginal();
+    const request = buildSpeedUpRequest(original.serialize(), { network });
+
+    expect(request).toEqual({
+      contractAddress: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
+      contractName: 'time-bank-core',
+      functionName: 'transfer-credits',
+      functionArgs: [uintCV(5)],
+      postConditions: [postCondition],
+      postConditionMode: 'deny',
+      network,
+      nonce: BigInt(7),
+      fee: BigInt(1100),
+    });
+  });
+
+  it('cancels with a one micro-STX transfer to the burn address', async () => {
+    const original = await buildOriginal();
+    const request = buildCancelRequest(original, { network, fee: BigInt(5000) });
+
+    expect(request).toMatchObject({
+      recipient: CANCEL_RECIPIENTS.testnet,
+      amount: 1,
+      nonce: BigInt(7),
+      fee: BigInt(5000),
+    });
+  });
+
+  it('rejects fees that do not outbid the original', async () => {
+    const original = await buildOriginal();
+
+    expect(() => buildSpeedUpRequest(original, { network, fee: BigInt(1050) })).toThrow(
+      'at least 1100'
+    );
+  });
+});
+
+describe('TransactionTracker replacement chains', () => {
+  const statuses = new Map<string, string>();
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    statuses.clear();
+  });
+
+  function createTracker() {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        const txId = url.split('/').pop()!;
+        return new Response(JSON.stringify({ tx_status: statuses.get(txId) ?? 'pending' }));
+      })
+    );
+    return new TransactionTracker({
+      network: { coreApiUrl: 'http://node.test/v2' } as unknown as StacksNetwork,
+      pollInterval: 5,
+      maxAttempts: 50,
+    });
+  }
+
+  it('links replacements and settles the chain when one is mined', async () => {
+    const tracker = createTracker();
+    tracker.track('0xoriginal');
+    tracker.trackReplacement('0xoriginal', '0xspeedup', 'speed-up');
+    tracker.trackReplacement('0xspeedup', '0xcancel', 'cancel');
+
+    expect(tracker.getReplacementChain('0xspeedup').map(tx => tx.txId)).toEqual([
+      '0xoriginal',
+      '0xspeedup',
+      '0xcancel',
+    ]);
+    expect(tracker.getStatus('0xcancel')).toMatchObject({ replaces: '0xspeedup', replacementKind: 'cancel' });
+
+    statuses.set('0xspeedup', 'success');
+    await vi.waitFor(() => expect(tracker.getConfirmedInChain('0xoriginal')?.txId).toBe('0xspeedup'));
+
+    expect(tracker.getStatus('0xoriginal')?.status).toBe(TransactionStatus.REPLACED);
+    expect(tracker.getStatus('0xcancel')?.status).toBe(TransactionStatus.REPLACED);
+    expect(tracker.getPending()).toEqual([]);
+    tracker.destroy();
+  });
+
+  it('marks transactions the node dropped for a higher fee as replaced', async () => {
+    const tracker = createTracker();
+    statuses.set('0xstuck', 'dropped_replace_by_fee');
+    tracker.track('0xstuck');
+
+    await vi.waitFor(() => expect(tracker.getStatus('0xstuck')?.status).toBe(TransactionStatus.REPLACED));
+    expect(tracker.getCompleted().map(tx => tx.txId)).toEqual(['0xstuck']);
+    tracker.destroy();
+  });
+});
+
+describe('TransactionReplacer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function createReplacer() {
+    const raw = (await buildOriginal()).serialize();
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        url.endsWith('/raw')
+          ? new Response(JSON.stringify({ raw_tx: raw }))
+          : new Response(JSON.stringify({ tx_status: 'pending' }))
+      )
+    );
+    const networkClient = {
+      getPrimaryEndpoint: () => 'http://node.test',
+      getNetwork: () => 'testnet',
+    } as unknown as StacksNetworkClient;
+    const nonceManager = {
+      reuseNonce: vi.fn(async (address: string, nonce: number) => ({
+        address,
+        nonce,
+        source: 'replacement',
+        fetchedAt: Date.now(),
+      })),
+    } as unknown as NonceManager;
+    const tracker = new TransactionTracker({
+      network: { coreApiUrl: 'http://node.test/v2' } as unknown as StacksNetwork,
+      pollInterval: 1000,
+      maxAttempts: 1,
+    });
+    const wallet = {
+      callContract: vi.fn(async () => ({ status: CallStatus.Success, txId: '0xspeedup' })),
+      transfer: vi.fn(async () => ({ status: CallStatus.Cancelled, error: 'Request cancelled' })),
+    };
+    tracker.track('0xoriginal', { label: 'Registration' });
+    return { replacer: new TransactionReplacer(networkClient, nonceManager, tracker, wallet), tracker, wallet };
+  }
+
+  it('has the wallet sign a speed-up and tracks it in the chain', async () => {
+    const { replacer, tracker, wallet } = await createReplacer();
+
+    const result = await replacer.speedUp('0xoriginal', sender);
+
+    expect(wallet.callContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: 'transfer-credits', nonce: BigInt(7), fee: BigInt(1100) })
+    );
+    expect(result).toEqual({
+      txId: '0xspeedup',
+      replaces: '0xoriginal',
+      kind: 'speed-up',
+      nonce: 7,
+      fee: BigInt(1100),
+    });
+    expect(tracker.getStatus('0xspeedup')).toMatchObject({
+      replaces: '0xoriginal',
+      metadata: { label: 'Registration' },
+    });
+    tracker.destroy();
+  });
+
+  it('does not track a replacement the wallet did not broadcast', async () => {
+    const { replacer, tracker } = await createReplacer();
+
+    await expect(replacer.cancel('0xoriginal', sender)).rejects.toThrow('Request cancelled');
+    expect(tracker.getReplacementChain('0xoriginal')).toHaveLength(1);
+    tracker.destroy();
+  });
+
+  it('refuses to replace a transaction sent from another address', async () => {
+    const { replacer, wallet, tracker } = await createReplacer();
+    const other = getAddressFromPrivateKey(randomPrivateKey(), network);
+
+    await expect(replacer.speedUp('0xoriginal', other)).rejects.toThrow(`was not sent by ${other}`);
+    expect(wallet.callContract).not.toHaveBeenCalled();
+    tracker.destroy();
+  });
+});
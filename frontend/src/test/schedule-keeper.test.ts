@@ -0,0 +1,170 @@
+// schedule-keeper.test.ts — claim-based idempotency across concurrent keepers
+import { describe, it, expect, vi } from 'vitest';
+import * as path from 'path';
+import { newDb } from 'pg-mem';
+import type { Pool } from 'pg';
+import {
+  PostgresKeeperClaimStore,
+  runKeeperPass,
+  type KeeperClaimStore,
+} from '@/lib/schedule-keeper';
+import type { TxOutcome } from '@/lib/transactions/broadcast-manager';
+import { MigrationRunner } from '@/lib/realtime/migration-runner';
+import { ScheduleType, type AutomationSchedule } from '@/types/contracts';
+
+const OWNER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const TUTOR = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const NOW = 1_700_000_000;
+const MIGRATIONS_DIR = path.join(__dirname, '../lib/realtime/migrations');
+
+const schedule = (scheduleId: number, nextExecution: number, isActive = true): AutomationSchedule => ({
+  scheduleId,
+  owner: OWNER,
+  scheduleType: ScheduleType.RECURRING,
+  interval: 604800,
+  nextExecution,
+  executionCount: 0,
+  isActive,
+  recipient: TUTOR,
+  amount: 2,
+});
+
+/** Claims shared by every keeper in a test, like the claims table */
+const createClaimStore = (): KeeperClaimStore & { held: Map<string, string> } => {
+  const held = new Map<string, string>();
+  return {
+    held,
+    claim: async (scheduleId, nextExecution, keeperId) => {
+      const key = `${scheduleId}:${nextExecution}`;
+      if (held.has(key)) return false;
+      held.set(key, keeperId);
+      return true;
+    },
+    complete: async () => {},
+    release: async (scheduleId, nextExecution) => {
+      held.delete(`${scheduleId}:${nextExecution}`);
+    },
+  };
+};
+
+const SCHEDULES = [
+  schedule(1, NOW - 60),
+  schedule(2, NOW + 3600), // not due yet
+  schedule(3, NOW - 10, false), // cancelled
+  schedule(4, NOW - 5),
+];
+
+describe('schedule keeper', () => {
+  it('submits each ready execution once when two keepers run at the same time', async () => {
+    const claims = createClaimStore();
+    const execute = vi.fn(async (scheduleId: number) => ({ txId: `0x${scheduleId}`, status: 'ok' as const }));
+    const pass = (keeperId: string) =>
+      runKeeperPass({
+        keeperId,
+        claims,
+        execute,
+        listSchedules: async () => SCHEDULES,
+        isReady: async () => true,
+        now: NOW,
+      });
+
+    const [a, b] = await Promise.all([pass('keeper-a'), pass('keeper-b')]);
+
+    expect(execute.mock.calls.map(([id]) => id).sort()).toEqual([1, 4]);
+    expect([...a.submitted, ...b.submitted].map((s) => s.scheduleId).sort()).toEqual([1, 4]);
+    expect([...a.skipped, ...b.skipped].sort()).toEqual([1, 4]);
+  });
+
+  it('leaves schedules alone until is-ready agrees', async () => {
+    const execute = vi.fn();
+
+    const result = await runKeeperPass({
+      keeperId: 'keeper-a',
+      claims: createClaimStore(),
+      execute,
+      listSchedules: async () => SCHEDULES,
+      isReady: async (scheduleId) => scheduleId !== 4,
+      now: NOW,
+    });
+
+    expect(result.checked).toBe(4);
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledWith(1);
+  });
+
+  it('releases the claim when the broadcast is rejected so a later pass retries', async () => {
+    const claims = createClaimStore();
+    const execute = vi
+      .fn()
+      .mockResolvedValueOnce({ txId: '0x1', status: 'error', error: 'ConflictingNonceInMempool' })
+      .mockResolvedValueOnce({ txId: '0x2', status: 'ok' });
+    const pass = () =>
+      runKeeperPass({
+        keeperId: 'keeper-a',
+        claims,
+        execute,
+        listSchedules: async () => [schedule(1, NOW - 60)],
+        isReady: async () => true,
+        now: NOW,
+      });
+
+    expect((await pass()).failed).toEqual([{ scheduleId: 1, error: 'ConflictingNonceInMempool' }]);
+    expect(claims.held.size).toBe(0);
+
+    expect((await pass()).submitted).toEqual([{ scheduleId: 1, txId: '0x2' }]);
+    expect(claims.held.get(`1:${NOW - 60}`)).toBe('keeper-a');
+  });
+});
+
+describe('PostgresKeeperClaimStore', () => {
+  const createStore = async (getTxOutcome: (txId: string) => Promise<TxOutcome>) => {
+    const { Pool: MemPool } = newDb().adapters.createPg();
+    const pool = new MemPool() as unknown as Pool;
+    await new MigrationRunner(pool, MIGRATIONS_DIR).migrate();
+    // A negative TTL makes every existing claim stale
+    return new PostgresKeeperClaimStore(pool, -60, getTxOutcome);
+  };
+
+  it('takes over a stale claim that never broadcast', async () => {
+    const getTxOutcome = vi.fn();
+    const store = await createStore(getTxOutcome);
+
+    expect(await store.claim(1, NOW, 'keeper-a')).toBe(true);
+    expect(await store.claim(1, NOW, 'keeper-b')).toBe(true);
+    expect(getTxOutcome).not.toHaveBeenCalled();
+  });
+
+  it('keeps a stale claim while its transaction may still confirm', async () => {
+    const getTxOutcome = vi.fn().mockResolvedValueOnce('pending').mockResolvedValueOnce('success');
+    const store = await createStore(getTxOutcome);
+
+    await store.claim(1, NOW, 'keeper-a');
+    await store.complete(1, NOW, 'keeper-a', '0xexec');
+
+    expect(await store.claim(1, NOW, 'keeper-b')).toBe(false);
+    expect(await store.claim(1, NOW, 'keeper-b')).toBe(false);
+    expect(getTxOutcome).toHaveBeenCalledWith('0xexec');
+  });
+
+  it('takes over a stale claim once its transaction failed', async () => {
+    const store = await createStore(async () => 'failed');
+
+    await store.claim(1, NOW, 'keeper-a');
+    await store.complete(1, NOW, 'keeper-a', '0xexec');
+
+    expect(await store.claim(1, NOW, 'keeper-b')).toBe(true);
+  });
+
+  it('leaves the claim alone when the transaction cannot be looked up', async () => {
+    const store = await createStore(async () => {
+      throw new Error('network down');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await store.claim(1, NOW, 'keeper-a');
+    await store.complete(1, NOW, 'keeper-a', '0xexec');
+
+    expect(await store.claim(1, NOW, 'keeper-b')).toBe(false);
+  });
+});
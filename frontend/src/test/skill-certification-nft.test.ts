@@ -0,0 +1,93 @@
+// skill-certification-nft.test.ts — decoders, renewal flags and SIP-009 metadata
+import { describe, it, expect } from 'vitest';
+import {
+  boolCV,
+  noneCV,
+  responseOkCV,
+  someCV,
+  standardPrincipalCV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import {
+  buildCertificationMetadata,
+  decodeCertification,
+  getCertificationStatus,
+  needsRenewal,
+} from '@/lib/contracts/skillCertificationNft';
+import { getCertificationInfoCall } from '@/lib/contracts/generated/skillCertificationNft';
+import { CertificationLevel, SkillCertification } from '@/types/contracts';
+
+const OWNER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const VERIFIER = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const DAY = 86400;
+const NOW = 1_700_000_000;
+
+const certification = (overrides: Partial<SkillCertification> = {}): SkillCertification => ({
+  tokenId: 3,
+  skillId: 12,
+  owner: OWNER,
+  level: CertificationLevel.GOLD,
+  issuedAt: NOW - 700 * DAY,
+  expiresAt: NOW + 20 * DAY,
+  verifiedBy: VERIFIER,
+  isActive: true,
+  renewalCount: 1,
+  ...overrides,
+});
+
+describe('skill-certification-nft decoders', () => {
+  it('decodes get-certification-info responses through the generated binding', () => {
+    const { decode } = getCertificationInfoCall({ tokenId: 3 });
+    const decoded = decodeCertification(
+      3,
+      decode(responseOkCV(
+        someCV(
+          tupleCV({
+            'skill-id': uintCV(12),
+            owner: standardPrincipalCV(OWNER),
+            level: uintCV(3),
+            'issued-at': uintCV(NOW - 700 * DAY),
+            'expires-at': uintCV(NOW + 20 * DAY),
+            'verified-by': standardPrincipalCV(VERIFIER),
+            'is-active': boolCV(true),
+            'renewal-count': uintCV(1),
+          })
+        )
+      ))
+    );
+
+    expect(decoded).toEqual(certification());
+    expect(decodeCertification(4, decode(responseOkCV(noneCV())))).toBeNull();
+  });
+});
+
+describe('certification renewal flags', () => {
+  it('flags certifications within 30 days of expiry or past it', () => {
+    expect(getCertificationStatus(certification({ expiresAt: NOW + 31 * DAY }), NOW)).toBe('active');
+    expect(getCertificationStatus(certification({ expiresAt: NOW + 30 * DAY }), NOW)).toBe('renewal-due');
+    expect(getCertificationStatus(certification({ expiresAt: NOW - 1 }), NOW)).toBe('expired');
+    expect(getCertificationStatus(certification({ isActive: false }), NOW)).toBe('inactive');
+
+    expect(needsRenewal(certification(), NOW)).toBe(true);
+    expect(needsRenewal(certification({ expiresAt: NOW + 90 * DAY }), NOW)).toBe(false);
+  });
+});
+
+describe('certification metadata', () => {
+  it('builds SIP-016 metadata with level, skill and issued/expiry dates', () => {
+    const metadata = buildCertificationMetadata(certification(), 'Carpentry');
+
+    expect(metadata.sip).toBe(16);
+    expect(metadata.name).toBe('Carpentry Gold Certification #3');
+    expect(metadata.attributes).toEqual(
+      expect.arrayContaining([
+        { trait_type: 'Skill', value: 'Carpentry' },
+        { trait_type: 'Level', value: 'Gold' },
+        { trait_type: 'Issued', value: NOW - 700 * DAY, display_type: 'date' },
+        { trait_type: 'Expires', value: NOW + 20 * DAY, display_type: 'date' },
+      ])
+    );
+    expect(metadata.properties).toMatchObject({ token_id: 3, skill_id: 12, owner: OWNER });
+  });
+});
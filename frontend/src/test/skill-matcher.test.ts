@@ -0,0 +1,134 @@
+// skill-matcher.test.ts — ranking fixture order books by rate, reputation, verification and schedule
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getOpenCandidates,
+  loadMatchContext,
+  rankMatches,
+  selectMatches,
+  settleMatchSubmissions,
+  type MatchContext,
+} from '@/lib/skill-matcher';
+import type { DecodedTimeBankEvent } from '@/lib/event-decoder';
+import type { TxOutcome } from '@/lib/transactions/broadcast-manager';
+
+const ALICE = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const BOB = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const CAROL = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+const DAVE = 'ST2NEB84ASENDXKYGJPQW86YXQCEFEX2ZQPG87ND';
+
+const NOW = 1_700_000_000;
+
+const demand = (requester: string, skillId: number, hoursNeeded: number, maxRate: number, timestamp: number) =>
+  ({ event: 'demand-created', requester, skillId, hoursNeeded, maxRate, timestamp }) as DecodedTimeBankEvent;
+
+const supply = (provider: string, skillId: number, hoursAvailable: number, minRate: number, timestamp: number) =>
+  ({ event: 'supply-created', provider, skillId, hoursAvailable, minRate, timestamp }) as DecodedTimeBankEvent;
+
+const proposed = (requester: string, provider: string, skillId: number) =>
+  ({ event: 'match-proposed', matchId: 1, requester, provider, skillId, hours: 1, rate: 1 }) as DecodedTimeBankEvent;
+
+// Alice wants 4h of skill 1 at up to 10; Bob asks 6 and Carol asks 8
+const FIXTURE = [
+  demand(ALICE, 1, 4, 10, 1),
+  demand(DAVE, 1, 2, 10, 2),
+  supply(BOB, 1, 4, 6, 3),
+  supply(CAROL, 1, 4, 8, 4),
+];
+
+const pairs = (list: { demand: { requester: string }; supply: { provider: string } }[]) =>
+  list.map((m) => [m.demand.requester, m.supply.provider]);
+
+describe('skill matcher candidates', () => {
+  it('skips pairs that already have a match-proposed event', () => {
+    const candidates = getOpenCandidates([...FIXTURE, proposed(ALICE, BOB, 1)]);
+
+    expect(pairs(candidates)).toEqual([
+      [DAVE, BOB],
+      [ALICE, CAROL],
+      [DAVE, CAROL],
+    ]);
+  });
+
+  it('holds back pairs with a proposal in flight', () => {
+    const candidates = getOpenCandidates(FIXTURE, [
+      { requester: ALICE, provider: BOB, skillId: 1, txId: '0x1' },
+    ]);
+
+    expect(pairs(candidates)).toEqual([
+      [DAVE, BOB],
+      [ALICE, CAROL],
+      [DAVE, CAROL],
+    ]);
+  });
+
+  it('settles submissions once their event is stored or their transaction failed', async () => {
+    const submission = (provider: string, txId: string) => ({ requester: ALICE, provider, skillId: 1, txId });
+    const getOutcome = vi.fn(async (txId: string): Promise<TxOutcome> => (txId === '0xfailed' ? 'failed' : 'pending'));
+
+    const { inFlight, settled } = await settleMatchSubmissions(
+      [submission(BOB, '0xconfirmed'), submission(CAROL, '0xfailed'), submission(DAVE, '0xpending')],
+      [...FIXTURE, proposed(ALICE, BOB, 1)],
+      getOutcome
+    );
+
+    expect(settled.map((s) => s.txId)).toEqual(['0xconfirmed', '0xfailed']);
+    expect(inFlight.map((s) => s.txId)).toEqual(['0xpending']);
+    expect(getOutcome).not.toHaveBeenCalledWith('0xconfirmed');
+  });
+
+  it('fetches each participant and provider skill once', async () => {
+    const lookups = {
+      getReputationScore: vi.fn(async () => 500),
+      isSkillVerified: vi.fn(async () => true),
+      getBusyWindows: vi.fn(async () => []),
+    };
+
+    const context = await loadMatchContext(getOpenCandidates(FIXTURE), lookups, NOW);
+
+    expect(lookups.getReputationScore).toHaveBeenCalledTimes(4);
+    expect(lookups.isSkillVerified).toHaveBeenCalledTimes(2);
+    expect(context.verified).toEqual({ [`${BOB}:1`]: true, [`${CAROL}:1`]: true });
+  });
+});
+
+describe('skill matcher ranking', () => {
+  const context: MatchContext = {
+    now: NOW,
+    reputation: { [ALICE]: 1000, [DAVE]: 1000, [BOB]: 0, [CAROL]: 1000 },
+    verified: { [`${CAROL}:1`]: true },
+    busy: {},
+  };
+
+  it('weighs reputation and verification against rate overlap', () => {
+    const ranked = rankMatches(getOpenCandidates(FIXTURE), context);
+
+    // Carol's narrower spread is outweighed by her reputation and verification
+    expect(pairs(ranked)).toEqual([
+      [ALICE, CAROL],
+      [DAVE, CAROL],
+      [ALICE, BOB],
+      [DAVE, BOB],
+    ]);
+    expect(ranked[0].breakdown).toEqual({
+      rateOverlap: 0.2,
+      reputation: 1,
+      verification: 1,
+      schedule: 1,
+    });
+    expect(ranked[0].score).toBeCloseTo(0.08 + 0.3 + 0.2 + 0.1);
+  });
+
+  it('flags schedule conflicts and leaves them out of the selection', () => {
+    const ranked = rankMatches(getOpenCandidates(FIXTURE), {
+      ...context,
+      // Carol is booked for the next two hours
+      busy: { [CAROL]: [{ start: NOW + 1800, end: NOW + 7200 }] },
+    });
+
+    expect(ranked.find((m) => m.demand.requester === ALICE && m.supply.provider === CAROL)?.conflicts)
+      .toEqual([CAROL]);
+
+    // Each order is used once: Alice takes Bob, Dave is left without a free provider
+    expect(pairs(selectMatches(ranked))).toEqual([[ALICE, BOB]]);
+  });
+});
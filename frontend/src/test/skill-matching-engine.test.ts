@@ -0,0 +1,96 @@
+// skill-matching-engine.test.ts — order books from demand/supply events and match terms
+import { describe, it, expect } from 'vitest';
+import {
+  boolCV,
+  responseOkCV,
+  someCV,
+  standardPrincipalCV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import {
+  buildOrderBooks,
+  decodeMatchProposal,
+} from '@/lib/contracts/skillMatchingEngine';
+import { getMatchProposalCall } from '@/lib/contracts/generated/skillMatchingEngine';
+import type { DecodedTimeBankEvent } from '@/lib/event-decoder';
+
+const ALICE = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const BOB = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const CAROL = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+
+const demand = (requester: string, skillId: number, hoursNeeded: number, maxRate: number, timestamp: number) =>
+  ({ event: 'demand-created', requester, skillId, hoursNeeded, maxRate, timestamp }) as DecodedTimeBankEvent;
+
+const supply = (provider: string, skillId: number, hoursAvailable: number, minRate: number, timestamp: number) =>
+  ({ event: 'supply-created', provider, skillId, hoursAvailable, minRate, timestamp }) as DecodedTimeBankEvent;
+
+describe('skill-matching-engine order books', () => {
+  it('keeps the latest order per principal and skill and drops withdrawn ones', () => {
+    // Newest first, as useEvents returns them
+    const books = buildOrderBooks([
+      supply(CAROL, 2, 0, 4, 40),
+      demand(ALICE, 1, 3, 12, 30),
+      supply(CAROL, 2, 5, 4, 20),
+      demand(ALICE, 1, 8, 6, 10),
+    ]);
+
+    expect(books).toHaveLength(1);
+    expect(books[0].skillId).toBe(1);
+    expect(books[0].demands).toEqual([
+      { requester: ALICE, skillId: 1, hoursNeeded: 3, maxRate: 12, createdAt: 30 },
+    ]);
+  });
+
+  it('pairs demand and supply where max-rate covers min-rate, widest overlap first', () => {
+    const [book] = buildOrderBooks([
+      demand(ALICE, 1, 4, 10, 1),
+      demand(BOB, 1, 2, 5, 2),
+      supply(CAROL, 1, 3, 6, 3),
+      supply(BOB, 1, 6, 2, 4),
+    ]);
+
+    expect(book.demands.map((d) => d.requester)).toEqual([ALICE, BOB]);
+    expect(book.supplies.map((s) => s.provider)).toEqual([BOB, CAROL]);
+
+    // Bob can't fill his own demand, and his max 5 is below Carol's min 6
+    expect(
+      book.matches.map((m) => [m.demand.requester, m.supply.provider, m.hours, m.rate])
+    ).toEqual([
+      [ALICE, BOB, 4, 6],
+      [ALICE, CAROL, 3, 8],
+    ]);
+  });
+});
+
+describe('skill-matching-engine decoders', () => {
+  it('decodes get-match-proposal responses through the generated binding', () => {
+    const proposal = decodeMatchProposal(
+      9,
+      getMatchProposalCall({ matchId: 9 }).decode(responseOkCV(
+        someCV(
+          tupleCV({
+            requester: standardPrincipalCV(ALICE),
+            provider: standardPrincipalCV(CAROL),
+            'skill-id': uintCV(1),
+            hours: uintCV(3),
+            rate: uintCV(8),
+            'created-at': uintCV(1700000000),
+            accepted: boolCV(false),
+          })
+        )
+      ))
+    );
+
+    expect(proposal).toEqual({
+      matchId: 9,
+      requester: ALICE,
+      provider: CAROL,
+      skillId: 1,
+      hours: 3,
+      rate: 8,
+      createdAt: 1700000000,
+      accepted: false,
+    });
+  });
+});
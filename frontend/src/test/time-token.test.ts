@@ -0,0 +1,107 @@
+// time-token.test.ts — amount formatting, stake post-conditions and allowance discovery
+import { describe, it, expect } from 'vitest';
+import {
+  noneCV,
+  responseOkCV,
+  someCV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import {
+  buildStakePostConditions,
+  decodeStakeInfo,
+  formatTokenAmount,
+  getSpendersFromEvents,
+  getTimeTokenAsset,
+  parseTokenAmount,
+} from '@/lib/contracts/timeTokenFt';
+import { getStakeInfoCall } from '@/lib/contracts/generated/timeTokenFt';
+import { createEventDecoder, type DecodedTimeBankEvent } from '@/lib/event-decoder';
+
+const OWNER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const MARKET = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG.marketplace';
+const TUTOR = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+
+describe('time-token amounts', () => {
+  it('formats base units with the token decimals', () => {
+    expect(formatTokenAmount(12_500_000, 6)).toBe('12.5');
+    expect(formatTokenAmount(1, 6)).toBe('0.000001');
+    expect(formatTokenAmount(1_234_000_000_000, 6)).toBe('1,234,000');
+    expect(formatTokenAmount(0, 6)).toBe('0');
+    expect(formatTokenAmount(42, 0)).toBe('42');
+  });
+
+  it('parses decimal input into base units', () => {
+    expect(parseTokenAmount('12.5', 6)).toBe(12_500_000);
+    expect(parseTokenAmount('.25', 6)).toBe(250_000);
+    expect(parseTokenAmount('10', 6)).toBe(10_000_000);
+    expect(parseTokenAmount('0.0000001', 6)).toBeNull();
+    expect(parseTokenAmount('0', 6)).toBeNull();
+    expect(parseTokenAmount('-1', 6)).toBeNull();
+    expect(parseTokenAmount('abc', 6)).toBeNull();
+  });
+});
+
+describe('time-token staking', () => {
+  it('decodes get-stake-info responses through the generated binding', () => {
+    const { decode } = getStakeInfoCall({ staker: OWNER });
+
+    expect(
+      decodeStakeInfo(
+        decode(responseOkCV(
+          someCV(
+            tupleCV({
+              amount: uintCV(20_000_000),
+              'staked-at': uintCV(1_700_000_000),
+              'last-reward-claim': uintCV(1_700_000_000),
+              'total-rewards': uintCV(0),
+            })
+          )
+        ))
+      )
+    ).toEqual({
+      amount: 20_000_000,
+      stakedAt: 1_700_000_000,
+      lastRewardClaim: 1_700_000_000,
+      totalRewards: 0,
+    });
+    expect(decodeStakeInfo(decode(responseOkCV(noneCV())))).toBeNull();
+  });
+
+  it('pins the burn to exactly the staked amount of TIME', () => {
+    expect(getTimeTokenAsset()).toMatch(/\.time-token-ft::time-token$/);
+    expect(buildStakePostConditions(OWNER, 15_000_000)).toEqual([
+      {
+        type: 'ft-postcondition',
+        address: OWNER,
+        condition: 'eq',
+        asset: getTimeTokenAsset(),
+        amount: '15000000',
+      },
+    ]);
+  });
+});
+
+describe('time-token allowances', () => {
+  it('lists each approved spender once, most recent first', () => {
+    const decoder = createEventDecoder();
+    const approval = (spender: string, amount: number, timestamp: number, owner = OWNER) =>
+      decoder.decodePrintValue({
+        event: 'allowance-approved',
+        owner,
+        spender,
+        amount,
+        timestamp,
+      }) as DecodedTimeBankEvent;
+
+    const events = [
+      approval(MARKET, 5_000_000, 100),
+      approval(TUTOR, 1_000_000, 200),
+      approval(MARKET, 0, 300),
+      approval(OWNER, 1_000_000, 400, TUTOR),
+    ];
+
+    expect(events[0]).toMatchObject({ owner: OWNER, spender: MARKET, amount: 5_000_000 });
+    expect(getSpendersFromEvents(events, OWNER)).toEqual([MARKET, TUTOR]);
+  });
+});
@@ -0,0 +1,172 @@
+// wallet-session.test.ts — Sign-In With Stacks messages, verification and sessions
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { bytesToHex } from '@stacks/common';
+import { hashMessage } from '@stacks/encryption';
+import {
+  getAddressFromPublicKey,
+  privateKeyToPublic,
+  signMessageHashRsv,
+} from '@stacks/transactions';
+import {
+  createSignInMessage,
+  parseSignInMessage,
+  SIGN_IN_CHAIN_IDS,
+  SIGN_IN_STATEMENT,
+  verifyMessageSignature,
+  type SignInMessage,
+} from '@/lib/message-signing';
+import {
+  getSignInError,
+  issueSignInNonce,
+  serializeSessionCookie,
+  SESSION_MAX_AGE_SECONDS,
+  signInWithWallet,
+} from '@/lib/wallet-session';
+
+const PRIVATE_KEY = 'edf9aee84d9b7abc145504dde6726c64f369d37ee34ded868fabd876c26570bc01';
+const ADDRESS = getAddressFromPublicKey(privateKeyToPublic(PRIVATE_KEY), 'testnet');
+const DOMAIN = 'timebank.example';
+const NOW = 1800000000;
+
+const mockConsumeAuthNonce = vi.fn();
+const mockCreateSession = vi.fn();
+const mockSaveAuthNonce = vi.fn();
+const mockCleanExpired = vi.fn();
+
+vi.mock('@/lib/wallet-session-store', () => ({
+  getWalletSessionStore: () => ({
+    consumeAuthNonce: mockConsumeAuthNonce,
+    createSession: mockCreateSession,
+    saveAuthNonce: mockSaveAuthNonce,
+    cleanExpired: mockCleanExpired,
+  }),
+}));
+
+const fields: SignInMessage = {
+  domain: DOMAIN,
+  address: ADDRESS,
+  statement: SIGN_IN_STATEMENT,
+  uri: `https://${DOMAIN}`,
+  chainId: SIGN_IN_CHAIN_IDS.testnet,
+  nonce: '0123456789abcdef0123456789abcdef',
+  issuedAt: new Date(NOW * 1000).toISOString(),
+  expirationTime: new Date((NOW + 600) * 1000).toISOString(),
+};
+
+const signWithKey = (message: string) =>
+  signMessageHashRsv({ messageHash: bytesToHex(hashMessage(message)), privateKey: PRIVATE_KEY });
+
+describe('sign-in messages', () => {
+  it('round-trips through the message text', () => {
+    const message = createSignInMessage(fields);
+
+    expect(message.split('\n').slice(0, 2)).toEqual([
+      `${DOMAIN} wants you to sign in with your Stacks account:`,
+      ADDRESS,
+    ]);
+    expect(parseSignInMessage(message)).toEqual(fields);
+
+    const { statement, expirationTime, ...minimal } = fields;
+    expect(parseSignInMessage(createSignInMessage(minimal))).toEqual(minimal);
+  });
+
+  it('rejects messages with extra or reordered lines', () => {
+    const message = createSignInMessage(fields);
+
+    expect(parseSignInMessage(`${message}\nResources: https://evil.example`)).toBeNull();
+    expect(parseSignInMessage(message.replace('Version: 1\n', ''))).toBeNull();
+    expect(parseSignInMessage('Sign in to Time Banking Protocol')).toBeNull();
+  });
+
+  it('only accepts messages for this domain, chain and time', () => {
+    expect(getSignInError(fields, DOMAIN, NOW)).toBeNull();
+    expect(getSignInError(fields, 'other.example', NOW)).toBe('Message was signed for another domain');
+    expect(getSignInError({ ...fields, uri: 'https://other.example' }, DOMAIN, NOW)).toMatch(/URI/);
+    expect(getSignInError({ ...fields, chainId: SIGN_IN_CHAIN_IDS.mainnet }, DOMAIN, NOW)).toMatch(
+      /Chain ID/
+    );
+    expect(getSignInError(fields, DOMAIN, NOW + 600)).toBe('Message has expired');
+    expect(getSignInError(fields, DOMAIN, NOW - 3600)).toBe('Message is issued in the future');
+  });
+
+  it('recovers the signer of a plain message', () => {
+    const message = createSignInMessage(fields);
+    const signature = signWithKey(message);
+
+    expect(verifyMessageSignature(message, signature, ADDRESS)).toMatchObject({
+      valid: true,
+      address: ADDRESS,
+    });
+    expect(verifyMessageSignature(`${message} `, signature, ADDRESS).valid).toBe(false);
+  });
+});
+
+describe('issueSignInNonce', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSaveAuthNonce.mockResolvedValue(undefined);
+    mockCleanExpired.mockResolvedValue(0);
+  });
+
+  it('deletes expired nonces and sessions at most once a minute', async () => {
+    const { nonce, expiresAt } = await issueSignInNonce(NOW);
+
+    expect(mockSaveAuthNonce).toHaveBeenCalledWith(nonce, expiresAt);
+    expect(mockCleanExpired).toHaveBeenCalledWith(NOW);
+
+    await issueSignInNonce(NOW + 59);
+    expect(mockCleanExpired).toHaveBeenCalledTimes(1);
+
+    await issueSignInNonce(NOW + 60);
+    expect(mockCleanExpired).toHaveBeenLastCalledWith(NOW + 60);
+  });
+});
+
+describe('signInWithWallet', () => {
+  const message = createSignInMessage(fields);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConsumeAuthNonce.mockResolvedValue(true);
+    mockCreateSession.mockResolvedValue(undefined);
+  });
+
+  it('starts a session storing only the token hash', async () => {
+    const result = await signInWithWallet(message, signWithKey(message), DOMAIN, NOW);
+
+    expect(result).toMatchObject({
+      session: { address: ADDRESS, expiresAt: NOW + SESSION_MAX_AGE_SECONDS },
+    });
+    expect(mockConsumeAuthNonce).toHaveBeenCalledWith(fields.nonce, NOW);
+
+    const token = 'token' in result ? result.token : '';
+    const [tokenHash] = mockCreateSession.mock.calls[0];
+    expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(tokenHash).not.toBe(token);
+  });
+
+  it('does not use the nonce for a bad signature', async () => {
+    const otherMessage = createSignInMessage({ ...fields, nonce: 'f'.repeat(32) });
+
+    await expect(signInWithWallet(message, signWithKey(otherMessage), DOMAIN, NOW)).resolves.toEqual({
+      error: 'Signature does not match the address',
+    });
+    expect(mockConsumeAuthNonce).not.toHaveBeenCalled();
+  });
+
+  it('refuses a nonce that was already used', async () => {
+    mockConsumeAuthNonce.mockResolvedValue(false);
+
+    await expect(signInWithWallet(message, signWithKey(message), DOMAIN, NOW)).resolves.toEqual({
+      error: 'Nonce is unknown, expired or already used',
+    });
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('sets the session token as an HTTP-only cookie', () => {
+    expect(serializeSessionCookie('abc')).toMatch(
+      /^timebank_session=abc; Path=\/; Max-Age=\d+; HttpOnly; SameSite=Lax/
+    );
+    expect(serializeSessionCookie('', 0)).toContain('Max-Age=0');
+  });
+});
@@ -18,9 +18,9 @@ export interface TimeBankUser {
 
 export interface ProtocolStats {
   totalUsers: number;
-  totalActiveUsers: number;
-  totalCreditsIssued: number;
   totalCreditsCirculating: number;
+  initialCreditsPerUser: number;
+  minTransferAmount: number;
   protocolPaused: boolean;
 }
 
@@ -37,8 +37,8 @@ export interface RegisteredSkill {
   hourlyRate: number;
   verified: boolean;
   verificationCount: number;
+  totalServicesProvided: number;
   registeredAt: number; // stacks-block-time timestamp
-  lastVerifiedAt?: number; // stacks-block-time timestamp
 }
 
 export interface SkillVerification {
@@ -67,11 +67,12 @@ export interface SkillBadge {
 }
 
 export interface RegistryStats {
-  totalSkills: number;
-  totalVerifications: number;
-  totalBadges: number;
+  totalSkillsRegistered: number;
+  totalVerifiedSkills: number;
   nextSkillId: number;
-  nextBadgeId: number;
+  minVerificationsRequired: number;
+  minVerifierReputation: number;
+  registrationEnabled: boolean;
 }
 
 // ============================================
@@ -82,14 +83,17 @@ export interface ServiceExchange {
   exchangeId: number;
   requester: string;
   provider: string;
-  skillName: string;
+  skillId: number;
+  description: string;
   hoursRequested: number;
+  hourlyRate: number;
+  totalCredits: number;
   scheduledStart: number; // stacks-block-time timestamp
   scheduledEnd: number; // stacks-block-time timestamp
   status: 'pending' | 'accepted' | 'in-progress' | 'completed' | 'cancelled';
   createdAt: number; // stacks-block-time timestamp
-  acceptedAt?: number; // stacks-block-time timestamp
-  completedAt?: number; // stacks-block-time timestamp
+  actualStart?: number; // stacks-block-time timestamp
+  actualEnd?: number; // stacks-block-time timestamp
   requesterConfirmed: boolean;
   providerConfirmed: boolean;
 }
@@ -104,10 +108,10 @@ export interface ExchangeReview {
 
 export interface ExchangeStats {
   totalExchanges: number;
-  completedExchanges: number;
-  cancelledExchanges: number;
-  activeExchanges: number;
-  totalHoursExchanged: number;
+  totalCompletedExchanges: number;
+  totalCreditsExchanged: number;
+  nextExchangeId: number;
+  exchangesEnabled: boolean;
 }
 
 // ============================================
@@ -117,12 +121,13 @@ export interface ExchangeStats {
 export interface UserReputation {
   user: string;
   totalScore: number;
-  positiveEndorsements: number;
-  negativeFlags: number;
-  completedExchanges: number;
-  averageRating: number;
+  baseScore: number;
+  completionBonus: number;
+  ratingScore: number;
+  endorsementScore: number;
+  endorsementCount: number;
+  tier: number;
   lastUpdated: number; // stacks-block-time timestamp
-  lastDecayApplied: number; // stacks-block-time timestamp for time-weighted decay
 }
 
 export interface CategoryReputation {
@@ -152,9 +157,10 @@ export interface ReputationBadge {
 export interface ReputationStats {
   totalEndorsements: number;
   totalBadgesAwarded: number;
-  averageReputationScore: number;
-  nextEndorsementId: number;
-  nextBadgeId: number;
+  baseReputationScore: number;
+  completionBonus: number;
+  endorsementValue: number;
+  reputationEnabled: boolean;
 }
 
 // ============================================
@@ -168,13 +174,12 @@ export interface CreditEscrow {
   amount: number;
   createdAt: number; // stacks-block-time timestamp
   expiresAt: number; // stacks-block-time timestamp (time-locked)
-  released: boolean;
-  refunded: boolean;
+  state: 'pending' | 'active' | 'completed' | 'refunded' | 'disputed';
   releasedAt?: number; // stacks-block-time timestamp
-  refundedAt?: number; // stacks-block-time timestamp
   exchangeId?: number;
-  disputed: boolean;
-  disputeReason?: string;
+  disputeMediator?: string;
+  /** Set once the mediator decides; true favors the beneficiary */
+  mediatorDecision?: boolean;
 }
 
 export interface EscrowDispute {
@@ -190,11 +195,11 @@ export interface EscrowDispute {
 
 export interface EscrowStats {
   totalEscrows: number;
-  activeEscrows: number;
-  releasedEscrows: number;
-  refundedEscrows: number;
-  disputedEscrows: number;
-  totalAmountEscrowed: number;
+  totalCompletedEscrows: number;
+  totalDisputedEscrows: number;
+  totalEscrowedAmount: number;
+  nextEscrowId: number;
+  escrowEnabled: boolean;
 }
 
 // ============================================
@@ -241,6 +246,219 @@ export interface GovernanceStats {
   quorumPercentage: number;
 }
 
+// ============================================
+// DISPUTE-ARBITRATION CONTRACT TYPES
+// ============================================
+
+export interface Dispute {
+  disputeId: number;
+  exchangeId: number;
+  provider: string;
+  receiver: string;
+  status: DisputeStatus;
+  outcome?: DisputeOutcome;
+  createdAt: number; // stacks-block-time timestamp
+  evidenceDeadline: number; // stacks-block-time timestamp
+  votingDeadline: number; // stacks-block-time timestamp
+  votesProvider: number;
+  votesReceiver: number;
+  votesSplit: number;
+}
+
+export interface ArbitratorInfo {
+  arbitrator: string;
+  reputationScore: number;
+  totalCases: number;
+  isActive: boolean;
+  joinedAt: number; // stacks-block-time timestamp
+}
+
+export interface DisputeVote {
+  disputeId: number;
+  arbitrator: string;
+  vote: DisputeOutcome;
+  votedAt: number; // stacks-block-time timestamp
+}
+
+export type DisputePhase = 'evidence' | 'voting' | 'awaiting-resolution' | 'resolved';
+
+// ============================================
+// INSURANCE-POOL CONTRACT TYPES
+// ============================================
+
+export interface InsuranceContributor {
+  contributor: string;
+  totalContributed: number;
+  coverageAmount: number;
+  isActive: boolean;
+  joinedAt: number; // stacks-block-time timestamp
+}
+
+export interface InsuranceClaim {
+  claimId: number;
+  claimant: string;
+  exchangeId: number;
+  amount: number;
+  status: ClaimStatus;
+  filedAt: number; // stacks-block-time timestamp
+  reviewedAt?: number; // stacks-block-time timestamp
+}
+
+// ============================================
+// MULTI-SIG-WALLET CONTRACT TYPES
+// ============================================
+
+export interface TreasuryProposal {
+  proposalId: number;
+  proposer: string;
+  amount?: number;
+  recipient?: string;
+  signaturesRequired: number;
+  signaturesCount: number;
+  createdAt: number; // stacks-block-time timestamp
+  executeAfter: number; // stacks-block-time timestamp
+  executed: boolean;
+}
+
+// ============================================
+// EMERGENCY-CONTROLS CONTRACT TYPES
+// ============================================
+
+export interface EmergencyOperation {
+  operationId: number;
+  operationType: string;
+  proposer: string;
+  executeAfter: number; // stacks-block-time timestamp
+  executed: boolean;
+}
+
+export interface PauseState {
+  globalPaused: boolean;
+  contractPaused: boolean;
+}
+
+// ============================================
+// REFERRAL-PROGRAM CONTRACT TYPES
+// ============================================
+
+export interface ReferralData {
+  user: string;
+  referrer?: string; // set when the user joined with someone else's code
+  referralCode: string; // own code, or the code used when referrer is set
+  totalReferrals: number;
+  totalRewards: number;
+  createdAt: number; // stacks-block-time timestamp
+}
+
+export interface ReferralRecord {
+  referee: string;
+  code: string;
+  referrerReward: number;
+  refereeReward: number;
+  timestamp?: number; // stacks-block-time timestamp
+  txId?: string;
+}
+
+// ============================================
+// SKILL-CERTIFICATION-NFT CONTRACT TYPES
+// ============================================
+
+export interface SkillCertification {
+  tokenId: number;
+  skillId: number;
+  owner: string;
+  level: CertificationLevel;
+  issuedAt: number; // stacks-block-time timestamp
+  expiresAt: number; // stacks-block-time timestamp
+  verifiedBy: string;
+  isActive: boolean;
+  renewalCount: number;
+}
+
+export type CertificationStatus = 'active' | 'renewal-due' | 'expired' | 'inactive';
+
+// ============================================
+// SKILL-MATCHING-ENGINE CONTRACT TYPES
+// ============================================
+
+export interface SkillDemand {
+  requester: string;
+  skillId: number;
+  hoursNeeded: number;
+  maxRate: number;
+  createdAt: number; // stacks-block-time timestamp
+}
+
+export interface SkillSupply {
+  provider: string;
+  skillId: number;
+  hoursAvailable: number;
+  minRate: number;
+  createdAt: number; // stacks-block-time timestamp
+}
+
+export interface MatchProposal {
+  matchId: number;
+  requester: string;
+  provider: string;
+  skillId: number;
+  hours: number;
+  rate: number;
+  createdAt: number; // stacks-block-time timestamp
+  accepted: boolean;
+}
+
+export interface MatchCandidate {
+  demand: SkillDemand;
+  supply: SkillSupply;
+  hours: number;
+  rate: number;
+}
+
+export interface SkillOrderBook {
+  skillId: number;
+  demands: SkillDemand[]; // highest max-rate first
+  supplies: SkillSupply[]; // lowest min-rate first
+  matches: MatchCandidate[];
+}
+
+// ============================================
+// AUTOMATION-SCHEDULER CONTRACT TYPES
+// ============================================
+
+export enum ScheduleType {
+  RECURRING = 1,
+  SUBSCRIPTION = 2,
+}
+
+export interface AutomationSchedule {
+  scheduleId: number;
+  owner: string;
+  scheduleType: ScheduleType;
+  interval: number; // seconds between executions
+  nextExecution: number; // stacks-block-time
+  executionCount: number;
+  isActive: boolean;
+  recipient: string;
+  amount: number;
+}
+
+// ============================================
+// TIME-TOKEN-FT CONTRACT TYPES
+// ============================================
+
+export interface TokenStakeInfo {
+  amount: number; // micro-TIME
+  stakedAt: number; // stacks-block-time
+  lastRewardClaim: number; // stacks-block-time
+  totalRewards: number;
+}
+
+export interface TokenAllowance {
+  spender: string;
+  amount: number; // micro-TIME
+}
+
 // ============================================
 // REWARDS-DISTRIBUTOR CONTRACT TYPES
 // ============================================
@@ -321,6 +539,15 @@ export interface ContractConfig {
   escrowManager: string;
   governance: string;
   rewardsDistributor: string;
+  disputeArbitration: string;
+  insurancePool: string;
+  multiSigWallet: string;
+  emergencyControls: string;
+  referralProgram: string;
+  skillCertificationNft: string;
+  skillMatchingEngine: string;
+  automationScheduler: string;
+  timeTokenFt: string;
 }
 
 export interface ClarityValue {
@@ -363,6 +590,33 @@ export enum BadgeTier {
   PLATINUM = 'platinum',
 }
 
+export enum DisputeStatus {
+  PENDING = 1,
+  VOTING = 2,
+  RESOLVED = 3,
+  EXECUTED = 4,
+}
+
+export enum DisputeOutcome {
+  FAVOR_PROVIDER = 1,
+  FAVOR_RECEIVER = 2,
+  SPLIT = 3,
+}
+
+export enum CertificationLevel {
+  BRONZE = 1,
+  SILVER = 2,
+  GOLD = 3,
+  PLATINUM = 4,
+}
+
+export enum ClaimStatus {
+  PENDING = 1,
+  APPROVED = 2,
+  DENIED = 3,
+  PAID = 4,
+}
+
 // ============================================
 // ERROR CODES (matching contract error codes)
 // ============================================
@@ -445,3 +699,66 @@ export enum RewardsErrorCode {
   INSUFFICIENT_POOL = 7006,
   NOT_ELIGIBLE = 7007,
 }
+
+export enum DisputeArbitrationErrorCode {
+  UNAUTHORIZED = 4001,
+  NOT_FOUND = 4002,
+  INVALID_STATUS = 4003,
+  ALREADY_VOTED = 4004,
+  DEADLINE_PASSED = 4005,
+  DEADLINE_NOT_PASSED = 4006,
+}
+
+export enum InsurancePoolErrorCode {
+  UNAUTHORIZED = 5001,
+  NOT_FOUND = 5002,
+  INSUFFICIENT_BALANCE = 5003,
+  INVALID_AMOUNT = 5004,
+}
+
+export enum MultiSigWalletErrorCode {
+  UNAUTHORIZED = 10001,
+  NOT_FOUND = 10002,
+  ALREADY_SIGNED = 10003,
+  INSUFFICIENT_SIGNATURES = 10004,
+}
+
+export enum EmergencyControlsErrorCode {
+  UNAUTHORIZED = 9001,
+  NOT_FOUND = 9002,
+  ALREADY_PAUSED = 9003,
+  NOT_PAUSED = 9004,
+}
+
+export enum ReferralProgramErrorCode {
+  UNAUTHORIZED = 8001,
+  NOT_FOUND = 8002,
+  SELF_REFERRAL = 8003,
+  CODE_EXISTS = 8004,
+}
+
+export enum SkillCertificationErrorCode {
+  UNAUTHORIZED = 2001,
+  NOT_FOUND = 2002,
+  ALREADY_CERTIFIED = 2003,
+  EXPIRED = 2004,
+  INVALID_LEVEL = 2005,
+  NOT_OWNER = 2006,
+}
+
+export enum SkillMatchingErrorCode {
+  UNAUTHORIZED = 7001,
+  NOT_FOUND = 7002,
+}
+
+export enum AutomationSchedulerErrorCode {
+  UNAUTHORIZED = 6001,
+  NOT_FOUND = 6002,
+  INVALID_SCHEDULE = 6003,
+}
+
+export enum TimeTokenErrorCode {
+  UNAUTHORIZED = 3001,
+  INSUFFICIENT_BALANCE = 3002,
+  INVALID_AMOUNT = 3003,
+}
@@ -8,16 +8,81 @@
  */
 export interface ChainhookEvent {
   txHash: string;
+  /** Position of the event in its transaction receipt */
+  eventIndex?: number;
   blockHeight: number;
   blockHash: string;
   contractId: string;
   eventType: string;
   eventTopic?: string;
   value: any;
+  /** Original chainhook event data when `value` holds a decoded print event */
+  raw?: unknown;
   affectedAddresses: string[];
   success: boolean;
   timestamp: number;
   metadata?: Record<string, unknown>;
+  orphaned?: boolean;
+}
+
+/**
+ * Notice broadcast when blocks are rolled back by a chain reorganization
+ */
+export interface ReorgNotice {
+  rolledBackBlocks: Array<{
+    blockHeight: number;
+    blockHash: string;
+  }>;
+  orphanedTxHashes: string[];
+  timestamp: number;
+}
+
+/**
+ * Filters for paging through stored chainhook events
+ */
+export interface EventQueryFilter {
+  contractId?: string;
+  eventType?: string;
+  address?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * One page of stored events, newest first
+ */
+export interface EventPage {
+  events: ChainhookEvent[];
+  nextCursor: string | null;
+}
+
+/**
+ * Last event a client has seen, sent on reconnect to replay missed events
+ */
+export interface ReplayCursor {
+  blockHeight: number;
+  txHash: string;
+  eventIndex?: number;
+}
+
+/**
+ * Rooms a replay is restricted to
+ */
+export interface ReplayFilter {
+  contractIds: string[];
+  addresses: string[];
+  eventTypes: string[];
+}
+
+/**
+ * Sent once a replay has delivered every missed event
+ */
+export interface ReplayComplete {
+  count: number;
+  truncated: boolean;
+  error?: string;
 }
 
 /**
@@ -45,6 +110,9 @@ export interface ChainhookPayload {
           events: Array<{
             type: string;
             data: any;
+            position?: {
+              index: number;
+            };
           }>;
         };
         contract_calls_stack?: Array<{
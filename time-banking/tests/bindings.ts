@@ -0,0 +1,29 @@
+// Simnet adapters for the generated contract bindings in
+// frontend/src/lib/contracts/generated, e.g.
+//
+//   import * as timeTokenFt from "../../frontend/src/lib/contracts/generated/timeTokenFt";
+//   const info = await timeTokenFt.getStakeInfo(simnetReader(address1), { staker: address1 });
+//   const { result } = callPublic(timeTokenFt.stakeCall({ amount: 10_000_000 }), address1);
+//
+// vitest.config.js dedupes @stacks/transactions so the frontend modules load
+// this project's copy; the frontend doesn't need to be installed.
+
+import type {
+  ContractCall,
+  ReadOnlyCaller,
+} from "../../frontend/src/lib/contracts/bindings-runtime";
+
+export const simnetReader =
+  (sender: string): ReadOnlyCaller =>
+  (call) =>
+    simnet.callReadOnlyFn(call.contractName, call.functionName, call.functionArgs, sender).result;
+
+export const callPublic = <T>(call: ContractCall<T>, sender: string) => {
+  const { result, events } = simnet.callPublicFn(
+    call.contractName,
+    call.functionName,
+    call.functionArgs,
+    sender
+  );
+  return { result: call.decode(result), events };
+};
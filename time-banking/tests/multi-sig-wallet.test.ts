@@ -1,21 +1,176 @@
-
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
 
 const accounts = simnet.getAccounts();
-const address1 = accounts.get("wallet_1")!;
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const DEFAULT_TIMELOCK = 86400;
+
+// runSnippet hands back the serialized Clarity value
+const currentBlockTime = (): number =>
+  Number((Cl.deserialize(simnet.runSnippet("stacks-block-time") as string) as any).value);
 
-/*
-  The test below is an example. To learn more, read the testing documentation here:
-  https://docs.hiro.so/stacks/clarinet-js-sdk
-*/
+// Mine until stacks-block-time reaches the target, bounded so a stalled clock fails fast
+const mineUntil = (target: number) => {
+  for (let i = 0; i < 2000 && currentBlockTime() < target; i++) {
+    simnet.mineEmptyBlock();
+  }
+};
 
-describe("example tests", () => {
+const createProposal = (sender: string, amount = 5000000) =>
+  simnet.callPublicFn(
+    "multi-sig-wallet",
+    "create-proposal",
+    [Cl.principal(wallet3), Cl.uint(amount)],
+    sender
+  );
+
+describe("Multi-Sig Wallet - Clarity 4 Tests", () => {
   it("ensures simnet is well initialised", () => {
     expect(simnet.blockHeight).toBeDefined();
   });
 
-  // it("shows an example", () => {
-  //   const { result } = simnet.callReadOnlyFn("counter", "get-counter", [], address1);
-  //   expect(result).toBeUint(0);
-  // });
+  beforeEach(() => {
+    simnet.callPublicFn("multi-sig-wallet", "add-signer", [Cl.principal(wallet1)], deployer);
+    simnet.callPublicFn("multi-sig-wallet", "add-signer", [Cl.principal(wallet2)], deployer);
+  });
+
+  describe("Signers", () => {
+    it("only lets the owner add signers", () => {
+      const { result } = simnet.callPublicFn(
+        "multi-sig-wallet",
+        "add-signer",
+        [Cl.principal(wallet3)],
+        wallet1
+      );
+
+      expect(result).toBeErr(Cl.uint(10001));
+    });
+
+    it("reports signer membership", () => {
+      const signer = simnet.callReadOnlyFn("multi-sig-wallet", "is-signer", [Cl.principal(wallet1)], wallet1);
+      const outsider = simnet.callReadOnlyFn("multi-sig-wallet", "is-signer", [Cl.principal(wallet3)], wallet1);
+
+      expect(signer.result).toBeOk(Cl.bool(true));
+      expect(outsider.result).toBeOk(Cl.bool(false));
+    });
+  });
+
+  describe("Proposals", () => {
+    it("creates a proposal signed by the proposer with the default timelock", () => {
+      const { result } = createProposal(wallet1);
+      expect(result).toBeOk(Cl.uint(1));
+
+      const now = currentBlockTime();
+      const proposal = simnet.callReadOnlyFn("multi-sig-wallet", "get-proposal", [Cl.uint(1)], wallet1);
+      const tuple = (proposal.result as any).value.value.value;
+
+      expect(tuple["signatures-count"]).toBeUint(1);
+      expect(tuple["signatures-required"]).toBeUint(2);
+      expect(tuple.executed).toBeBool(false);
+      expect(Number(tuple["execute-after"].value) - Number(tuple["created-at"].value)).toBe(
+        DEFAULT_TIMELOCK
+      );
+      expect(Number(tuple["execute-after"].value)).toBeGreaterThan(now);
+
+      const signed = simnet.callReadOnlyFn(
+        "multi-sig-wallet",
+        "has-signed",
+        [Cl.uint(1), Cl.principal(wallet1)],
+        wallet1
+      );
+      expect(signed.result).toBeOk(Cl.bool(true));
+    });
+
+    it("rejects proposals from non-signers", () => {
+      const { result } = createProposal(wallet3);
+      expect(result).toBeErr(Cl.uint(10001));
+    });
+
+    it("returns none for unknown proposals", () => {
+      const { result } = simnet.callReadOnlyFn("multi-sig-wallet", "get-proposal", [Cl.uint(99)], wallet1);
+      expect(result).toBeOk(Cl.none());
+    });
+  });
+
+  describe("Signing", () => {
+    it("counts a second signature and records has-signed", () => {
+      createProposal(wallet1);
+
+      const before = simnet.callReadOnlyFn(
+        "multi-sig-wallet",
+        "has-signed",
+        [Cl.uint(1), Cl.principal(wallet2)],
+        wallet2
+      );
+      expect(before.result).toBeOk(Cl.bool(false));
+
+      const { result } = simnet.callPublicFn("multi-sig-wallet", "sign-proposal", [Cl.uint(1)], wallet2);
+      expect(result).toBeOk(Cl.uint(2));
+
+      const after = simnet.callReadOnlyFn(
+        "multi-sig-wallet",
+        "has-signed",
+        [Cl.uint(1), Cl.principal(wallet2)],
+        wallet2
+      );
+      expect(after.result).toBeOk(Cl.bool(true));
+    });
+
+    it("rejects signing twice", () => {
+      createProposal(wallet1);
+
+      const { result } = simnet.callPublicFn("multi-sig-wallet", "sign-proposal", [Cl.uint(1)], wallet1);
+      expect(result).toBeErr(Cl.uint(10003));
+    });
+
+    it("rejects signatures from non-signers", () => {
+      createProposal(wallet1);
+
+      const { result } = simnet.callPublicFn("multi-sig-wallet", "sign-proposal", [Cl.uint(1)], wallet3);
+      expect(result).toBeErr(Cl.uint(10001));
+    });
+
+    it("moves no assets when signing", () => {
+      createProposal(wallet1);
+
+      const { events } = simnet.callPublicFn("multi-sig-wallet", "sign-proposal", [Cl.uint(1)], wallet2);
+      expect(events.filter((event) => event.event.endsWith("_transfer_event"))).toHaveLength(0);
+    });
+  });
+
+  describe("Execution", () => {
+    it("requires enough signatures", () => {
+      createProposal(wallet1);
+      mineUntil(currentBlockTime() + DEFAULT_TIMELOCK);
+
+      const { result } = simnet.callPublicFn("multi-sig-wallet", "execute-proposal", [Cl.uint(1)], wallet1);
+      expect(result).toBeErr(Cl.uint(10004));
+    });
+
+    it("waits for the timelock to lapse", () => {
+      createProposal(wallet1);
+      simnet.callPublicFn("multi-sig-wallet", "sign-proposal", [Cl.uint(1)], wallet2);
+
+      const { result } = simnet.callPublicFn("multi-sig-wallet", "execute-proposal", [Cl.uint(1)], wallet1);
+      expect(result).toBeErr(Cl.uint(10001));
+    });
+
+    it("executes once after the timelock and never again", () => {
+      createProposal(wallet1);
+      simnet.callPublicFn("multi-sig-wallet", "sign-proposal", [Cl.uint(1)], wallet2);
+
+      const proposal = simnet.callReadOnlyFn("multi-sig-wallet", "get-proposal", [Cl.uint(1)], wallet1);
+      mineUntil(Number((proposal.result as any).value.value.value["execute-after"].value));
+
+      const first = simnet.callPublicFn("multi-sig-wallet", "execute-proposal", [Cl.uint(1)], wallet1);
+      expect(first.result).toBeOk(Cl.bool(true));
+
+      const second = simnet.callPublicFn("multi-sig-wallet", "execute-proposal", [Cl.uint(1)], wallet1);
+      expect(second.result).toBeErr(Cl.uint(10001));
+    });
+  });
 });
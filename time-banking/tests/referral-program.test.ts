@@ -1,21 +1,58 @@
 
 import { describe, expect, it } from "vitest";
+import { Cl, ClarityType, type TupleCV } from "@stacks/transactions";
 
 const accounts = simnet.getAccounts();
-const address1 = accounts.get("wallet_1")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
 
-/*
-  The test below is an example. To learn more, read the testing documentation here:
-  https://docs.hiro.so/stacks/clarinet-js-sdk
-*/
+// The print event of a call, split into its block-time stamp and the rest
+const printed = (events: { event: string; data: any }[]) => {
+  const print = events.find((event) => event.event === "print_event");
+  const { timestamp, ...fields } = (print!.data.value as TupleCV).value;
+  return { timestamp, fields };
+};
 
-describe("example tests", () => {
+describe("Referral Program - Clarity 4 Tests", () => {
   it("ensures simnet is well initialised", () => {
     expect(simnet.blockHeight).toBeDefined();
   });
 
-  // it("shows an example", () => {
-  //   const { result } = simnet.callReadOnlyFn("counter", "get-counter", [], address1);
-  //   expect(result).toBeUint(0);
-  // });
+  describe("Using a code", () => {
+    it("prints a referral-used event for the frontend's referrals panel", () => {
+      simnet.callPublicFn("referral-program", "generate-code", [Cl.stringAscii("ALICE10")], wallet1);
+
+      const { result, events } = simnet.callPublicFn(
+        "referral-program",
+        "use-code",
+        [Cl.stringAscii("ALICE10")],
+        wallet2
+      );
+      expect(result).toBeOk(Cl.bool(true));
+
+      const { timestamp, fields } = printed(events);
+      expect(fields).toStrictEqual({
+        event: Cl.stringAscii("referral-used"),
+        referrer: Cl.principal(wallet1),
+        referee: Cl.principal(wallet2),
+        code: Cl.stringAscii("ALICE10"),
+        "referrer-reward": Cl.uint(10),
+        "referee-reward": Cl.uint(5),
+      });
+      expect(timestamp.type).toBe(ClarityType.UInt);
+    });
+
+    it("prints nothing when the code is rejected", () => {
+      simnet.callPublicFn("referral-program", "generate-code", [Cl.stringAscii("ALICE10")], wallet1);
+
+      const { result, events } = simnet.callPublicFn(
+        "referral-program",
+        "use-code",
+        [Cl.stringAscii("ALICE10")],
+        wallet1
+      );
+      expect(result).toBeErr(Cl.uint(8003)); // ERR_SELF_REFERRAL
+      expect(events).toHaveLength(0);
+    });
+  });
 });
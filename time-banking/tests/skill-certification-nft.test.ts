@@ -1,21 +1,28 @@
 
 import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
 
 const accounts = simnet.getAccounts();
 const address1 = accounts.get("wallet_1")!;
 
-/*
-  The test below is an example. To learn more, read the testing documentation here:
-  https://docs.hiro.so/stacks/clarinet-js-sdk
-*/
-
-describe("example tests", () => {
+describe("Skill Certification NFT - Clarity 4 Tests", () => {
   it("ensures simnet is well initialised", () => {
     expect(simnet.blockHeight).toBeDefined();
   });
 
-  // it("shows an example", () => {
-  //   const { result } = simnet.callReadOnlyFn("counter", "get-counter", [], address1);
-  //   expect(result).toBeUint(0);
-  // });
+  describe("Token metadata", () => {
+    it("points get-token-uri at the frontend's SIP-016 metadata route", () => {
+      const { result } = simnet.callPublicFn(
+        "skill-certification-nft",
+        "get-token-uri",
+        [Cl.uint(1)],
+        address1
+      );
+
+      // SIP-016 wallets substitute the token id for {id}
+      expect(result).toBeOk(
+        Cl.some(Cl.stringAscii("https://timebank.io/api/certifications/{id}"))
+      );
+    });
+  });
 });
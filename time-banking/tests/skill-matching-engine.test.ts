@@ -1,21 +1,119 @@
 
 import { describe, expect, it } from "vitest";
+import { Cl, ClarityType, type TupleCV } from "@stacks/transactions";
 
 const accounts = simnet.getAccounts();
-const address1 = accounts.get("wallet_1")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
 
-/*
-  The test below is an example. To learn more, read the testing documentation here:
-  https://docs.hiro.so/stacks/clarinet-js-sdk
-*/
+// The print event of a call, split into its block-time stamp and the rest
+const printed = (events: { event: string; data: any }[]) => {
+  const print = events.find((event) => event.event === "print_event");
+  const { timestamp, ...fields } = (print!.data.value as TupleCV).value;
+  return { timestamp, fields };
+};
 
-describe("example tests", () => {
+const proposeMatch = () =>
+  simnet.callPublicFn(
+    "skill-matching-engine",
+    "propose-match",
+    [Cl.principal(wallet1), Cl.principal(wallet2), Cl.uint(3), Cl.uint(4), Cl.uint(25)],
+    wallet3
+  );
+
+describe("Skill Matching Engine - Clarity 4 Tests", () => {
   it("ensures simnet is well initialised", () => {
     expect(simnet.blockHeight).toBeDefined();
   });
 
-  // it("shows an example", () => {
-  //   const { result } = simnet.callReadOnlyFn("counter", "get-counter", [], address1);
-  //   expect(result).toBeUint(0);
-  // });
+  describe("Order book events", () => {
+    it("prints demand-created with the request's terms", () => {
+      const { result, events } = simnet.callPublicFn(
+        "skill-matching-engine",
+        "create-demand",
+        [Cl.uint(3), Cl.uint(4), Cl.uint(30)],
+        wallet1
+      );
+      expect(result).toBeOk(Cl.bool(true));
+
+      const { timestamp, fields } = printed(events);
+      expect(fields).toStrictEqual({
+        event: Cl.stringAscii("demand-created"),
+        requester: Cl.principal(wallet1),
+        "skill-id": Cl.uint(3),
+        "hours-needed": Cl.uint(4),
+        "max-rate": Cl.uint(30),
+      });
+      expect(timestamp.type).toBe(ClarityType.UInt);
+    });
+
+    it("prints supply-created with the offer's terms", () => {
+      const { result, events } = simnet.callPublicFn(
+        "skill-matching-engine",
+        "create-supply",
+        [Cl.uint(3), Cl.uint(10), Cl.uint(20)],
+        wallet2
+      );
+      expect(result).toBeOk(Cl.bool(true));
+
+      const { fields } = printed(events);
+      expect(fields).toStrictEqual({
+        event: Cl.stringAscii("supply-created"),
+        provider: Cl.principal(wallet2),
+        "skill-id": Cl.uint(3),
+        "hours-available": Cl.uint(10),
+        "min-rate": Cl.uint(20),
+      });
+    });
+  });
+
+  describe("Match events", () => {
+    it("prints match-proposed with the new match id", () => {
+      const { result, events } = proposeMatch();
+      expect(result).toBeOk(Cl.uint(1));
+
+      const { fields } = printed(events);
+      expect(fields).toStrictEqual({
+        event: Cl.stringAscii("match-proposed"),
+        "match-id": Cl.uint(1),
+        requester: Cl.principal(wallet1),
+        provider: Cl.principal(wallet2),
+        "skill-id": Cl.uint(3),
+        hours: Cl.uint(4),
+        rate: Cl.uint(25),
+      });
+    });
+
+    it("prints match-accepted when the requester accepts", () => {
+      proposeMatch();
+
+      const { result, events } = simnet.callPublicFn(
+        "skill-matching-engine",
+        "accept-match",
+        [Cl.uint(1)],
+        wallet1
+      );
+      expect(result).toBeOk(Cl.bool(true));
+
+      const { fields } = printed(events);
+      expect(fields).toStrictEqual({
+        event: Cl.stringAscii("match-accepted"),
+        "match-id": Cl.uint(1),
+      });
+    });
+
+    it("prints nothing when someone else tries to accept", () => {
+      proposeMatch();
+
+      const { result, events } = simnet.callPublicFn(
+        "skill-matching-engine",
+        "accept-match",
+        [Cl.uint(1)],
+        wallet2
+      );
+      expect(result).toBeErr(Cl.uint(7001)); // ERR_UNAUTHORIZED
+      expect(events).toHaveLength(0);
+    });
+  });
 });
@@ -1,21 +1,110 @@
-
 import { describe, expect, it } from "vitest";
+import { Cl, ClarityType, type TupleCV } from "@stacks/transactions";
+import * as timeTokenFt from "../../frontend/src/lib/contracts/generated/timeTokenFt";
+import { callPublic, simnetReader } from "./bindings";
 
 const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
 const address1 = accounts.get("wallet_1")!;
+const address2 = accounts.get("wallet_2")!;
+
+// The print event of a call, split into its block-time stamp and the rest
+const printed = (events: { event: string; data: any }[], stamp = "timestamp") => {
+  const print = events.find((event) => event.event === "print_event");
+  const { [stamp]: timestamp, ...fields } = (print!.data.value as TupleCV).value;
+  return { timestamp, fields };
+};
 
-/*
-  The test below is an example. To learn more, read the testing documentation here:
-  https://docs.hiro.so/stacks/clarinet-js-sdk
-*/
+const stake = (amount: number) => {
+  simnet.callPublicFn("time-token-ft", "mint", [Cl.principal(address1), Cl.uint(amount)], deployer);
+  return simnet.callPublicFn("time-token-ft", "stake", [Cl.uint(amount)], address1);
+};
 
 describe("example tests", () => {
   it("ensures simnet is well initialised", () => {
     expect(simnet.blockHeight).toBeDefined();
   });
+});
+
+describe("token metadata", () => {
+  it("serves the SIP-010 getters as read-only functions", () => {
+    const read = (fn: string, args = [] as any[]) =>
+      simnet.callReadOnlyFn("time-token-ft", fn, args, address1).result;
+
+    expect(read("get-symbol")).toBeOk(Cl.stringAscii("TIME"));
+    expect(read("get-decimals")).toBeOk(Cl.uint(6));
+    expect(read("get-balance", [Cl.principal(address1)])).toBeOk(Cl.uint(0));
+    expect(read("get-total-supply")).toBeOk(Cl.uint(0));
+  });
+});
+
+describe("staking and allowance events", () => {
+  it("prints tokens-staked", () => {
+    const { result, events } = stake(10_000_000);
+    expect(result).toBeOk(Cl.bool(true));
+
+    const { timestamp, fields } = printed(events, "staked-at");
+    expect(fields).toStrictEqual({
+      event: Cl.stringAscii("tokens-staked"),
+      staker: Cl.principal(address1),
+      amount: Cl.uint(10_000_000),
+    });
+    expect(timestamp.type).toBe(ClarityType.UInt);
+  });
+
+  it("prints tokens-unstaked", () => {
+    stake(10_000_000);
+
+    const { result, events } = simnet.callPublicFn(
+      "time-token-ft",
+      "unstake",
+      [Cl.uint(4_000_000)],
+      address1
+    );
+    expect(result).toBeOk(Cl.bool(true));
 
-  // it("shows an example", () => {
-  //   const { result } = simnet.callReadOnlyFn("counter", "get-counter", [], address1);
-  //   expect(result).toBeUint(0);
-  // });
+    const { timestamp, fields } = printed(events);
+    expect(fields).toStrictEqual({
+      event: Cl.stringAscii("tokens-unstaked"),
+      staker: Cl.principal(address1),
+      amount: Cl.uint(4_000_000),
+    });
+    expect(timestamp.type).toBe(ClarityType.UInt);
+  });
+
+  it("prints allowance-approved", () => {
+    const { result, events } = simnet.callPublicFn(
+      "time-token-ft",
+      "approve",
+      [Cl.principal(address2), Cl.uint(500)],
+      address1
+    );
+    expect(result).toBeOk(Cl.bool(true));
+
+    const { timestamp, fields } = printed(events);
+    expect(fields).toStrictEqual({
+      event: Cl.stringAscii("allowance-approved"),
+      owner: Cl.principal(address1),
+      spender: Cl.principal(address2),
+      amount: Cl.uint(500),
+    });
+    expect(timestamp.type).toBe(ClarityType.UInt);
+  });
+});
+
+describe("generated bindings", () => {
+  it("stakes and reads the stake back through the typed bindings", async () => {
+    callPublic(timeTokenFt.mintCall({ recipient: address1, amount: 20_000_000 }), deployer);
+
+    const { result } = callPublic(timeTokenFt.stakeCall({ amount: 10_000_000 }), address1);
+    expect(result).toEqual({ ok: true, value: true });
+
+    const info = await timeTokenFt.getStakeInfo(simnetReader(address1), { staker: address1 });
+    expect(info.ok && info.value?.amount).toBe(10_000_000n);
+  });
+
+  it("decodes contract errors", () => {
+    const { result } = callPublic(timeTokenFt.stakeCall({ amount: 1 }), address1);
+    expect(result).toEqual({ ok: false, error: 3003n });
+  });
 });
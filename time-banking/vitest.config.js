@@ -2,7 +2,7 @@
 /// <reference types="vitest" />
 
 import { defineConfig } from "vite";
-import { vitestSetupFilePath, getClarinetVitestsArgv } from "@hirosystems/clarinet-sdk/vitest";
+import { vitestSetupFilePath, getClarinetVitestsArgv } from "@stacks/clarinet-sdk/vitest";
 
 /*
   In this file, Vitest is configured so that it works seamlessly with Clarinet and the Simnet.
@@ -10,7 +10,7 @@ import { vitestSetupFilePath, getClarinetVitestsArgv } from "@hirosystems/clarin
   The `vitest-environment-clarinet` will initialise the clarinet-sdk
   and make the `simnet` object available globally in the test files.
 
-  `vitestSetupFilePath` points to a file in the `@hirosystems/clarinet-sdk` package that does two things:
+  `vitestSetupFilePath` points to a file in the `@stacks/clarinet-sdk` package that does two things:
     - run `before` hooks to initialize the simnet and `after` hooks to collect costs and coverage reports.
     - load custom vitest matchers to work with Clarity values (such as `expect(...).toBeUint()`)
 
@@ -20,6 +20,11 @@ import { vitestSetupFilePath, getClarinetVitestsArgv } from "@hirosystems/clarin
 */
 
 export default defineConfig({
+  resolve: {
+    // tests/bindings.ts pulls in the frontend's generated bindings; load their
+    // @stacks/transactions from this project so the frontend needn't be installed
+    dedupe: ["@stacks/transactions"],
+  },
   test: {
     environment: "clarinet", // use vitest-environment-clarinet
     pool: "forks",